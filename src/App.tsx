@@ -4,7 +4,9 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { TimerProvider } from "@/contexts/TimerContext";
+import { OfflineSyncProvider } from "@/contexts/OfflineSyncContext";
 import { QuickTimerWidget } from "@/components/QuickTimerWidget";
+import { IdleTimeDialog } from "@/components/IdleTimeDialog";
 import ProtectedRoute from "@/components/ProtectedRoute";
 import Auth from "./pages/Auth";
 import Onboarding from "./pages/Onboarding";
@@ -23,6 +25,12 @@ import TimesheetApprovals from "./pages/TimesheetApprovals";
 import Billing from "./pages/Billing";
 import Analytics from "./pages/Analytics";
 import Reports from "./pages/Reports";
+import Clients from "./pages/Clients";
+import Invoices from "./pages/Invoices";
+import InvoiceDetails from "./pages/InvoiceDetails";
+import Sprints from "./pages/Sprints";
+import SprintDetails from "./pages/SprintDetails";
+import SprintPlanning from "./pages/SprintPlanning";
 import DeveloperSettings from "./pages/DeveloperSettings";
 import NotFound from "./pages/NotFound";
 import AccessDenied from "./pages/AccessDenied";
@@ -33,168 +41,219 @@ const queryClient = new QueryClient();
 const App = () => (
   <QueryClientProvider client={queryClient}>
     <TooltipProvider>
-      <TimerProvider>
-        <Toaster />
-        <Sonner />
-        <BrowserRouter>
-          <Routes>
-            {/* Public routes */}
-            <Route path="/auth" element={<Auth />} />
+      <OfflineSyncProvider>
+        <TimerProvider>
+          <Toaster />
+          <Sonner />
+          <BrowserRouter>
+            <Routes>
+              {/* Public routes */}
+              <Route path="/auth" element={<Auth />} />
 
-            {/* Protected routes */}
-            <Route
-              path="/"
-              element={
-                <ProtectedRoute>
-                  <Dashboard />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/onboarding"
-              element={
-                <ProtectedRoute>
-                  <Onboarding />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/dashboard"
-              element={
-                <ProtectedRoute>
-                  <Dashboard />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/settings"
-              element={
-                <ProtectedRoute>
-                  <Settings />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/teams"
-              element={
-                <ProtectedRoute>
-                  <Teams />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/teams/:teamId"
-              element={
-                <ProtectedRoute>
-                  <TeamDetails />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/projects"
-              element={
-                <ProtectedRoute>
-                  <Projects />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/projects/:projectId"
-              element={
-                <ProtectedRoute>
-                  <ProjectDetails />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/tasks"
-              element={
-                <ProtectedRoute>
-                  <Tasks />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/tasks/:taskId"
-              element={
-                <ProtectedRoute>
-                  <TaskDetails />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/time-entries"
-              element={
-                <ProtectedRoute>
-                  <TimeEntries />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/timesheets"
-              element={
-                <ProtectedRoute>
-                  <Timesheets />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/timesheets/approvals"
-              element={
-                <ProtectedRoute>
-                  <TimesheetApprovals />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/settings/teams"
-              element={
-                <ProtectedRoute>
-                  <TeamSettings />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/settings/billing"
-              element={
-                <ProtectedRoute>
-                  <Billing />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/settings/developer"
-              element={
-                <ProtectedRoute>
-                  <DeveloperSettings />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/analytics"
-              element={
-                <ProtectedRoute>
-                  <Analytics />
-                </ProtectedRoute>
-              }
-            />
-            <Route
-              path="/reports"
-              element={
-                <ProtectedRoute>
-                  <Reports />
-                </ProtectedRoute>
-              }
-            />
-            {/* Error Pages */}
-            <Route path="/403" element={<AccessDenied />} />
-            <Route path="/500" element={<ServerError />} />
-            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-            <Route path="*" element={<NotFound />} />
-          </Routes>
-          <QuickTimerWidget />
-        </BrowserRouter>
-      </TimerProvider>
+              {/* Protected routes */}
+              <Route
+                path="/"
+                element={
+                  <ProtectedRoute>
+                    <Dashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/onboarding"
+                element={
+                  <ProtectedRoute>
+                    <Onboarding />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/dashboard"
+                element={
+                  <ProtectedRoute>
+                    <Dashboard />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings"
+                element={
+                  <ProtectedRoute>
+                    <Settings />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/teams"
+                element={
+                  <ProtectedRoute>
+                    <Teams />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/teams/:teamId"
+                element={
+                  <ProtectedRoute>
+                    <TeamDetails />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/projects"
+                element={
+                  <ProtectedRoute>
+                    <Projects />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/projects/:projectId"
+                element={
+                  <ProtectedRoute>
+                    <ProjectDetails />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/tasks"
+                element={
+                  <ProtectedRoute>
+                    <Tasks />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/tasks/:taskId"
+                element={
+                  <ProtectedRoute>
+                    <TaskDetails />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/time-entries"
+                element={
+                  <ProtectedRoute>
+                    <TimeEntries />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/timesheets"
+                element={
+                  <ProtectedRoute>
+                    <Timesheets />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/timesheets/approvals"
+                element={
+                  <ProtectedRoute>
+                    <TimesheetApprovals />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings/teams"
+                element={
+                  <ProtectedRoute>
+                    <TeamSettings />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings/billing"
+                element={
+                  <ProtectedRoute>
+                    <Billing />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/settings/developer"
+                element={
+                  <ProtectedRoute>
+                    <DeveloperSettings />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/analytics"
+                element={
+                  <ProtectedRoute>
+                    <Analytics />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/reports"
+                element={
+                  <ProtectedRoute>
+                    <Reports />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/clients"
+                element={
+                  <ProtectedRoute>
+                    <Clients />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/invoices"
+                element={
+                  <ProtectedRoute>
+                    <Invoices />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/invoices/:invoiceId"
+                element={
+                  <ProtectedRoute>
+                    <InvoiceDetails />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/sprints"
+                element={
+                  <ProtectedRoute>
+                    <Sprints />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/sprints/:sprintId"
+                element={
+                  <ProtectedRoute>
+                    <SprintDetails />
+                  </ProtectedRoute>
+                }
+              />
+              <Route
+                path="/sprints/:sprintId/plan"
+                element={
+                  <ProtectedRoute>
+                    <SprintPlanning />
+                  </ProtectedRoute>
+                }
+              />
+              {/* Error Pages */}
+              <Route path="/403" element={<AccessDenied />} />
+              <Route path="/500" element={<ServerError />} />
+              {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+              <Route path="*" element={<NotFound />} />
+            </Routes>
+            <QuickTimerWidget />
+            <IdleTimeDialog />
+          </BrowserRouter>
+        </TimerProvider>
+      </OfflineSyncProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
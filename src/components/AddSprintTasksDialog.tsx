@@ -0,0 +1,141 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { fetchSprintBacklog, type BacklogTask, type Sprint } from "@/lib/sprints";
+
+interface AddSprintTasksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  sprint: Sprint;
+}
+
+export function AddSprintTasksDialog({ open, onOpenChange, onSuccess, sprint }: AddSprintTasksDialogProps) {
+  const { toast } = useToast();
+  const [backlog, setBacklog] = useState<BacklogTask[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [search, setSearch] = useState("");
+  const [loading, setLoading] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setSelected(new Set());
+    setSearch("");
+    setLoading(true);
+    fetchSprintBacklog(supabase, sprint)
+      .then(setBacklog)
+      .catch(error => console.error("Error loading backlog:", error))
+      .finally(() => setLoading(false));
+  }, [open, sprint]);
+
+  function toggle(taskId: string, checked: boolean) {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(taskId);
+      else next.delete(taskId);
+      return next;
+    });
+  }
+
+  async function handleAdd() {
+    if (selected.size === 0) return;
+
+    setSubmitting(true);
+    const { error } = await supabase
+      .from("sprint_tasks")
+      .insert([...selected].map(taskId => ({ sprint_id: sprint.id, task_id: taskId })));
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add tasks",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `${selected.size} task${selected.size === 1 ? "" : "s"} added to ${sprint.name}`,
+    });
+    onSuccess();
+    onOpenChange(false);
+  }
+
+  const query = search.trim().toLowerCase();
+  const visible = backlog.filter(task =>
+    !query || task.code.toLowerCase().includes(query) || task.title.toLowerCase().includes(query)
+  );
+  const selectedHours = backlog
+    .filter(task => selected.has(task.id))
+    .reduce((sum, task) => sum + Number(task.estimated_hours || 0), 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Add Tasks to {sprint.name}</DialogTitle>
+          <DialogDescription>
+            {sprint.status === "active"
+              ? "The sprint is running: tasks added now count as added scope, not commitment."
+              : "Open tasks of the sprint's projects that aren't planned in another sprint."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Input
+          placeholder="Search by code or title"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+
+        <div className="flex-1 overflow-y-auto border rounded-lg divide-y min-h-[200px]">
+          {loading ? (
+            <p className="text-center text-muted-foreground py-8">Loading backlog...</p>
+          ) : visible.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No tasks available</p>
+          ) : (
+            visible.map(task => (
+              <label key={task.id} className="flex items-center gap-3 p-3 cursor-pointer hover:bg-accent">
+                <Checkbox
+                  checked={selected.has(task.id)}
+                  onCheckedChange={(checked) => toggle(task.id, checked === true)}
+                />
+                <span className="font-mono text-xs text-muted-foreground">{task.code}</span>
+                <span className="flex-1 truncate">{task.title}</span>
+                <span className="text-sm text-muted-foreground">
+                  {task.estimated_hours ? `${task.estimated_hours}h` : "No estimate"}
+                </span>
+              </label>
+            ))
+          )}
+        </div>
+
+        <DialogFooter className="items-center">
+          <span className="text-sm text-muted-foreground mr-auto">
+            {selected.size} selected · {selectedHours.toFixed(1)}h
+          </span>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleAdd} disabled={submitting || selected.size === 0}>
+            {submitting ? "Adding..." : "Add Tasks"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,383 @@
+import { useEffect, useState } from 'react';
+import { addDays, format, formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, ExternalLink, KeyRound, Plus } from 'lucide-react';
+import {
+  API_RATE_LIMIT,
+  API_SCOPES,
+  API_TOKEN_EXPIRY_OPTIONS,
+  API_TOKEN_KIND_LABELS,
+  apiTokenState,
+  type ApiScope,
+  type ApiToken,
+  type ApiTokenKind,
+} from '@/lib/apiTokens';
+import { API_VERSION } from '@/lib/restApi';
+
+interface ApiTokensCardProps {
+  organizationId: string;
+  isAdmin: boolean;
+}
+
+const SCOPES = Object.keys(API_SCOPES) as ApiScope[];
+
+const STATE_VARIANTS = {
+  active: 'default',
+  expired: 'secondary',
+  revoked: 'destructive',
+} as const;
+
+const API_BASE_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/api/${API_VERSION}`;
+
+const EMPTY_FORM = {
+  name: '',
+  kind: 'personal' as ApiTokenKind,
+  scopes: ['read:projects', 'read:tasks', 'read:time_entries', 'write:time_entries'] as string[],
+  expiry: '90',
+};
+
+export function ApiTokensCard({ organizationId, isAdmin }: ApiTokensCardProps) {
+  const { toast } = useToast();
+  const [tokens, setTokens] = useState<ApiToken[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [creating, setCreating] = useState(false);
+  const [newToken, setNewToken] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadTokens();
+  }, [organizationId]);
+
+  async function loadTokens() {
+    setLoading(true);
+    // RLS returns the user's own personal tokens, plus the organization keys for admins
+    const { data, error } = await supabase
+      .from('api_tokens')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error loading API tokens:', error);
+    } else {
+      setTokens(data || []);
+    }
+    setLoading(false);
+  }
+
+  function openDialog(kind: ApiTokenKind) {
+    setForm({ ...EMPTY_FORM, kind });
+    setNewToken(null);
+    setDialogOpen(true);
+  }
+
+  function toggleScope(scope: string, checked: boolean) {
+    setForm(prev => ({
+      ...prev,
+      scopes: checked ? [...prev.scopes, scope] : prev.scopes.filter(s => s !== scope),
+    }));
+  }
+
+  async function handleCreate() {
+    if (!form.name.trim()) {
+      toast({
+        title: 'Name required',
+        description: 'Give the token a name so you can recognize it later',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (form.scopes.length === 0) {
+      toast({
+        title: 'No scopes selected',
+        description: 'Pick at least one scope for this token',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setCreating(true);
+    const { data, error } = await supabase.rpc('create_api_token', {
+      p_org_id: organizationId,
+      p_kind: form.kind,
+      p_name: form.name.trim(),
+      p_scopes: form.scopes,
+      p_expires_at: form.expiry === 'never' ? null : addDays(new Date(), Number(form.expiry)).toISOString(),
+    });
+    setCreating(false);
+
+    if (error) {
+      toast({
+        title: 'Failed to create token',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setNewToken(data);
+    loadTokens();
+  }
+
+  async function handleRevoke(token: ApiToken) {
+    const { error } = await supabase.rpc('revoke_api_token', { p_token_id: token.id });
+
+    if (error) {
+      toast({
+        title: 'Failed to revoke token',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Token revoked' });
+    loadTokens();
+  }
+
+  function copy(text: string, title: string) {
+    navigator.clipboard.writeText(text);
+    toast({ title });
+  }
+
+  function renderTokens(kind: ApiTokenKind) {
+    const list = tokens.filter(token => token.kind === kind);
+
+    return (
+      <div className="space-y-3">
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <h3 className="font-semibold">{API_TOKEN_KIND_LABELS[kind]}s</h3>
+            <p className="text-sm text-muted-foreground">
+              {kind === 'personal'
+                ? 'Act as you, with your permissions. Only you can see them.'
+                : 'Shared by the organization\'s admins, for integrations that shouldn\'t depend on one member\'s token.'}
+            </p>
+          </div>
+          <Button size="sm" variant="outline" onClick={() => openDialog(kind)} className="shrink-0">
+            <Plus className="mr-2 h-4 w-4" />
+            {kind === 'personal' ? 'New token' : 'New key'}
+          </Button>
+        </div>
+
+        {!loading && list.length === 0 && (
+          <p className="text-sm text-muted-foreground">None yet.</p>
+        )}
+
+        {list.map(token => {
+          const state = apiTokenState(token);
+          return (
+            <div key={token.id} className="space-y-2 rounded-lg border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="truncate font-medium">{token.name}</p>
+                    <Badge variant={STATE_VARIANTS[state]}>{state}</Badge>
+                  </div>
+                  <p className="font-mono text-xs text-muted-foreground">{token.token_prefix}…</p>
+                </div>
+                {state === 'active' && (
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" className="shrink-0 text-destructive">
+                        Revoke
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Revoke "{token.name}"?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Scripts and integrations using it stop working right away. This can't be undone.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRevoke(token)}>Revoke</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                )}
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {token.scopes.map(scope => (
+                  <Badge key={scope} variant="outline" className="font-mono text-xs">{scope}</Badge>
+                ))}
+              </div>
+
+              <p className="text-xs text-muted-foreground">
+                Created {format(new Date(token.created_at), 'MMM d, yyyy')}
+                {' · '}
+                {token.revoked_at
+                  ? `Revoked ${format(new Date(token.revoked_at), 'MMM d, yyyy')}`
+                  : token.expires_at
+                    ? `${state === 'expired' ? 'Expired' : 'Expires'} ${format(new Date(token.expires_at), 'MMM d, yyyy')}`
+                    : 'Never expires'}
+                {' · '}
+                {token.last_used_at
+                  ? `Last used ${formatDistanceToNow(new Date(token.last_used_at), { addSuffix: true })}`
+                  : 'Never used'}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center gap-2">
+          <KeyRound className="h-5 w-5" />
+          <CardTitle>API Tokens</CardTitle>
+        </div>
+        <CardDescription>
+          Use the REST API from scripts and other tools, e.g. to log time without signing in. Send the token
+          as <code className="font-mono text-xs">Authorization: Bearer &lt;token&gt;</code>; each token may
+          make {API_RATE_LIMIT} requests per minute.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <span className="text-muted-foreground">Base URL:</span>
+          <code className="rounded bg-muted px-2 py-0.5 font-mono text-xs">{API_BASE_URL}</code>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => copy(API_BASE_URL, 'Base URL copied')}
+            aria-label="Copy base URL"
+          >
+            <Copy className="h-4 w-4" />
+          </Button>
+          <Button variant="link" size="sm" asChild>
+            <a href={`${API_BASE_URL}/openapi.json`} target="_blank" rel="noreferrer">
+              OpenAPI document
+              <ExternalLink className="ml-1 h-3 w-3" />
+            </a>
+          </Button>
+        </div>
+
+        {renderTokens('personal')}
+        {isAdmin && renderTokens('organization')}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          {newToken ? (
+            <>
+              <DialogHeader>
+                <DialogTitle>Copy your token</DialogTitle>
+                <DialogDescription>
+                  This is the only time it is shown. Store it somewhere safe; if you lose it, revoke it and
+                  create a new one.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="flex items-center gap-2 py-2">
+                <Input value={newToken} readOnly className="font-mono text-xs" onFocus={(e) => e.target.select()} />
+                <Button variant="outline" size="icon" onClick={() => copy(newToken, 'Token copied')} aria-label="Copy token">
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+              <DialogFooter>
+                <Button onClick={() => setDialogOpen(false)}>Done</Button>
+              </DialogFooter>
+            </>
+          ) : (
+            <>
+              <DialogHeader>
+                <DialogTitle>New {API_TOKEN_KIND_LABELS[form.kind].toLowerCase()}</DialogTitle>
+                <DialogDescription>
+                  {form.kind === 'personal'
+                    ? 'The token can do what you can do in this organization, limited to the scopes below.'
+                    : 'The key acts as you while you are an admin, limited to the scopes below. It stops working if you lose admin access.'}
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-2">
+                <div className="space-y-2">
+                  <Label htmlFor="api-token-name">Name</Label>
+                  <Input
+                    id="api-token-name"
+                    value={form.name}
+                    onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                    placeholder="e.g. Time tracking script"
+                    autoComplete="off"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>Expires</Label>
+                  <Select value={form.expiry} onValueChange={(expiry) => setForm(prev => ({ ...prev, expiry }))}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {API_TOKEN_EXPIRY_OPTIONS.map(option => (
+                        <SelectItem key={option.label} value={option.days === null ? 'never' : String(option.days)}>
+                          {option.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label>Scopes</Label>
+                  <div className="space-y-2">
+                    {SCOPES.map(scope => (
+                      <label key={scope} className="flex items-start gap-2 text-sm">
+                        <Checkbox
+                          checked={form.scopes.includes(scope)}
+                          onCheckedChange={(checked) => toggleScope(scope, checked === true)}
+                          className="mt-0.5"
+                        />
+                        <span>
+                          <span className="font-mono text-xs">{scope}</span>
+                          <span className="block text-xs text-muted-foreground">{API_SCOPES[scope]}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={creating}>
+                  Cancel
+                </Button>
+                <Button onClick={handleCreate} disabled={creating}>
+                  {creating ? 'Creating...' : 'Create'}
+                </Button>
+              </DialogFooter>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,106 @@
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { AlertTriangle, X } from "lucide-react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentOrganization } from "@/lib/auth";
+import { useToast } from "@/hooks/use-toast";
+import { formatBudgetAmount } from "@/lib/budgets";
+import type { Tables } from "@/integrations/supabase/types";
+
+type BudgetAlert = Tables<"project_budget_alerts"> & {
+  projects: { name: string } | null;
+  project_budgets: Tables<"project_budgets"> | null;
+  project_budget_phases: { name: string } | null;
+};
+
+/**
+ * Open 50/80/100% budget alerts for organization admins. Renders nothing for
+ * other roles or when there are no open alerts.
+ */
+export function BudgetAlertsCard() {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  const { data: alerts = [] } = useQuery<BudgetAlert[]>({
+    queryKey: ["dashboard-budget-alerts"],
+    queryFn: async () => {
+      const org = await getCurrentOrganization();
+      if (!org || org.role !== "admin") return [];
+
+      const { data, error } = await supabase
+        .from("project_budget_alerts")
+        .select("*, projects(name), project_budgets(*), project_budget_phases(name)")
+        .eq("organization_id", org.id)
+        .is("acknowledged_at", null)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      return (data || []) as BudgetAlert[];
+    },
+  });
+
+  async function handleDismiss(alert: BudgetAlert) {
+    const { data: { user } } = await supabase.auth.getUser();
+    const { error } = await supabase
+      .from("project_budget_alerts")
+      .update({ acknowledged_at: new Date().toISOString(), acknowledged_by: user?.id })
+      .eq("id", alert.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to dismiss alert",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    queryClient.invalidateQueries({ queryKey: ["dashboard-budget-alerts"] });
+  }
+
+  if (alerts.length === 0) return null;
+
+  return (
+    <Card className="p-6 mb-8">
+      <h2 className="text-xl font-semibold mb-4 flex items-center gap-2">
+        <AlertTriangle className="w-5 h-5 text-yellow-600" />
+        Budget Alerts
+      </h2>
+      <div className="space-y-3">
+        {alerts.map(alert => (
+          <div key={alert.id} className="flex items-center justify-between p-3 border rounded-lg">
+            <button
+              className="text-left flex-1"
+              onClick={() => navigate(`/projects/${alert.project_id}`)}
+            >
+              <div className="flex items-center gap-2">
+                <Badge variant={alert.threshold >= 100 ? "destructive" : "secondary"}>
+                  {alert.threshold}%
+                </Badge>
+                <span className="font-medium">{alert.projects?.name}</span>
+                {alert.project_budget_phases && (
+                  <span className="text-muted-foreground">· {alert.project_budget_phases.name}</span>
+                )}
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {alert.project_budgets
+                  ? `${formatBudgetAmount(alert.project_budgets, alert.consumed)} of ${formatBudgetAmount(alert.project_budgets, alert.budget_amount)} used`
+                  : `${alert.consumed} of ${alert.budget_amount} used`}
+                {" · "}
+                {format(new Date(alert.created_at), "MMM d, yyyy")}
+              </p>
+            </button>
+            <Button variant="ghost" size="sm" onClick={() => handleDismiss(alert)}>
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </Card>
+  );
+}
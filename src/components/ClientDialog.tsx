@@ -0,0 +1,234 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import type { Tables } from "@/integrations/supabase/types";
+
+const clientSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(200, "Name must be at most 200 characters"),
+  email: z.string().trim().email("Invalid email").or(z.literal("")),
+  address: z.string().max(1000, "Address must be at most 1000 characters"),
+  tax_id: z.string().max(50, "Tax ID must be at most 50 characters"),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, "Use a 3-letter currency code"),
+  payment_terms_days: z.coerce.number().int().min(0, "At least 0 days").max(365, "At most 365 days"),
+  notes: z.string().max(1000, "Notes must be at most 1000 characters"),
+});
+
+type ClientFormData = z.infer<typeof clientSchema>;
+
+interface ClientDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  organizationId: string;
+  client?: Tables<"clients"> | null;
+}
+
+function toFormData(client?: Tables<"clients"> | null): ClientFormData {
+  return {
+    name: client?.name || "",
+    email: client?.email || "",
+    address: client?.address || "",
+    tax_id: client?.tax_id || "",
+    currency: client?.currency || "USD",
+    payment_terms_days: client?.payment_terms_days ?? 30,
+    notes: client?.notes || "",
+  };
+}
+
+export function ClientDialog({ open, onOpenChange, onSuccess, organizationId, client }: ClientDialogProps) {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState(false);
+
+  const form = useForm<ClientFormData>({
+    resolver: zodResolver(clientSchema),
+    defaultValues: toFormData(client),
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset(toFormData(client));
+    }
+  }, [client, open, form]);
+
+  async function onSubmit(data: ClientFormData) {
+    setSubmitting(true);
+
+    const values = {
+      name: data.name,
+      email: data.email || null,
+      address: data.address || null,
+      tax_id: data.tax_id || null,
+      currency: data.currency.toUpperCase(),
+      payment_terms_days: data.payment_terms_days,
+      notes: data.notes || null,
+    };
+
+    try {
+      const { error } = client
+        ? await supabase.from("clients").update(values).eq("id", client.id)
+        : await supabase.from("clients").insert({ ...values, organization_id: organizationId });
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: client ? "Client updated successfully" : "Client created successfully",
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving client:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save client",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{client ? "Edit Client" : "New Client"}</DialogTitle>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name *</FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g., Acme Corp" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Billing email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="billing@acme.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="tax_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Tax ID</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="address"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Address</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="grid grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input maxLength={3} className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="payment_terms_days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Payment terms (days)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={365} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Textarea rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,327 @@
+import { useEffect, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Building2,
+  CheckSquare,
+  Clock,
+  FolderKanban,
+  MessageSquare,
+  Play,
+  Search,
+  User,
+  Users,
+  type LucideIcon,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { useTimer } from "@/contexts/TimerContext";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent } from "@/components/ui/dialog";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/ui/command";
+import { LogTimeManuallyDialog } from "@/components/LogTimeManuallyDialog";
+import type { Organization } from "@/lib/auth";
+
+type ResultKind = "task" | "project" | "team" | "member" | "comment" | "time_entry";
+
+interface SearchResult {
+  kind: ResultKind;
+  id: string;
+  code: string | null;
+  title: string | null;
+  subtitle: string | null;
+  task_id: string | null;
+  project_id: string | null;
+  rank: number;
+}
+
+/** "search" is the main list; the others pick the target of an action */
+type Mode = "search" | "start_timer" | "log_time" | "switch_org";
+
+const RESULT_GROUPS: { kind: ResultKind; heading: string; icon: LucideIcon }[] = [
+  { kind: "task", heading: "Tasks", icon: CheckSquare },
+  { kind: "project", heading: "Projects", icon: FolderKanban },
+  { kind: "team", heading: "Teams", icon: Users },
+  { kind: "member", heading: "Members", icon: User },
+  { kind: "comment", heading: "Comments", icon: MessageSquare },
+  { kind: "time_entry", heading: "Time Entries", icon: Clock },
+];
+
+const PLACEHOLDERS: Record<Mode, string> = {
+  search: "Search tasks, projects, people, comments...",
+  start_timer: "Start a timer on which task?",
+  log_time: "Log time on which task?",
+  switch_org: "Switch to which organization?",
+};
+
+const SEARCH_DELAY_MS = 200;
+
+interface CommandPaletteProps {
+  organizationId: string | null;
+  organizations: Organization[];
+  onSwitchOrg: (orgId: string) => void;
+}
+
+export function CommandPalette({ organizationId, organizations, onSwitchOrg }: CommandPaletteProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { timerState, startTimer } = useTimer();
+  const [open, setOpen] = useState(false);
+  const [mode, setMode] = useState<Mode>("search");
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
+  const [logTimeOpen, setLogTimeOpen] = useState(false);
+  const [logTimeTaskId, setLogTimeTaskId] = useState<string | undefined>();
+  const latestSearch = useRef(0);
+
+  useEffect(() => {
+    function handleKeyDown(e: KeyboardEvent) {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(prev => !prev);
+      }
+    }
+
+    document.addEventListener("keydown", handleKeyDown);
+    return () => document.removeEventListener("keydown", handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!open) {
+      setMode("search");
+      setQuery("");
+      setResults([]);
+    }
+  }, [open]);
+
+  useEffect(() => {
+    const text = query.trim();
+    if (!open || !organizationId || mode === "switch_org" || !text) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    setSearching(true);
+    const timeout = setTimeout(() => search(text), SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [query, open, mode, organizationId]);
+
+  async function search(text: string) {
+    // Only the response to the latest keystroke may replace the results
+    const searchId = ++latestSearch.current;
+
+    const { data, error } = await supabase.rpc("search_everything", {
+      p_org_id: organizationId,
+      p_query: text,
+      p_limit: mode === "search" ? 5 : 10,
+    });
+
+    if (searchId !== latestSearch.current) return;
+    setSearching(false);
+
+    if (error) {
+      console.error("Error searching:", error);
+      setResults([]);
+      return;
+    }
+
+    setResults((data || []) as SearchResult[]);
+  }
+
+  function changeMode(next: Mode) {
+    setMode(next);
+    setQuery("");
+    setResults([]);
+  }
+
+  function matches(label: string) {
+    return label.toLowerCase().includes(query.trim().toLowerCase());
+  }
+
+  function openResult(result: SearchResult) {
+    setOpen(false);
+
+    switch (result.kind) {
+      case "task":
+        navigate(`/tasks/${result.id}`);
+        break;
+      case "project":
+        navigate(`/projects/${result.id}`);
+        break;
+      case "team":
+        navigate(`/teams/${result.id}`);
+        break;
+      case "member":
+        navigate(`/tasks?assignee=${result.id}`);
+        break;
+      case "comment":
+        navigate(`/tasks/${result.task_id}`);
+        break;
+      case "time_entry":
+        navigate(result.task_id ? `/tasks/${result.task_id}` : "/time-entries");
+        break;
+    }
+  }
+
+  async function handleStartTimer(task: SearchResult | null) {
+    setOpen(false);
+
+    if (timerState.isRunning) {
+      toast({
+        title: "Timer Already Running",
+        description: "Another timer is already running. Stop it first.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await startTimer(
+      "quick_timer",
+      undefined,
+      task ? { taskId: task.id, taskCode: task.code, projectId: task.project_id } : undefined
+    );
+  }
+
+  function handleLogTime(taskId?: string) {
+    setOpen(false);
+    setLogTimeTaskId(taskId);
+    setLogTimeOpen(true);
+  }
+
+  function renderResult(result: SearchResult, icon: LucideIcon, onSelect: () => void) {
+    const Icon = icon;
+    return (
+      <CommandItem key={`${result.kind}-${result.id}`} value={`${result.kind}-${result.id}`} onSelect={onSelect}>
+        <Icon className="mr-2 h-4 w-4 shrink-0 text-muted-foreground" />
+        <div className="flex min-w-0 flex-col">
+          <span className="truncate">
+            {result.code && <span className="mr-2 font-mono text-xs text-muted-foreground">{result.code}</span>}
+            {result.title || "(no description)"}
+          </span>
+          {result.subtitle && <span className="truncate text-xs text-muted-foreground">{result.subtitle}</span>}
+        </div>
+      </CommandItem>
+    );
+  }
+
+  const actions = [
+    { label: "Start timer", icon: Play, onSelect: () => handleStartTimer(null) },
+    { label: "Start timer on task...", icon: Play, onSelect: () => changeMode("start_timer") },
+    { label: "Log time", icon: Clock, onSelect: () => handleLogTime() },
+    { label: "Log time on task...", icon: Clock, onSelect: () => changeMode("log_time") },
+    ...(organizations.length > 1
+      ? [{ label: "Switch organization...", icon: Building2, onSelect: () => changeMode("switch_org") }]
+      : []),
+  ].filter(action => matches(action.label));
+
+  const tasks = results.filter(result => result.kind === "task");
+  const otherOrgs = organizations.filter(org => org.id !== organizationId && matches(org.name));
+  const hint = mode === "search" ? "No results found." : "Type a task code or title.";
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        className="w-64 justify-start gap-2 text-muted-foreground"
+        onClick={() => setOpen(true)}
+      >
+        <Search className="w-4 h-4" />
+        <span className="flex-1 text-left">Search...</span>
+        <kbd className="pointer-events-none rounded border bg-muted px-1.5 font-mono text-[10px]">Ctrl K</kbd>
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="overflow-hidden p-0 shadow-lg">
+          <Command
+            shouldFilter={false}
+            className="[&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-muted-foreground [&_[cmdk-group]:not([hidden])_~[cmdk-group]]:pt-0 [&_[cmdk-group]]:px-2 [&_[cmdk-input-wrapper]_svg]:h-5 [&_[cmdk-input-wrapper]_svg]:w-5 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-3"
+          >
+            <CommandInput
+              placeholder={PLACEHOLDERS[mode]}
+              value={query}
+              onValueChange={setQuery}
+              onKeyDown={(e) => {
+                // Backspace on an empty input leaves an action's picker
+                if (e.key === "Backspace" && !query && mode !== "search") {
+                  e.preventDefault();
+                  changeMode("search");
+                }
+              }}
+            />
+            <CommandList className="max-h-[400px]">
+              {mode === "switch_org" ? (
+                <>
+                  <CommandEmpty>No other organizations.</CommandEmpty>
+                  <CommandGroup heading="Organizations">
+                    {otherOrgs.map(org => (
+                      <CommandItem key={org.id} value={org.id} onSelect={() => onSwitchOrg(org.id)}>
+                        <Building2 className="mr-2 h-4 w-4 text-muted-foreground" />
+                        {org.name}
+                      </CommandItem>
+                    ))}
+                  </CommandGroup>
+                </>
+              ) : mode === "search" ? (
+                <>
+                  {!searching && <CommandEmpty>{hint}</CommandEmpty>}
+                  {actions.length > 0 && (
+                    <CommandGroup heading="Actions">
+                      {actions.map(action => (
+                        <CommandItem key={action.label} value={action.label} onSelect={action.onSelect}>
+                          <action.icon className="mr-2 h-4 w-4 text-muted-foreground" />
+                          {action.label}
+                        </CommandItem>
+                      ))}
+                    </CommandGroup>
+                  )}
+                  {RESULT_GROUPS.map(({ kind, heading, icon }) => {
+                    const group = results.filter(result => result.kind === kind);
+                    if (group.length === 0) return null;
+                    return (
+                      <CommandGroup key={kind} heading={heading}>
+                        {group.map(result => renderResult(result, icon, () => openResult(result)))}
+                      </CommandGroup>
+                    );
+                  })}
+                </>
+              ) : (
+                <>
+                  {!searching && <CommandEmpty>{query.trim() ? "No tasks found." : hint}</CommandEmpty>}
+                  {tasks.length > 0 && (
+                    <CommandGroup heading="Tasks">
+                      {tasks.map(task =>
+                        renderResult(task, CheckSquare, () =>
+                          mode === "start_timer" ? handleStartTimer(task) : handleLogTime(task.id)
+                        )
+                      )}
+                    </CommandGroup>
+                  )}
+                </>
+              )}
+            </CommandList>
+            <div className="flex items-center justify-between border-t px-3 py-2 text-xs text-muted-foreground">
+              <span>{searching ? "Searching..." : mode === "search" ? "Enter to open" : "Backspace to go back"}</span>
+              <CommandShortcut>Esc to close</CommandShortcut>
+            </div>
+          </Command>
+        </DialogContent>
+      </Dialog>
+
+      <LogTimeManuallyDialog
+        open={logTimeOpen}
+        onOpenChange={setLogTimeOpen}
+        defaultTaskId={logTimeTaskId}
+        onSuccess={() => setLogTimeOpen(false)}
+      />
+    </>
+  );
+}
@@ -0,0 +1,123 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import type { Sprint } from "@/lib/sprints";
+
+interface CompleteSprintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  sprint: Sprint;
+  unfinishedTasks: number;
+}
+
+export function CompleteSprintDialog({ open, onOpenChange, onSuccess, sprint, unfinishedTasks }: CompleteSprintDialogProps) {
+  const { toast } = useToast();
+  const [nextSprints, setNextSprints] = useState<Sprint[]>([]);
+  const [nextSprintId, setNextSprintId] = useState("backlog");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    (async () => {
+      let query = supabase
+        .from("sprints")
+        .select("*")
+        .eq("organization_id", sprint.organization_id)
+        .neq("id", sprint.id)
+        .neq("status", "completed")
+        .order("start_date");
+
+      query = sprint.team_id ? query.eq("team_id", sprint.team_id) : query.is("team_id", null);
+      query = sprint.project_id ? query.eq("project_id", sprint.project_id) : query.is("project_id", null);
+
+      const { data } = await query;
+      setNextSprints(data || []);
+      setNextSprintId(data && data.length > 0 ? data[0].id : "backlog");
+    })();
+  }, [open, sprint]);
+
+  async function handleComplete() {
+    setSubmitting(true);
+    const { error } = await supabase.rpc("complete_sprint", {
+      p_sprint_id: sprint.id,
+      p_next_sprint_id: nextSprintId === "backlog" ? undefined : nextSprintId,
+    });
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to complete sprint",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Sprint completed",
+      description: `${sprint.name} is closed.`,
+    });
+    onSuccess();
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Complete {sprint.name}</DialogTitle>
+          <DialogDescription>
+            {unfinishedTasks === 0
+              ? "All tasks are done."
+              : `${unfinishedTasks} task${unfinishedTasks === 1 ? " is" : "s are"} not done. They are recorded as carried over when moved to another sprint.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {unfinishedTasks > 0 && (
+          <div className="space-y-2">
+            <Label>Move unfinished tasks to</Label>
+            <Select value={nextSprintId} onValueChange={setNextSprintId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {nextSprints.map(next => (
+                  <SelectItem key={next.id} value={next.id}>{next.name}</SelectItem>
+                ))}
+                <SelectItem value="backlog">Backlog</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleComplete} disabled={submitting}>
+            {submitting ? "Completing..." : "Complete Sprint"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
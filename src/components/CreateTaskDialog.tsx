@@ -29,24 +29,30 @@ import {
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
-import { CalendarIcon } from "lucide-react";
+import { CalendarIcon, LayoutTemplate } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
+import { RecurrencePicker } from "@/components/RecurrencePicker";
+import { DEFAULT_WORKFLOW, fetchProjectWorkflow, type Workflow } from "@/lib/workflows";
+import { fetchTemplateDetails, fetchTemplates, type TemplateDetails, type TemplateSummary } from "@/lib/templates";
 
 const taskSchema = z.object({
   title: z.string().min(3, "Title must be at least 3 characters").max(200, "Title must be at most 200 characters"),
   description: z.string().max(5000, "Description must be at most 5000 characters").optional(),
   project_id: z.string().optional(),
   parent_task_id: z.string().optional(),
-  status: z.enum(["todo", "in_progress", "in_review", "blocked", "done", "archived"]),
+  status: z.string().min(1, "Status is required"),
   priority: z.enum(["low", "medium", "high", "urgent"]),
   task_type: z.enum(["feature", "bug", "test", "documentation", "refactor", "spike"]),
   assigned_to: z.string().optional(),
   estimated_hours: z.string().optional(),
   due_date: z.date().optional(),
+  recurrence_rule: z.string().nullable().optional(),
 });
 
 type TaskFormData = z.infer<typeof taskSchema>;
@@ -67,6 +73,11 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
   const [parentTasks, setParentTasks] = useState<Array<{ id: string; code: string; title: string }>>([]);
   const [teamMembers, setTeamMembers] = useState<Array<{ id: string; name: string; email: string }>>([]);
   const [selectedProjectId, setSelectedProjectId] = useState<string | undefined>(projectId);
+  const [workflow, setWorkflow] = useState<Workflow>(DEFAULT_WORKFLOW);
+  const [taskTemplates, setTaskTemplates] = useState<TemplateSummary[]>([]);
+  const [templateId, setTemplateId] = useState("none");
+  const [template, setTemplate] = useState<TemplateDetails | null>(null);
+  const [templateStartDate, setTemplateStartDate] = useState<Date | undefined>();
 
   const form = useForm<TaskFormData>({
     resolver: zodResolver(taskSchema),
@@ -80,27 +91,43 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
       task_type: "feature",
       assigned_to: "",
       estimated_hours: "",
+      recurrence_rule: null,
     },
   });
 
   useEffect(() => {
     if (open) {
       loadProjects();
+      if (!parentTaskId) {
+        loadTaskTemplates();
+      }
       if (projectId) {
         setSelectedProjectId(projectId);
         loadParentTasks(projectId);
         loadTeamMembers(projectId);
       }
     }
-  }, [open, projectId]);
+  }, [open, projectId, parentTaskId]);
 
   useEffect(() => {
     if (selectedProjectId) {
       loadParentTasks(selectedProjectId);
       loadTeamMembers(selectedProjectId);
     }
+    loadWorkflow(selectedProjectId);
   }, [selectedProjectId]);
 
+  async function loadWorkflow(projectId?: string) {
+    const projectWorkflow = projectId
+      ? await fetchProjectWorkflow(supabase, projectId).catch(() => DEFAULT_WORKFLOW)
+      : DEFAULT_WORKFLOW;
+    setWorkflow(projectWorkflow);
+
+    // New tasks start in the workflow's first open status
+    const initial = projectWorkflow.statuses.find(s => s.category !== "done") || projectWorkflow.statuses[0];
+    form.setValue("status", initial.key);
+  }
+
   async function loadProjects() {
     const org = await getCurrentOrganization();
     if (!org) return;
@@ -117,6 +144,29 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
     }
   }
 
+  async function loadTaskTemplates() {
+    const org = await getCurrentOrganization();
+    if (!org) return;
+
+    try {
+      setTaskTemplates(await fetchTemplates(supabase, org.id, "task"));
+    } catch (error) {
+      console.error("Error loading templates:", error);
+    }
+  }
+
+  async function handleTemplateChange(value: string) {
+    setTemplateId(value);
+    setTemplate(null);
+    if (value === "none") return;
+
+    try {
+      setTemplate(await fetchTemplateDetails(supabase, value));
+    } catch (error) {
+      console.error("Error loading template:", error);
+    }
+  }
+
   async function loadParentTasks(projectId: string) {
     const { data } = await supabase
       .from("tasks")
@@ -173,6 +223,40 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
     }
   }
 
+  async function createFromTemplate() {
+    setSubmitting(true);
+
+    const { data: taskId, error } = await supabase.rpc("instantiate_template", {
+      p_template_id: templateId,
+      p_project_id: form.getValues("project_id") || null,
+      p_base_date: format(templateStartDate || new Date(), "yyyy-MM-dd"),
+    });
+
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to create task from template",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `Created ${template?.tasks.length || 0} tasks from template`,
+    });
+
+    form.reset();
+    handleTemplateChange("none");
+    setTemplateStartDate(undefined);
+    onSuccess();
+    if (taskId) {
+      navigate(`/tasks/${taskId}`);
+    }
+  }
+
   async function onSubmit(data: TaskFormData) {
     setSubmitting(true);
 
@@ -230,6 +314,8 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
           created_by: user.id,
           estimated_hours: data.estimated_hours ? parseFloat(data.estimated_hours) : null,
           due_date: data.due_date ? format(data.due_date, "yyyy-MM-dd") : null,
+          // Only top-level tasks repeat
+          recurrence_rule: data.parent_task_id ? null : data.recurrence_rule || null,
         })
         .select()
         .single();
@@ -279,37 +365,60 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
 
         <Form {...form}>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-            <FormField
-              control={form.control}
-              name="title"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Title *</FormLabel>
-                  <FormControl>
-                    <Input placeholder="e.g., Implement user authentication" {...field} />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
-
-            <FormField
-              control={form.control}
-              name="description"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Description</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="Detailed requirements..."
-                      className="min-h-[100px]"
-                      {...field}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+            {!parentTaskId && taskTemplates.length > 0 && (
+              <div className="space-y-2">
+                <Label>Template</Label>
+                <Select value={templateId} onValueChange={handleTemplateChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Blank task</SelectItem>
+                    {taskTemplates.map(t => (
+                      <SelectItem key={t.id} value={t.id}>
+                        {t.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {templateId === "none" && (
+              <>
+                <FormField
+                  control={form.control}
+                  name="title"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Title *</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Implement user authentication" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Detailed requirements..."
+                          className="min-h-[100px]"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </>
+            )}
 
             <div className="grid grid-cols-2 gap-4">
               <FormField
@@ -344,7 +453,7 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
                 )}
               />
 
-              {selectedProjectId && !parentTaskId && (
+              {selectedProjectId && !parentTaskId && templateId === "none" && (
                 <FormField
                   control={form.control}
                   name="parent_task_id"
@@ -372,170 +481,243 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
               )}
             </div>
 
-            <div className="grid grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="status"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Status</FormLabel>
-                    <Select value={field.value} onValueChange={field.onChange}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="todo">To Do</SelectItem>
-                        <SelectItem value="in_progress">In Progress</SelectItem>
-                        <SelectItem value="in_review">In Review</SelectItem>
-                        <SelectItem value="blocked">Blocked</SelectItem>
-                        <SelectItem value="done">Done</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="priority"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Priority</FormLabel>
-                    <Select value={field.value} onValueChange={field.onChange}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="low">Low</SelectItem>
-                        <SelectItem value="medium">Medium</SelectItem>
-                        <SelectItem value="high">High</SelectItem>
-                        <SelectItem value="urgent">Urgent</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="task_type"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Type</FormLabel>
-                    <Select value={field.value} onValueChange={field.onChange}>
-                      <FormControl>
-                        <SelectTrigger>
-                          <SelectValue />
-                        </SelectTrigger>
-                      </FormControl>
-                      <SelectContent>
-                        <SelectItem value="feature">Feature</SelectItem>
-                        <SelectItem value="bug">Bug</SelectItem>
-                        <SelectItem value="test">Test</SelectItem>
-                        <SelectItem value="documentation">Documentation</SelectItem>
-                        <SelectItem value="refactor">Refactor</SelectItem>
-                        <SelectItem value="spike">Spike</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              {selectedProjectId && (
-                <FormField
-                  control={form.control}
-                  name="assigned_to"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Assign To</FormLabel>
-                      <Select value={field.value} onValueChange={field.onChange}>
-                        <FormControl>
-                          <SelectTrigger>
-                            <SelectValue placeholder="Select assignee" />
-                          </SelectTrigger>
-                        </FormControl>
-                        <SelectContent>
-                          {teamMembers.map(member => (
-                            <SelectItem key={member.id} value={member.id}>
-                              {member.name}
-                            </SelectItem>
-                          ))}
-                        </SelectContent>
-                      </Select>
-                      <FormMessage />
-                    </FormItem>
+            {templateId === "none" ? (
+              <>
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="status"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Status</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {workflow.statuses.map(status => (
+                              <SelectItem key={status.key} value={status.key}>
+                                {status.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="priority"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Priority</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="low">Low</SelectItem>
+                            <SelectItem value="medium">Medium</SelectItem>
+                            <SelectItem value="high">High</SelectItem>
+                            <SelectItem value="urgent">Urgent</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="task_type"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Type</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value="feature">Feature</SelectItem>
+                            <SelectItem value="bug">Bug</SelectItem>
+                            <SelectItem value="test">Test</SelectItem>
+                            <SelectItem value="documentation">Documentation</SelectItem>
+                            <SelectItem value="refactor">Refactor</SelectItem>
+                            <SelectItem value="spike">Spike</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {selectedProjectId && (
+                    <FormField
+                      control={form.control}
+                      name="assigned_to"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Assign To</FormLabel>
+                          <Select value={field.value} onValueChange={field.onChange}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select assignee" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {teamMembers.map(member => (
+                                <SelectItem key={member.id} value={member.id}>
+                                  {member.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
                   )}
-                />
-              )}
-            </div>
-
-            <div className="grid grid-cols-2 gap-4">
-              <FormField
-                control={form.control}
-                name="estimated_hours"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Estimated Hours</FormLabel>
-                    <FormControl>
-                      <Input
-                        type="number"
-                        step="0.5"
-                        min="0"
-                        max="999.99"
-                        placeholder="e.g., 8"
-                        {...field}
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-
-              <FormField
-                control={form.control}
-                name="due_date"
-                render={({ field }) => (
-                  <FormItem className="flex flex-col">
-                    <FormLabel>Due Date</FormLabel>
-                    <Popover>
-                      <PopoverTrigger asChild>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <FormField
+                    control={form.control}
+                    name="estimated_hours"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Estimated Hours</FormLabel>
                         <FormControl>
-                          <Button
-                            variant="outline"
-                            className={cn(
-                              "pl-3 text-left font-normal",
-                              !field.value && "text-muted-foreground"
-                            )}
-                          >
-                            {field.value ? format(field.value, "PPP") : "Pick a date"}
-                            <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
-                          </Button>
+                          <Input
+                            type="number"
+                            step="0.5"
+                            min="0"
+                            max="999.99"
+                            placeholder="e.g., 8"
+                            {...field}
+                          />
                         </FormControl>
-                      </PopoverTrigger>
-                      <PopoverContent className="w-auto p-0" align="start">
-                        <Calendar
-                          mode="single"
-                          selected={field.value}
-                          onSelect={field.onChange}
-                          initialFocus
-                          className="pointer-events-auto"
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={form.control}
+                    name="due_date"
+                    render={({ field }) => (
+                      <FormItem className="flex flex-col">
+                        <FormLabel>Due Date</FormLabel>
+                        <Popover>
+                          <PopoverTrigger asChild>
+                            <FormControl>
+                              <Button
+                                variant="outline"
+                                className={cn(
+                                  "pl-3 text-left font-normal",
+                                  !field.value && "text-muted-foreground"
+                                )}
+                              >
+                                {field.value ? format(field.value, "PPP") : "Pick a date"}
+                                <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                              </Button>
+                            </FormControl>
+                          </PopoverTrigger>
+                          <PopoverContent className="w-auto p-0" align="start">
+                            <Calendar
+                              mode="single"
+                              selected={field.value}
+                              onSelect={field.onChange}
+                              initialFocus
+                              className="pointer-events-auto"
+                            />
+                          </PopoverContent>
+                        </Popover>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                {!parentTaskId && !form.watch("parent_task_id") && (
+                  <FormField
+                    control={form.control}
+                    name="recurrence_rule"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Repeat</FormLabel>
+                        <RecurrencePicker
+                          value={field.value || null}
+                          onChange={field.onChange}
+                          dueDate={form.watch("due_date")}
                         />
-                      </PopoverContent>
-                    </Popover>
-                    <FormMessage />
-                  </FormItem>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
                 )}
-              />
-            </div>
+              </>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex flex-col gap-2">
+                  <Label>Start Date</Label>
+                  <Popover>
+                    <PopoverTrigger asChild>
+                      <Button
+                        variant="outline"
+                        className={cn(
+                          "w-[240px] pl-3 text-left font-normal",
+                          !templateStartDate && "text-muted-foreground"
+                        )}
+                      >
+                        {templateStartDate ? format(templateStartDate, "PPP") : "Today"}
+                        <CalendarIcon className="ml-auto h-4 w-4 opacity-50" />
+                      </Button>
+                    </PopoverTrigger>
+                    <PopoverContent className="w-auto p-0" align="start">
+                      <Calendar
+                        mode="single"
+                        selected={templateStartDate}
+                        onSelect={setTemplateStartDate}
+                        initialFocus
+                        className="pointer-events-auto"
+                      />
+                    </PopoverContent>
+                  </Popover>
+                  <p className="text-xs text-muted-foreground">Template dates are scheduled from this day.</p>
+                </div>
+
+                <div className="rounded-md border p-3 space-y-1">
+                  {!template ? (
+                    <p className="text-sm text-muted-foreground">Loading...</p>
+                  ) : (
+                    template.tasks.map(task => (
+                      <div
+                        key={task.id}
+                        className="flex items-center gap-2 text-sm"
+                        style={{ paddingLeft: task.depth * 20 }}
+                      >
+                        {task.depth === 0 && <LayoutTemplate className="h-4 w-4 text-muted-foreground" />}
+                        <span className="flex-1">{task.title}</span>
+                        <Badge variant="outline" className="capitalize">{task.task_type}</Badge>
+                        {task.estimated_hours && (
+                          <span className="text-muted-foreground">{task.estimated_hours}h</span>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </div>
+            )}
 
             <div className="flex justify-end gap-2 pt-4">
               <Button
@@ -546,9 +728,15 @@ export function CreateTaskDialog({ open, onOpenChange, onSuccess, projectId, par
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={submitting}>
-                {submitting ? "Creating..." : "Create Task"}
-              </Button>
+              {templateId === "none" ? (
+                <Button type="submit" disabled={submitting}>
+                  {submitting ? "Creating..." : "Create Task"}
+                </Button>
+              ) : (
+                <Button type="button" onClick={createFromTemplate} disabled={submitting || !template}>
+                  {submitting ? "Creating..." : "Create from Template"}
+                </Button>
+              )}
             </div>
           </form>
         </Form>
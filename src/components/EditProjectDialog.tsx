@@ -42,6 +42,7 @@ const projectSchema = z.object({
   is_billable: z.boolean(),
   start_date: z.date().optional(),
   end_date: z.date().optional(),
+  client_id: z.string(),
 });
 
 type ProjectFormData = z.infer<typeof projectSchema>;
@@ -56,6 +57,7 @@ interface EditProjectDialogProps {
 export function EditProjectDialog({ open, onOpenChange, onSuccess, project }: EditProjectDialogProps) {
   const { toast } = useToast();
   const [submitting, setSubmitting] = useState(false);
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
 
   const form = useForm<ProjectFormData>({
     resolver: zodResolver(projectSchema),
@@ -66,9 +68,29 @@ export function EditProjectDialog({ open, onOpenChange, onSuccess, project }: Ed
       is_billable: project?.is_billable || false,
       start_date: project?.start_date ? new Date(project.start_date) : undefined,
       end_date: project?.end_date ? new Date(project.end_date) : undefined,
+      client_id: project?.client_id || "none",
     },
   });
 
+  useEffect(() => {
+    if (!open || !project?.organization_id) return;
+
+    (async () => {
+      const { data, error } = await supabase
+        .from("clients")
+        .select("id, name")
+        .eq("organization_id", project.organization_id)
+        .is("deleted_at", null)
+        .order("name");
+
+      if (error) {
+        console.error("Error loading clients:", error);
+        return;
+      }
+      setClients(data || []);
+    })();
+  }, [open, project?.organization_id]);
+
   useEffect(() => {
     if (project && open) {
       form.reset({
@@ -78,6 +100,7 @@ export function EditProjectDialog({ open, onOpenChange, onSuccess, project }: Ed
         is_billable: project.is_billable,
         start_date: project.start_date ? new Date(project.start_date) : undefined,
         end_date: project.end_date ? new Date(project.end_date) : undefined,
+        client_id: project.client_id || "none",
       });
     }
   }, [project, open, form]);
@@ -95,6 +118,7 @@ export function EditProjectDialog({ open, onOpenChange, onSuccess, project }: Ed
           is_billable: data.is_billable,
           start_date: data.start_date ? format(data.start_date, "yyyy-MM-dd") : null,
           end_date: data.end_date ? format(data.end_date, "yyyy-MM-dd") : null,
+          client_id: data.client_id === "none" ? null : data.client_id,
         })
         .eq("id", project.id);
 
@@ -205,6 +229,32 @@ export function EditProjectDialog({ open, onOpenChange, onSuccess, project }: Ed
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="client_id"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Client</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="none">No client</SelectItem>
+                      {clients.map((client) => (
+                        <SelectItem key={client.id} value={client.id}>
+                          {client.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <div className="grid grid-cols-2 gap-4">
               <FormField
                 control={form.control}
@@ -0,0 +1,235 @@
+import { useState, useEffect } from "react";
+import { format, startOfMonth, endOfMonth, subMonths } from "date-fns";
+import { Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import type { Tables } from "@/integrations/supabase/types";
+
+interface TaxLine {
+  name: string;
+  rate: string;
+}
+
+interface GenerateInvoiceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: (invoice: Tables<"client_invoices">) => void;
+  clients: { id: string; name: string; currency: string }[];
+}
+
+export function GenerateInvoiceDialog({ open, onOpenChange, onSuccess, clients }: GenerateInvoiceDialogProps) {
+  const { toast } = useToast();
+  const [clientId, setClientId] = useState("");
+  const [periodStart, setPeriodStart] = useState("");
+  const [periodEnd, setPeriodEnd] = useState("");
+  const [groupBy, setGroupBy] = useState("project");
+  const [taxLines, setTaxLines] = useState<TaxLine[]>([]);
+  const [notes, setNotes] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    // Default to last calendar month, the usual billing period
+    const lastMonth = subMonths(new Date(), 1);
+    setClientId(clients[0]?.id || "");
+    setPeriodStart(format(startOfMonth(lastMonth), "yyyy-MM-dd"));
+    setPeriodEnd(format(endOfMonth(lastMonth), "yyyy-MM-dd"));
+    setGroupBy("project");
+    setTaxLines([]);
+    setNotes("");
+  }, [open, clients]);
+
+  function updateTaxLine(index: number, values: Partial<TaxLine>) {
+    setTaxLines(prev => prev.map((line, i) => (i === index ? { ...line, ...values } : line)));
+  }
+
+  async function handleGenerate() {
+    if (!clientId || !periodStart || !periodEnd) {
+      toast({
+        title: "Validation Error",
+        description: "Select a client and a billing period",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidTax = taxLines.find(line => !line.name.trim() || line.rate === "" || Number(line.rate) < 0 || Number(line.rate) > 100);
+    if (invalidTax) {
+      toast({
+        title: "Validation Error",
+        description: "Each tax line needs a name and a rate between 0 and 100",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const { data, error } = await supabase.rpc("generate_client_invoice", {
+        p_client_id: clientId,
+        p_period_start: periodStart,
+        p_period_end: periodEnd,
+        p_group_by: groupBy,
+        p_tax_lines: taxLines.map(line => ({ name: line.name.trim(), rate: Number(line.rate) })),
+        p_notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Draft invoice created",
+        description: "The included time entries are now locked",
+      });
+
+      onOpenChange(false);
+      onSuccess(data);
+    } catch (error) {
+      console.error("Error generating invoice:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to generate invoice",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>New Invoice</DialogTitle>
+          <DialogDescription>
+            Creates a draft from approved billable time on the client's projects that hasn't been invoiced yet.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Client</Label>
+            <Select value={clientId} onValueChange={setClientId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select client" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map(client => (
+                  <SelectItem key={client.id} value={client.id}>
+                    {client.name} ({client.currency})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="period-start">From</Label>
+              <Input id="period-start" type="date" value={periodStart} onChange={(e) => setPeriodStart(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="period-end">To</Label>
+              <Input id="period-end" type="date" value={periodEnd} onChange={(e) => setPeriodEnd(e.target.value)} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Group lines by</Label>
+            <Select value={groupBy} onValueChange={setGroupBy}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="project">Project</SelectItem>
+                <SelectItem value="task">Task</SelectItem>
+                <SelectItem value="person">Person</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Taxes</Label>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                onClick={() => setTaxLines(prev => [...prev, { name: "", rate: "" }])}
+              >
+                <Plus className="mr-1 h-4 w-4" />
+                Add tax
+              </Button>
+            </div>
+            {taxLines.map((line, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Input
+                  placeholder="e.g., VAT"
+                  value={line.name}
+                  onChange={(e) => updateTaxLine(index, { name: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={100}
+                  step="0.01"
+                  placeholder="%"
+                  className="w-24"
+                  value={line.rate}
+                  onChange={(e) => updateTaxLine(index, { rate: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setTaxLines(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoice-notes">Notes</Label>
+            <Textarea
+              id="invoice-notes"
+              rows={2}
+              placeholder="Shown on the invoice"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={submitting || clients.length === 0}>
+            {submitting ? "Generating..." : "Generate Draft"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
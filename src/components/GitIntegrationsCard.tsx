@@ -0,0 +1,367 @@
+import { useEffect, useState } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Copy, Eye, EyeOff, GitBranch, Pencil, Plus, Trash2 } from 'lucide-react';
+import { GIT_PROVIDERS, type GitIntegration, type GitProvider } from '@/lib/gitIntegration';
+
+interface GitIntegrationsCardProps {
+  organizationId: string;
+}
+
+const WEBHOOK_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/git-webhook`;
+
+const EMPTY_FORM = {
+  provider: 'github' as GitProvider,
+  name: '',
+  prOpenedStatus: 'in_review',
+  prMergedStatus: 'done',
+};
+
+export function GitIntegrationsCard({ organizationId }: GitIntegrationsCardProps) {
+  const { toast } = useToast();
+  const [integrations, setIntegrations] = useState<GitIntegration[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<GitIntegration | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadIntegrations();
+  }, [organizationId]);
+
+  async function loadIntegrations() {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('git_integrations')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading git integrations:', error);
+    } else {
+      setIntegrations(data || []);
+    }
+    setLoading(false);
+  }
+
+  function openDialog(integration: GitIntegration | null) {
+    setEditing(integration);
+    setForm(integration
+      ? {
+          provider: integration.provider as GitProvider,
+          name: integration.name,
+          prOpenedStatus: integration.pr_opened_status || '',
+          prMergedStatus: integration.pr_merged_status || '',
+        }
+      : EMPTY_FORM);
+    setDialogOpen(true);
+  }
+
+  async function handleSave() {
+    if (!form.name.trim()) {
+      toast({
+        title: 'Name required',
+        description: 'Name the integration after the repository or group it receives events from',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const values = {
+      name: form.name.trim(),
+      pr_opened_status: form.prOpenedStatus.trim() || null,
+      pr_merged_status: form.prMergedStatus.trim() || null,
+    };
+    const { error } = editing
+      ? await supabase.from('git_integrations').update(values).eq('id', editing.id)
+      : await supabase
+          .from('git_integrations')
+          .insert({ ...values, provider: form.provider, organization_id: organizationId });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Failed to save integration',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: editing ? 'Integration updated' : 'Integration added',
+    });
+    setDialogOpen(false);
+    loadIntegrations();
+  }
+
+  async function handleToggleActive(integration: GitIntegration, isActive: boolean) {
+    setIntegrations(prev => prev.map(i => (i.id === integration.id ? { ...i, is_active: isActive } : i)));
+
+    const { error } = await supabase
+      .from('git_integrations')
+      .update({ is_active: isActive })
+      .eq('id', integration.id);
+
+    if (error) {
+      toast({
+        title: 'Failed to update integration',
+        description: error.message,
+        variant: 'destructive',
+      });
+      loadIntegrations();
+    }
+  }
+
+  async function handleDelete(integration: GitIntegration) {
+    const { error } = await supabase.from('git_integrations').delete().eq('id', integration.id);
+
+    if (error) {
+      toast({
+        title: 'Failed to delete integration',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    loadIntegrations();
+  }
+
+  function copy(text: string, title: string) {
+    navigator.clipboard.writeText(text);
+    toast({ title });
+  }
+
+  const transitionLabel = (status: string | null) => status || 'unchanged';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <GitBranch className="h-5 w-5" />
+              <CardTitle>Git Integrations</CardTitle>
+            </div>
+            <CardDescription className="mt-1.5">
+              Link commits and pull requests to tasks. Mention a task code such
+              as <code className="font-mono text-xs">PROJ-0001-T001</code> in a branch name, commit message
+              or pull request title, and it shows up on the task. Pull requests can also move their tasks
+              along the workflow.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)} className="shrink-0">
+            <Plus className="mr-2 h-4 w-4" />
+            Add integration
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {!loading && integrations.length === 0 && (
+          <p className="text-sm text-muted-foreground">No integrations yet.</p>
+        )}
+
+        {integrations.map(integration => {
+          const provider = GIT_PROVIDERS[integration.provider as GitProvider];
+          const url = `${WEBHOOK_URL}?integration=${integration.id}`;
+
+          return (
+            <div key={integration.id} className="space-y-3 rounded-lg border p-4">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="truncate font-medium">{integration.name}</p>
+                    <Badge variant="outline">{provider.label}</Badge>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {integration.last_event_at
+                      ? `Last event ${formatDistanceToNow(new Date(integration.last_event_at), { addSuffix: true })}`
+                      : 'No events received yet'}
+                  </p>
+                </div>
+                <div className="flex shrink-0 items-center gap-2">
+                  <Switch
+                    checked={integration.is_active}
+                    onCheckedChange={(checked) => handleToggleActive(integration, checked)}
+                    aria-label="Active"
+                  />
+                  <Button variant="ghost" size="sm" onClick={() => openDialog(integration)} aria-label="Edit integration">
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="sm" aria-label="Delete integration">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Delete this integration?</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          {provider.label} events sent to its URL are rejected from now on. Commits and pull
+                          requests already linked to tasks stay.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleDelete(integration)}>Delete</AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+              </div>
+
+              <div className="space-y-2 text-sm">
+                <div className="flex items-center gap-2">
+                  <span className="w-28 shrink-0 text-muted-foreground">Webhook URL:</span>
+                  <code className="truncate rounded bg-muted px-2 py-0.5 font-mono text-xs">{url}</code>
+                  <Button variant="ghost" size="sm" onClick={() => copy(url, 'URL copied')} aria-label="Copy URL">
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="w-28 shrink-0 text-muted-foreground">Secret:</span>
+                  <code className="rounded bg-muted px-2 py-0.5 font-mono text-xs">
+                    {revealed === integration.id ? integration.secret : '••••••••••••••••'}
+                  </code>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setRevealed(revealed === integration.id ? null : integration.id)}
+                    aria-label={revealed === integration.id ? 'Hide secret' : 'Show secret'}
+                  >
+                    {revealed === integration.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copy(integration.secret, 'Secret copied')}
+                    aria-label="Copy secret"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  In {provider.label}, add a webhook with this URL and secret, content type JSON, for{' '}
+                  {provider.events}.
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Pull request opened → <span className="font-mono">{transitionLabel(integration.pr_opened_status)}</span>,
+                  merged → <span className="font-mono">{transitionLabel(integration.pr_merged_status)}</span>
+                </p>
+              </div>
+            </div>
+          );
+        })}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit integration' : 'Add integration'}</DialogTitle>
+            <DialogDescription>
+              Each integration gets its own webhook URL and secret. Use one per repository, or one for a whole
+              GitHub organization or GitLab group.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>Provider</Label>
+              <Select
+                value={form.provider}
+                onValueChange={(provider) => setForm(prev => ({ ...prev, provider: provider as GitProvider }))}
+                disabled={!!editing}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(GIT_PROVIDERS) as GitProvider[]).map(provider => (
+                    <SelectItem key={provider} value={provider}>{GIT_PROVIDERS[provider].label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="git-integration-name">Name</Label>
+              <Input
+                id="git-integration-name"
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g. acme/web-app"
+                autoComplete="off"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="git-integration-opened">When a pull request opens</Label>
+                <Input
+                  id="git-integration-opened"
+                  value={form.prOpenedStatus}
+                  onChange={(e) => setForm(prev => ({ ...prev, prOpenedStatus: e.target.value }))}
+                  placeholder="Leave status unchanged"
+                  className="font-mono"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="git-integration-merged">When it is merged</Label>
+                <Input
+                  id="git-integration-merged"
+                  value={form.prMergedStatus}
+                  onChange={(e) => setForm(prev => ({ ...prev, prMergedStatus: e.target.value }))}
+                  placeholder="Leave status unchanged"
+                  className="font-mono"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Workflow status keys, e.g. <code className="font-mono">in_review</code> and{' '}
+              <code className="font-mono">done</code>. Tasks whose workflow doesn't have the status, or doesn't
+              allow the move, keep their status.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : 'Save'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -17,10 +17,13 @@ import { supabase } from "@/integrations/supabase/client";
 import { getCurrentOrganization, getUserOrganizations, signOut } from "@/lib/auth";
 import { toast } from "sonner";
 import type { Organization } from "@/lib/auth";
+import { SyncStatusIndicator } from "@/components/SyncStatusIndicator";
+import { CommandPalette } from "@/components/CommandPalette";
+import { NotificationBell } from "@/components/NotificationBell";
 
 export function Header() {
   const navigate = useNavigate();
-  const [user, setUser] = useState<{ email: string } | null>(null);
+  const [user, setUser] = useState<{ id: string; email: string } | null>(null);
   const [currentOrg, setCurrentOrg] = useState<Organization | null>(null);
   const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [createOrgOpen, setCreateOrgOpen] = useState(false);
@@ -34,7 +37,7 @@ export function Header() {
   const loadUserData = async () => {
     const { data: { user: authUser } } = await supabase.auth.getUser();
     if (authUser) {
-      setUser({ email: authUser.email || "" });
+      setUser({ id: authUser.id, email: authUser.email || "" });
     }
 
     const org = await getCurrentOrganization();
@@ -104,6 +107,19 @@ export function Header() {
       </div>
 
       <div className="flex items-center gap-4">
+        {/* Global search and actions (Ctrl+K) */}
+        <CommandPalette
+          organizationId={currentOrg?.id || null}
+          organizations={organizations}
+          onSwitchOrg={handleSwitchOrg}
+        />
+
+        {/* Offline queue status */}
+        <SyncStatusIndicator />
+
+        {/* Notification center */}
+        {currentOrg && user && <NotificationBell organizationId={currentOrg.id} userId={user.id} />}
+
         {/* Organization Switcher */}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
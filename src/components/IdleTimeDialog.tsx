@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { useTimer, type IdleAction } from '@/contexts/TimerContext';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+export function IdleTimeDialog() {
+  const { timerState, idleSince, resolveIdleTime } = useTimer();
+  const [resolving, setResolving] = useState(false);
+
+  const open = idleSince !== null && timerState.isRunning && !timerState.isPaused;
+  const idleMinutes = idleSince ? Math.max(1, Math.round((Date.now() - idleSince) / 60000)) : 0;
+  const canSplit = Boolean(timerState.taskId || timerState.projectId);
+
+  async function handleResolve(action: IdleAction) {
+    setResolving(true);
+    try {
+      await resolveIdleTime(action);
+    } finally {
+      setResolving(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && handleResolve('keep')}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>You were idle</DialogTitle>
+          <DialogDescription>
+            No activity since{' '}
+            {idleSince && new Date(idleSince).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}{' '}
+            ({idleMinutes}m) while your timer{timerState.taskCode && ` on ${timerState.taskCode}`} kept running.
+            What should happen to that time?
+          </DialogDescription>
+        </DialogHeader>
+        {!canSplit && (
+          <p className="text-sm text-muted-foreground">
+            Select a task on the timer to keep idle time as a separate entry.
+          </p>
+        )}
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => handleResolve('keep')} disabled={resolving}>
+            Keep
+          </Button>
+          <Button variant="outline" onClick={() => handleResolve('split')} disabled={resolving || !canSplit}>
+            Split as non-billable
+          </Button>
+          <Button variant="destructive" onClick={() => handleResolve('discard')} disabled={resolving}>
+            Discard
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
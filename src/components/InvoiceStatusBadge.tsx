@@ -0,0 +1,16 @@
+import { Badge } from "@/components/ui/badge";
+
+const variants: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  draft: "secondary",
+  sent: "default",
+  paid: "outline",
+  void: "destructive",
+};
+
+export function InvoiceStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge variant={variants[status] || "secondary"}>
+      {status.charAt(0).toUpperCase() + status.slice(1)}
+    </Badge>
+  );
+}
@@ -9,6 +9,9 @@ import { Checkbox } from '@/components/ui/checkbox';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { getCurrentOrganization } from '@/lib/auth';
+import { isNetworkError } from '@/lib/offlineQueue';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
+import type { TablesInsert } from '@/integrations/supabase/types';
 
 interface Task {
   id: string;
@@ -18,13 +21,18 @@ interface Task {
   project_id: string | null;
 }
 
+// Shared by both task queries so their rows have the same type
+const TASK_SELECT = 'id, code, title, project_id, projects (name)';
+
 interface Props {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
+  /** Preselects a task, e.g. when opened from the command palette */
+  defaultTaskId?: string;
 }
 
-export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess }: Props) {
+export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess, defaultTaskId }: Props) {
   const [tasks, setTasks] = useState<Task[]>([]);
   const [selectedTaskId, setSelectedTaskId] = useState<string>('');
   const [selectedProjectId, setSelectedProjectId] = useState<string>('');
@@ -35,13 +43,14 @@ export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess }: Props)
   const [isBillable, setIsBillable] = useState(true);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { queueOperation } = useOfflineSync();
 
   useEffect(() => {
     if (open) {
       loadTasks();
       setDefaultTimes();
     }
-  }, [open]);
+  }, [open, defaultTaskId]);
 
   function setDefaultTimes() {
     const now = new Date();
@@ -64,30 +73,41 @@ export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess }: Props)
 
       const { data, error } = await supabase
         .from('tasks')
-        .select(`
-          id,
-          code,
-          title,
-          project_id,
-          projects (name)
-        `)
+        .select(TASK_SELECT)
         .eq('organization_id', org.id)
-        .not('status', 'in', '(archived,done)')
+        .not('status_category', 'in', '(archived,done)')
         .is('deleted_at', null)
         .order('updated_at', { ascending: false })
         .limit(50);
 
       if (error) throw error;
 
-      setTasks(
-        data.map((t: any) => ({
-          id: t.id,
-          code: t.code,
-          title: t.title,
-          project_name: t.projects?.name || null,
-          project_id: t.project_id,
-        }))
-      );
+      const rows = [...data];
+
+      // The preselected task may be older than the recent ones listed
+      if (defaultTaskId && !rows.some(t => t.id === defaultTaskId)) {
+        const { data: task } = await supabase
+          .from('tasks')
+          .select(TASK_SELECT)
+          .eq('id', defaultTaskId)
+          .maybeSingle();
+        if (task) rows.unshift(task);
+      }
+
+      const loaded: Task[] = rows.map(t => ({
+        id: t.id,
+        code: t.code,
+        title: t.title,
+        project_name: t.projects?.name || null,
+        project_id: t.project_id,
+      }));
+      setTasks(loaded);
+
+      const preselected = loaded.find(t => t.id === defaultTaskId);
+      if (preselected) {
+        setSelectedTaskId(preselected.id);
+        setSelectedProjectId(preselected.project_id || '');
+      }
     } catch (error: any) {
       console.error('Error loading tasks:', error);
     }
@@ -106,7 +126,32 @@ export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess }: Props)
     return { hours, minutes, seconds: diffSeconds };
   }
 
+  function formatDurationLabel(): string {
+    const { hours, minutes } = calculateDuration();
+    return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+  }
+
+  async function queueEntry(entry: TablesInsert<'time_entries'>) {
+    try {
+      await queueOperation({ kind: 'insert_time_entry', values: entry });
+      toast({
+        title: 'Saved Offline',
+        description: `${formatDurationLabel()} will be logged when you're back online`,
+      });
+      onSuccess();
+    } catch (error) {
+      console.error('Error queueing time entry:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to save time entry offline',
+        variant: 'destructive',
+      });
+    }
+  }
+
   async function handleSubmit() {
+    let entry: TablesInsert<'time_entries'> | null = null;
+
     try {
       setLoading(true);
 
@@ -176,17 +221,38 @@ export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess }: Props)
         }
       }
 
-      const org = await getCurrentOrganization();
-      if (!org) throw new Error('No organization found');
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) throw new Error('Not authenticated');
 
-      const { data: user } = await supabase.auth.getUser();
-      if (!user.user) throw new Error('Not authenticated');
+      // The organization list can't be fetched offline, so fall back to the active one
+      const orgId = navigator.onLine
+        ? (await getCurrentOrganization())?.id
+        : localStorage.getItem('activeOrgId');
+      if (!orgId) throw new Error('No organization found');
+
+      entry = {
+        organization_id: orgId,
+        user_id: session.user.id,
+        task_id: selectedTaskId || null,
+        project_id: selectedProjectId || null,
+        timer_type: 'manual',
+        start_time: startDate.toISOString(),
+        end_time: endDate.toISOString(),
+        duration_seconds: seconds,
+        description: description.trim(),
+        is_billable: isBillable,
+      };
+
+      if (!navigator.onLine) {
+        await queueEntry(entry);
+        return;
+      }
 
       // Check for overlaps
       const { data: hasOverlap, error: overlapError } = await supabase.rpc('check_time_entry_overlap', {
-        p_user_id: user.user.id,
-        p_start_time: startDate.toISOString(),
-        p_end_time: endDate.toISOString(),
+        p_user_id: entry.user_id,
+        p_start_time: entry.start_time,
+        p_end_time: entry.end_time,
       });
 
       if (overlapError) throw overlapError;
@@ -201,8 +267,8 @@ export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess }: Props)
 
       // Check limit
       const { data: canCreate, error: limitError } = await supabase.rpc('check_time_entry_limit', {
-        p_org_id: org.id,
-        p_user_id: user.user.id,
+        p_org_id: entry.organization_id,
+        p_user_id: entry.user_id,
       });
 
       if (limitError) throw limitError;
@@ -216,18 +282,7 @@ export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess }: Props)
       }
 
       // Insert time entry
-      const { error: insertError } = await supabase.from('time_entries').insert({
-        organization_id: org.id,
-        user_id: user.user.id,
-        task_id: selectedTaskId || null,
-        project_id: selectedProjectId || null,
-        timer_type: 'manual',
-        start_time: startDate.toISOString(),
-        end_time: endDate.toISOString(),
-        duration_seconds: seconds,
-        description: description.trim(),
-        is_billable: isBillable,
-      });
+      const { error: insertError } = await supabase.from('time_entries').insert(entry);
 
       if (insertError) throw insertError;
 
@@ -236,16 +291,19 @@ export function LogTimeManuallyDialog({ open, onOpenChange, onSuccess }: Props)
         await supabase.rpc('update_task_actual_hours', { p_task_id: selectedTaskId });
       }
 
-      const { hours, minutes } = calculateDuration();
-      const durationStr = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
-
       toast({
         title: 'Time Logged',
-        description: `Time logged: ${durationStr}`,
+        description: `Time logged: ${formatDurationLabel()}`,
       });
 
       onSuccess();
     } catch (error: any) {
+      // Connection dropped mid-save: keep the entry in the outbox instead of losing it
+      if (entry && isNetworkError(error)) {
+        await queueEntry(entry);
+        return;
+      }
+
       console.error('Error logging time:', error);
       toast({
         title: 'Error',
@@ -0,0 +1,219 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { formatDistanceToNow } from "date-fns";
+import {
+  AtSign,
+  Bell,
+  Check,
+  CheckCheck,
+  FileCheck,
+  FileText,
+  FileX,
+  RefreshCw,
+  UserPlus,
+  UserCheck,
+  type LucideIcon,
+} from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import type { Tables } from "@/integrations/supabase/types";
+
+type Notification = Tables<"notifications">;
+
+const TYPE_ICONS: Record<string, LucideIcon> = {
+  mention: AtSign,
+  assigned: UserCheck,
+  status_changed: RefreshCw,
+  timesheet_submitted: FileText,
+  timesheet_approved: FileCheck,
+  timesheet_rejected: FileX,
+  member_joined: UserPlus,
+};
+
+const PAGE_SIZE = 30;
+
+interface NotificationBellProps {
+  organizationId: string;
+  userId: string;
+}
+
+export function NotificationBell({ organizationId, userId }: NotificationBellProps) {
+  const navigate = useNavigate();
+  const [open, setOpen] = useState(false);
+  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+
+  const loadNotifications = useCallback(async () => {
+    const [{ data, error }, { count }] = await Promise.all([
+      supabase
+        .from("notifications")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("organization_id", organizationId)
+        .eq("in_app", true)
+        .order("created_at", { ascending: false })
+        .limit(PAGE_SIZE),
+      // Counted separately: unread items can be older than the listed page
+      supabase
+        .from("notifications")
+        .select("id", { count: "exact", head: true })
+        .eq("user_id", userId)
+        .eq("organization_id", organizationId)
+        .eq("in_app", true)
+        .is("read_at", null),
+    ]);
+
+    if (error) {
+      console.error("Error loading notifications:", error);
+      return;
+    }
+
+    setNotifications(data || []);
+    setUnreadCount(count || 0);
+  }, [organizationId, userId]);
+
+  // New notifications and reads from other devices arrive through Realtime
+  useEffect(() => {
+    loadNotifications();
+
+    const channel = supabase
+      .channel(`notifications-${userId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        () => loadNotifications()
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "notifications", filter: `user_id=eq.${userId}` },
+        () => loadNotifications()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, loadNotifications]);
+
+  async function markRead(ids: string[]) {
+    if (ids.length === 0) return;
+    const readAt = new Date().toISOString();
+
+    setNotifications(prev => prev.map(n => (ids.includes(n.id) ? { ...n, read_at: readAt } : n)));
+    setUnreadCount(prev => Math.max(0, prev - ids.length));
+
+    const { error } = await supabase.from("notifications").update({ read_at: readAt }).in("id", ids);
+    if (error) {
+      console.error("Error marking notifications read:", error);
+      loadNotifications();
+    }
+  }
+
+  async function markAllRead() {
+    setNotifications(prev => prev.map(n => n.read_at ? n : { ...n, read_at: new Date().toISOString() }));
+    setUnreadCount(0);
+
+    const { error } = await supabase
+      .from("notifications")
+      .update({ read_at: new Date().toISOString() })
+      .eq("user_id", userId)
+      .eq("organization_id", organizationId)
+      .eq("in_app", true)
+      .is("read_at", null);
+
+    if (error) {
+      console.error("Error marking notifications read:", error);
+      loadNotifications();
+    }
+  }
+
+  function openNotification(notification: Notification) {
+    if (!notification.read_at) markRead([notification.id]);
+    if (notification.link) {
+      setOpen(false);
+      navigate(notification.link);
+    }
+  }
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" aria-label="Notifications">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-0.5 -right-0.5 flex h-4 min-w-4 items-center justify-center rounded-full bg-destructive px-1 text-[10px] font-medium text-destructive-foreground">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-0" align="end">
+        <div className="flex items-center justify-between border-b px-4 py-3">
+          <span className="text-sm font-medium">Notifications</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={markAllRead}
+            disabled={unreadCount === 0}
+          >
+            <CheckCheck className="w-3 h-3 mr-1" />
+            Mark all read
+          </Button>
+        </div>
+
+        {notifications.length === 0 ? (
+          <p className="py-10 text-center text-sm text-muted-foreground">You're all caught up.</p>
+        ) : (
+          <div className="max-h-[420px] overflow-y-auto divide-y">
+            {notifications.map(notification => {
+              const Icon = TYPE_ICONS[notification.type] || Bell;
+              const unread = !notification.read_at;
+
+              return (
+                <div
+                  key={notification.id}
+                  role="button"
+                  tabIndex={0}
+                  onClick={() => openNotification(notification)}
+                  onKeyDown={(e) => e.key === "Enter" && openNotification(notification)}
+                  className={cn(
+                    "group flex cursor-pointer gap-3 px-4 py-3 hover:bg-muted/50",
+                    unread && "bg-primary/5"
+                  )}
+                >
+                  <Icon className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <p className={cn("text-sm", unread && "font-medium")}>{notification.title}</p>
+                    {notification.body && (
+                      <p className="line-clamp-2 text-xs text-muted-foreground">{notification.body}</p>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {unread && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 shrink-0 p-0 opacity-0 group-hover:opacity-100"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        markRead([notification.id]);
+                      }}
+                      aria-label="Mark as read"
+                    >
+                      <Check className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
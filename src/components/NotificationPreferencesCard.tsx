@@ -0,0 +1,220 @@
+import { Fragment, useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { REPORT_WEEKDAYS } from '@/lib/reportData';
+import {
+  CHANNEL_LABELS,
+  DIGEST_FREQUENCY_LABELS,
+  NOTIFICATION_EVENTS,
+  channelEnabled,
+  fetchNotificationPreferences,
+  parseChannels,
+  setChannel,
+  type ChannelSettings,
+  type DigestFrequency,
+  type NotificationChannel,
+  type NotificationEventType,
+} from '@/lib/notificationPreferences';
+
+interface NotificationPreferencesCardProps {
+  organizationId: string;
+  userId: string;
+  timezone: string;
+}
+
+const CHANNELS: NotificationChannel[] = ['in_app', 'email'];
+
+const GROUPS: { group: 'activity' | 'digest'; title: string }[] = [
+  { group: 'activity', title: 'Activity' },
+  { group: 'digest', title: 'Digest only' },
+];
+
+export function NotificationPreferencesCard({ organizationId, userId, timezone }: NotificationPreferencesCardProps) {
+  const { toast } = useToast();
+  const [channels, setChannels] = useState<ChannelSettings>({});
+  const [frequency, setFrequency] = useState<DigestFrequency>('off');
+  const [weekday, setWeekday] = useState('1');
+  const [hour, setHour] = useState('8');
+  const [lastError, setLastError] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadPreferences();
+  }, [organizationId, userId]);
+
+  async function loadPreferences() {
+    setLoading(true);
+    try {
+      const preferences = await fetchNotificationPreferences(supabase, userId, organizationId);
+      setChannels(parseChannels(preferences?.channels));
+      setFrequency((preferences?.digest_frequency as DigestFrequency) || 'off');
+      setWeekday(String(preferences?.digest_weekday ?? 1));
+      setHour(String(preferences?.digest_hour ?? 8));
+      setLastError(preferences?.last_digest_error || null);
+    } catch (error) {
+      console.error('Error loading notification preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  async function handleSave() {
+    setSaving(true);
+
+    const { error } = await supabase
+      .from('notification_preferences')
+      .upsert(
+        {
+          user_id: userId,
+          organization_id: organizationId,
+          channels,
+          digest_frequency: frequency,
+          digest_weekday: Number(weekday),
+          digest_hour: Number(hour),
+        },
+        { onConflict: 'user_id,organization_id' }
+      );
+
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Failed to save preferences',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: 'Preferences saved',
+    });
+  }
+
+  const digestOff = frequency === 'off';
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Notifications</CardTitle>
+        <CardDescription>
+          Choose where each kind of notification reaches you in this organization. Email items are
+          collected into a digest instead of being sent one by one.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-4">
+          <div className="space-y-2">
+            <Label>Email digest</Label>
+            <Select value={frequency} onValueChange={(value) => setFrequency(value as DigestFrequency)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(DIGEST_FREQUENCY_LABELS) as DigestFrequency[]).map(value => (
+                  <SelectItem key={value} value={value}>{DIGEST_FREQUENCY_LABELS[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {frequency === 'weekly' && (
+            <div className="space-y-2">
+              <Label>On</Label>
+              <Select value={weekday} onValueChange={setWeekday}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {REPORT_WEEKDAYS.map((day, index) => (
+                    <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {!digestOff && (
+            <div className="space-y-2">
+              <Label>At</Label>
+              <Select value={hour} onValueChange={setHour}>
+                <SelectTrigger className="w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, i) => String(i)).map(h => (
+                    <SelectItem key={h} value={h}>{h.padStart(2, '0')}:00</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          {!digestOff && <p className="pb-2 text-xs text-muted-foreground">Times are in {timezone}</p>}
+        </div>
+
+        {lastError && !digestOff && (
+          <p className="text-sm text-destructive">The last digest could not be sent: {lastError}</p>
+        )}
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Event</TableHead>
+              {CHANNELS.map(channel => (
+                <TableHead key={channel} className="w-24 text-center">{CHANNEL_LABELS[channel]}</TableHead>
+              ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {GROUPS.map(({ group, title }) => (
+              <Fragment key={group}>
+                <TableRow className="hover:bg-transparent">
+                  <TableCell colSpan={CHANNELS.length + 1} className="pb-1 pt-4 text-xs font-medium uppercase text-muted-foreground">
+                    {title}
+                  </TableCell>
+                </TableRow>
+                {(Object.keys(NOTIFICATION_EVENTS) as NotificationEventType[])
+                  .filter(type => NOTIFICATION_EVENTS[type].group === group)
+                  .map(type => (
+                    <TableRow key={type}>
+                      <TableCell>
+                        <div className="font-medium">{NOTIFICATION_EVENTS[type].label}</div>
+                        <div className="text-xs text-muted-foreground">{NOTIFICATION_EVENTS[type].description}</div>
+                      </TableCell>
+                      {CHANNELS.map(channel => (
+                        <TableCell key={channel} className="text-center">
+                          {NOTIFICATION_EVENTS[type].channels.includes(channel) ? (
+                            <Switch
+                              checked={channelEnabled(channels, type, channel)}
+                              disabled={loading || (channel === 'email' && digestOff)}
+                              onCheckedChange={(checked) => setChannels(prev => setChannel(prev, type, channel, checked))}
+                              aria-label={`${NOTIFICATION_EVENTS[type].label} ${CHANNEL_LABELS[channel]}`}
+                            />
+                          ) : (
+                            <span className="text-muted-foreground">—</span>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+
+        {digestOff && (
+          <p className="text-xs text-muted-foreground">Turn on the email digest to receive anything by email.</p>
+        )}
+
+        <Button onClick={handleSave} disabled={loading || saving}>
+          {saving ? 'Saving...' : 'Save'}
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,205 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+
+const pomodoroSchema = z.object({
+  pomodoro_focus_minutes: z.coerce.number().int().min(1, "At least 1 minute").max(180, "At most 180 minutes"),
+  pomodoro_short_break_minutes: z.coerce.number().int().min(1, "At least 1 minute").max(60, "At most 60 minutes"),
+  pomodoro_long_break_minutes: z.coerce.number().int().min(1, "At least 1 minute").max(120, "At most 120 minutes"),
+  pomodoro_long_break_interval: z.coerce.number().int().min(1, "At least 1").max(12, "At most 12"),
+  pomodoro_auto_advance: z.boolean(),
+});
+
+type PomodoroFormData = z.infer<typeof pomodoroSchema>;
+
+interface PomodoroSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PomodoroSettingsDialog({ open, onOpenChange }: PomodoroSettingsDialogProps) {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState(false);
+
+  const form = useForm<PomodoroFormData>({
+    resolver: zodResolver(pomodoroSchema),
+    defaultValues: {
+      pomodoro_focus_minutes: 25,
+      pomodoro_short_break_minutes: 5,
+      pomodoro_long_break_minutes: 15,
+      pomodoro_long_break_interval: 4,
+      pomodoro_auto_advance: true,
+    },
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    (async () => {
+      const { data, error } = await supabase.rpc("get_user_settings");
+      if (error) {
+        console.error("Error loading Pomodoro settings:", error);
+        return;
+      }
+
+      form.reset({
+        pomodoro_focus_minutes: data.pomodoro_focus_minutes,
+        pomodoro_short_break_minutes: data.pomodoro_short_break_minutes,
+        pomodoro_long_break_minutes: data.pomodoro_long_break_minutes,
+        pomodoro_long_break_interval: data.pomodoro_long_break_interval,
+        pomodoro_auto_advance: data.pomodoro_auto_advance,
+      });
+    })();
+  }, [open, form]);
+
+  async function onSubmit(data: PomodoroFormData) {
+    setSubmitting(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error("Not authenticated");
+
+      const { error } = await supabase
+        .from("user_settings")
+        .update(data)
+        .eq("user_id", user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Pomodoro settings saved. They apply from the next phase.",
+      });
+
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving Pomodoro settings:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save Pomodoro settings",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Pomodoro Settings</DialogTitle>
+          <DialogDescription>Phase lengths are in minutes.</DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="pomodoro_focus_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Focus</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={180} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pomodoro_short_break_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Short break</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={60} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pomodoro_long_break_minutes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Long break</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={1} max={120} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="pomodoro_long_break_interval"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Focus sessions per cycle</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={1} max={12} {...field} />
+                  </FormControl>
+                  <FormDescription>A long break follows this many focus sessions.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="pomodoro_auto_advance"
+              render={({ field }) => (
+                <FormItem className="flex items-center justify-between rounded-lg border p-3">
+                  <div>
+                    <FormLabel>Auto-advance</FormLabel>
+                    <FormDescription>Start the next phase automatically.</FormDescription>
+                  </div>
+                  <FormControl>
+                    <Switch checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
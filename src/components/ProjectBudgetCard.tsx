@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from "react";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, Edit2, Plus } from "lucide-react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { supabase } from "@/integrations/supabase/client";
+import { ProjectBudgetDialog } from "@/components/ProjectBudgetDialog";
+import {
+  budgetUsage,
+  buildBurnDown,
+  formatBudgetAmount,
+  projectCompletion,
+  type BudgetPhase,
+  type BurnDay,
+  type ProjectBudget,
+} from "@/lib/budgets";
+
+const COLORS = {
+  primary: '#3B82F6',
+  warning: '#F59E0B',
+  danger: '#EF4444',
+  gray: '#9CA3AF',
+};
+
+interface ProjectBudgetCardProps {
+  project: { id: string; organization_id: string; start_date: string | null; end_date: string | null };
+  canEdit: boolean;
+}
+
+function usageColor(percentage: number): string {
+  if (percentage >= 100) return "text-destructive";
+  if (percentage >= 80) return "text-yellow-600";
+  return "text-muted-foreground";
+}
+
+export function ProjectBudgetCard({ project, canEdit }: ProjectBudgetCardProps) {
+  const [budget, setBudget] = useState<ProjectBudget | null>(null);
+  const [phases, setPhases] = useState<BudgetPhase[]>([]);
+  const [burnDays, setBurnDays] = useState<BurnDay[]>([]);
+  const [remainingEstimate, setRemainingEstimate] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const loadBudget = useCallback(async () => {
+    const { data: budgetData, error } = await supabase
+      .from("project_budgets")
+      .select("*, project_budget_phases(*)")
+      .eq("project_id", project.id)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Error loading budget:", error);
+      setLoading(false);
+      return;
+    }
+
+    setBudget(budgetData);
+    setPhases(
+      [...(budgetData?.project_budget_phases || [])].sort((a, b) => a.position - b.position)
+    );
+
+    const [{ data: burnData }, { data: tasksData }] = await Promise.all([
+      supabase.rpc("get_project_budget_burn", { p_project_id: project.id }),
+      supabase
+        .from("tasks")
+        .select("estimated_hours, actual_hours")
+        .eq("project_id", project.id)
+        .is("deleted_at", null)
+        .not("status_category", "in", "(done,archived)"),
+    ]);
+
+    setBurnDays(burnData || []);
+    setRemainingEstimate(
+      (tasksData || []).reduce(
+        (sum, task) => sum + Math.max(Number(task.estimated_hours || 0) - Number(task.actual_hours || 0), 0),
+        0
+      )
+    );
+    setLoading(false);
+  }, [project.id]);
+
+  useEffect(() => {
+    loadBudget();
+  }, [loadBudget]);
+
+  if (loading) return null;
+
+  const usage = budget ? budgetUsage(budget, Number(budget.amount), burnDays) : null;
+  const burnDown = budget ? buildBurnDown(budget, burnDays, project.start_date, project.end_date) : null;
+  const completion = projectCompletion(remainingEstimate, burnDays);
+  const completionSlips = completion && project.end_date && completion > parseISO(project.end_date);
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Budget</CardTitle>
+            <CardDescription>Tracked time against the project budget</CardDescription>
+          </div>
+          {canEdit && (
+            <Button variant={budget ? "outline" : "default"} onClick={() => setShowDialog(true)}>
+              {budget ? <Edit2 className="w-4 h-4 mr-2" /> : <Plus className="w-4 h-4 mr-2" />}
+              {budget ? "Edit Budget" : "Set Budget"}
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {!budget || !usage || !burnDown ? (
+          <p className="text-center text-muted-foreground py-8">
+            No budget set. Add one to track burn-down and get alerts at 50%, 80% and 100%.
+          </p>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span>
+                  {formatBudgetAmount(budget, usage.consumed)} of {formatBudgetAmount(budget, Number(budget.amount))}
+                </span>
+                <span className={usageColor(usage.percentage)}>{usage.percentage.toFixed(0)}% used</span>
+              </div>
+              <Progress value={Math.min(usage.percentage, 100)} />
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div>
+                <p className="text-sm text-muted-foreground">Remaining</p>
+                <p className="text-lg font-semibold">{formatBudgetAmount(budget, usage.remaining)}</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Burn rate</p>
+                <p className="text-lg font-semibold">{formatBudgetAmount(budget, burnDown.dailyBurnRate)}/day</p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Budget runs out</p>
+                <p className="text-lg font-semibold">
+                  {burnDown.exhaustedOn ? format(burnDown.exhaustedOn, "MMM d, yyyy") : "—"}
+                </p>
+              </div>
+              <div>
+                <p className="text-sm text-muted-foreground">Projected completion</p>
+                <p className={`text-lg font-semibold flex items-center gap-1 ${completionSlips ? "text-destructive" : ""}`}>
+                  {completionSlips && <AlertTriangle className="w-4 h-4" />}
+                  {completion ? format(completion, "MMM d, yyyy") : "—"}
+                </p>
+                <p className="text-xs text-muted-foreground">{remainingEstimate.toFixed(1)}h of estimated work left</p>
+              </div>
+            </div>
+
+            {phases.length > 0 && (
+              <div className="space-y-3">
+                {phases.map(phase => {
+                  const phaseUsage = budgetUsage(budget, Number(phase.amount), burnDays, phase);
+                  return (
+                    <div key={phase.id} className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span>
+                          <span className="font-medium">{phase.name}</span>{" "}
+                          <span className="text-muted-foreground">
+                            {format(parseISO(phase.start_date), "MMM d")} – {format(parseISO(phase.end_date), "MMM d, yyyy")}
+                          </span>
+                        </span>
+                        <span className={usageColor(phaseUsage.percentage)}>
+                          {formatBudgetAmount(budget, phaseUsage.consumed)} / {formatBudgetAmount(budget, Number(phase.amount))}
+                        </span>
+                      </div>
+                      <Progress value={Math.min(phaseUsage.percentage, 100)} className="h-2" />
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={burnDown.points}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="date"
+                  stroke="#6b7280"
+                  fontSize={12}
+                  tickFormatter={(date) => format(parseISO(date), "MMM d")}
+                />
+                <YAxis stroke="#6b7280" fontSize={12} />
+                <Tooltip
+                  labelFormatter={(date) => format(parseISO(date), "MMM d, yyyy")}
+                  formatter={(value: number) => formatBudgetAmount(budget, value)}
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))',
+                    borderRadius: '8px',
+                  }}
+                />
+                <Legend />
+                <ReferenceLine y={0} stroke={COLORS.danger} />
+                <Line type="monotone" dataKey="remaining" stroke={COLORS.primary} strokeWidth={2} dot={false} name="Remaining" />
+                <Line type="linear" dataKey="ideal" stroke={COLORS.gray} strokeDasharray="5 5" dot={false} name="Ideal" />
+                <Line type="linear" dataKey="projected" stroke={COLORS.warning} strokeDasharray="3 3" dot={false} name="Projected" />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+
+      {canEdit && (
+        <ProjectBudgetDialog
+          open={showDialog}
+          onOpenChange={setShowDialog}
+          onSuccess={loadBudget}
+          project={project}
+          budget={budget}
+          phases={phases}
+        />
+      )}
+    </Card>
+  );
+}
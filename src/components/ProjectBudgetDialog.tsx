@@ -0,0 +1,288 @@
+import { useState, useEffect } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Button } from "@/components/ui/button";
+import type { BudgetPhase, ProjectBudget } from "@/lib/budgets";
+
+interface PhaseForm {
+  name: string;
+  start_date: string;
+  end_date: string;
+  amount: string;
+}
+
+interface ProjectBudgetDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  project: { id: string; organization_id: string; start_date: string | null; end_date: string | null };
+  budget: ProjectBudget | null;
+  phases: BudgetPhase[];
+}
+
+export function ProjectBudgetDialog({ open, onOpenChange, onSuccess, project, budget, phases }: ProjectBudgetDialogProps) {
+  const { toast } = useToast();
+  const [budgetType, setBudgetType] = useState("hours");
+  const [amount, setAmount] = useState("");
+  const [currency, setCurrency] = useState("USD");
+  const [phaseForms, setPhaseForms] = useState<PhaseForm[]>([]);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setBudgetType(budget?.budget_type || "hours");
+    setAmount(budget ? String(budget.amount) : "");
+    setCurrency(budget?.currency || "USD");
+    setPhaseForms(phases.map(phase => ({
+      name: phase.name,
+      start_date: phase.start_date,
+      end_date: phase.end_date,
+      amount: String(phase.amount),
+    })));
+  }, [open, budget, phases]);
+
+  function updatePhase(index: number, values: Partial<PhaseForm>) {
+    setPhaseForms(prev => prev.map((phase, i) => (i === index ? { ...phase, ...values } : phase)));
+  }
+
+  function addPhase() {
+    setPhaseForms(prev => [
+      ...prev,
+      {
+        name: "",
+        start_date: prev[prev.length - 1]?.end_date || project.start_date || "",
+        end_date: project.end_date || "",
+        amount: "",
+      },
+    ]);
+  }
+
+  async function handleSave() {
+    const total = Number(amount);
+    if (!amount || total <= 0) {
+      toast({
+        title: "Validation Error",
+        description: "Budget must be greater than zero",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (budgetType === "money" && !/^[A-Za-z]{3}$/.test(currency)) {
+      toast({
+        title: "Validation Error",
+        description: "Use a 3-letter currency code",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const invalidPhase = phaseForms.find(phase =>
+      !phase.name.trim() || !phase.start_date || !phase.end_date ||
+      phase.end_date < phase.start_date || !(Number(phase.amount) > 0)
+    );
+    if (invalidPhase) {
+      toast({
+        title: "Validation Error",
+        description: "Each phase needs a name, a valid date range and an amount",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const phaseTotal = phaseForms.reduce((sum, phase) => sum + Number(phase.amount), 0);
+    if (phaseTotal > total) {
+      toast({
+        title: "Validation Error",
+        description: "Phases add up to more than the total budget",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const values = {
+        budget_type: budgetType,
+        amount: total,
+        currency: budgetType === "money" ? currency.toUpperCase() : null,
+      };
+
+      const { data: saved, error } = budget
+        ? await supabase.from("project_budgets").update(values).eq("id", budget.id).select().single()
+        : await supabase
+            .from("project_budgets")
+            .insert({ ...values, project_id: project.id, organization_id: project.organization_id })
+            .select()
+            .single();
+
+      if (error) throw error;
+
+      // Phases are replaced wholesale; the database recomputes their alerts
+      const { error: deleteError } = await supabase
+        .from("project_budget_phases")
+        .delete()
+        .eq("budget_id", saved.id);
+      if (deleteError) throw deleteError;
+
+      if (phaseForms.length > 0) {
+        const { error: phasesError } = await supabase.from("project_budget_phases").insert(
+          phaseForms.map((phase, index) => ({
+            budget_id: saved.id,
+            name: phase.name.trim(),
+            start_date: phase.start_date,
+            end_date: phase.end_date,
+            amount: Number(phase.amount),
+            position: index,
+          }))
+        );
+        if (phasesError) throw phasesError;
+      }
+
+      toast({
+        title: "Success",
+        description: "Budget saved",
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving budget:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save budget",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  const unit = budgetType === "hours" ? "hours" : currency.toUpperCase();
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{budget ? "Edit Budget" : "Set Budget"}</DialogTitle>
+          <DialogDescription>
+            Tracked time on the project is counted against the budget. Money budgets use each member's bill rate.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Budget in</Label>
+              <Select value={budgetType} onValueChange={setBudgetType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hours">Hours</SelectItem>
+                  <SelectItem value="money">Money</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="budget-amount">Total ({unit})</Label>
+              <Input
+                id="budget-amount"
+                type="number"
+                min={0}
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            {budgetType === "money" && (
+              <div className="space-y-2">
+                <Label htmlFor="budget-currency">Currency</Label>
+                <Input
+                  id="budget-currency"
+                  maxLength={3}
+                  className="uppercase"
+                  value={currency}
+                  onChange={(e) => setCurrency(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Phases (optional)</Label>
+              <Button type="button" variant="ghost" size="sm" onClick={addPhase}>
+                <Plus className="mr-1 h-4 w-4" />
+                Add phase
+              </Button>
+            </div>
+            {phaseForms.map((phase, index) => (
+              <div key={index} className="grid grid-cols-[1fr_auto_auto_7rem_auto] items-center gap-2">
+                <Input
+                  placeholder="e.g., Discovery"
+                  value={phase.name}
+                  onChange={(e) => updatePhase(index, { name: e.target.value })}
+                />
+                <Input
+                  type="date"
+                  value={phase.start_date}
+                  onChange={(e) => updatePhase(index, { start_date: e.target.value })}
+                />
+                <Input
+                  type="date"
+                  value={phase.end_date}
+                  onChange={(e) => updatePhase(index, { end_date: e.target.value })}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  placeholder={unit}
+                  value={phase.amount}
+                  onChange={(e) => updatePhase(index, { amount: e.target.value })}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setPhaseForms(prev => prev.filter((_, i) => i !== index))}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={submitting}>
+            {submitting ? "Saving..." : "Save Budget"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  dependencyLayers,
+  fetchProjectLinks,
+  isOpen,
+  openBlockers,
+  type LinkedTask,
+  type TaskLink,
+} from "@/lib/dependencies";
+import { fetchWorkflows, findStatus, workflowFor, type Workflow } from "@/lib/workflows";
+
+interface ProjectDependencyGraphProps {
+  projectId: string;
+  organizationId: string;
+}
+
+const NODE_WIDTH = 200;
+const NODE_HEIGHT = 48;
+const COLUMN_GAP = 72;
+const ROW_GAP = 16;
+const PADDING = 16;
+
+const EDGE_STYLES: Record<string, { dash?: string; arrow: boolean }> = {
+  blocks: { arrow: true },
+  duplicates: { dash: "2 4", arrow: true },
+  relates: { dash: "6 4", arrow: false },
+};
+
+function truncate(text: string, length: number): string {
+  return text.length > length ? `${text.slice(0, length - 1)}…` : text;
+}
+
+export function ProjectDependencyGraph({ projectId, organizationId }: ProjectDependencyGraphProps) {
+  const navigate = useNavigate();
+  const [links, setLinks] = useState<TaskLink[]>([]);
+  const [tasks, setTasks] = useState<Map<string, LinkedTask>>(new Map());
+  const [workflows, setWorkflows] = useState<Map<string, Workflow>>(new Map());
+
+  const loadGraph = useCallback(async () => {
+    try {
+      const [graph, workflowsData] = await Promise.all([
+        fetchProjectLinks(supabase, organizationId, projectId),
+        fetchWorkflows(supabase, organizationId),
+      ]);
+      setLinks(graph.links);
+      setTasks(graph.tasks);
+      setWorkflows(workflowsData);
+    } catch (error) {
+      console.error("Error loading dependencies:", error);
+    }
+  }, [projectId, organizationId]);
+
+  useEffect(() => {
+    loadGraph();
+  }, [loadGraph]);
+
+  const nodeIds = [...new Set(links.flatMap(link => [link.source_task_id, link.target_task_id]))];
+  const layers = dependencyLayers(nodeIds, links);
+
+  const columns: string[][] = [];
+  for (const id of nodeIds) {
+    const layer = layers.get(id)!;
+    if (!columns[layer]) columns[layer] = [];
+    columns[layer].push(id);
+  }
+  const usedColumns = columns.filter(Boolean);
+  usedColumns.forEach(column => column.sort((a, b) => tasks.get(a)!.code.localeCompare(tasks.get(b)!.code)));
+
+  const positions = new Map<string, { x: number; y: number; column: number }>();
+  usedColumns.forEach((column, c) => {
+    column.forEach((id, row) => {
+      positions.set(id, {
+        x: PADDING + c * (NODE_WIDTH + COLUMN_GAP),
+        y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+        column: c,
+      });
+    });
+  });
+
+  const width = PADDING * 2 + usedColumns.length * NODE_WIDTH + Math.max(0, usedColumns.length - 1) * COLUMN_GAP;
+  const height = PADDING * 2 + Math.max(0, ...usedColumns.map(column => column.length)) * (NODE_HEIGHT + ROW_GAP) - ROW_GAP;
+
+  function edgePath(link: TaskLink): string {
+    const from = positions.get(link.source_task_id)!;
+    const to = positions.get(link.target_task_id)!;
+    const fromY = from.y + NODE_HEIGHT / 2;
+    const toY = to.y + NODE_HEIGHT / 2;
+
+    if (to.column > from.column) {
+      const x1 = from.x + NODE_WIDTH;
+      const mid = (x1 + to.x) / 2;
+      return `M ${x1} ${fromY} C ${mid} ${fromY}, ${mid} ${toY}, ${to.x} ${toY}`;
+    }
+    if (to.column < from.column) {
+      const x2 = to.x + NODE_WIDTH;
+      const mid = (from.x + x2) / 2;
+      return `M ${from.x} ${fromY} C ${mid} ${fromY}, ${mid} ${toY}, ${x2} ${toY}`;
+    }
+    // Same column: loop out to the right
+    const x = from.x + NODE_WIDTH;
+    return `M ${x} ${fromY} C ${x + COLUMN_GAP / 2} ${fromY}, ${x + COLUMN_GAP / 2} ${toY}, ${x} ${toY}`;
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Dependencies</CardTitle>
+        <CardDescription>
+          Tasks flow left to right: each one sits after the tasks blocking it
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {nodeIds.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No linked tasks yet. Link tasks from the Dependencies section of a task.
+          </p>
+        ) : (
+          <>
+            <div className="overflow-x-auto border rounded-lg">
+              <svg width={width} height={height} className="text-muted-foreground">
+                <defs>
+                  <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                    <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+                  </marker>
+                </defs>
+
+                {links.map(link => {
+                  const style = EDGE_STYLES[link.link_type] || EDGE_STYLES.relates;
+                  return (
+                    <path
+                      key={link.id}
+                      d={edgePath(link)}
+                      fill="none"
+                      stroke="currentColor"
+                      strokeWidth={1.5}
+                      strokeDasharray={style.dash}
+                      markerEnd={style.arrow ? "url(#dependency-arrow)" : undefined}
+                    />
+                  );
+                })}
+
+                {nodeIds.map(id => {
+                  const task = tasks.get(id)!;
+                  const { x, y } = positions.get(id)!;
+                  const workflow = workflowFor(workflows, task.project_id);
+                  const color = findStatus(workflow, task.status)?.color || "#6B7280";
+                  const external = task.project_id !== projectId;
+                  const waiting = isOpen(task) && openBlockers(id, links, tasks).length > 0;
+
+                  return (
+                    <g
+                      key={id}
+                      className="cursor-pointer"
+                      opacity={external ? 0.6 : 1}
+                      onClick={() => navigate(`/tasks/${id}`)}
+                    >
+                      <title>{`${task.code} — ${task.title}${external ? " (other project)" : ""}`}</title>
+                      <rect
+                        x={x}
+                        y={y}
+                        width={NODE_WIDTH}
+                        height={NODE_HEIGHT}
+                        rx={6}
+                        fill="hsl(var(--card))"
+                        stroke={color}
+                        strokeWidth={2}
+                        strokeDasharray={external ? "4 3" : undefined}
+                      />
+                      <rect x={x} y={y} width={6} height={NODE_HEIGHT} rx={3} fill={color} />
+                      <text x={x + 14} y={y + 19} className="fill-foreground text-xs font-mono font-medium">
+                        {task.code}
+                        {waiting && <tspan className="fill-destructive"> · waiting</tspan>}
+                      </text>
+                      <text x={x + 14} y={y + 36} className="fill-muted-foreground text-xs">
+                        {truncate(task.title, 28)}
+                      </text>
+                    </g>
+                  );
+                })}
+              </svg>
+            </div>
+            <div className="flex flex-wrap gap-4 mt-3 text-xs text-muted-foreground">
+              <span>── blocks</span>
+              <span>- - relates to</span>
+              <span>·· duplicates</span>
+              <span>Dashed border: task in another project</span>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,390 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { addDays, differenceInCalendarDays, format, isWeekend, max as maxDate, min as minDate, parseISO, startOfWeek, subDays } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { fetchProjectLinks, type TaskLink } from "@/lib/dependencies";
+import { DEFAULT_WORKFLOW, fetchProjectWorkflow, findStatus, type Workflow } from "@/lib/workflows";
+
+interface ProjectTimelineProps {
+  projectId: string;
+  organizationId: string;
+  projectStart: string | null;
+  projectEnd: string | null;
+}
+
+interface TimelineTask {
+  id: string;
+  code: string;
+  title: string;
+  status: string;
+  status_category: string;
+  parent_task_id: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  estimated_hours: number | null;
+}
+
+interface Span {
+  start: Date;
+  end: Date;
+}
+
+type Zoom = "day" | "week" | "month";
+type DragMode = "move" | "start" | "end";
+
+interface DragState {
+  taskId: string;
+  mode: DragMode;
+  originX: number;
+  delta: number;
+}
+
+const DAY_WIDTH: Record<Zoom, number> = { day: 32, week: 14, month: 5 };
+const LABEL_WIDTH = 260;
+const HEADER_HEIGHT = 32;
+const ROW_HEIGHT = 36;
+const BAR_HEIGHT = 20;
+const HOURS_PER_DAY = 8;
+
+/**
+ * Bars end on the due date. Tasks without a start date get one day per
+ * 8 estimated hours; tasks without a due date aren't scheduled yet.
+ */
+function taskSpan(task: TimelineTask): Span | null {
+  if (!task.due_date) return null;
+
+  const end = parseISO(task.due_date);
+  if (task.start_date) return { start: parseISO(task.start_date), end };
+
+  const days = Math.max(1, Math.ceil((task.estimated_hours || 0) / HOURS_PER_DAY));
+  return { start: subDays(end, days - 1), end };
+}
+
+function applyDrag(span: Span, drag: DragState | null, taskId: string): Span {
+  if (!drag || drag.taskId !== taskId || drag.delta === 0) return span;
+
+  switch (drag.mode) {
+    case "move":
+      return { start: addDays(span.start, drag.delta), end: addDays(span.end, drag.delta) };
+    case "start":
+      return { start: minDate([addDays(span.start, drag.delta), span.end]), end: span.end };
+    case "end":
+      return { start: span.start, end: maxDate([addDays(span.end, drag.delta), span.start]) };
+  }
+}
+
+export function ProjectTimeline({ projectId, organizationId, projectStart, projectEnd }: ProjectTimelineProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<TimelineTask[]>([]);
+  const [links, setLinks] = useState<TaskLink[]>([]);
+  const [workflow, setWorkflow] = useState<Workflow>(DEFAULT_WORKFLOW);
+  const [zoom, setZoom] = useState<Zoom>("week");
+  const [drag, setDrag] = useState<DragState | null>(null);
+
+  const loadTimeline = useCallback(async () => {
+    const [{ data, error }, graph, workflowData] = await Promise.all([
+      supabase
+        .from("tasks")
+        .select("id, code, title, status, status_category, parent_task_id, start_date, due_date, estimated_hours")
+        .eq("project_id", projectId)
+        .is("deleted_at", null)
+        .neq("status", "archived"),
+      fetchProjectLinks(supabase, organizationId, projectId).catch(() => ({ links: [] as TaskLink[] })),
+      fetchProjectWorkflow(supabase, projectId).catch(() => DEFAULT_WORKFLOW),
+    ]);
+
+    if (error) {
+      console.error("Error loading timeline:", error);
+      return;
+    }
+
+    setTasks(data || []);
+    setLinks(graph.links.filter(link => link.link_type === "blocks"));
+    setWorkflow(workflowData);
+  }, [projectId, organizationId]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  // Parents in start order, each followed by its subtasks
+  const spans = new Map(tasks.map(task => [task.id, taskSpan(task)]));
+  const byStart = (a: TimelineTask, b: TimelineTask) =>
+    (spans.get(a.id)?.start.getTime() ?? Infinity) - (spans.get(b.id)?.start.getTime() ?? Infinity) ||
+    a.code.localeCompare(b.code);
+  const taskIds = new Set(tasks.map(task => task.id));
+  const rows: { task: TimelineTask; depth: number }[] = [];
+  for (const parent of tasks.filter(t => !t.parent_task_id || !taskIds.has(t.parent_task_id)).sort(byStart)) {
+    rows.push({ task: parent, depth: 0 });
+    for (const child of tasks.filter(t => t.parent_task_id === parent.id).sort(byStart)) {
+      rows.push({ task: child, depth: 1 });
+    }
+  }
+
+  const end = projectEnd ? parseISO(projectEnd) : null;
+  const today = new Date();
+  const anchors = [
+    today,
+    ...(projectStart ? [parseISO(projectStart)] : []),
+    ...(end ? [end] : []),
+    ...[...spans.values()].flatMap(span => (span ? [span.start, span.end] : [])),
+  ];
+  const rangeStart = startOfWeek(subDays(minDate(anchors), 3), { weekStartsOn: 1 });
+  const rangeEnd = addDays(maxDate(anchors), 14);
+  const dayCount = differenceInCalendarDays(rangeEnd, rangeStart) + 1;
+  const dayWidth = DAY_WIDTH[zoom];
+  const chartWidth = dayCount * dayWidth;
+  const days = Array.from({ length: dayCount }, (_, i) => addDays(rangeStart, i));
+
+  const xOf = (date: Date) => differenceInCalendarDays(date, rangeStart) * dayWidth;
+  const isSlipping = (task: TimelineTask, span: Span | null) =>
+    !!end && !!span && span.end > end && task.status_category !== "done";
+  const slipping = tasks.filter(task => isSlipping(task, spans.get(task.id)));
+
+  function headerLabel(day: Date): string | null {
+    if (zoom === "day") return format(day, "d");
+    if (zoom === "week") return day.getDay() === 1 ? format(day, "MMM d") : null;
+    return day.getDate() === 1 ? format(day, "MMM yyyy") : null;
+  }
+
+  function startDrag(e: React.PointerEvent, taskId: string, mode: DragMode) {
+    e.stopPropagation();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    setDrag({ taskId, mode, originX: e.clientX, delta: 0 });
+  }
+
+  function moveDrag(e: React.PointerEvent) {
+    if (!drag) return;
+    const delta = Math.round((e.clientX - drag.originX) / dayWidth);
+    if (delta !== drag.delta) setDrag({ ...drag, delta });
+  }
+
+  async function endDrag() {
+    if (!drag) return;
+    const current = drag;
+    setDrag(null);
+
+    const task = tasks.find(t => t.id === current.taskId);
+    const span = task && spans.get(task.id);
+    if (!task || !span || current.delta === 0) return;
+
+    const next = applyDrag(span, current, task.id);
+    const changes = { start_date: format(next.start, "yyyy-MM-dd"), due_date: format(next.end, "yyyy-MM-dd") };
+    setTasks(prev => prev.map(t => (t.id === task.id ? { ...t, ...changes } : t)));
+
+    const { data, error } = await supabase.from("tasks").update(changes).eq("id", task.id).select("id");
+
+    if (error || !data || data.length === 0) {
+      toast({
+        title: "Error",
+        description: error?.message || "You can't reschedule this task",
+        variant: "destructive",
+      });
+      loadTimeline();
+    }
+  }
+
+  const rowIndex = new Map(rows.map((row, i) => [row.task.id, i]));
+
+  function arrowPath(link: TaskLink): { d: string; conflict: boolean } | null {
+    const from = spans.get(link.source_task_id);
+    const to = spans.get(link.target_task_id);
+    const fromRow = rowIndex.get(link.source_task_id);
+    const toRow = rowIndex.get(link.target_task_id);
+    if (!from || !to || fromRow === undefined || toRow === undefined) return null;
+
+    const fromSpan = applyDrag(from, drag, link.source_task_id);
+    const toSpan = applyDrag(to, drag, link.target_task_id);
+    const x1 = xOf(fromSpan.end) + dayWidth;
+    const y1 = fromRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const x2 = xOf(toSpan.start);
+    const y2 = toRow * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const conflict = toSpan.start <= fromSpan.end;
+
+    if (x2 - x1 >= 16) {
+      return { d: `M ${x1} ${y1} H ${x1 + 8} V ${y2} H ${x2}`, conflict };
+    }
+    // The blocked task starts too early: route back around the bar
+    const midY = y2 + (y2 > y1 ? -ROW_HEIGHT / 2 : ROW_HEIGHT / 2);
+    return { d: `M ${x1} ${y1} H ${x1 + 8} V ${midY} H ${x2 - 8} V ${y2} H ${x2}`, conflict };
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex justify-between items-center gap-4">
+          <div>
+            <CardTitle>Timeline</CardTitle>
+            <CardDescription>
+              Drag a bar to reschedule a task, or its edges to change the start and due dates
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            {slipping.length > 0 && (
+              <Badge variant="destructive">
+                <AlertTriangle className="w-3 h-3 mr-1" />
+                {slipping.length} past project end
+              </Badge>
+            )}
+            <Select value={zoom} onValueChange={(value) => setZoom(value as Zoom)}>
+              <SelectTrigger className="w-28">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">Days</SelectItem>
+                <SelectItem value="week">Weeks</SelectItem>
+                <SelectItem value="month">Months</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No tasks in this project yet.</p>
+        ) : (
+          <div className="overflow-x-auto border rounded-lg">
+            <div className="relative" style={{ width: LABEL_WIDTH + chartWidth }}>
+              {/* Header */}
+              <div className="flex border-b" style={{ height: HEADER_HEIGHT }}>
+                <div
+                  className="sticky left-0 z-20 bg-background border-r px-3 flex items-center text-xs font-medium text-muted-foreground"
+                  style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+                >
+                  Task
+                </div>
+                <div className="relative" style={{ width: chartWidth }}>
+                  {days.map((day, i) => {
+                    const label = headerLabel(day);
+                    return label ? (
+                      <span
+                        key={i}
+                        className="absolute top-2 text-xs text-muted-foreground whitespace-nowrap"
+                        style={{ left: i * dayWidth + 2 }}
+                      >
+                        {label}
+                      </span>
+                    ) : null;
+                  })}
+                </div>
+              </div>
+
+              {/* Rows */}
+              <div className="relative" onPointerMove={moveDrag} onPointerUp={endDrag} onPointerCancel={() => setDrag(null)}>
+                <div className="absolute top-0 bottom-0 pointer-events-none" style={{ left: LABEL_WIDTH, width: chartWidth }}>
+                  {zoom === "day" && days.map((day, i) => isWeekend(day) && (
+                    <div key={i} className="absolute top-0 bottom-0 bg-muted/50" style={{ left: i * dayWidth, width: dayWidth }} />
+                  ))}
+                  <div className="absolute top-0 bottom-0 w-px bg-primary" style={{ left: xOf(today) + dayWidth / 2 }} />
+                  {end && (
+                    <div
+                      className="absolute top-0 bottom-0 border-l-2 border-dashed border-destructive"
+                      style={{ left: xOf(end) + dayWidth }}
+                      title={`Project ends ${format(end, "PPP")}`}
+                    />
+                  )}
+                </div>
+
+                {rows.map(({ task, depth }) => {
+                  const baseSpan = spans.get(task.id);
+                  const span = baseSpan && applyDrag(baseSpan, drag, task.id);
+                  const color = findStatus(workflow, task.status)?.color || "#6B7280";
+                  const slips = isSlipping(task, span);
+
+                  return (
+                    <div key={task.id} className="flex border-b last:border-b-0" style={{ height: ROW_HEIGHT }}>
+                      <div
+                        className="sticky left-0 z-10 bg-background border-r px-3 flex items-center gap-2 text-sm cursor-pointer hover:bg-muted"
+                        style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH, paddingLeft: 12 + depth * 20 }}
+                        onClick={() => navigate(`/tasks/${task.id}`)}
+                      >
+                        <span className="font-mono text-xs text-muted-foreground">{task.code}</span>
+                        <span className={cn("truncate", slips && "text-destructive font-medium")}>{task.title}</span>
+                      </div>
+                      <div className="relative" style={{ width: chartWidth }}>
+                        {span ? (
+                          <div
+                            className={cn(
+                              "absolute rounded cursor-grab active:cursor-grabbing touch-none select-none",
+                              task.status_category === "done" && "opacity-50",
+                              slips && "ring-2 ring-destructive ring-offset-1"
+                            )}
+                            style={{
+                              left: xOf(span.start),
+                              width: (differenceInCalendarDays(span.end, span.start) + 1) * dayWidth,
+                              top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+                              height: BAR_HEIGHT,
+                              backgroundColor: color,
+                            }}
+                            title={`${task.code}: ${format(span.start, "MMM d")} – ${format(span.end, "MMM d")}${task.start_date ? "" : " (start from estimate)"}`}
+                            onPointerDown={(e) => startDrag(e, task.id, "move")}
+                          >
+                            <div
+                              className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize"
+                              onPointerDown={(e) => startDrag(e, task.id, "start")}
+                            />
+                            <div
+                              className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize"
+                              onPointerDown={(e) => startDrag(e, task.id, "end")}
+                            />
+                          </div>
+                        ) : (
+                          <span className="absolute top-2 text-xs text-muted-foreground italic" style={{ left: xOf(today) + 8 }}>
+                            No due date
+                          </span>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })}
+
+                <svg
+                  className="absolute top-0 pointer-events-none text-muted-foreground"
+                  style={{ left: LABEL_WIDTH }}
+                  width={chartWidth}
+                  height={rows.length * ROW_HEIGHT}
+                >
+                  <defs>
+                    <marker id="timeline-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M 0 0 L 10 5 L 0 10 z" fill="currentColor" />
+                    </marker>
+                    <marker id="timeline-arrow-conflict" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="6" markerHeight="6" orient="auto">
+                      <path d="M 0 0 L 10 5 L 0 10 z" fill="hsl(var(--destructive))" />
+                    </marker>
+                  </defs>
+                  {links.map(link => {
+                    const arrow = arrowPath(link);
+                    if (!arrow) return null;
+                    return (
+                      <path
+                        key={link.id}
+                        d={arrow.d}
+                        fill="none"
+                        stroke={arrow.conflict ? "hsl(var(--destructive))" : "currentColor"}
+                        strokeWidth={1.5}
+                        markerEnd={arrow.conflict ? "url(#timeline-arrow-conflict)" : "url(#timeline-arrow)"}
+                      />
+                    );
+                  })}
+                </svg>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback } from "react";
+import { GitBranch } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { TaskStatusBadge } from "@/components/TaskStatusBadge";
+import { WorkflowDialog } from "@/components/WorkflowDialog";
+import { DEFAULT_WORKFLOW, fetchProjectWorkflow, STATUS_CATEGORY_LABELS, type Workflow } from "@/lib/workflows";
+
+interface ProjectWorkflowCardProps {
+  projectId: string;
+  canEdit: boolean;
+  enforceBlockers: boolean;
+  onSettingsChange: () => void;
+}
+
+export function ProjectWorkflowCard({ projectId, canEdit, enforceBlockers, onSettingsChange }: ProjectWorkflowCardProps) {
+  const { toast } = useToast();
+  const [workflow, setWorkflow] = useState<Workflow>(DEFAULT_WORKFLOW);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const loadWorkflow = useCallback(async () => {
+    try {
+      setWorkflow(await fetchProjectWorkflow(supabase, projectId));
+    } catch (error) {
+      console.error("Error loading workflow:", error);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    loadWorkflow();
+  }, [loadWorkflow]);
+
+  async function toggleEnforceBlockers(enabled: boolean) {
+    const { error } = await supabase.rpc("set_project_enforce_blockers", {
+      p_project_id: projectId,
+      p_enabled: enabled,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update setting",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    onSettingsChange();
+  }
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Workflow</CardTitle>
+            <CardDescription>
+              {workflow.custom ? "Custom statuses for this project's tasks" : "This project uses the default workflow"}
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button variant="outline" onClick={() => setShowDialog(true)}>
+              <GitBranch className="w-4 h-4 mr-2" />
+              Edit Workflow
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-wrap gap-3">
+          {workflow.statuses.map(status => (
+            <div key={status.key} className="flex items-center gap-2 border rounded-lg px-3 py-2">
+              <TaskStatusBadge status={status.key} workflow={workflow} />
+              <span className="text-xs text-muted-foreground">
+                {STATUS_CATEGORY_LABELS[status.category]}
+                {status.wip_limit && ` · WIP ${status.wip_limit}`}
+              </span>
+            </div>
+          ))}
+        </div>
+        {workflow.transitions.length > 0 && (
+          <Badge variant="outline" className="mt-3">
+            {workflow.transitions.length} allowed transitions
+          </Badge>
+        )}
+        <div className="flex items-center justify-between border-t pt-4 mt-4">
+          <div>
+            <Label htmlFor="enforce-blockers">Wait for blockers</Label>
+            <p className="text-sm text-muted-foreground">
+              Tasks can't leave the backlog while a task blocking them is still open.
+            </p>
+          </div>
+          <Switch
+            id="enforce-blockers"
+            checked={enforceBlockers}
+            disabled={!canEdit}
+            onCheckedChange={toggleEnforceBlockers}
+          />
+        </div>
+      </CardContent>
+
+      {canEdit && (
+        <WorkflowDialog
+          open={showDialog}
+          onOpenChange={setShowDialog}
+          onSuccess={loadWorkflow}
+          projectId={projectId}
+          workflow={workflow}
+        />
+      )}
+    </Card>
+  );
+}
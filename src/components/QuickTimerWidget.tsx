@@ -1,15 +1,16 @@
-import { useState, useEffect } from 'react';
-import { useTimer } from '@/contexts/TimerContext';
+import { useState, useEffect, useRef } from 'react';
+import { useTimer, type TimerSegment } from '@/contexts/TimerContext';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
-import { Play, Pause, Square, Minimize2, Maximize2, X } from 'lucide-react';
+import { Play, Pause, Square, Minimize2, Maximize2, X, Settings } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { getCurrentOrganization } from '@/lib/auth';
+import { PomodoroSettingsDialog } from '@/components/PomodoroSettingsDialog';
 
 interface Task {
   id: string;
@@ -20,20 +21,51 @@ interface Task {
 }
 
 export function QuickTimerWidget() {
-  const { timerState, startTimer, pauseTimer, resumeTimer, stopTimer, updateTimerTask, updateTimerDescription, updateTimerBillable, resetTimer } = useTimer();
+  const { timerState, startTimer, pauseTimer, resumeTimer, stopTimer, saveTimer, updateTimerTask, updateTimerDescription, updateTimerBillable, resetTimer } = useTimer();
   const [isExpanded, setIsExpanded] = useState(false);
   const [isVisible, setIsVisible] = useState(true);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [showSaveModal, setShowSaveModal] = useState(false);
   const [saveData, setSaveData] = useState<any>(null);
+  const [showPomodoroSettings, setShowPomodoroSettings] = useState(false);
+  const lastPhase = useRef<{ timerType: string | null; startTimestamp: number | null } | null>(null);
   const { toast } = useToast();
 
   const isQuickTimer = timerState.timerType === 'quick_timer';
+  const isPomodoro = timerState.timerType === 'pomodoro_focus' || timerState.timerType === 'pomodoro_break';
+  const isBreak = timerState.timerType === 'pomodoro_break';
+  const displaySeconds = isPomodoro && timerState.durationSeconds
+    ? Math.max(0, timerState.durationSeconds - timerState.elapsedSeconds)
+    : timerState.elapsedSeconds;
 
   useEffect(() => {
     loadTasks();
   }, []);
 
+  // Announce Pomodoro phase changes, whichever device advanced the phase
+  useEffect(() => {
+    const previous = lastPhase.current;
+    lastPhase.current = { timerType: timerState.timerType, startTimestamp: timerState.startTimestamp };
+
+    if (!isPomodoro) return;
+
+    if ('Notification' in window && Notification.permission === 'default') {
+      Notification.requestPermission();
+    }
+
+    if (!previous || previous.startTimestamp === timerState.startTimestamp) return;
+    if (previous.timerType !== 'pomodoro_focus' && previous.timerType !== 'pomodoro_break') return;
+
+    const title = previous.timerType === 'pomodoro_focus' ? 'Focus session complete' : 'Break is over';
+    const body = previous.timerType === 'pomodoro_focus' ? 'Time for a break.' : 'Back to focus.';
+
+    if ('Notification' in window && Notification.permission === 'granted') {
+      new Notification(title, { body, tag: 'devflow-pomodoro' });
+    } else {
+      toast({ title, description: body });
+    }
+  }, [timerState.timerType, timerState.startTimestamp, isPomodoro, toast]);
+
   async function loadTasks() {
     try {
       const org = await getCurrentOrganization();
@@ -49,7 +81,7 @@ export function QuickTimerWidget() {
           projects (name)
         `)
         .eq('organization_id', org.id)
-        .not('status', 'in', '(archived,done)')
+        .not('status_category', 'in', '(archived,done)')
         .is('deleted_at', null)
         .order('updated_at', { ascending: false })
         .limit(50);
@@ -77,6 +109,22 @@ export function QuickTimerWidget() {
     return `${String(hrs).padStart(2, '0')}:${String(mins).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
   }
 
+  function formatClock(timestamp: number): string {
+    return new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  }
+
+  function formatPause(ms: number): string {
+    const minutes = Math.max(0, Math.round(ms / 60000));
+    return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${minutes % 60}m` : `${minutes}m`;
+  }
+
+  function getPhaseLabel(): string {
+    if (isBreak) {
+      return timerState.isPaused && timerState.elapsedSeconds === 0 ? 'Break ready' : 'Break';
+    }
+    return `Focus #${timerState.pomodoroFocusCount + 1}`;
+  }
+
   function handleStart() {
     if (timerState.isRunning && timerState.timerType !== 'quick_timer') {
       toast({
@@ -99,8 +147,18 @@ export function QuickTimerWidget() {
   }
 
   function handleStop() {
+    // Focus time is logged at the end of each focus phase; a break has nothing to save
+    if (isBreak) {
+      resetTimer();
+      setIsExpanded(false);
+      toast({
+        title: 'Pomodoro Ended',
+      });
+      return;
+    }
+
     try {
-      const { startTime, endTime, duration } = stopTimer();
+      const { startTime, endTime, duration, segments } = stopTimer();
       
       // Always show save modal on stop - task selection happens here if not set
       setSaveData({
@@ -109,6 +167,7 @@ export function QuickTimerWidget() {
         startTime,
         endTime,
         duration,
+        segments,
         description: timerState.description,
         isBillable: timerState.isBillable,
       });
@@ -124,76 +183,34 @@ export function QuickTimerWidget() {
 
   async function handleSaveTimeEntry() {
     try {
-      const org = await getCurrentOrganization();
-      if (!org) throw new Error('No organization found');
-
-      const { data: user } = await supabase.auth.getUser();
-      if (!user.user) throw new Error('Not authenticated');
-
-      // Check for overlaps
-      const { data: hasOverlap, error: overlapError } = await supabase.rpc('check_time_entry_overlap', {
-        p_user_id: user.user.id,
-        p_start_time: saveData.startTime.toISOString(),
-        p_end_time: saveData.endTime.toISOString(),
-      });
-
-      if (overlapError) throw overlapError;
-      if (hasOverlap) {
-        toast({
-          title: 'Overlap Detected',
-          description: 'Time entry overlaps with existing entry.',
-          variant: 'destructive',
-        });
-        return;
-      }
-
-      // Check limit
-      const { data: canCreate, error: limitError } = await supabase.rpc('check_time_entry_limit', {
-        p_org_id: org.id,
-        p_user_id: user.user.id,
-      });
-
-      if (limitError) throw limitError;
-      if (!canCreate) {
-        toast({
-          title: 'Limit Reached',
-          description: 'Free plan allows max 100 time entries per month. Upgrade to Pro for unlimited.',
-          variant: 'destructive',
-        });
-        return;
-      }
-
-      const { error: insertError } = await supabase.from('time_entries').insert({
-        organization_id: org.id,
-        user_id: user.user.id,
-        task_id: saveData.taskId,
-        project_id: saveData.projectId,
-        timer_type: 'quick_timer',
-        start_time: saveData.startTime.toISOString(),
-        end_time: saveData.endTime.toISOString(),
-        duration_seconds: saveData.duration,
+      // Overlap and plan limits are enforced server-side when the timer is stopped
+      const { entryIds, queued } = await saveTimer({
+        taskId: saveData.taskId,
+        projectId: saveData.projectId,
         description: saveData.description,
-        is_billable: saveData.isBillable,
+        isBillable: saveData.isBillable,
+        endTime: saveData.endTime,
       });
 
-      if (insertError) throw insertError;
-
-      // Update task actual hours
-      if (saveData.taskId) {
-        await supabase.rpc('update_task_actual_hours', { p_task_id: saveData.taskId });
-      }
-
       const hours = Math.floor(saveData.duration / 3600);
       const minutes = Math.floor((saveData.duration % 3600) / 60);
       const durationStr = hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
 
-      toast({
-        title: 'Time Logged',
-        description: `Time logged: ${durationStr}`,
-      });
+      if (queued) {
+        toast({
+          title: 'Saved Offline',
+          description: `${durationStr} will be logged when you're back online`,
+        });
+      } else {
+        toast({
+          title: 'Time Logged',
+          description: entryIds.length > 1
+            ? `Time logged: ${durationStr} across ${entryIds.length} entries`
+            : `Time logged: ${durationStr}`,
+        });
+      }
 
       setShowSaveModal(false);
-      resetTimer();
       setIsExpanded(false);
     } catch (error: any) {
       console.error('Error saving time entry:', error);
@@ -214,7 +231,7 @@ export function QuickTimerWidget() {
     });
   }
 
-  if (!isVisible || !isQuickTimer) return null;
+  if (!isVisible || (!isQuickTimer && !isPomodoro)) return null;
 
   return (
     <>
@@ -230,7 +247,10 @@ export function QuickTimerWidget() {
           >
             <div className="flex items-center justify-between">
               <div>
-                <div className="text-lg font-bold">{formatTime(timerState.elapsedSeconds)}</div>
+                <div className="text-lg font-bold">{formatTime(displaySeconds)}</div>
+                {isPomodoro && (
+                  <div className="text-xs text-muted-foreground">{getPhaseLabel()}</div>
+                )}
                 {timerState.taskCode && (
                   <div className="text-xs text-muted-foreground">{timerState.taskCode}</div>
                 )}
@@ -242,8 +262,13 @@ export function QuickTimerWidget() {
           // Expanded State
           <div className="p-4 space-y-4">
             <div className="flex items-center justify-between">
-              <h3 className="font-semibold">Quick Timer</h3>
+              <h3 className="font-semibold">{isPomodoro ? 'Pomodoro' : 'Quick Timer'}</h3>
               <div className="flex gap-1">
+                {isPomodoro && (
+                  <Button size="icon" variant="ghost" onClick={() => setShowPomodoroSettings(true)}>
+                    <Settings className="h-4 w-4" />
+                  </Button>
+                )}
                 <Button size="icon" variant="ghost" onClick={() => setIsExpanded(false)}>
                   <Minimize2 className="h-4 w-4" />
                 </Button>
@@ -254,11 +279,14 @@ export function QuickTimerWidget() {
             </div>
 
             <div className="text-center">
-              <div className="text-3xl font-bold">{formatTime(timerState.elapsedSeconds)}</div>
+              <div className="text-3xl font-bold">{formatTime(displaySeconds)}</div>
+              {isPomodoro && (
+                <div className="text-sm text-muted-foreground">{getPhaseLabel()}</div>
+              )}
             </div>
 
             <div className="space-y-2">
-              <Label>Task (optional - can be set on stop)</Label>
+              <Label>{isPomodoro ? 'Task (required to log focus time)' : 'Task (optional - can be set on stop)'}</Label>
               <Select
                 value={timerState.taskId || ''}
                 onValueChange={(value) => {
@@ -342,6 +370,18 @@ export function QuickTimerWidget() {
                 <div className="text-2xl font-bold">
                   {Math.floor(saveData.duration / 3600)}h {Math.floor((saveData.duration % 3600) / 60)}m
                 </div>
+                {saveData.segments.length > 1 && (
+                  <div className="mt-2 space-y-1 text-xs text-muted-foreground">
+                    <div>
+                      Paused {formatPause(saveData.endTime.getTime() - saveData.startTime.getTime() - saveData.duration * 1000)} · saved as {saveData.segments.length} entries
+                    </div>
+                    {saveData.segments.map((segment: TimerSegment, index: number) => (
+                      <div key={index}>
+                        {formatClock(segment.start)} – {formatClock(segment.end)}
+                      </div>
+                    ))}
+                  </div>
+                )}
               </div>
               <div>
                 <Label>Task (required)</Label>
@@ -397,6 +437,8 @@ export function QuickTimerWidget() {
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      <PomodoroSettingsDialog open={showPomodoroSettings} onOpenChange={setShowPomodoroSettings} />
     </>
   );
 }
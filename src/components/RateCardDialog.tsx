@@ -0,0 +1,283 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+
+const ALL = "all";
+
+const optionalRate = z
+  .string()
+  .refine(value => value === "" || (Number(value) >= 0 && !Number.isNaN(Number(value))), "Must be a positive amount");
+
+const rateCardSchema = z
+  .object({
+    project_id: z.string(),
+    user_id: z.string(),
+    bill_rate: optionalRate,
+    cost_rate: optionalRate,
+    currency: z.string().regex(/^[A-Za-z]{3}$/, "Use a 3-letter currency code"),
+    effective_from: z.string().min(1, "Start date is required"),
+  })
+  .refine(data => data.bill_rate !== "" || data.cost_rate !== "", {
+    message: "Set a bill rate, a cost rate or both",
+    path: ["bill_rate"],
+  });
+
+type RateCardFormData = z.infer<typeof rateCardSchema>;
+
+interface RateCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  organizationId: string;
+  projects: { id: string; name: string }[];
+  members: { user_id: string; email: string }[];
+  defaultCurrency: string;
+}
+
+export function RateCardDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+  organizationId,
+  projects,
+  members,
+  defaultCurrency,
+}: RateCardDialogProps) {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState(false);
+
+  const form = useForm<RateCardFormData>({
+    resolver: zodResolver(rateCardSchema),
+    defaultValues: {
+      project_id: ALL,
+      user_id: ALL,
+      bill_rate: "",
+      cost_rate: "",
+      currency: defaultCurrency,
+      effective_from: format(new Date(), "yyyy-MM-dd"),
+    },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({
+        project_id: ALL,
+        user_id: ALL,
+        bill_rate: "",
+        cost_rate: "",
+        currency: defaultCurrency,
+        effective_from: format(new Date(), "yyyy-MM-dd"),
+      });
+    }
+  }, [open, defaultCurrency, form]);
+
+  async function onSubmit(data: RateCardFormData) {
+    setSubmitting(true);
+
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+
+      const { error } = await supabase.from("rate_cards").insert({
+        organization_id: organizationId,
+        project_id: data.project_id === ALL ? null : data.project_id,
+        user_id: data.user_id === ALL ? null : data.user_id,
+        bill_rate: data.bill_rate === "" ? null : Number(data.bill_rate),
+        cost_rate: data.cost_rate === "" ? null : Number(data.cost_rate),
+        currency: data.currency.toUpperCase(),
+        effective_from: data.effective_from,
+        created_by: user?.id,
+      });
+
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error("A rate for this scope already starts on that date");
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Rate saved",
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving rate:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save rate",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Add Rate</DialogTitle>
+          <DialogDescription>
+            Hourly rates apply from the start date until a newer rate for the same scope takes over.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <FormField
+                control={form.control}
+                name="project_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Project</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All projects</SelectItem>
+                        {projects.map(project => (
+                          <SelectItem key={project.id} value={project.id}>
+                            {project.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="user_id"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Member</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={ALL}>All members</SelectItem>
+                        {members.map(member => (
+                          <SelectItem key={member.user_id} value={member.user_id}>
+                            {member.email}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-3">
+              <FormField
+                control={form.control}
+                name="bill_rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Bill rate</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.01" placeholder="—" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="cost_rate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cost rate</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} step="0.01" placeholder="—" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="currency"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Currency</FormLabel>
+                    <FormControl>
+                      <Input maxLength={3} className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="effective_from"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Effective from</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Leave a rate empty to inherit it from a broader scope.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "Saving..." : "Save"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,166 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { formatMoney } from '@/lib/rates';
+import { RateCardDialog } from '@/components/RateCardDialog';
+import type { Tables } from '@/integrations/supabase/types';
+
+interface RateCardsCardProps {
+  organizationId: string;
+  canEdit: boolean;
+}
+
+function scopeLabel(card: Tables<'rate_cards'>): string {
+  if (card.project_id && card.user_id) return 'Project member';
+  if (card.project_id) return 'Project';
+  if (card.user_id) return 'Member';
+  return 'Organization default';
+}
+
+export function RateCardsCard({ organizationId, canEdit }: RateCardsCardProps) {
+  const [rateCards, setRateCards] = useState<Tables<'rate_cards'>[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [members, setMembers] = useState<{ user_id: string; email: string }[]>([]);
+  const [showDialog, setShowDialog] = useState(false);
+  const { toast } = useToast();
+
+  const loadRateCards = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('rate_cards')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('effective_from', { ascending: false });
+
+    if (error) {
+      console.error('Error loading rates:', error);
+      return;
+    }
+    setRateCards(data || []);
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadRateCards();
+
+    (async () => {
+      const { data: projectsData } = await supabase
+        .from('projects')
+        .select('id, name')
+        .eq('organization_id', organizationId)
+        .is('deleted_at', null)
+        .order('name');
+      setProjects(projectsData || []);
+
+      const { data: membersData } = await supabase.rpc('get_org_members_with_emails', {
+        p_org_id: organizationId,
+      });
+      setMembers(membersData || []);
+    })();
+  }, [organizationId, loadRateCards]);
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this rate? Reports will fall back to the next matching rate.')) return;
+
+    const { error } = await supabase.from('rate_cards').delete().eq('id', id);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete rate',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Rate deleted' });
+    loadRateCards();
+  }
+
+  const projectName = (id: string) => projects.find(p => p.id === id)?.name || 'Unknown project';
+  const memberEmail = (id: string) => members.find(m => m.user_id === id)?.email || 'Unknown member';
+  const defaultCurrency = rateCards.find(card => !card.project_id && !card.user_id)?.currency || rateCards[0]?.currency || 'USD';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Hourly Rates</CardTitle>
+            <CardDescription>
+              Bill and cost rates used for revenue, cost and margin. The most specific rate wins:
+              project member, project, member, then organization default.
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Button onClick={() => setShowDialog(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Rate
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {rateCards.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            No rates yet. Add an organization default to start tracking revenue.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Scope</TableHead>
+                <TableHead>Applies to</TableHead>
+                <TableHead className="text-right">Bill rate</TableHead>
+                <TableHead className="text-right">Cost rate</TableHead>
+                <TableHead>Effective from</TableHead>
+                {canEdit && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rateCards.map(card => (
+                <TableRow key={card.id}>
+                  <TableCell>
+                    <Badge variant="secondary">{scopeLabel(card)}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {[card.project_id && projectName(card.project_id), card.user_id && memberEmail(card.user_id)]
+                      .filter(Boolean)
+                      .join(' · ') || 'Everyone'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {card.bill_rate !== null ? `${formatMoney(card.bill_rate, card.currency)}/h` : '—'}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {card.cost_rate !== null ? `${formatMoney(card.cost_rate, card.currency)}/h` : '—'}
+                  </TableCell>
+                  <TableCell>{format(new Date(`${card.effective_from}T00:00:00`), 'MMM d, yyyy')}</TableCell>
+                  {canEdit && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => handleDelete(card.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <RateCardDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        onSuccess={loadRateCards}
+        organizationId={organizationId}
+        projects={projects}
+        members={members}
+        defaultCurrency={defaultCurrency}
+      />
+    </Card>
+  );
+}
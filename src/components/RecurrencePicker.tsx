@@ -0,0 +1,146 @@
+import { format, getISODay } from "date-fns";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  describeRule,
+  formatRule,
+  nextOccurrence,
+  parseRule,
+  WEEKDAY_LABELS,
+  WEEKDAYS,
+  type Frequency,
+  type RecurrenceRule,
+  type Weekday,
+} from "@/lib/recurrence";
+
+interface RecurrencePickerProps {
+  /** RRULE string, or null for a one-off task */
+  value: string | null;
+  onChange: (value: string | null) => void;
+  /** Occurrences follow the due date; today when there is none */
+  dueDate?: Date | null;
+  disabled?: boolean;
+}
+
+const FREQUENCY_UNITS: Record<Frequency, string> = { DAILY: "day(s)", WEEKLY: "week(s)", MONTHLY: "month(s)" };
+
+export function RecurrencePicker({ value, onChange, dueDate, disabled }: RecurrencePickerProps) {
+  const rule = value ? parseRule(value) : null;
+
+  function update(changes: Partial<RecurrenceRule>) {
+    onChange(formatRule({ ...rule!, ...changes }));
+  }
+
+  function handleFrequency(freq: string) {
+    if (freq === "none") {
+      onChange(null);
+      return;
+    }
+    // Pin the day so later instances don't drift after a short month
+    const anchor = dueDate || new Date();
+    onChange(formatRule({
+      freq: freq as Frequency,
+      interval: 1,
+      byDay: freq === "WEEKLY" ? [WEEKDAYS[getISODay(anchor) - 1]] : [],
+      byMonthDay: freq === "MONTHLY" ? anchor.getDate() : null,
+      until: rule?.until || null,
+    }));
+  }
+
+  const next = rule ? nextOccurrence(rule, dueDate || new Date()) : null;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Select value={rule?.freq || "none"} onValueChange={handleFrequency} disabled={disabled}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="none">Does not repeat</SelectItem>
+            <SelectItem value="DAILY">Daily</SelectItem>
+            <SelectItem value="WEEKLY">Weekly</SelectItem>
+            <SelectItem value="MONTHLY">Monthly</SelectItem>
+          </SelectContent>
+        </Select>
+        {rule && (
+          <>
+            <span className="text-sm text-muted-foreground">every</span>
+            <Input
+              type="number"
+              min={1}
+              max={99}
+              className="w-16"
+              value={rule.interval}
+              disabled={disabled}
+              onChange={(e) => update({ interval: Math.min(99, Math.max(1, Number(e.target.value) || 1)) })}
+            />
+            <span className="text-sm text-muted-foreground">{FREQUENCY_UNITS[rule.freq]}</span>
+          </>
+        )}
+      </div>
+
+      {rule?.freq === "WEEKLY" && (
+        <ToggleGroup
+          type="multiple"
+          variant="outline"
+          size="sm"
+          className="justify-start"
+          value={rule.byDay}
+          disabled={disabled}
+          onValueChange={(days) => update({ byDay: days as Weekday[] })}
+        >
+          {WEEKDAYS.map(day => (
+            <ToggleGroupItem key={day} value={day}>{WEEKDAY_LABELS[day]}</ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      )}
+
+      {rule?.freq === "MONTHLY" && (
+        <div className="flex items-center gap-2">
+          <Label className="text-sm font-normal text-muted-foreground">On day</Label>
+          <Input
+            type="number"
+            min={1}
+            max={31}
+            className="w-16"
+            placeholder={String((dueDate || new Date()).getDate())}
+            value={rule.byMonthDay ?? ""}
+            disabled={disabled}
+            onChange={(e) => update({ byMonthDay: e.target.value ? Math.min(31, Math.max(1, Number(e.target.value))) : null })}
+          />
+        </div>
+      )}
+
+      {rule && (
+        <div className="flex items-center gap-2">
+          <Label className="text-sm font-normal text-muted-foreground">Until</Label>
+          <Input
+            type="date"
+            className="w-44"
+            value={rule.until || ""}
+            disabled={disabled}
+            onChange={(e) => update({ until: e.target.value || null })}
+          />
+        </div>
+      )}
+
+      {rule && (
+        <p className="text-xs text-muted-foreground">
+          {describeRule(rule)}.{" "}
+          {next
+            ? `The next instance is created when this one is done or on ${format(next, "EEE, MMM d")}, whichever comes first.`
+            : "No occurrences left."}
+        </p>
+      )}
+    </div>
+  );
+}
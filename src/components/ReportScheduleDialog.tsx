@@ -0,0 +1,395 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
+import { REPORT_PERIOD_LABELS, REPORT_WEEKDAYS, type ReportFilters } from '@/lib/reportData';
+import type { Tables } from '@/integrations/supabase/types';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const AUDIT_TABLES = ['tasks', 'time_entries', 'projects', 'teams', 'timesheets', 'subscriptions'];
+
+interface ReportScheduleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  organizationId: string;
+  schedule: Tables<'report_schedules'> | null;
+  templates: { id: string; name: string; filters: string[] }[];
+  users: { user_id: string; email: string }[];
+  projects: { id: string; name: string }[];
+  teams: { id: string; name: string }[];
+}
+
+export function ReportScheduleDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+  organizationId,
+  schedule,
+  templates,
+  users,
+  projects,
+  teams,
+}: ReportScheduleDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState('');
+  const [templateId, setTemplateId] = useState('billable_hours');
+  const [period, setPeriod] = useState('last_week');
+  const [reportFormat, setReportFormat] = useState('pdf');
+  const [frequency, setFrequency] = useState('weekly');
+  const [weekday, setWeekday] = useState('1');
+  const [dayOfMonth, setDayOfMonth] = useState('1');
+  const [hour, setHour] = useState('8');
+  const [recipients, setRecipients] = useState('');
+  const [filters, setFilters] = useState<ReportFilters>({});
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(schedule?.name || '');
+    setTemplateId(schedule?.template_id || 'billable_hours');
+    setPeriod(schedule?.period || 'last_week');
+    setReportFormat(schedule?.format || 'pdf');
+    setFrequency(schedule?.frequency || 'weekly');
+    setWeekday(String(schedule?.weekday ?? 1));
+    setDayOfMonth(String(schedule?.day_of_month ?? 1));
+    setHour(String(schedule?.hour ?? 8));
+    setRecipients((schedule?.recipients || []).join(', '));
+    setFilters((schedule?.filters as ReportFilters) || {});
+  }, [open, schedule]);
+
+  const template = templates.find(t => t.id === templateId);
+
+  function updateFilter(key: keyof ReportFilters, value: string) {
+    setFilters(prev => ({ ...prev, [key]: value === 'all' ? undefined : value }));
+  }
+
+  async function handleSave() {
+    if (!name.trim()) {
+      toast({
+        title: 'Validation Error',
+        description: 'Schedule name is required',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    const emails = recipients.split(/[\s,;]+/).map(email => email.trim()).filter(Boolean);
+    const invalidEmail = emails.find(email => !EMAIL_REGEX.test(email));
+    if (invalidEmail) {
+      toast({
+        title: 'Validation Error',
+        description: `${invalidEmail} is not a valid email address`,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    // Only keep the filters the selected report supports
+    const appliedFilters: ReportFilters = {};
+    (['user', 'project', 'team', 'approvalStatus', 'table'] as const).forEach(key => {
+      if (template?.filters.includes(key) && filters[key]) {
+        appliedFilters[key] = filters[key];
+      }
+    });
+
+    setSubmitting(true);
+    try {
+      const values = {
+        name: name.trim(),
+        template_id: templateId,
+        period,
+        format: reportFormat,
+        frequency,
+        weekday: frequency === 'weekly' ? Number(weekday) : null,
+        day_of_month: frequency === 'monthly' ? Number(dayOfMonth) : null,
+        hour: Number(hour),
+        recipients: emails,
+        filters: { ...appliedFilters },
+      };
+
+      if (schedule) {
+        const { error } = await supabase.from('report_schedules').update(values).eq('id', schedule.id);
+        if (error) throw error;
+      } else {
+        const { data: { user } } = await supabase.auth.getUser();
+        const { error } = await supabase
+          .from('report_schedules')
+          .insert({ ...values, organization_id: organizationId, created_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast({
+        title: 'Success',
+        description: 'Schedule saved',
+      });
+
+      onSuccess();
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error saving report schedule:', error);
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to save schedule',
+        variant: 'destructive',
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{schedule ? 'Edit Schedule' : 'New Schedule'}</DialogTitle>
+          <DialogDescription>
+            The report runs in the organization's timezone and is kept in the report history.
+            Recipients get it by email.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="schedule-name">Name</Label>
+            <Input
+              id="schedule-name"
+              placeholder="e.g., Weekly billable hours"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Report</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(REPORT_PERIOD_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Format</Label>
+              <Select value={reportFormat} onValueChange={setReportFormat}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="csv">CSV</SelectItem>
+                  <SelectItem value="pdf">PDF</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Runs</Label>
+              <Select value={frequency} onValueChange={setFrequency}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="daily">Daily</SelectItem>
+                  <SelectItem value="weekly">Weekly</SelectItem>
+                  <SelectItem value="monthly">Monthly</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {frequency === 'weekly' && (
+              <div className="space-y-2">
+                <Label>On</Label>
+                <Select value={weekday} onValueChange={setWeekday}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {REPORT_WEEKDAYS.map((day, index) => (
+                      <SelectItem key={day} value={String(index)}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            {frequency === 'monthly' && (
+              <div className="space-y-2">
+                <Label>On day</Label>
+                <Select value={dayOfMonth} onValueChange={setDayOfMonth}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Array.from({ length: 28 }, (_, i) => String(i + 1)).map(day => (
+                      <SelectItem key={day} value={day}>{day}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label>At</Label>
+              <Select value={hour} onValueChange={setHour}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Array.from({ length: 24 }, (_, i) => String(i)).map(h => (
+                    <SelectItem key={h} value={h}>{h.padStart(2, '0')}:00</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          {template?.filters.includes('user') && (
+            <div className="space-y-2">
+              <Label>User</Label>
+              <Select value={filters.user || 'all'} onValueChange={(value) => updateFilter('user', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Users</SelectItem>
+                  {users.map(u => (
+                    <SelectItem key={u.user_id} value={u.user_id}>{u.email}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {template?.filters.includes('project') && (
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={filters.project || 'all'} onValueChange={(value) => updateFilter('project', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Projects</SelectItem>
+                  {projects.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {template?.filters.includes('team') && (
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <Select value={filters.team || 'all'} onValueChange={(value) => updateFilter('team', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Teams</SelectItem>
+                  {teams.map(t => (
+                    <SelectItem key={t.id} value={t.id}>{t.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {template?.filters.includes('approvalStatus') && (
+            <div className="space-y-2">
+              <Label>Approval Status</Label>
+              <Select
+                value={filters.approvalStatus || 'all'}
+                onValueChange={(value) => updateFilter('approvalStatus', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
+                  <SelectItem value="submitted">Pending</SelectItem>
+                  <SelectItem value="rejected">Rejected</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {template?.filters.includes('table') && (
+            <div className="space-y-2">
+              <Label>Table</Label>
+              <Select value={filters.table || 'all'} onValueChange={(value) => updateFilter('table', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Tables</SelectItem>
+                  {AUDIT_TABLES.map(table => (
+                    <SelectItem key={table} value={table}>{table}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="schedule-recipients">Email to</Label>
+            <Input
+              id="schedule-recipients"
+              placeholder="finance@example.com, lead@example.com"
+              value={recipients}
+              onChange={(e) => setRecipients(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Leave empty to only store the report in the history.
+            </p>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={submitting}>
+            {submitting ? 'Saving...' : 'Save Schedule'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Edit2, Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { ReportScheduleDialog } from '@/components/ReportScheduleDialog';
+import { REPORT_PERIOD_LABELS, REPORT_WEEKDAYS, type ReportPeriod } from '@/lib/reportData';
+import type { Tables } from '@/integrations/supabase/types';
+
+type ReportSchedule = Tables<'report_schedules'>;
+
+interface ReportSchedulesCardProps {
+  organizationId: string;
+  templates: { id: string; name: string; filters: string[] }[];
+  users: { user_id: string; email: string }[];
+  projects: { id: string; name: string }[];
+  teams: { id: string; name: string }[];
+}
+
+function timingLabel(schedule: ReportSchedule): string {
+  const at = `${String(schedule.hour).padStart(2, '0')}:00`;
+  if (schedule.frequency === 'weekly') return `Every ${REPORT_WEEKDAYS[schedule.weekday ?? 1]} at ${at}`;
+  if (schedule.frequency === 'monthly') return `Monthly on day ${schedule.day_of_month} at ${at}`;
+  return `Daily at ${at}`;
+}
+
+/** Recurring reports, emailed or stored by the run-report-schedules function */
+export function ReportSchedulesCard({ organizationId, templates, users, projects, teams }: ReportSchedulesCardProps) {
+  const [schedules, setSchedules] = useState<ReportSchedule[]>([]);
+  const [editing, setEditing] = useState<ReportSchedule | null>(null);
+  const [showDialog, setShowDialog] = useState(false);
+  const { toast } = useToast();
+
+  const loadSchedules = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('report_schedules')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading report schedules:', error);
+      return;
+    }
+    setSchedules(data || []);
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadSchedules();
+  }, [loadSchedules]);
+
+  async function handleToggle(schedule: ReportSchedule, isActive: boolean) {
+    const { error } = await supabase
+      .from('report_schedules')
+      .update({ is_active: isActive })
+      .eq('id', schedule.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to update schedule',
+        variant: 'destructive',
+      });
+      return;
+    }
+    loadSchedules();
+  }
+
+  async function handleDelete(schedule: ReportSchedule) {
+    if (!confirm(`Delete the schedule "${schedule.name}"? Reports it already produced are kept.`)) return;
+
+    const { error } = await supabase.from('report_schedules').delete().eq('id', schedule.id);
+
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete schedule',
+        variant: 'destructive',
+      });
+      return;
+    }
+    loadSchedules();
+  }
+
+  return (
+    <Card className="mb-12">
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle>Scheduled Reports</CardTitle>
+            <CardDescription>Generate reports automatically and email them to your team</CardDescription>
+          </div>
+          <Button
+            onClick={() => {
+              setEditing(null);
+              setShowDialog(true);
+            }}
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Schedule
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {schedules.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">
+            No scheduled reports. Add one to get e.g. billable hours every Monday for the previous week.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Runs</TableHead>
+                <TableHead>Delivery</TableHead>
+                <TableHead>Next Run</TableHead>
+                <TableHead>Active</TableHead>
+                <TableHead>Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {schedules.map(schedule => (
+                <TableRow key={schedule.id}>
+                  <TableCell>
+                    <div className="font-medium">{schedule.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {templates.find(t => t.id === schedule.template_id)?.name} ·{' '}
+                      {REPORT_PERIOD_LABELS[schedule.period as ReportPeriod]} · {schedule.format.toUpperCase()}
+                    </div>
+                  </TableCell>
+                  <TableCell>{timingLabel(schedule)}</TableCell>
+                  <TableCell>
+                    {schedule.recipients.length > 0 ? schedule.recipients.join(', ') : 'History only'}
+                  </TableCell>
+                  <TableCell>
+                    {schedule.next_run_at ? format(new Date(schedule.next_run_at), 'MMM d, yyyy HH:mm') : '—'}
+                    {schedule.last_error && (
+                      <div className="mt-1">
+                        <Badge variant="destructive" title={schedule.last_error}>Last run failed</Badge>
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Switch
+                      checked={schedule.is_active}
+                      onCheckedChange={(checked) => handleToggle(schedule, checked)}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex gap-2">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setEditing(schedule);
+                          setShowDialog(true);
+                        }}
+                      >
+                        <Edit2 className="h-4 w-4" />
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(schedule)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <ReportScheduleDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        onSuccess={loadSchedules}
+        organizationId={organizationId}
+        schedule={editing}
+        templates={templates}
+        users={users}
+        projects={projects}
+        teams={teams}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,146 @@
+import { useState, useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import type { TemplateKind } from "@/lib/templates";
+
+const templateSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100, "Name must be at most 100 characters"),
+  description: z.string().max(1000, "Description must be at most 1000 characters"),
+});
+
+type TemplateFormData = z.infer<typeof templateSchema>;
+
+interface SaveAsTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kind: TemplateKind;
+  /** Project id for project templates, top-level task id for task templates */
+  sourceId: string;
+  defaultName: string;
+}
+
+export function SaveAsTemplateDialog({ open, onOpenChange, kind, sourceId, defaultName }: SaveAsTemplateDialogProps) {
+  const { toast } = useToast();
+  const [submitting, setSubmitting] = useState(false);
+
+  const form = useForm<TemplateFormData>({
+    resolver: zodResolver(templateSchema),
+    defaultValues: { name: defaultName, description: "" },
+  });
+
+  useEffect(() => {
+    if (open) {
+      form.reset({ name: defaultName, description: "" });
+    }
+  }, [open, defaultName, form]);
+
+  async function onSubmit(data: TemplateFormData) {
+    setSubmitting(true);
+
+    const { error } = kind === "project"
+      ? await supabase.rpc("save_project_as_template", {
+          p_project_id: sourceId,
+          p_name: data.name,
+          p_description: data.description,
+        })
+      : await supabase.rpc("save_task_as_template", {
+          p_task_id: sourceId,
+          p_name: data.name,
+          p_description: data.description,
+        });
+
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save template",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `Template "${data.name}" saved`,
+    });
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            {kind === "project"
+              ? "Captures the project's tasks, subtasks, estimates and assigned teams. Dates are kept relative to the project start."
+              : "Captures this task and its subtasks. Dates are kept relative to the task's start."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="name"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="When to use this template" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-2 pt-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={submitting}>
+                {submitting ? "Saving..." : "Save Template"}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
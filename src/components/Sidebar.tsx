@@ -10,6 +10,9 @@ import {
   BarChart3,
   Settings,
   Users,
+  Briefcase,
+  Receipt,
+  Zap,
   LogOut
 } from "lucide-react";
 import { useTimer } from "@/contexts/TimerContext";
@@ -29,8 +32,9 @@ export function Sidebar() {
     { to: "/dashboard", icon: Home, label: "Home" },
     { to: "/projects", icon: FolderKanban, label: "Projects" },
     { to: "/tasks", icon: CheckSquare, label: "Tasks" },
+    { to: "/sprints", icon: Zap, label: "Sprints" },
     { 
-      action: () => startTimer('pomodoro_focus', 25 * 60), 
+      action: () => startTimer('pomodoro_focus'), 
       icon: Timer, 
       label: "Pomodoro",
       disabled: timerState.isRunning && timerState.timerType !== 'quick_timer'
@@ -39,6 +43,8 @@ export function Sidebar() {
     { to: "/timesheets", icon: Calendar, label: "Timesheets" },
     { to: "/reports", icon: FileText, label: "Reports" },
     { to: "/analytics", icon: BarChart3, label: "Analytics" },
+    { to: "/clients", icon: Briefcase, label: "Clients" },
+    { to: "/invoices", icon: Receipt, label: "Invoices" },
     { to: "/settings/teams", icon: Users, label: "Team" },
     { to: "/settings/billing", icon: Settings, label: "Settings" },
   ];
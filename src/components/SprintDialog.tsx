@@ -0,0 +1,236 @@
+import { useState, useEffect } from "react";
+import { addDays, format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import type { Sprint } from "@/lib/sprints";
+
+interface SprintDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: (sprint: Sprint) => void;
+  organizationId: string;
+  sprint: Sprint | null;
+  teams: { id: string; name: string }[];
+  projects: { id: string; name: string }[];
+  defaultTeamId?: string;
+  defaultProjectId?: string;
+}
+
+const DEFAULT_SPRINT_DAYS = 14;
+
+export function SprintDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+  organizationId,
+  sprint,
+  teams,
+  projects,
+  defaultTeamId,
+  defaultProjectId,
+}: SprintDialogProps) {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [goal, setGoal] = useState("");
+  const [teamId, setTeamId] = useState("none");
+  const [projectId, setProjectId] = useState("none");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const today = new Date();
+    setName(sprint?.name || "");
+    setGoal(sprint?.goal || "");
+    setTeamId(sprint ? sprint.team_id || "none" : defaultTeamId || "none");
+    setProjectId(sprint ? sprint.project_id || "none" : defaultProjectId || "none");
+    setStartDate(sprint?.start_date || format(today, "yyyy-MM-dd"));
+    setEndDate(sprint?.end_date || format(addDays(today, DEFAULT_SPRINT_DAYS - 1), "yyyy-MM-dd"));
+  }, [open, sprint, defaultTeamId, defaultProjectId]);
+
+  async function handleSave() {
+    if (!name.trim()) {
+      toast({
+        title: "Validation Error",
+        description: "Sprint name is required",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (teamId === "none" && projectId === "none") {
+      toast({
+        title: "Validation Error",
+        description: "Pick the team or project the sprint belongs to",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!startDate || !endDate || endDate < startDate) {
+      toast({
+        title: "Validation Error",
+        description: "End date must be on or after the start date",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const values = {
+        name: name.trim(),
+        goal: goal.trim() || null,
+        team_id: teamId === "none" ? null : teamId,
+        project_id: projectId === "none" ? null : projectId,
+        start_date: startDate,
+        end_date: endDate,
+      };
+
+      const { data: { user } } = await supabase.auth.getUser();
+      const { data: saved, error } = sprint
+        ? await supabase.from("sprints").update(values).eq("id", sprint.id).select().single()
+        : await supabase
+            .from("sprints")
+            .insert({ ...values, organization_id: organizationId, created_by: user?.id })
+            .select()
+            .single();
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: sprint ? "Sprint updated" : "Sprint created",
+      });
+
+      onSuccess(saved);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error saving sprint:", error);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save sprint",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{sprint ? "Edit Sprint" : "New Sprint"}</DialogTitle>
+          <DialogDescription>
+            Tasks added before the sprint starts count as its commitment.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="sprint-name">Name</Label>
+            <Input
+              id="sprint-name"
+              placeholder="e.g., Sprint 12"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="sprint-goal">Goal</Label>
+            <Textarea
+              id="sprint-goal"
+              placeholder="What should this sprint achieve?"
+              value={goal}
+              onChange={(e) => setGoal(e.target.value)}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Team</Label>
+              <Select value={teamId} onValueChange={setTeamId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No team</SelectItem>
+                  {teams.map(team => (
+                    <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Project</Label>
+              <Select value={projectId} onValueChange={setProjectId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">All team projects</SelectItem>
+                  {projects.map(project => (
+                    <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="sprint-start">Start date</Label>
+              <Input
+                id="sprint-start"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="sprint-end">End date</Label>
+              <Input
+                id="sprint-end"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={submitting}>
+            {submitting ? "Saving..." : "Save Sprint"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,222 @@
+import { useState } from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle, CloudOff, RefreshCw } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
+import type { OutboxItem } from '@/lib/offlineQueue';
+
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+}
+
+function describeItem(item: OutboxItem): { title: string; detail: string } {
+  const { operation } = item;
+
+  switch (operation.kind) {
+    case 'insert_time_entry': {
+      const { values } = operation;
+      return {
+        title: `Log ${formatDuration(values.duration_seconds)}`,
+        detail: `${format(new Date(values.start_time), 'MMM d, HH:mm')} – ${format(new Date(values.end_time), 'HH:mm')}${values.description ? ` · ${values.description}` : ''}`,
+      };
+    }
+    case 'update_time_entry':
+      return {
+        title: operation.values.deleted_at ? 'Delete time entry' : 'Update time entry',
+        detail: `Queued ${format(new Date(item.queuedAt), 'MMM d, HH:mm')}`,
+      };
+    case 'stop_timer':
+      return {
+        title: 'Stop timer',
+        detail: `Stopped at ${format(new Date(operation.args.p_end_time), 'MMM d, HH:mm')}${operation.args.p_description ? ` · ${operation.args.p_description}` : ''}`,
+      };
+  }
+}
+
+function OutboxItemRow({ item }: { item: OutboxItem }) {
+  const { retryItem, discardItem } = useOfflineSync();
+  const [editing, setEditing] = useState(false);
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const { title, detail } = describeItem(item);
+  const needsAttention = item.status !== 'pending';
+  const { operation } = item;
+
+  function handleEdit() {
+    if (operation.kind !== 'insert_time_entry') return;
+    setStartTime(format(new Date(operation.values.start_time), DATETIME_INPUT_FORMAT));
+    setEndTime(format(new Date(operation.values.end_time), DATETIME_INPUT_FORMAT));
+    setEditing(true);
+  }
+
+  async function handleRetry() {
+    setBusy(true);
+    try {
+      if (editing && operation.kind === 'insert_time_entry') {
+        const start = new Date(startTime);
+        const end = new Date(endTime);
+        if (!(end > start)) return;
+
+        await retryItem(item, {
+          ...operation,
+          values: {
+            ...operation.values,
+            start_time: start.toISOString(),
+            end_time: end.toISOString(),
+            duration_seconds: Math.floor((end.getTime() - start.getTime()) / 1000),
+          },
+        });
+        setEditing(false);
+      } else {
+        await retryItem(item);
+      }
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function handleDiscard() {
+    const message = operation.kind === 'stop_timer'
+      ? 'Discard this stop? The timer will show as running again so you can stop it later.'
+      : 'Discard this offline change? It will not be saved.';
+    if (!confirm(message)) return;
+
+    setBusy(true);
+    try {
+      await discardItem(item);
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="rounded-lg border p-3 space-y-2">
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="text-sm font-medium">{title}</p>
+          <p className="text-xs text-muted-foreground truncate">{detail}</p>
+        </div>
+        <Badge variant={needsAttention ? 'destructive' : 'secondary'} className="capitalize shrink-0">
+          {item.status}
+        </Badge>
+      </div>
+
+      {item.error && <p className="text-xs text-destructive">{item.error}</p>}
+
+      {editing && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label htmlFor={`start-${item.id}`} className="text-xs">Start</Label>
+            <Input
+              id={`start-${item.id}`}
+              type="datetime-local"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor={`end-${item.id}`} className="text-xs">End</Label>
+            <Input
+              id={`end-${item.id}`}
+              type="datetime-local"
+              value={endTime}
+              onChange={(e) => setEndTime(e.target.value)}
+            />
+          </div>
+        </div>
+      )}
+
+      {needsAttention && (
+        <div className="flex justify-end gap-2">
+          {item.status === 'conflict' && operation.kind === 'insert_time_entry' && !editing && (
+            <Button size="sm" variant="outline" onClick={handleEdit} disabled={busy}>
+              Edit times
+            </Button>
+          )}
+          <Button size="sm" variant="outline" onClick={handleDiscard} disabled={busy}>
+            {operation.kind === 'stop_timer' ? 'Restore timer' : 'Discard'}
+          </Button>
+          <Button size="sm" onClick={handleRetry} disabled={busy}>
+            {editing ? 'Save & retry' : 'Retry'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function SyncStatusIndicator() {
+  const { isOnline, isSyncing, items, syncNow } = useOfflineSync();
+  const [open, setOpen] = useState(false);
+
+  if (isOnline && items.length === 0) return null;
+
+  const attentionCount = items.filter(item => item.status !== 'pending').length;
+  const Icon = attentionCount > 0 ? AlertTriangle : isOnline ? RefreshCw : CloudOff;
+
+  return (
+    <>
+      <Button
+        variant="ghost"
+        size="sm"
+        className={`gap-2 ${attentionCount > 0 ? 'text-destructive' : 'text-muted-foreground'}`}
+        onClick={() => setOpen(true)}
+        title={isOnline ? 'Changes waiting to sync' : 'You are offline'}
+      >
+        <Icon className={`w-4 h-4 ${isSyncing ? 'animate-spin' : ''}`} />
+        <span className="text-sm">{isOnline ? 'Sync' : 'Offline'}</span>
+        {items.length > 0 && (
+          <Badge variant={attentionCount > 0 ? 'destructive' : 'secondary'}>{items.length}</Badge>
+        )}
+      </Button>
+
+      <Dialog open={open} onOpenChange={setOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Offline Changes</DialogTitle>
+            <DialogDescription>
+              {isOnline
+                ? 'Changes made while offline are saved in the order they were made.'
+                : 'You are offline. Time you log is kept on this device and saved when the connection returns.'}
+            </DialogDescription>
+          </DialogHeader>
+
+          {items.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing waiting to sync.</p>
+          ) : (
+            <div className="space-y-2 max-h-96 overflow-y-auto">
+              {items.map(item => (
+                <OutboxItemRow key={item.id} item={item} />
+              ))}
+            </div>
+          )}
+
+          {isOnline && items.some(item => item.status === 'pending') && (
+            <div className="flex justify-end">
+              <Button variant="outline" onClick={() => syncNow()} disabled={isSyncing}>
+                <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                Sync now
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
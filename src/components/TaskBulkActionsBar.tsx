@@ -0,0 +1,275 @@
+import { useState, useEffect, useCallback } from "react";
+import { format } from "date-fns";
+import { CalendarIcon, Eye, Trash2, X } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Calendar } from "@/components/ui/calendar";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { Workflow } from "@/lib/workflows";
+
+interface TaskBulkActionsBarProps {
+  organizationId: string;
+  taskIds: string[];
+  /** Status options; the shared workflow when all tasks are in one project */
+  workflow: Workflow;
+  onClear: () => void;
+  onSuccess: () => void;
+}
+
+export function TaskBulkActionsBar({ organizationId, taskIds, workflow, onClear, onSuccess }: TaskBulkActionsBarProps) {
+  const { toast } = useToast();
+  const [members, setMembers] = useState<Array<{ user_id: string; email: string }>>([]);
+  const [projects, setProjects] = useState<Array<{ id: string; name: string }>>([]);
+  const [watcherIds, setWatcherIds] = useState<string[]>([]);
+  const [watchersOpen, setWatchersOpen] = useState(false);
+  const [dueDateOpen, setDueDateOpen] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const [applying, setApplying] = useState(false);
+
+  const loadOptions = useCallback(async () => {
+    const [{ data: membersData }, { data: projectsData }] = await Promise.all([
+      supabase.rpc("get_org_members_with_emails", { p_org_id: organizationId }),
+      supabase
+        .from("projects")
+        .select("id, name")
+        .eq("organization_id", organizationId)
+        .is("deleted_at", null)
+        .order("name"),
+    ]);
+
+    setMembers(membersData || []);
+    setProjects(projectsData || []);
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadOptions();
+  }, [loadOptions]);
+
+  const count = taskIds.length;
+  const noun = count === 1 ? "task" : "tasks";
+
+  async function apply(changes: Record<string, Json>, description: string) {
+    setApplying(true);
+
+    const { data: updated, error } = await supabase.rpc("bulk_update_tasks", {
+      p_task_ids: taskIds,
+      p_changes: changes,
+    });
+
+    setApplying(false);
+
+    if (error) {
+      toast({
+        title: "Bulk update failed",
+        description: `${error.message}. No tasks were changed.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: `${description} (${updated} ${updated === 1 ? "task" : "tasks"})`,
+    });
+    onSuccess();
+  }
+
+  return (
+    <div className="sticky top-0 z-10 flex flex-wrap items-center gap-2 rounded-lg border bg-background p-3 mb-4 shadow-sm">
+      <span className="text-sm font-medium mr-2">
+        {count} {noun} selected
+      </span>
+
+      <Select value="" onValueChange={(status) => apply({ status }, "Status updated")} disabled={applying}>
+        <SelectTrigger className="w-[140px] h-8">
+          <SelectValue placeholder="Status" />
+        </SelectTrigger>
+        <SelectContent>
+          {workflow.statuses.map(status => (
+            <SelectItem key={status.key} value={status.key}>
+              {status.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select value="" onValueChange={(priority) => apply({ priority }, "Priority updated")} disabled={applying}>
+        <SelectTrigger className="w-[120px] h-8">
+          <SelectValue placeholder="Priority" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="low">Low</SelectItem>
+          <SelectItem value="medium">Medium</SelectItem>
+          <SelectItem value="high">High</SelectItem>
+          <SelectItem value="urgent">Urgent</SelectItem>
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) =>
+          apply({ assigned_to: value === "unassigned" ? null : value }, value === "unassigned" ? "Tasks unassigned" : "Assignee updated")
+        }
+        disabled={applying}
+      >
+        <SelectTrigger className="w-[160px] h-8">
+          <SelectValue placeholder="Assignee" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="unassigned">Unassigned</SelectItem>
+          {members.map(member => (
+            <SelectItem key={member.user_id} value={member.user_id}>
+              {member.email}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Select
+        value=""
+        onValueChange={(value) => apply({ project_id: value === "none" ? null : value }, "Tasks moved")}
+        disabled={applying}
+      >
+        <SelectTrigger className="w-[160px] h-8">
+          <SelectValue placeholder="Move to project" />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">No project</SelectItem>
+          {projects.map(project => (
+            <SelectItem key={project.id} value={project.id}>
+              {project.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <Popover open={dueDateOpen} onOpenChange={setDueDateOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={applying}>
+            <CalendarIcon className="w-4 h-4 mr-2" />
+            Due date
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-auto p-0" align="start">
+          <Calendar
+            mode="single"
+            onSelect={(date) => {
+              if (!date) return;
+              setDueDateOpen(false);
+              apply({ due_date: format(date, "yyyy-MM-dd") }, `Due date set to ${format(date, "MMM d")}`);
+            }}
+            initialFocus
+            className="pointer-events-auto"
+          />
+          <div className="border-t p-2">
+            <Button
+              variant="ghost"
+              size="sm"
+              className="w-full"
+              onClick={() => {
+                setDueDateOpen(false);
+                apply({ due_date: null }, "Due date cleared");
+              }}
+            >
+              Clear due date
+            </Button>
+          </div>
+        </PopoverContent>
+      </Popover>
+
+      <Popover
+        open={watchersOpen}
+        onOpenChange={(open) => {
+          setWatchersOpen(open);
+          if (!open) setWatcherIds([]);
+        }}
+      >
+        <PopoverTrigger asChild>
+          <Button variant="outline" size="sm" disabled={applying}>
+            <Eye className="w-4 h-4 mr-2" />
+            Add watchers
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-64" align="start">
+          <div className="space-y-2 max-h-60 overflow-y-auto">
+            {members.map(member => (
+              <label key={member.user_id} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={watcherIds.includes(member.user_id)}
+                  onCheckedChange={(checked) =>
+                    setWatcherIds(checked
+                      ? [...watcherIds, member.user_id]
+                      : watcherIds.filter(id => id !== member.user_id))
+                  }
+                />
+                <span className="truncate">{member.email}</span>
+              </label>
+            ))}
+          </div>
+          <Button
+            size="sm"
+            className="w-full mt-3"
+            disabled={watcherIds.length === 0}
+            onClick={() => {
+              setWatchersOpen(false);
+              apply({ add_watchers: watcherIds }, "Watchers added");
+              setWatcherIds([]);
+            }}
+          >
+            Add {watcherIds.length || ""} {watcherIds.length === 1 ? "watcher" : "watchers"}
+          </Button>
+        </PopoverContent>
+      </Popover>
+
+      <Button variant="outline" size="sm" onClick={() => setConfirmDelete(true)} disabled={applying}>
+        <Trash2 className="w-4 h-4 mr-2" />
+        Delete
+      </Button>
+
+      <Button variant="ghost" size="sm" className="ml-auto" onClick={onClear}>
+        <X className="w-4 h-4 mr-1" />
+        Clear
+      </Button>
+
+      <AlertDialog open={confirmDelete} onOpenChange={setConfirmDelete}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {count} {noun}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Subtasks of the selected tasks are deleted too. If any task can't be deleted, none are.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => apply({ delete: true }, "Tasks deleted")}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,232 @@
+import { useState, useEffect, useCallback } from "react";
+import { useNavigate } from "react-router-dom";
+import { AlertTriangle, Link2, Trash2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { TaskStatusBadge } from "@/components/TaskStatusBadge";
+import {
+  LINK_RELATION_LABELS,
+  linkFor,
+  linkRelation,
+  openBlockers,
+  type LinkedTask,
+  type LinkRelation,
+  type TaskLink,
+} from "@/lib/dependencies";
+import type { Workflow } from "@/lib/workflows";
+
+interface TaskDependenciesCardProps {
+  taskId: string;
+  organizationId: string;
+  userId: string;
+  projectId: string | null;
+  /** Workflow of this task's project, for the status badges */
+  workflow: Workflow;
+}
+
+const RELATION_ORDER: LinkRelation[] = ["blocked_by", "blocks", "relates", "duplicates", "duplicated_by"];
+
+export function TaskDependenciesCard({ taskId, organizationId, userId, projectId, workflow }: TaskDependenciesCardProps) {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [links, setLinks] = useState<TaskLink[]>([]);
+  const [tasks, setTasks] = useState<Map<string, LinkedTask>>(new Map());
+  const [adding, setAdding] = useState(false);
+  const [relation, setRelation] = useState<LinkRelation>("blocked_by");
+  const [search, setSearch] = useState("");
+  const [results, setResults] = useState<LinkedTask[]>([]);
+
+  const loadLinks = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("task_links")
+      .select("*")
+      .or(`source_task_id.eq.${taskId},target_task_id.eq.${taskId}`);
+
+    if (error) {
+      console.error("Error loading task links:", error);
+      return;
+    }
+
+    const otherIds = (data || []).map(link => (link.source_task_id === taskId ? link.target_task_id : link.source_task_id));
+    const { data: linkedTasks } = otherIds.length > 0
+      ? await supabase
+          .from("tasks")
+          .select("id, code, title, status, status_category, project_id")
+          .in("id", otherIds)
+          .is("deleted_at", null)
+      : { data: [] as LinkedTask[] };
+
+    setLinks(data || []);
+    setTasks(new Map((linkedTasks || []).map(task => [task.id, task])));
+  }, [taskId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  useEffect(() => {
+    // PostgREST filter syntax uses these characters
+    const term = search.replace(/[,()%*]/g, " ").trim();
+    if (!adding || term.length < 2) {
+      setResults([]);
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      const { data } = await supabase
+        .from("tasks")
+        .select("id, code, title, status, status_category, project_id")
+        .eq("organization_id", organizationId)
+        .is("deleted_at", null)
+        .neq("id", taskId)
+        .or(`code.ilike.%${term}%,title.ilike.%${term}%`)
+        .order("created_at", { ascending: false })
+        .limit(8);
+      setResults(data || []);
+    }, 250);
+
+    return () => clearTimeout(timeout);
+  }, [search, adding, organizationId, taskId]);
+
+  async function handleAdd(other: LinkedTask) {
+    const { error } = await supabase.from("task_links").insert({
+      ...linkFor(relation, taskId, other.id),
+      organization_id: organizationId,
+      created_by: userId,
+    });
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.code === "23505" ? "These tasks are already linked" : error.message || "Failed to link tasks",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({ title: "Link added" });
+    setSearch("");
+    setAdding(false);
+    loadLinks();
+  }
+
+  async function handleRemove(linkId: string) {
+    const { data, error } = await supabase.from("task_links").delete().eq("id", linkId).select("id");
+
+    if (error || !data || data.length === 0) {
+      toast({
+        title: "Error",
+        description: error?.message || "Only the link's creator or a project manager can remove it",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    loadLinks();
+  }
+
+  const blockers = openBlockers(taskId, links, tasks);
+  const visibleLinks = links.filter(link => tasks.has(link.source_task_id === taskId ? link.target_task_id : link.source_task_id));
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <CardTitle>Dependencies ({visibleLinks.length})</CardTitle>
+          <Button size="sm" variant="outline" onClick={() => setAdding(!adding)}>
+            <Link2 className="w-4 h-4 mr-2" />
+            Link Task
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {blockers.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              Blocked by {blockers.length} open {blockers.length === 1 ? "task" : "tasks"}: {blockers.map(t => t.code).join(", ")}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {adding && (
+          <div className="space-y-2 border rounded-lg p-3">
+            <div className="flex gap-2">
+              <Select value={relation} onValueChange={(value) => setRelation(value as LinkRelation)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RELATION_ORDER.map(value => (
+                    <SelectItem key={value} value={value}>{LINK_RELATION_LABELS[value]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                autoFocus
+                placeholder="Search by code or title..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+              />
+            </div>
+            {results.map(result => (
+              <div
+                key={result.id}
+                className="flex items-center gap-3 p-2 rounded hover:bg-muted cursor-pointer"
+                onClick={() => handleAdd(result)}
+              >
+                <span className="font-mono text-sm">{result.code}</span>
+                <span className="flex-1 text-sm truncate">{result.title}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {visibleLinks.length === 0 ? (
+          <p className="text-muted-foreground italic">No linked tasks</p>
+        ) : (
+          RELATION_ORDER.map(group => {
+            const groupLinks = visibleLinks.filter(link => linkRelation(link, taskId) === group);
+            if (groupLinks.length === 0) return null;
+
+            return (
+              <div key={group} className="space-y-1">
+                <p className="text-sm font-medium text-muted-foreground">{LINK_RELATION_LABELS[group]}</p>
+                {groupLinks.map(link => {
+                  const other = tasks.get(link.source_task_id === taskId ? link.target_task_id : link.source_task_id)!;
+                  return (
+                    <div key={link.id} className="flex items-center gap-3 p-2 rounded hover:bg-muted">
+                      <span
+                        className="flex flex-1 items-center gap-3 cursor-pointer min-w-0"
+                        onClick={() => navigate(`/tasks/${other.id}`)}
+                      >
+                        <span className="font-mono text-sm">{other.code}</span>
+                        <span className="flex-1 truncate">{other.title}</span>
+                        {/* Tasks of other projects fall back to the default workflow's labels */}
+                        <TaskStatusBadge status={other.status} workflow={other.project_id === projectId ? workflow : undefined} />
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={() => handleRemove(link.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,232 @@
+import { ChevronDown, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  FILTER_FIELDS,
+  ME,
+  MY_TEAMS,
+  NONE,
+  OPERATOR_LABELS,
+  type FilterCondition,
+  type FilterField,
+  type FilterOperator,
+} from "@/lib/taskViews";
+
+interface Option {
+  value: string;
+  label: string;
+}
+
+export interface FilterOptions {
+  statuses: Option[];
+  projects: Option[];
+  members: Option[];
+  teams: Option[];
+}
+
+interface TaskFilterBuilderProps {
+  filters: FilterCondition[];
+  onChange: (filters: FilterCondition[]) => void;
+  options: FilterOptions;
+}
+
+const CATEGORY_OPTIONS: Option[] = [
+  { value: "backlog", label: "Backlog" },
+  { value: "active", label: "Active" },
+  { value: "done", label: "Done" },
+  { value: "archived", label: "Archived" },
+];
+
+const PRIORITY_OPTIONS: Option[] = [
+  { value: "urgent", label: "Urgent" },
+  { value: "high", label: "High" },
+  { value: "medium", label: "Medium" },
+  { value: "low", label: "Low" },
+];
+
+const TYPE_OPTIONS: Option[] = ["feature", "bug", "test", "documentation", "refactor", "spike"].map(type => ({
+  value: type,
+  label: type.replace(/^\w/, c => c.toUpperCase()),
+}));
+
+function valueOptions(field: FilterField, options: FilterOptions): Option[] {
+  const me = { value: ME, label: "Me" };
+
+  switch (field) {
+    case "status":
+      return options.statuses;
+    case "status_category":
+      return CATEGORY_OPTIONS;
+    case "priority":
+      return PRIORITY_OPTIONS;
+    case "task_type":
+      return TYPE_OPTIONS;
+    case "assignee":
+      return [me, { value: NONE, label: "Unassigned" }, ...options.members];
+    case "created_by":
+    case "watcher":
+      return [me, ...options.members];
+    case "assignee_team":
+      return [{ value: MY_TEAMS, label: "My teams" }, ...options.teams];
+    case "project":
+      return [{ value: NONE, label: "No project" }, ...options.projects];
+    default:
+      return [];
+  }
+}
+
+function MultiSelect({ value, options, onChange }: { value: string[]; options: Option[]; onChange: (value: string[]) => void }) {
+  const selected = options.filter(option => value.includes(option.value));
+  const summary = selected.length === 0
+    ? "Select..."
+    : selected.length <= 2
+      ? selected.map(option => option.label).join(", ")
+      : `${selected[0].label} +${selected.length - 1}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 w-[200px] justify-between font-normal">
+          <span className="truncate">{summary}</span>
+          <ChevronDown className="h-4 w-4 opacity-50" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 p-2" align="start">
+        <div className="max-h-64 overflow-y-auto space-y-1">
+          {options.map(option => (
+            <label key={option.value} className="flex items-center gap-2 rounded px-2 py-1 text-sm cursor-pointer hover:bg-muted">
+              <Checkbox
+                checked={value.includes(option.value)}
+                onCheckedChange={(checked) =>
+                  onChange(checked ? [...value, option.value] : value.filter(v => v !== option.value))
+                }
+              />
+              <span className="truncate">{option.label}</span>
+            </label>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+function ValueEditor({ condition, options, onChange }: {
+  condition: FilterCondition;
+  options: FilterOptions;
+  onChange: (value: string[]) => void;
+}) {
+  const [first = "", second = ""] = condition.value;
+
+  switch (condition.operator) {
+    case "is":
+    case "is_not":
+      return <MultiSelect value={condition.value} options={valueOptions(condition.field, options)} onChange={onChange} />;
+    case "due_within":
+      return (
+        <div className="flex items-center gap-2">
+          <Input
+            type="number"
+            min={0}
+            className="h-8 w-20"
+            value={first}
+            onChange={(e) => onChange([e.target.value])}
+          />
+          <span className="text-sm text-muted-foreground">days</span>
+        </div>
+      );
+    case "before":
+    case "after":
+      return <Input type="date" className="h-8 w-40" value={first} onChange={(e) => onChange([e.target.value])} />;
+    case "between":
+      return (
+        <div className="flex items-center gap-2">
+          <Input type="date" className="h-8 w-40" value={first} onChange={(e) => onChange([e.target.value, second])} />
+          <span className="text-sm text-muted-foreground">and</span>
+          <Input type="date" className="h-8 w-40" value={second} onChange={(e) => onChange([first, e.target.value])} />
+        </div>
+      );
+    case "contains":
+      return <Input className="h-8 w-[200px]" placeholder="Text or code" value={first} onChange={(e) => onChange([e.target.value])} />;
+    default:
+      return null;
+  }
+}
+
+export function TaskFilterBuilder({ filters, onChange, options }: TaskFilterBuilderProps) {
+  function update(index: number, changes: Partial<FilterCondition>) {
+    onChange(filters.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)));
+  }
+
+  function changeField(index: number, field: FilterField) {
+    update(index, { field, operator: FILTER_FIELDS[field].operators[0], value: [] });
+  }
+
+  function changeOperator(index: number, operator: FilterOperator) {
+    const current = filters[index];
+    // Lists survive switching between "is" and "is not"
+    const isList = (op: FilterOperator) => op === "is" || op === "is_not";
+    update(index, { operator, value: isList(operator) && isList(current.operator) ? current.value : [] });
+  }
+
+  return (
+    <div className="space-y-2">
+      {filters.map((condition, index) => (
+        <div key={index} className="flex flex-wrap items-center gap-2">
+          <span className="w-12 text-sm text-muted-foreground">{index === 0 ? "Where" : "and"}</span>
+          <Select value={condition.field} onValueChange={(field) => changeField(index, field as FilterField)}>
+            <SelectTrigger className="h-8 w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(FILTER_FIELDS) as FilterField[]).map(field => (
+                <SelectItem key={field} value={field}>
+                  {FILTER_FIELDS[field].label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={condition.operator} onValueChange={(operator) => changeOperator(index, operator as FilterOperator)}>
+            <SelectTrigger className="h-8 w-[160px]">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {FILTER_FIELDS[condition.field].operators.map(operator => (
+                <SelectItem key={operator} value={operator}>
+                  {OPERATOR_LABELS[operator]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <ValueEditor condition={condition} options={options} onChange={(value) => update(index, { value })} />
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-8 w-8 p-0"
+            onClick={() => onChange(filters.filter((_, i) => i !== index))}
+            aria-label="Remove filter"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onChange([...filters, { field: "status", operator: "is", value: [] }])}
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add filter
+      </Button>
+    </div>
+  );
+}
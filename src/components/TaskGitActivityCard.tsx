@@ -0,0 +1,116 @@
+import { useState, useEffect, useCallback } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { ExternalLink, GitCommitHorizontal, GitMerge, GitPullRequest, GitPullRequestClosed } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import type { PullRequestState, TaskGitLink } from "@/lib/gitIntegration";
+
+interface TaskGitActivityCardProps {
+  taskId: string;
+}
+
+const PULL_REQUEST_STATES: Record<PullRequestState, { label: string; icon: typeof GitPullRequest; className: string }> = {
+  open: { label: "Open", icon: GitPullRequest, className: "text-green-600" },
+  merged: { label: "Merged", icon: GitMerge, className: "text-purple-600" },
+  closed: { label: "Closed", icon: GitPullRequestClosed, className: "text-destructive" },
+};
+
+/** Commits and pull requests that mention the task's code. Hidden until there are any. */
+export function TaskGitActivityCard({ taskId }: TaskGitActivityCardProps) {
+  const [links, setLinks] = useState<TaskGitLink[]>([]);
+
+  const loadLinks = useCallback(async () => {
+    const { data, error } = await supabase
+      .from("task_git_links")
+      .select("*")
+      .eq("task_id", taskId)
+      .order("occurred_at", { ascending: false });
+
+    if (error) {
+      console.error("Error loading git activity:", error);
+      return;
+    }
+    setLinks(data || []);
+  }, [taskId]);
+
+  useEffect(() => {
+    loadLinks();
+  }, [loadLinks]);
+
+  if (links.length === 0) return null;
+
+  const pullRequests = links.filter(link => link.kind === "pull_request");
+  const commits = links.filter(link => link.kind === "commit");
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Code ({pullRequests.length} pull requests, {commits.length} commits)</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {pullRequests.length > 0 && (
+          <div className="space-y-2">
+            {pullRequests.map(link => {
+              const state = PULL_REQUEST_STATES[(link.state || "open") as PullRequestState];
+              const Icon = state.icon;
+              return (
+                <div key={link.id} className="flex items-start gap-3 rounded-md border p-3">
+                  <Icon className={`mt-0.5 h-4 w-4 shrink-0 ${state.className}`} />
+                  <div className="min-w-0 flex-1">
+                    <a
+                      href={link.url || undefined}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="flex items-center gap-1 text-sm font-medium hover:underline"
+                    >
+                      <span className="truncate">{link.title}</span>
+                      <span className="shrink-0 text-muted-foreground">#{link.external_id}</span>
+                      {link.url && <ExternalLink className="h-3 w-3 shrink-0 text-muted-foreground" />}
+                    </a>
+                    <p className="text-xs text-muted-foreground">
+                      {link.repository}
+                      {link.branch && <> · <span className="font-mono">{link.branch}</span></>}
+                      {link.author && <> · {link.author}</>}
+                      {" · "}
+                      {formatDistanceToNow(new Date(link.occurred_at), { addSuffix: true })}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className="shrink-0">{state.label}</Badge>
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        {commits.length > 0 && (
+          <div className="space-y-2">
+            {commits.map(link => (
+              <div key={link.id} className="flex items-start gap-3">
+                <GitCommitHorizontal className="mt-0.5 h-4 w-4 shrink-0 text-muted-foreground" />
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm">{link.title}</p>
+                  <p className="text-xs text-muted-foreground">
+                    <a
+                      href={link.url || undefined}
+                      target="_blank"
+                      rel="noreferrer"
+                      className="font-mono hover:underline"
+                    >
+                      {link.external_id.slice(0, 7)}
+                    </a>
+                    {" · "}
+                    {link.repository}
+                    {link.author && <> · {link.author}</>}
+                    {" · "}
+                    {formatDistanceToNow(new Date(link.occurred_at), { addSuffix: true })}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
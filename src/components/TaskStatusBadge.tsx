@@ -0,0 +1,18 @@
+import { Badge } from "@/components/ui/badge";
+import { ARCHIVED_STATUS, DEFAULT_WORKFLOW, findStatus, statusLabel, type Workflow } from "@/lib/workflows";
+
+interface TaskStatusBadgeProps {
+  status: string;
+  /** Workflow of the task's project; the built-in one when omitted */
+  workflow?: Workflow;
+}
+
+export function TaskStatusBadge({ status, workflow = DEFAULT_WORKFLOW }: TaskStatusBadgeProps) {
+  const color = status === ARCHIVED_STATUS ? "#9CA3AF" : findStatus(workflow, status)?.color || "#6B7280";
+
+  return (
+    <Badge className="text-white border-transparent" style={{ backgroundColor: color }}>
+      {statusLabel(workflow, status)}
+    </Badge>
+  );
+}
@@ -0,0 +1,116 @@
+import { ArrowDown, ArrowUp, SlidersHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  COLUMN_LABELS,
+  GROUP_LABELS,
+  SORT_LABELS,
+  type GroupBy,
+  type SortField,
+  type TaskColumn,
+  type TaskViewState,
+} from "@/lib/taskViews";
+
+interface TaskViewOptionsProps {
+  state: TaskViewState;
+  onChange: (state: TaskViewState) => void;
+}
+
+export function TaskViewOptions({ state, onChange }: TaskViewOptionsProps) {
+  function toggleColumn(column: TaskColumn, checked: boolean) {
+    // Keep the configured order regardless of click order
+    const columns = (Object.keys(COLUMN_LABELS) as TaskColumn[]).filter(c =>
+      c === column ? checked : state.columns.includes(c)
+    );
+    onChange({ ...state, columns });
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm">
+          <SlidersHorizontal className="w-4 h-4 mr-2" />
+          Display
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-72 space-y-4" align="end">
+        <div className="space-y-2">
+          <Label>Sort by</Label>
+          <div className="flex gap-2">
+            <Select
+              value={state.sort.field}
+              onValueChange={(field) => onChange({ ...state, sort: { ...state.sort, field: field as SortField } })}
+            >
+              <SelectTrigger className="h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(SORT_LABELS) as SortField[]).map(field => (
+                  <SelectItem key={field} value={field}>
+                    {SORT_LABELS[field]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="outline"
+              size="sm"
+              className="h-8 w-8 p-0 shrink-0"
+              onClick={() =>
+                onChange({ ...state, sort: { ...state.sort, direction: state.sort.direction === "asc" ? "desc" : "asc" } })
+              }
+              aria-label={state.sort.direction === "asc" ? "Ascending" : "Descending"}
+            >
+              {state.sort.direction === "asc" ? <ArrowUp className="h-4 w-4" /> : <ArrowDown className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Group by</Label>
+          <Select
+            value={state.groupBy || "none"}
+            onValueChange={(value) => onChange({ ...state, groupBy: value === "none" ? null : (value as GroupBy) })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="none">No grouping</SelectItem>
+              {(Object.keys(GROUP_LABELS) as GroupBy[]).map(groupBy => (
+                <SelectItem key={groupBy} value={groupBy}>
+                  {GROUP_LABELS[groupBy]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <Label>Columns</Label>
+          <div className="grid grid-cols-2 gap-2">
+            {(Object.keys(COLUMN_LABELS) as TaskColumn[]).map(column => (
+              <label key={column} className="flex items-center gap-2 text-sm cursor-pointer">
+                <Checkbox
+                  checked={state.columns.includes(column)}
+                  disabled={column === "title"}
+                  onCheckedChange={(checked) => toggleColumn(column, !!checked)}
+                />
+                {COLUMN_LABELS[column]}
+              </label>
+            ))}
+          </div>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,250 @@
+import { useState } from "react";
+import { Save, Trash2, Users } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { viewRecord, type TaskView, type TaskViewState, type ViewVisibility } from "@/lib/taskViews";
+
+interface TaskViewsMenuProps {
+  organizationId: string;
+  userId: string;
+  /** Admins and managers can change and remove shared views */
+  canManageShared: boolean;
+  views: TaskView[];
+  activeView: TaskView | null;
+  state: TaskViewState;
+  /** The filters or display options differ from the active view */
+  dirty: boolean;
+  onSelect: (view: TaskView | null) => void;
+  onSaved: (view: TaskView) => void;
+  onDeleted: () => void;
+}
+
+export function TaskViewsMenu({
+  organizationId,
+  userId,
+  canManageShared,
+  views,
+  activeView,
+  state,
+  dirty,
+  onSelect,
+  onSaved,
+  onDeleted,
+}: TaskViewsMenuProps) {
+  const { toast } = useToast();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [visibility, setVisibility] = useState<ViewVisibility>("personal");
+  const [saving, setSaving] = useState(false);
+
+  const personalViews = views.filter(view => view.visibility === "personal");
+  const sharedViews = views.filter(view => view.visibility === "shared");
+  const canEditActive = !!activeView && (activeView.created_by === userId || (activeView.visibility === "shared" && canManageShared));
+
+  function showError(error: { message?: string }, fallback: string) {
+    toast({
+      title: "Error",
+      description: error.message || fallback,
+      variant: "destructive",
+    });
+  }
+
+  async function handleUpdate() {
+    if (!activeView) return;
+    setSaving(true);
+
+    const { data, error } = await supabase
+      .from("task_views")
+      .update(viewRecord(state))
+      .eq("id", activeView.id)
+      .select()
+      .single();
+
+    setSaving(false);
+
+    if (error) {
+      showError(error, "Failed to save view");
+      return;
+    }
+
+    toast({ title: "View saved", description: data.name });
+    onSaved(data);
+  }
+
+  async function handleCreate() {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    setSaving(true);
+
+    const { data, error } = await supabase
+      .from("task_views")
+      .insert({
+        organization_id: organizationId,
+        created_by: userId,
+        name: trimmed,
+        visibility,
+        ...viewRecord(state),
+      })
+      .select()
+      .single();
+
+    setSaving(false);
+
+    if (error) {
+      showError(error, "Failed to save view");
+      return;
+    }
+
+    toast({
+      title: "View saved",
+      description: visibility === "shared" ? `${data.name} is visible to your organization` : data.name,
+    });
+    setDialogOpen(false);
+    onSaved(data);
+  }
+
+  async function handleDelete() {
+    if (!activeView || !confirm(`Delete the view "${activeView.name}"?`)) return;
+
+    const { data, error } = await supabase
+      .from("task_views")
+      .delete()
+      .eq("id", activeView.id)
+      .select("id");
+
+    if (error || !data?.length) {
+      showError(error || {}, "You can't delete this view");
+      return;
+    }
+
+    toast({ title: "View deleted" });
+    onDeleted();
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <Select
+        value={activeView?.id || "all"}
+        onValueChange={(id) => onSelect(views.find(view => view.id === id) || null)}
+      >
+        <SelectTrigger className="w-[220px]">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="all">All tasks</SelectItem>
+          {personalViews.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>My views</SelectLabel>
+              {personalViews.map(view => (
+                <SelectItem key={view.id} value={view.id}>
+                  {view.name}
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+          {sharedViews.length > 0 && (
+            <SelectGroup>
+              <SelectLabel>Shared views</SelectLabel>
+              {sharedViews.map(view => (
+                <SelectItem key={view.id} value={view.id}>
+                  <span className="flex items-center gap-2">
+                    <Users className="h-3 w-3 text-muted-foreground" />
+                    {view.name}
+                  </span>
+                </SelectItem>
+              ))}
+            </SelectGroup>
+          )}
+        </SelectContent>
+      </Select>
+
+      {dirty && canEditActive && (
+        <Button variant="outline" size="sm" onClick={handleUpdate} disabled={saving}>
+          <Save className="w-4 h-4 mr-2" />
+          Save
+        </Button>
+      )}
+      {(dirty || !activeView) && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => {
+            setName("");
+            setVisibility("personal");
+            setDialogOpen(true);
+          }}
+        >
+          Save as view
+        </Button>
+      )}
+      {canEditActive && !dirty && (
+        <Button variant="ghost" size="sm" onClick={handleDelete} aria-label="Delete view">
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      )}
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Save View</DialogTitle>
+            <DialogDescription>
+              Saves the current filters together with the list's columns, sort and grouping.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="view-name">Name</Label>
+              <Input
+                id="view-name"
+                placeholder="e.g., Overdue bugs"
+                maxLength={100}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Visible to</Label>
+              <Select value={visibility} onValueChange={(value) => setVisibility(value as ViewVisibility)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="personal">Only me</SelectItem>
+                  <SelectItem value="shared">Everyone in the organization</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || !name.trim()}>
+              {saving ? "Saving..." : "Save View"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
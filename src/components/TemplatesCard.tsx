@@ -0,0 +1,180 @@
+import { Fragment, useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { ChevronDown, ChevronRight, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import {
+  fetchTemplateDetails,
+  fetchTemplates,
+  TEMPLATE_KIND_LABELS,
+  type TemplateDetails,
+  type TemplateKind,
+  type TemplateSummary,
+} from '@/lib/templates';
+
+interface TemplatesCardProps {
+  organizationId: string;
+  userId: string;
+  /** Admins and managers can delete anyone's templates */
+  canManageAll: boolean;
+}
+
+function formatOffset(days: number | null): string {
+  if (days === null) return '–';
+  if (days === 0) return 'Day 0';
+  return days > 0 ? `Day +${days}` : `Day ${days}`;
+}
+
+export function TemplatesCard({ organizationId, userId, canManageAll }: TemplatesCardProps) {
+  const [templates, setTemplates] = useState<TemplateSummary[]>([]);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<TemplateDetails | null>(null);
+  const { toast } = useToast();
+
+  const loadTemplates = useCallback(async () => {
+    try {
+      setTemplates(await fetchTemplates(supabase, organizationId));
+    } catch (error) {
+      console.error('Error loading templates:', error);
+    }
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  async function toggleExpanded(id: string) {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(id);
+    setDetails(null);
+    try {
+      setDetails(await fetchTemplateDetails(supabase, id));
+    } catch (error) {
+      console.error('Error loading template:', error);
+    }
+  }
+
+  async function handleDelete(template: TemplateSummary) {
+    if (!confirm(`Delete the template "${template.name}"? Projects and tasks created from it are kept.`)) return;
+
+    const { error } = await supabase.from('templates').delete().eq('id', template.id);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete template',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Template deleted' });
+    loadTemplates();
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Templates</CardTitle>
+        <CardDescription>
+          Save a project or task as a template from its page, then start new projects and tasks from it.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {templates.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No templates yet.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead className="text-right">Tasks</TableHead>
+                <TableHead>Created</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map(template => (
+                <Fragment key={template.id}>
+                  <TableRow className="cursor-pointer" onClick={() => toggleExpanded(template.id)}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        {expandedId === template.id ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        <div>
+                          <p className="font-medium">{template.name}</p>
+                          {template.description && (
+                            <p className="text-xs text-muted-foreground">{template.description}</p>
+                          )}
+                        </div>
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant="secondary">{TEMPLATE_KIND_LABELS[template.kind as TemplateKind]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">{template.task_count}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {format(new Date(template.created_at), 'MMM d, yyyy')}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {(canManageAll || template.created_by === userId) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleDelete(template);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                  {expandedId === template.id && (
+                    <TableRow>
+                      <TableCell colSpan={5} className="bg-muted/30">
+                        {!details ? (
+                          <p className="text-sm text-muted-foreground">Loading...</p>
+                        ) : (
+                          <div className="space-y-1">
+                            {details.tasks.map(task => (
+                              <div
+                                key={task.id}
+                                className="flex items-center gap-3 text-sm"
+                                style={{ paddingLeft: task.depth * 20 }}
+                              >
+                                <span className="flex-1">{task.title}</span>
+                                <Badge variant="outline" className="capitalize">{task.task_type}</Badge>
+                                <span className="w-16 text-right text-muted-foreground">
+                                  {task.estimated_hours ? `${task.estimated_hours}h` : '–'}
+                                </span>
+                                <span className="w-20 text-right text-muted-foreground">{formatOffset(task.due_offset_days)}</span>
+                              </div>
+                            ))}
+                            {details.teamIds.length > 0 && (
+                              <p className="text-xs text-muted-foreground pt-2">
+                                Assigns {details.teamIds.length} {details.teamIds.length === 1 ? 'team' : 'teams'}
+                              </p>
+                            )}
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                </Fragment>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
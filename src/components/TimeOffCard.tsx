@@ -0,0 +1,141 @@
+import { useState, useEffect, useCallback } from 'react';
+import { format } from 'date-fns';
+import { Plus, Trash2 } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { TIME_OFF_KIND_LABELS, type TimeOff } from '@/lib/sprints';
+import { TimeOffDialog } from '@/components/TimeOffDialog';
+
+interface TimeOffCardProps {
+  organizationId: string;
+  userId: string;
+  /** Admins and managers see and manage everyone's time off */
+  canManageOthers: boolean;
+}
+
+function formatRange(entry: TimeOff): string {
+  const start = new Date(`${entry.start_date}T00:00:00`);
+  const end = new Date(`${entry.end_date}T00:00:00`);
+  if (entry.start_date === entry.end_date) return format(start, 'MMM d, yyyy');
+  return `${format(start, 'MMM d')} – ${format(end, 'MMM d, yyyy')}`;
+}
+
+export function TimeOffCard({ organizationId, userId, canManageOthers }: TimeOffCardProps) {
+  const [entries, setEntries] = useState<TimeOff[]>([]);
+  const [members, setMembers] = useState<{ user_id: string; email: string }[]>([]);
+  const [showDialog, setShowDialog] = useState(false);
+  const { toast } = useToast();
+
+  const loadTimeOff = useCallback(async () => {
+    let query = supabase
+      .from('time_off')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .gte('end_date', format(new Date(), 'yyyy-MM-dd'))
+      .order('start_date');
+
+    if (!canManageOthers) query = query.eq('user_id', userId);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error loading time off:', error);
+      return;
+    }
+    setEntries(data || []);
+  }, [organizationId, userId, canManageOthers]);
+
+  useEffect(() => {
+    loadTimeOff();
+
+    if (canManageOthers) {
+      supabase
+        .rpc('get_org_members_with_emails', { p_org_id: organizationId })
+        .then(({ data }) => setMembers(data || []));
+    }
+  }, [organizationId, canManageOthers, loadTimeOff]);
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this time off?')) return;
+
+    const { error } = await supabase.from('time_off').delete().eq('id', id);
+    if (error) {
+      toast({
+        title: 'Error',
+        description: error.message || 'Failed to delete time off',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({ title: 'Time off deleted' });
+    loadTimeOff();
+  }
+
+  const memberEmail = (id: string) => members.find(m => m.user_id === id)?.email || 'Unknown member';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Time Off</CardTitle>
+            <CardDescription>
+              Upcoming days away. Sprint planning takes them out of capacity.
+            </CardDescription>
+          </div>
+          <Button onClick={() => setShowDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Time Off
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No upcoming time off.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                {canManageOthers && <TableHead>Member</TableHead>}
+                <TableHead>Dates</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Note</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {entries.map(entry => (
+                <TableRow key={entry.id}>
+                  {canManageOthers && <TableCell className="text-sm">{memberEmail(entry.user_id)}</TableCell>}
+                  <TableCell>{formatRange(entry)}</TableCell>
+                  <TableCell>
+                    <Badge variant="secondary">{TIME_OFF_KIND_LABELS[entry.kind]}</Badge>
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">{entry.note}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => handleDelete(entry.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <TimeOffDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        onSuccess={loadTimeOff}
+        organizationId={organizationId}
+        userId={userId}
+        members={canManageOthers ? members : undefined}
+      />
+    </Card>
+  );
+}
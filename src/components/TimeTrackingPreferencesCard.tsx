@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { useTimer } from '@/contexts/TimerContext';
+import { useToast } from '@/hooks/use-toast';
+
+export function TimeTrackingPreferencesCard() {
+  const { idleThresholdMinutes, updateIdleThreshold } = useTimer();
+  const [threshold, setThreshold] = useState(String(idleThresholdMinutes));
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    setThreshold(String(idleThresholdMinutes));
+  }, [idleThresholdMinutes]);
+
+  async function handleSave() {
+    const minutes = Number(threshold);
+    if (!Number.isInteger(minutes) || minutes < 0 || minutes > 240) {
+      toast({
+        title: 'Invalid threshold',
+        description: 'Enter a whole number of minutes between 0 and 240',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await updateIdleThreshold(minutes);
+      toast({
+        title: 'Preferences saved',
+      });
+    } catch (error) {
+      toast({
+        title: 'Failed to save preferences',
+        description: error.message,
+        variant: 'destructive',
+      });
+    } finally {
+      setSaving(false);
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Time Tracking</CardTitle>
+        <CardDescription>
+          Ask what to do with idle time when a running timer sees no activity for a while
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-end gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="idle-threshold">Idle threshold (minutes, 0 to disable)</Label>
+            <Input
+              id="idle-threshold"
+              type="number"
+              min={0}
+              max={240}
+              value={threshold}
+              onChange={(e) => setThreshold(e.target.value)}
+              className="w-32"
+            />
+          </div>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,72 @@
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, ReferenceLine } from "recharts";
+import { velocityStats, type SprintStats } from "@/lib/sprints";
+
+const COLORS = {
+  committed: '#9CA3AF',
+  completed: '#3B82F6',
+  average: '#F59E0B',
+};
+
+interface VelocityChartProps {
+  /** Newest first, as returned by get_sprint_stats */
+  stats: SprintStats[];
+}
+
+/** Committed vs completed hours of the given sprints with the average velocity */
+export function VelocityChart({ stats }: VelocityChartProps) {
+  const velocity = velocityStats(stats);
+  const data = [...stats].reverse().map(sprint => ({
+    name: sprint.name,
+    committed: Number(sprint.committed_hours),
+    completed: Number(sprint.completed_hours),
+  }));
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-3 gap-4">
+        <div>
+          <p className="text-sm text-muted-foreground">Average velocity</p>
+          <p className="text-lg font-semibold">{velocity.average.toFixed(1)}h</p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Variance</p>
+          <p className="text-lg font-semibold">
+            {velocity.variance.toFixed(1)}
+            <span className="text-sm font-normal text-muted-foreground"> (σ {velocity.stdDev.toFixed(1)}h)</span>
+          </p>
+        </div>
+        <div>
+          <p className="text-sm text-muted-foreground">Completed sprints</p>
+          <p className="text-lg font-semibold">{velocity.sprints}</p>
+        </div>
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={data}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis dataKey="name" stroke="#6b7280" fontSize={12} />
+          <YAxis stroke="#6b7280" fontSize={12} unit="h" />
+          <Tooltip
+            formatter={(value: number) => `${value.toFixed(1)}h`}
+            contentStyle={{
+              backgroundColor: 'hsl(var(--card))',
+              border: '1px solid hsl(var(--border))',
+              borderRadius: '8px',
+            }}
+          />
+          <Legend />
+          {velocity.sprints > 0 && (
+            <ReferenceLine
+              y={velocity.average}
+              stroke={COLORS.average}
+              strokeDasharray="5 5"
+              label={{ value: "Average", position: "insideTopRight", fill: COLORS.average, fontSize: 12 }}
+            />
+          )}
+          <Bar dataKey="committed" fill={COLORS.committed} name="Committed" />
+          <Bar dataKey="completed" fill={COLORS.completed} name="Completed" />
+        </BarChart>
+      </ResponsiveContainer>
+    </div>
+  );
+}
@@ -0,0 +1,499 @@
+import { useEffect, useState } from 'react';
+import { format, formatDistanceToNow } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, Eye, EyeOff, Pencil, Plus, RefreshCw, Send, Trash2, Webhook } from 'lucide-react';
+import {
+  WEBHOOK_EVENTS,
+  webhookUrlError,
+  type WebhookDelivery,
+  type WebhookDeliveryStatus,
+  type WebhookEndpoint,
+  type WebhookEventType,
+} from '@/lib/webhooks';
+
+interface WebhooksCardProps {
+  organizationId: string;
+}
+
+const EVENT_TYPES = Object.keys(WEBHOOK_EVENTS) as WebhookEventType[];
+
+const STATUS_VARIANTS: Record<WebhookDeliveryStatus, 'default' | 'secondary' | 'destructive'> = {
+  succeeded: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+};
+
+const EMPTY_FORM = { url: '', description: '', events: [] as string[] };
+
+export function WebhooksCard({ organizationId }: WebhooksCardProps) {
+  const { toast } = useToast();
+  const [endpoints, setEndpoints] = useState<WebhookEndpoint[]>([]);
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [endpointFilter, setEndpointFilter] = useState('all');
+  const [loading, setLoading] = useState(true);
+  const [revealed, setRevealed] = useState<string | null>(null);
+  const [testing, setTesting] = useState<string | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookEndpoint | null>(null);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    loadEndpoints();
+  }, [organizationId]);
+
+  useEffect(() => {
+    loadDeliveries();
+  }, [organizationId, endpointFilter]);
+
+  async function loadEndpoints() {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at');
+
+    if (error) {
+      console.error('Error loading webhook endpoints:', error);
+    } else {
+      setEndpoints(data || []);
+    }
+    setLoading(false);
+  }
+
+  async function loadDeliveries() {
+    let query = supabase
+      .from('webhook_deliveries')
+      .select('*')
+      .eq('organization_id', organizationId)
+      .order('created_at', { ascending: false })
+      .limit(50);
+    if (endpointFilter !== 'all') query = query.eq('endpoint_id', endpointFilter);
+
+    const { data, error } = await query;
+    if (error) {
+      console.error('Error loading webhook deliveries:', error);
+      return;
+    }
+    setDeliveries(data || []);
+  }
+
+  function openDialog(endpoint: WebhookEndpoint | null) {
+    setEditing(endpoint);
+    setForm(endpoint
+      ? { url: endpoint.url, description: endpoint.description || '', events: endpoint.events }
+      : EMPTY_FORM);
+    setDialogOpen(true);
+  }
+
+  function toggleEvent(type: string, checked: boolean) {
+    setForm(prev => ({
+      ...prev,
+      events: checked ? [...prev.events, type] : prev.events.filter(event => event !== type),
+    }));
+  }
+
+  async function handleSave() {
+    const url = form.url.trim();
+    const urlError = webhookUrlError(url);
+    if (urlError) {
+      toast({
+        title: 'Invalid URL',
+        description: urlError,
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (form.events.length === 0) {
+      toast({
+        title: 'No events selected',
+        description: 'Pick at least one event to send to this endpoint',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    setSaving(true);
+    const values = { url, description: form.description.trim() || null, events: form.events };
+    const { error } = editing
+      ? await supabase.from('webhook_endpoints').update(values).eq('id', editing.id)
+      : await supabase.from('webhook_endpoints').insert({ ...values, organization_id: organizationId });
+    setSaving(false);
+
+    if (error) {
+      toast({
+        title: 'Failed to save endpoint',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    toast({
+      title: editing ? 'Endpoint updated' : 'Endpoint added',
+    });
+    setDialogOpen(false);
+    loadEndpoints();
+  }
+
+  async function handleToggleActive(endpoint: WebhookEndpoint, isActive: boolean) {
+    setEndpoints(prev => prev.map(e => (e.id === endpoint.id ? { ...e, is_active: isActive } : e)));
+
+    const { error } = await supabase
+      .from('webhook_endpoints')
+      .update({ is_active: isActive })
+      .eq('id', endpoint.id);
+
+    if (error) {
+      toast({
+        title: 'Failed to update endpoint',
+        description: error.message,
+        variant: 'destructive',
+      });
+      loadEndpoints();
+    }
+  }
+
+  async function handleDelete(endpoint: WebhookEndpoint) {
+    const { error } = await supabase.from('webhook_endpoints').delete().eq('id', endpoint.id);
+
+    if (error) {
+      toast({
+        title: 'Failed to delete endpoint',
+        description: error.message,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    if (endpointFilter === endpoint.id) setEndpointFilter('all');
+    loadEndpoints();
+    loadDeliveries();
+  }
+
+  async function handleSendTest(endpoint: WebhookEndpoint) {
+    setTesting(endpoint.id);
+
+    try {
+      const { data: deliveryId, error } = await supabase.rpc('send_test_webhook', {
+        p_endpoint_id: endpoint.id,
+      });
+      if (error) throw error;
+
+      const { data, error: sendError } = await supabase.functions.invoke('deliver-webhooks', {
+        body: { delivery_id: deliveryId },
+      });
+      if (sendError) throw sendError;
+
+      const result = data?.results?.[0];
+      if (result?.status === 'succeeded') {
+        toast({
+          title: 'Test event delivered',
+          description: `${endpoint.url} responded with ${result.response_status}`,
+        });
+      } else if (result) {
+        toast({
+          title: 'Test event failed',
+          description: result.error,
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Test event queued',
+          description: 'It is already being delivered; check the log below',
+        });
+      }
+    } catch (error) {
+      toast({
+        title: 'Failed to send test event',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      setTesting(null);
+      loadDeliveries();
+    }
+  }
+
+  const endpointUrl = (id: string) => endpoints.find(endpoint => endpoint.id === id)?.url || 'Deleted endpoint';
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <div className="flex items-center gap-2">
+              <Webhook className="h-5 w-5" />
+              <CardTitle>Webhooks</CardTitle>
+            </div>
+            <CardDescription className="mt-1.5">
+              Send organization events to your own tools. Each request is signed with the endpoint's secret
+              in the <code className="font-mono text-xs">X-Webhook-Signature</code> header
+              (<code className="font-mono text-xs">t=timestamp,v1=HMAC-SHA256("timestamp.body")</code>) and
+              retried with exponential backoff when it fails.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)} className="shrink-0">
+            <Plus className="mr-2 h-4 w-4" />
+            Add endpoint
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!loading && endpoints.length === 0 && (
+          <p className="text-sm text-muted-foreground">No endpoints yet.</p>
+        )}
+
+        {endpoints.map(endpoint => (
+          <div key={endpoint.id} className="space-y-3 rounded-lg border p-4">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="truncate font-mono text-sm">{endpoint.url}</p>
+                {endpoint.description && (
+                  <p className="text-sm text-muted-foreground">{endpoint.description}</p>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-2">
+                <Switch
+                  checked={endpoint.is_active}
+                  onCheckedChange={(checked) => handleToggleActive(endpoint, checked)}
+                  aria-label="Active"
+                />
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleSendTest(endpoint)}
+                  disabled={testing === endpoint.id}
+                >
+                  <Send className="mr-2 h-4 w-4" />
+                  {testing === endpoint.id ? 'Sending...' : 'Send test event'}
+                </Button>
+                <Button variant="ghost" size="sm" onClick={() => openDialog(endpoint)} aria-label="Edit endpoint">
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button variant="ghost" size="sm" aria-label="Delete endpoint">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Delete this endpoint?</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        It stops receiving events right away, and its delivery log is deleted with it.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleDelete(endpoint)}>Delete</AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {endpoint.events.map(event => (
+                <Badge key={event} variant="outline" className="font-mono text-xs">{event}</Badge>
+              ))}
+            </div>
+
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Signing secret:</span>
+              <code className="rounded bg-muted px-2 py-0.5 font-mono text-xs">
+                {revealed === endpoint.id ? endpoint.secret : 'whsec_••••••••••••••••'}
+              </code>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setRevealed(revealed === endpoint.id ? null : endpoint.id)}
+                aria-label={revealed === endpoint.id ? 'Hide secret' : 'Show secret'}
+              >
+                {revealed === endpoint.id ? <EyeOff className="h-4 w-4" /> : <Eye className="h-4 w-4" />}
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => {
+                  navigator.clipboard.writeText(endpoint.secret);
+                  toast({ title: 'Secret copied' });
+                }}
+                aria-label="Copy secret"
+              >
+                <Copy className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        ))}
+
+        {endpoints.length > 0 && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-4">
+              <h3 className="font-semibold">Recent deliveries</h3>
+              <div className="flex items-center gap-2">
+                <Select value={endpointFilter} onValueChange={setEndpointFilter}>
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All endpoints</SelectItem>
+                    {endpoints.map(endpoint => (
+                      <SelectItem key={endpoint.id} value={endpoint.id}>{endpoint.url}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button variant="outline" size="icon" onClick={loadDeliveries} aria-label="Refresh deliveries">
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+
+            {deliveries.length === 0 ? (
+              <p className="text-sm text-muted-foreground">Nothing delivered yet.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Event</TableHead>
+                    {endpointFilter === 'all' && <TableHead>Endpoint</TableHead>}
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Response</TableHead>
+                    <TableHead className="text-right">Attempts</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {deliveries.map(delivery => (
+                    <TableRow key={delivery.id}>
+                      <TableCell className="whitespace-nowrap text-xs">
+                        {format(new Date(delivery.created_at), 'MMM d, HH:mm:ss')}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{delivery.event_type}</TableCell>
+                      {endpointFilter === 'all' && (
+                        <TableCell className="max-w-[180px] truncate font-mono text-xs">
+                          {endpointUrl(delivery.endpoint_id)}
+                        </TableCell>
+                      )}
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[delivery.status as WebhookDeliveryStatus]}>
+                          {delivery.status}
+                        </Badge>
+                        {delivery.status === 'pending' && delivery.attempt_count > 0 && delivery.next_attempt_at && (
+                          <p className="mt-1 text-xs text-muted-foreground">
+                            retry {formatDistanceToNow(new Date(delivery.next_attempt_at), { addSuffix: true })}
+                          </p>
+                        )}
+                        {delivery.error && delivery.status !== 'succeeded' && (
+                          <p className="mt-1 max-w-[220px] truncate text-xs text-destructive" title={delivery.error}>
+                            {delivery.error}
+                          </p>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-xs">
+                        {delivery.response_status ?? '—'}
+                        {delivery.duration_ms !== null && (
+                          <span className="block text-muted-foreground">{delivery.duration_ms} ms</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right text-xs">{delivery.attempt_count}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing ? 'Edit endpoint' : 'Add endpoint'}</DialogTitle>
+            <DialogDescription>
+              Events are sent as JSON POST requests. A new endpoint gets its own signing secret.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">URL</Label>
+              <Input
+                id="webhook-url"
+                value={form.url}
+                onChange={(e) => setForm(prev => ({ ...prev, url: e.target.value }))}
+                placeholder="https://example.com/webhooks/devflow"
+                autoComplete="off"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Input
+                id="webhook-description"
+                value={form.description}
+                onChange={(e) => setForm(prev => ({ ...prev, description: e.target.value }))}
+                placeholder="Optional"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="space-y-2">
+                {EVENT_TYPES.map(type => (
+                  <label key={type} className="flex items-start gap-2 text-sm">
+                    <Checkbox
+                      checked={form.events.includes(type)}
+                      onCheckedChange={(checked) => toggleEvent(type, checked === true)}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      <span className="font-medium">{WEBHOOK_EVENTS[type].label}</span>{' '}
+                      <span className="font-mono text-xs text-muted-foreground">{type}</span>
+                      <span className="block text-xs text-muted-foreground">{WEBHOOK_EVENTS[type].description}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving}>
+              {saving ? 'Saving...' : editing ? 'Save' : 'Add endpoint'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,294 @@
+import { useState, useEffect } from "react";
+import { ArrowDown, ArrowUp, Plus, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Button } from "@/components/ui/button";
+import { STATUS_CATEGORY_LABELS, type StatusCategory, type Workflow } from "@/lib/workflows";
+
+interface DraftStatus {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  color: string;
+  wip_limit: string;
+}
+
+interface WorkflowDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  projectId: string;
+  workflow: Workflow;
+}
+
+/** Keys are fixed once saved since tasks store them; only new statuses get one */
+function slugify(name: string, taken: string[]): string {
+  const base = name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").replace(/^(\d)/, "s_$1").slice(0, 36) || "status";
+  let key = base === "archived" ? "archived_status" : base;
+  for (let n = 2; taken.includes(key); n++) key = `${base}_${n}`;
+  return key;
+}
+
+export function WorkflowDialog({ open, onOpenChange, onSuccess, projectId, workflow }: WorkflowDialogProps) {
+  const { toast } = useToast();
+  const [statuses, setStatuses] = useState<DraftStatus[]>([]);
+  const [restrict, setRestrict] = useState(false);
+  const [transitions, setTransitions] = useState<Set<string>>(new Set());
+  const [newName, setNewName] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setStatuses(workflow.statuses.map(status => ({
+      key: status.key,
+      name: status.name,
+      category: status.category,
+      color: status.color,
+      wip_limit: status.wip_limit ? String(status.wip_limit) : "",
+    })));
+    setRestrict(workflow.transitions.length > 0);
+    setTransitions(new Set(workflow.transitions.map(t => `${t.from_status}>${t.to_status}`)));
+    setNewName("");
+  }, [open, workflow]);
+
+  function updateStatus(index: number, changes: Partial<DraftStatus>) {
+    setStatuses(prev => prev.map((status, i) => (i === index ? { ...status, ...changes } : status)));
+  }
+
+  function moveStatus(index: number, offset: number) {
+    setStatuses(prev => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  }
+
+  function removeStatus(index: number) {
+    const key = statuses[index].key;
+    setStatuses(prev => prev.filter((_, i) => i !== index));
+    setTransitions(prev => new Set([...prev].filter(t => !t.split(">").includes(key))));
+  }
+
+  function addStatus() {
+    const name = newName.trim();
+    if (!name) return;
+
+    const key = slugify(name, statuses.map(s => s.key));
+    setStatuses(prev => [...prev, { key, name, category: "active", color: "#6B7280", wip_limit: "" }]);
+    setNewName("");
+  }
+
+  function toggleTransition(from: string, to: string, checked: boolean) {
+    setTransitions(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(`${from}>${to}`);
+      else next.delete(`${from}>${to}`);
+      return next;
+    });
+  }
+
+  async function save(reset: boolean) {
+    setSubmitting(true);
+
+    const { error } = await supabase.rpc("save_project_workflow", {
+      p_project_id: projectId,
+      p_statuses: reset ? [] : statuses.map(status => ({
+        key: status.key,
+        name: status.name.trim(),
+        category: status.category,
+        color: status.color,
+        wip_limit: status.wip_limit ? Number(status.wip_limit) : null,
+      })),
+      p_transitions: reset || !restrict ? [] : [...transitions].map(t => {
+        const [from_status, to_status] = t.split(">");
+        return { from_status, to_status };
+      }),
+    });
+
+    setSubmitting(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save workflow",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    toast({
+      title: "Success",
+      description: reset ? "Workflow reset to the default" : "Workflow saved",
+    });
+    onSuccess();
+    onOpenChange(false);
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Workflow</DialogTitle>
+          <DialogDescription>
+            Statuses are the board columns, in order. Done statuses complete a task and require its subtasks to be done.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <div className="grid grid-cols-[1fr_130px_70px_90px_auto] gap-2 text-xs text-muted-foreground px-1">
+            <span>Name</span>
+            <span>Category</span>
+            <span>Color</span>
+            <span>WIP limit</span>
+            <span />
+          </div>
+          {statuses.map((status, index) => (
+            <div key={status.key} className="grid grid-cols-[1fr_130px_70px_90px_auto] gap-2 items-center">
+              <div>
+                <Input
+                  value={status.name}
+                  maxLength={40}
+                  onChange={(e) => updateStatus(index, { name: e.target.value })}
+                />
+                <p className="text-xs text-muted-foreground font-mono mt-1">{status.key}</p>
+              </div>
+              <Select
+                value={status.category}
+                onValueChange={(value) => updateStatus(index, { category: value as StatusCategory })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATUS_CATEGORY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Input
+                type="color"
+                className="p-1 h-10"
+                value={status.color}
+                onChange={(e) => updateStatus(index, { color: e.target.value.toUpperCase() })}
+              />
+              <Input
+                type="number"
+                min={1}
+                placeholder="None"
+                value={status.wip_limit}
+                onChange={(e) => updateStatus(index, { wip_limit: e.target.value })}
+              />
+              <div className="flex">
+                <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveStatus(index, -1)}>
+                  <ArrowUp className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" disabled={index === statuses.length - 1} onClick={() => moveStatus(index, 1)}>
+                  <ArrowDown className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="sm" disabled={statuses.length <= 2} onClick={() => removeStatus(index)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <div className="flex gap-2 pt-2">
+            <Input
+              placeholder="New status name"
+              value={newName}
+              maxLength={40}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  e.preventDefault();
+                  addStatus();
+                }
+              }}
+            />
+            <Button variant="outline" onClick={addStatus} disabled={!newName.trim()}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Status
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-3 border-t pt-4">
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="restrict-transitions">Restrict transitions</Label>
+              <p className="text-sm text-muted-foreground">
+                When off, tasks can move between any two statuses.
+              </p>
+            </div>
+            <Switch id="restrict-transitions" checked={restrict} onCheckedChange={setRestrict} />
+          </div>
+
+          {restrict && (
+            <div className="overflow-x-auto">
+              <table className="text-sm">
+                <thead>
+                  <tr>
+                    <th className="text-left font-normal text-muted-foreground p-2">From \ To</th>
+                    {statuses.map(to => (
+                      <th key={to.key} className="font-medium p-2 whitespace-nowrap">{to.name}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {statuses.map(from => (
+                    <tr key={from.key} className="border-t">
+                      <td className="font-medium p-2 whitespace-nowrap">{from.name}</td>
+                      {statuses.map(to => (
+                        <td key={to.key} className="p-2 text-center">
+                          {from.key !== to.key && (
+                            <Checkbox
+                              checked={transitions.has(`${from.key}>${to.key}`)}
+                              onCheckedChange={(checked) => toggleTransition(from.key, to.key, checked === true)}
+                            />
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="sm:justify-between">
+          <Button variant="ghost" onClick={() => save(true)} disabled={submitting || !workflow.custom}>
+            Reset to Default
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button onClick={() => save(false)} disabled={submitting || statuses.some(s => !s.name.trim())}>
+              {submitting ? "Saving..." : "Save Workflow"}
+            </Button>
+          </div>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
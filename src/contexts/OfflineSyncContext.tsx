@@ -0,0 +1,250 @@
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import {
+  enqueueOperation,
+  getQueuedOperations,
+  isNetworkError,
+  removeQueuedOperation,
+  updateQueuedOperation,
+  type OutboxItem,
+  type QueuedOperation,
+} from '@/lib/offlineQueue';
+
+interface OfflineSyncContextType {
+  isOnline: boolean;
+  isSyncing: boolean;
+  items: OutboxItem[];
+  queueOperation: (operation: QueuedOperation) => Promise<void>;
+  syncNow: () => Promise<void>;
+  retryItem: (item: OutboxItem, operation?: QueuedOperation) => Promise<void>;
+  discardItem: (item: OutboxItem) => Promise<void>;
+}
+
+const OfflineSyncContext = createContext<OfflineSyncContextType | undefined>(undefined);
+
+const OVERLAP_MESSAGE = 'Time entry overlaps with existing entry.';
+
+async function ensureNoOverlap(userId: string, startTime: string, endTime: string, entryId?: string) {
+  const { data: hasOverlap, error } = await supabase.rpc('check_time_entry_overlap', {
+    p_user_id: userId,
+    p_start_time: startTime,
+    p_end_time: endTime,
+    p_entry_id: entryId,
+  });
+
+  if (error) throw error;
+  if (hasOverlap) throw new Error(OVERLAP_MESSAGE);
+}
+
+async function replayOperation(operation: QueuedOperation) {
+  switch (operation.kind) {
+    case 'insert_time_entry': {
+      const { values } = operation;
+
+      await ensureNoOverlap(values.user_id, values.start_time, values.end_time);
+
+      const { data: canCreate, error: limitError } = await supabase.rpc('check_time_entry_limit', {
+        p_org_id: values.organization_id,
+        p_user_id: values.user_id,
+      });
+      if (limitError) throw limitError;
+      if (!canCreate) {
+        throw new Error('Free plan allows max 100 time entries per month. Upgrade to Pro for unlimited.');
+      }
+
+      const { error } = await supabase.from('time_entries').insert(values);
+      if (error) throw error;
+
+      if (values.task_id) {
+        await supabase.rpc('update_task_actual_hours', { p_task_id: values.task_id });
+      }
+      return;
+    }
+
+    case 'update_time_entry': {
+      const { entryId, values } = operation;
+
+      if (values.start_time && values.end_time && values.user_id) {
+        await ensureNoOverlap(values.user_id, values.start_time, values.end_time, entryId);
+      }
+
+      const { error } = await supabase.from('time_entries').update(values).eq('id', entryId);
+      if (error) throw error;
+      return;
+    }
+
+    case 'stop_timer': {
+      const { data: timer, error: timerError } = await supabase
+        .from('active_timers')
+        .select('started_at')
+        .eq('organization_id', operation.args.p_org_id)
+        .maybeSingle();
+
+      if (timerError) throw timerError;
+      if (!timer || new Date(timer.started_at).getTime() !== new Date(operation.timerStartedAt).getTime()) {
+        throw new Error('This timer was already stopped on another device');
+      }
+
+      const { error } = await supabase.rpc('stop_active_timer', operation.args);
+      if (error) throw error;
+      return;
+    }
+  }
+}
+
+export function OfflineSyncProvider({ children }: { children: React.ReactNode }) {
+  const [userId, setUserId] = useState<string | null>(null);
+  const [items, setItems] = useState<OutboxItem[]>([]);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const syncing = useRef(false);
+
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const refreshItems = useCallback(async () => {
+    if (!userId) {
+      setItems([]);
+      return [];
+    }
+
+    const queued = await getQueuedOperations(userId);
+    setItems(queued);
+    return queued;
+  }, [userId]);
+
+  // Replays pending items oldest first. A dropped connection stops the run so
+  // later items keep their place; overlaps are parked as conflicts for the user.
+  const syncNow = useCallback(async () => {
+    if (!userId || syncing.current || !navigator.onLine) return;
+
+    syncing.current = true;
+    setIsSyncing(true);
+    let synced = 0;
+    let parked = 0;
+
+    try {
+      const queued = await getQueuedOperations(userId);
+
+      for (const item of queued) {
+        if (item.status !== 'pending') continue;
+
+        try {
+          await replayOperation(item.operation);
+          await removeQueuedOperation(item.id);
+          synced++;
+        } catch (error) {
+          if (isNetworkError(error)) break;
+
+          console.error('Error syncing offline change:', error);
+          await updateQueuedOperation({
+            ...item,
+            status: /overlap/i.test(error.message || '') ? 'conflict' : 'failed',
+            error: error.message || 'Failed to sync',
+          });
+          parked++;
+        }
+      }
+    } catch (error) {
+      console.error('Error reading offline queue:', error);
+    } finally {
+      syncing.current = false;
+      setIsSyncing(false);
+    }
+
+    await refreshItems();
+
+    if (synced > 0) {
+      toast({
+        title: 'Offline changes synced',
+        description: `${synced} ${synced === 1 ? 'change' : 'changes'} saved to the server`,
+      });
+    }
+    if (parked > 0) {
+      toast({
+        title: 'Sync needs attention',
+        description: `${parked} offline ${parked === 1 ? 'change' : 'changes'} could not be saved. Open the sync status in the header to resolve.`,
+        variant: 'destructive',
+      });
+    }
+  }, [userId, refreshItems]);
+
+  useEffect(() => {
+    refreshItems().then(() => syncNow()).catch(error => {
+      console.error('Error loading offline queue:', error);
+    });
+  }, [refreshItems, syncNow]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  const queueOperation = useCallback(async (operation: QueuedOperation) => {
+    if (!userId) throw new Error('Not authenticated');
+
+    await enqueueOperation(userId, operation);
+    await refreshItems();
+  }, [userId, refreshItems]);
+
+  const retryItem = useCallback(async (item: OutboxItem, operation?: QueuedOperation) => {
+    await updateQueuedOperation({
+      ...item,
+      operation: operation ?? item.operation,
+      status: 'pending',
+      error: null,
+    });
+    await refreshItems();
+    await syncNow();
+  }, [refreshItems, syncNow]);
+
+  const discardItem = useCallback(async (item: OutboxItem) => {
+    await removeQueuedOperation(item.id);
+    await refreshItems();
+  }, [refreshItems]);
+
+  return (
+    <OfflineSyncContext.Provider
+      value={{
+        isOnline,
+        isSyncing,
+        items,
+        queueOperation,
+        syncNow,
+        retryItem,
+        discardItem,
+      }}
+    >
+      {children}
+    </OfflineSyncContext.Provider>
+  );
+}
+
+export function useOfflineSync() {
+  const context = useContext(OfflineSyncContext);
+  if (!context) {
+    throw new Error('useOfflineSync must be used within OfflineSyncProvider');
+  }
+  return context;
+}
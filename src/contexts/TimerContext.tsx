@@ -1,4 +1,20 @@
-import React, { createContext, useContext, useState, useEffect, useCallback } from 'react';
+import React, { createContext, useContext, useState, useEffect, useCallback, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { getCurrentOrganization } from '@/lib/auth';
+import { toast } from '@/hooks/use-toast';
+import { isNetworkError } from '@/lib/offlineQueue';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
+import type { Json, Tables } from '@/integrations/supabase/types';
+
+type ActiveTimer = Tables<'active_timers'> & {
+  tasks: { code: string } | null;
+  pomodoro_sessions: { focus_count: number | null } | null;
+};
+
+export interface TimerSegment {
+  start: number;
+  end: number | null;
+}
 
 interface TimerState {
   isRunning: boolean;
@@ -8,27 +24,65 @@ interface TimerState {
   taskCode: string | null;
   projectId: string | null;
   startTimestamp: number | null;
+  pausedTimestamp: number | null;
+  segments: TimerSegment[]; // run segments; pauses are the gaps between them
   elapsedSeconds: number;
   durationSeconds: number | null; // null for quick timer, set for pomodoro
+  pomodoroFocusCount: number; // focus phases completed in the current cycle
+  description: string;
+  isBillable: boolean;
+}
+
+interface TimerTask {
+  taskId: string | null;
+  taskCode: string | null;
+  projectId: string | null;
+}
+
+interface SaveTimerInput {
+  taskId: string | null;
+  projectId: string | null;
   description: string;
   isBillable: boolean;
+  endTime: Date;
 }
 
+interface SaveTimerResult {
+  entryIds: string[];
+  queued: boolean; // true when offline; entries are created once the stop syncs
+}
+
+export type IdleAction = 'keep' | 'discard' | 'split';
+
 interface TimerContextType {
   timerState: TimerState;
-  startTimer: (type: TimerState['timerType'], duration?: number) => void;
-  pauseTimer: () => void;
-  resumeTimer: () => void;
-  stopTimer: () => { startTime: Date; endTime: Date; duration: number };
+  idleSince: number | null;
+  idleThresholdMinutes: number;
+  startTimer: (type: TimerState['timerType'], duration?: number, task?: TimerTask) => Promise<void>;
+  pauseTimer: () => Promise<void>;
+  resumeTimer: () => Promise<void>;
+  stopTimer: () => { startTime: Date; endTime: Date; duration: number; segments: TimerSegment[] };
+  saveTimer: (input: SaveTimerInput) => Promise<SaveTimerResult>;
   updateTimerTask: (taskId: string | null, taskCode: string | null, projectId: string | null) => void;
   updateTimerDescription: (description: string) => void;
   updateTimerBillable: (isBillable: boolean) => void;
-  resetTimer: () => void;
+  resetTimer: () => Promise<void>;
+  resolveIdleTime: (action: IdleAction) => Promise<void>;
+  updateIdleThreshold: (minutes: number) => Promise<void>;
 }
 
 const TimerContext = createContext<TimerContextType | undefined>(undefined);
 
-const STORAGE_KEY = 'devflow_timer_state';
+const DESCRIPTION_SAVE_DELAY_MS = 500;
+
+// How long to wait before retrying a Pomodoro phase change that failed
+const ADVANCE_RETRY_DELAY_MS = 30_000;
+
+const DEFAULT_IDLE_THRESHOLD_MINUTES = 10;
+
+const ACTIVITY_EVENTS = ['mousemove', 'mousedown', 'keydown', 'touchstart', 'wheel', 'scroll'];
+
+const ACTIVE_TIMER_SELECT = '*, tasks (code), pomodoro_sessions (focus_count)';
 
 const initialState: TimerState = {
   isRunning: false,
@@ -38,40 +92,227 @@ const initialState: TimerState = {
   taskCode: null,
   projectId: null,
   startTimestamp: null,
+  pausedTimestamp: null,
+  segments: [],
   elapsedSeconds: 0,
   durationSeconds: null,
+  pomodoroFocusCount: 0,
   description: '',
   isBillable: true,
 };
 
+// Elapsed time only counts run segments, so paused time is never included
+function computeElapsedSeconds(state: Pick<TimerState, 'segments'>, now = Date.now()): number {
+  const totalMs = state.segments.reduce((sum, segment) => {
+    const end = Math.min(segment.end ?? now, now);
+    return sum + Math.max(0, end - segment.start);
+  }, 0);
+  return Math.floor(totalMs / 1000);
+}
+
+function parseSegments(segments: Json): TimerSegment[] {
+  if (!Array.isArray(segments)) return [];
+  return (segments as { started_at: string; ended_at: string | null }[]).map(segment => ({
+    start: new Date(segment.started_at).getTime(),
+    end: segment.ended_at ? new Date(segment.ended_at).getTime() : null,
+  }));
+}
+
+function toTimerState(timer: ActiveTimer): TimerState {
+  const state: TimerState = {
+    isRunning: true,
+    isPaused: timer.is_paused,
+    timerType: timer.timer_type as TimerState['timerType'],
+    taskId: timer.task_id,
+    taskCode: timer.tasks?.code || null,
+    projectId: timer.project_id,
+    startTimestamp: new Date(timer.started_at).getTime(),
+    pausedTimestamp: timer.paused_at ? new Date(timer.paused_at).getTime() : null,
+    segments: parseSegments(timer.segments),
+    elapsedSeconds: 0,
+    durationSeconds: timer.duration_seconds,
+    pomodoroFocusCount: timer.pomodoro_sessions?.focus_count || 0,
+    description: timer.description,
+    isBillable: timer.is_billable,
+  };
+  state.elapsedSeconds = computeElapsedSeconds(state);
+  return state;
+}
+
+function showTimerError(error: { message?: string }) {
+  console.error('Timer error:', error);
+  toast({
+    title: 'Timer Error',
+    description: error.message || 'Failed to sync timer',
+    variant: 'destructive',
+  });
+}
+
 export function TimerProvider({ children }: { children: React.ReactNode }) {
-  const [timerState, setTimerState] = useState<TimerState>(() => {
-    const stored = localStorage.getItem(STORAGE_KEY);
-    if (stored) {
-      try {
-        const parsed = JSON.parse(stored);
-        // Calculate elapsed time if timer was running
-        if (parsed.isRunning && !parsed.isPaused && parsed.startTimestamp) {
-          const now = Date.now();
-          const elapsed = Math.floor((now - parsed.startTimestamp) / 1000);
-          parsed.elapsedSeconds = elapsed;
-        }
-        return parsed;
-      } catch {
-        return initialState;
-      }
+  const [timerState, setTimerState] = useState<TimerState>(initialState);
+  const [userId, setUserId] = useState<string | null>(null);
+  const [orgId, setOrgId] = useState<string | null>(null);
+  const descriptionTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const advancingPhase = useRef<number | null>(null);
+  const lastActivity = useRef<number>(Date.now());
+  const [idleSince, setIdleSince] = useState<number | null>(null);
+  const [idleThresholdMinutes, setIdleThresholdMinutes] = useState(DEFAULT_IDLE_THRESHOLD_MINUTES);
+  const { items: outboxItems, queueOperation } = useOfflineSync();
+  const pendingStops = useRef<Set<number>>(new Set());
+
+  // Track the signed-in user; the timer lives on the server per user per org
+  useEffect(() => {
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, session) => {
+      setUserId(session?.user.id ?? null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const loadActiveTimer = useCallback(async (organizationId: string) => {
+    const { data, error } = await supabase
+      .from('active_timers')
+      .select(ACTIVE_TIMER_SELECT)
+      .eq('organization_id', organizationId)
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error loading active timer:', error);
+      return;
     }
-    return initialState;
-  });
 
-  // Save to localStorage whenever state changes
+    // Don't clobber a description that is still waiting to be saved
+    const pendingDescription = descriptionTimeout.current !== null;
+    setTimerState(prev => {
+      // A timer stopped while offline stays hidden until its stop is synced
+      if (!data || pendingStops.current.has(new Date(data.started_at).getTime())) return initialState;
+      const next = toTimerState(data as ActiveTimer);
+      return pendingDescription ? { ...next, description: prev.description } : next;
+    });
+  }, []);
+
+  // Resolve the organization the timer belongs to, following org switches made in other tabs
   useEffect(() => {
-    if (timerState.isRunning || timerState.elapsedSeconds > 0) {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(timerState));
-    } else {
-      localStorage.removeItem(STORAGE_KEY);
+    if (!userId) {
+      setOrgId(null);
+      setTimerState(initialState);
+      return;
     }
-  }, [timerState]);
+
+    let cancelled = false;
+
+    const resolveOrganization = async () => {
+      const org = await getCurrentOrganization();
+      if (!cancelled) setOrgId(org?.id ?? null);
+    };
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === 'activeOrgId') resolveOrganization();
+    };
+
+    resolveOrganization();
+    window.addEventListener('storage', handleStorage);
+
+    return () => {
+      cancelled = true;
+      window.removeEventListener('storage', handleStorage);
+    };
+  }, [userId]);
+
+  // Load the active timer and follow changes made on other devices
+  useEffect(() => {
+    if (!userId || !orgId) {
+      setTimerState(initialState);
+      return;
+    }
+
+    loadActiveTimer(orgId);
+
+    const filter = `user_id=eq.${userId}`;
+    const channel = supabase
+      .channel(`active-timers-${userId}-${orgId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'active_timers', filter },
+        () => loadActiveTimer(orgId)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'active_timers', filter },
+        () => loadActiveTimer(orgId)
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'active_timers', filter },
+        () => loadActiveTimer(orgId)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId, orgId, loadActiveTimer]);
+
+  // Reload once a queued stop syncs or is discarded, so a restored timer shows up again
+  const pendingStopKey = outboxItems
+    .flatMap(item => (item.operation.kind === 'stop_timer' ? [new Date(item.operation.timerStartedAt).getTime()] : []))
+    .join(',');
+
+  useEffect(() => {
+    const hadPendingStops = pendingStops.current.size > 0;
+    pendingStops.current = new Set(pendingStopKey ? pendingStopKey.split(',').map(Number) : []);
+    if (orgId && (hadPendingStops || pendingStops.current.size > 0)) loadActiveTimer(orgId);
+  }, [pendingStopKey, orgId, loadActiveTimer]);
+
+  // Per-user timer preferences
+  useEffect(() => {
+    if (!userId) return;
+
+    (async () => {
+      const { data, error } = await supabase.rpc('get_user_settings');
+      if (error) {
+        console.error('Error loading timer settings:', error);
+        return;
+      }
+      setIdleThresholdMinutes(data.idle_threshold_minutes);
+    })();
+  }, [userId]);
+
+  // Watch for inactivity while the timer runs: no input events, or the page
+  // hidden, for longer than the threshold flags the gap as idle time
+  useEffect(() => {
+    if (!timerState.isRunning || timerState.isPaused) {
+      setIdleSince(null);
+      return;
+    }
+    if (!idleThresholdMinutes) return;
+
+    const thresholdMs = idleThresholdMinutes * 60 * 1000;
+    lastActivity.current = Date.now();
+
+    const handleActivity = () => {
+      if (document.hidden) return;
+
+      const now = Date.now();
+      const lastActiveAt = lastActivity.current;
+      if (now - lastActiveAt >= thresholdMs) {
+        setIdleSince(prev => prev ?? lastActiveAt);
+      }
+      lastActivity.current = now;
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleActivity);
+
+    return () => {
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleActivity);
+    };
+  }, [timerState.isRunning, timerState.isPaused, idleThresholdMinutes]);
 
   // Tick timer every second
   useEffect(() => {
@@ -80,31 +321,96 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
     const interval = setInterval(() => {
       setTimerState(prev => ({
         ...prev,
-        elapsedSeconds: prev.elapsedSeconds + 1,
+        elapsedSeconds: computeElapsedSeconds(prev),
       }));
     }, 1000);
 
     return () => clearInterval(interval);
   }, [timerState.isRunning, timerState.isPaused]);
 
-  const startTimer = useCallback((type: TimerState['timerType'], duration?: number) => {
-    setTimerState({
-      ...initialState,
-      isRunning: true,
-      timerType: type,
-      startTimestamp: Date.now(),
-      durationSeconds: duration || null,
-      isBillable: true,
-    });
-  }, []);
+  // Move a Pomodoro to its next phase once the current one runs out
+  useEffect(() => {
+    const { timerType, isRunning, isPaused, durationSeconds, elapsedSeconds, startTimestamp } = timerState;
+    if (!orgId || !isRunning || isPaused || !durationSeconds || !startTimestamp) return;
+    if (timerType !== 'pomodoro_focus' && timerType !== 'pomodoro_break') return;
+    if (elapsedSeconds < durationSeconds || advancingPhase.current === startTimestamp) return;
 
-  const pauseTimer = useCallback(() => {
-    setTimerState(prev => ({ ...prev, isPaused: true }));
-  }, []);
+    advancingPhase.current = startTimestamp;
+    (async () => {
+      const { error } = await supabase.rpc('advance_pomodoro', {
+        p_org_id: orgId,
+        p_phase_started_at: new Date(startTimestamp).toISOString(),
+      });
 
-  const resumeTimer = useCallback(() => {
-    setTimerState(prev => ({ ...prev, isPaused: false }));
-  }, []);
+      if (error) {
+        showTimerError(error);
+        // e.g. the focus time overlaps another entry; try again once the user had a chance to fix it
+        setTimeout(() => {
+          if (advancingPhase.current === startTimestamp) advancingPhase.current = null;
+        }, ADVANCE_RETRY_DELAY_MS);
+        return;
+      }
+
+      await loadActiveTimer(orgId);
+    })();
+  }, [orgId, timerState, loadActiveTimer]);
+
+  const startTimer = useCallback(async (type: TimerState['timerType'], duration?: number, task?: TimerTask) => {
+    try {
+      if (!orgId) throw new Error('No organization found');
+
+      const { data, error } = await supabase.rpc('start_active_timer', {
+        p_org_id: orgId,
+        p_timer_type: type,
+        p_task_id: task?.taskId || null,
+        p_project_id: task?.projectId || null,
+        p_duration_seconds: duration || null,
+      });
+
+      if (error) throw error;
+
+      setTimerState(toTimerState({
+        ...data,
+        tasks: task?.taskCode ? { code: task.taskCode } : null,
+        pomodoro_sessions: null,
+      }));
+    } catch (error) {
+      showTimerError(error);
+    }
+  }, [orgId]);
+
+  const pauseTimer = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('pause_active_timer', { p_org_id: orgId });
+      if (error) throw error;
+
+      setTimerState(prev => {
+        const next = {
+          ...prev,
+          isPaused: true,
+          pausedTimestamp: new Date(data.paused_at).getTime(),
+          segments: parseSegments(data.segments),
+        };
+        return { ...next, elapsedSeconds: computeElapsedSeconds(next) };
+      });
+    } catch (error) {
+      showTimerError(error);
+    }
+  }, [orgId]);
+
+  const resumeTimer = useCallback(async () => {
+    try {
+      const { data, error } = await supabase.rpc('resume_active_timer', { p_org_id: orgId });
+      if (error) throw error;
+
+      setTimerState(prev => {
+        const next = { ...prev, isPaused: false, pausedTimestamp: null, segments: parseSegments(data.segments) };
+        return { ...next, elapsedSeconds: computeElapsedSeconds(next) };
+      });
+    } catch (error) {
+      showTimerError(error);
+    }
+  }, [orgId]);
 
   const stopTimer = useCallback(() => {
     if (!timerState.startTimestamp) {
@@ -112,41 +418,148 @@ export function TimerProvider({ children }: { children: React.ReactNode }) {
     }
 
     const startTime = new Date(timerState.startTimestamp);
-    const endTime = new Date();
-    const duration = timerState.elapsedSeconds;
+    const endTime = new Date(timerState.pausedTimestamp ?? Date.now());
+    const segments = timerState.segments.map(segment => ({ ...segment, end: segment.end ?? endTime.getTime() }));
+    const duration = computeElapsedSeconds({ segments }, endTime.getTime());
 
-    return { startTime, endTime, duration };
+    return { startTime, endTime, duration, segments };
   }, [timerState]);
 
+  // Closes the timer on the server, which records one time entry per run segment.
+  // Offline, the stop is queued with its end time and replayed on reconnect.
+  const saveTimer = useCallback(async (input: SaveTimerInput): Promise<SaveTimerResult> => {
+    if (!orgId) throw new Error('No organization found');
+    if (!timerState.startTimestamp) throw new Error('Timer not started');
+
+    if (descriptionTimeout.current) {
+      clearTimeout(descriptionTimeout.current);
+      descriptionTimeout.current = null;
+    }
+
+    const args = {
+      p_org_id: orgId,
+      p_task_id: input.taskId,
+      p_project_id: input.projectId,
+      p_description: input.description,
+      p_is_billable: input.isBillable,
+      p_end_time: input.endTime.toISOString(),
+    };
+
+    const { data, error } = await supabase.rpc('stop_active_timer', args);
+
+    if (error) {
+      if (!isNetworkError(error)) throw error;
+
+      pendingStops.current.add(timerState.startTimestamp);
+      await queueOperation({
+        kind: 'stop_timer',
+        timerStartedAt: new Date(timerState.startTimestamp).toISOString(),
+        args,
+      });
+      setTimerState(initialState);
+      return { entryIds: [], queued: true };
+    }
+
+    setTimerState(initialState);
+    return { entryIds: data, queued: false };
+  }, [orgId, timerState.startTimestamp, queueOperation]);
+
+  const updateActiveTimer = useCallback(async (values: Partial<Pick<ActiveTimer, 'task_id' | 'project_id' | 'description' | 'is_billable'>>) => {
+    if (!orgId) return;
+
+    const { error } = await supabase
+      .from('active_timers')
+      .update(values)
+      .eq('organization_id', orgId);
+
+    if (error) showTimerError(error);
+  }, [orgId]);
+
   const updateTimerTask = useCallback((taskId: string | null, taskCode: string | null, projectId: string | null) => {
     setTimerState(prev => ({ ...prev, taskId, taskCode, projectId }));
-  }, []);
+    updateActiveTimer({ task_id: taskId, project_id: projectId });
+  }, [updateActiveTimer]);
 
   const updateTimerDescription = useCallback((description: string) => {
     setTimerState(prev => ({ ...prev, description }));
-  }, []);
+
+    // Debounce so typing doesn't send a request per keystroke
+    if (descriptionTimeout.current) clearTimeout(descriptionTimeout.current);
+    descriptionTimeout.current = setTimeout(() => {
+      descriptionTimeout.current = null;
+      updateActiveTimer({ description });
+    }, DESCRIPTION_SAVE_DELAY_MS);
+  }, [updateActiveTimer]);
 
   const updateTimerBillable = useCallback((isBillable: boolean) => {
     setTimerState(prev => ({ ...prev, isBillable }));
-  }, []);
+    updateActiveTimer({ is_billable: isBillable });
+  }, [updateActiveTimer]);
+
+  const resetTimer = useCallback(async () => {
+    if (descriptionTimeout.current) {
+      clearTimeout(descriptionTimeout.current);
+      descriptionTimeout.current = null;
+    }
 
-  const resetTimer = useCallback(() => {
     setTimerState(initialState);
-    localStorage.removeItem(STORAGE_KEY);
-  }, []);
+    if (!orgId) return;
+
+    const { error } = await supabase.rpc('discard_active_timer', { p_org_id: orgId });
+    if (error) showTimerError(error);
+  }, [orgId]);
+
+  const resolveIdleTime = useCallback(async (action: IdleAction) => {
+    if (action === 'keep' || !idleSince || !orgId) {
+      setIdleSince(null);
+      return;
+    }
+
+    try {
+      const { error } = await supabase.rpc('resolve_active_timer_idle', {
+        p_org_id: orgId,
+        p_idle_started_at: new Date(idleSince).toISOString(),
+        p_action: action,
+      });
+      if (error) throw error;
+
+      setIdleSince(null);
+      await loadActiveTimer(orgId);
+    } catch (error) {
+      showTimerError(error);
+    }
+  }, [idleSince, orgId, loadActiveTimer]);
+
+  const updateIdleThreshold = useCallback(async (minutes: number) => {
+    if (!userId) throw new Error('Not authenticated');
+
+    const { error } = await supabase
+      .from('user_settings')
+      .update({ idle_threshold_minutes: minutes })
+      .eq('user_id', userId);
+
+    if (error) throw error;
+
+    setIdleThresholdMinutes(minutes);
+  }, [userId]);
 
   return (
     <TimerContext.Provider
       value={{
         timerState,
+        idleSince,
+        idleThresholdMinutes,
         startTimer,
         pauseTimer,
         resumeTimer,
         stopTimer,
+        saveTimer,
         updateTimerTask,
         updateTimerDescription,
         updateTimerBillable,
         resetTimer,
+        resolveIdleTime,
+        updateIdleThreshold,
       }}
     >
       {children}
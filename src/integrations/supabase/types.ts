@@ -14,6 +14,174 @@ export type Database = {
   }
   public: {
     Tables: {
+      active_timers: {
+        Row: {
+          created_at: string | null
+          description: string
+          duration_seconds: number | null
+          id: string
+          is_billable: boolean
+          is_paused: boolean
+          organization_id: string
+          paused_at: string | null
+          pomodoro_session_id: string | null
+          project_id: string | null
+          segments: Json
+          started_at: string
+          task_id: string | null
+          timer_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string
+          duration_seconds?: number | null
+          id?: string
+          is_billable?: boolean
+          is_paused?: boolean
+          organization_id: string
+          paused_at?: string | null
+          pomodoro_session_id?: string | null
+          project_id?: string | null
+          segments?: Json
+          started_at?: string
+          task_id?: string | null
+          timer_type: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          description?: string
+          duration_seconds?: number | null
+          id?: string
+          is_billable?: boolean
+          is_paused?: boolean
+          organization_id?: string
+          paused_at?: string | null
+          pomodoro_session_id?: string | null
+          project_id?: string | null
+          segments?: Json
+          started_at?: string
+          task_id?: string | null
+          timer_type?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "active_timers_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "active_timers_pomodoro_session_id_fkey"
+            columns: ["pomodoro_session_id"]
+            isOneToOne: false
+            referencedRelation: "pomodoro_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "active_timers_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "active_timers_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_request_counts: {
+        Row: {
+          request_count: number
+          token_id: string
+          window_start: string
+        }
+        Insert: {
+          request_count?: number
+          token_id: string
+          window_start: string
+        }
+        Update: {
+          request_count?: number
+          token_id?: string
+          window_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_request_counts_token_id_fkey"
+            columns: ["token_id"]
+            isOneToOne: false
+            referencedRelation: "api_tokens"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      api_tokens: {
+        Row: {
+          created_at: string
+          expires_at: string | null
+          id: string
+          kind: string
+          last_used_at: string | null
+          name: string
+          organization_id: string
+          revoked_at: string | null
+          revoked_by: string | null
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          kind: string
+          last_used_at?: string | null
+          name: string
+          organization_id: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          scopes: string[]
+          token_hash: string
+          token_prefix: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          expires_at?: string | null
+          id?: string
+          kind?: string
+          last_used_at?: string | null
+          name?: string
+          organization_id?: string
+          revoked_at?: string | null
+          revoked_by?: string | null
+          scopes?: string[]
+          token_hash?: string
+          token_prefix?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_tokens_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       audit_logs: {
         Row: {
           action: string
@@ -64,96 +232,179 @@ export type Database = {
           },
         ]
       }
-      invite_codes: {
+      client_invoice_lines: {
         Row: {
-          code: string
-          created_at: string
-          created_by: string
-          expires_at: string
+          amount: number
+          description: string
+          hours: number
           id: string
-          is_active: boolean
-          max_uses: number | null
-          organization_id: string
-          used_count: number
+          invoice_id: string
+          position: number
+          project_id: string | null
+          task_id: string | null
+          unit_price: number
+          user_id: string | null
         }
         Insert: {
-          code: string
-          created_at?: string
-          created_by: string
-          expires_at?: string
+          amount: number
+          description: string
+          hours: number
           id?: string
-          is_active?: boolean
-          max_uses?: number | null
-          organization_id: string
-          used_count?: number
+          invoice_id: string
+          position: number
+          project_id?: string | null
+          task_id?: string | null
+          unit_price: number
+          user_id?: string | null
         }
         Update: {
-          code?: string
-          created_at?: string
-          created_by?: string
-          expires_at?: string
+          amount?: number
+          description?: string
+          hours?: number
           id?: string
-          is_active?: boolean
-          max_uses?: number | null
-          organization_id?: string
-          used_count?: number
+          invoice_id?: string
+          position?: number
+          project_id?: string | null
+          task_id?: string | null
+          unit_price?: number
+          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "invite_codes_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "client_invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
             isOneToOne: false
-            referencedRelation: "organizations"
+            referencedRelation: "client_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_invoice_lines_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_invoice_lines_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
         ]
       }
-      invoices: {
+      client_invoice_taxes: {
         Row: {
-          amount_due: number
-          amount_paid: number
-          created_at: string | null
+          amount: number
+          id: string
+          invoice_id: string
+          name: string
+          rate: number
+        }
+        Insert: {
+          amount: number
+          id?: string
+          invoice_id: string
+          name: string
+          rate: number
+        }
+        Update: {
+          amount?: number
+          id?: string
+          invoice_id?: string
+          name?: string
+          rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "client_invoice_taxes_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "client_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      client_invoices: {
+        Row: {
+          client_id: string
+          created_at: string
+          created_by: string | null
           currency: string
-          hosted_invoice_url: string | null
+          due_date: string
+          group_by: string
           id: string
-          invoice_pdf: string | null
+          invoice_number: string | null
+          issue_date: string
+          notes: string | null
           organization_id: string
-          period_end: string | null
-          period_start: string | null
+          paid_at: string | null
+          period_end: string
+          period_start: string
+          sent_at: string | null
           status: string
-          stripe_invoice_id: string
+          subtotal: number
+          tax_total: number
+          total: number
+          updated_at: string
+          voided_at: string | null
         }
         Insert: {
-          amount_due: number
-          amount_paid: number
-          created_at?: string | null
-          currency?: string
-          hosted_invoice_url?: string | null
+          client_id: string
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          due_date: string
+          group_by?: string
           id?: string
-          invoice_pdf?: string | null
+          invoice_number?: string | null
+          issue_date?: string
+          notes?: string | null
           organization_id: string
-          period_end?: string | null
-          period_start?: string | null
-          status: string
-          stripe_invoice_id: string
+          paid_at?: string | null
+          period_end: string
+          period_start: string
+          sent_at?: string | null
+          status?: string
+          subtotal?: number
+          tax_total?: number
+          total?: number
+          updated_at?: string
+          voided_at?: string | null
         }
         Update: {
-          amount_due?: number
-          amount_paid?: number
-          created_at?: string | null
+          client_id?: string
+          created_at?: string
+          created_by?: string | null
           currency?: string
-          hosted_invoice_url?: string | null
+          due_date?: string
+          group_by?: string
           id?: string
-          invoice_pdf?: string | null
+          invoice_number?: string | null
+          issue_date?: string
+          notes?: string | null
           organization_id?: string
-          period_end?: string | null
-          period_start?: string | null
+          paid_at?: string | null
+          period_end?: string
+          period_start?: string
+          sent_at?: string | null
           status?: string
-          stripe_invoice_id?: string
+          subtotal?: number
+          tax_total?: number
+          total?: number
+          updated_at?: string
+          voided_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "invoices_organization_id_fkey"
+            foreignKeyName: "client_invoices_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "client_invoices_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -161,76 +412,1161 @@ export type Database = {
           },
         ]
       }
-      organizations: {
+      clients: {
         Row: {
+          address: string | null
           created_at: string
-          default_work_hours_per_week: number
+          currency: string
           deleted_at: string | null
+          email: string | null
           id: string
           name: string
-          slug: string
-          timesheet_approval_enabled: boolean
-          timesheet_approver_role: string
-          timezone: string
+          notes: string | null
+          organization_id: string
+          payment_terms_days: number
+          tax_id: string | null
           updated_at: string
         }
         Insert: {
+          address?: string | null
           created_at?: string
-          default_work_hours_per_week?: number
+          currency?: string
           deleted_at?: string | null
+          email?: string | null
           id?: string
           name: string
-          slug: string
-          timesheet_approval_enabled?: boolean
-          timesheet_approver_role?: string
-          timezone?: string
+          notes?: string | null
+          organization_id: string
+          payment_terms_days?: number
+          tax_id?: string | null
           updated_at?: string
         }
         Update: {
+          address?: string | null
           created_at?: string
-          default_work_hours_per_week?: number
+          currency?: string
           deleted_at?: string | null
+          email?: string | null
           id?: string
           name?: string
-          slug?: string
-          timesheet_approval_enabled?: boolean
-          timesheet_approver_role?: string
-          timezone?: string
+          notes?: string | null
+          organization_id?: string
+          payment_terms_days?: number
+          tax_id?: string | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "clients_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      pomodoro_sessions: {
+      generated_reports: {
         Row: {
-          break_count: number | null
-          completed_at: string | null
-          created_at: string | null
-          focus_count: number | null
+          created_at: string
+          file_path: string
+          file_size: number | null
+          filter_summary: string | null
+          filters: Json
+          format: string
+          generated_by: string | null
           id: string
-          task_id: string | null
-          user_id: string
+          name: string
+          organization_id: string
+          period_end: string
+          period_start: string
+          row_count: number
+          schedule_id: string | null
+          template_id: string
+        }
+        Insert: {
+          created_at?: string
+          file_path: string
+          file_size?: number | null
+          filter_summary?: string | null
+          filters?: Json
+          format: string
+          generated_by?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          period_end: string
+          period_start: string
+          row_count?: number
+          schedule_id?: string | null
+          template_id: string
+        }
+        Update: {
+          created_at?: string
+          file_path?: string
+          file_size?: number | null
+          filter_summary?: string | null
+          filters?: Json
+          format?: string
+          generated_by?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          period_end?: string
+          period_start?: string
+          row_count?: number
+          schedule_id?: string | null
+          template_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "generated_reports_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "generated_reports_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "report_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      git_integrations: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_active: boolean
+          last_event_at: string | null
+          name: string
+          organization_id: string
+          pr_merged_status: string | null
+          pr_opened_status: string | null
+          provider: string
+          secret: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          last_event_at?: string | null
+          name: string
+          organization_id: string
+          pr_merged_status?: string | null
+          pr_opened_status?: string | null
+          provider: string
+          secret?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_active?: boolean
+          last_event_at?: string | null
+          name?: string
+          organization_id?: string
+          pr_merged_status?: string | null
+          pr_opened_status?: string | null
+          provider?: string
+          secret?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "git_integrations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invite_codes: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string
+          expires_at: string
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          organization_id: string
+          used_count: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by: string
+          expires_at?: string
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          organization_id: string
+          used_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string
+          expires_at?: string
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          organization_id?: string
+          used_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invite_codes_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          amount_due: number
+          amount_paid: number
+          created_at: string | null
+          currency: string
+          hosted_invoice_url: string | null
+          id: string
+          invoice_pdf: string | null
+          organization_id: string
+          period_end: string | null
+          period_start: string | null
+          status: string
+          stripe_invoice_id: string
+        }
+        Insert: {
+          amount_due: number
+          amount_paid: number
+          created_at?: string | null
+          currency?: string
+          hosted_invoice_url?: string | null
+          id?: string
+          invoice_pdf?: string | null
+          organization_id: string
+          period_end?: string | null
+          period_start?: string | null
+          status: string
+          stripe_invoice_id: string
+        }
+        Update: {
+          amount_due?: number
+          amount_paid?: number
+          created_at?: string | null
+          currency?: string
+          hosted_invoice_url?: string | null
+          id?: string
+          invoice_pdf?: string | null
+          organization_id?: string
+          period_end?: string | null
+          period_start?: string | null
+          status?: string
+          stripe_invoice_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          channels: Json
+          created_at: string
+          digest_frequency: string
+          digest_hour: number
+          digest_weekday: number
+          id: string
+          last_digest_at: string | null
+          last_digest_error: string | null
+          next_digest_at: string | null
+          organization_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channels?: Json
+          created_at?: string
+          digest_frequency?: string
+          digest_hour?: number
+          digest_weekday?: number
+          id?: string
+          last_digest_at?: string | null
+          last_digest_error?: string | null
+          next_digest_at?: string | null
+          organization_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channels?: Json
+          created_at?: string
+          digest_frequency?: string
+          digest_hour?: number
+          digest_weekday?: number
+          id?: string
+          last_digest_at?: string | null
+          last_digest_error?: string | null
+          next_digest_at?: string | null
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_preferences_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          actor_id: string | null
+          body: string | null
+          created_at: string
+          email: boolean
+          id: string
+          in_app: boolean
+          link: string | null
+          organization_id: string
+          read_at: string | null
+          task_id: string | null
+          timesheet_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          body?: string | null
+          created_at?: string
+          email?: boolean
+          id?: string
+          in_app?: boolean
+          link?: string | null
+          organization_id: string
+          read_at?: string | null
+          task_id?: string | null
+          timesheet_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          body?: string | null
+          created_at?: string
+          email?: boolean
+          id?: string
+          in_app?: boolean
+          link?: string | null
+          organization_id?: string
+          read_at?: string | null
+          task_id?: string | null
+          timesheet_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_timesheet_id_fkey"
+            columns: ["timesheet_id"]
+            isOneToOne: false
+            referencedRelation: "timesheets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          default_work_hours_per_week: number
+          deleted_at: string | null
+          id: string
+          name: string
+          slug: string
+          timesheet_approval_enabled: boolean
+          timesheet_approver_role: string
+          timezone: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          default_work_hours_per_week?: number
+          deleted_at?: string | null
+          id?: string
+          name: string
+          slug: string
+          timesheet_approval_enabled?: boolean
+          timesheet_approver_role?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          default_work_hours_per_week?: number
+          deleted_at?: string | null
+          id?: string
+          name?: string
+          slug?: string
+          timesheet_approval_enabled?: boolean
+          timesheet_approver_role?: string
+          timezone?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      pomodoro_sessions: {
+        Row: {
+          break_count: number | null
+          completed_at: string | null
+          created_at: string | null
+          focus_count: number | null
+          id: string
+          organization_id: string | null
+          task_id: string | null
+          user_id: string
+        }
+        Insert: {
+          break_count?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          focus_count?: number | null
+          id?: string
+          organization_id?: string | null
+          task_id?: string | null
+          user_id: string
+        }
+        Update: {
+          break_count?: number | null
+          completed_at?: string | null
+          created_at?: string | null
+          focus_count?: number | null
+          id?: string
+          organization_id?: string | null
+          task_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pomodoro_sessions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pomodoro_sessions_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_budget_alerts: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          budget_amount: number
+          budget_id: string
+          consumed: number
+          created_at: string
+          id: string
+          organization_id: string
+          phase_id: string | null
+          project_id: string
+          threshold: number
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          budget_amount: number
+          budget_id: string
+          consumed: number
+          created_at?: string
+          id?: string
+          organization_id: string
+          phase_id?: string | null
+          project_id: string
+          threshold: number
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          budget_amount?: number
+          budget_id?: string
+          consumed?: number
+          created_at?: string
+          id?: string
+          organization_id?: string
+          phase_id?: string | null
+          project_id?: string
+          threshold?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_budget_alerts_budget_id_fkey"
+            columns: ["budget_id"]
+            isOneToOne: false
+            referencedRelation: "project_budgets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_budget_alerts_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_budget_alerts_phase_id_fkey"
+            columns: ["phase_id"]
+            isOneToOne: false
+            referencedRelation: "project_budget_phases"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_budget_alerts_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_budget_phases: {
+        Row: {
+          amount: number
+          budget_id: string
+          created_at: string
+          end_date: string
+          id: string
+          name: string
+          position: number
+          start_date: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          budget_id: string
+          created_at?: string
+          end_date: string
+          id?: string
+          name: string
+          position?: number
+          start_date: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          budget_id?: string
+          created_at?: string
+          end_date?: string
+          id?: string
+          name?: string
+          position?: number
+          start_date?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_budget_phases_budget_id_fkey"
+            columns: ["budget_id"]
+            isOneToOne: false
+            referencedRelation: "project_budgets"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_budgets: {
+        Row: {
+          amount: number
+          budget_type: string
+          created_at: string
+          created_by: string | null
+          currency: string | null
+          id: string
+          organization_id: string
+          project_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          budget_type: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          id?: string
+          organization_id: string
+          project_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          budget_type?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string | null
+          id?: string
+          organization_id?: string
+          project_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_budgets_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_budgets_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      project_teams: {
+        Row: {
+          assigned_at: string
+          id: string
+          project_id: string
+          team_id: string
+        }
+        Insert: {
+          assigned_at?: string
+          id?: string
+          project_id: string
+          team_id: string
+        }
+        Update: {
+          assigned_at?: string
+          id?: string
+          project_id?: string
+          team_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "project_teams_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "project_teams_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      projects: {
+        Row: {
+          client_id: string | null
+          code: string
+          created_at: string
+          deleted_at: string | null
+          description: string | null
+          end_date: string | null
+          enforce_blockers: boolean
+          id: string
+          is_billable: boolean
+          name: string
+          organization_id: string
+          start_date: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          client_id?: string | null
+          code: string
+          created_at?: string
+          deleted_at?: string | null
+          description?: string | null
+          end_date?: string | null
+          enforce_blockers?: boolean
+          id?: string
+          is_billable?: boolean
+          name: string
+          organization_id: string
+          start_date?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          client_id?: string | null
+          code?: string
+          created_at?: string
+          deleted_at?: string | null
+          description?: string | null
+          end_date?: string | null
+          enforce_blockers?: boolean
+          id?: string
+          is_billable?: boolean
+          name?: string
+          organization_id?: string
+          start_date?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "projects_client_id_fkey"
+            columns: ["client_id"]
+            isOneToOne: false
+            referencedRelation: "clients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "projects_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_cards: {
+        Row: {
+          bill_rate: number | null
+          cost_rate: number | null
+          created_at: string
+          created_by: string | null
+          currency: string
+          effective_from: string
+          id: string
+          organization_id: string
+          project_id: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          bill_rate?: number | null
+          cost_rate?: number | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          effective_from?: string
+          id?: string
+          organization_id: string
+          project_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          bill_rate?: number | null
+          cost_rate?: number | null
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          effective_from?: string
+          id?: string
+          organization_id?: string
+          project_id?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "rate_cards_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_cards_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      report_schedules: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          day_of_month: number | null
+          filters: Json
+          format: string
+          frequency: string
+          hour: number
+          id: string
+          is_active: boolean
+          last_error: string | null
+          last_run_at: string | null
+          name: string
+          next_run_at: string | null
+          organization_id: string
+          period: string
+          recipients: string[]
+          template_id: string
+          updated_at: string
+          weekday: number | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          day_of_month?: number | null
+          filters?: Json
+          format?: string
+          frequency: string
+          hour?: number
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          name: string
+          next_run_at?: string | null
+          organization_id: string
+          period: string
+          recipients?: string[]
+          template_id: string
+          updated_at?: string
+          weekday?: number | null
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          day_of_month?: number | null
+          filters?: Json
+          format?: string
+          frequency?: string
+          hour?: number
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_run_at?: string | null
+          name?: string
+          next_run_at?: string | null
+          organization_id?: string
+          period?: string
+          recipients?: string[]
+          template_id?: string
+          updated_at?: string
+          weekday?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "report_schedules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sprint_tasks: {
+        Row: {
+          added_after_start: boolean
+          added_at: string
+          added_by: string | null
+          carried_over_from: string | null
+          committed_hours: number | null
+          completed_hours: number | null
+          id: string
+          outcome: string | null
+          sprint_id: string
+          task_id: string
         }
         Insert: {
-          break_count?: number | null
+          added_after_start?: boolean
+          added_at?: string
+          added_by?: string | null
+          carried_over_from?: string | null
+          committed_hours?: number | null
+          completed_hours?: number | null
+          id?: string
+          outcome?: string | null
+          sprint_id: string
+          task_id: string
+        }
+        Update: {
+          added_after_start?: boolean
+          added_at?: string
+          added_by?: string | null
+          carried_over_from?: string | null
+          committed_hours?: number | null
+          completed_hours?: number | null
+          id?: string
+          outcome?: string | null
+          sprint_id?: string
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sprint_tasks_carried_over_from_fkey"
+            columns: ["carried_over_from"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_tasks_sprint_id_fkey"
+            columns: ["sprint_id"]
+            isOneToOne: false
+            referencedRelation: "sprints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprint_tasks_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sprints: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          end_date: string
+          goal: string | null
+          id: string
+          name: string
+          organization_id: string
+          project_id: string | null
+          start_date: string
+          status: string
+          team_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          goal?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          project_id?: string | null
+          start_date: string
+          status?: string
+          team_id?: string | null
+          updated_at?: string
+        }
+        Update: {
           completed_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          goal?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          project_id?: string | null
+          start_date?: string
+          status?: string
+          team_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sprints_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprints_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sprints_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          cancel_at_period_end: boolean | null
+          canceled_at: string | null
+          created_at: string
+          current_period_end: string | null
+          current_period_start: string | null
+          id: string
+          organization_id: string
+          plan: string
+          status: string
+          stripe_customer_id: string | null
+          stripe_price_id: string | null
+          stripe_subscription_id: string | null
+          trial_end: string | null
+          trial_start: string | null
+          updated_at: string
+        }
+        Insert: {
+          cancel_at_period_end?: boolean | null
+          canceled_at?: string | null
+          created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
+          id?: string
+          organization_id: string
+          plan?: string
+          status?: string
+          stripe_customer_id?: string | null
+          stripe_price_id?: string | null
+          stripe_subscription_id?: string | null
+          trial_end?: string | null
+          trial_start?: string | null
+          updated_at?: string
+        }
+        Update: {
+          cancel_at_period_end?: boolean | null
+          canceled_at?: string | null
+          created_at?: string
+          current_period_end?: string | null
+          current_period_start?: string | null
+          id?: string
+          organization_id?: string
+          plan?: string
+          status?: string
+          stripe_customer_id?: string | null
+          stripe_price_id?: string | null
+          stripe_subscription_id?: string | null
+          trial_end?: string | null
+          trial_start?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: true
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_attachments: {
+        Row: {
+          created_at: string | null
+          deleted_at: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          file_url: string
+          id: string
+          task_id: string
+          uploaded_by: string
+        }
+        Insert: {
           created_at?: string | null
-          focus_count?: number | null
+          deleted_at?: string | null
+          file_name: string
+          file_size: number
+          file_type: string
+          file_url: string
           id?: string
-          task_id?: string | null
+          task_id: string
+          uploaded_by: string
+        }
+        Update: {
+          created_at?: string | null
+          deleted_at?: string | null
+          file_name?: string
+          file_size?: number
+          file_type?: string
+          file_url?: string
+          id?: string
+          task_id?: string
+          uploaded_by?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_attachments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_comments: {
+        Row: {
+          content: string
+          created_at: string | null
+          deleted_at: string | null
+          id: string
+          mentioned_users: string[] | null
+          task_id: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          content: string
+          created_at?: string | null
+          deleted_at?: string | null
+          id?: string
+          mentioned_users?: string[] | null
+          task_id: string
+          updated_at?: string | null
           user_id: string
         }
         Update: {
-          break_count?: number | null
-          completed_at?: string | null
+          content?: string
           created_at?: string | null
-          focus_count?: number | null
+          deleted_at?: string | null
           id?: string
-          task_id?: string | null
+          mentioned_users?: string[] | null
+          task_id?: string
+          updated_at?: string | null
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "pomodoro_sessions_task_id_fkey"
+            foreignKeyName: "task_comments_task_id_fkey"
             columns: ["task_id"]
             isOneToOne: false
             referencedRelation: "tasks"
@@ -238,194 +1574,209 @@ export type Database = {
           },
         ]
       }
-      project_teams: {
+      task_git_links: {
         Row: {
-          assigned_at: string
+          author: string | null
+          branch: string | null
+          created_at: string
+          external_id: string
           id: string
-          project_id: string
-          team_id: string
+          integration_id: string | null
+          kind: string
+          occurred_at: string
+          organization_id: string
+          provider: string
+          repository: string
+          state: string | null
+          task_id: string
+          title: string
+          updated_at: string
+          url: string | null
         }
         Insert: {
-          assigned_at?: string
+          author?: string | null
+          branch?: string | null
+          created_at?: string
+          external_id: string
           id?: string
-          project_id: string
-          team_id: string
+          integration_id?: string | null
+          kind: string
+          occurred_at: string
+          organization_id: string
+          provider: string
+          repository: string
+          state?: string | null
+          task_id: string
+          title: string
+          updated_at?: string
+          url?: string | null
         }
         Update: {
-          assigned_at?: string
+          author?: string | null
+          branch?: string | null
+          created_at?: string
+          external_id?: string
           id?: string
-          project_id?: string
-          team_id?: string
+          integration_id?: string | null
+          kind?: string
+          occurred_at?: string
+          organization_id?: string
+          provider?: string
+          repository?: string
+          state?: string | null
+          task_id?: string
+          title?: string
+          updated_at?: string
+          url?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "project_teams_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "task_git_links_integration_id_fkey"
+            columns: ["integration_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "git_integrations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_git_links_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "project_teams_team_id_fkey"
-            columns: ["team_id"]
+            foreignKeyName: "task_git_links_task_id_fkey"
+            columns: ["task_id"]
             isOneToOne: false
-            referencedRelation: "teams"
+            referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
         ]
       }
-      projects: {
+      task_links: {
         Row: {
-          code: string
           created_at: string
-          deleted_at: string | null
-          description: string | null
-          end_date: string | null
+          created_by: string | null
           id: string
-          is_billable: boolean
-          name: string
+          link_type: string
           organization_id: string
-          start_date: string | null
-          status: string
-          updated_at: string
+          source_task_id: string
+          target_task_id: string
         }
         Insert: {
-          code: string
           created_at?: string
-          deleted_at?: string | null
-          description?: string | null
-          end_date?: string | null
+          created_by?: string | null
           id?: string
-          is_billable?: boolean
-          name: string
+          link_type: string
           organization_id: string
-          start_date?: string | null
-          status?: string
-          updated_at?: string
+          source_task_id: string
+          target_task_id: string
         }
         Update: {
-          code?: string
           created_at?: string
-          deleted_at?: string | null
-          description?: string | null
-          end_date?: string | null
+          created_by?: string | null
           id?: string
-          is_billable?: boolean
-          name?: string
+          link_type?: string
           organization_id?: string
-          start_date?: string | null
-          status?: string
-          updated_at?: string
+          source_task_id?: string
+          target_task_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "projects_organization_id_fkey"
+            foreignKeyName: "task_links_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "task_links_source_task_id_fkey"
+            columns: ["source_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "task_links_target_task_id_fkey"
+            columns: ["target_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      subscriptions: {
+      task_views: {
         Row: {
-          cancel_at_period_end: boolean | null
-          canceled_at: string | null
+          columns: string[]
           created_at: string
-          current_period_end: string | null
-          current_period_start: string | null
+          created_by: string
+          filters: Json
+          group_by: string | null
           id: string
+          name: string
           organization_id: string
-          plan: string
-          status: string
-          stripe_customer_id: string | null
-          stripe_price_id: string | null
-          stripe_subscription_id: string | null
-          trial_end: string | null
-          trial_start: string | null
+          sort: Json
           updated_at: string
+          visibility: string
         }
         Insert: {
-          cancel_at_period_end?: boolean | null
-          canceled_at?: string | null
+          columns?: string[]
           created_at?: string
-          current_period_end?: string | null
-          current_period_start?: string | null
+          created_by: string
+          filters?: Json
+          group_by?: string | null
           id?: string
+          name: string
           organization_id: string
-          plan?: string
-          status?: string
-          stripe_customer_id?: string | null
-          stripe_price_id?: string | null
-          stripe_subscription_id?: string | null
-          trial_end?: string | null
-          trial_start?: string | null
+          sort?: Json
           updated_at?: string
+          visibility?: string
         }
         Update: {
-          cancel_at_period_end?: boolean | null
-          canceled_at?: string | null
+          columns?: string[]
           created_at?: string
-          current_period_end?: string | null
-          current_period_start?: string | null
+          created_by?: string
+          filters?: Json
+          group_by?: string | null
           id?: string
+          name?: string
           organization_id?: string
-          plan?: string
-          status?: string
-          stripe_customer_id?: string | null
-          stripe_price_id?: string | null
-          stripe_subscription_id?: string | null
-          trial_end?: string | null
-          trial_start?: string | null
+          sort?: Json
           updated_at?: string
+          visibility?: string
         }
         Relationships: [
           {
-            foreignKeyName: "subscriptions_organization_id_fkey"
+            foreignKeyName: "task_views_organization_id_fkey"
             columns: ["organization_id"]
-            isOneToOne: true
+            isOneToOne: false
             referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
-      task_attachments: {
+      task_watchers: {
         Row: {
           created_at: string | null
-          deleted_at: string | null
-          file_name: string
-          file_size: number
-          file_type: string
-          file_url: string
           id: string
           task_id: string
-          uploaded_by: string
+          user_id: string
         }
         Insert: {
           created_at?: string | null
-          deleted_at?: string | null
-          file_name: string
-          file_size: number
-          file_type: string
-          file_url: string
           id?: string
           task_id: string
-          uploaded_by: string
+          user_id: string
         }
         Update: {
           created_at?: string | null
-          deleted_at?: string | null
-          file_name?: string
-          file_size?: number
-          file_type?: string
-          file_url?: string
           id?: string
           task_id?: string
-          uploaded_by?: string
+          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_attachments_task_id_fkey"
+            foreignKeyName: "task_watchers_task_id_fkey"
             columns: ["task_id"]
             isOneToOne: false
             referencedRelation: "tasks"
@@ -433,227 +1784,320 @@ export type Database = {
           },
         ]
       }
-      task_comments: {
+      tasks: {
         Row: {
-          content: string
+          actual_hours: number | null
+          assigned_to: string | null
+          board_position: number
+          code: string
+          completed_at: string | null
           created_at: string | null
+          created_by: string
           deleted_at: string | null
+          description: string | null
+          due_date: string | null
+          estimated_hours: number | null
           id: string
-          mentioned_users: string[] | null
-          task_id: string
+          next_instance_id: string | null
+          organization_id: string
+          parent_task_id: string | null
+          priority: string
+          project_id: string | null
+          recurrence_rule: string | null
+          recurrence_series_id: string | null
+          start_date: string | null
+          status: string
+          status_category: string
+          task_type: string
+          title: string
           updated_at: string | null
-          user_id: string
         }
         Insert: {
-          content: string
+          actual_hours?: number | null
+          assigned_to?: string | null
+          board_position?: number
+          code: string
+          completed_at?: string | null
           created_at?: string | null
+          created_by: string
           deleted_at?: string | null
+          description?: string | null
+          due_date?: string | null
+          estimated_hours?: number | null
           id?: string
-          mentioned_users?: string[] | null
-          task_id: string
+          next_instance_id?: string | null
+          organization_id: string
+          parent_task_id?: string | null
+          priority?: string
+          project_id?: string | null
+          recurrence_rule?: string | null
+          recurrence_series_id?: string | null
+          start_date?: string | null
+          status?: string
+          status_category?: string
+          task_type?: string
+          title: string
           updated_at?: string | null
-          user_id: string
         }
         Update: {
-          content?: string
+          actual_hours?: number | null
+          assigned_to?: string | null
+          board_position?: number
+          code?: string
+          completed_at?: string | null
           created_at?: string | null
+          created_by?: string
           deleted_at?: string | null
+          description?: string | null
+          due_date?: string | null
+          estimated_hours?: number | null
           id?: string
-          mentioned_users?: string[] | null
-          task_id?: string
+          next_instance_id?: string | null
+          organization_id?: string
+          parent_task_id?: string | null
+          priority?: string
+          project_id?: string | null
+          recurrence_rule?: string | null
+          recurrence_series_id?: string | null
+          start_date?: string | null
+          status?: string
+          status_category?: string
+          task_type?: string
+          title?: string
           updated_at?: string | null
-          user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_comments_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "tasks_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_next_instance_id_fkey"
+            columns: ["next_instance_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_parent_task_id_fkey"
+            columns: ["parent_task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_recurrence_series_id_fkey"
+            columns: ["recurrence_series_id"]
             isOneToOne: false
             referencedRelation: "tasks"
             referencedColumns: ["id"]
           },
         ]
       }
-      task_watchers: {
+      team_members: {
         Row: {
-          created_at: string | null
           id: string
-          task_id: string
+          joined_at: string
+          team_id: string
+          team_role: string
           user_id: string
         }
         Insert: {
-          created_at?: string | null
           id?: string
-          task_id: string
+          joined_at?: string
+          team_id: string
+          team_role: string
           user_id: string
         }
         Update: {
-          created_at?: string | null
           id?: string
-          task_id?: string
+          joined_at?: string
+          team_id?: string
+          team_role?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "task_watchers_task_id_fkey"
-            columns: ["task_id"]
+            foreignKeyName: "team_members_team_id_fkey"
+            columns: ["team_id"]
+            isOneToOne: false
+            referencedRelation: "teams"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      teams: {
+        Row: {
+          created_at: string
+          deleted_at: string | null
+          description: string | null
+          id: string
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          deleted_at?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "teams_organization_id_fkey"
+            columns: ["organization_id"]
             isOneToOne: false
-            referencedRelation: "tasks"
+            referencedRelation: "organizations"
             referencedColumns: ["id"]
           },
         ]
       }
-      tasks: {
+      template_tasks: {
         Row: {
-          actual_hours: number | null
-          assigned_to: string | null
-          code: string
-          completed_at: string | null
-          created_at: string | null
-          created_by: string
-          deleted_at: string | null
           description: string | null
-          due_date: string | null
+          due_offset_days: number | null
           estimated_hours: number | null
           id: string
-          organization_id: string
-          parent_task_id: string | null
+          parent_id: string | null
+          position: number
           priority: string
-          project_id: string | null
-          status: string
+          start_offset_days: number | null
           task_type: string
+          template_id: string
           title: string
-          updated_at: string | null
         }
         Insert: {
-          actual_hours?: number | null
-          assigned_to?: string | null
-          code: string
-          completed_at?: string | null
-          created_at?: string | null
-          created_by: string
-          deleted_at?: string | null
           description?: string | null
-          due_date?: string | null
+          due_offset_days?: number | null
           estimated_hours?: number | null
           id?: string
-          organization_id: string
-          parent_task_id?: string | null
-          priority?: string
-          project_id?: string | null
-          status?: string
-          task_type?: string
+          parent_id?: string | null
+          position?: number
+          priority: string
+          start_offset_days?: number | null
+          task_type: string
+          template_id: string
           title: string
-          updated_at?: string | null
         }
         Update: {
-          actual_hours?: number | null
-          assigned_to?: string | null
-          code?: string
-          completed_at?: string | null
-          created_at?: string | null
-          created_by?: string
-          deleted_at?: string | null
           description?: string | null
-          due_date?: string | null
+          due_offset_days?: number | null
           estimated_hours?: number | null
           id?: string
-          organization_id?: string
-          parent_task_id?: string | null
+          parent_id?: string | null
+          position?: number
           priority?: string
-          project_id?: string | null
-          status?: string
+          start_offset_days?: number | null
           task_type?: string
+          template_id?: string
           title?: string
-          updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "tasks_organization_id_fkey"
-            columns: ["organization_id"]
-            isOneToOne: false
-            referencedRelation: "organizations"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "tasks_parent_task_id_fkey"
-            columns: ["parent_task_id"]
+            foreignKeyName: "template_tasks_parent_id_fkey"
+            columns: ["parent_id"]
             isOneToOne: false
-            referencedRelation: "tasks"
+            referencedRelation: "template_tasks"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "tasks_project_id_fkey"
-            columns: ["project_id"]
+            foreignKeyName: "template_tasks_template_id_fkey"
+            columns: ["template_id"]
             isOneToOne: false
-            referencedRelation: "projects"
+            referencedRelation: "templates"
             referencedColumns: ["id"]
           },
         ]
       }
-      team_members: {
+      template_teams: {
         Row: {
           id: string
-          joined_at: string
           team_id: string
-          team_role: string
-          user_id: string
+          template_id: string
         }
         Insert: {
           id?: string
-          joined_at?: string
           team_id: string
-          team_role: string
-          user_id: string
+          template_id: string
         }
         Update: {
           id?: string
-          joined_at?: string
           team_id?: string
-          team_role?: string
-          user_id?: string
+          template_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "team_members_team_id_fkey"
+            foreignKeyName: "template_teams_team_id_fkey"
             columns: ["team_id"]
             isOneToOne: false
             referencedRelation: "teams"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "template_teams_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "templates"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      teams: {
+      templates: {
         Row: {
           created_at: string
-          deleted_at: string | null
+          created_by: string | null
           description: string | null
           id: string
+          kind: string
           name: string
           organization_id: string
           updated_at: string
         }
         Insert: {
           created_at?: string
-          deleted_at?: string | null
+          created_by?: string | null
           description?: string | null
           id?: string
+          kind: string
           name: string
           organization_id: string
           updated_at?: string
         }
         Update: {
           created_at?: string
-          deleted_at?: string | null
+          created_by?: string | null
           description?: string | null
           id?: string
+          kind?: string
           name?: string
           organization_id?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "teams_organization_id_fkey"
+            foreignKeyName: "templates_organization_id_fkey"
             columns: ["organization_id"]
             isOneToOne: false
             referencedRelation: "organizations"
@@ -665,6 +2109,7 @@ export type Database = {
         Row: {
           approved_at: string | null
           approved_by: string | null
+          client_invoice_id: string | null
           created_at: string | null
           deleted_at: string | null
           description: string | null
@@ -684,6 +2129,7 @@ export type Database = {
         Insert: {
           approved_at?: string | null
           approved_by?: string | null
+          client_invoice_id?: string | null
           created_at?: string | null
           deleted_at?: string | null
           description?: string | null
@@ -703,6 +2149,7 @@ export type Database = {
         Update: {
           approved_at?: string | null
           approved_by?: string | null
+          client_invoice_id?: string | null
           created_at?: string | null
           deleted_at?: string | null
           description?: string | null
@@ -720,6 +2167,13 @@ export type Database = {
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "time_entries_client_invoice_id_fkey"
+            columns: ["client_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "client_invoices"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "time_entries_organization_id_fkey"
             columns: ["organization_id"]
@@ -743,6 +2197,53 @@ export type Database = {
           },
         ]
       }
+      time_off: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          end_date: string
+          id: string
+          kind: string
+          note: string | null
+          organization_id: string
+          start_date: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          end_date: string
+          id?: string
+          kind?: string
+          note?: string | null
+          organization_id: string
+          start_date: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          end_date?: string
+          id?: string
+          kind?: string
+          note?: string | null
+          organization_id?: string
+          start_date?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "time_off_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       timesheet_entries: {
         Row: {
           created_at: string | null
@@ -868,10 +2369,262 @@ export type Database = {
         }
         Relationships: [
           {
-            foreignKeyName: "user_organizations_organization_id_fkey"
-            columns: ["organization_id"]
+            foreignKeyName: "user_organizations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_settings: {
+        Row: {
+          created_at: string | null
+          idle_threshold_minutes: number
+          pomodoro_auto_advance: boolean
+          pomodoro_focus_minutes: number
+          pomodoro_long_break_interval: number
+          pomodoro_long_break_minutes: number
+          pomodoro_short_break_minutes: number
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          idle_threshold_minutes?: number
+          pomodoro_auto_advance?: boolean
+          pomodoro_focus_minutes?: number
+          pomodoro_long_break_interval?: number
+          pomodoro_long_break_minutes?: number
+          pomodoro_short_break_minutes?: number
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          idle_threshold_minutes?: number
+          pomodoro_auto_advance?: boolean
+          pomodoro_focus_minutes?: number
+          pomodoro_long_break_interval?: number
+          pomodoro_long_break_minutes?: number
+          pomodoro_short_break_minutes?: number
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      webhook_deliveries: {
+        Row: {
+          attempt_count: number
+          created_at: string
+          duration_ms: number | null
+          endpoint_id: string
+          error: string | null
+          event_id: string
+          event_type: string
+          id: string
+          last_attempt_at: string | null
+          next_attempt_at: string | null
+          organization_id: string
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+        }
+        Insert: {
+          attempt_count?: number
+          created_at?: string
+          duration_ms?: number | null
+          endpoint_id: string
+          error?: string | null
+          event_id: string
+          event_type: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
+          organization_id: string
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+        }
+        Update: {
+          attempt_count?: number
+          created_at?: string
+          duration_ms?: number | null
+          endpoint_id?: string
+          error?: string | null
+          event_id?: string
+          event_type?: string
+          id?: string
+          last_attempt_at?: string | null
+          next_attempt_at?: string | null
+          organization_id?: string
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          events: string[]
+          id: string
+          is_active: boolean
+          organization_id: string
+          secret: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          events: string[]
+          id?: string
+          is_active?: boolean
+          organization_id: string
+          secret?: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          events?: string[]
+          id?: string
+          is_active?: boolean
+          organization_id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_statuses: {
+        Row: {
+          category: string
+          color: string
+          created_at: string
+          id: string
+          key: string
+          name: string
+          organization_id: string
+          position: number
+          project_id: string
+          updated_at: string
+          wip_limit: number | null
+        }
+        Insert: {
+          category: string
+          color?: string
+          created_at?: string
+          id?: string
+          key: string
+          name: string
+          organization_id: string
+          position?: number
+          project_id: string
+          updated_at?: string
+          wip_limit?: number | null
+        }
+        Update: {
+          category?: string
+          color?: string
+          created_at?: string
+          id?: string
+          key?: string
+          name?: string
+          organization_id?: string
+          position?: number
+          project_id?: string
+          updated_at?: string
+          wip_limit?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_statuses_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workflow_statuses_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workflow_transitions: {
+        Row: {
+          from_status: string
+          id: string
+          project_id: string
+          to_status: string
+        }
+        Insert: {
+          from_status: string
+          id?: string
+          project_id: string
+          to_status: string
+        }
+        Update: {
+          from_status?: string
+          id?: string
+          project_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workflow_transitions_project_id_from_status_fkey"
+            columns: ["project_id", "from_status"]
             isOneToOne: false
-            referencedRelation: "organizations"
+            referencedRelation: "workflow_statuses"
+            referencedColumns: ["project_id", "key"]
+          },
+          {
+            foreignKeyName: "workflow_transitions_project_id_to_status_fkey"
+            columns: ["project_id", "to_status"]
+            isOneToOne: false
+            referencedRelation: "workflow_statuses"
+            referencedColumns: ["project_id", "key"]
+          },
+          {
+            foreignKeyName: "workflow_transitions_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
             referencedColumns: ["id"]
           },
         ]
@@ -885,6 +2638,49 @@ export type Database = {
         Args: { p_task_id: string; p_user_ids: string[] }
         Returns: undefined
       }
+      advance_pomodoro: {
+        Args: { p_org_id: string; p_phase_started_at: string }
+        Returns: {
+          created_at: string | null
+          description: string
+          duration_seconds: number | null
+          id: string
+          is_billable: boolean
+          is_paused: boolean
+          organization_id: string
+          paused_at: string | null
+          pomodoro_session_id: string | null
+          project_id: string | null
+          segments: Json
+          started_at: string
+          task_id: string | null
+          timer_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "active_timers"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      authenticate_api_token: {
+        Args: { p_token_hash: string }
+        Returns: {
+          kind: string
+          organization_id: string
+          request_count: number
+          scopes: string[]
+          token_id: string
+          user_id: string
+          window_resets_at: string
+        }[]
+      }
+      bulk_update_tasks: {
+        Args: { p_changes: Json; p_task_ids: string[] }
+        Returns: number
+      }
       calculate_duration_seconds: {
         Args: { p_end_time: string; p_start_time: string }
         Returns: number
@@ -896,6 +2692,23 @@ export type Database = {
           total_hours: number
         }[]
       }
+      can_manage_project: {
+        Args: { p_project_id: string; p_user_id: string }
+        Returns: boolean
+      }
+      can_manage_sprint: {
+        Args: {
+          p_organization_id: string
+          p_project_id: string
+          p_team_id: string
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      check_project_budget_alerts: {
+        Args: { p_project_id: string }
+        Returns: undefined
+      }
       check_project_limit: { Args: { p_org_id: string }; Returns: boolean }
       check_subscription_limit: {
         Args: { p_org_id: string; p_resource_type: string }
@@ -920,6 +2733,100 @@ export type Database = {
         }
         Returns: boolean
       }
+      claim_due_digests: {
+        Args: { p_limit?: number }
+        Returns: {
+          channels: Json
+          email: string
+          frequency: string
+          local_date: string
+          organization_id: string
+          organization_name: string
+          preference_id: string
+          since: string
+          user_id: string
+        }[]
+      }
+      claim_due_report_schedules: {
+        Args: { p_limit?: number }
+        Returns: {
+          filters: Json
+          format: string
+          name: string
+          organization_id: string
+          organization_name: string
+          period_end: string
+          period_end_date: string
+          period_start: string
+          period_start_date: string
+          recipients: string[]
+          schedule_id: string
+          template_id: string
+        }[]
+      }
+      claim_webhook_deliveries: {
+        Args: { p_delivery_id?: string; p_limit?: number }
+        Returns: {
+          attempt_count: number
+          delivery_id: string
+          endpoint_id: string
+          event_id: string
+          event_type: string
+          payload: Json
+          secret: string
+          url: string
+        }[]
+      }
+      complete_sprint: {
+        Args: {
+          p_next_sprint_id?: string
+          p_sprint_id: string
+        }
+        Returns: {
+          completed_at: string | null
+          created_at: string
+          created_by: string | null
+          end_date: string
+          goal: string | null
+          id: string
+          name: string
+          organization_id: string
+          project_id: string | null
+          start_date: string
+          status: string
+          team_id: string | null
+          updated_at: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "sprints"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      create_api_token: {
+        Args: {
+          p_expires_at?: string
+          p_kind: string
+          p_name: string
+          p_org_id: string
+          p_scopes: string[]
+        }
+        Returns: string
+      }
+      create_notifications: {
+        Args: {
+          p_body: string
+          p_link: string
+          p_org_id: string
+          p_task_id?: string
+          p_timesheet_id?: string
+          p_title: string
+          p_type: string
+          p_user_ids: string[]
+        }
+        Returns: undefined
+      }
       create_organization_atomic: {
         Args: { p_org_name: string; p_timezone: string; p_user_id: string }
         Returns: Json
@@ -928,9 +2835,50 @@ export type Database = {
         Args: { p_org_name: string; p_timezone: string; p_user_id: string }
         Returns: string
       }
+      discard_active_timer: { Args: { p_org_id: string }; Returns: undefined }
       end_trial: { Args: { p_org_id: string }; Returns: boolean }
       extract_mentions: { Args: { p_content: string }; Returns: string[] }
       format_duration: { Args: { p_seconds: number }; Returns: string }
+      generate_client_invoice: {
+        Args: {
+          p_client_id: string
+          p_due_date?: string
+          p_group_by?: string
+          p_notes?: string
+          p_period_end: string
+          p_period_start: string
+          p_tax_lines?: Json
+        }
+        Returns: {
+          client_id: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          due_date: string
+          group_by: string
+          id: string
+          invoice_number: string | null
+          issue_date: string
+          notes: string | null
+          organization_id: string
+          paid_at: string | null
+          period_end: string
+          period_start: string
+          sent_at: string | null
+          status: string
+          subtotal: number
+          tax_total: number
+          total: number
+          updated_at: string
+          voided_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "client_invoices"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       generate_invite_code: { Args: never; Returns: string }
       generate_project_code: { Args: { p_org_id: string }; Returns: string }
       generate_task_code: {
@@ -964,6 +2912,42 @@ export type Database = {
           task_id: string
         }[]
       }
+      get_project_budget_burn: {
+        Args: { p_project_id: string }
+        Returns: {
+          amount: number
+          day: string
+          hours: number
+        }[]
+      }
+      get_sprint_stats: {
+        Args: {
+          p_from?: string
+          p_limit?: number
+          p_organization_id: string
+          p_project_id?: string
+          p_team_id?: string
+          p_to?: string
+        }
+        Returns: {
+          added_hours: number
+          added_tasks: number
+          carried_in_tasks: number
+          carried_over_hours: number
+          carried_over_tasks: number
+          committed_hours: number
+          committed_tasks: number
+          completed_hours: number
+          completed_tasks: number
+          end_date: string
+          name: string
+          project_id: string
+          sprint_id: string
+          start_date: string
+          status: string
+          team_id: string
+        }[]
+      }
       get_subscription_usage: {
         Args: { p_org_id: string }
         Returns: {
@@ -981,6 +2965,7 @@ export type Database = {
           assignee_email: string
           assignee_name: string
           attachment_count: number
+          board_position: number
           code: string
           comment_count: number
           completed_at: string
@@ -1000,6 +2985,7 @@ export type Database = {
           project_id: string
           project_name: string
           status: string
+          status_category: string
           subtask_count: number
           task_type: string
           title: string
@@ -1016,6 +3002,18 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_time_entry_financials: {
+        Args: { p_entry_ids: string[] }
+        Returns: {
+          bill_currency: string
+          bill_rate: number
+          cost: number
+          cost_currency: string
+          cost_rate: number
+          revenue: number
+          time_entry_id: string
+        }[]
+      }
       get_user_email: { Args: { p_user_id: string }; Returns: string }
       get_user_org_ids: {
         Args: { p_user_id: string }
@@ -1030,6 +3028,30 @@ export type Database = {
           role: string
         }[]
       }
+      get_user_settings: {
+        Args: never
+        Returns: {
+          created_at: string | null
+          idle_threshold_minutes: number
+          pomodoro_auto_advance: boolean
+          pomodoro_focus_minutes: number
+          pomodoro_long_break_interval: number
+          pomodoro_long_break_minutes: number
+          pomodoro_short_break_minutes: number
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "user_settings"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      instantiate_template: {
+        Args: { p_base_date?: string; p_project_id: string; p_template_id: string }
+        Returns: string
+      }
       is_org_admin: {
         Args: { p_org_id: string; p_user_id: string }
         Returns: boolean
@@ -1042,9 +3064,272 @@ export type Database = {
         Args: { p_invite_code: string; p_user_id: string }
         Returns: string
       }
+      log_active_timer_segments: {
+        Args: {
+          p_description: string
+          p_end_time: string
+          p_is_billable: boolean
+          p_max_seconds?: number
+          p_project_id: string
+          p_task_id: string
+          p_timer: Database["public"]["Tables"]["active_timers"]["Row"]
+        }
+        Returns: string[]
+      }
+      next_recurrence_date: {
+        Args: { p_after: string; p_rule: string }
+        Returns: string
+      }
+      next_report_run_at: {
+        Args: {
+          p_after: string
+          p_day_of_month: number
+          p_frequency: string
+          p_hour: number
+          p_timezone: string
+          p_weekday: number
+        }
+        Returns: string
+      }
+      notification_channel_enabled: {
+        Args: { p_channel: string; p_channels: Json; p_type: string }
+        Returns: boolean
+      }
+      pause_active_timer: {
+        Args: { p_org_id: string }
+        Returns: {
+          created_at: string | null
+          description: string
+          duration_seconds: number | null
+          id: string
+          is_billable: boolean
+          is_paused: boolean
+          organization_id: string
+          paused_at: string | null
+          pomodoro_session_id: string | null
+          project_id: string | null
+          segments: Json
+          started_at: string
+          task_id: string | null
+          timer_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "active_timers"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      project_workflow_statuses: {
+        Args: { p_project_id: string }
+        Returns: {
+          category: string
+          color: string
+          key: string
+          name: string
+          position: number
+          wip_limit: number
+        }[]
+      }
       redact_sensitive_fields: { Args: { p_values: Json }; Returns: Json }
+      report_period_bounds: {
+        Args: { p_now: string; p_period: string; p_timezone: string }
+        Returns: {
+          end_at: string
+          end_date: string
+          start_at: string
+          start_date: string
+        }[]
+      }
       reset_database_for_org: { Args: { p_org_id: string }; Returns: string }
+      resolve_active_timer_idle: {
+        Args: {
+          p_action: string
+          p_idle_started_at: string
+          p_org_id: string
+        }
+        Returns: {
+          created_at: string | null
+          description: string
+          duration_seconds: number | null
+          id: string
+          is_billable: boolean
+          is_paused: boolean
+          organization_id: string
+          paused_at: string | null
+          pomodoro_session_id: string | null
+          project_id: string | null
+          segments: Json
+          started_at: string
+          task_id: string | null
+          timer_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "active_timers"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      resolve_rate: {
+        Args: {
+          p_kind: string
+          p_on: string
+          p_org_id: string
+          p_project_id: string
+          p_user_id: string
+        }
+        Returns: {
+          currency: string
+          rate: number
+        }[]
+      }
+      resume_active_timer: {
+        Args: { p_org_id: string }
+        Returns: {
+          created_at: string | null
+          description: string
+          duration_seconds: number | null
+          id: string
+          is_billable: boolean
+          is_paused: boolean
+          organization_id: string
+          paused_at: string | null
+          pomodoro_session_id: string | null
+          project_id: string | null
+          segments: Json
+          started_at: string
+          task_id: string | null
+          timer_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "active_timers"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
+      revoke_api_token: { Args: { p_token_id: string }; Returns: undefined }
+      save_project_as_template: {
+        Args: { p_description?: string; p_name: string; p_project_id: string }
+        Returns: string
+      }
+      save_project_workflow: {
+        Args: { p_project_id: string; p_statuses: Json; p_transitions?: Json }
+        Returns: undefined
+      }
+      save_task_as_template: {
+        Args: { p_description?: string; p_name: string; p_task_id: string }
+        Returns: string
+      }
+      search_everything: {
+        Args: { p_limit?: number; p_org_id: string; p_query: string }
+        Returns: {
+          code: string
+          id: string
+          kind: string
+          project_id: string
+          rank: number
+          subtitle: string
+          task_id: string
+          title: string
+        }[]
+      }
+      search_tsquery: { Args: { p_query: string }; Returns: unknown }
+      send_test_webhook: {
+        Args: { p_endpoint_id: string }
+        Returns: string
+      }
+      set_project_enforce_blockers: {
+        Args: { p_enabled: boolean; p_project_id: string }
+        Returns: undefined
+      }
+      start_active_timer: {
+        Args: {
+          p_duration_seconds?: number
+          p_org_id: string
+          p_project_id?: string
+          p_task_id?: string
+          p_timer_type: string
+        }
+        Returns: {
+          created_at: string | null
+          description: string
+          duration_seconds: number | null
+          id: string
+          is_billable: boolean
+          is_paused: boolean
+          organization_id: string
+          paused_at: string | null
+          pomodoro_session_id: string | null
+          project_id: string | null
+          segments: Json
+          started_at: string
+          task_id: string | null
+          timer_type: string
+          updated_at: string | null
+          user_id: string
+        }
+        SetofOptions: {
+          from: "*"
+          to: "active_timers"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       start_trial: { Args: { p_org_id: string }; Returns: boolean }
+      stop_active_timer: {
+        Args: {
+          p_description: string
+          p_end_time?: string
+          p_is_billable: boolean
+          p_org_id: string
+          p_project_id: string
+          p_task_id: string
+        }
+        Returns: string[]
+      }
+      update_client_invoice_status: {
+        Args: {
+          p_invoice_id: string
+          p_status: string
+        }
+        Returns: {
+          client_id: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          due_date: string
+          group_by: string
+          id: string
+          invoice_number: string | null
+          issue_date: string
+          notes: string | null
+          organization_id: string
+          paid_at: string | null
+          period_end: string
+          period_start: string
+          sent_at: string | null
+          status: string
+          subtotal: number
+          tax_total: number
+          total: number
+          updated_at: string
+          voided_at: string | null
+        }
+        SetofOptions: {
+          from: "*"
+          to: "client_invoices"
+          isOneToOne: true
+          isSetofReturn: false
+        }
+      }
       update_task_actual_hours: {
         Args: { p_task_id: string }
         Returns: undefined
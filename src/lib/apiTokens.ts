@@ -0,0 +1,54 @@
+// Shared with the api edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { Database } from "../integrations/supabase/types.ts";
+
+export type ApiToken = Database["public"]["Tables"]["api_tokens"]["Row"];
+export type ApiTokenKind = "personal" | "organization";
+
+export type ApiScope =
+  | "read:projects"
+  | "read:tasks"
+  | "write:tasks"
+  | "read:time_entries"
+  | "write:time_entries"
+  | "read:timesheets"
+  | "write:timesheets";
+
+// Kept in sync with the CHECK on api_tokens.scopes
+export const API_SCOPES: Record<ApiScope, string> = {
+  "read:projects": "List and read projects",
+  "read:tasks": "List and read tasks",
+  "write:tasks": "Create and update tasks",
+  "read:time_entries": "List and read time entries",
+  "write:time_entries": "Log and delete time entries",
+  "read:timesheets": "List and read timesheets",
+  "write:timesheets": "Submit timesheets",
+};
+
+export const API_TOKEN_KIND_LABELS: Record<ApiTokenKind, string> = {
+  personal: "Personal access token",
+  organization: "Organization API key",
+};
+
+/** Days until a new token expires; null never expires */
+export const API_TOKEN_EXPIRY_OPTIONS: { label: string; days: number | null }[] = [
+  { label: "30 days", days: 30 },
+  { label: "90 days", days: 90 },
+  { label: "1 year", days: 365 },
+  { label: "No expiry", days: null },
+];
+
+/** Requests per token and minute */
+export const API_RATE_LIMIT = 120;
+
+/** Hex SHA-256 of a token, as stored in api_tokens.token_hash */
+export async function hashApiToken(token: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(token));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+export function apiTokenState(token: ApiToken, now = new Date()): "active" | "expired" | "revoked" {
+  if (token.revoked_at) return "revoked";
+  if (token.expires_at && new Date(token.expires_at) <= now) return "expired";
+  return "active";
+}
@@ -0,0 +1,149 @@
+import { addDays, differenceInCalendarDays, format, max as maxDate, parseISO, startOfDay, subDays } from 'date-fns';
+import type { Tables } from '@/integrations/supabase/types';
+
+export type ProjectBudget = Tables<'project_budgets'>;
+export type BudgetPhase = Tables<'project_budget_phases'>;
+
+export const BUDGET_THRESHOLDS = [50, 80, 100];
+
+// Burn rate used for projections: average over the trailing window
+const BURN_RATE_WINDOW_DAYS = 28;
+// Don't chart projections further out than this
+const MAX_PROJECTION_DAYS = 365;
+
+export interface BurnDay {
+  day: string;
+  hours: number;
+  amount: number | null;
+}
+
+export interface BurnDownPoint {
+  date: string;
+  remaining?: number;
+  ideal?: number;
+  projected?: number;
+}
+
+export interface BudgetUsage {
+  consumed: number;
+  remaining: number;
+  percentage: number;
+}
+
+export interface BurnDown {
+  points: BurnDownPoint[];
+  dailyBurnRate: number;
+  exhaustedOn: Date | null;
+}
+
+/** Consumption per day in the budget's unit (hours or money). */
+function consumedOn(day: BurnDay, budget: ProjectBudget): number {
+  return budget.budget_type === 'money' ? Number(day.amount || 0) : Number(day.hours);
+}
+
+export function budgetUsage(budget: ProjectBudget, amount: number, days: BurnDay[], phase?: BudgetPhase): BudgetUsage {
+  const consumed = days
+    .filter(day => !phase || (day.day >= phase.start_date && day.day <= phase.end_date))
+    .reduce((sum, day) => sum + consumedOn(day, budget), 0);
+
+  return {
+    consumed,
+    remaining: amount - consumed,
+    percentage: amount > 0 ? (consumed / amount) * 100 : 0,
+  };
+}
+
+export function formatBudgetAmount(budget: ProjectBudget, value: number): string {
+  if (budget.budget_type === 'hours') return `${value.toFixed(1)}h`;
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency: budget.currency || 'USD' }).format(value);
+}
+
+/**
+ * Builds the burn-down series from the first day of the project (or of
+ * tracked time) through the planned end and the projected exhaustion date.
+ * The ideal line runs from the full budget on the start date to zero on the
+ * project's end date.
+ */
+export function buildBurnDown(
+  budget: ProjectBudget,
+  days: BurnDay[],
+  startDate: string | null,
+  endDate: string | null,
+  now: Date = new Date()
+): BurnDown {
+  const today = startOfDay(now);
+  const byDay = new Map(days.map(day => [day.day, consumedOn(day, budget)]));
+  const firstTracked = days.length > 0 ? parseISO(days[0].day) : today;
+  const start = startDate ? parseISO(startDate) : firstTracked;
+  const end = endDate ? parseISO(endDate) : null;
+  const amount = Number(budget.amount);
+
+  const windowStart = maxDate([start, subDays(today, BURN_RATE_WINDOW_DAYS - 1)]);
+  const windowDays = Math.max(differenceInCalendarDays(today, windowStart) + 1, 1);
+  const windowConsumed = days
+    .filter(day => parseISO(day.day) >= windowStart && parseISO(day.day) <= today)
+    .reduce((sum, day) => sum + consumedOn(day, budget), 0);
+  const dailyBurnRate = windowConsumed / windowDays;
+
+  // Time tracked before the start date still counts against the budget
+  const earlier = days
+    .filter(day => parseISO(day.day) < start)
+    .reduce((sum, day) => sum + consumedOn(day, budget), 0);
+
+  const points: BurnDownPoint[] = [];
+  let remaining = amount - earlier;
+  for (let date = start; date <= today; date = addDays(date, 1)) {
+    remaining -= byDay.get(format(date, 'yyyy-MM-dd')) || 0;
+    points.push({ date: format(date, 'yyyy-MM-dd'), remaining: Math.round(remaining * 100) / 100 });
+  }
+
+  let exhaustedOn: Date | null = null;
+  if (remaining <= 0) {
+    exhaustedOn = today;
+  } else if (dailyBurnRate > 0) {
+    exhaustedOn = addDays(today, Math.ceil(remaining / dailyBurnRate));
+  }
+
+  const projectionEnd = exhaustedOn && differenceInCalendarDays(exhaustedOn, today) <= MAX_PROJECTION_DAYS
+    ? exhaustedOn
+    : null;
+  const lastDay = maxDate([today, end || today, projectionEnd || today]);
+
+  for (let date = addDays(today, 1); date <= lastDay; date = addDays(date, 1)) {
+    points.push({ date: format(date, 'yyyy-MM-dd') });
+  }
+
+  const totalDays = end ? differenceInCalendarDays(end, start) : 0;
+  points.forEach(point => {
+    const date = parseISO(point.date);
+    if (end && totalDays > 0 && date <= end) {
+      point.ideal = Math.round(amount * (1 - differenceInCalendarDays(date, start) / totalDays) * 100) / 100;
+    }
+    if (projectionEnd && date >= today && date <= projectionEnd) {
+      point.projected = Math.max(
+        Math.round((remaining - dailyBurnRate * differenceInCalendarDays(date, today)) * 100) / 100,
+        0
+      );
+    }
+  });
+
+  return { points, dailyBurnRate, exhaustedOn };
+}
+
+/**
+ * Projects when the open work finishes: the remaining estimated hours of
+ * unfinished tasks at the recent hourly burn rate.
+ */
+export function projectCompletion(remainingHours: number, days: BurnDay[], now: Date = new Date()): Date | null {
+  const today = startOfDay(now);
+  if (remainingHours <= 0) return today;
+
+  const windowStart = subDays(today, BURN_RATE_WINDOW_DAYS - 1);
+  const recentHours = days
+    .filter(day => parseISO(day.day) >= windowStart && parseISO(day.day) <= today)
+    .reduce((sum, day) => sum + Number(day.hours), 0);
+  const hoursPerDay = recentHours / BURN_RATE_WINDOW_DAYS;
+
+  if (hoursPerDay <= 0) return null;
+  return addDays(today, Math.ceil(remainingHours / hoursPerDay));
+}
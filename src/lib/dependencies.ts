@@ -0,0 +1,135 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../integrations/supabase/types.ts";
+
+export type TaskLink = Database["public"]["Tables"]["task_links"]["Row"];
+export type LinkType = "blocks" | "relates" | "duplicates";
+
+/** A link as read from one of its tasks */
+export type LinkRelation = "blocks" | "blocked_by" | "relates" | "duplicates" | "duplicated_by";
+
+export const LINK_RELATION_LABELS: Record<LinkRelation, string> = {
+  blocks: "Blocks",
+  blocked_by: "Is blocked by",
+  relates: "Relates to",
+  duplicates: "Duplicates",
+  duplicated_by: "Is duplicated by",
+};
+
+export interface LinkedTask {
+  id: string;
+  code: string;
+  title: string;
+  status: string;
+  status_category: string;
+  project_id: string | null;
+}
+
+export function linkRelation(link: TaskLink, taskId: string): LinkRelation {
+  const outgoing = link.source_task_id === taskId;
+  switch (link.link_type) {
+    case "blocks":
+      return outgoing ? "blocks" : "blocked_by";
+    case "duplicates":
+      return outgoing ? "duplicates" : "duplicated_by";
+    default:
+      return "relates";
+  }
+}
+
+/** Row to insert for "<taskId> <relation> <otherId>" */
+export function linkFor(relation: LinkRelation, taskId: string, otherId: string) {
+  switch (relation) {
+    case "blocked_by":
+      return { source_task_id: otherId, target_task_id: taskId, link_type: "blocks" as LinkType };
+    case "duplicated_by":
+      return { source_task_id: otherId, target_task_id: taskId, link_type: "duplicates" as LinkType };
+    default:
+      return { source_task_id: taskId, target_task_id: otherId, link_type: relation as LinkType };
+  }
+}
+
+export function isOpen(task: Pick<LinkedTask, "status_category">): boolean {
+  return task.status_category !== "done" && task.status_category !== "archived";
+}
+
+/** Open tasks holding up taskId; the server gate checks the same */
+export function openBlockers(taskId: string, links: TaskLink[], tasks: Map<string, LinkedTask>): LinkedTask[] {
+  return links
+    .filter(link => link.link_type === "blocks" && link.target_task_id === taskId)
+    .map(link => tasks.get(link.source_task_id))
+    .filter((task): task is LinkedTask => !!task && isOpen(task));
+}
+
+/**
+ * Links touching the project's tasks, plus every task on either end.
+ * Tasks of other projects come along so cross-project links still show.
+ */
+export async function fetchProjectLinks(
+  client: SupabaseClient<Database>,
+  organizationId: string,
+  projectId: string
+): Promise<{ links: TaskLink[]; tasks: Map<string, LinkedTask> }> {
+  const [{ data: projectTasks, error }, { data: orgLinks, error: linksError }] = await Promise.all([
+    client
+      .from("tasks")
+      .select("id, code, title, status, status_category, project_id")
+      .eq("project_id", projectId)
+      .is("deleted_at", null),
+    client
+      .from("task_links")
+      .select("*")
+      .eq("organization_id", organizationId),
+  ]);
+
+  if (error) throw error;
+  if (linksError) throw linksError;
+
+  const tasks = new Map<string, LinkedTask>((projectTasks || []).map(task => [task.id, task]));
+  const links = (orgLinks || []).filter(link => tasks.has(link.source_task_id) || tasks.has(link.target_task_id));
+
+  const missing = [...new Set(links.flatMap(link => [link.source_task_id, link.target_task_id]))]
+    .filter(id => !tasks.has(id));
+
+  if (missing.length > 0) {
+    const { data: others, error: othersError } = await client
+      .from("tasks")
+      .select("id, code, title, status, status_category, project_id")
+      .in("id", missing)
+      .is("deleted_at", null);
+
+    if (othersError) throw othersError;
+    for (const task of others || []) tasks.set(task.id, task);
+  }
+
+  // Links to deleted tasks stay in the table until the row goes
+  return { links: links.filter(link => tasks.has(link.source_task_id) && tasks.has(link.target_task_id)), tasks };
+}
+
+/**
+ * Column for each task in a left-to-right graph: a task sits one column
+ * after the furthest task blocking it. The database keeps "blocks" links
+ * acyclic; anything left over after the topological pass goes last.
+ */
+export function dependencyLayers(taskIds: string[], links: TaskLink[]): Map<string, number> {
+  const blocks = links.filter(link => link.link_type === "blocks");
+  const incoming = new Map(taskIds.map(id => [id, 0]));
+  for (const link of blocks) incoming.set(link.target_task_id, (incoming.get(link.target_task_id) || 0) + 1);
+
+  const layers = new Map<string, number>();
+  const queue = taskIds.filter(id => incoming.get(id) === 0);
+  for (const id of queue) layers.set(id, 0);
+
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    for (const link of blocks.filter(l => l.source_task_id === id)) {
+      layers.set(link.target_task_id, Math.max(layers.get(link.target_task_id) || 0, layers.get(id)! + 1));
+      incoming.set(link.target_task_id, incoming.get(link.target_task_id)! - 1);
+      if (incoming.get(link.target_task_id) === 0) queue.push(link.target_task_id);
+    }
+  }
+
+  const last = Math.max(0, ...layers.values()) + 1;
+  for (const id of taskIds) if (!layers.has(id)) layers.set(id, last);
+
+  return layers;
+}
@@ -0,0 +1,340 @@
+// Shared with the send-digests edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { addDays, addWeeks, format, parseISO, startOfWeek, subWeeks } from "date-fns";
+import type { Database } from "../integrations/supabase/types.ts";
+import { channelEnabled, parseChannels, type DigestFrequency } from "./notificationPreferences.ts";
+
+type Client = SupabaseClient<Database>;
+
+export type DueDigest = Database["public"]["Functions"]["claim_due_digests"]["Returns"][number];
+
+export interface DigestTask {
+  id: string;
+  code: string;
+  title: string;
+  due_date: string;
+  project_name: string | null;
+}
+
+export interface DigestTimesheet {
+  id: string;
+  user_email: string;
+  week_start_date: string;
+  total_hours: number;
+}
+
+export interface DigestActivity {
+  title: string;
+  body: string | null;
+  link: string | null;
+  created_at: string;
+}
+
+export interface Digest {
+  organizationName: string;
+  frequency: DigestFrequency;
+  /** The recipient's organization-local day the digest was produced, yyyy-MM-dd */
+  localDate: string;
+  dueSoon: DigestTask[];
+  overdue: DigestTask[];
+  pendingApprovals: DigestTimesheet[];
+  /** Last week's timesheet when it still has to be submitted */
+  unsubmittedWeek: { weekStart: string; status: string | null; hours: number } | null;
+  activity: DigestActivity[];
+}
+
+const MAX_ITEMS = 50;
+
+function day(date: Date): string {
+  return format(date, "yyyy-MM-dd");
+}
+
+async function fetchOpenTasks(client: Client, due: DueDigest, until: string): Promise<DigestTask[]> {
+  const { data, error } = await client
+    .from("tasks")
+    .select("id, code, title, due_date, projects (name)")
+    .eq("organization_id", due.organization_id)
+    .eq("assigned_to", due.user_id)
+    .is("deleted_at", null)
+    .in("status_category", ["backlog", "active"])
+    .not("due_date", "is", null)
+    .lte("due_date", until)
+    .order("due_date")
+    .limit(MAX_ITEMS * 2);
+
+  if (error) throw error;
+
+  return (data || []).map((task) => ({
+    id: task.id,
+    code: task.code,
+    title: task.title,
+    due_date: task.due_date as string,
+    project_name: (task.projects as { name: string } | null)?.name ?? null,
+  }));
+}
+
+/**
+ * Timesheets the recipient may review: everything submitted for admins and
+ * managers, otherwise those of the teams they lead. Matches who gets the
+ * in-app "timesheet submitted" notification.
+ */
+async function fetchPendingApprovals(client: Client, due: DueDigest): Promise<DigestTimesheet[]> {
+  const { data: membership } = await client
+    .from("user_organizations")
+    .select("role")
+    .eq("organization_id", due.organization_id)
+    .eq("user_id", due.user_id)
+    .maybeSingle();
+
+  let submitters: string[] | null = null;
+
+  if (membership?.role !== "admin" && membership?.role !== "manager") {
+    const { data: leads, error: leadsError } = await client
+      .from("team_members")
+      .select("team_id, teams!inner(organization_id)")
+      .eq("user_id", due.user_id)
+      .eq("team_role", "tech_lead")
+      .eq("teams.organization_id", due.organization_id);
+    if (leadsError) throw leadsError;
+    if (!leads || leads.length === 0) return [];
+
+    const { data: members, error: membersError } = await client
+      .from("team_members")
+      .select("user_id")
+      .in("team_id", leads.map((lead) => lead.team_id));
+    if (membersError) throw membersError;
+
+    submitters = [...new Set((members || []).map((member) => member.user_id))];
+  }
+
+  let query = client
+    .from("timesheets")
+    .select("id, user_id, week_start_date, total_hours")
+    .eq("organization_id", due.organization_id)
+    .eq("status", "submitted")
+    .is("deleted_at", null)
+    .neq("user_id", due.user_id)
+    .order("submitted_at")
+    .limit(MAX_ITEMS);
+  if (submitters) query = query.in("user_id", submitters);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  if (!data || data.length === 0) return [];
+
+  const { data: members } = await client.rpc("get_org_members_with_emails", { p_org_id: due.organization_id });
+  const emails = new Map((members || []).map((member) => [member.user_id, member.email]));
+
+  return data.map((timesheet) => ({
+    id: timesheet.id,
+    user_email: emails.get(timesheet.user_id) || "Unknown user",
+    week_start_date: timesheet.week_start_date,
+    total_hours: Number(timesheet.total_hours) || 0,
+  }));
+}
+
+async function fetchUnsubmittedWeek(client: Client, due: DueDigest): Promise<Digest["unsubmittedWeek"]> {
+  const weekStart = subWeeks(startOfWeek(parseISO(due.local_date), { weekStartsOn: 1 }), 1);
+
+  const { data: timesheet, error } = await client
+    .from("timesheets")
+    .select("status, total_hours")
+    .eq("organization_id", due.organization_id)
+    .eq("user_id", due.user_id)
+    .eq("week_start_date", day(weekStart))
+    .is("deleted_at", null)
+    .maybeSingle();
+  if (error) throw error;
+
+  if (timesheet) {
+    if (timesheet.status === "submitted" || timesheet.status === "approved") return null;
+    return { weekStart: day(weekStart), status: timesheet.status, hours: Number(timesheet.total_hours) || 0 };
+  }
+
+  // No timesheet yet: only worth a reminder if time was logged that week
+  const { data: entries, error: entriesError } = await client
+    .from("time_entries")
+    .select("duration_seconds")
+    .eq("organization_id", due.organization_id)
+    .eq("user_id", due.user_id)
+    .is("deleted_at", null)
+    .gte("start_time", day(weekStart))
+    .lt("start_time", day(addWeeks(weekStart, 1)));
+  if (entriesError) throw entriesError;
+
+  const seconds = (entries || []).reduce((sum, entry) => sum + (entry.duration_seconds || 0), 0);
+  return seconds > 0 ? { weekStart: day(weekStart), status: null, hours: Math.round(seconds / 360) / 10 } : null;
+}
+
+async function fetchActivity(client: Client, due: DueDigest): Promise<DigestActivity[]> {
+  const { data, error } = await client
+    .from("notifications")
+    .select("title, body, link, created_at")
+    .eq("organization_id", due.organization_id)
+    .eq("user_id", due.user_id)
+    .eq("email", true)
+    .gt("created_at", due.since)
+    .order("created_at", { ascending: false })
+    .limit(MAX_ITEMS);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Gathers the sections the recipient wants by email */
+export async function collectDigest(client: Client, due: DueDigest): Promise<Digest> {
+  const channels = parseChannels(due.channels);
+  const wants = (type: Parameters<typeof channelEnabled>[1]) => channelEnabled(channels, type, "email");
+  const frequency = due.frequency as DigestFrequency;
+
+  const today = due.local_date;
+  // Daily digests look ahead to tomorrow, weekly ones to the coming week
+  const until = day(addDays(parseISO(today), frequency === "weekly" ? 7 : 1));
+
+  const [tasks, pendingApprovals, unsubmittedWeek, activity] = await Promise.all([
+    wants("due_soon") || wants("overdue") ? fetchOpenTasks(client, due, until) : Promise.resolve([]),
+    wants("pending_approvals") ? fetchPendingApprovals(client, due) : Promise.resolve([]),
+    wants("unsubmitted_timesheet") ? fetchUnsubmittedWeek(client, due) : Promise.resolve(null),
+    fetchActivity(client, due),
+  ]);
+
+  return {
+    organizationName: due.organization_name,
+    frequency,
+    localDate: today,
+    dueSoon: wants("due_soon") ? tasks.filter((task) => task.due_date >= today).slice(0, MAX_ITEMS) : [],
+    overdue: wants("overdue") ? tasks.filter((task) => task.due_date < today).slice(0, MAX_ITEMS) : [],
+    pendingApprovals,
+    unsubmittedWeek,
+    activity,
+  };
+}
+
+export function digestIsEmpty(digest: Digest): boolean {
+  return (
+    digest.dueSoon.length === 0 &&
+    digest.overdue.length === 0 &&
+    digest.pendingApprovals.length === 0 &&
+    !digest.unsubmittedWeek &&
+    digest.activity.length === 0
+  );
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function shortDate(value: string): string {
+  return format(parseISO(value), "MMM d");
+}
+
+interface DigestSection {
+  title: string;
+  items: { text: string; detail?: string | null; path?: string | null }[];
+}
+
+function digestSections(digest: Digest): DigestSection[] {
+  const sections: DigestSection[] = [];
+  const taskItem = (task: DigestTask) => ({
+    text: `${task.code} ${task.title}`,
+    detail: [`due ${shortDate(task.due_date)}`, task.project_name].filter(Boolean).join(" · "),
+    path: `/tasks/${task.id}`,
+  });
+
+  if (digest.overdue.length > 0) {
+    sections.push({ title: `Overdue (${digest.overdue.length})`, items: digest.overdue.map(taskItem) });
+  }
+  if (digest.dueSoon.length > 0) {
+    sections.push({
+      title: `Due ${digest.frequency === "weekly" ? "this week" : "soon"} (${digest.dueSoon.length})`,
+      items: digest.dueSoon.map(taskItem),
+    });
+  }
+  if (digest.pendingApprovals.length > 0) {
+    sections.push({
+      title: `Timesheets waiting for your review (${digest.pendingApprovals.length})`,
+      items: digest.pendingApprovals.map((timesheet) => ({
+        text: timesheet.user_email,
+        detail: `week of ${shortDate(timesheet.week_start_date)} · ${timesheet.total_hours.toFixed(1)}h`,
+        path: "/timesheets/approvals",
+      })),
+    });
+  }
+  if (digest.unsubmittedWeek) {
+    const { weekStart, status, hours } = digest.unsubmittedWeek;
+    sections.push({
+      title: "Your timesheet",
+      items: [{
+        text: status === "rejected"
+          ? `Your timesheet for the week of ${shortDate(weekStart)} was sent back and needs resubmitting`
+          : `Your timesheet for the week of ${shortDate(weekStart)} hasn't been submitted`,
+        detail: `${hours.toFixed(1)}h logged`,
+        path: `/timesheets?week=${weekStart}`,
+      }],
+    });
+  }
+  if (digest.activity.length > 0) {
+    sections.push({
+      title: `Activity (${digest.activity.length})`,
+      items: digest.activity.map((activity) => ({
+        text: activity.title,
+        detail: activity.body,
+        path: activity.link,
+      })),
+    });
+  }
+
+  return sections;
+}
+
+/**
+ * Plain text and HTML versions of the digest. Links are absolute when
+ * `appUrl` is known, otherwise they are left out.
+ */
+export function renderDigest(digest: Digest, appUrl?: string): { subject: string; text: string; html: string } {
+  const base = appUrl?.replace(/\/+$/, "");
+  const url = (path?: string | null) => (base && path ? `${base}${path}` : null);
+  const sections = digestSections(digest);
+  const period = digest.frequency === "weekly" ? "Weekly" : "Daily";
+  const subject = `${period} digest for ${digest.organizationName} (${shortDate(digest.localDate)})`;
+
+  const text = [
+    `${period} digest for ${digest.organizationName}`,
+    "",
+    ...sections.flatMap((section) => [
+      section.title,
+      ...section.items.flatMap((item) => [
+        `- ${item.text}${item.detail ? ` (${item.detail})` : ""}`,
+        ...(url(item.path) ? [`  ${url(item.path)}`] : []),
+      ]),
+      "",
+    ]),
+    "You can change what the digest contains, or turn it off, under Settings > Notifications.",
+  ].join("\n");
+
+  const html = [
+    `<h2 style="font-family:sans-serif">${escapeHtml(`${period} digest for ${digest.organizationName}`)}</h2>`,
+    ...sections.map((section) => [
+      `<h3 style="font-family:sans-serif;margin-bottom:4px">${escapeHtml(section.title)}</h3>`,
+      '<ul style="font-family:sans-serif;margin-top:0">',
+      ...section.items.map((item) => {
+        const link = url(item.path);
+        const label = escapeHtml(item.text);
+        return `<li>${link ? `<a href="${escapeHtml(link)}">${label}</a>` : label}${
+          item.detail ? ` <span style="color:#6b7280">${escapeHtml(item.detail)}</span>` : ""
+        }</li>`;
+      }),
+      "</ul>",
+    ].join("\n")),
+    '<p style="font-family:sans-serif;color:#6b7280;font-size:12px">',
+    "You can change what the digest contains, or turn it off, under Settings &gt; Notifications.",
+    "</p>",
+  ].join("\n");
+
+  return { subject, text, html };
+}
@@ -0,0 +1,416 @@
+// Shared with the git-webhook edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../integrations/supabase/types.ts";
+
+type Client = SupabaseClient<Database>;
+
+export type GitIntegration = Database["public"]["Tables"]["git_integrations"]["Row"];
+export type TaskGitLink = Database["public"]["Tables"]["task_git_links"]["Row"];
+export type GitProvider = "github" | "gitlab";
+export type PullRequestState = "open" | "closed" | "merged";
+
+export const GIT_PROVIDERS: Record<GitProvider, { label: string; events: string; secretHeader: string }> = {
+  github: { label: "GitHub", events: "Pushes and Pull requests", secretHeader: "X-Hub-Signature-256" },
+  gitlab: { label: "GitLab", events: "Push events and Merge request events", secretHeader: "X-Gitlab-Token" },
+};
+
+/** A commit or pull request from a webhook payload, with the task codes it mentions */
+export interface GitActivity {
+  kind: "commit" | "pull_request";
+  repository: string;
+  /** Commit SHA, or the pull/merge request number */
+  external_id: string;
+  title: string;
+  url: string | null;
+  author: string | null;
+  branch: string | null;
+  state: PullRequestState | null;
+  occurred_at: string;
+  task_codes: string[];
+  /** Set when a pull request was just opened (or marked ready) or merged */
+  transition: "opened" | "merged" | null;
+}
+
+export interface ParsedGitEvent {
+  /** e.g. "push" or "pull_request.closed", for the response and logs */
+  event: string;
+  activities: GitActivity[];
+}
+
+// ============================================================
+// Task codes
+// ============================================================
+
+// PROJ-0001-T001, and PROJ-0001-T001-S001 for subtasks, as generate_task_code() builds them
+const PROJECT_TASK_CODE = /(?<![A-Za-z0-9])[A-Za-z]+-\d+-T\d+(?:-S\d+)*(?![A-Za-z0-9])/gi;
+
+/**
+ * Task codes mentioned in a commit message, title or branch name. Matching
+ * ignores case, since branch names are often lowercase; personal tasks
+ * (<org slug>-PERSONAL-001) are only recognized for the given organization.
+ */
+export function extractTaskCodes(orgSlug: string, ...texts: (string | null | undefined)[]): string[] {
+  const personal = new RegExp(
+    `(?<![A-Za-z0-9])${orgSlug.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}-PERSONAL-(\\d+)(?![A-Za-z0-9])`,
+    "gi"
+  );
+  const codes = new Set<string>();
+
+  for (const text of texts) {
+    if (!text) continue;
+    for (const match of text.matchAll(PROJECT_TASK_CODE)) codes.add(match[0].toUpperCase());
+    for (const match of text.matchAll(personal)) codes.add(`${orgSlug}-PERSONAL-${match[1]}`);
+  }
+  return [...codes];
+}
+
+// ============================================================
+// Payloads: only the fields used here
+// ============================================================
+
+interface GitHubCommit {
+  id: string;
+  message: string;
+  timestamp: string;
+  url: string;
+  author?: { name?: string; username?: string };
+}
+
+interface GitHubPayload {
+  action?: string;
+  ref?: string;
+  deleted?: boolean;
+  commits?: GitHubCommit[];
+  repository?: { full_name: string };
+  pull_request?: {
+    number: number;
+    title: string;
+    body: string | null;
+    html_url: string;
+    state: "open" | "closed";
+    merged?: boolean;
+    draft?: boolean;
+    updated_at: string;
+    head: { ref: string };
+    user?: { login: string };
+  };
+}
+
+interface GitLabCommit {
+  id: string;
+  message: string;
+  title?: string;
+  timestamp: string;
+  url: string;
+  author?: { name?: string };
+}
+
+interface GitLabPayload {
+  object_kind?: string;
+  ref?: string;
+  commits?: GitLabCommit[];
+  project?: { path_with_namespace: string };
+  user?: { username?: string; name?: string };
+  object_attributes?: {
+    iid: number;
+    title: string;
+    description: string | null;
+    url: string;
+    state: "opened" | "closed" | "merged" | "locked";
+    action?: string;
+    source_branch: string;
+    updated_at: string;
+    draft?: boolean;
+    work_in_progress?: boolean;
+  };
+}
+
+function branchName(ref: string | undefined): string | null {
+  if (!ref?.startsWith("refs/heads/")) return null;
+  return ref.slice("refs/heads/".length);
+}
+
+function firstLine(message: string): string {
+  return message.split("\n", 1)[0].trim();
+}
+
+/** ISO timestamp; GitLab also sends "2025-11-04 10:00:00 UTC" */
+function timestamp(value: string | undefined): string {
+  const date = new Date(value || "");
+  if (!Number.isNaN(date.getTime())) return date.toISOString();
+
+  const fallback = new Date((value || "").replace(" UTC", "Z").replace(" ", "T"));
+  return Number.isNaN(fallback.getTime()) ? new Date().toISOString() : fallback.toISOString();
+}
+
+function commitActivity(
+  repository: string,
+  branch: string | null,
+  orgSlug: string,
+  commit: { id: string; message: string; url: string; timestamp: string; author: string | null }
+): GitActivity {
+  return {
+    kind: "commit",
+    repository,
+    external_id: commit.id,
+    title: firstLine(commit.message),
+    url: commit.url,
+    author: commit.author,
+    branch,
+    state: null,
+    occurred_at: timestamp(commit.timestamp),
+    // Commits on a task's branch belong to it even when the message doesn't say so
+    task_codes: extractTaskCodes(orgSlug, commit.message, branch),
+    transition: null,
+  };
+}
+
+function parseGitHub(eventName: string | null, payload: GitHubPayload, orgSlug: string): ParsedGitEvent {
+  const repository = payload.repository?.full_name || "";
+
+  if (eventName === "push") {
+    const branch = branchName(payload.ref);
+    const commits = payload.deleted ? [] : payload.commits || [];
+    return {
+      event: "push",
+      activities: commits.map(commit =>
+        commitActivity(repository, branch, orgSlug, {
+          id: commit.id,
+          message: commit.message,
+          url: commit.url,
+          timestamp: commit.timestamp,
+          author: commit.author?.username || commit.author?.name || null,
+        })
+      ),
+    };
+  }
+
+  if (eventName === "pull_request" && payload.pull_request) {
+    const pr = payload.pull_request;
+    const state: PullRequestState = pr.merged ? "merged" : pr.state;
+    let transition: GitActivity["transition"] = null;
+
+    if (payload.action === "closed" && pr.merged) {
+      transition = "merged";
+    } else if (["opened", "reopened", "ready_for_review"].includes(payload.action || "") && !pr.draft) {
+      transition = "opened";
+    }
+
+    return {
+      event: `pull_request.${payload.action}`,
+      activities: [{
+        kind: "pull_request",
+        repository,
+        external_id: String(pr.number),
+        title: pr.title,
+        url: pr.html_url,
+        author: pr.user?.login || null,
+        branch: pr.head.ref,
+        state,
+        occurred_at: timestamp(pr.updated_at),
+        task_codes: extractTaskCodes(orgSlug, pr.title, pr.body, pr.head.ref),
+        transition,
+      }],
+    };
+  }
+
+  return { event: eventName || "unknown", activities: [] };
+}
+
+function parseGitLab(payload: GitLabPayload, orgSlug: string): ParsedGitEvent {
+  const repository = payload.project?.path_with_namespace || "";
+
+  if (payload.object_kind === "push") {
+    const branch = branchName(payload.ref);
+    return {
+      event: "push",
+      activities: (payload.commits || []).map(commit =>
+        commitActivity(repository, branch, orgSlug, {
+          id: commit.id,
+          message: commit.message,
+          url: commit.url,
+          timestamp: commit.timestamp,
+          author: commit.author?.name || null,
+        })
+      ),
+    };
+  }
+
+  if (payload.object_kind === "merge_request" && payload.object_attributes) {
+    const mr = payload.object_attributes;
+    const isDraft = mr.draft ?? mr.work_in_progress ?? false;
+    let transition: GitActivity["transition"] = null;
+
+    if (mr.action === "merge") {
+      transition = "merged";
+    } else if ((mr.action === "open" || mr.action === "reopen") && !isDraft) {
+      transition = "opened";
+    }
+
+    return {
+      event: `merge_request.${mr.action || "update"}`,
+      activities: [{
+        kind: "pull_request",
+        repository,
+        external_id: String(mr.iid),
+        title: mr.title,
+        url: mr.url,
+        author: payload.user?.username || payload.user?.name || null,
+        branch: mr.source_branch,
+        state: mr.state === "merged" ? "merged" : mr.state === "opened" ? "open" : "closed",
+        occurred_at: timestamp(mr.updated_at),
+        task_codes: extractTaskCodes(orgSlug, mr.title, mr.description, mr.source_branch),
+        transition,
+      }],
+    };
+  }
+
+  return { event: payload.object_kind || "unknown", activities: [] };
+}
+
+/**
+ * Commits and pull requests in a webhook payload. `eventName` is the
+ * X-GitHub-Event header; GitLab payloads name their own kind. Other events
+ * (ping, issues, tags, ...) parse to no activities.
+ */
+export function parseGitEvent(
+  provider: GitProvider,
+  eventName: string | null,
+  payload: unknown,
+  orgSlug: string
+): ParsedGitEvent {
+  return provider === "github"
+    ? parseGitHub(eventName, payload as GitHubPayload, orgSlug)
+    : parseGitLab(payload as GitLabPayload, orgSlug);
+}
+
+// ============================================================
+// Verification
+// ============================================================
+
+function safeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+}
+
+/** Hex HMAC-SHA256 of the raw body, as GitHub sends it in X-Hub-Signature-256 */
+export async function signGitHubPayload(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(body));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Whether the request comes from the integration's repository host */
+export async function verifyGitWebhook(
+  provider: GitProvider,
+  secret: string,
+  headers: Headers,
+  body: string
+): Promise<boolean> {
+  if (provider === "gitlab") {
+    return safeEqual(headers.get("X-Gitlab-Token") || "", secret);
+  }
+  const signature = headers.get("X-Hub-Signature-256") || "";
+  return safeEqual(signature, `sha256=${await signGitHubPayload(secret, body)}`);
+}
+
+// ============================================================
+// Recording
+// ============================================================
+
+export interface GitActivitySummary {
+  /** Links created or updated */
+  linked: number;
+  /** Mentioned codes that match no task in the organization */
+  unknown_codes: string[];
+  transitions: { task: string; from: string; to: string }[];
+  /** Transitions the task's workflow refused, e.g. a WIP limit or open subtasks */
+  skipped: { task: string; to: string; reason: string }[];
+}
+
+/**
+ * Links the activities to the tasks they mention and applies the
+ * integration's status transitions. Runs with the service role: the
+ * workflow triggers still apply, but not RLS.
+ */
+export async function recordGitActivity(
+  client: Client,
+  integration: GitIntegration,
+  activities: GitActivity[]
+): Promise<GitActivitySummary> {
+  const summary: GitActivitySummary = { linked: 0, unknown_codes: [], transitions: [], skipped: [] };
+  const codes = [...new Set(activities.flatMap(activity => activity.task_codes))];
+  if (codes.length === 0) return summary;
+
+  const { data: tasks, error } = await client
+    .from("tasks")
+    .select("id, code, status, status_category")
+    .eq("organization_id", integration.organization_id)
+    .in("code", codes)
+    .is("deleted_at", null);
+  if (error) throw error;
+
+  const tasksByCode = new Map((tasks || []).map(task => [task.code, task]));
+  summary.unknown_codes = codes.filter(code => !tasksByCode.has(code));
+
+  const rows = activities.flatMap(activity =>
+    activity.task_codes
+      .filter(code => tasksByCode.has(code))
+      .map(code => ({
+        organization_id: integration.organization_id,
+        task_id: tasksByCode.get(code)!.id,
+        integration_id: integration.id,
+        provider: integration.provider,
+        kind: activity.kind,
+        repository: activity.repository,
+        external_id: activity.external_id,
+        title: activity.title,
+        url: activity.url,
+        author: activity.author,
+        branch: activity.branch,
+        state: activity.state,
+        occurred_at: activity.occurred_at,
+      }))
+  );
+  if (rows.length === 0) return summary;
+
+  const { error: linkError } = await client
+    .from("task_git_links")
+    .upsert(rows, { onConflict: "task_id,kind,repository,external_id" });
+  if (linkError) throw linkError;
+  summary.linked = rows.length;
+
+  for (const activity of activities) {
+    if (!activity.transition) continue;
+    const target = activity.transition === "merged" ? integration.pr_merged_status : integration.pr_opened_status;
+    if (!target) continue;
+
+    for (const code of activity.task_codes) {
+      const task = tasksByCode.get(code);
+      if (!task || task.status === target || task.status_category === "archived") continue;
+      // Opening a pull request doesn't reopen finished work
+      if (activity.transition === "opened" && task.status_category === "done") continue;
+
+      const { error: statusError } = await client.from("tasks").update({ status: target }).eq("id", task.id);
+      if (statusError) {
+        summary.skipped.push({ task: code, to: target, reason: statusError.message });
+        continue;
+      }
+
+      summary.transitions.push({ task: code, from: task.status, to: target });
+      task.status = target;
+    }
+  }
+
+  return summary;
+}
@@ -0,0 +1,97 @@
+import { jsPDF } from "jspdf";
+import autoTable from "jspdf-autotable";
+import { format } from "date-fns";
+import { formatMoney } from "@/lib/rates";
+import type { Tables } from "@/integrations/supabase/types";
+
+type LastTableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+
+export interface InvoicePdfData {
+  organizationName: string;
+  invoice: Tables<"client_invoices">;
+  client: Tables<"clients">;
+  lines: Tables<"client_invoice_lines">[];
+  taxes: Tables<"client_invoice_taxes">[];
+}
+
+function formatDate(date: string): string {
+  return format(new Date(`${date}T00:00:00`), "MMM d, yyyy");
+}
+
+export function invoiceTitle(invoice: Tables<"client_invoices">): string {
+  return invoice.invoice_number || "Draft invoice";
+}
+
+/**
+ * Renders the invoice to a PDF in the browser and triggers the download.
+ */
+export function downloadInvoicePdf({ organizationName, invoice, client, lines, taxes }: InvoicePdfData) {
+  const doc = new jsPDF();
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFontSize(20);
+  doc.text(invoice.status === "draft" ? "DRAFT INVOICE" : "INVOICE", 14, 22);
+  doc.setFontSize(10);
+  doc.text(organizationName, pageWidth - 14, 22, { align: "right" });
+
+  const details = [
+    `Invoice: ${invoiceTitle(invoice)}`,
+    `Issued: ${formatDate(invoice.issue_date)}`,
+    `Due: ${formatDate(invoice.due_date)}`,
+    `Period: ${formatDate(invoice.period_start)} – ${formatDate(invoice.period_end)}`,
+  ];
+  if (invoice.status === "void") details.push("Status: VOID");
+  doc.text(details, 14, 34);
+
+  const billTo = [client.name, ...(client.address ? client.address.split("\n") : [])];
+  if (client.tax_id) billTo.push(`Tax ID: ${client.tax_id}`);
+  if (client.email) billTo.push(client.email);
+  doc.setFont("helvetica", "bold");
+  doc.text("Bill to", pageWidth - 14, 34, { align: "right" });
+  doc.setFont("helvetica", "normal");
+  doc.text(billTo, pageWidth - 14, 39, { align: "right" });
+
+  autoTable(doc, {
+    startY: 40 + Math.max(details.length, billTo.length + 1) * 5,
+    head: [["Description", "Hours", "Rate", "Amount"]],
+    body: lines.map(line => [
+      line.description,
+      Number(line.hours).toFixed(2),
+      money(line.unit_price),
+      money(line.amount),
+    ]),
+    columnStyles: {
+      1: { halign: "right" },
+      2: { halign: "right" },
+      3: { halign: "right" },
+    },
+    headStyles: { fillColor: [40, 40, 40] },
+  });
+
+  const totals: string[][] = [
+    ["Subtotal", money(invoice.subtotal)],
+    ...taxes.map(tax => [`${tax.name} (${Number(tax.rate)}%)`, money(tax.amount)]),
+    ["Total", money(invoice.total)],
+  ];
+
+  autoTable(doc, {
+    startY: (doc as LastTableDoc).lastAutoTable.finalY + 4,
+    body: totals,
+    theme: "plain",
+    margin: { left: pageWidth / 2 },
+    columnStyles: { 1: { halign: "right" } },
+    didParseCell: (data) => {
+      if (data.row.index === totals.length - 1) {
+        data.cell.styles.fontStyle = "bold";
+      }
+    },
+  });
+
+  if (invoice.notes) {
+    doc.text(doc.splitTextToSize(invoice.notes, pageWidth - 28), 14, (doc as LastTableDoc).lastAutoTable.finalY + 10);
+  }
+
+  const fileName = invoice.invoice_number || `draft-${invoice.id.slice(0, 8)}`;
+  doc.save(`${fileName}.pdf`);
+}
@@ -0,0 +1,150 @@
+// Shared with the send-digests edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "../integrations/supabase/types.ts";
+
+export type NotificationPreferences = Database["public"]["Tables"]["notification_preferences"]["Row"];
+export type NotificationChannel = "in_app" | "email";
+export type DigestFrequency = "off" | "daily" | "weekly";
+
+export type NotificationEventType =
+  | "mention"
+  | "assigned"
+  | "status_changed"
+  | "timesheet_submitted"
+  | "timesheet_approved"
+  | "timesheet_rejected"
+  | "member_joined"
+  | "due_soon"
+  | "overdue"
+  | "pending_approvals"
+  | "unsubmitted_timesheet";
+
+export type ChannelSettings = Partial<Record<NotificationEventType, Partial<Record<NotificationChannel, boolean>>>>;
+
+interface NotificationEvent {
+  label: string;
+  description: string;
+  /** Activity happens in the app; digest events are summaries computed when the digest is sent */
+  group: "activity" | "digest";
+  channels: NotificationChannel[];
+}
+
+// Defaults are mirrored by notification_channel_enabled() in the database
+export const NOTIFICATION_EVENTS: Record<NotificationEventType, NotificationEvent> = {
+  mention: {
+    label: "Mentions",
+    description: "Someone mentions you in a comment",
+    group: "activity",
+    channels: ["in_app", "email"],
+  },
+  assigned: {
+    label: "Assignments",
+    description: "A task is assigned to you",
+    group: "activity",
+    channels: ["in_app", "email"],
+  },
+  status_changed: {
+    label: "Watched tasks",
+    description: "A task you watch changes status",
+    group: "activity",
+    channels: ["in_app", "email"],
+  },
+  timesheet_submitted: {
+    label: "Timesheet submitted",
+    description: "A timesheet you review is submitted",
+    group: "activity",
+    channels: ["in_app", "email"],
+  },
+  timesheet_approved: {
+    label: "Timesheet approved",
+    description: "Your timesheet is approved",
+    group: "activity",
+    channels: ["in_app", "email"],
+  },
+  timesheet_rejected: {
+    label: "Timesheet rejected",
+    description: "Your timesheet is sent back",
+    group: "activity",
+    channels: ["in_app", "email"],
+  },
+  member_joined: {
+    label: "New members",
+    description: "Someone joins the organization (admins)",
+    group: "activity",
+    channels: ["in_app", "email"],
+  },
+  due_soon: {
+    label: "Due soon",
+    description: "Your open tasks due in the digest period",
+    group: "digest",
+    channels: ["email"],
+  },
+  overdue: {
+    label: "Overdue",
+    description: "Your open tasks past their due date",
+    group: "digest",
+    channels: ["email"],
+  },
+  pending_approvals: {
+    label: "Pending approvals",
+    description: "Timesheets waiting for your review",
+    group: "digest",
+    channels: ["email"],
+  },
+  unsubmitted_timesheet: {
+    label: "Unsubmitted timesheet",
+    description: "Last week's timesheet hasn't been submitted",
+    group: "digest",
+    channels: ["email"],
+  },
+};
+
+export const CHANNEL_LABELS: Record<NotificationChannel, string> = {
+  in_app: "In-app",
+  email: "Email",
+};
+
+export const DIGEST_FREQUENCY_LABELS: Record<DigestFrequency, string> = {
+  off: "Off",
+  daily: "Daily",
+  weekly: "Weekly",
+};
+
+export function channelEnabled(channels: ChannelSettings, type: NotificationEventType, channel: NotificationChannel): boolean {
+  const event = NOTIFICATION_EVENTS[type];
+  if (!event.channels.includes(channel)) return false;
+
+  const value = channels[type]?.[channel];
+  if (typeof value === "boolean") return value;
+  return channel === "in_app" || event.group === "digest";
+}
+
+export function setChannel(
+  channels: ChannelSettings,
+  type: NotificationEventType,
+  channel: NotificationChannel,
+  enabled: boolean
+): ChannelSettings {
+  return { ...channels, [type]: { ...channels[type], [channel]: enabled } };
+}
+
+export function parseChannels(value: Json | null | undefined): ChannelSettings {
+  return value && typeof value === "object" && !Array.isArray(value) ? (value as ChannelSettings) : {};
+}
+
+export async function fetchNotificationPreferences(
+  client: SupabaseClient<Database>,
+  userId: string,
+  organizationId: string
+): Promise<NotificationPreferences | null> {
+  const { data, error } = await client
+    .from("notification_preferences")
+    .select("*")
+    .eq("user_id", userId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
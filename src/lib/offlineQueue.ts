@@ -0,0 +1,105 @@
+import type { Database, TablesInsert, TablesUpdate } from "@/integrations/supabase/types";
+
+// Time tracking writes made while offline are kept in an IndexedDB outbox
+// and replayed in the order they were queued once the connection is back.
+
+const DB_NAME = "devflow-offline";
+const DB_VERSION = 1;
+const STORE_NAME = "outbox";
+
+export type QueuedOperation =
+  | {
+      kind: "insert_time_entry";
+      values: TablesInsert<"time_entries">;
+    }
+  | {
+      kind: "update_time_entry";
+      entryId: string;
+      values: TablesUpdate<"time_entries">;
+    }
+  | {
+      kind: "stop_timer";
+      // Identifies the timer that was stopped so a stale stop never closes a newer timer
+      timerStartedAt: string;
+      args: Database["public"]["Functions"]["stop_active_timer"]["Args"];
+    };
+
+export type OutboxStatus = "pending" | "conflict" | "failed";
+
+export interface OutboxItem {
+  id: number;
+  userId: string;
+  operation: QueuedOperation;
+  status: OutboxStatus;
+  error: string | null;
+  queuedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id", autoIncrement: true });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function runTransaction<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = action(transaction.objectStore(STORE_NAME));
+
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function enqueueOperation(userId: string, operation: QueuedOperation): Promise<number> {
+  const item: Omit<OutboxItem, "id"> = {
+    userId,
+    operation,
+    status: "pending",
+    error: null,
+    queuedAt: new Date().toISOString(),
+  };
+
+  const key = await runTransaction("readwrite", store => store.add(item));
+  return key as number;
+}
+
+// Items come back in queue order because keys are auto-incremented
+export async function getQueuedOperations(userId: string): Promise<OutboxItem[]> {
+  const items = await runTransaction<OutboxItem[]>("readonly", store => store.getAll());
+  return items.filter(item => item.userId === userId);
+}
+
+export async function updateQueuedOperation(item: OutboxItem): Promise<void> {
+  await runTransaction("readwrite", store => store.put(item));
+}
+
+export async function removeQueuedOperation(id: number): Promise<void> {
+  await runTransaction("readwrite", store => store.delete(id));
+}
+
+// supabase-js reports a dropped connection as a fetch failure rather than an HTTP status
+export function isNetworkError(error: { message?: string } | null | undefined): boolean {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|load failed|fetch failed|network request failed/i.test(error?.message || "");
+}
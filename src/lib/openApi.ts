@@ -0,0 +1,299 @@
+// Shared with the api edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import { API_RATE_LIMIT, API_SCOPES, type ApiScope } from "./apiTokens.ts";
+import { API_VERSION, DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "./restApi.ts";
+
+// Describes the routes in restApi.ts; update both together.
+
+type Schema = Record<string, unknown>;
+
+const string = (description?: string, format?: string): Schema => ({ type: "string", format, description });
+const nullable = (schema: Schema): Schema => ({ ...schema, nullable: true });
+const ref = (name: string): Schema => ({ $ref: `#/components/schemas/${name}` });
+
+function object(properties: Record<string, Schema>, required: string[] = []): Schema {
+  return { type: "object", properties, required: required.length > 0 ? required : undefined };
+}
+
+const uuid = string(undefined, "uuid");
+const timestamp = string(undefined, "date-time");
+const date = string(undefined, "date");
+
+const SCHEMAS: Record<string, Schema> = {
+  Project: object({
+    id: uuid,
+    code: string(),
+    name: string(),
+    description: nullable(string()),
+    status: string(),
+    client_id: nullable(uuid),
+    is_billable: { type: "boolean" },
+    start_date: nullable(date),
+    end_date: nullable(date),
+    created_at: timestamp,
+    updated_at: timestamp,
+  }),
+  Task: object({
+    id: uuid,
+    code: string("Human-readable task code, e.g. PROJ-0001-T001"),
+    title: string(),
+    description: nullable(string()),
+    status: string("Status key from the project's workflow"),
+    status_category: string(),
+    priority: string(),
+    task_type: string(),
+    project_id: nullable(uuid),
+    parent_task_id: nullable(uuid),
+    assigned_to: nullable(uuid),
+    created_by: uuid,
+    start_date: nullable(date),
+    due_date: nullable(date),
+    estimated_hours: nullable({ type: "number" }),
+    actual_hours: nullable({ type: "number" }),
+    completed_at: nullable(timestamp),
+    created_at: timestamp,
+    updated_at: timestamp,
+  }),
+  TaskInput: object({
+    title: string(),
+    description: nullable(string()),
+    project_id: nullable(uuid),
+    parent_task_id: nullable(uuid),
+    status: string(),
+    priority: string(),
+    task_type: string(),
+    assigned_to: nullable(uuid),
+    start_date: nullable(date),
+    due_date: nullable(date),
+    estimated_hours: nullable({ type: "number" }),
+  }),
+  TimeEntry: object({
+    id: uuid,
+    user_id: uuid,
+    project_id: nullable(uuid),
+    task_id: nullable(uuid),
+    description: nullable(string()),
+    start_time: timestamp,
+    end_time: nullable(timestamp),
+    duration_seconds: nullable({ type: "integer" }),
+    is_billable: { type: "boolean" },
+    is_approved: { type: "boolean" },
+    timer_type: string(),
+    created_at: timestamp,
+    updated_at: timestamp,
+  }),
+  TimeEntryInput: object(
+    {
+      task_id: string("Task id or task code. Either task_id or project_id is required."),
+      project_id: { ...uuid, description: "Defaults to the task's project" },
+      start_time: timestamp,
+      end_time: { ...timestamp, description: "At least a minute after start_time, and not in the future" },
+      description: string("Required for entries longer than 4 hours"),
+      is_billable: { type: "boolean", default: true },
+    },
+    ["start_time", "end_time"]
+  ),
+  Timesheet: object({
+    id: uuid,
+    user_id: uuid,
+    week_start_date: date,
+    week_end_date: date,
+    status: { type: "string", enum: ["draft", "submitted", "approved", "rejected"] },
+    total_hours: nullable({ type: "number" }),
+    billable_hours: nullable({ type: "number" }),
+    submitted_at: nullable(timestamp),
+    reviewed_at: nullable(timestamp),
+    reviewed_by: nullable(uuid),
+    rejection_reason: nullable(string()),
+    created_at: timestamp,
+    updated_at: timestamp,
+  }),
+  Pagination: object({
+    limit: { type: "integer" },
+    offset: { type: "integer" },
+    total: { type: "integer" },
+    next_offset: nullable({ type: "integer", description: "Offset of the next page, null on the last page" }),
+  }),
+  Error: object({
+    error: object({
+      code: string("Machine-readable error code, e.g. insufficient_scope"),
+      message: string(),
+    }),
+  }),
+};
+
+const ERROR_RESPONSES = {
+  400: { $ref: "#/components/responses/Error" },
+  401: { $ref: "#/components/responses/Error" },
+  403: { $ref: "#/components/responses/Error" },
+  404: { $ref: "#/components/responses/Error" },
+  429: { $ref: "#/components/responses/RateLimited" },
+};
+
+function json(schema: Schema, description: string) {
+  return { description, content: { "application/json": { schema } } };
+}
+
+const one = (name: string) => json(object({ data: ref(name) }), name);
+const list = (name: string) =>
+  json(object({ data: { type: "array", items: ref(name) }, pagination: ref("Pagination") }), `A page of ${name}s`);
+
+function query(name: string, description: string, schema: Schema = string()): Schema {
+  return { name, in: "query", required: false, description, schema };
+}
+
+const idParameter = (description: string): Schema => ({
+  name: "id",
+  in: "path",
+  required: true,
+  description,
+  schema: { type: "string" },
+});
+
+function operation(scope: ApiScope, summary: string, extra: Schema): Schema {
+  return {
+    summary,
+    description: `Requires the \`${scope}\` scope.`,
+    security: [{ bearerToken: [scope] }],
+    ...extra,
+    responses: { ...(extra.responses as Schema), ...ERROR_RESPONSES },
+  };
+}
+
+const PAGINATION_PARAMETERS = [{ $ref: "#/components/parameters/limit" }, { $ref: "#/components/parameters/offset" }];
+
+export function buildOpenApiDocument(serverUrl: string): Schema {
+  return {
+    openapi: "3.0.3",
+    info: {
+      title: "DevFlow API",
+      version: API_VERSION,
+      description: [
+        "Authenticate with a personal access token or an organization API key from Settings > Developer:",
+        "`Authorization: Bearer dft_...`. Requests act as the token's user within the token's organization,",
+        "with the same permissions as in the app, narrowed by the token's scopes.",
+        "",
+        `Each token may make ${API_RATE_LIMIT} requests per minute. Every response carries X-RateLimit-Limit,`,
+        "X-RateLimit-Remaining and X-RateLimit-Reset headers; over the limit the API answers 429 with Retry-After.",
+        "",
+        `Lists are paginated with \`limit\` (default ${DEFAULT_PAGE_SIZE}, at most ${MAX_PAGE_SIZE}) and \`offset\`.`,
+      ].join("\n"),
+    },
+    servers: [{ url: `${serverUrl}/${API_VERSION}` }],
+    components: {
+      securitySchemes: {
+        bearerToken: {
+          type: "http",
+          scheme: "bearer",
+          description: Object.entries(API_SCOPES).map(([scope, label]) => `- \`${scope}\`: ${label}`).join("\n"),
+        },
+      },
+      schemas: SCHEMAS,
+      parameters: {
+        limit: query("limit", "Page size", { type: "integer", minimum: 1, maximum: MAX_PAGE_SIZE, default: DEFAULT_PAGE_SIZE }),
+        offset: query("offset", "Number of items to skip", { type: "integer", minimum: 0, default: 0 }),
+      },
+      responses: {
+        Error: json(ref("Error"), "The request failed"),
+        RateLimited: {
+          ...json(ref("Error"), "Too many requests"),
+          headers: { "Retry-After": { description: "Seconds until the limit resets", schema: { type: "integer" } } },
+        },
+      },
+    },
+    paths: {
+      "/projects": {
+        get: operation("read:projects", "List projects", {
+          parameters: [...PAGINATION_PARAMETERS, query("status", "Only projects with this status")],
+          responses: { 200: list("Project") },
+        }),
+      },
+      "/projects/{id}": {
+        get: operation("read:projects", "Get a project", {
+          parameters: [idParameter("Project id or code")],
+          responses: { 200: one("Project") },
+        }),
+      },
+      "/tasks": {
+        get: operation("read:tasks", "List tasks", {
+          parameters: [
+            ...PAGINATION_PARAMETERS,
+            query("project_id", "Only tasks in this project", uuid),
+            query("assigned_to", "Only tasks assigned to this user; `me` for the token's user"),
+            query("status", "Only tasks with this status key"),
+            query("updated_since", "Only tasks updated at or after this time", timestamp),
+          ],
+          responses: { 200: list("Task") },
+        }),
+        post: operation("write:tasks", "Create a task", {
+          requestBody: { required: true, content: { "application/json": { schema: ref("TaskInput") } } },
+          responses: { 201: one("Task") },
+        }),
+      },
+      "/tasks/{id}": {
+        get: operation("read:tasks", "Get a task", {
+          parameters: [idParameter("Task id or code")],
+          responses: { 200: one("Task") },
+        }),
+        patch: operation("write:tasks", "Update a task", {
+          description: "Requires the `write:tasks` scope. project_id and parent_task_id can't be changed here.",
+          parameters: [idParameter("Task id or code")],
+          requestBody: { required: true, content: { "application/json": { schema: ref("TaskInput") } } },
+          responses: { 200: one("Task") },
+        }),
+      },
+      "/time_entries": {
+        get: operation("read:time_entries", "List time entries", {
+          parameters: [
+            ...PAGINATION_PARAMETERS,
+            query("user_id", "Only this user's entries; `me` for the token's user"),
+            query("project_id", "Only entries on this project", uuid),
+            query("task_id", "Only entries on this task", uuid),
+            query("from", "Entries starting at or after this time", timestamp),
+            query("to", "Entries starting before this time", timestamp),
+          ],
+          responses: { 200: list("TimeEntry") },
+        }),
+        post: operation("write:time_entries", "Log time", {
+          description: "Requires the `write:time_entries` scope. Logs time for the token's user; overlapping entries are rejected with 409.",
+          requestBody: { required: true, content: { "application/json": { schema: ref("TimeEntryInput") } } },
+          responses: { 201: one("TimeEntry"), 409: { $ref: "#/components/responses/Error" } },
+        }),
+      },
+      "/time_entries/{id}": {
+        get: operation("read:time_entries", "Get a time entry", {
+          parameters: [idParameter("Time entry id")],
+          responses: { 200: one("TimeEntry") },
+        }),
+        delete: operation("write:time_entries", "Delete a time entry", {
+          parameters: [idParameter("Time entry id")],
+          responses: { 204: { description: "Deleted" } },
+        }),
+      },
+      "/timesheets": {
+        get: operation("read:timesheets", "List timesheets", {
+          parameters: [
+            ...PAGINATION_PARAMETERS,
+            query("user_id", "Only this user's timesheets; `me` for the token's user"),
+            query("status", "Only timesheets with this status"),
+            query("week_start", "Only the timesheet for the week starting on this Monday", date),
+          ],
+          responses: { 200: list("Timesheet") },
+        }),
+      },
+      "/timesheets/{id}": {
+        get: operation("read:timesheets", "Get a timesheet", {
+          parameters: [idParameter("Timesheet id")],
+          responses: { 200: one("Timesheet") },
+        }),
+      },
+      "/timesheets/{id}/submit": {
+        post: operation("write:timesheets", "Submit a timesheet for approval", {
+          description: "Requires the `write:timesheets` scope. Only the token user's own draft timesheets can be submitted.",
+          parameters: [idParameter("Timesheet id")],
+          responses: { 200: one("Timesheet"), 409: { $ref: "#/components/responses/Error" } },
+        }),
+      },
+    },
+  };
+}
@@ -0,0 +1,65 @@
+// Shared with the run-report-schedules edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../integrations/supabase/types.ts";
+
+export type EntryFinancials = Database["public"]["Functions"]["get_time_entry_financials"]["Returns"][number];
+
+export interface CurrencyTotals {
+  currency: string;
+  revenue: number;
+  cost: number;
+  margin: number;
+  marginPercentage: number | null;
+}
+
+const FINANCIALS_BATCH_SIZE = 1000;
+
+// Resolves bill/cost rates for time entries. Entries without a matching rate card,
+// or callers who can't read rate cards, come back with null rates.
+export async function fetchEntryFinancials(
+  client: SupabaseClient<Database>,
+  entryIds: string[]
+): Promise<Map<string, EntryFinancials>> {
+  const financials = new Map<string, EntryFinancials>();
+
+  for (let i = 0; i < entryIds.length; i += FINANCIALS_BATCH_SIZE) {
+    const { data, error } = await client.rpc("get_time_entry_financials", {
+      p_entry_ids: entryIds.slice(i, i + FINANCIALS_BATCH_SIZE),
+    });
+
+    if (error) throw error;
+    (data || []).forEach(row => financials.set(row.time_entry_id, row));
+  }
+
+  return financials;
+}
+
+// Revenue and cost are only added up within the same currency
+export function summarizeFinancials(rows: Iterable<EntryFinancials>): CurrencyTotals[] {
+  const totals = new Map<string, CurrencyTotals>();
+
+  const totalsFor = (currency: string) => {
+    let entry = totals.get(currency);
+    if (!entry) {
+      entry = { currency, revenue: 0, cost: 0, margin: 0, marginPercentage: null };
+      totals.set(currency, entry);
+    }
+    return entry;
+  };
+
+  for (const row of rows) {
+    if (row.bill_currency && row.revenue !== null) totalsFor(row.bill_currency).revenue += Number(row.revenue);
+    if (row.cost_currency && row.cost !== null) totalsFor(row.cost_currency).cost += Number(row.cost);
+  }
+
+  return [...totals.values()].map(t => ({
+    ...t,
+    margin: t.revenue - t.cost,
+    marginPercentage: t.revenue > 0 ? Math.round(((t.revenue - t.cost) / t.revenue) * 100) : null,
+  }));
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  return new Intl.NumberFormat(undefined, { style: "currency", currency }).format(amount);
+}
@@ -0,0 +1,104 @@
+import { addDays, addMonths, format, getDaysInMonth, getISODay, parse, setDate, startOfMonth } from "date-fns";
+
+export type Frequency = "DAILY" | "WEEKLY" | "MONTHLY";
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+/** The RRULE subset stored in tasks.recurrence_rule */
+export interface RecurrenceRule {
+  freq: Frequency;
+  interval: number;
+  /** Weekly only; empty means the weekday of the due date */
+  byDay: Weekday[];
+  /** Monthly only; clamped to the last day of shorter months */
+  byMonthDay: number | null;
+  /** Last possible occurrence, as yyyy-MM-dd */
+  until: string | null;
+}
+
+export const WEEKDAYS: Weekday[] = ["MO", "TU", "WE", "TH", "FR", "SA", "SU"];
+export const WORKING_DAYS: Weekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: "Mon",
+  TU: "Tue",
+  WE: "Wed",
+  TH: "Thu",
+  FR: "Fri",
+  SA: "Sat",
+  SU: "Sun",
+};
+
+const UNIT_LABELS: Record<Frequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month" };
+
+export function parseRule(rule: string): RecurrenceRule | null {
+  const parts = Object.fromEntries(rule.split(";").map(part => part.split("=") as [string, string]));
+  if (!["DAILY", "WEEKLY", "MONTHLY"].includes(parts.FREQ)) return null;
+
+  return {
+    freq: parts.FREQ as Frequency,
+    interval: parts.INTERVAL ? Number(parts.INTERVAL) : 1,
+    byDay: parts.BYDAY ? (parts.BYDAY.split(",") as Weekday[]) : [],
+    byMonthDay: parts.BYMONTHDAY ? Number(parts.BYMONTHDAY) : null,
+    until: parts.UNTIL ? format(parse(parts.UNTIL, "yyyyMMdd", new Date()), "yyyy-MM-dd") : null,
+  };
+}
+
+export function formatRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.freq === "WEEKLY" && rule.byDay.length > 0) {
+    parts.push(`BYDAY=${WEEKDAYS.filter(day => rule.byDay.includes(day)).join(",")}`);
+  }
+  if (rule.freq === "MONTHLY" && rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+/** "Every 2 weeks on Mon, Thu", "Every month on day 15" */
+export function describeRule(rule: RecurrenceRule): string {
+  const unit = UNIT_LABELS[rule.freq];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.freq === "WEEKLY" && rule.byDay.length > 0) {
+    const days = WEEKDAYS.filter(day => rule.byDay.includes(day));
+    text += days.join() === WORKING_DAYS.join() ? " on weekdays" : ` on ${days.map(day => WEEKDAY_LABELS[day]).join(", ")}`;
+  }
+  if (rule.freq === "MONTHLY" && rule.byMonthDay) text += ` on day ${rule.byMonthDay}`;
+  if (rule.until) text += ` until ${format(parse(rule.until, "yyyy-MM-dd", new Date()), "MMM d, yyyy")}`;
+
+  return text;
+}
+
+function monthDay(month: Date, day: number): Date {
+  return setDate(month, Math.min(day, getDaysInMonth(month)));
+}
+
+/**
+ * First occurrence strictly after `after`, or null past UNTIL. Mirrors
+ * next_recurrence_date() in the database, which creates the instances.
+ */
+export function nextOccurrence(rule: RecurrenceRule, after: Date): Date | null {
+  let next: Date;
+
+  if (rule.freq === "DAILY") {
+    next = addDays(after, rule.interval);
+  } else if (rule.freq === "WEEKLY") {
+    const days = rule.byDay.length > 0 ? rule.byDay.map(day => WEEKDAYS.indexOf(day) + 1) : [getISODay(after)];
+
+    // Rest of the current week first, then INTERVAL weeks on
+    next = addDays(after, 1);
+    while (getISODay(next) !== 1 && !days.includes(getISODay(next))) next = addDays(next, 1);
+
+    if (getISODay(next) === 1 && !(days.includes(1) && rule.interval === 1)) {
+      next = addDays(next, 7 * (rule.interval - 1));
+      while (!days.includes(getISODay(next))) next = addDays(next, 1);
+    }
+  } else {
+    const day = rule.byMonthDay || after.getDate();
+    next = monthDay(startOfMonth(after), day);
+    if (next <= after) next = monthDay(addMonths(startOfMonth(after), rule.interval), day);
+  }
+
+  if (rule.until && format(next, "yyyy-MM-dd") > rule.until) return null;
+  return next;
+}
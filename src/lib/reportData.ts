@@ -0,0 +1,505 @@
+// Shared with the run-report-schedules edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { SupabaseClient } from '@supabase/supabase-js';
+import Papa from 'papaparse';
+import {
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  subMonths,
+  subWeeks,
+} from 'date-fns';
+import type { Database } from '../integrations/supabase/types.ts';
+import { fetchEntryFinancials, summarizeFinancials } from './rates.ts';
+import { buildReportPdf, type ReportPdfLayout, type ReportRow } from './reportPdf.ts';
+import { completionRate, SPRINT_STATUS_LABELS, velocityStats, type SprintStats } from './sprints.ts';
+
+type Client = SupabaseClient<Database>;
+
+export type ReportTypeId = 'billable_hours' | 'timesheet' | 'velocity' | 'audit';
+export type ReportPeriod = 'this_week' | 'last_week' | 'this_month' | 'last_month' | 'this_quarter';
+export type ReportFormat = 'csv' | 'pdf';
+
+export interface ReportFilters {
+  user?: string;
+  project?: string;
+  team?: string;
+  approvalStatus?: string;
+  table?: string;
+}
+
+export interface ReportData {
+  rows: ReportRow[];
+  // Appended to the CSV and printed as a summary table in the PDF
+  totals?: ReportRow[];
+}
+
+export interface ReportRequest {
+  organizationId: string;
+  start: Date;
+  end: Date;
+  filters: ReportFilters;
+}
+
+export const MAX_REPORT_ROWS = 10000;
+
+export const REPORT_TYPES: Record<ReportTypeId, { name: string; pdf: ReportPdfLayout }> = {
+  billable_hours: {
+    name: 'Billable Hours Report',
+    pdf: {
+      columns: ['Date', 'User', 'Task Code', 'Task Title', 'Duration (hours)', 'Bill Rate', 'Revenue', 'Cost', 'Margin', 'Currency'],
+      groupBy: 'Project',
+      sumColumns: ['Duration (hours)'],
+      chart: { title: 'Billable hours by project', label: 'Project', value: 'Duration (hours)' },
+      summaryColumns: ['Currency', 'Duration (hours)', 'Revenue', 'Cost', 'Margin'],
+    },
+  },
+  timesheet: {
+    name: 'Timesheet Report',
+    pdf: {
+      columns: ['Week Start', 'Week End', 'Total Hours', 'Billable Hours', 'Status', 'Reviewed By', 'Reviewed At'],
+      groupBy: 'User',
+      sumColumns: ['Total Hours', 'Billable Hours'],
+      chart: { title: 'Hours by user', label: 'User', value: 'Total Hours' },
+    },
+  },
+  velocity: {
+    name: 'Velocity Report',
+    pdf: {
+      columns: ['Sprint', 'Project', 'Start', 'End', 'Status', 'Committed Hours', 'Added Hours', 'Velocity (hours)', 'Completion %', 'Carried Over'],
+      groupBy: 'Team',
+      chart: { title: 'Velocity by sprint (hours completed)', label: 'Sprint', value: 'Velocity (hours)' },
+      summaryColumns: ['Team', 'Completed Sprints', 'Average Velocity', 'Variance', 'Std Deviation'],
+    },
+  },
+  audit: {
+    name: 'Audit Report',
+    pdf: {
+      columns: ['Timestamp', 'User', 'Action', 'Record ID', 'Changes'],
+      groupBy: 'Table',
+      chart: { title: 'Changes by table', label: 'Table' },
+    },
+  },
+};
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriod, string> = {
+  this_week: 'This Week',
+  last_week: 'Last Week',
+  this_month: 'This Month',
+  last_month: 'Last Month',
+  this_quarter: 'This Quarter',
+};
+
+// Indexed like report_schedules.weekday (0 = Sunday)
+export const REPORT_WEEKDAYS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Thrown when a report can't be produced for the selected filters (no rows,
+ * too many rows). `title` and `message` are meant for the user.
+ */
+export class ReportError extends Error {
+  title: string;
+
+  constructor(title: string, message: string) {
+    super(message);
+    this.name = 'ReportError';
+    this.title = title;
+  }
+}
+
+export function getReportPeriod(period: ReportPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  switch (period) {
+    case 'this_week':
+      return { start: startOfWeek(now, { weekStartsOn: 1 }), end: endOfWeek(now, { weekStartsOn: 1 }) };
+    case 'last_week': {
+      const lastWeek = subWeeks(now, 1);
+      return { start: startOfWeek(lastWeek, { weekStartsOn: 1 }), end: endOfWeek(lastWeek, { weekStartsOn: 1 }) };
+    }
+    case 'last_month': {
+      const lastMonth = subMonths(now, 1);
+      return { start: startOfMonth(lastMonth), end: endOfMonth(lastMonth) };
+    }
+    case 'this_quarter':
+      return { start: startOfQuarter(now), end: endOfQuarter(now) };
+    case 'this_month':
+    default:
+      return { start: startOfMonth(now), end: endOfMonth(now) };
+  }
+}
+
+function ensureRows<T>(rows: T[] | null, what: string): T[] {
+  if (!rows || rows.length === 0) {
+    throw new ReportError('No data found', `No ${what} found for the selected filters.`);
+  }
+  if (rows.length > MAX_REPORT_ROWS) {
+    throw new ReportError(
+      'Report too large',
+      'Report exceeds 10,000 rows. Please apply additional filters to reduce size.'
+    );
+  }
+  return rows;
+}
+
+async function memberEmails(client: Client, organizationId: string): Promise<Map<string, string>> {
+  const { data } = await client.rpc('get_org_members_with_emails', { p_org_id: organizationId });
+  return new Map((data || []).map(u => [u.user_id, u.email] as [string, string]));
+}
+
+async function generateBillableHours(client: Client, { organizationId, start, end, filters }: ReportRequest): Promise<ReportData> {
+  let query = client
+    .from('time_entries')
+    .select(`
+      id,
+      start_time,
+      duration_seconds,
+      description,
+      is_billable,
+      user_id,
+      project_id,
+      task_id
+    `)
+    .eq('organization_id', organizationId)
+    .eq('is_billable', true)
+    .gte('start_time', start.toISOString())
+    .lte('start_time', end.toISOString())
+    .is('deleted_at', null)
+    .order('start_time');
+
+  if (filters.user) {
+    query = query.eq('user_id', filters.user);
+  }
+
+  if (filters.project) {
+    query = query.eq('project_id', filters.project);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  const timeEntries = ensureRows(data, 'billable hours');
+
+  // Fetch related data
+  const projectIds = [...new Set(timeEntries.map(e => e.project_id).filter(Boolean))];
+  const taskIds = [...new Set(timeEntries.map(e => e.task_id).filter(Boolean))];
+
+  const userMap = await memberEmails(client, organizationId);
+
+  const { data: projectsData } = projectIds.length > 0
+    ? await client.from('projects').select('id, name').in('id', projectIds)
+    : { data: [] };
+
+  const { data: tasksData } = taskIds.length > 0
+    ? await client.from('tasks').select('id, code, title').in('id', taskIds)
+    : { data: [] };
+
+  const projectMap = new Map((projectsData || []).map(p => [p.id, p.name] as [string, string]));
+  const taskMap = new Map((tasksData || []).map(t => [t.id, { code: t.code, title: t.title }] as [string, { code: string; title: string }]));
+
+  // Resolve bill and cost rates from the rate cards
+  const financials = await fetchEntryFinancials(client, timeEntries.map(e => e.id));
+
+  const rows: ReportRow[] = timeEntries.map(entry => {
+    const money = financials.get(entry.id);
+    const sameCurrency = money?.bill_currency && money.bill_currency === money.cost_currency;
+
+    return {
+      Date: format(new Date(entry.start_time), 'yyyy-MM-dd'),
+      User: userMap.get(entry.user_id) || 'Unknown',
+      Project: entry.project_id ? projectMap.get(entry.project_id) || 'Unknown' : 'Personal',
+      'Task Code': entry.task_id ? taskMap.get(entry.task_id)?.code || '' : '',
+      'Task Title': entry.task_id ? taskMap.get(entry.task_id)?.title || '' : '',
+      'Duration (hours)': (entry.duration_seconds / 3600).toFixed(2),
+      Description: entry.description || '',
+      Billable: entry.is_billable ? 'TRUE' : 'FALSE',
+      'Bill Rate': money?.bill_rate ?? '',
+      Revenue: money?.revenue ?? '',
+      'Cost Rate': money?.cost_rate ?? '',
+      Cost: money?.cost ?? '',
+      Margin: sameCurrency && money.revenue !== null && money.cost !== null
+        ? (Number(money.revenue) - Number(money.cost)).toFixed(2)
+        : '',
+      Currency: money?.bill_currency || money?.cost_currency || '',
+    };
+  });
+
+  // Totals per currency so the report can be used for an invoice; hours only
+  // count the entries rated in that currency
+  const secondsIn = (currency: string) => timeEntries.reduce((sum, e) => {
+    const money = financials.get(e.id);
+    return money?.bill_currency === currency || money?.cost_currency === currency ? sum + e.duration_seconds : sum;
+  }, 0);
+
+  const totals: ReportRow[] = summarizeFinancials(financials.values()).map(currency => ({
+    Date: 'TOTAL',
+    User: '',
+    Project: '',
+    'Task Code': '',
+    'Task Title': '',
+    'Duration (hours)': (secondsIn(currency.currency) / 3600).toFixed(2),
+    Description: '',
+    Billable: '',
+    'Bill Rate': '',
+    Revenue: currency.revenue.toFixed(2),
+    'Cost Rate': '',
+    Cost: currency.cost.toFixed(2),
+    Margin: currency.margin.toFixed(2),
+    Currency: currency.currency,
+  }));
+
+  return { rows, totals };
+}
+
+async function generateTimesheet(client: Client, { organizationId, start, end, filters }: ReportRequest): Promise<ReportData> {
+  let query = client
+    .from('timesheets')
+    .select(`
+      week_start_date,
+      week_end_date,
+      total_hours,
+      billable_hours,
+      status,
+      reviewed_by,
+      reviewed_at,
+      user_id
+    `)
+    .eq('organization_id', organizationId)
+    .gte('week_start_date', start.toISOString())
+    .lte('week_end_date', end.toISOString())
+    .is('deleted_at', null)
+    .order('week_start_date', { ascending: false });
+
+  if (filters.user) {
+    query = query.eq('user_id', filters.user);
+  }
+
+  if (filters.approvalStatus) {
+    query = query.eq('status', filters.approvalStatus);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  const timesheets = ensureRows(data, 'timesheets');
+
+  const userMap = await memberEmails(client, organizationId);
+
+  return {
+    rows: timesheets.map(ts => ({
+      'Week Start': format(new Date(ts.week_start_date), 'yyyy-MM-dd'),
+      'Week End': format(new Date(ts.week_end_date), 'yyyy-MM-dd'),
+      User: userMap.get(ts.user_id) || 'Unknown',
+      'Total Hours': ts.total_hours?.toFixed(1) || '0.0',
+      'Billable Hours': ts.billable_hours?.toFixed(1) || '0.0',
+      Status: ts.status.toUpperCase(),
+      'Reviewed By': ts.reviewed_by ? userMap.get(ts.reviewed_by) || 'Unknown' : '',
+      'Reviewed At': ts.reviewed_at ? format(new Date(ts.reviewed_at), 'yyyy-MM-dd HH:mm') : '',
+    })),
+  };
+}
+
+async function generateVelocity(client: Client, { organizationId, start, end, filters }: ReportRequest): Promise<ReportData> {
+  // Sprints that ended in the date range
+  const { data, error } = await client.rpc('get_sprint_stats', {
+    p_organization_id: organizationId,
+    p_team_id: filters.team,
+    p_project_id: filters.project,
+    p_from: format(start, 'yyyy-MM-dd'),
+    p_to: format(end, 'yyyy-MM-dd'),
+  });
+
+  if (error) throw error;
+  const sprints = ensureRows(data, 'sprints');
+
+  const teamIds = [...new Set(sprints.map(s => s.team_id).filter(Boolean))];
+  const projectIds = [...new Set(sprints.map(s => s.project_id).filter(Boolean))];
+
+  const { data: teamsData } = teamIds.length > 0
+    ? await client.from('teams').select('id, name').in('id', teamIds)
+    : { data: [] };
+  const { data: projectsData } = projectIds.length > 0
+    ? await client.from('projects').select('id, name').in('id', projectIds)
+    : { data: [] };
+
+  const teamMap = new Map((teamsData || []).map(t => [t.id, t.name] as [string, string]));
+  const projectMap = new Map((projectsData || []).map(p => [p.id, p.name] as [string, string]));
+  const teamName = (sprint: SprintStats) => (sprint.team_id ? teamMap.get(sprint.team_id) || 'Unknown' : 'No team');
+
+  // Oldest first so the chart reads left to right
+  const ordered = [...sprints].reverse();
+
+  const rows: ReportRow[] = ordered.map(sprint => {
+    const rate = completionRate(sprint);
+    return {
+      Sprint: sprint.name,
+      Team: teamName(sprint),
+      Project: sprint.project_id ? projectMap.get(sprint.project_id) || 'Unknown' : '',
+      Start: sprint.start_date,
+      End: sprint.end_date,
+      Status: SPRINT_STATUS_LABELS[sprint.status] || sprint.status,
+      'Committed Tasks': sprint.committed_tasks,
+      'Committed Hours': Number(sprint.committed_hours).toFixed(1),
+      'Added Hours': Number(sprint.added_hours).toFixed(1),
+      'Completed Tasks': sprint.completed_tasks,
+      'Velocity (hours)': Number(sprint.completed_hours).toFixed(1),
+      'Completion %': rate === null ? '' : rate.toFixed(0),
+      'Carried Over': sprint.carried_over_tasks,
+    };
+  });
+
+  // Average and variance per team over its completed sprints
+  const byTeam = new Map<string, SprintStats[]>();
+  ordered.forEach(sprint => byTeam.set(teamName(sprint), [...(byTeam.get(teamName(sprint)) || []), sprint]));
+
+  const totals: ReportRow[] = [...byTeam.entries()].map(([team, teamSprints]) => {
+    const stats = velocityStats(teamSprints);
+    return {
+      Sprint: 'AVERAGE',
+      Team: team,
+      'Completed Sprints': stats.sprints,
+      'Average Velocity': stats.average.toFixed(1),
+      Variance: stats.variance.toFixed(1),
+      'Std Deviation': stats.stdDev.toFixed(1),
+    };
+  });
+
+  return { rows, totals };
+}
+
+async function generateAudit(client: Client, { organizationId, start, end, filters }: ReportRequest): Promise<ReportData> {
+  let query = client
+    .from('audit_logs')
+    .select(`
+      created_at,
+      user_id,
+      action,
+      table_name,
+      record_id,
+      old_values,
+      new_values
+    `)
+    .eq('organization_id', organizationId)
+    .gte('created_at', start.toISOString())
+    .lte('created_at', end.toISOString())
+    .order('created_at', { ascending: false });
+
+  if (filters.user) {
+    query = query.eq('user_id', filters.user);
+  }
+
+  if (filters.table) {
+    query = query.eq('table_name', filters.table);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  const auditLogs = ensureRows(data, 'audit logs');
+
+  const userMap = await memberEmails(client, organizationId);
+
+  return {
+    rows: auditLogs.map(log => {
+      let changes = '';
+      if (log.action === 'UPDATE' && log.old_values && log.new_values) {
+        const oldVals = JSON.stringify(log.old_values);
+        const newVals = JSON.stringify(log.new_values);
+        changes = `${oldVals} → ${newVals}`;
+      } else if (log.action === 'INSERT' && log.new_values) {
+        changes = JSON.stringify(log.new_values);
+      } else if (log.action === 'DELETE' && log.old_values) {
+        changes = JSON.stringify(log.old_values);
+      }
+
+      return {
+        Timestamp: format(new Date(log.created_at), 'yyyy-MM-dd HH:mm:ss'),
+        User: log.user_id ? userMap.get(log.user_id) || 'System' : 'System',
+        Action: log.action,
+        Table: log.table_name,
+        'Record ID': log.record_id,
+        Changes: changes,
+      };
+    }),
+  };
+}
+
+/**
+ * Runs a report with the given client. In the browser that is the signed-in
+ * user (RLS applies); the scheduler passes a service client scoped by
+ * organization id.
+ */
+export function generateReport(client: Client, type: ReportTypeId, request: ReportRequest): Promise<ReportData> {
+  switch (type) {
+    case 'billable_hours':
+      return generateBillableHours(client, request);
+    case 'timesheet':
+      return generateTimesheet(client, request);
+    case 'velocity':
+      return generateVelocity(client, request);
+    case 'audit':
+      return generateAudit(client, request);
+  }
+}
+
+/** Human-readable filters for the PDF header and report history. */
+export async function describeReportFilters(
+  client: Client,
+  organizationId: string,
+  filters: ReportFilters
+): Promise<[string, string][]> {
+  const applied: [string, string][] = [];
+
+  if (filters.user) {
+    const emails = await memberEmails(client, organizationId);
+    applied.push(['User', emails.get(filters.user) || 'Unknown']);
+  }
+  if (filters.project) {
+    const { data } = await client.from('projects').select('name').eq('id', filters.project).maybeSingle();
+    applied.push(['Project', data?.name || 'Unknown']);
+  }
+  if (filters.team) {
+    const { data } = await client.from('teams').select('name').eq('id', filters.team).maybeSingle();
+    applied.push(['Team', data?.name || 'Unknown']);
+  }
+  if (filters.approvalStatus) {
+    applied.push(['Status', filters.approvalStatus === 'submitted' ? 'Pending' : filters.approvalStatus]);
+  }
+  if (filters.table) {
+    applied.push(['Table', filters.table]);
+  }
+
+  return applied;
+}
+
+export interface RenderedReport {
+  blob: Blob;
+  contentType: string;
+  extension: ReportFormat;
+}
+
+export function renderReport(
+  type: ReportTypeId,
+  report: ReportData,
+  reportFormat: ReportFormat,
+  meta: { organizationName: string; period: { start: Date; end: Date }; filters: [string, string][] }
+): RenderedReport {
+  if (reportFormat === 'pdf') {
+    const doc = buildReportPdf({
+      title: REPORT_TYPES[type].name,
+      organizationName: meta.organizationName,
+      period: meta.period,
+      filters: meta.filters,
+      layout: REPORT_TYPES[type].pdf,
+      rows: report.rows,
+      summary: report.totals,
+    });
+    return { blob: doc.output('blob'), contentType: 'application/pdf', extension: 'pdf' };
+  }
+
+  const csv = Papa.unparse([...report.rows, ...(report.totals || [])]);
+  return { blob: new Blob([csv], { type: 'text/csv;charset=utf-8;' }), contentType: 'text/csv', extension: 'csv' };
+}
+
+export function reportFileName(type: ReportTypeId, period: { start: Date; end: Date }, extension: string, now: Date = new Date()): string {
+  return `${type}_${format(period.start, 'yyyy-MM-dd')}_${format(period.end, 'yyyy-MM-dd')}_${format(now, 'yyyy-MM-dd')}.${extension}`;
+}
@@ -0,0 +1,214 @@
+// Shared with the run-report-schedules edge function (Deno) through
+// src/lib/reportData.ts: only bare package imports mapped in
+// supabase/functions/import_map.json.
+
+import { jsPDF } from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import { format } from 'date-fns';
+
+type LastTableDoc = jsPDF & { lastAutoTable: { finalY: number } };
+
+export type ReportRow = Record<string, string | number>;
+
+export interface ReportPdfLayout {
+  /** Columns shown in the PDF tables, in order (the CSV keeps every column) */
+  columns: string[];
+  /** Rows are split into one table per value of this column */
+  groupBy?: string;
+  /** Numeric columns summed under each group */
+  sumColumns?: string[];
+  /** Bar chart of `value` summed per `label`, or of row counts without `value` */
+  chart?: { title: string; label: string; value?: string };
+  /** Columns of the summary rows to print, defaults to all */
+  summaryColumns?: string[];
+}
+
+export interface ReportPdfOptions {
+  title: string;
+  organizationName: string;
+  period: { start: Date; end: Date };
+  filters: [string, string][];
+  layout: ReportPdfLayout;
+  rows: ReportRow[];
+  /** Summary rows (e.g. totals per currency) printed after the tables */
+  summary?: ReportRow[];
+}
+
+const MARGIN = 14;
+const CHART_BARS = 10;
+const CHART_COLOR: [number, number, number] = [59, 130, 246];
+
+function sumColumn(rows: ReportRow[], column: string): number {
+  return rows.reduce((sum, row) => sum + (Number(row[column]) || 0), 0);
+}
+
+// The built-in PDF fonts only cover WinAnsi characters
+function pdfText(value: string | number | undefined): string {
+  return String(value ?? '').replace(/→/g, '->');
+}
+
+function formatTotal(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(2);
+}
+
+function ensureSpace(doc: jsPDF, y: number, needed: number): number {
+  if (y + needed <= doc.internal.pageSize.getHeight() - MARGIN) return y;
+  doc.addPage();
+  return MARGIN + 6;
+}
+
+/**
+ * Horizontal bar chart drawn with PDF primitives; shows the largest values
+ * and folds the rest into "Other".
+ */
+function drawBarChart(doc: jsPDF, layout: ReportPdfLayout, rows: ReportRow[], startY: number): number {
+  const { chart } = layout;
+  const totals = new Map<string, number>();
+  rows.forEach(row => {
+    const label = String(row[chart.label] || '—');
+    totals.set(label, (totals.get(label) || 0) + (chart.value ? Number(row[chart.value]) || 0 : 1));
+  });
+
+  let bars = [...totals.entries()].sort((a, b) => b[1] - a[1]);
+  if (bars.length > CHART_BARS) {
+    const other = bars.slice(CHART_BARS - 1).reduce((sum, [, value]) => sum + value, 0);
+    bars = [...bars.slice(0, CHART_BARS - 1), ['Other', other]];
+  }
+  if (bars.length === 0) return startY;
+
+  const barHeight = 6;
+  let y = ensureSpace(doc, startY, 12 + bars.length * (barHeight + 2));
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const labelWidth = 60;
+  const valueWidth = 20;
+  const maxBarWidth = pageWidth - MARGIN * 2 - labelWidth - valueWidth;
+  const maxValue = Math.max(...bars.map(([, value]) => value), 1);
+
+  doc.setFontSize(11);
+  doc.setFont('helvetica', 'bold');
+  doc.text(chart.title, MARGIN, y);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  y += 4;
+
+  bars.forEach(([label, value]) => {
+    const width = Math.max((value / maxValue) * maxBarWidth, 0.5);
+    const text = doc.splitTextToSize(label, labelWidth - 2)[0];
+    doc.text(text, MARGIN, y + barHeight - 1.5);
+    doc.setFillColor(...CHART_COLOR);
+    doc.rect(MARGIN + labelWidth, y, width, barHeight, 'F');
+    doc.text(formatTotal(value), MARGIN + labelWidth + width + 2, y + barHeight - 1.5);
+    y += barHeight + 2;
+  });
+
+  return y + 6;
+}
+
+/**
+ * Lays out a report as a landscape PDF: header with organization, period
+ * and applied filters, an optional chart, one table per group with
+ * subtotals, then the grand totals and any summary rows.
+ */
+export function buildReportPdf({ title, organizationName, period, filters, layout, rows, summary = [] }: ReportPdfOptions): jsPDF {
+  const doc = new jsPDF({ orientation: 'landscape' });
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const sumColumns = layout.sumColumns || [];
+
+  doc.setFontSize(18);
+  doc.text(title, MARGIN, 18);
+  doc.setFontSize(10);
+  doc.text(organizationName, pageWidth - MARGIN, 18, { align: 'right' });
+  doc.text(
+    `${format(period.start, 'MMM d, yyyy')} – ${format(period.end, 'MMM d, yyyy')}`,
+    MARGIN,
+    25
+  );
+  doc.setTextColor(110);
+  doc.text(`Generated ${format(new Date(), 'MMM d, yyyy HH:mm')}`, pageWidth - MARGIN, 25, { align: 'right' });
+  doc.text(
+    `Filters: ${filters.length > 0 ? filters.map(([label, value]) => `${label}: ${value}`).join(' · ') : 'None'}`,
+    MARGIN,
+    31
+  );
+  doc.setTextColor(0);
+
+  let y = 40;
+  if (layout.chart) {
+    y = drawBarChart(doc, layout, rows, y);
+  }
+
+  const groups = new Map<string, ReportRow[]>();
+  rows.forEach(row => {
+    const key = layout.groupBy ? String(row[layout.groupBy] || '—') : '';
+    groups.set(key, [...(groups.get(key) || []), row]);
+  });
+
+  const totalsRow = (groupRows: ReportRow[], label: string) =>
+    layout.columns.map((column, index) => {
+      if (sumColumns.includes(column)) return formatTotal(sumColumn(groupRows, column));
+      return index === 0 ? label : '';
+    });
+
+  groups.forEach((groupRows, key) => {
+    if (layout.groupBy) {
+      y = ensureSpace(doc, y, 20);
+      doc.setFontSize(11);
+      doc.setFont('helvetica', 'bold');
+      doc.text(`${layout.groupBy}: ${key} (${groupRows.length})`, MARGIN, y);
+      doc.setFont('helvetica', 'normal');
+      y += 2;
+    }
+
+    autoTable(doc, {
+      startY: y,
+      head: [layout.columns],
+      body: groupRows.map(row => layout.columns.map(column => pdfText(row[column]))),
+      foot: sumColumns.length > 0 ? [totalsRow(groupRows, layout.groupBy ? 'Subtotal' : 'Total')] : undefined,
+      styles: { fontSize: 8, overflow: 'linebreak' },
+      headStyles: { fillColor: [40, 40, 40] },
+      footStyles: { fillColor: [240, 240, 240], textColor: 20 },
+      margin: { left: MARGIN, right: MARGIN },
+    });
+    y = (doc as LastTableDoc).lastAutoTable.finalY + 8;
+  });
+
+  if (layout.groupBy && sumColumns.length > 0 && groups.size > 1) {
+    autoTable(doc, {
+      startY: ensureSpace(doc, y, 16),
+      body: [totalsRow(rows, 'Total')],
+      columnStyles: Object.fromEntries(layout.columns.map((_, index) => [index, { fontStyle: 'bold' }])),
+      styles: { fontSize: 9 },
+      theme: 'plain',
+      margin: { left: MARGIN, right: MARGIN },
+    });
+    y = (doc as LastTableDoc).lastAutoTable.finalY + 8;
+  }
+
+  if (summary.length > 0) {
+    const summaryColumns = layout.summaryColumns || Object.keys(summary[0]);
+    autoTable(doc, {
+      startY: ensureSpace(doc, y, 20),
+      head: [summaryColumns],
+      body: summary.map(row => summaryColumns.map(column => pdfText(row[column]))),
+      styles: { fontSize: 9 },
+      headStyles: { fillColor: [40, 40, 40] },
+      margin: { left: MARGIN, right: MARGIN },
+    });
+  }
+
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setFontSize(8);
+    doc.setTextColor(110);
+    doc.text(
+      `${title} · Page ${page} of ${pageCount}`,
+      pageWidth / 2,
+      doc.internal.pageSize.getHeight() - 6,
+      { align: 'center' }
+    );
+    doc.setTextColor(0);
+  }
+
+  return doc;
+}
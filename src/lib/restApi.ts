@@ -0,0 +1,681 @@
+// Shared with the api edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { PostgrestError, SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../integrations/supabase/types.ts";
+import type { ApiScope } from "./apiTokens.ts";
+
+type Client = SupabaseClient<Database>;
+
+export const API_VERSION = "v1";
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+
+/** An error response. `status`, `code` and the message are returned to the caller as is. */
+export class ApiError extends Error {
+  status: number;
+  code: string;
+
+  constructor(status: number, code: string, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+    this.code = code;
+  }
+}
+
+export interface ApiContext {
+  /** Signed in as the token's user, so RLS applies exactly as in the app */
+  client: Client;
+  organizationId: string;
+  userId: string;
+  scopes: string[];
+}
+
+export interface ApiRequest {
+  method: string;
+  /** Path below the version, e.g. "tasks/PROJ-0001-T001" */
+  path: string;
+  query: URLSearchParams;
+  body: unknown;
+}
+
+export interface ApiResponse {
+  status: number;
+  body?: unknown;
+}
+
+type Params = Record<string, string>;
+type Fields = Record<string, unknown>;
+
+interface Route {
+  method: "GET" | "POST" | "PATCH" | "DELETE";
+  pattern: string;
+  scope: ApiScope;
+  handler: (ctx: ApiContext, request: ApiRequest, params: Params) => Promise<ApiResponse>;
+}
+
+const PROJECT_COLUMNS =
+  "id, code, name, description, status, client_id, is_billable, start_date, end_date, created_at, updated_at";
+const TASK_COLUMNS =
+  "id, code, title, description, status, status_category, priority, task_type, project_id, parent_task_id, assigned_to, created_by, start_date, due_date, estimated_hours, actual_hours, completed_at, created_at, updated_at";
+const TIME_ENTRY_COLUMNS =
+  "id, user_id, project_id, task_id, description, start_time, end_time, duration_seconds, is_billable, is_approved, timer_type, created_at, updated_at";
+const TIMESHEET_COLUMNS =
+  "id, user_id, week_start_date, week_end_date, status, total_hours, billable_hours, submitted_at, reviewed_at, reviewed_by, rejection_reason, created_at, updated_at";
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// ============================================================
+// Request helpers
+// ============================================================
+
+function databaseError(error: PostgrestError): ApiError {
+  switch (error.code) {
+    case "42501":
+      return new ApiError(403, "forbidden", "You don't have permission to do this");
+    case "22P02":
+    case "22007":
+    case "22008":
+      return new ApiError(400, "invalid_value", error.message);
+    case "P0001":
+      // RAISE EXCEPTION from triggers and functions: workflow rules, WIP limits and the like
+      return new ApiError(422, "rejected", error.message);
+    default:
+      if (error.code?.startsWith("23")) return new ApiError(422, "rejected", error.message);
+      console.error("API database error:", error);
+      return new ApiError(500, "internal_error", "Something went wrong");
+  }
+}
+
+function check(error: PostgrestError | null): void {
+  if (error) throw databaseError(error);
+}
+
+function integerParam(query: URLSearchParams, name: string): number | null {
+  const value = query.get(name);
+  if (value === null) return null;
+  if (!/^\d+$/.test(value)) {
+    throw new ApiError(400, "invalid_parameter", `${name} must be a whole number`);
+  }
+  return Number(value);
+}
+
+function uuidParam(ctx: ApiContext, query: URLSearchParams, name: string): string | null {
+  const value = query.get(name);
+  if (value === null) return null;
+  // "me" saves scripts a lookup of their own user id
+  if (value === "me") return ctx.userId;
+  if (!UUID_PATTERN.test(value)) {
+    throw new ApiError(400, "invalid_parameter", `${name} must be a UUID`);
+  }
+  return value;
+}
+
+function timestampParam(query: URLSearchParams, name: string): string | null {
+  const value = query.get(name);
+  if (value === null) return null;
+  if (Number.isNaN(Date.parse(value))) {
+    throw new ApiError(400, "invalid_parameter", `${name} must be an ISO 8601 date or timestamp`);
+  }
+  return value;
+}
+
+function pagination(query: URLSearchParams): { limit: number; offset: number } {
+  const limit = integerParam(query, "limit") ?? DEFAULT_PAGE_SIZE;
+  const offset = integerParam(query, "offset") ?? 0;
+
+  if (limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new ApiError(400, "invalid_parameter", `limit must be between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return { limit, offset };
+}
+
+function page<T>(rows: T[] | null, count: number | null, range: { limit: number; offset: number }): ApiResponse {
+  const data = rows || [];
+  const total = count ?? data.length;
+  const next = range.offset + data.length;
+
+  return {
+    status: 200,
+    body: {
+      data,
+      pagination: { limit: range.limit, offset: range.offset, total, next_offset: next < total ? next : null },
+    },
+  };
+}
+
+/** The JSON body, restricted to `allowed` fields */
+function bodyFields(request: ApiRequest, allowed: string[]): Fields {
+  const body = request.body;
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    throw new ApiError(400, "invalid_body", "The request body must be a JSON object");
+  }
+
+  const unknown = Object.keys(body).filter((key) => !allowed.includes(key));
+  if (unknown.length > 0) {
+    throw new ApiError(400, "invalid_body", `Unknown field${unknown.length === 1 ? "" : "s"}: ${unknown.join(", ")}`);
+  }
+  return body as Fields;
+}
+
+function optionalString(fields: Fields, name: string): string | null | undefined {
+  const value = fields[name];
+  if (value === undefined || value === null) return value as null | undefined;
+  if (typeof value !== "string") {
+    throw new ApiError(422, "invalid_field", `${name} must be a string`);
+  }
+  return value;
+}
+
+function requiredTimestamp(fields: Fields, name: string): Date {
+  const value = optionalString(fields, name);
+  const date = value ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    throw new ApiError(422, "invalid_field", `${name} is required and must be an ISO 8601 timestamp`);
+  }
+  return date;
+}
+
+// ============================================================
+// Projects
+// ============================================================
+
+async function listProjects(ctx: ApiContext, request: ApiRequest): Promise<ApiResponse> {
+  const range = pagination(request.query);
+  let query = ctx.client
+    .from("projects")
+    .select(PROJECT_COLUMNS, { count: "exact" })
+    .eq("organization_id", ctx.organizationId)
+    .is("deleted_at", null);
+
+  const status = request.query.get("status");
+  if (status) query = query.eq("status", status);
+
+  const { data, error, count } = await query
+    .order("created_at")
+    .order("id")
+    .range(range.offset, range.offset + range.limit - 1);
+  check(error);
+
+  return page(data, count, range);
+}
+
+async function getProject(ctx: ApiContext, _request: ApiRequest, params: Params): Promise<ApiResponse> {
+  const { data, error } = await ctx.client
+    .from("projects")
+    .select(PROJECT_COLUMNS)
+    .eq("organization_id", ctx.organizationId)
+    .filter(UUID_PATTERN.test(params.id) ? "id" : "code", "eq", params.id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  check(error);
+
+  if (!data) throw new ApiError(404, "not_found", "Project not found");
+  return { status: 200, body: { data } };
+}
+
+// ============================================================
+// Tasks: addressed by id or by task code
+// ============================================================
+
+async function findTask(ctx: ApiContext, idOrCode: string) {
+  const { data, error } = await ctx.client
+    .from("tasks")
+    .select(TASK_COLUMNS)
+    .eq("organization_id", ctx.organizationId)
+    .filter(UUID_PATTERN.test(idOrCode) ? "id" : "code", "eq", idOrCode)
+    .is("deleted_at", null)
+    .maybeSingle();
+  check(error);
+
+  if (!data) throw new ApiError(404, "not_found", `Task ${idOrCode} not found`);
+  return data;
+}
+
+async function listTasks(ctx: ApiContext, request: ApiRequest): Promise<ApiResponse> {
+  const range = pagination(request.query);
+  let query = ctx.client
+    .from("tasks")
+    .select(TASK_COLUMNS, { count: "exact" })
+    .eq("organization_id", ctx.organizationId)
+    .is("deleted_at", null);
+
+  const projectId = uuidParam(ctx, request.query, "project_id");
+  const assignedTo = uuidParam(ctx, request.query, "assigned_to");
+  const updatedSince = timestampParam(request.query, "updated_since");
+  const status = request.query.get("status");
+
+  if (projectId) query = query.eq("project_id", projectId);
+  if (assignedTo) query = query.eq("assigned_to", assignedTo);
+  if (updatedSince) query = query.gte("updated_at", updatedSince);
+  if (status) query = query.eq("status", status);
+
+  const { data, error, count } = await query
+    .order("created_at")
+    .order("id")
+    .range(range.offset, range.offset + range.limit - 1);
+  check(error);
+
+  return page(data, count, range);
+}
+
+async function getTask(ctx: ApiContext, _request: ApiRequest, params: Params): Promise<ApiResponse> {
+  return { status: 200, body: { data: await findTask(ctx, params.id) } };
+}
+
+const TASK_FIELDS = [
+  "title", "description", "status", "priority", "task_type", "assigned_to", "start_date", "due_date", "estimated_hours",
+];
+
+async function createTask(ctx: ApiContext, request: ApiRequest): Promise<ApiResponse> {
+  const fields = bodyFields(request, [...TASK_FIELDS, "project_id", "parent_task_id"]);
+  const title = optionalString(fields, "title")?.trim();
+  if (!title) throw new ApiError(422, "invalid_field", "title is required");
+
+  const projectId = optionalString(fields, "project_id") || null;
+  const parentTaskId = optionalString(fields, "parent_task_id") || null;
+
+  if (projectId) {
+    if (!UUID_PATTERN.test(projectId)) throw new ApiError(422, "invalid_field", "project_id must be a UUID");
+
+    const { data: project, error: projectError } = await ctx.client
+      .from("projects")
+      .select("id")
+      .eq("organization_id", ctx.organizationId)
+      .eq("id", projectId)
+      .is("deleted_at", null)
+      .maybeSingle();
+    check(projectError);
+
+    if (!project) throw new ApiError(422, "invalid_field", "project_id is not a project of this organization");
+  }
+
+  if (parentTaskId) {
+    if (!UUID_PATTERN.test(parentTaskId)) throw new ApiError(422, "invalid_field", "parent_task_id must be a UUID");
+
+    const { data: parentTask, error: parentError } = await ctx.client
+      .from("tasks")
+      .select("id")
+      .eq("organization_id", ctx.organizationId)
+      .eq("id", parentTaskId)
+      .is("deleted_at", null)
+      .maybeSingle();
+    check(parentError);
+
+    if (!parentTask) throw new ApiError(422, "invalid_field", "parent_task_id is not a task of this organization");
+  }
+
+  if (projectId) {
+    const { data: canCreate, error } = await ctx.client.rpc("check_task_limit", {
+      p_org_id: ctx.organizationId,
+      p_project_id: projectId,
+    });
+    check(error);
+    if (!canCreate) throw new ApiError(403, "plan_limit", "Free plan allows max 50 tasks per project");
+  }
+
+  const { data: code, error: codeError } = await ctx.client.rpc("generate_task_code", {
+    p_org_id: ctx.organizationId,
+    p_project_id: projectId,
+    p_parent_task_id: parentTaskId,
+  });
+  check(codeError);
+
+  const { data: task, error } = await ctx.client
+    .from("tasks")
+    .insert({
+      ...(fields as Database["public"]["Tables"]["tasks"]["Insert"]),
+      title,
+      code,
+      project_id: projectId,
+      parent_task_id: parentTaskId,
+      organization_id: ctx.organizationId,
+      created_by: ctx.userId,
+    })
+    .select(TASK_COLUMNS)
+    .single();
+  check(error);
+
+  // Same watchers as a task created in the app
+  await ctx.client.rpc("add_watchers", {
+    p_task_id: task.id,
+    p_user_ids: [...new Set([ctx.userId, task.assigned_to].filter(Boolean))],
+  });
+
+  return { status: 201, body: { data: task } };
+}
+
+async function updateTask(ctx: ApiContext, request: ApiRequest, params: Params): Promise<ApiResponse> {
+  const changes = bodyFields(request, TASK_FIELDS);
+  if (Object.keys(changes).length === 0) {
+    throw new ApiError(422, "invalid_body", `Nothing to change. Send any of: ${TASK_FIELDS.join(", ")}`);
+  }
+
+  const task = await findTask(ctx, params.id);
+
+  const { data, error } = await ctx.client
+    .from("tasks")
+    .update(changes as Database["public"]["Tables"]["tasks"]["Update"])
+    .eq("id", task.id)
+    .select(TASK_COLUMNS)
+    .maybeSingle();
+  check(error);
+
+  if (!data) throw new ApiError(403, "forbidden", `You don't have permission to edit ${task.code}`);
+
+  if (data.assigned_to && data.assigned_to !== task.assigned_to) {
+    await ctx.client.rpc("add_watchers", { p_task_id: task.id, p_user_ids: [data.assigned_to] });
+  }
+
+  return { status: 200, body: { data } };
+}
+
+// ============================================================
+// Time entries: the same rules as logging time manually
+// ============================================================
+
+async function findTimeEntry(ctx: ApiContext, id: string) {
+  if (!UUID_PATTERN.test(id)) throw new ApiError(404, "not_found", "Time entry not found");
+
+  const { data, error } = await ctx.client
+    .from("time_entries")
+    .select(TIME_ENTRY_COLUMNS)
+    .eq("organization_id", ctx.organizationId)
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  check(error);
+
+  if (!data) throw new ApiError(404, "not_found", "Time entry not found");
+  return data;
+}
+
+async function listTimeEntries(ctx: ApiContext, request: ApiRequest): Promise<ApiResponse> {
+  const range = pagination(request.query);
+  let query = ctx.client
+    .from("time_entries")
+    .select(TIME_ENTRY_COLUMNS, { count: "exact" })
+    .eq("organization_id", ctx.organizationId)
+    .is("deleted_at", null);
+
+  const userId = uuidParam(ctx, request.query, "user_id");
+  const projectId = uuidParam(ctx, request.query, "project_id");
+  const taskId = uuidParam(ctx, request.query, "task_id");
+  const from = timestampParam(request.query, "from");
+  const to = timestampParam(request.query, "to");
+
+  if (userId) query = query.eq("user_id", userId);
+  if (projectId) query = query.eq("project_id", projectId);
+  if (taskId) query = query.eq("task_id", taskId);
+  if (from) query = query.gte("start_time", from);
+  if (to) query = query.lt("start_time", to);
+
+  const { data, error, count } = await query
+    .order("start_time", { ascending: false })
+    .order("id")
+    .range(range.offset, range.offset + range.limit - 1);
+  check(error);
+
+  return page(data, count, range);
+}
+
+async function getTimeEntry(ctx: ApiContext, _request: ApiRequest, params: Params): Promise<ApiResponse> {
+  return { status: 200, body: { data: await findTimeEntry(ctx, params.id) } };
+}
+
+async function createTimeEntry(ctx: ApiContext, request: ApiRequest): Promise<ApiResponse> {
+  const fields = bodyFields(request, ["task_id", "project_id", "start_time", "end_time", "description", "is_billable"]);
+  const taskRef = optionalString(fields, "task_id");
+  const description = optionalString(fields, "description")?.trim() || "";
+  let projectId = optionalString(fields, "project_id") || null;
+
+  if (!taskRef && !projectId) {
+    throw new ApiError(422, "invalid_field", "task_id or project_id is required");
+  }
+  if (fields.is_billable !== undefined && typeof fields.is_billable !== "boolean") {
+    throw new ApiError(422, "invalid_field", "is_billable must be a boolean");
+  }
+
+  // task_id also takes a task code, and brings the task's project along
+  const task = taskRef ? await findTask(ctx, taskRef) : null;
+
+  if (projectId) {
+    if (!UUID_PATTERN.test(projectId)) throw new ApiError(422, "invalid_field", "project_id must be a UUID");
+
+    const { data: project, error: projectError } = await ctx.client
+      .from("projects")
+      .select("id")
+      .eq("organization_id", ctx.organizationId)
+      .eq("id", projectId)
+      .is("deleted_at", null)
+      .maybeSingle();
+    check(projectError);
+
+    if (!project) throw new ApiError(422, "invalid_field", "project_id is not a project of this organization");
+    if (task && task.project_id !== projectId) {
+      throw new ApiError(422, "invalid_field", "project_id must be the task's project");
+    }
+  }
+
+  projectId = projectId || task?.project_id || null;
+
+  const start = requiredTimestamp(fields, "start_time");
+  const end = requiredTimestamp(fields, "end_time");
+  const seconds = Math.round((end.getTime() - start.getTime()) / 1000);
+
+  if (end <= start) throw new ApiError(422, "invalid_field", "end_time must be after start_time");
+  if (end > new Date()) throw new ApiError(422, "invalid_field", "Cannot log time in the future");
+  if (seconds < 60) throw new ApiError(422, "invalid_field", "Duration must be at least 1 minute");
+  if (seconds > 4 * 3600 && !description) {
+    throw new ApiError(422, "invalid_field", "description is required for sessions longer than 4 hours");
+  }
+
+  const { data: hasOverlap, error: overlapError } = await ctx.client.rpc("check_time_entry_overlap", {
+    p_user_id: ctx.userId,
+    p_start_time: start.toISOString(),
+    p_end_time: end.toISOString(),
+  });
+  check(overlapError);
+  if (hasOverlap) throw new ApiError(409, "overlap", "Time entry overlaps with an existing entry");
+
+  const { data: canCreate, error: limitError } = await ctx.client.rpc("check_time_entry_limit", {
+    p_org_id: ctx.organizationId,
+    p_user_id: ctx.userId,
+  });
+  check(limitError);
+  if (!canCreate) {
+    throw new ApiError(403, "plan_limit", "Free plan allows max 100 time entries per month");
+  }
+
+  const { data, error } = await ctx.client
+    .from("time_entries")
+    .insert({
+      organization_id: ctx.organizationId,
+      user_id: ctx.userId,
+      task_id: task?.id || null,
+      project_id: projectId,
+      timer_type: "manual",
+      start_time: start.toISOString(),
+      end_time: end.toISOString(),
+      duration_seconds: seconds,
+      description,
+      is_billable: (fields.is_billable as boolean | undefined) ?? true,
+    })
+    .select(TIME_ENTRY_COLUMNS)
+    .single();
+  check(error);
+
+  if (task) {
+    await ctx.client.rpc("update_task_actual_hours", { p_task_id: task.id });
+  }
+
+  return { status: 201, body: { data } };
+}
+
+async function deleteTimeEntry(ctx: ApiContext, _request: ApiRequest, params: Params): Promise<ApiResponse> {
+  const entry = await findTimeEntry(ctx, params.id);
+
+  const { data, error } = await ctx.client
+    .from("time_entries")
+    .update({ deleted_at: new Date().toISOString() })
+    .eq("id", entry.id)
+    .select("id")
+    .maybeSingle();
+  check(error);
+
+  if (!data) {
+    throw new ApiError(403, "forbidden", "This time entry can't be deleted (approved, or on a submitted timesheet)");
+  }
+
+  if (entry.task_id) {
+    await ctx.client.rpc("update_task_actual_hours", { p_task_id: entry.task_id });
+  }
+
+  return { status: 204 };
+}
+
+// ============================================================
+// Timesheets
+// ============================================================
+
+async function findTimesheet(ctx: ApiContext, id: string) {
+  if (!UUID_PATTERN.test(id)) throw new ApiError(404, "not_found", "Timesheet not found");
+
+  const { data, error } = await ctx.client
+    .from("timesheets")
+    .select(TIMESHEET_COLUMNS)
+    .eq("organization_id", ctx.organizationId)
+    .eq("id", id)
+    .is("deleted_at", null)
+    .maybeSingle();
+  check(error);
+
+  if (!data) throw new ApiError(404, "not_found", "Timesheet not found");
+  return data;
+}
+
+async function listTimesheets(ctx: ApiContext, request: ApiRequest): Promise<ApiResponse> {
+  const range = pagination(request.query);
+  let query = ctx.client
+    .from("timesheets")
+    .select(TIMESHEET_COLUMNS, { count: "exact" })
+    .eq("organization_id", ctx.organizationId)
+    .is("deleted_at", null);
+
+  const userId = uuidParam(ctx, request.query, "user_id");
+  const status = request.query.get("status");
+  const weekStart = request.query.get("week_start");
+
+  if (weekStart !== null && !DATE_PATTERN.test(weekStart)) {
+    throw new ApiError(400, "invalid_parameter", "week_start must be a date (YYYY-MM-DD)");
+  }
+
+  if (userId) query = query.eq("user_id", userId);
+  if (status) query = query.eq("status", status);
+  if (weekStart) query = query.eq("week_start_date", weekStart);
+
+  const { data, error, count } = await query
+    .order("week_start_date", { ascending: false })
+    .order("id")
+    .range(range.offset, range.offset + range.limit - 1);
+  check(error);
+
+  return page(data, count, range);
+}
+
+async function getTimesheet(ctx: ApiContext, _request: ApiRequest, params: Params): Promise<ApiResponse> {
+  return { status: 200, body: { data: await findTimesheet(ctx, params.id) } };
+}
+
+async function submitTimesheet(ctx: ApiContext, _request: ApiRequest, params: Params): Promise<ApiResponse> {
+  const timesheet = await findTimesheet(ctx, params.id);
+
+  if (timesheet.user_id !== ctx.userId) {
+    throw new ApiError(403, "forbidden", "You can only submit your own timesheets");
+  }
+  if (timesheet.status !== "draft") {
+    throw new ApiError(409, "invalid_state", `The timesheet is already ${timesheet.status}`);
+  }
+
+  const { count, error: countError } = await ctx.client
+    .from("timesheet_entries")
+    .select("id", { count: "exact", head: true })
+    .eq("timesheet_id", timesheet.id);
+  check(countError);
+  if (!count) throw new ApiError(422, "empty_timesheet", "Cannot submit an empty timesheet");
+
+  const { data, error } = await ctx.client
+    .from("timesheets")
+    .update({ status: "submitted", submitted_at: new Date().toISOString(), rejection_reason: null })
+    .eq("id", timesheet.id)
+    .select(TIMESHEET_COLUMNS)
+    .maybeSingle();
+  check(error);
+
+  if (!data) throw new ApiError(409, "invalid_state", "The timesheet can't be submitted");
+  return { status: 200, body: { data } };
+}
+
+// ============================================================
+// Routing. Keep openApi.ts in step with this table.
+// ============================================================
+
+const ROUTES: Route[] = [
+  { method: "GET", pattern: "projects", scope: "read:projects", handler: listProjects },
+  { method: "GET", pattern: "projects/:id", scope: "read:projects", handler: getProject },
+  { method: "GET", pattern: "tasks", scope: "read:tasks", handler: listTasks },
+  { method: "POST", pattern: "tasks", scope: "write:tasks", handler: createTask },
+  { method: "GET", pattern: "tasks/:id", scope: "read:tasks", handler: getTask },
+  { method: "PATCH", pattern: "tasks/:id", scope: "write:tasks", handler: updateTask },
+  { method: "GET", pattern: "time_entries", scope: "read:time_entries", handler: listTimeEntries },
+  { method: "POST", pattern: "time_entries", scope: "write:time_entries", handler: createTimeEntry },
+  { method: "GET", pattern: "time_entries/:id", scope: "read:time_entries", handler: getTimeEntry },
+  { method: "DELETE", pattern: "time_entries/:id", scope: "write:time_entries", handler: deleteTimeEntry },
+  { method: "GET", pattern: "timesheets", scope: "read:timesheets", handler: listTimesheets },
+  { method: "GET", pattern: "timesheets/:id", scope: "read:timesheets", handler: getTimesheet },
+  { method: "POST", pattern: "timesheets/:id/submit", scope: "write:timesheets", handler: submitTimesheet },
+];
+
+function matchRoute(method: string, path: string): { route: Route; params: Params } {
+  let segments: string[];
+  try {
+    segments = path.split("/").filter(Boolean).map((segment) => decodeURIComponent(segment));
+  } catch {
+    throw new ApiError(400, "invalid_path", "The path is not correctly URL-encoded");
+  }
+  let pathExists = false;
+
+  for (const route of ROUTES) {
+    const parts = route.pattern.split("/");
+    if (parts.length !== segments.length) continue;
+
+    const params: Params = {};
+    const matches = parts.every((part, index) => {
+      if (part.startsWith(":")) {
+        params[part.slice(1)] = segments[index];
+        return true;
+      }
+      return part === segments[index];
+    });
+    if (!matches) continue;
+
+    pathExists = true;
+    if (route.method === method) return { route, params };
+  }
+
+  throw pathExists
+    ? new ApiError(405, "method_not_allowed", `${method} is not supported here`)
+    : new ApiError(404, "not_found", "No such endpoint");
+}
+
+/** Routes an authenticated request. Failures are thrown as ApiError. */
+export async function handleApiRequest(ctx: ApiContext, request: ApiRequest): Promise<ApiResponse> {
+  const { route, params } = matchRoute(request.method, request.path);
+
+  if (!ctx.scopes.includes(route.scope)) {
+    throw new ApiError(403, "insufficient_scope", `This token needs the ${route.scope} scope`);
+  }
+
+  return route.handler(ctx, request, params);
+}
@@ -0,0 +1,163 @@
+// Shared with the run-report-schedules edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { eachDayOfInterval, isWeekend, max as maxDate, min as minDate, parseISO } from "date-fns";
+import type { Database } from "../integrations/supabase/types.ts";
+
+export type Sprint = Database["public"]["Tables"]["sprints"]["Row"];
+export type SprintStats = Database["public"]["Functions"]["get_sprint_stats"]["Returns"][number];
+export type TimeOff = Database["public"]["Tables"]["time_off"]["Row"];
+
+export interface VelocityStats {
+  /** Completed sprints the figures are based on */
+  sprints: number;
+  average: number;
+  variance: number;
+  stdDev: number;
+}
+
+export const SPRINT_STATUS_LABELS: Record<string, string> = {
+  planned: "Planned",
+  active: "Active",
+  completed: "Completed",
+};
+
+/**
+ * Average and (population) variance of the completed hours of completed
+ * sprints. Running and planned sprints would drag the average down.
+ */
+export function velocityStats(stats: SprintStats[]): VelocityStats {
+  const velocities = stats
+    .filter(sprint => sprint.status === "completed")
+    .map(sprint => Number(sprint.completed_hours));
+
+  if (velocities.length === 0) {
+    return { sprints: 0, average: 0, variance: 0, stdDev: 0 };
+  }
+
+  const average = velocities.reduce((sum, value) => sum + value, 0) / velocities.length;
+  const variance = velocities.reduce((sum, value) => sum + (value - average) ** 2, 0) / velocities.length;
+
+  return { sprints: velocities.length, average, variance, stdDev: Math.sqrt(variance) };
+}
+
+/** Completed hours as a percentage of the hours committed at sprint start */
+export function completionRate(sprint: SprintStats): number | null {
+  const committed = Number(sprint.committed_hours);
+  if (committed <= 0) return null;
+  return (Number(sprint.completed_hours) / committed) * 100;
+}
+
+export type BacklogTask = Pick<
+  Database["public"]["Tables"]["tasks"]["Row"],
+  "id" | "code" | "title" | "status" | "priority" | "estimated_hours" | "assigned_to" | "project_id"
+>;
+
+/**
+ * Open tasks that can be pulled into the sprint: tasks of the sprint's
+ * project, or of the projects assigned to its team, that aren't in another
+ * open sprint already.
+ */
+export async function fetchSprintBacklog(client: SupabaseClient<Database>, sprint: Sprint): Promise<BacklogTask[]> {
+  let projectIds = sprint.project_id ? [sprint.project_id] : [];
+  if (!sprint.project_id && sprint.team_id) {
+    const { data } = await client.from("project_teams").select("project_id").eq("team_id", sprint.team_id);
+    projectIds = (data || []).map(pt => pt.project_id);
+  }
+
+  if (projectIds.length === 0) return [];
+
+  const [{ data: tasks, error }, { data: planned }] = await Promise.all([
+    client
+      .from("tasks")
+      .select("id, code, title, status, priority, estimated_hours, assigned_to, project_id")
+      .eq("organization_id", sprint.organization_id)
+      .in("project_id", projectIds)
+      .not("status_category", "in", "(done,archived)")
+      .is("deleted_at", null)
+      .order("created_at"),
+    client
+      .from("sprint_tasks")
+      .select("task_id, sprints!sprint_tasks_sprint_id_fkey!inner(status)")
+      .neq("sprints.status", "completed"),
+  ]);
+
+  if (error) throw error;
+
+  const taken = new Set((planned || []).map(row => row.task_id));
+  return (tasks || []).filter(task => !taken.has(task.id));
+}
+
+export interface MemberCapacity {
+  userId: string;
+  /** Weekdays in the sprint */
+  workingDays: number;
+  /** Weekdays in the sprint the member is away */
+  daysOff: number;
+  capacityHours: number;
+}
+
+export const TIME_OFF_KIND_LABELS: Record<string, string> = {
+  vacation: "Vacation",
+  sick: "Sick leave",
+  holiday: "Holiday",
+  other: "Other",
+};
+
+function weekdaysBetween(start: Date, end: Date): Date[] {
+  if (end < start) return [];
+  return eachDayOfInterval({ start, end }).filter(day => !isWeekend(day));
+}
+
+/**
+ * Hours each member can work in the sprint: the organization's weekly
+ * hours spread over Monday to Friday, without the weekdays they have time
+ * off. Overlapping time off entries count each day once.
+ */
+export function sprintCapacity(
+  sprint: Pick<Sprint, "start_date" | "end_date">,
+  hoursPerWeek: number,
+  userIds: string[],
+  timeOff: Pick<TimeOff, "user_id" | "start_date" | "end_date">[]
+): MemberCapacity[] {
+  const sprintStart = parseISO(sprint.start_date);
+  const sprintEnd = parseISO(sprint.end_date);
+  const workingDays = weekdaysBetween(sprintStart, sprintEnd).length;
+  const hoursPerDay = hoursPerWeek / 5;
+
+  return userIds.map(userId => {
+    const daysOff = new Set<string>();
+    for (const entry of timeOff) {
+      if (entry.user_id !== userId) continue;
+      const start = maxDate([sprintStart, parseISO(entry.start_date)]);
+      const end = minDate([sprintEnd, parseISO(entry.end_date)]);
+      weekdaysBetween(start, end).forEach(day => daysOff.add(day.toDateString()));
+    }
+
+    return {
+      userId,
+      workingDays,
+      daysOff: daysOff.size,
+      capacityHours: (workingDays - daysOff.size) * hoursPerDay,
+    };
+  });
+}
+
+/**
+ * Members who work on the sprint: the sprint's team, or the teams assigned
+ * to its project.
+ */
+export async function fetchSprintMemberIds(client: SupabaseClient<Database>, sprint: Sprint): Promise<string[]> {
+  let teamIds = sprint.team_id ? [sprint.team_id] : [];
+  if (!sprint.team_id && sprint.project_id) {
+    const { data } = await client.from("project_teams").select("team_id").eq("project_id", sprint.project_id);
+    teamIds = (data || []).map(pt => pt.team_id);
+  }
+
+  if (teamIds.length === 0) return [];
+
+  const { data, error } = await client.from("team_members").select("user_id").in("team_id", teamIds);
+  if (error) throw error;
+
+  return [...new Set((data || []).map(member => member.user_id))];
+}
@@ -0,0 +1,438 @@
+import { addDays, endOfWeek, format, parseISO, startOfDay } from "date-fns";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database, Json } from "../integrations/supabase/types.ts";
+
+export type TaskView = Database["public"]["Tables"]["task_views"]["Row"];
+export type ViewVisibility = "personal" | "shared";
+
+export type FilterField =
+  | "status"
+  | "status_category"
+  | "priority"
+  | "task_type"
+  | "assignee"
+  | "assignee_team"
+  | "project"
+  | "created_by"
+  | "watcher"
+  | "due_date"
+  | "estimate"
+  | "title";
+
+export type FilterOperator =
+  | "is"
+  | "is_not"
+  | "overdue"
+  | "due_within"
+  | "before"
+  | "after"
+  | "between"
+  | "is_empty"
+  | "over_estimate"
+  | "within_estimate"
+  | "no_estimate"
+  | "contains";
+
+/**
+ * One condition of a view; a task has to match all of them. `value` holds
+ * ids or keys for "is"/"is_not", dates (yyyy-MM-dd) for date operators, a
+ * day count for "due_within" and the search text for "contains".
+ */
+export interface FilterCondition {
+  field: FilterField;
+  operator: FilterOperator;
+  value: string[];
+}
+
+/** Stand-ins for the signed-in user, their teams and empty values */
+export const ME = "me";
+export const MY_TEAMS = "my_teams";
+export const NONE = "none";
+
+export type TaskColumn =
+  | "code"
+  | "title"
+  | "status"
+  | "priority"
+  | "task_type"
+  | "assignee"
+  | "project"
+  | "due_date"
+  | "estimate"
+  | "subtasks";
+
+export type SortField = "code" | "title" | "status" | "priority" | "due_date" | "estimated_hours" | "actual_hours";
+export type GroupBy = "status_category" | "status" | "priority" | "task_type" | "assignee" | "project" | "due";
+
+export interface TaskSort {
+  field: SortField;
+  direction: "asc" | "desc";
+}
+
+/** Everything a view stores besides its name and visibility */
+export interface TaskViewState {
+  filters: FilterCondition[];
+  columns: TaskColumn[];
+  sort: TaskSort;
+  groupBy: GroupBy | null;
+}
+
+/** The task fields filters, sorting and grouping look at */
+export interface FilterableTask {
+  id: string;
+  code: string;
+  title: string;
+  status: string;
+  status_category: string;
+  priority: string;
+  task_type: string;
+  assigned_to: string | null;
+  assignee_name: string | null;
+  assignee_email: string | null;
+  created_by: string;
+  project_id: string | null;
+  project_name: string | null;
+  due_date: string | null;
+  estimated_hours: number | null;
+  actual_hours: number;
+}
+
+export interface FilterContext {
+  userId: string;
+  /** Team id to member user ids */
+  teamMembers: Map<string, Set<string>>;
+  /** Task id to watcher user ids */
+  watchers: Map<string, Set<string>>;
+  today?: Date;
+}
+
+export const FILTER_FIELDS: Record<FilterField, { label: string; operators: FilterOperator[] }> = {
+  status: { label: "Status", operators: ["is", "is_not"] },
+  status_category: { label: "Status category", operators: ["is", "is_not"] },
+  priority: { label: "Priority", operators: ["is", "is_not"] },
+  task_type: { label: "Type", operators: ["is", "is_not"] },
+  assignee: { label: "Assignee", operators: ["is", "is_not"] },
+  assignee_team: { label: "Assignee's team", operators: ["is", "is_not"] },
+  project: { label: "Project", operators: ["is", "is_not"] },
+  created_by: { label: "Creator", operators: ["is", "is_not"] },
+  watcher: { label: "Watched by", operators: ["is", "is_not"] },
+  due_date: { label: "Due date", operators: ["overdue", "due_within", "before", "after", "between", "is_empty"] },
+  estimate: { label: "Estimate", operators: ["over_estimate", "within_estimate", "no_estimate"] },
+  title: { label: "Title", operators: ["contains"] },
+};
+
+export const OPERATOR_LABELS: Record<FilterOperator, string> = {
+  is: "is any of",
+  is_not: "is none of",
+  overdue: "is overdue",
+  due_within: "is within the next",
+  before: "is before",
+  after: "is after",
+  between: "is between",
+  is_empty: "is not set",
+  over_estimate: "is exceeded",
+  within_estimate: "is not exceeded",
+  no_estimate: "is not set",
+  contains: "contains",
+};
+
+export const COLUMN_LABELS: Record<TaskColumn, string> = {
+  code: "Code",
+  title: "Title",
+  status: "Status",
+  priority: "Priority",
+  task_type: "Type",
+  assignee: "Assignee",
+  project: "Project",
+  due_date: "Due",
+  estimate: "Estimate / Actual",
+  subtasks: "Subtasks",
+};
+
+export const SORT_LABELS: Record<SortField, string> = {
+  code: "Code",
+  title: "Title",
+  status: "Status",
+  priority: "Priority",
+  due_date: "Due date",
+  estimated_hours: "Estimate",
+  actual_hours: "Time spent",
+};
+
+export const GROUP_LABELS: Record<GroupBy, string> = {
+  status_category: "Status category",
+  status: "Status",
+  priority: "Priority",
+  task_type: "Type",
+  assignee: "Assignee",
+  project: "Project",
+  due: "Due date",
+};
+
+export const PRIORITY_RANK: Record<string, number> = { urgent: 0, high: 1, medium: 2, low: 3 };
+
+export const DEFAULT_VIEW_STATE: TaskViewState = {
+  filters: [],
+  columns: ["code", "title", "status", "priority", "assignee", "due_date"],
+  sort: { field: "code", direction: "asc" },
+  groupBy: null,
+};
+
+/** Operators that take no value */
+export function operatorNeedsValue(operator: FilterOperator): boolean {
+  return !["overdue", "is_empty", "over_estimate", "within_estimate", "no_estimate"].includes(operator);
+}
+
+/** Conditions still missing their value are ignored rather than matching nothing */
+export function isComplete(condition: FilterCondition): boolean {
+  if (!operatorNeedsValue(condition.operator)) return true;
+  if (condition.operator === "between") return condition.value.length === 2 && condition.value.every(Boolean);
+  return condition.value.length > 0 && condition.value.every(Boolean);
+}
+
+function memberMatches(userId: string | null, values: string[], ctx: FilterContext): boolean {
+  return values.some(value => {
+    if (value === NONE) return userId === null;
+    if (value === ME) return userId === ctx.userId;
+    return userId === value;
+  });
+}
+
+function teamMatches(userId: string | null, values: string[], ctx: FilterContext): boolean {
+  if (!userId) return false;
+  const teamIds = values.flatMap(value =>
+    value === MY_TEAMS
+      ? Array.from(ctx.teamMembers).filter(([, members]) => members.has(ctx.userId)).map(([teamId]) => teamId)
+      : [value]
+  );
+  return teamIds.some(teamId => ctx.teamMembers.get(teamId)?.has(userId));
+}
+
+function listMatches(task: FilterableTask, condition: FilterCondition, ctx: FilterContext): boolean {
+  const { field, value } = condition;
+
+  switch (field) {
+    case "status":
+      return value.includes(task.status);
+    case "status_category":
+      return value.includes(task.status_category);
+    case "priority":
+      return value.includes(task.priority);
+    case "task_type":
+      return value.includes(task.task_type);
+    case "project":
+      return value.includes(task.project_id || NONE);
+    case "assignee":
+      return memberMatches(task.assigned_to, value, ctx);
+    case "created_by":
+      return memberMatches(task.created_by, value, ctx);
+    case "assignee_team":
+      return teamMatches(task.assigned_to, value, ctx);
+    case "watcher": {
+      const watchers = ctx.watchers.get(task.id);
+      return value.some(userId => watchers?.has(userId === ME ? ctx.userId : userId));
+    }
+    default:
+      return false;
+  }
+}
+
+function conditionMatches(task: FilterableTask, condition: FilterCondition, ctx: FilterContext): boolean {
+  const today = format(ctx.today || new Date(), "yyyy-MM-dd");
+  const [first, second] = condition.value;
+
+  switch (condition.operator) {
+    case "is":
+      return listMatches(task, condition, ctx);
+    case "is_not":
+      return !listMatches(task, condition, ctx);
+    case "overdue":
+      return !!task.due_date && task.due_date < today && task.status_category !== "done";
+    case "due_within":
+      return !!task.due_date && task.due_date >= today
+        && task.due_date <= format(addDays(parseISO(today), Number(first)), "yyyy-MM-dd");
+    case "before":
+      return !!task.due_date && task.due_date < first;
+    case "after":
+      return !!task.due_date && task.due_date > first;
+    case "between":
+      return !!task.due_date && task.due_date >= first && task.due_date <= second;
+    case "is_empty":
+      return !task.due_date;
+    case "over_estimate":
+      return !!task.estimated_hours && task.actual_hours > task.estimated_hours;
+    case "within_estimate":
+      return !!task.estimated_hours && task.actual_hours <= task.estimated_hours;
+    case "no_estimate":
+      return !task.estimated_hours;
+    case "contains": {
+      const text = first.toLowerCase();
+      return task.title.toLowerCase().includes(text) || task.code.toLowerCase().includes(text);
+    }
+  }
+}
+
+export function matchesFilters(task: FilterableTask, filters: FilterCondition[], ctx: FilterContext): boolean {
+  return filters.filter(isComplete).every(condition => conditionMatches(task, condition, ctx));
+}
+
+/** `statusPosition` orders statuses by their workflow position */
+export function sortTasks<T extends FilterableTask>(
+  tasks: T[],
+  sort: TaskSort,
+  statusPosition: (task: T) => number
+): T[] {
+  const direction = sort.direction === "asc" ? 1 : -1;
+
+  const value = (task: T): string | number | null => {
+    switch (sort.field) {
+      case "priority":
+        return PRIORITY_RANK[task.priority] ?? 99;
+      case "status":
+        return statusPosition(task);
+      case "title":
+        return task.title.toLowerCase();
+      default:
+        return task[sort.field];
+    }
+  };
+
+  return [...tasks].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    // Tasks without the value go last either way
+    if (left === null && right === null) return a.code.localeCompare(b.code);
+    if (left === null) return 1;
+    if (right === null) return -1;
+    if (typeof left === "string" && typeof right === "string" && left !== right) {
+      return left.localeCompare(right, undefined, { numeric: true }) * direction;
+    }
+    if (left < right) return -direction;
+    if (left > right) return direction;
+    return a.code.localeCompare(b.code, undefined, { numeric: true });
+  });
+}
+
+const DUE_BUCKETS = [
+  { key: "overdue", label: "Overdue" },
+  { key: "today", label: "Today" },
+  { key: "this_week", label: "This week" },
+  { key: "later", label: "Later" },
+  { key: "none", label: "No due date" },
+];
+
+function dueBucket(task: FilterableTask, today: Date): string {
+  if (!task.due_date) return "none";
+  const todayKey = format(today, "yyyy-MM-dd");
+  if (task.due_date < todayKey) return task.status_category === "done" ? "later" : "overdue";
+  if (task.due_date === todayKey) return "today";
+  if (task.due_date <= format(endOfWeek(today, { weekStartsOn: 1 }), "yyyy-MM-dd")) return "this_week";
+  return "later";
+}
+
+export interface TaskGroup<T> {
+  key: string;
+  label: string;
+  tasks: T[];
+}
+
+/**
+ * Splits already sorted tasks into groups, keeping their order inside each
+ * group. `statusName` labels status groups, which are ordered by first
+ * appearance; the other groupings have a fixed order.
+ */
+export function groupTasks<T extends FilterableTask>(
+  tasks: T[],
+  groupBy: GroupBy,
+  statusName: (task: T) => string,
+  today: Date = startOfDay(new Date())
+): TaskGroup<T>[] {
+  const groups = new Map<string, TaskGroup<T>>();
+
+  const keyOf = (task: T): { key: string; label: string } => {
+    switch (groupBy) {
+      case "status_category":
+        return { key: task.status_category, label: task.status_category.replace(/^\w/, c => c.toUpperCase()) };
+      case "status":
+        return { key: task.status, label: statusName(task) };
+      case "priority":
+        return { key: task.priority, label: task.priority.replace(/^\w/, c => c.toUpperCase()) };
+      case "task_type":
+        return { key: task.task_type, label: task.task_type.replace(/^\w/, c => c.toUpperCase()) };
+      case "assignee":
+        return task.assigned_to
+          ? { key: task.assigned_to, label: task.assignee_name || task.assignee_email || "Unknown" }
+          : { key: NONE, label: "Unassigned" };
+      case "project":
+        return task.project_id
+          ? { key: task.project_id, label: task.project_name || "Unknown project" }
+          : { key: NONE, label: "No project" };
+      case "due": {
+        const bucket = DUE_BUCKETS.find(b => b.key === dueBucket(task, today))!;
+        return { key: bucket.key, label: bucket.label };
+      }
+    }
+  };
+
+  for (const task of tasks) {
+    const { key, label } = keyOf(task);
+    if (!groups.has(key)) groups.set(key, { key, label, tasks: [] });
+    groups.get(key)!.tasks.push(task);
+  }
+
+  const result = Array.from(groups.values());
+  const order: Partial<Record<GroupBy, string[]>> = {
+    status_category: ["backlog", "active", "done", "archived"],
+    priority: ["urgent", "high", "medium", "low"],
+    due: DUE_BUCKETS.map(bucket => bucket.key),
+  };
+  const fixed = order[groupBy];
+
+  if (fixed) {
+    return result.sort((a, b) => fixed.indexOf(a.key) - fixed.indexOf(b.key));
+  }
+  if (groupBy === "status") return result;
+  // Named groups alphabetically, the "none" group last
+  return result.sort((a, b) => (a.key === NONE ? 1 : b.key === NONE ? -1 : a.label.localeCompare(b.label)));
+}
+
+export async function fetchTaskViews(client: SupabaseClient<Database>, organizationId: string): Promise<TaskView[]> {
+  const { data, error } = await client
+    .from("task_views")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("name");
+
+  if (error) throw error;
+  return data || [];
+}
+
+export function viewState(view: TaskView): TaskViewState {
+  return {
+    filters: (view.filters as unknown as FilterCondition[]) || [],
+    columns: (view.columns as TaskColumn[]) || DEFAULT_VIEW_STATE.columns,
+    sort: (view.sort as unknown as TaskSort) || DEFAULT_VIEW_STATE.sort,
+    groupBy: (view.group_by as GroupBy) || null,
+  };
+}
+
+/** Compares what a view would store, ignoring unfinished conditions */
+export function sameViewState(a: TaskViewState, b: TaskViewState): boolean {
+  const normalize = (state: TaskViewState) => [
+    state.filters.filter(isComplete).map(f => [f.field, f.operator, f.value]),
+    state.columns,
+    [state.sort.field, state.sort.direction],
+    state.groupBy,
+  ];
+  return JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+}
+
+/** Columns to write when saving a view */
+export function viewRecord(state: TaskViewState) {
+  return {
+    filters: state.filters.filter(isComplete) as unknown as Json,
+    columns: state.columns,
+    sort: state.sort as unknown as Json,
+    group_by: state.groupBy,
+  };
+}
@@ -0,0 +1,63 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../integrations/supabase/types.ts";
+
+export type Template = Database["public"]["Tables"]["templates"]["Row"];
+export type TemplateTask = Database["public"]["Tables"]["template_tasks"]["Row"];
+export type TemplateKind = "project" | "task";
+
+export interface TemplateSummary extends Template {
+  task_count: number;
+}
+
+export interface TemplateDetails {
+  /** Top-level tasks in order, each followed by its subtasks */
+  tasks: (TemplateTask & { depth: number })[];
+  teamIds: string[];
+}
+
+export const TEMPLATE_KIND_LABELS: Record<TemplateKind, string> = {
+  project: "Project",
+  task: "Task",
+};
+
+export async function fetchTemplates(
+  client: SupabaseClient<Database>,
+  organizationId: string,
+  kind?: TemplateKind
+): Promise<TemplateSummary[]> {
+  let query = client
+    .from("templates")
+    .select("*, template_tasks(count)")
+    .eq("organization_id", organizationId)
+    .order("name");
+
+  if (kind) query = query.eq("kind", kind);
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map(({ template_tasks, ...template }) => ({
+    ...template,
+    task_count: (template_tasks as unknown as { count: number }[])[0]?.count || 0,
+  }));
+}
+
+export async function fetchTemplateDetails(client: SupabaseClient<Database>, templateId: string): Promise<TemplateDetails> {
+  const [{ data: tasks, error }, { data: teams, error: teamsError }] = await Promise.all([
+    client.from("template_tasks").select("*").eq("template_id", templateId).order("position"),
+    client.from("template_teams").select("team_id").eq("template_id", templateId),
+  ]);
+
+  if (error) throw error;
+  if (teamsError) throw teamsError;
+
+  const ordered: TemplateDetails["tasks"] = [];
+  for (const root of (tasks || []).filter(task => !task.parent_id)) {
+    ordered.push({ ...root, depth: 0 });
+    for (const child of (tasks || []).filter(task => task.parent_id === root.id)) {
+      ordered.push({ ...child, depth: 1 });
+    }
+  }
+
+  return { tasks: ordered, teamIds: (teams || []).map(team => team.team_id) };
+}
@@ -0,0 +1,261 @@
+// Shared with the deliver-webhooks edge function (Deno): keep imports
+// relative with extensions and don't import the browser client.
+import type { Database } from "../integrations/supabase/types.ts";
+
+export type WebhookEndpoint = Database["public"]["Tables"]["webhook_endpoints"]["Row"];
+export type WebhookDelivery = Database["public"]["Tables"]["webhook_deliveries"]["Row"];
+export type ClaimedWebhookDelivery = Database["public"]["Functions"]["claim_webhook_deliveries"]["Returns"][number];
+export type WebhookDeliveryStatus = "pending" | "succeeded" | "failed";
+
+export type WebhookEventType =
+  | "task.created"
+  | "task.updated"
+  | "task.status_changed"
+  | "time_entry.created"
+  | "timesheet.submitted"
+  | "timesheet.approved"
+  | "timesheet.rejected"
+  | "project.created";
+
+// Kept in sync with the CHECK on webhook_endpoints.events
+export const WEBHOOK_EVENTS: Record<WebhookEventType, { label: string; description: string }> = {
+  "task.created": { label: "Task created", description: "A task is created" },
+  "task.updated": { label: "Task updated", description: "Any change to a task, including status changes" },
+  "task.status_changed": { label: "Task status changed", description: "A task moves to another status" },
+  "time_entry.created": { label: "Time entry created", description: "Time is logged" },
+  "timesheet.submitted": { label: "Timesheet submitted", description: "A timesheet is submitted for approval" },
+  "timesheet.approved": { label: "Timesheet approved", description: "A timesheet is approved" },
+  "timesheet.rejected": { label: "Timesheet rejected", description: "A timesheet is sent back" },
+  "project.created": { label: "Project created", description: "A project is created" },
+};
+
+/** Sent by the "Send test event" button; never retried */
+export const WEBHOOK_TEST_EVENT = "webhook.test";
+
+export const WEBHOOK_MAX_ATTEMPTS = 8;
+
+const REQUEST_TIMEOUT_MS = 10_000;
+const RESPONSE_BODY_LIMIT = 2_000;
+
+/** Exponential backoff after the nth failed attempt: 1, 2, 4 ... minutes, at most 4 hours */
+export function retryDelaySeconds(attempt: number): number {
+  return Math.min(60 * 2 ** (attempt - 1), 4 * 60 * 60);
+}
+
+/**
+ * Hex HMAC-SHA256 of `${timestamp}.${body}` keyed with the endpoint secret.
+ * Receivers recompute it from the raw request body and the `t` part of the
+ * X-Webhook-Signature header, and should reject stale timestamps.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/** Resolves a hostname to its IP addresses, e.g. with Deno.resolveDns */
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * Why webhooks can't be sent to `url`, or null if they can. The delivery
+ * worker runs inside the backend's network, so only https URLs of public
+ * hosts are allowed: no loopback, link-local (cloud metadata) or private
+ * addresses.
+ */
+export function webhookUrlError(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return "The URL is not valid";
+  }
+
+  if (parsed.protocol !== "https:") return "The URL must use https";
+
+  const host = parsed.hostname.toLowerCase().replace(/^\[|\]$/g, "").replace(/\.$/, "");
+  if (host === "localhost" || /\.(localhost|local|internal)$/.test(host) || isPrivateAddress(host)) {
+    return "The URL must point to a public host";
+  }
+
+  return null;
+}
+
+/** True for IPv4/IPv6 literals that aren't publicly routable; false for hostnames */
+export function isPrivateAddress(address: string): boolean {
+  const ipv4 = parseIpv4(address);
+  if (ipv4) return isPrivateIpv4(ipv4);
+
+  const ipv6 = parseIpv6(address);
+  if (!ipv6) return false;
+
+  // IPv4-mapped (::ffff:a.b.c.d) and IPv4-compatible (::a.b.c.d) addresses
+  if (ipv6.slice(0, 5).every(part => part === 0) && (ipv6[5] === 0xffff || ipv6[5] === 0)) {
+    return isPrivateIpv4([ipv6[6] >> 8, ipv6[6] & 0xff, ipv6[7] >> 8, ipv6[7] & 0xff]);
+  }
+
+  return (
+    (ipv6[0] & 0xfe00) === 0xfc00 || // unique local fc00::/7
+    (ipv6[0] & 0xffc0) === 0xfe80 || // link-local fe80::/10
+    (ipv6[0] & 0xff00) === 0xff00 // multicast ff00::/8
+  );
+}
+
+function parseIpv4(address: string): number[] | null {
+  const match = address.match(/^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})$/);
+  if (!match) return null;
+  const octets = match.slice(1).map(Number);
+  return octets.every(octet => octet <= 255) ? octets : null;
+}
+
+function isPrivateIpv4([a, b]: number[]): boolean {
+  return (
+    a === 0 || // "this" network
+    a === 10 ||
+    a === 127 || // loopback
+    (a === 100 && b >= 64 && b <= 127) || // carrier-grade NAT
+    (a === 169 && b === 254) || // link-local, incl. cloud metadata
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168) ||
+    (a === 198 && (b === 18 || b === 19)) || // benchmarking
+    a >= 224 // multicast and reserved
+  );
+}
+
+/** The eight 16-bit groups of an IPv6 address, or null */
+function parseIpv6(address: string): number[] | null {
+  if (!address.includes(":")) return null;
+
+  let text = address;
+  // A trailing dotted IPv4 part stands for the last two groups
+  const embedded = text.match(/^(.*:)(\d{1,3}(?:\.\d{1,3}){3})$/);
+  if (embedded) {
+    const ipv4 = parseIpv4(embedded[2]);
+    if (!ipv4) return null;
+    text = `${embedded[1]}${((ipv4[0] << 8) | ipv4[1]).toString(16)}:${((ipv4[2] << 8) | ipv4[3]).toString(16)}`;
+  }
+
+  const halves = text.split("::");
+  if (halves.length > 2) return null;
+
+  const toGroups = (part: string) => (part ? part.split(":") : []);
+  const head = toGroups(halves[0]);
+  const tail = halves.length === 2 ? toGroups(halves[1]) : [];
+  const missing = 8 - head.length - tail.length;
+  if (halves.length === 2 ? missing < 1 : missing !== 0) return null;
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill("0"), ...tail];
+  if (!groups.every(group => /^[0-9a-f]{1,4}$/i.test(group))) return null;
+  return groups.map(group => parseInt(group, 16));
+}
+
+/** Why the addresses `url`'s host resolves to can't receive webhooks, or null */
+async function resolvedHostError(url: string, resolveHost: HostResolver): Promise<string | null> {
+  const host = new URL(url).hostname.replace(/^\[|\]$/g, "");
+  if (parseIpv4(host) || parseIpv6(host)) return null;
+
+  let addresses: string[];
+  try {
+    addresses = await resolveHost(host);
+  } catch {
+    addresses = [];
+  }
+
+  if (addresses.length === 0) return `Could not resolve ${host}`;
+  if (addresses.some(isPrivateAddress)) return `${host} resolves to a private address`;
+  return null;
+}
+
+export interface SendWebhookOptions {
+  /** Also checks the addresses the host resolves to before sending */
+  resolveHost?: HostResolver;
+  now?: Date;
+}
+
+export interface WebhookAttempt {
+  response_status: number | null;
+  response_body: string | null;
+  error: string | null;
+  duration_ms: number;
+}
+
+/**
+ * POSTs one delivery to its endpoint. Network errors, timeouts and URLs
+ * that fail webhookUrlError are reported, not thrown.
+ */
+export async function sendWebhook(
+  delivery: ClaimedWebhookDelivery,
+  { resolveHost, now = new Date() }: SendWebhookOptions = {}
+): Promise<WebhookAttempt> {
+  const urlError = webhookUrlError(delivery.url)
+    ?? (resolveHost ? await resolvedHostError(delivery.url, resolveHost) : null);
+  if (urlError) {
+    return { response_status: null, response_body: null, error: urlError, duration_ms: 0 };
+  }
+
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(now.getTime() / 1000);
+  const signature = await signWebhookPayload(delivery.secret, timestamp, body);
+  const started = Date.now();
+
+  try {
+    const response = await fetch(delivery.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "DevFlow-Webhooks/1.0",
+        "X-Webhook-Event": delivery.event_type,
+        "X-Webhook-Delivery": delivery.delivery_id,
+        "X-Webhook-Signature": `t=${timestamp},v1=${signature}`,
+      },
+      body,
+      // A redirect counts as a failed delivery rather than resending the payload elsewhere
+      redirect: "manual",
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+    const text = await response.text().catch(() => "");
+
+    return {
+      response_status: response.status,
+      response_body: text.slice(0, RESPONSE_BODY_LIMIT) || null,
+      error: response.ok ? null : `Endpoint responded with ${response.status}`,
+      duration_ms: Date.now() - started,
+    };
+  } catch (error) {
+    const timedOut = error instanceof Error && error.name === "TimeoutError";
+    return {
+      response_status: null,
+      response_body: null,
+      error: timedOut
+        ? `No response within ${REQUEST_TIMEOUT_MS / 1000}s`
+        : error instanceof Error ? error.message : String(error),
+      duration_ms: Date.now() - started,
+    };
+  }
+}
+
+/** The webhook_deliveries update recording an attempt, scheduling a retry when one is left */
+export function recordAttempt(
+  delivery: ClaimedWebhookDelivery,
+  attempt: WebhookAttempt,
+  now = new Date()
+): Database["public"]["Tables"]["webhook_deliveries"]["Update"] {
+  const attemptCount = delivery.attempt_count + 1;
+  const succeeded = attempt.response_status !== null && attempt.response_status >= 200 && attempt.response_status < 300;
+  const retry = !succeeded && delivery.event_type !== WEBHOOK_TEST_EVENT && attemptCount < WEBHOOK_MAX_ATTEMPTS;
+  const status: WebhookDeliveryStatus = succeeded ? "succeeded" : retry ? "pending" : "failed";
+
+  return {
+    ...attempt,
+    status,
+    attempt_count: attemptCount,
+    last_attempt_at: now.toISOString(),
+    next_attempt_at: retry ? new Date(now.getTime() + retryDelaySeconds(attemptCount) * 1000).toISOString() : null,
+  };
+}
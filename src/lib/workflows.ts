@@ -0,0 +1,149 @@
+// Kept importable from edge functions (Deno): keep imports relative with
+// extensions and don't import the browser client.
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "../integrations/supabase/types.ts";
+
+export type StatusCategory = "backlog" | "active" | "done";
+
+export interface WorkflowStatus {
+  key: string;
+  name: string;
+  category: StatusCategory;
+  color: string;
+  position: number;
+  wip_limit: number | null;
+}
+
+export interface WorkflowTransition {
+  from_status: string;
+  to_status: string;
+}
+
+export interface Workflow {
+  /** False for projects on the built-in workflow */
+  custom: boolean;
+  statuses: WorkflowStatus[];
+  /** Empty means every move is allowed */
+  transitions: WorkflowTransition[];
+}
+
+/** Outside every workflow: archiving and restoring is always allowed */
+export const ARCHIVED_STATUS = "archived";
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  backlog: "Backlog",
+  active: "Active",
+  done: "Done",
+};
+
+/** Keep in sync with project_workflow_statuses() in the database */
+export const DEFAULT_WORKFLOW: Workflow = {
+  custom: false,
+  statuses: [
+    { key: "todo", name: "To Do", category: "backlog", color: "#6B7280", position: 0, wip_limit: null },
+    { key: "in_progress", name: "In Progress", category: "active", color: "#3B82F6", position: 1, wip_limit: null },
+    { key: "in_review", name: "In Review", category: "active", color: "#F97316", position: 2, wip_limit: null },
+    { key: "blocked", name: "Blocked", category: "active", color: "#EF4444", position: 3, wip_limit: null },
+    { key: "done", name: "Done", category: "done", color: "#22C55E", position: 4, wip_limit: null },
+  ],
+  transitions: [],
+};
+
+/**
+ * Custom workflows of the organization's projects, keyed by project id.
+ * Projects missing from the map use DEFAULT_WORKFLOW.
+ */
+export async function fetchWorkflows(
+  client: SupabaseClient<Database>,
+  organizationId: string
+): Promise<Map<string, Workflow>> {
+  const { data: statuses, error } = await client
+    .from("workflow_statuses")
+    .select("project_id, key, name, category, color, position, wip_limit")
+    .eq("organization_id", organizationId)
+    .order("position");
+
+  if (error) throw error;
+
+  const workflows = new Map<string, Workflow>();
+  for (const { project_id, ...status } of statuses || []) {
+    if (!workflows.has(project_id)) {
+      workflows.set(project_id, { custom: true, statuses: [], transitions: [] });
+    }
+    workflows.get(project_id)!.statuses.push(status as WorkflowStatus);
+  }
+
+  if (workflows.size > 0) {
+    const { data: transitions, error: transitionsError } = await client
+      .from("workflow_transitions")
+      .select("project_id, from_status, to_status")
+      .in("project_id", [...workflows.keys()]);
+
+    if (transitionsError) throw transitionsError;
+
+    for (const { project_id, ...transition } of transitions || []) {
+      workflows.get(project_id)?.transitions.push(transition);
+    }
+  }
+
+  return workflows;
+}
+
+export async function fetchProjectWorkflow(client: SupabaseClient<Database>, projectId: string): Promise<Workflow> {
+  const [{ data: statuses, error }, { data: transitions, error: transitionsError }] = await Promise.all([
+    client
+      .from("workflow_statuses")
+      .select("key, name, category, color, position, wip_limit")
+      .eq("project_id", projectId)
+      .order("position"),
+    client
+      .from("workflow_transitions")
+      .select("from_status, to_status")
+      .eq("project_id", projectId),
+  ]);
+
+  if (error) throw error;
+  if (transitionsError) throw transitionsError;
+  if (!statuses || statuses.length === 0) return DEFAULT_WORKFLOW;
+
+  return { custom: true, statuses: statuses as WorkflowStatus[], transitions: transitions || [] };
+}
+
+export function workflowFor(workflows: Map<string, Workflow>, projectId: string | null): Workflow {
+  return (projectId && workflows.get(projectId)) || DEFAULT_WORKFLOW;
+}
+
+export function findStatus(workflow: Workflow, key: string): WorkflowStatus | undefined {
+  return workflow.statuses.find(status => status.key === key);
+}
+
+/** Title-cased key for statuses a workflow doesn't know (e.g. after a reset) */
+export function statusLabel(workflow: Workflow, key: string): string {
+  if (key === ARCHIVED_STATUS) return "Archived";
+  return findStatus(workflow, key)?.name || key.replace(/_/g, " ").replace(/^\w/, c => c.toUpperCase());
+}
+
+/**
+ * Mirrors the transition check of the enforce_task_workflow trigger so the
+ * UI only offers moves the server accepts. WIP limits and the subtask gate
+ * are left to the server.
+ */
+export function canTransition(workflow: Workflow, from: string, to: string): boolean {
+  if (from === to || from === ARCHIVED_STATUS || to === ARCHIVED_STATUS) return true;
+  if (!findStatus(workflow, to)) return false;
+  if (workflow.transitions.length === 0 || !findStatus(workflow, from)) return true;
+  return workflow.transitions.some(t => t.from_status === from && t.to_status === to);
+}
+
+/** Board column for a task whose status isn't in the workflow shown */
+export function fallbackStatus(workflow: Workflow, category: string): WorkflowStatus | undefined {
+  return workflow.statuses.find(status => status.category === category);
+}
+
+/** Position between two neighbours on the board; either may be missing */
+export function positionBetween(before?: number, after?: number): number {
+  if (before === undefined && after === undefined) return Date.now() / 1000;
+  if (before === undefined) return after! - 1;
+  if (after === undefined) return before + 1;
+  return (before + after) / 2;
+}
@@ -28,6 +28,7 @@ import Papa from 'papaparse';
 import { LineChart, Line, PieChart, Pie, BarChart, Bar, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, startOfYear, endOfYear, subWeeks, subMonths } from 'date-fns';
 import { PageLayout } from '@/components/PageLayout';
+import { fetchEntryFinancials, formatMoney, summarizeFinancials, type CurrencyTotals } from '@/lib/rates';
 
 const COLORS = {
   primary: '#3B82F6',
@@ -66,6 +67,7 @@ const Analytics = () => {
     velocity: 0,
   });
   
+  const [financialTotals, setFinancialTotals] = useState<CurrencyTotals[]>([]);
   const [hoursOverTime, setHoursOverTime] = useState<any[]>([]);
   const [tasksByStatus, setTasksByStatus] = useState<any[]>([]);
   const [hoursByProject, setHoursByProject] = useState<any[]>([]);
@@ -240,6 +242,15 @@ const Analytics = () => {
         velocity: 0,
       });
 
+      // Revenue, cost and margin from the rate cards
+      try {
+        const financials = await fetchEntryFinancials(supabase, timeEntries.map(e => e.id));
+        setFinancialTotals(summarizeFinancials(financials.values()));
+      } catch (error) {
+        console.error('Error loading financials:', error);
+        setFinancialTotals([]);
+      }
+
       // Process hours over time
       const dailyHours = timeEntries.reduce((acc: any, entry) => {
         const date = format(new Date(entry.start_time), 'MMM dd');
@@ -305,7 +316,7 @@ const Analytics = () => {
     // Fetch tasks by status
     let tasksQuery = supabase
       .from('tasks')
-      .select('status')
+      .select('status, status_category')
       .eq('organization_id', currentOrg.id)
       .gte('created_at', start)
       .lte('created_at', end)
@@ -337,7 +348,7 @@ const Analytics = () => {
       );
 
       // Update tasks completed KPI
-      const completedTasks = tasks.filter(t => t.status === 'done').length;
+      const completedTasks = tasks.filter(t => t.status_category === 'done').length;
       setKpis(prev => ({ ...prev, tasksCompleted: completedTasks }));
     }
   };
@@ -354,6 +365,7 @@ const Analytics = () => {
     let query = supabase
       .from('time_entries')
       .select(`
+        id,
         start_time,
         duration_seconds,
         description,
@@ -414,6 +426,7 @@ const Analytics = () => {
     const userMap = new Map((usersData || []).map(u => [u.user_id, u.email] as [string, string]));
     const projectMap = new Map((projectsData || []).map(p => [p.id, p.name] as [string, string]));
     const taskMap = new Map((tasksData || []).map(t => [t.id, t.code] as [string, string]));
+    const financials = await fetchEntryFinancials(supabase, timeEntries.map(e => e.id));
 
     // Format data for CSV
     const csvData = timeEntries.map(entry => ({
@@ -423,6 +436,9 @@ const Analytics = () => {
       'Task Code': entry.task_id ? taskMap.get(entry.task_id) || '' : '',
       'Duration (hours)': (entry.duration_seconds / 3600).toFixed(2),
       Billable: entry.is_billable ? 'TRUE' : 'FALSE',
+      Revenue: financials.get(entry.id)?.revenue ?? '',
+      Cost: financials.get(entry.id)?.cost ?? '',
+      Currency: financials.get(entry.id)?.bill_currency || financials.get(entry.id)?.cost_currency || '',
     }));
 
     // Generate CSV
@@ -636,6 +652,62 @@ const Analytics = () => {
           </Card>
         </div>
 
+        {/* Financials - only when rate cards resolve for the visible entries */}
+        {financialTotals.map(totals => (
+          <div key={totals.currency} className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Revenue ({totals.currency})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-success">
+                  {formatMoney(totals.revenue, totals.currency)}
+                </div>
+                <div className="mt-2 text-sm text-muted-foreground">
+                  Billable hours at bill rates
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Cost ({totals.currency})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="text-3xl font-bold text-foreground">
+                  {formatMoney(totals.cost, totals.currency)}
+                </div>
+                <div className="mt-2 text-sm text-muted-foreground">
+                  All hours at cost rates
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">
+                  Margin ({totals.currency})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-3xl font-bold ${totals.margin >= 0 ? 'text-success' : 'text-danger'}`}>
+                  {formatMoney(totals.margin, totals.currency)}
+                </div>
+                <div className="flex items-center gap-1 mt-2 text-sm text-muted-foreground">
+                  {totals.margin >= 0
+                    ? <TrendingUp className="h-4 w-4 text-success" />
+                    : <TrendingDown className="h-4 w-4 text-danger" />}
+                  {totals.marginPercentage !== null ? `${totals.marginPercentage}% of revenue` : 'No revenue'}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        ))}
+
         {/* Charts Row 1 */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mb-8">
           <Card>
@@ -0,0 +1,186 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentUser, getUserOrganizations, Organization } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Briefcase, Edit, Plus, Trash2 } from "lucide-react";
+import { PageLayout } from "@/components/PageLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { TableSkeleton } from "@/components/TableSkeleton";
+import { ClientDialog } from "@/components/ClientDialog";
+import type { Tables } from "@/integrations/supabase/types";
+
+type ClientRow = Tables<"clients"> & { projects: { count: number }[] };
+
+export default function Clients() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [activeOrg, setActiveOrg] = useState<Organization | null>(null);
+  const [clients, setClients] = useState<ClientRow[]>([]);
+  const [showDialog, setShowDialog] = useState(false);
+  const [editingClient, setEditingClient] = useState<Tables<"clients"> | null>(null);
+
+  const canManage = activeOrg?.role === "admin" || activeOrg?.role === "manager";
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  async function loadData() {
+    setLoading(true);
+    const user = await getCurrentUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const orgs = await getUserOrganizations();
+    if (orgs.length === 0) {
+      navigate("/onboarding");
+      return;
+    }
+
+    const activeOrgId = localStorage.getItem("activeOrgId");
+    const currentOrg = orgs.find(o => o.id === activeOrgId) || orgs[0];
+    setActiveOrg(currentOrg);
+
+    await loadClients(currentOrg.id);
+    setLoading(false);
+  }
+
+  async function loadClients(orgId: string) {
+    const { data, error } = await supabase
+      .from("clients")
+      .select("*, projects(count)")
+      .eq("organization_id", orgId)
+      .is("deleted_at", null)
+      .order("name");
+
+    if (error) {
+      console.error("Error loading clients:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load clients",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setClients((data || []) as ClientRow[]);
+  }
+
+  function openCreate() {
+    setEditingClient(null);
+    setShowDialog(true);
+  }
+
+  function openEdit(client: Tables<"clients">) {
+    setEditingClient(client);
+    setShowDialog(true);
+  }
+
+  async function handleArchive(client: ClientRow) {
+    if (!confirm(`Archive ${client.name}? Existing invoices are kept.`)) return;
+
+    const { error } = await supabase
+      .from("clients")
+      .update({ deleted_at: new Date().toISOString() })
+      .eq("id", client.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to archive client",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({ title: "Client archived" });
+    if (activeOrg) loadClients(activeOrg.id);
+  }
+
+  return (
+    <PageLayout
+      title="Clients"
+      breadcrumbs={[
+        { label: "Home", href: "/dashboard" },
+        { label: "Clients" }
+      ]}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <p className="text-muted-foreground">
+          Clients are billed for time tracked on their projects.
+        </p>
+        {canManage && (
+          <Button onClick={openCreate}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Client
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        {loading ? (
+          <TableSkeleton />
+        ) : clients.length === 0 ? (
+          <EmptyState
+            icon={Briefcase}
+            title="No clients yet"
+            description="Add a client and link projects to it to start invoicing tracked time."
+            actionLabel={canManage ? "New Client" : undefined}
+            onAction={canManage ? openCreate : undefined}
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Billing email</TableHead>
+                <TableHead>Currency</TableHead>
+                <TableHead>Terms</TableHead>
+                <TableHead className="text-right">Projects</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {clients.map(client => (
+                <TableRow key={client.id}>
+                  <TableCell className="font-medium">{client.name}</TableCell>
+                  <TableCell>{client.email || "—"}</TableCell>
+                  <TableCell>{client.currency}</TableCell>
+                  <TableCell>Net {client.payment_terms_days}</TableCell>
+                  <TableCell className="text-right">{client.projects[0]?.count || 0}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="sm" onClick={() => openEdit(client)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleArchive(client)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {activeOrg && (
+        <ClientDialog
+          open={showDialog}
+          onOpenChange={setShowDialog}
+          onSuccess={() => loadClients(activeOrg.id)}
+          organizationId={activeOrg.id}
+          client={editingClient}
+        />
+      )}
+    </PageLayout>
+  );
+}
@@ -6,6 +6,7 @@ import { Play, Plus, Calendar } from "lucide-react";
 import { useNavigate } from "react-router-dom";
 import { useTimer } from "@/contexts/TimerContext";
 import { CreateTaskDialog } from "@/components/CreateTaskDialog";
+import { BudgetAlertsCard } from "@/components/BudgetAlertsCard";
 import { useQuery } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { getCurrentOrganization } from "@/lib/auth";
@@ -115,6 +116,8 @@ export default function Dashboard() {
         </Card>
       </div>
 
+      <BudgetAlertsCard />
+
       {/* Recent Activity */}
       <Card className="p-6">
         <h2 className="text-xl font-semibold mb-4">Recent Activity</h2>
@@ -15,6 +15,9 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { getCurrentUser, getUserOrganizations, Organization } from '@/lib/auth';
+import { WebhooksCard } from '@/components/WebhooksCard';
+import { ApiTokensCard } from '@/components/ApiTokensCard';
+import { GitIntegrationsCard } from '@/components/GitIntegrationsCard';
 import { ArrowLeft, AlertTriangle, Clock } from 'lucide-react';
 
 const DeveloperSettings = () => {
@@ -55,16 +58,6 @@ const DeveloperSettings = () => {
     setCurrentOrg(activeOrg);
     setUserRole(activeOrg.role);
     setIsLoading(false);
-
-    // Only admins can access this page
-    if (activeOrg.role !== 'admin') {
-      toast({
-        title: 'Access Denied',
-        description: 'Only admins can access developer settings',
-        variant: 'destructive'
-      });
-      navigate('/settings');
-    }
   };
 
   const handleFullWipe = async () => {
@@ -166,9 +159,7 @@ const DeveloperSettings = () => {
     );
   }
 
-  if (userRole !== 'admin') {
-    return null;
-  }
+  const isAdmin = userRole === 'admin';
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-background via-background to-muted">
@@ -185,82 +176,93 @@ const DeveloperSettings = () => {
         <div className="space-y-6">
           <div>
             <h1 className="text-3xl font-bold mb-2">Developer Settings</h1>
-            <p className="text-muted-foreground">Advanced options for testing and development</p>
+            <p className="text-muted-foreground">API access, integrations and advanced options</p>
           </div>
 
-          {/* Danger Zone */}
-          <Card className="border-destructive">
-            <CardHeader>
-              <div className="flex items-center gap-2">
-                <AlertTriangle className="h-5 w-5 text-destructive" />
-                <CardTitle className="text-destructive">Danger Zone</CardTitle>
-              </div>
-              <CardDescription>
-                These actions are irreversible. Use with caution.
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-4">
-                <div className="flex items-start justify-between gap-4">
-                  <div className="flex-1">
-                    <h3 className="font-semibold mb-1">Reset Database</h3>
-                    <p className="text-sm text-muted-foreground">
-                      Delete all data for this organization (projects, tasks, time entries, etc.). 
-                      Organization and users remain intact.
-                    </p>
-                  </div>
-                  <Button
-                    variant="destructive"
-                    onClick={() => setShowResetDialog(true)}
-                    className="shrink-0"
-                  >
-                    ⚠️ Reset Database
-                  </Button>
+          {currentOrg && <ApiTokensCard organizationId={currentOrg.id} isAdmin={isAdmin} />}
+
+          {/* Integrations, the Danger Zone and organization info are admin-only */}
+          {isAdmin && currentOrg && <WebhooksCard organizationId={currentOrg.id} />}
+
+          {isAdmin && currentOrg && <GitIntegrationsCard organizationId={currentOrg.id} />}
+
+          {isAdmin && (
+            <>
+            {/* Danger Zone */}
+            <Card className="border-destructive">
+              <CardHeader>
+                <div className="flex items-center gap-2">
+                  <AlertTriangle className="h-5 w-5 text-destructive" />
+                  <CardTitle className="text-destructive">Danger Zone</CardTitle>
                 </div>
+                <CardDescription>
+                  These actions are irreversible. Use with caution.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex-1">
+                      <h3 className="font-semibold mb-1">Reset Database</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Delete all data for this organization (projects, tasks, time entries, etc.). 
+                        Organization and users remain intact.
+                      </p>
+                    </div>
+                    <Button
+                      variant="destructive"
+                      onClick={() => setShowResetDialog(true)}
+                      className="shrink-0"
+                    >
+                      ⚠️ Reset Database
+                    </Button>
+                  </div>
 
-                <div className="flex items-start justify-between gap-4 pt-4 border-t border-destructive">
-                  <div className="flex-1">
-                    <h3 className="font-semibold mb-1">Full Wipe (Nuclear Option)</h3>
-                    <p className="text-sm text-muted-foreground">
-                      Delete EVERYTHING: organization, all users, all data. 
-                      You will be logged out immediately.
-                    </p>
+                  <div className="flex items-start justify-between gap-4 pt-4 border-t border-destructive">
+                    <div className="flex-1">
+                      <h3 className="font-semibold mb-1">Full Wipe (Nuclear Option)</h3>
+                      <p className="text-sm text-muted-foreground">
+                        Delete EVERYTHING: organization, all users, all data. 
+                        You will be logged out immediately.
+                      </p>
+                    </div>
+                    <Button
+                      variant="destructive"
+                      onClick={() => setShowFullWipeDialog(true)}
+                      className="shrink-0"
+                    >
+                      💣 Full Wipe
+                    </Button>
                   </div>
-                  <Button
-                    variant="destructive"
-                    onClick={() => setShowFullWipeDialog(true)}
-                    className="shrink-0"
-                  >
-                    💣 Full Wipe
-                  </Button>
-                </div>
-              </div>
-            </CardContent>
-          </Card>
-
-          {/* Organization Info */}
-          <Card>
-            <CardHeader>
-              <CardTitle>Organization Info</CardTitle>
-              <CardDescription>Current organization details</CardDescription>
-            </CardHeader>
-            <CardContent>
-              <div className="space-y-2 text-sm">
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Name:</span>
-                  <span className="font-medium">{currentOrg?.name}</span>
                 </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">ID:</span>
-                  <span className="font-mono text-xs">{currentOrg?.id}</span>
-                </div>
-                <div className="flex justify-between">
-                  <span className="text-muted-foreground">Your Role:</span>
-                  <span className="font-medium capitalize">{userRole}</span>
+              </CardContent>
+            </Card>
+
+            {/* Organization Info */}
+            <Card>
+              <CardHeader>
+                <CardTitle>Organization Info</CardTitle>
+                <CardDescription>Current organization details</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Name:</span>
+                    <span className="font-medium">{currentOrg?.name}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">ID:</span>
+                    <span className="font-mono text-xs">{currentOrg?.id}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Your Role:</span>
+                    <span className="font-medium capitalize">{userRole}</span>
+                  </div>
                 </div>
-              </div>
-            </CardContent>
-          </Card>
+              </CardContent>
+            </Card>
+            </>
+          )}
         </div>
       </div>
 
@@ -0,0 +1,255 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentUser, getUserOrganizations, Organization } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { Ban, CheckCircle, Download, Send, Trash2 } from "lucide-react";
+import { PageLayout } from "@/components/PageLayout";
+import { InvoiceStatusBadge } from "@/components/InvoiceStatusBadge";
+import { formatMoney } from "@/lib/rates";
+import { downloadInvoicePdf, invoiceTitle } from "@/lib/invoicePdf";
+import type { Tables } from "@/integrations/supabase/types";
+
+export default function InvoiceDetails() {
+  const { invoiceId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState(false);
+  const [activeOrg, setActiveOrg] = useState<Organization | null>(null);
+  const [invoice, setInvoice] = useState<Tables<"client_invoices"> | null>(null);
+  const [client, setClient] = useState<Tables<"clients"> | null>(null);
+  const [lines, setLines] = useState<Tables<"client_invoice_lines">[]>([]);
+  const [taxes, setTaxes] = useState<Tables<"client_invoice_taxes">[]>([]);
+
+  useEffect(() => {
+    loadData();
+  }, [invoiceId]);
+
+  async function loadData() {
+    setLoading(true);
+    const user = await getCurrentUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const orgs = await getUserOrganizations();
+
+    const { data: invoiceData, error } = await supabase
+      .from("client_invoices")
+      .select("*")
+      .eq("id", invoiceId)
+      .maybeSingle();
+
+    if (error || !invoiceData) {
+      toast({
+        title: "Error",
+        description: "Invoice not found",
+        variant: "destructive"
+      });
+      navigate("/invoices");
+      return;
+    }
+
+    const [{ data: clientData }, { data: linesData }, { data: taxesData }] = await Promise.all([
+      supabase.from("clients").select("*").eq("id", invoiceData.client_id).single(),
+      supabase.from("client_invoice_lines").select("*").eq("invoice_id", invoiceData.id).order("position"),
+      supabase.from("client_invoice_taxes").select("*").eq("invoice_id", invoiceData.id).order("name"),
+    ]);
+
+    setActiveOrg(orgs.find(o => o.id === invoiceData.organization_id) || null);
+    setInvoice(invoiceData);
+    setClient(clientData);
+    setLines(linesData || []);
+    setTaxes(taxesData || []);
+    setLoading(false);
+  }
+
+  async function updateStatus(status: "sent" | "paid" | "void") {
+    if (!invoice) return;
+    if (status === "void" && !confirm("Void this invoice? Its time entries become available for invoicing again.")) return;
+
+    setUpdating(true);
+    const { data, error } = await supabase.rpc("update_client_invoice_status", {
+      p_invoice_id: invoice.id,
+      p_status: status,
+    });
+    setUpdating(false);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update invoice",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setInvoice(data);
+    toast({
+      title: "Invoice updated",
+      description: status === "sent" ? `Numbered ${data.invoice_number}` : `Marked as ${status}`,
+    });
+  }
+
+  async function handleDelete() {
+    if (!invoice) return;
+    if (!confirm("Delete this draft? Its time entries become available for invoicing again.")) return;
+
+    const { error } = await supabase.from("client_invoices").delete().eq("id", invoice.id);
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete invoice",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({ title: "Draft deleted" });
+    navigate("/invoices");
+  }
+
+  function handleDownload() {
+    if (!invoice || !client) return;
+    downloadInvoicePdf({
+      organizationName: activeOrg?.name || "",
+      invoice,
+      client,
+      lines,
+      taxes,
+    });
+  }
+
+  const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), "MMM d, yyyy");
+
+  if (loading || !invoice) {
+    return (
+      <PageLayout title="Invoice">
+        <Skeleton className="h-64 w-full" />
+      </PageLayout>
+    );
+  }
+
+  const money = (amount: number) => formatMoney(amount, invoice.currency);
+
+  return (
+    <PageLayout
+      title={invoiceTitle(invoice)}
+      breadcrumbs={[
+        { label: "Home", href: "/dashboard" },
+        { label: "Invoices", href: "/invoices" },
+        { label: invoiceTitle(invoice) }
+      ]}
+    >
+      <div className="flex justify-end gap-2 mb-6">
+        <Button variant="outline" onClick={handleDownload}>
+          <Download className="mr-2 h-4 w-4" />
+          Download PDF
+        </Button>
+        {invoice.status === "draft" && (
+          <>
+            <Button variant="outline" onClick={handleDelete} disabled={updating}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+            <Button onClick={() => updateStatus("sent")} disabled={updating}>
+              <Send className="mr-2 h-4 w-4" />
+              Mark as Sent
+            </Button>
+          </>
+        )}
+        {invoice.status === "sent" && (
+          <Button onClick={() => updateStatus("paid")} disabled={updating}>
+            <CheckCircle className="mr-2 h-4 w-4" />
+            Mark as Paid
+          </Button>
+        )}
+        {(invoice.status === "sent" || invoice.status === "paid") && (
+          <Button variant="destructive" onClick={() => updateStatus("void")} disabled={updating}>
+            <Ban className="mr-2 h-4 w-4" />
+            Void
+          </Button>
+        )}
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2 mb-6">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              Details <InvoiceStatusBadge status={invoice.status} />
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p>Period: {formatDate(invoice.period_start)} – {formatDate(invoice.period_end)}</p>
+            <p>Issued: {invoice.status === "draft" ? "Not sent yet" : formatDate(invoice.issue_date)}</p>
+            <p>Due: {formatDate(invoice.due_date)}</p>
+            {invoice.paid_at && <p>Paid: {format(new Date(invoice.paid_at), "MMM d, yyyy")}</p>}
+            {invoice.voided_at && <p>Voided: {format(new Date(invoice.voided_at), "MMM d, yyyy")}</p>}
+          </CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Bill to</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-1 text-sm">
+            <p className="font-medium">{client?.name}</p>
+            {client?.address && <p className="whitespace-pre-line text-muted-foreground">{client.address}</p>}
+            {client?.tax_id && <p className="text-muted-foreground">Tax ID: {client.tax_id}</p>}
+            {client?.email && <p className="text-muted-foreground">{client.email}</p>}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Description</TableHead>
+                <TableHead className="text-right">Hours</TableHead>
+                <TableHead className="text-right">Rate</TableHead>
+                <TableHead className="text-right">Amount</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {lines.map(line => (
+                <TableRow key={line.id}>
+                  <TableCell>{line.description}</TableCell>
+                  <TableCell className="text-right">{Number(line.hours).toFixed(2)}</TableCell>
+                  <TableCell className="text-right">{money(line.unit_price)}</TableCell>
+                  <TableCell className="text-right">{money(line.amount)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={3} className="text-right font-medium">Subtotal</TableCell>
+                <TableCell className="text-right">{money(invoice.subtotal)}</TableCell>
+              </TableRow>
+              {taxes.map(tax => (
+                <TableRow key={tax.id}>
+                  <TableCell colSpan={3} className="text-right">
+                    {tax.name} ({Number(tax.rate)}%)
+                  </TableCell>
+                  <TableCell className="text-right">{money(tax.amount)}</TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={3} className="text-right font-bold">Total</TableCell>
+                <TableCell className="text-right font-bold">{money(invoice.total)}</TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+          {invoice.notes && (
+            <p className="mt-4 text-sm text-muted-foreground whitespace-pre-line">{invoice.notes}</p>
+          )}
+        </CardContent>
+      </Card>
+    </PageLayout>
+  );
+}
@@ -0,0 +1,191 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentUser, getUserOrganizations, Organization } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Plus, Receipt } from "lucide-react";
+import { PageLayout } from "@/components/PageLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { TableSkeleton } from "@/components/TableSkeleton";
+import { GenerateInvoiceDialog } from "@/components/GenerateInvoiceDialog";
+import { InvoiceStatusBadge } from "@/components/InvoiceStatusBadge";
+import { formatMoney } from "@/lib/rates";
+import { invoiceTitle } from "@/lib/invoicePdf";
+import type { Tables } from "@/integrations/supabase/types";
+
+type InvoiceRow = Tables<"client_invoices"> & { clients: { name: string } | null };
+
+export default function Invoices() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [activeOrg, setActiveOrg] = useState<Organization | null>(null);
+  const [invoices, setInvoices] = useState<InvoiceRow[]>([]);
+  const [clients, setClients] = useState<{ id: string; name: string; currency: string }[]>([]);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [showDialog, setShowDialog] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (activeOrg) loadInvoices(activeOrg.id);
+  }, [statusFilter]);
+
+  async function loadData() {
+    setLoading(true);
+    const user = await getCurrentUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const orgs = await getUserOrganizations();
+    if (orgs.length === 0) {
+      navigate("/onboarding");
+      return;
+    }
+
+    const activeOrgId = localStorage.getItem("activeOrgId");
+    const currentOrg = orgs.find(o => o.id === activeOrgId) || orgs[0];
+    if (currentOrg.role === "member") {
+      navigate("/403");
+      return;
+    }
+    setActiveOrg(currentOrg);
+
+    const { data: clientsData } = await supabase
+      .from("clients")
+      .select("id, name, currency")
+      .eq("organization_id", currentOrg.id)
+      .is("deleted_at", null)
+      .order("name");
+    setClients(clientsData || []);
+
+    await loadInvoices(currentOrg.id);
+    setLoading(false);
+  }
+
+  async function loadInvoices(orgId: string) {
+    let query = supabase
+      .from("client_invoices")
+      .select("*, clients(name)")
+      .eq("organization_id", orgId)
+      .order("created_at", { ascending: false });
+
+    if (statusFilter !== "all") {
+      query = query.eq("status", statusFilter);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error("Error loading invoices:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load invoices",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setInvoices((data || []) as InvoiceRow[]);
+  }
+
+  const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), "MMM d, yyyy");
+
+  return (
+    <PageLayout
+      title="Invoices"
+      breadcrumbs={[
+        { label: "Home", href: "/dashboard" },
+        { label: "Invoices" }
+      ]}
+    >
+      <div className="flex items-center justify-between mb-6">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All statuses</SelectItem>
+            <SelectItem value="draft">Draft</SelectItem>
+            <SelectItem value="sent">Sent</SelectItem>
+            <SelectItem value="paid">Paid</SelectItem>
+            <SelectItem value="void">Void</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button onClick={() => setShowDialog(true)} disabled={clients.length === 0}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Invoice
+        </Button>
+      </div>
+
+      <Card>
+        {loading ? (
+          <TableSkeleton columns={7} />
+        ) : invoices.length === 0 ? (
+          <EmptyState
+            icon={Receipt}
+            title="No invoices"
+            description={
+              clients.length === 0
+                ? "Add a client and link it to projects before invoicing."
+                : "Generate an invoice from approved billable time."
+            }
+            actionLabel={clients.length === 0 ? "Go to Clients" : "New Invoice"}
+            onAction={() => (clients.length === 0 ? navigate("/clients") : setShowDialog(true))}
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Number</TableHead>
+                <TableHead>Client</TableHead>
+                <TableHead>Period</TableHead>
+                <TableHead>Issued</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead className="text-right">Total</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {invoices.map(invoice => (
+                <TableRow
+                  key={invoice.id}
+                  className="cursor-pointer"
+                  onClick={() => navigate(`/invoices/${invoice.id}`)}
+                >
+                  <TableCell className="font-medium">{invoiceTitle(invoice)}</TableCell>
+                  <TableCell>{invoice.clients?.name || "—"}</TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(invoice.period_start)} – {formatDate(invoice.period_end)}
+                  </TableCell>
+                  <TableCell>{invoice.status === "draft" ? "—" : formatDate(invoice.issue_date)}</TableCell>
+                  <TableCell>{formatDate(invoice.due_date)}</TableCell>
+                  <TableCell className="text-right">{formatMoney(invoice.total, invoice.currency)}</TableCell>
+                  <TableCell>
+                    <InvoiceStatusBadge status={invoice.status} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      <GenerateInvoiceDialog
+        open={showDialog}
+        onOpenChange={setShowDialog}
+        onSuccess={(invoice) => navigate(`/invoices/${invoice.id}`)}
+        clients={clients}
+      />
+    </PageLayout>
+  );
+}
@@ -9,9 +9,14 @@ import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, D
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { useToast } from "@/hooks/use-toast";
-import { ArrowLeft, Plus, Trash2, DollarSign, Edit2 } from "lucide-react";
+import { ArrowLeft, Plus, Trash2, DollarSign, Edit2, LayoutTemplate } from "lucide-react";
 import { format } from "date-fns";
 import { EditProjectDialog } from "@/components/EditProjectDialog";
+import { ProjectBudgetCard } from "@/components/ProjectBudgetCard";
+import { ProjectWorkflowCard } from "@/components/ProjectWorkflowCard";
+import { ProjectDependencyGraph } from "@/components/ProjectDependencyGraph";
+import { ProjectTimeline } from "@/components/ProjectTimeline";
+import { SaveAsTemplateDialog } from "@/components/SaveAsTemplateDialog";
 
 const STATUS_COLORS: Record<string, string> = {
   planning: "bg-gray-500",
@@ -44,6 +49,7 @@ export default function ProjectDetails() {
   const [teamToRemove, setTeamToRemove] = useState<string | null>(null);
   const [isTechLead, setIsTechLead] = useState(false);
   const [isEditProjectOpen, setIsEditProjectOpen] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
 
   useEffect(() => {
     loadData();
@@ -247,6 +253,7 @@ export default function ProjectDetails() {
   }
 
   const canManageProject = activeOrg?.role === "admin" || activeOrg?.role === "manager" || isTechLead;
+  const canManageBudget = activeOrg?.role === "admin" || activeOrg?.role === "manager";
   const unassignedTeams = availableTeams.filter(t => !assignedTeams.some(at => at.team_id === t.id));
 
   return (
@@ -279,10 +286,16 @@ export default function ProjectDetails() {
             )}
           </div>
           {canManageProject && (
-            <Button variant="outline" onClick={() => setIsEditProjectOpen(true)}>
-              <Edit2 className="w-4 h-4 mr-2" />
-              Edit Project
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" onClick={() => setIsSaveTemplateOpen(true)}>
+                <LayoutTemplate className="w-4 h-4 mr-2" />
+                Save as Template
+              </Button>
+              <Button variant="outline" onClick={() => setIsEditProjectOpen(true)}>
+                <Edit2 className="w-4 h-4 mr-2" />
+                Edit Project
+              </Button>
+            </div>
           )}
         </div>
       </div>
@@ -322,6 +335,10 @@ export default function ProjectDetails() {
         </Card>
       </div>
 
+      {canManageBudget && project && (
+        <ProjectBudgetCard project={project} canEdit={canManageBudget} />
+      )}
+
       <Card className="mb-6">
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -401,6 +418,28 @@ export default function ProjectDetails() {
         </CardContent>
       </Card>
 
+      {project && (
+        <ProjectWorkflowCard
+          projectId={project.id}
+          canEdit={canManageProject}
+          enforceBlockers={project.enforce_blockers}
+          onSettingsChange={loadProject}
+        />
+      )}
+
+      {project && activeOrg && (
+        <ProjectTimeline
+          projectId={project.id}
+          organizationId={activeOrg.id}
+          projectStart={project.start_date}
+          projectEnd={project.end_date}
+        />
+      )}
+
+      {project && activeOrg && (
+        <ProjectDependencyGraph projectId={project.id} organizationId={activeOrg.id} />
+      )}
+
       <Card>
         <CardHeader>
           <div className="flex justify-between items-center">
@@ -448,6 +487,16 @@ export default function ProjectDetails() {
           project={project}
         />
       )}
+
+      {project && (
+        <SaveAsTemplateDialog
+          open={isSaveTemplateOpen}
+          onOpenChange={setIsSaveTemplateOpen}
+          kind="project"
+          sourceId={project.id}
+          defaultName={project.name}
+        />
+      )}
     </div>
   );
 }
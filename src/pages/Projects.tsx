@@ -18,6 +18,7 @@ import { format } from "date-fns";
 import { z } from "zod";
 import { PageLayout } from "@/components/PageLayout";
 import { CardSkeleton } from "@/components/CardSkeleton";
+import { fetchTemplateDetails, fetchTemplates, type TemplateSummary } from "@/lib/templates";
 
 const projectSchema = z.object({
   code: z.string().regex(/^[A-Z]+-[0-9]+$/, "Project code must be uppercase letters, hyphen, then numbers (e.g., PROJ-001)").optional().or(z.literal("")),
@@ -26,7 +27,8 @@ const projectSchema = z.object({
   status: z.enum(["planning", "active", "on_hold", "completed", "archived"]),
   start_date: z.string().optional(),
   end_date: z.string().optional(),
-  is_billable: z.boolean()
+  is_billable: z.boolean(),
+  client_id: z.string()
 });
 
 const STATUS_COLORS: Record<string, string> = {
@@ -62,6 +64,8 @@ export default function Projects() {
   const [isCreateModalOpen, setIsCreateModalOpen] = useState(false);
   const [isCreating, setIsCreating] = useState(false);
   const [teams, setTeams] = useState<any[]>([]);
+  const [clients, setClients] = useState<{ id: string; name: string }[]>([]);
+  const [projectTemplates, setProjectTemplates] = useState<TemplateSummary[]>([]);
   
   const [formData, setFormData] = useState({
     code: "",
@@ -71,7 +75,9 @@ export default function Projects() {
     start_date: "",
     end_date: "",
     is_billable: false,
-    team_ids: [] as string[]
+    client_id: "none",
+    team_ids: [] as string[],
+    template_id: "none"
   });
   const [formErrors, setFormErrors] = useState<Record<string, string>>({});
 
@@ -104,7 +110,9 @@ export default function Projects() {
     await Promise.all([
       loadProjects(currentOrg.id),
       checkProjectLimit(currentOrg.id),
-      loadTeams(currentOrg.id)
+      loadTeams(currentOrg.id),
+      loadClients(currentOrg.id),
+      loadTemplates(currentOrg.id)
     ]);
 
     setLoading(false);
@@ -168,6 +176,47 @@ export default function Projects() {
     setTeams(data || []);
   }
 
+  async function loadClients(orgId: string) {
+    const { data, error } = await supabase
+      .from("clients")
+      .select("id, name")
+      .eq("organization_id", orgId)
+      .is("deleted_at", null)
+      .order("name");
+
+    if (error) {
+      console.error("Error loading clients:", error);
+      return;
+    }
+
+    setClients(data || []);
+  }
+
+  async function loadTemplates(orgId: string) {
+    try {
+      setProjectTemplates(await fetchTemplates(supabase, orgId, "project"));
+    } catch (error) {
+      console.error("Error loading templates:", error);
+    }
+  }
+
+  async function handleTemplateChange(templateId: string) {
+    setFormData(prev => ({ ...prev, template_id: templateId }));
+    if (templateId === "none") return;
+
+    try {
+      const details = await fetchTemplateDetails(supabase, templateId);
+      const template = projectTemplates.find(t => t.id === templateId);
+      setFormData(prev => ({
+        ...prev,
+        team_ids: details.teamIds.filter(id => teams.some(team => team.id === id)),
+        description: prev.description || template?.description || ""
+      }));
+    } catch (error) {
+      console.error("Error loading template:", error);
+    }
+  }
+
   async function checkProjectLimit(orgId: string) {
     const { data, error } = await supabase.rpc("check_project_limit", {
       p_org_id: orgId
@@ -242,7 +291,8 @@ export default function Projects() {
         status: validation.data.status,
         start_date: validation.data.start_date || null,
         end_date: validation.data.end_date || null,
-        is_billable: validation.data.is_billable
+        is_billable: validation.data.is_billable,
+        client_id: validation.data.client_id === "none" ? null : validation.data.client_id
       })
       .select()
       .single();
@@ -280,6 +330,22 @@ export default function Projects() {
       }
     }
 
+    if (formData.template_id !== "none" && project) {
+      const { error: templateError } = await supabase.rpc("instantiate_template", {
+        p_template_id: formData.template_id,
+        p_project_id: project.id,
+        p_base_date: validation.data.start_date || format(new Date(), "yyyy-MM-dd")
+      });
+
+      if (templateError) {
+        toast({
+          title: "Project created without template tasks",
+          description: templateError.message,
+          variant: "destructive"
+        });
+      }
+    }
+
     setIsCreating(false);
 
     toast({
@@ -296,7 +362,9 @@ export default function Projects() {
       start_date: "",
       end_date: "",
       is_billable: false,
-      team_ids: []
+      client_id: "none",
+      team_ids: [],
+      template_id: "none"
     });
     
     if (project) {
@@ -353,6 +421,29 @@ export default function Projects() {
                 </DialogDescription>
               </DialogHeader>
               <div className="space-y-4 py-4 max-h-[60vh] overflow-y-auto">
+                {projectTemplates.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="template">Template</Label>
+                    <Select value={formData.template_id} onValueChange={handleTemplateChange}>
+                      <SelectTrigger id="template">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">Blank project</SelectItem>
+                        {projectTemplates.map(template => (
+                          <SelectItem key={template.id} value={template.id}>
+                            {template.name} ({template.task_count} {template.task_count === 1 ? "task" : "tasks"})
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {formData.template_id !== "none" && (
+                      <p className="text-xs text-muted-foreground">
+                        Template tasks are scheduled from the start date, or today if there is none.
+                      </p>
+                    )}
+                  </div>
+                )}
                 <div className="grid grid-cols-2 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="code">Project Code</Label>
@@ -444,6 +535,27 @@ export default function Projects() {
                     Is Billable
                   </Label>
                 </div>
+                {clients.length > 0 && (
+                  <div className="space-y-2">
+                    <Label htmlFor="client_id">Client</Label>
+                    <Select
+                      value={formData.client_id}
+                      onValueChange={(value) => setFormData({ ...formData, client_id: value })}
+                    >
+                      <SelectTrigger id="client_id">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No client</SelectItem>
+                        {clients.map((client) => (
+                          <SelectItem key={client.id} value={client.id}>
+                            {client.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
                 <div className="space-y-2">
                   <Label>Assign Teams (optional)</Label>
                   <div className="space-y-2">
@@ -28,7 +28,6 @@ import {
 import { supabase } from '@/integrations/supabase/client';
 import { getCurrentUser, getUserOrganizations, Organization } from '@/lib/auth';
 import { useToast } from '@/hooks/use-toast';
-import Papa from 'papaparse';
 import {
   Clock,
   DollarSign,
@@ -39,12 +38,30 @@ import {
   Trash2,
   FileText,
 } from 'lucide-react';
-import { format, startOfWeek, endOfWeek, startOfMonth, endOfMonth, startOfQuarter, endOfQuarter, subMonths } from 'date-fns';
+import { format } from 'date-fns';
 import { PageLayout } from '@/components/PageLayout';
 import { EmptyState } from '@/components/EmptyState';
+import { ReportSchedulesCard } from '@/components/ReportSchedulesCard';
+import {
+  describeReportFilters,
+  generateReport,
+  getReportPeriod,
+  renderReport,
+  reportFileName,
+  ReportError,
+  REPORT_PERIOD_LABELS,
+  REPORT_TYPES,
+  type ReportFilters,
+  type ReportFormat,
+  type ReportPeriod,
+  type ReportTypeId,
+} from '@/lib/reportData';
+import type { Tables } from '@/integrations/supabase/types';
+
+type GeneratedReport = Tables<'generated_reports'>;
 
 interface ReportTemplate {
-  id: string;
+  id: ReportTypeId;
   name: string;
   icon: React.ReactNode;
   description: string;
@@ -54,28 +71,28 @@ interface ReportTemplate {
 const REPORT_TEMPLATES: ReportTemplate[] = [
   {
     id: 'billable_hours',
-    name: 'Billable Hours Report',
+    name: REPORT_TYPES.billable_hours.name,
     icon: <DollarSign className="h-8 w-8 text-success" />,
     description: 'For invoicing clients and tracking revenue',
     filters: ['dateRange', 'project', 'user'],
   },
   {
     id: 'timesheet',
-    name: 'Timesheet Report',
+    name: REPORT_TYPES.timesheet.name,
     icon: <Calendar className="h-8 w-8 text-primary" />,
     description: 'For payroll and compliance audits',
     filters: ['dateRange', 'user', 'approvalStatus'],
   },
   {
     id: 'velocity',
-    name: 'Velocity Report',
+    name: REPORT_TYPES.velocity.name,
     icon: <TrendingUp className="h-8 w-8 text-warning" />,
     description: 'For sprint retrospectives and team performance',
-    filters: ['dateRange', 'team'],
+    filters: ['dateRange', 'team', 'project'],
   },
   {
     id: 'audit',
-    name: 'Audit Report',
+    name: REPORT_TYPES.audit.name,
     icon: <Lock className="h-8 w-8 text-danger" />,
     description: 'For compliance audits (SOX, GDPR)',
     filters: ['dateRange', 'user', 'table'],
@@ -91,19 +108,19 @@ const Reports = () => {
   const [showGenerateModal, setShowGenerateModal] = useState(false);
   
   // Filter states
-  const [dateRange, setDateRange] = useState('this_month');
+  const [dateRange, setDateRange] = useState<ReportPeriod>('this_month');
   const [filterUser, setFilterUser] = useState('all');
   const [filterProject, setFilterProject] = useState('all');
   const [filterTeam, setFilterTeam] = useState('all');
   const [filterApprovalStatus, setFilterApprovalStatus] = useState('all');
   const [filterTable, setFilterTable] = useState('all');
-  const [exportFormat, setExportFormat] = useState('csv');
+  const [exportFormat, setExportFormat] = useState<ReportFormat>('csv');
   
   // Data states
   const [users, setUsers] = useState<any[]>([]);
   const [projects, setProjects] = useState<any[]>([]);
   const [teams, setTeams] = useState<any[]>([]);
-  const [generatedReports, setGeneratedReports] = useState<any[]>([]);
+  const [generatedReports, setGeneratedReports] = useState<GeneratedReport[]>([]);
   
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -143,36 +160,6 @@ const Reports = () => {
     setIsLoading(false);
   };
 
-  const getDateRange = (range: string) => {
-    const now = new Date();
-    let start: Date, end: Date;
-
-    switch (range) {
-      case 'this_week':
-        start = startOfWeek(now, { weekStartsOn: 1 });
-        end = endOfWeek(now, { weekStartsOn: 1 });
-        break;
-      case 'this_month':
-        start = startOfMonth(now);
-        end = endOfMonth(now);
-        break;
-      case 'last_month':
-        const lastMonth = subMonths(now, 1);
-        start = startOfMonth(lastMonth);
-        end = endOfMonth(lastMonth);
-        break;
-      case 'this_quarter':
-        start = startOfQuarter(now);
-        end = endOfQuarter(now);
-        break;
-      default:
-        start = startOfMonth(now);
-        end = endOfMonth(now);
-    }
-
-    return { start: start.toISOString(), end: end.toISOString() };
-  };
-
   const fetchFilterOptions = async () => {
     if (!currentOrg) return;
 
@@ -202,8 +189,39 @@ const Reports = () => {
   };
 
   const fetchGeneratedReports = async () => {
-    // TODO: Fetch from generated_reports table when it exists
-    setGeneratedReports([]);
+    if (!currentOrg) return;
+
+    const { data, error } = await supabase
+      .from('generated_reports')
+      .select('*')
+      .eq('organization_id', currentOrg.id)
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching generated reports:', error);
+      return;
+    }
+
+    setGeneratedReports(data || []);
+  };
+
+  const reportFilters = (template: ReportTemplate): ReportFilters => ({
+    user: template.filters.includes('user') && filterUser !== 'all' ? filterUser : undefined,
+    project: template.filters.includes('project') && filterProject !== 'all' ? filterProject : undefined,
+    team: template.filters.includes('team') && filterTeam !== 'all' ? filterTeam : undefined,
+    approvalStatus: template.filters.includes('approvalStatus') && filterApprovalStatus !== 'all'
+      ? filterApprovalStatus
+      : undefined,
+    table: template.filters.includes('table') && filterTable !== 'all' ? filterTable : undefined,
+  });
+
+  const downloadBlob = (blob: Blob, filename: string) => {
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = filename;
+    link.click();
+    URL.revokeObjectURL(link.href);
   };
 
   const openGenerateModal = (template: ReportTemplate) => {
@@ -219,384 +237,143 @@ const Reports = () => {
     setExportFormat('csv');
   };
 
-  const generateBillableHoursReport = async () => {
-    if (!currentOrg) return;
-
-    const { start, end } = getDateRange(dateRange);
-
-    let query = supabase
-      .from('time_entries')
-      .select(`
-        start_time,
-        duration_seconds,
-        description,
-        is_billable,
-        user_id,
-        project_id,
-        task_id
-      `)
-      .eq('organization_id', currentOrg.id)
-      .eq('is_billable', true)
-      .gte('start_time', start)
-      .lte('start_time', end)
-      .is('deleted_at', null)
-      .order('start_time');
-
-    if (filterUser !== 'all') {
-      query = query.eq('user_id', filterUser);
-    }
-
-    if (filterProject !== 'all') {
-      query = query.eq('project_id', filterProject);
-    }
-
-    const { data: timeEntries, error } = await query;
+  const handleGenerateReport = async () => {
+    if (!selectedReport || !currentOrg) return;
 
-    if (error) {
-      throw error;
-    }
+    setIsGenerating(true);
 
-    if (!timeEntries || timeEntries.length === 0) {
-      toast({
-        title: 'No data found',
-        description: 'No billable hours found for the selected filters.',
-        variant: 'destructive',
+    try {
+      const period = getReportPeriod(dateRange);
+      const filters = reportFilters(selectedReport);
+      const report = await generateReport(supabase, selectedReport.id, {
+        organizationId: currentOrg.id,
+        ...period,
+        filters,
       });
-      return;
-    }
-
-    if (timeEntries.length > 10000) {
-      toast({
-        title: 'Report too large',
-        description: 'Report exceeds 10,000 rows. Please apply additional filters to reduce size.',
-        variant: 'destructive',
+      const filterLabels = await describeReportFilters(supabase, currentOrg.id, filters);
+      const file = renderReport(selectedReport.id, report, exportFormat, {
+        organizationName: currentOrg.name,
+        period,
+        filters: filterLabels,
       });
-      return;
-    }
-
-    // Fetch related data
-    const userIds = [...new Set(timeEntries.map(e => e.user_id))];
-    const projectIds = [...new Set(timeEntries.map(e => e.project_id).filter(Boolean))];
-    const taskIds = [...new Set(timeEntries.map(e => e.task_id).filter(Boolean))];
-
-    const { data: usersData } = await supabase.rpc('get_org_members_with_emails', {
-      p_org_id: currentOrg.id
-    });
-
-    const { data: projectsData } = projectIds.length > 0
-      ? await supabase.from('projects').select('id, name').in('id', projectIds)
-      : { data: [] };
-
-    const { data: tasksData } = taskIds.length > 0
-      ? await supabase.from('tasks').select('id, code, title').in('id', taskIds)
-      : { data: [] };
-
-    // Map data
-    const userMap = new Map((usersData || []).map(u => [u.user_id, u.email] as [string, string]));
-    const projectMap = new Map((projectsData || []).map(p => [p.id, p.name] as [string, string]));
-    const taskMap = new Map((tasksData || []).map(t => [t.id, { code: t.code, title: t.title }] as [string, { code: string; title: string }]));
-
-    // Format data for CSV
-    const csvData = timeEntries.map(entry => ({
-      Date: format(new Date(entry.start_time), 'yyyy-MM-dd'),
-      User: userMap.get(entry.user_id) || 'Unknown',
-      Project: entry.project_id ? projectMap.get(entry.project_id) || 'Unknown' : 'Personal',
-      'Task Code': entry.task_id ? taskMap.get(entry.task_id)?.code || '' : '',
-      'Task Title': entry.task_id ? taskMap.get(entry.task_id)?.title || '' : '',
-      'Duration (hours)': (entry.duration_seconds / 3600).toFixed(2),
-      Description: entry.description || '',
-      Billable: entry.is_billable ? 'TRUE' : 'FALSE',
-    }));
-
-    return csvData;
-  };
-
-  const generateTimesheetReport = async () => {
-    if (!currentOrg) return;
 
-    const { start, end } = getDateRange(dateRange);
-
-    let query = supabase
-      .from('timesheets')
-      .select(`
-        week_start_date,
-        week_end_date,
-        total_hours,
-        billable_hours,
-        status,
-        reviewed_by,
-        reviewed_at,
-        user_id
-      `)
-      .eq('organization_id', currentOrg.id)
-      .gte('week_start_date', start)
-      .lte('week_end_date', end)
-      .is('deleted_at', null)
-      .order('week_start_date', { ascending: false });
-
-    if (filterUser !== 'all') {
-      query = query.eq('user_id', filterUser);
-    }
-
-    if (filterApprovalStatus !== 'all') {
-      query = query.eq('status', filterApprovalStatus);
-    }
-
-    const { data: timesheets, error } = await query;
-
-    if (error) {
-      throw error;
-    }
+      downloadBlob(file.blob, reportFileName(selectedReport.id, period, file.extension));
+
+      // Keep a copy so the report can be downloaded again later
+      const reportId = crypto.randomUUID();
+      const filePath = `${currentOrg.id}/${reportId}.${file.extension}`;
+      const { error: uploadError } = await supabase.storage
+        .from('reports')
+        .upload(filePath, file.blob, { contentType: file.contentType });
+
+      const { error: saveError } = uploadError
+        ? { error: uploadError }
+        : await supabase.from('generated_reports').insert({
+            id: reportId,
+            organization_id: currentOrg.id,
+            template_id: selectedReport.id,
+            name: selectedReport.name,
+            filters: { ...filters },
+            filter_summary: filterLabels.map(([label, value]) => `${label}: ${value}`).join(', ') || null,
+            format: file.extension,
+            period_start: period.start.toISOString(),
+            period_end: period.end.toISOString(),
+            row_count: report.rows.length,
+            file_path: filePath,
+            file_size: file.blob.size,
+            generated_by: user.id,
+          });
+
+      if (saveError) {
+        console.error('Error saving generated report:', saveError);
+        toast({
+          title: 'Report downloaded',
+          description: 'The report could not be saved to the report history.',
+          variant: 'destructive',
+        });
+      } else {
+        toast({
+          title: 'Report generated',
+          description: `${selectedReport.name} downloaded successfully.`,
+        });
+        fetchGeneratedReports();
+      }
 
-    if (!timesheets || timesheets.length === 0) {
-      toast({
-        title: 'No data found',
-        description: 'No timesheets found for the selected filters.',
-        variant: 'destructive',
-      });
-      return;
-    }
+      setShowGenerateModal(false);
+    } catch (error) {
+      if (error instanceof ReportError) {
+        toast({
+          title: error.title,
+          description: error.message,
+          variant: 'destructive',
+        });
+        return;
+      }
 
-    if (timesheets.length > 10000) {
+      console.error('Error generating report:', error);
       toast({
-        title: 'Report too large',
-        description: 'Report exceeds 10,000 rows. Please apply additional filters.',
+        title: 'Error generating report',
+        description: 'An error occurred while generating the report. Please try again.',
         variant: 'destructive',
       });
-      return;
+    } finally {
+      setIsGenerating(false);
     }
-
-    // Fetch user data
-    const { data: usersData } = await supabase.rpc('get_org_members_with_emails', {
-      p_org_id: currentOrg.id
-    });
-    const userMap = new Map(usersData?.map(u => [u.user_id, u.email]) || []);
-
-    // Format data for CSV
-    const csvData = timesheets.map(ts => ({
-      'Week Start': format(new Date(ts.week_start_date), 'yyyy-MM-dd'),
-      'Week End': format(new Date(ts.week_end_date), 'yyyy-MM-dd'),
-      User: userMap.get(ts.user_id) || 'Unknown',
-      'Total Hours': ts.total_hours?.toFixed(1) || '0.0',
-      'Billable Hours': ts.billable_hours?.toFixed(1) || '0.0',
-      Status: ts.status.toUpperCase(),
-      'Reviewed By': ts.reviewed_by ? userMap.get(ts.reviewed_by) || 'Unknown' : '',
-      'Reviewed At': ts.reviewed_at ? format(new Date(ts.reviewed_at), 'yyyy-MM-dd HH:mm') : '',
-    }));
-
-    return csvData;
   };
 
-  const generateVelocityReport = async () => {
-    if (!currentOrg) return;
-
-    const { start, end } = getDateRange(dateRange);
-
-    // Query tasks completed in the date range
-    let query = supabase
-      .from('tasks')
-      .select(`
-        id,
-        status,
-        completed_at,
-        project_id
-      `)
-      .eq('organization_id', currentOrg.id)
-      .eq('status', 'done')
-      .gte('completed_at', start)
-      .lte('completed_at', end)
-      .is('deleted_at', null);
-
-    const { data: tasks, error } = await query;
-
-    if (error) {
-      throw error;
-    }
+  const handleDownloadReport = async (report: GeneratedReport) => {
+    const { data, error } = await supabase.storage.from('reports').download(report.file_path);
 
-    if (!tasks || tasks.length === 0) {
+    if (error || !data) {
+      console.error('Error downloading report:', error);
       toast({
-        title: 'No data found',
-        description: 'No completed tasks found for the selected filters.',
+        title: 'Error',
+        description: 'Failed to download report',
         variant: 'destructive',
       });
       return;
     }
 
-    // Group by project
-    const projectStats = tasks.reduce((acc: any, task) => {
-      const projectId = task.project_id || 'Personal';
-      if (!acc[projectId]) {
-        acc[projectId] = {
-          tasksCompleted: 0,
-          storyPoints: 0,
-        };
-      }
-      acc[projectId].tasksCompleted++;
-      return acc;
-    }, {});
-
-    // Fetch project names
-    const projectIds = Object.keys(projectStats).filter(id => id !== 'Personal');
-    const { data: projectsData } = projectIds.length > 0
-      ? await supabase.from('projects').select('id, name').in('id', projectIds)
-      : { data: [] };
-    const projectMap = new Map((projectsData || []).map(p => [p.id, p.name] as [string, string]));
-
-    // Format data for CSV
-    const csvData = Object.entries(projectStats).map(([projectId, stats]: [string, any]) => ({
-      Sprint: format(new Date(start), 'MMM yyyy'),
-      Project: projectId === 'Personal' ? 'Personal Tasks' : projectMap.get(projectId) || 'Unknown',
-      'Tasks Completed': stats.tasksCompleted,
-      'Story Points': stats.storyPoints || 'N/A',
-      Velocity: stats.storyPoints || 'N/A',
-    }));
-
-    return csvData;
+    downloadBlob(
+      data,
+      reportFileName(
+        report.template_id as ReportTypeId,
+        { start: new Date(report.period_start), end: new Date(report.period_end) },
+        report.format,
+        new Date(report.created_at)
+      )
+    );
   };
 
-  const generateAuditReport = async () => {
-    if (!currentOrg) return;
-
-    const { start, end } = getDateRange(dateRange);
-
-    let query = supabase
-      .from('audit_logs')
-      .select(`
-        created_at,
-        user_id,
-        action,
-        table_name,
-        record_id,
-        old_values,
-        new_values
-      `)
-      .eq('organization_id', currentOrg.id)
-      .gte('created_at', start)
-      .lte('created_at', end)
-      .order('created_at', { ascending: false });
-
-    if (filterUser !== 'all') {
-      query = query.eq('user_id', filterUser);
-    }
-
-    if (filterTable !== 'all') {
-      query = query.eq('table_name', filterTable);
-    }
+  const handleDeleteReport = async (report: GeneratedReport) => {
+    if (!confirm(`Delete "${report.name}" generated ${format(new Date(report.created_at), 'MMM d, yyyy HH:mm')}?`)) return;
 
-    const { data: auditLogs, error } = await query;
+    // Remove the file first: access to it goes through the report row
+    const { error: fileError } = await supabase.storage.from('reports').remove([report.file_path]);
+    const { error } = fileError
+      ? { error: fileError }
+      : await supabase.from('generated_reports').delete().eq('id', report.id);
 
     if (error) {
-      throw error;
-    }
-
-    if (!auditLogs || auditLogs.length === 0) {
-      toast({
-        title: 'No data found',
-        description: 'No audit logs found for the selected filters.',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    if (auditLogs.length > 10000) {
       toast({
-        title: 'Report too large',
-        description: 'Report exceeds 10,000 rows. Please apply additional filters.',
+        title: 'Error',
+        description: error.message || 'Failed to delete report',
         variant: 'destructive',
       });
       return;
     }
 
-    // Fetch user data
-    const { data: usersData } = await supabase.rpc('get_org_members_with_emails', {
-      p_org_id: currentOrg.id
+    setGeneratedReports(prev => prev.filter(r => r.id !== report.id));
+    toast({
+      title: 'Report deleted',
     });
-    const userMap = new Map((usersData || []).map(u => [u.user_id, u.email] as [string, string]));
-
-    // Format data for CSV
-    const csvData = auditLogs.map(log => {
-      let changes = '';
-      if (log.action === 'UPDATE' && log.old_values && log.new_values) {
-        const oldVals = JSON.stringify(log.old_values);
-        const newVals = JSON.stringify(log.new_values);
-        changes = `${oldVals} → ${newVals}`;
-      } else if (log.action === 'INSERT' && log.new_values) {
-        changes = JSON.stringify(log.new_values);
-      } else if (log.action === 'DELETE' && log.old_values) {
-        changes = JSON.stringify(log.old_values);
-      }
-
-      return {
-        Timestamp: format(new Date(log.created_at), 'yyyy-MM-dd HH:mm:ss'),
-        User: log.user_id ? userMap.get(log.user_id) || 'System' : 'System',
-        Action: log.action,
-        Table: log.table_name,
-        'Record ID': log.record_id,
-        Changes: changes,
-      };
-    });
-
-    return csvData;
   };
 
-  const handleGenerateReport = async () => {
-    if (!selectedReport || !currentOrg) return;
-
-    setIsGenerating(true);
-
-    try {
-      let csvData: any[] = [];
-
-      switch (selectedReport.id) {
-        case 'billable_hours':
-          csvData = await generateBillableHoursReport() || [];
-          break;
-        case 'timesheet':
-          csvData = await generateTimesheetReport() || [];
-          break;
-        case 'velocity':
-          csvData = await generateVelocityReport() || [];
-          break;
-        case 'audit':
-          csvData = await generateAuditReport() || [];
-          break;
-      }
-
-      if (csvData.length === 0) {
-        setIsGenerating(false);
-        return;
-      }
-
-      // Generate CSV
-      const csv = Papa.unparse(csvData);
-      
-      // Download file
-      const { start, end } = getDateRange(dateRange);
-      const filename = `${selectedReport.id}_${format(new Date(start), 'yyyy-MM-dd')}_${format(new Date(end), 'yyyy-MM-dd')}_${format(new Date(), 'yyyy-MM-dd')}.csv`;
-      
-      const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
-      const link = document.createElement('a');
-      link.href = URL.createObjectURL(blob);
-      link.download = filename;
-      link.click();
-
-      toast({
-        title: 'Report generated',
-        description: `${selectedReport.name} downloaded successfully.`,
-      });
-
-      setShowGenerateModal(false);
-    } catch (error) {
-      console.error('Error generating report:', error);
-      toast({
-        title: 'Error generating report',
-        description: 'An error occurred while generating the report. Please try again.',
-        variant: 'destructive',
-      });
-    } finally {
-      setIsGenerating(false);
-    }
-  };
+  const canManageSchedules = currentOrg?.role === 'admin' || currentOrg?.role === 'manager';
+  // Scheduled reports are emailed out, so only admins schedule audit reports
+  const scheduleTemplates = currentOrg?.role === 'admin'
+    ? REPORT_TEMPLATES
+    : REPORT_TEMPLATES.filter(template => template.id !== 'audit');
 
   if (isLoading) {
     return (
@@ -647,10 +424,25 @@ const Reports = () => {
           ))}
         </div>
 
-        {/* Generated Reports List (empty for now) */}
-        {generatedReports.length > 0 && (
-          <div>
-            <h2 className="text-xl font-bold mb-4">Generated Reports</h2>
+        {canManageSchedules && (
+          <ReportSchedulesCard
+            organizationId={currentOrg.id}
+            templates={scheduleTemplates}
+            users={users}
+            projects={projects}
+            teams={teams}
+          />
+        )}
+
+        <div>
+          <h2 className="text-xl font-bold mb-4">Generated Reports</h2>
+          {generatedReports.length === 0 ? (
+            <EmptyState
+              icon={FileText}
+              title="No reports yet"
+              description="Reports you generate are kept here so you can download them again"
+            />
+          ) : (
             <Card>
               <Table>
                 <TableHeader>
@@ -658,6 +450,7 @@ const Reports = () => {
                     <TableHead>Report Name</TableHead>
                     <TableHead>Generated By</TableHead>
                     <TableHead>Generated At</TableHead>
+                    <TableHead>Period</TableHead>
                     <TableHead>Filters</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
@@ -665,18 +458,32 @@ const Reports = () => {
                 <TableBody>
                   {generatedReports.map((report) => (
                     <TableRow key={report.id}>
-                      <TableCell>{report.name}</TableCell>
-                      <TableCell>{report.generated_by}</TableCell>
-                      <TableCell>{report.generated_at}</TableCell>
-                      <TableCell>{report.filters}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{report.name}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {report.format.toUpperCase()} · {report.row_count} rows
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        {report.generated_by
+                          ? users.find(u => u.user_id === report.generated_by)?.email || 'Unknown'
+                          : 'Schedule'}
+                      </TableCell>
+                      <TableCell>{format(new Date(report.created_at), 'MMM d, yyyy HH:mm')}</TableCell>
+                      <TableCell>
+                        {format(new Date(report.period_start), 'MMM d')} – {format(new Date(report.period_end), 'MMM d, yyyy')}
+                      </TableCell>
+                      <TableCell>{report.filter_summary || 'None'}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
-                          <Button size="sm" variant="outline">
+                          <Button size="sm" variant="outline" onClick={() => handleDownloadReport(report)}>
                             <Download className="h-4 w-4" />
                           </Button>
-                          <Button size="sm" variant="outline">
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                          {(canManageSchedules || report.generated_by === user?.id) && (
+                            <Button size="sm" variant="outline" onClick={() => handleDeleteReport(report)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -684,8 +491,8 @@ const Reports = () => {
                 </TableBody>
               </Table>
             </Card>
-          </div>
-        )}
+          )}
+        </div>
 
       {/* Generate Report Modal */}
       <Dialog open={showGenerateModal} onOpenChange={setShowGenerateModal}>
@@ -702,15 +509,14 @@ const Reports = () => {
             {selectedReport?.filters.includes('dateRange') && (
               <div className="space-y-2">
                 <label className="text-sm font-medium">Date Range</label>
-                <Select value={dateRange} onValueChange={setDateRange}>
+                <Select value={dateRange} onValueChange={(value) => setDateRange(value as ReportPeriod)}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select date range" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="this_week">This Week</SelectItem>
-                    <SelectItem value="this_month">This Month</SelectItem>
-                    <SelectItem value="last_month">Last Month</SelectItem>
-                    <SelectItem value="this_quarter">This Quarter</SelectItem>
+                    {Object.entries(REPORT_PERIOD_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -818,13 +624,13 @@ const Reports = () => {
             {/* Export Format */}
             <div className="space-y-2">
               <label className="text-sm font-medium">Export Format</label>
-              <Select value={exportFormat} onValueChange={setExportFormat}>
+              <Select value={exportFormat} onValueChange={(value) => setExportFormat(value as ReportFormat)}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select format" />
                 </SelectTrigger>
                 <SelectContent>
                   <SelectItem value="csv">CSV</SelectItem>
-                  <SelectItem value="pdf" disabled>PDF (Coming Soon)</SelectItem>
+                  <SelectItem value="pdf">PDF</SelectItem>
                 </SelectContent>
               </Select>
             </div>
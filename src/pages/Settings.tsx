@@ -26,6 +26,11 @@ import { useToast } from '@/hooks/use-toast';
 import { getCurrentUser, getUserOrganizations, Organization } from '@/lib/auth';
 import { ArrowLeft, Copy, UserPlus, Clock, CreditCard } from 'lucide-react';
 import { SubscriptionCard } from '@/components/SubscriptionCard';
+import { TimeTrackingPreferencesCard } from '@/components/TimeTrackingPreferencesCard';
+import { RateCardsCard } from '@/components/RateCardsCard';
+import { TimeOffCard } from '@/components/TimeOffCard';
+import { TemplatesCard } from '@/components/TemplatesCard';
+import { NotificationPreferencesCard } from '@/components/NotificationPreferencesCard';
 import { PageLayout } from '@/components/PageLayout';
 
 interface TeamMember {
@@ -44,6 +49,7 @@ const Settings = () => {
   const [showCodeDialog, setShowCodeDialog] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [userRole, setUserRole] = useState('');
+  const [userId, setUserId] = useState('');
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -71,6 +77,7 @@ const Settings = () => {
 
     setCurrentOrg(activeOrg);
     setUserRole(activeOrg.role);
+    setUserId(user.id);
     await loadMembers(activeOrg.id);
     setIsLoading(false);
   };
@@ -375,6 +382,41 @@ const Settings = () => {
             </CardContent>
           </Card>
 
+          {/* Hourly Rates - Admins and Managers */}
+          {currentOrg && (userRole === 'admin' || userRole === 'manager') && (
+            <RateCardsCard organizationId={currentOrg.id} canEdit={userRole === 'admin'} />
+          )}
+
+          {/* Time Off */}
+          {currentOrg && userId && (
+            <TimeOffCard
+              organizationId={currentOrg.id}
+              userId={userId}
+              canManageOthers={userRole === 'admin' || userRole === 'manager'}
+            />
+          )}
+
+          {/* Templates */}
+          {currentOrg && userId && (
+            <TemplatesCard
+              organizationId={currentOrg.id}
+              userId={userId}
+              canManageAll={userRole === 'admin' || userRole === 'manager'}
+            />
+          )}
+
+          {/* Personal Preferences */}
+          <TimeTrackingPreferencesCard />
+
+          {/* Notifications */}
+          {currentOrg && userId && (
+            <NotificationPreferencesCard
+              organizationId={currentOrg.id}
+              userId={userId}
+              timezone={currentOrg.timezone}
+            />
+          )}
+
           {/* Subscription Info */}
           <SubscriptionCard organizationId={currentOrg?.id} onUpdate={loadOrgData} />
     </PageLayout>
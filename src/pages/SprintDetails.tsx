@@ -0,0 +1,397 @@
+import { useEffect, useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentUser } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { CheckCircle, Edit2, LayoutGrid, Play, Plus, Trash2, X } from "lucide-react";
+import { PageLayout } from "@/components/PageLayout";
+import { SprintDialog } from "@/components/SprintDialog";
+import { AddSprintTasksDialog } from "@/components/AddSprintTasksDialog";
+import { CompleteSprintDialog } from "@/components/CompleteSprintDialog";
+import { TaskStatusBadge } from "@/components/TaskStatusBadge";
+import { SPRINT_STATUS_LABELS, type Sprint } from "@/lib/sprints";
+import { fetchWorkflows, workflowFor, type Workflow } from "@/lib/workflows";
+import type { Tables } from "@/integrations/supabase/types";
+
+type SprintTask = Tables<"sprint_tasks"> & {
+  tasks: Pick<Tables<"tasks">, "id" | "code" | "title" | "status" | "status_category" | "estimated_hours" | "assigned_to" | "project_id"> | null;
+};
+
+const OUTCOME_LABELS: Record<string, string> = {
+  completed: "Completed",
+  carried_over: "Carried over",
+  returned: "Back to backlog",
+};
+
+export default function SprintDetails() {
+  const { sprintId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [sprint, setSprint] = useState<Sprint | null>(null);
+  const [sprintTasks, setSprintTasks] = useState<SprintTask[]>([]);
+  const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [members, setMembers] = useState<{ user_id: string; email: string }[]>([]);
+  const [workflows, setWorkflows] = useState<Map<string, Workflow>>(new Map());
+  const [canManage, setCanManage] = useState(false);
+  const [showEdit, setShowEdit] = useState(false);
+  const [showAddTasks, setShowAddTasks] = useState(false);
+  const [showComplete, setShowComplete] = useState(false);
+
+  useEffect(() => {
+    loadData();
+  }, [sprintId]);
+
+  async function loadData() {
+    const user = await getCurrentUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const { data: sprintData, error } = await supabase
+      .from("sprints")
+      .select("*")
+      .eq("id", sprintId)
+      .maybeSingle();
+
+    if (error || !sprintData) {
+      toast({
+        title: "Error",
+        description: "Sprint not found",
+        variant: "destructive"
+      });
+      navigate("/sprints");
+      return;
+    }
+
+    const [{ data: teamsData }, { data: projectsData }, { data: membersData }, { data: canManageData }, workflowsData] = await Promise.all([
+      supabase
+        .from("teams")
+        .select("id, name")
+        .eq("organization_id", sprintData.organization_id)
+        .is("deleted_at", null)
+        .order("name"),
+      supabase
+        .from("projects")
+        .select("id, name")
+        .eq("organization_id", sprintData.organization_id)
+        .is("deleted_at", null)
+        .order("name"),
+      supabase.rpc("get_org_members_with_emails", { p_org_id: sprintData.organization_id }),
+      supabase.rpc("can_manage_sprint", {
+        p_user_id: user.id,
+        p_organization_id: sprintData.organization_id,
+        p_team_id: sprintData.team_id,
+        p_project_id: sprintData.project_id,
+      }),
+      fetchWorkflows(supabase, sprintData.organization_id).catch(() => new Map<string, Workflow>()),
+    ]);
+
+    setSprint(sprintData);
+    setTeams(teamsData || []);
+    setProjects(projectsData || []);
+    setMembers(membersData || []);
+    setCanManage(canManageData === true);
+    setWorkflows(workflowsData);
+    await loadSprintTasks(sprintData.id);
+    setLoading(false);
+  }
+
+  async function loadSprintTasks(id: string) {
+    const { data, error } = await supabase
+      .from("sprint_tasks")
+      .select("*, tasks(id, code, title, status, status_category, estimated_hours, assigned_to, project_id)")
+      .eq("sprint_id", id)
+      .order("added_at");
+
+    if (error) {
+      console.error("Error loading sprint tasks:", error);
+      return;
+    }
+    setSprintTasks((data || []) as SprintTask[]);
+  }
+
+  async function handleStart() {
+    if (!sprint) return;
+
+    const { error } = await supabase.from("sprints").update({ status: "active" }).eq("id", sprint.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.code === "23505"
+          ? "Another sprint is already running for this team and project"
+          : error.message || "Failed to start sprint",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({ title: "Sprint started" });
+    loadData();
+  }
+
+  async function handleDelete() {
+    if (!sprint || !confirm(`Delete ${sprint.name}? Its tasks go back to the backlog.`)) return;
+
+    const { error } = await supabase.from("sprints").delete().eq("id", sprint.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to delete sprint",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    toast({ title: "Sprint deleted" });
+    navigate("/sprints");
+  }
+
+  async function handleRemoveTask(row: SprintTask) {
+    const { error } = await supabase.from("sprint_tasks").delete().eq("id", row.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove task",
+        variant: "destructive"
+      });
+      return;
+    }
+    setSprintTasks(prev => prev.filter(r => r.id !== row.id));
+  }
+
+  if (loading || !sprint) {
+    return (
+      <PageLayout title="Sprint">
+        <Skeleton className="h-32 w-full mb-6" />
+        <Skeleton className="h-64 w-full" />
+      </PageLayout>
+    );
+  }
+
+  const isDone = (row: SprintTask) => (row.outcome ? row.outcome === "completed" : row.tasks?.status_category === "done");
+  const committed = sprintTasks.filter(row => !row.added_after_start);
+  const added = sprintTasks.filter(row => row.added_after_start);
+  const committedHours = committed.reduce((sum, row) => sum + Number(row.committed_hours || 0), 0);
+  const addedHours = added.reduce((sum, row) => sum + Number(row.committed_hours || 0), 0);
+  const completedHours = sprintTasks
+    .filter(isDone)
+    .reduce((sum, row) => sum + Number(row.completed_hours ?? row.tasks?.estimated_hours ?? row.committed_hours ?? 0), 0);
+  const scopeHours = committedHours + addedHours;
+  const unfinished = sprintTasks.filter(row => !isDone(row)).length;
+  const scopeLabel = [
+    teams.find(t => t.id === sprint.team_id)?.name,
+    projects.find(p => p.id === sprint.project_id)?.name,
+  ].filter(Boolean).join(" · ");
+
+  return (
+    <PageLayout
+      title={sprint.name}
+      breadcrumbs={[
+        { label: "Home", href: "/dashboard" },
+        { label: "Sprints", href: "/sprints" },
+        { label: sprint.name }
+      ]}
+    >
+      <div className="flex justify-end gap-2 mb-6">
+        {sprint.status !== "completed" && (
+          <Button variant="outline" onClick={() => navigate(`/sprints/${sprint.id}/plan`)}>
+            <LayoutGrid className="mr-2 h-4 w-4" />
+            Planning Board
+          </Button>
+        )}
+        {canManage && (
+          <>
+            {sprint.status !== "completed" && (
+              <>
+                <Button variant="outline" onClick={() => setShowEdit(true)}>
+                  <Edit2 className="mr-2 h-4 w-4" />
+                  Edit
+                </Button>
+                <Button variant="outline" onClick={() => setShowAddTasks(true)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Tasks
+                </Button>
+              </>
+            )}
+            {sprint.status === "planned" && (
+              <>
+                <Button variant="outline" onClick={handleDelete}>
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete
+                </Button>
+                <Button onClick={handleStart}>
+                  <Play className="mr-2 h-4 w-4" />
+                  Start Sprint
+                </Button>
+              </>
+            )}
+            {sprint.status === "active" && (
+              <Button onClick={() => setShowComplete(true)}>
+                <CheckCircle className="mr-2 h-4 w-4" />
+                Complete Sprint
+              </Button>
+            )}
+          </>
+        )}
+      </div>
+
+      <Card className="mb-6">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <CardTitle className="flex items-center gap-2">
+              {scopeLabel}
+              <Badge variant={sprint.status === "active" ? "default" : "secondary"}>
+                {SPRINT_STATUS_LABELS[sprint.status]}
+              </Badge>
+            </CardTitle>
+            <span className="text-sm text-muted-foreground">
+              {format(parseISO(sprint.start_date), "MMM d")} – {format(parseISO(sprint.end_date), "MMM d, yyyy")}
+            </span>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {sprint.goal && <p>{sprint.goal}</p>}
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Committed</p>
+              <p className="text-lg font-semibold">{committedHours.toFixed(1)}h</p>
+              <p className="text-xs text-muted-foreground">{committed.length} tasks</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Added after start</p>
+              <p className="text-lg font-semibold">{addedHours.toFixed(1)}h</p>
+              <p className="text-xs text-muted-foreground">{added.length} tasks</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Completed</p>
+              <p className="text-lg font-semibold">{completedHours.toFixed(1)}h</p>
+              <p className="text-xs text-muted-foreground">{sprintTasks.length - unfinished} tasks</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Carried in</p>
+              <p className="text-lg font-semibold">{sprintTasks.filter(row => row.carried_over_from).length}</p>
+              <p className="text-xs text-muted-foreground">
+                {sprint.status === "completed"
+                  ? `${sprintTasks.filter(row => row.outcome === "carried_over").length} carried over`
+                  : "from earlier sprints"}
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>Progress</span>
+              <span className="text-muted-foreground">
+                {scopeHours > 0 ? ((completedHours / scopeHours) * 100).toFixed(0) : 0}%
+              </span>
+            </div>
+            <Progress value={scopeHours > 0 ? Math.min((completedHours / scopeHours) * 100, 100) : 0} />
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Tasks</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sprintTasks.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">
+              No tasks in this sprint yet.
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Task</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Assignee</TableHead>
+                  <TableHead className="text-right">Estimate</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sprintTasks.map(row => (
+                  <TableRow key={row.id}>
+                    <TableCell>
+                      <button className="text-left" onClick={() => navigate(`/tasks/${row.task_id}`)}>
+                        <span className="font-mono text-xs text-muted-foreground mr-2">{row.tasks?.code}</span>
+                        <span className="font-medium hover:underline">{row.tasks?.title}</span>
+                      </button>
+                      <div className="flex gap-1 mt-1">
+                        {row.added_after_start && <Badge variant="outline">Added</Badge>}
+                        {row.carried_over_from && <Badge variant="outline">Carried in</Badge>}
+                        {row.outcome && (
+                          <Badge variant={row.outcome === "completed" ? "secondary" : "outline"}>
+                            {OUTCOME_LABELS[row.outcome]}
+                          </Badge>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell>{row.tasks && <TaskStatusBadge status={row.tasks.status} workflow={workflowFor(workflows, row.tasks.project_id)} />}</TableCell>
+                    <TableCell>
+                      {row.tasks?.assigned_to
+                        ? members.find(m => m.user_id === row.tasks?.assigned_to)?.email || "Unknown"
+                        : "Unassigned"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {row.committed_hours !== null ? `${Number(row.committed_hours).toFixed(1)}h` : "—"}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {canManage && sprint.status !== "completed" && (
+                        <Button variant="ghost" size="sm" onClick={() => handleRemoveTask(row)}>
+                          <X className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <>
+          <SprintDialog
+            open={showEdit}
+            onOpenChange={setShowEdit}
+            onSuccess={setSprint}
+            organizationId={sprint.organization_id}
+            sprint={sprint}
+            teams={teams}
+            projects={projects}
+          />
+          <AddSprintTasksDialog
+            open={showAddTasks}
+            onOpenChange={setShowAddTasks}
+            onSuccess={() => loadSprintTasks(sprint.id)}
+            sprint={sprint}
+          />
+          <CompleteSprintDialog
+            open={showComplete}
+            onOpenChange={setShowComplete}
+            onSuccess={loadData}
+            sprint={sprint}
+            unfinishedTasks={unfinished}
+          />
+        </>
+      )}
+    </PageLayout>
+  );
+}
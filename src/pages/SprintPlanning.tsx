@@ -0,0 +1,446 @@
+import { useEffect, useState, type DragEvent } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { AlertTriangle, CalendarOff, Inbox } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentUser } from "@/lib/auth";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Input } from "@/components/ui/input";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { PageLayout } from "@/components/PageLayout";
+import {
+  fetchSprintBacklog,
+  fetchSprintMemberIds,
+  sprintCapacity,
+  type BacklogTask,
+  type MemberCapacity,
+  type Sprint,
+} from "@/lib/sprints";
+
+type PlannedTask = BacklogTask & { sprintTaskId: string };
+
+/** What is being dragged: a backlog task or a task already in the sprint */
+interface DragPayload {
+  taskId: string;
+  from: "backlog" | "sprint";
+}
+
+const UNASSIGNED = "unassigned";
+
+function getPriorityBadge(priority: string) {
+  const variants: Record<string, string> = {
+    low: "bg-gray-400",
+    medium: "bg-blue-400",
+    high: "bg-orange-400",
+    urgent: "bg-red-500"
+  };
+  const labels: Record<string, string> = {
+    low: "Low",
+    medium: "Medium",
+    high: "High",
+    urgent: "Urgent"
+  };
+  return <Badge className={variants[priority]}>{labels[priority]}</Badge>;
+}
+
+export default function SprintPlanning() {
+  const { sprintId } = useParams();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [sprint, setSprint] = useState<Sprint | null>(null);
+  const [backlog, setBacklog] = useState<BacklogTask[]>([]);
+  const [planned, setPlanned] = useState<PlannedTask[]>([]);
+  const [memberIds, setMemberIds] = useState<string[]>([]);
+  const [members, setMembers] = useState<{ user_id: string; email: string }[]>([]);
+  const [capacity, setCapacity] = useState<MemberCapacity[]>([]);
+  const [canManage, setCanManage] = useState(false);
+  const [search, setSearch] = useState("");
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadData();
+  }, [sprintId]);
+
+  async function loadData() {
+    const user = await getCurrentUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const { data: sprintData, error } = await supabase
+      .from("sprints")
+      .select("*")
+      .eq("id", sprintId)
+      .maybeSingle();
+
+    if (error || !sprintData) {
+      toast({
+        title: "Error",
+        description: "Sprint not found",
+        variant: "destructive"
+      });
+      navigate("/sprints");
+      return;
+    }
+
+    const [{ data: org }, { data: membersData }, { data: canManageData }, { data: timeOff }, teamMemberIds] = await Promise.all([
+      supabase
+        .from("organizations")
+        .select("default_work_hours_per_week")
+        .eq("id", sprintData.organization_id)
+        .single(),
+      supabase.rpc("get_org_members_with_emails", { p_org_id: sprintData.organization_id }),
+      supabase.rpc("can_manage_sprint", {
+        p_user_id: user.id,
+        p_organization_id: sprintData.organization_id,
+        p_team_id: sprintData.team_id,
+        p_project_id: sprintData.project_id,
+      }),
+      supabase
+        .from("time_off")
+        .select("user_id, start_date, end_date")
+        .eq("organization_id", sprintData.organization_id)
+        .lte("start_date", sprintData.end_date)
+        .gte("end_date", sprintData.start_date),
+      fetchSprintMemberIds(supabase, sprintData),
+    ]);
+
+    const plannedTasks = await loadTasks(sprintData);
+
+    // Assignees from outside the team still get a lane so their load shows
+    const laneIds = [...teamMemberIds];
+    plannedTasks.forEach(task => {
+      if (task.assigned_to && !laneIds.includes(task.assigned_to)) laneIds.push(task.assigned_to);
+    });
+
+    setSprint(sprintData);
+    setMembers(membersData || []);
+    setMemberIds(teamMemberIds);
+    setCanManage(canManageData === true && sprintData.status !== "completed");
+    setCapacity(sprintCapacity(sprintData, org?.default_work_hours_per_week ?? 40, laneIds, timeOff || []));
+    setLoading(false);
+  }
+
+  async function loadTasks(target: Sprint): Promise<PlannedTask[]> {
+    const [backlogTasks, { data, error }] = await Promise.all([
+      fetchSprintBacklog(supabase, target),
+      supabase
+        .from("sprint_tasks")
+        .select("id, tasks(id, code, title, status, priority, estimated_hours, assigned_to, project_id)")
+        .eq("sprint_id", target.id)
+        .order("added_at"),
+    ]);
+
+    if (error) {
+      console.error("Error loading sprint tasks:", error);
+    }
+
+    const plannedTasks = (data || [])
+      .filter(row => row.tasks)
+      .map(row => ({ ...row.tasks, sprintTaskId: row.id }));
+
+    setBacklog(backlogTasks);
+    setPlanned(plannedTasks);
+    return plannedTasks;
+  }
+
+  function assignedHours(userId: string | null) {
+    return planned
+      .filter(task => task.assigned_to === userId)
+      .reduce((sum, task) => sum + Number(task.estimated_hours || 0), 0);
+  }
+
+  function memberEmail(userId: string) {
+    return members.find(m => m.user_id === userId)?.email || "Unknown";
+  }
+
+  function warnIfOverCapacity(task: BacklogTask, assignee: string | null) {
+    const lane = capacity.find(c => c.userId === assignee);
+    if (!lane) return;
+
+    const alreadyCounted = planned.some(p => p.id === task.id && p.assigned_to === assignee);
+    const total = assignedHours(assignee) + (alreadyCounted ? 0 : Number(task.estimated_hours || 0));
+    if (total > lane.capacityHours) {
+      toast({
+        title: "Over capacity",
+        description: `${memberEmail(lane.userId)} now has ${total.toFixed(1)}h assigned for ${lane.capacityHours.toFixed(1)}h available.`,
+        variant: "destructive"
+      });
+    }
+  }
+
+  function handleDragStart(event: DragEvent, payload: DragPayload) {
+    event.dataTransfer.setData("application/json", JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = "move";
+  }
+
+  function handleDragOver(event: DragEvent, target: string) {
+    if (!canManage) return;
+    event.preventDefault();
+    setDropTarget(target);
+  }
+
+  async function handleDropOnLane(event: DragEvent, lane: string) {
+    event.preventDefault();
+    setDropTarget(null);
+    if (!sprint || !canManage) return;
+
+    const payload: DragPayload = JSON.parse(event.dataTransfer.getData("application/json") || "null");
+    if (!payload) return;
+
+    const assignee = lane === UNASSIGNED ? null : lane;
+    const task = payload.from === "backlog"
+      ? backlog.find(t => t.id === payload.taskId)
+      : planned.find(t => t.id === payload.taskId);
+    if (!task) return;
+
+    if (payload.from === "backlog") {
+      const { error } = await supabase
+        .from("sprint_tasks")
+        .insert({ sprint_id: sprint.id, task_id: task.id });
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to add task to sprint",
+          variant: "destructive"
+        });
+        return;
+      }
+    }
+
+    if (task.assigned_to !== assignee) {
+      const { error } = await supabase
+        .from("tasks")
+        .update({ assigned_to: assignee })
+        .eq("id", task.id);
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: error.message || "Failed to assign task",
+          variant: "destructive"
+        });
+      }
+    }
+
+    warnIfOverCapacity(task, assignee);
+    await loadTasks(sprint);
+  }
+
+  async function handleDropOnBacklog(event: DragEvent) {
+    event.preventDefault();
+    setDropTarget(null);
+    if (!sprint || !canManage) return;
+
+    const payload: DragPayload = JSON.parse(event.dataTransfer.getData("application/json") || "null");
+    if (!payload || payload.from !== "sprint") return;
+
+    const task = planned.find(t => t.id === payload.taskId);
+    if (!task) return;
+
+    const { error } = await supabase.from("sprint_tasks").delete().eq("id", task.sprintTaskId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove task from sprint",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    await loadTasks(sprint);
+  }
+
+  if (loading || !sprint) {
+    return (
+      <PageLayout title="Sprint Planning">
+        <Skeleton className="h-24 w-full mb-6" />
+        <Skeleton className="h-96 w-full" />
+      </PageLayout>
+    );
+  }
+
+  const query = search.trim().toLowerCase();
+  const visibleBacklog = backlog.filter(task =>
+    !query || task.code.toLowerCase().includes(query) || task.title.toLowerCase().includes(query)
+  );
+  const totalCapacity = capacity.reduce((sum, c) => sum + c.capacityHours, 0);
+  const totalPlanned = planned.reduce((sum, task) => sum + Number(task.estimated_hours || 0), 0);
+  const overloaded = capacity.filter(c => assignedHours(c.userId) > c.capacityHours);
+
+  function TaskCard({ task, from }: { task: BacklogTask; from: DragPayload["from"] }) {
+    return (
+      <div
+        draggable={canManage}
+        onDragStart={(event) => handleDragStart(event, { taskId: task.id, from })}
+        className={`rounded-md border bg-card p-3 text-sm ${canManage ? "cursor-grab active:cursor-grabbing" : ""}`}
+      >
+        <div className="flex items-center justify-between gap-2 mb-1">
+          <span className="font-mono text-xs text-muted-foreground">{task.code}</span>
+          {getPriorityBadge(task.priority)}
+        </div>
+        <p className="font-medium leading-snug">{task.title}</p>
+        <div className="flex justify-between mt-2 text-xs text-muted-foreground">
+          <span>{task.assigned_to ? memberEmail(task.assigned_to) : "Unassigned"}</span>
+          <span>{task.estimated_hours ? `${task.estimated_hours}h` : "No estimate"}</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <PageLayout
+      title={`Plan ${sprint.name}`}
+      breadcrumbs={[
+        { label: "Home", href: "/dashboard" },
+        { label: "Sprints", href: "/sprints" },
+        { label: sprint.name, href: `/sprints/${sprint.id}` },
+        { label: "Planning" }
+      ]}
+    >
+      <Card className="mb-6">
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-muted-foreground">Dates</p>
+              <p className="text-lg font-semibold">
+                {format(parseISO(sprint.start_date), "MMM d")} – {format(parseISO(sprint.end_date), "MMM d")}
+              </p>
+              <p className="text-xs text-muted-foreground">{capacity[0]?.workingDays ?? 0} working days</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Capacity</p>
+              <p className="text-lg font-semibold">{totalCapacity.toFixed(1)}h</p>
+              <p className="text-xs text-muted-foreground">{capacity.length} members</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Planned</p>
+              <p className="text-lg font-semibold">{totalPlanned.toFixed(1)}h</p>
+              <p className="text-xs text-muted-foreground">{planned.length} tasks</p>
+            </div>
+            <div>
+              <p className="text-sm text-muted-foreground">Unassigned</p>
+              <p className="text-lg font-semibold">{assignedHours(null).toFixed(1)}h</p>
+              <p className="text-xs text-muted-foreground">
+                {planned.filter(task => !task.assigned_to).length} tasks
+              </p>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {overloaded.length > 0 && (
+        <Alert variant="destructive" className="mb-6">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertTitle>Over capacity</AlertTitle>
+          <AlertDescription>
+            {overloaded.map(c => memberEmail(c.userId)).join(", ")}{" "}
+            {overloaded.length === 1 ? "has" : "have"} more estimated hours assigned than available in this sprint.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <div className="grid gap-6 lg:grid-cols-3">
+        <Card
+          onDragOver={(event) => handleDragOver(event, "backlog")}
+          onDragLeave={() => setDropTarget(null)}
+          onDrop={handleDropOnBacklog}
+          className={dropTarget === "backlog" ? "ring-2 ring-primary" : ""}
+        >
+          <CardHeader>
+            <CardTitle>Backlog</CardTitle>
+            <CardDescription>
+              {canManage ? "Drag tasks onto a member to plan and assign them." : "Open tasks not planned in a sprint."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            <Input
+              placeholder="Search by code or title"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <div className="space-y-2 max-h-[70vh] overflow-y-auto">
+              {visibleBacklog.length === 0 ? (
+                <div className="flex flex-col items-center text-muted-foreground py-8">
+                  <Inbox className="h-8 w-8 mb-2" />
+                  <p className="text-sm">No tasks available</p>
+                </div>
+              ) : (
+                visibleBacklog.map(task => <TaskCard key={task.id} task={task} from="backlog" />)
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <div className="lg:col-span-2 grid gap-4 md:grid-cols-2 content-start">
+          {[...capacity.map(c => c.userId), UNASSIGNED].map(lane => {
+            const memberCapacity = capacity.find(c => c.userId === lane);
+            const hours = assignedHours(lane === UNASSIGNED ? null : lane);
+            const over = memberCapacity ? hours > memberCapacity.capacityHours : false;
+            const laneTasks = planned.filter(task => (task.assigned_to ?? UNASSIGNED) === lane);
+
+            return (
+              <Card
+                key={lane}
+                onDragOver={(event) => handleDragOver(event, lane)}
+                onDragLeave={() => setDropTarget(null)}
+                onDrop={(event) => handleDropOnLane(event, lane)}
+                className={`${over ? "border-destructive" : ""} ${dropTarget === lane ? "ring-2 ring-primary" : ""}`}
+              >
+                <CardHeader className="pb-3">
+                  <div className="flex items-center justify-between gap-2">
+                    <CardTitle className="text-base truncate">
+                      {lane === UNASSIGNED ? "Unassigned" : memberEmail(lane)}
+                    </CardTitle>
+                    {over && <AlertTriangle className="h-4 w-4 text-destructive shrink-0" />}
+                  </div>
+                  {memberCapacity ? (
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-sm">
+                        <span className={over ? "text-destructive font-medium" : "text-muted-foreground"}>
+                          {hours.toFixed(1)}h / {memberCapacity.capacityHours.toFixed(1)}h
+                        </span>
+                        <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                          {memberCapacity.daysOff > 0 && (
+                            <span className="flex items-center gap-1">
+                              <CalendarOff className="h-3 w-3" />
+                              {memberCapacity.daysOff}d off
+                            </span>
+                          )}
+                          {!memberIds.includes(lane) && <Badge variant="outline">Not on team</Badge>}
+                        </span>
+                      </div>
+                      <Progress
+                        value={memberCapacity.capacityHours > 0 ? Math.min((hours / memberCapacity.capacityHours) * 100, 100) : 100}
+                        className={over ? "[&>div]:bg-destructive" : ""}
+                      />
+                    </div>
+                  ) : (
+                    <CardDescription>{hours.toFixed(1)}h</CardDescription>
+                  )}
+                </CardHeader>
+                <CardContent className="space-y-2 min-h-[80px]">
+                  {laneTasks.length === 0 ? (
+                    <p className="text-center text-sm text-muted-foreground py-4">
+                      {canManage ? "Drop tasks here" : "No tasks"}
+                    </p>
+                  ) : (
+                    laneTasks.map(task => <TaskCard key={task.id} task={task} from="sprint" />)
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      </div>
+    </PageLayout>
+  );
+}
@@ -0,0 +1,266 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { format, parseISO } from "date-fns";
+import { Plus, Zap } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { getCurrentUser, getUserOrganizations, Organization } from "@/lib/auth";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { PageLayout } from "@/components/PageLayout";
+import { EmptyState } from "@/components/EmptyState";
+import { TableSkeleton } from "@/components/TableSkeleton";
+import { SprintDialog } from "@/components/SprintDialog";
+import { VelocityChart } from "@/components/VelocityChart";
+import { completionRate, SPRINT_STATUS_LABELS, type SprintStats } from "@/lib/sprints";
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline"> = {
+  planned: "outline",
+  active: "default",
+  completed: "secondary",
+};
+
+export default function Sprints() {
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const [loading, setLoading] = useState(true);
+  const [activeOrg, setActiveOrg] = useState<Organization | null>(null);
+  const [teams, setTeams] = useState<{ id: string; name: string }[]>([]);
+  const [projects, setProjects] = useState<{ id: string; name: string }[]>([]);
+  const [leadTeamIds, setLeadTeamIds] = useState<string[]>([]);
+  const [teamFilter, setTeamFilter] = useState("all");
+  const [projectFilter, setProjectFilter] = useState("all");
+  const [chartSprints, setChartSprints] = useState("6");
+  const [sprints, setSprints] = useState<SprintStats[]>([]);
+  const [showDialog, setShowDialog] = useState(false);
+
+  const canManage = activeOrg?.role === "admin" || activeOrg?.role === "manager" || leadTeamIds.length > 0;
+
+  useEffect(() => {
+    loadData();
+  }, []);
+
+  useEffect(() => {
+    if (activeOrg) loadSprints(activeOrg.id);
+  }, [activeOrg, teamFilter, projectFilter]);
+
+  async function loadData() {
+    const user = await getCurrentUser();
+    if (!user) {
+      navigate("/auth");
+      return;
+    }
+
+    const orgs = await getUserOrganizations();
+    if (orgs.length === 0) {
+      navigate("/onboarding");
+      return;
+    }
+
+    const activeOrgId = localStorage.getItem("activeOrgId");
+    const currentOrg = orgs.find(o => o.id === activeOrgId) || orgs[0];
+
+    const [{ data: teamsData }, { data: projectsData }, { data: leadData }] = await Promise.all([
+      supabase
+        .from("teams")
+        .select("id, name")
+        .eq("organization_id", currentOrg.id)
+        .is("deleted_at", null)
+        .order("name"),
+      supabase
+        .from("projects")
+        .select("id, name")
+        .eq("organization_id", currentOrg.id)
+        .is("deleted_at", null)
+        .order("name"),
+      supabase
+        .from("team_members")
+        .select("team_id")
+        .eq("user_id", user.id)
+        .eq("team_role", "tech_lead"),
+    ]);
+
+    setTeams(teamsData || []);
+    setProjects(projectsData || []);
+    setLeadTeamIds((leadData || []).map(m => m.team_id));
+    setActiveOrg(currentOrg);
+  }
+
+  async function loadSprints(orgId: string) {
+    setLoading(true);
+    const { data, error } = await supabase.rpc("get_sprint_stats", {
+      p_organization_id: orgId,
+      p_team_id: teamFilter === "all" ? undefined : teamFilter,
+      p_project_id: projectFilter === "all" ? undefined : projectFilter,
+    });
+
+    if (error) {
+      console.error("Error loading sprints:", error);
+      toast({
+        title: "Error",
+        description: "Failed to load sprints",
+        variant: "destructive"
+      });
+    }
+
+    setSprints(data || []);
+    setLoading(false);
+  }
+
+  const teamName = (id: string | null) => teams.find(t => t.id === id)?.name;
+  const projectName = (id: string | null) => projects.find(p => p.id === id)?.name;
+  // Velocity only compares like with like: one team or project at a time
+  const showVelocity = teamFilter !== "all" || projectFilter !== "all";
+
+  return (
+    <PageLayout
+      title="Sprints"
+      breadcrumbs={[
+        { label: "Home", href: "/dashboard" },
+        { label: "Sprints" }
+      ]}
+    >
+      <div className="flex items-center justify-between gap-4 mb-6">
+        <div className="flex gap-4">
+          <Select value={teamFilter} onValueChange={setTeamFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Teams</SelectItem>
+              {teams.map(team => (
+                <SelectItem key={team.id} value={team.id}>{team.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={projectFilter} onValueChange={setProjectFilter}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Projects</SelectItem>
+              {projects.map(project => (
+                <SelectItem key={project.id} value={project.id}>{project.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        {canManage && (
+          <Button onClick={() => setShowDialog(true)}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Sprint
+          </Button>
+        )}
+      </div>
+
+      {showVelocity && sprints.length > 0 && (
+        <Card className="mb-6">
+          <CardHeader>
+            <div className="flex justify-between items-center">
+              <div>
+                <CardTitle>Velocity</CardTitle>
+                <CardDescription>Estimated hours committed at sprint start vs completed</CardDescription>
+              </div>
+              <Select value={chartSprints} onValueChange={setChartSprints}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="6">Last 6 sprints</SelectItem>
+                  <SelectItem value="10">Last 10 sprints</SelectItem>
+                  <SelectItem value="20">Last 20 sprints</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <VelocityChart stats={sprints.slice(0, Number(chartSprints))} />
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        {loading ? (
+          <TableSkeleton />
+        ) : sprints.length === 0 ? (
+          <EmptyState
+            icon={Zap}
+            title="No sprints yet"
+            description="Plan a sprint for a team or project to track commitments and velocity."
+            actionLabel={canManage ? "New Sprint" : undefined}
+            onAction={canManage ? () => setShowDialog(true) : undefined}
+          />
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Sprint</TableHead>
+                <TableHead>Team / Project</TableHead>
+                <TableHead>Dates</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Committed</TableHead>
+                <TableHead className="text-right">Completed</TableHead>
+                <TableHead className="text-right">Carried over</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sprints.map(sprint => {
+                const rate = completionRate(sprint);
+                return (
+                  <TableRow
+                    key={sprint.sprint_id}
+                    className="cursor-pointer"
+                    onClick={() => navigate(`/sprints/${sprint.sprint_id}`)}
+                  >
+                    <TableCell className="font-medium">{sprint.name}</TableCell>
+                    <TableCell>
+                      {[teamName(sprint.team_id), projectName(sprint.project_id)].filter(Boolean).join(" · ")}
+                    </TableCell>
+                    <TableCell>
+                      {format(parseISO(sprint.start_date), "MMM d")} – {format(parseISO(sprint.end_date), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={STATUS_VARIANTS[sprint.status]}>{SPRINT_STATUS_LABELS[sprint.status]}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Number(sprint.committed_hours).toFixed(1)}h
+                      <span className="text-muted-foreground"> · {sprint.committed_tasks} tasks</span>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {Number(sprint.completed_hours).toFixed(1)}h
+                      {rate !== null && <span className="text-muted-foreground"> · {rate.toFixed(0)}%</span>}
+                    </TableCell>
+                    <TableCell className="text-right">{sprint.carried_over_tasks}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </Card>
+
+      {activeOrg && (
+        <SprintDialog
+          open={showDialog}
+          onOpenChange={setShowDialog}
+          onSuccess={(sprint) => navigate(`/sprints/${sprint.id}`)}
+          organizationId={activeOrg.id}
+          sprint={null}
+          teams={teams}
+          projects={projects}
+          defaultTeamId={teamFilter === "all" ? undefined : teamFilter}
+          defaultProjectId={projectFilter === "all" ? undefined : projectFilter}
+        />
+      )}
+    </PageLayout>
+  );
+}
@@ -40,12 +40,18 @@ import {
   Download,
   Trash2,
   Timer,
-  Clock
+  Clock,
+  LayoutTemplate
 } from "lucide-react";
 import { format } from "date-fns";
 import { CreateTaskDialog } from "@/components/CreateTaskDialog";
 import { LogTimeManuallyDialog } from "@/components/LogTimeManuallyDialog";
+import { RecurrencePicker } from "@/components/RecurrencePicker";
+import { SaveAsTemplateDialog } from "@/components/SaveAsTemplateDialog";
+import { TaskDependenciesCard } from "@/components/TaskDependenciesCard";
+import { TaskGitActivityCard } from "@/components/TaskGitActivityCard";
 import { useTimer } from "@/contexts/TimerContext";
+import { canTransition, DEFAULT_WORKFLOW, fetchProjectWorkflow, statusLabel, type Workflow } from "@/lib/workflows";
 
 interface TaskDetails {
   id: string;
@@ -63,12 +69,15 @@ interface TaskDetails {
   creator_name: string | null;
   estimated_hours: number | null;
   actual_hours: number;
+  start_date: string | null;
   due_date: string | null;
   completed_at: string | null;
   created_at: string;
   project_id: string | null;
   project_name: string | null;
   parent_task_id: string | null;
+  recurrence_rule: string | null;
+  next_instance_id: string | null;
 }
 
 interface Subtask {
@@ -76,6 +85,7 @@ interface Subtask {
   code: string;
   title: string;
   status: string;
+  status_category: string;
   assignee_name: string | null;
   assignee_email: string | null;
 }
@@ -135,10 +145,11 @@ const TaskDetails = () => {
   const { taskId } = useParams();
   const navigate = useNavigate();
   const { toast } = useToast();
-  const { startTimer, timerState, updateTimerTask } = useTimer();
+  const { startTimer, timerState } = useTimer();
   
   const [loading, setLoading] = useState(true);
   const [task, setTask] = useState<TaskDetails | null>(null);
+  const [workflow, setWorkflow] = useState<Workflow>(DEFAULT_WORKFLOW);
   const [subtasks, setSubtasks] = useState<Subtask[]>([]);
   const [comments, setComments] = useState<Comment[]>([]);
   const [attachments, setAttachments] = useState<Attachment[]>([]);
@@ -158,6 +169,8 @@ const TaskDetails = () => {
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [auditLogs, setAuditLogs] = useState<AuditLog[]>([]);
   const [logTimeOpen, setLogTimeOpen] = useState(false);
+  const [saveTemplateOpen, setSaveTemplateOpen] = useState(false);
+  const [recurrenceDraft, setRecurrenceDraft] = useState<string | null>(null);
 
   useEffect(() => {
     loadData();
@@ -249,15 +262,20 @@ const TaskDetails = () => {
       creator_name: creatorEmail || "",
       estimated_hours: data.estimated_hours,
       actual_hours: data.actual_hours,
+      start_date: data.start_date,
       due_date: data.due_date,
       completed_at: data.completed_at,
       created_at: data.created_at,
       project_id: data.project_id,
       project_name: projectName,
       parent_task_id: data.parent_task_id,
+      recurrence_rule: data.recurrence_rule,
+      next_instance_id: data.next_instance_id,
     };
 
     setTask(taskData);
+    setRecurrenceDraft(data.recurrence_rule);
+    setWorkflow(data.project_id ? await fetchProjectWorkflow(supabase, data.project_id) : DEFAULT_WORKFLOW);
 
     // Check if user can edit
     const canEditTask = 
@@ -338,7 +356,7 @@ const TaskDetails = () => {
   async function loadSubtasks() {
     const { data } = await supabase
       .from("tasks")
-      .select("id, code, title, status, assigned_to")
+      .select("id, code, title, status, status_category, assigned_to")
       .eq("parent_task_id", taskId)
       .is("deleted_at", null)
       .order("code");
@@ -360,6 +378,7 @@ const TaskDetails = () => {
             code: s.code,
             title: s.title,
             status: s.status,
+            status_category: s.status_category,
             assignee_name: assigneeName,
             assignee_email: assigneeEmail,
           };
@@ -479,7 +498,7 @@ const TaskDetails = () => {
       console.error("Error updating task:", error);
       toast({
         title: "Error",
-        description: "Failed to update task",
+        description: error.message || "Failed to update task",
         variant: "destructive",
       });
     } else {
@@ -823,6 +842,12 @@ const TaskDetails = () => {
           </Badge>
           <h1 className="text-2xl font-bold">{task.title}</h1>
         </div>
+        {!task.parent_task_id && (
+          <Button variant="outline" onClick={() => setSaveTemplateOpen(true)}>
+            <LayoutTemplate className="w-4 h-4 mr-2" />
+            Save as Template
+          </Button>
+        )}
       </div>
 
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -860,11 +885,18 @@ const TaskDetails = () => {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="todo">To Do</SelectItem>
-                      <SelectItem value="in_progress">In Progress</SelectItem>
-                      <SelectItem value="in_review">In Review</SelectItem>
-                      <SelectItem value="blocked">Blocked</SelectItem>
-                      <SelectItem value="done">Done</SelectItem>
+                      {!workflow.statuses.some(s => s.key === task.status) && (
+                        <SelectItem value={task.status}>{statusLabel(workflow, task.status)}</SelectItem>
+                      )}
+                      {workflow.statuses.map(status => (
+                        <SelectItem
+                          key={status.key}
+                          value={status.key}
+                          disabled={!canTransition(workflow, task.status, status.key)}
+                        >
+                          {status.name}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -928,6 +960,15 @@ const TaskDetails = () => {
                   <p className="text-sm mt-2">{task.actual_hours}</p>
                 </div>
 
+                {task.start_date && (
+                  <div>
+                    <label className="text-sm font-medium">Start Date</label>
+                    <p className="text-sm mt-2">
+                      {format(new Date(task.start_date), "PPP")}
+                    </p>
+                  </div>
+                )}
+
                 <div>
                   <label className="text-sm font-medium">Due Date</label>
                   <p className="text-sm mt-2">
@@ -951,6 +992,39 @@ const TaskDetails = () => {
                     </p>
                   </div>
                 )}
+
+                {!task.parent_task_id && (canEdit || task.recurrence_rule) && (
+                  <div className="col-span-2">
+                    <label className="text-sm font-medium">Repeat</label>
+                    <div className="mt-2">
+                      <RecurrencePicker
+                        value={recurrenceDraft}
+                        onChange={setRecurrenceDraft}
+                        dueDate={task.due_date ? new Date(`${task.due_date}T00:00:00`) : null}
+                        disabled={!canEdit || !!task.next_instance_id}
+                      />
+                    </div>
+                    {recurrenceDraft !== task.recurrence_rule && (
+                      <div className="flex gap-2 mt-2">
+                        <Button size="sm" onClick={() => updateTaskField("recurrence_rule", recurrenceDraft)}>
+                          Save
+                        </Button>
+                        <Button size="sm" variant="outline" onClick={() => setRecurrenceDraft(task.recurrence_rule)}>
+                          Cancel
+                        </Button>
+                      </div>
+                    )}
+                    {task.next_instance_id && (
+                      <p className="text-sm mt-2">
+                        The next instance has been created.{" "}
+                        <Link to={`/tasks/${task.next_instance_id}`} className="text-primary hover:underline">
+                          Open it
+                        </Link>{" "}
+                        to change the schedule.
+                      </p>
+                    )}
+                  </div>
+                )}
               </div>
             </CardContent>
           </Card>
@@ -961,7 +1035,7 @@ const TaskDetails = () => {
               <CardHeader>
                 <div className="flex justify-between items-center">
                   <CardTitle>
-                    Subtasks ({subtasks.filter(s => s.status === 'done').length}/{subtasks.length})
+                    Subtasks ({subtasks.filter(s => s.status_category === 'done').length}/{subtasks.length})
                   </CardTitle>
                   <Button size="sm" onClick={() => setCreateSubtaskOpen(true)}>
                     Add Subtask
@@ -979,7 +1053,7 @@ const TaskDetails = () => {
                         className="flex items-center gap-3 p-2 rounded hover:bg-muted cursor-pointer"
                         onClick={() => navigate(`/tasks/${subtask.id}`)}
                       >
-                        <Badge variant={subtask.status === 'done' ? 'default' : 'outline'}>
+                        <Badge variant={subtask.status_category === 'done' ? 'default' : 'outline'}>
                           {subtask.code}
                         </Badge>
                         <span className="flex-1">{subtask.title}</span>
@@ -996,6 +1070,18 @@ const TaskDetails = () => {
             </Card>
           )}
 
+          {/* Dependencies */}
+          <TaskDependenciesCard
+            taskId={task.id}
+            organizationId={activeOrg.id}
+            userId={currentUser.id}
+            projectId={task.project_id}
+            workflow={workflow}
+          />
+
+          {/* Commits and pull requests */}
+          <TaskGitActivityCard taskId={task.id} />
+
           {/* Comments */}
           <Card>
             <CardHeader>
@@ -1066,23 +1152,27 @@ const TaskDetails = () => {
                 <Button 
                   onClick={() => {
                     if (task && taskId) {
-                      // Update task in timer before starting
-                      updateTimerTask(taskId, task.code, task.project_id);
-                      startTimer('pomodoro_focus', 25 * 60);
+                      startTimer('pomodoro_focus', undefined, {
+                        taskId,
+                        taskCode: task.code,
+                        projectId: task.project_id,
+                      });
                     }
                   }}
                   disabled={timerState.isRunning}
                   size="sm"
                 >
                   <Timer className="w-4 h-4 mr-2" />
-                  Start Pomodoro (25m)
+                  Start Pomodoro
                 </Button>
                 <Button 
                   onClick={() => {
                     if (task && taskId) {
-                      // Update task in timer before starting
-                      updateTimerTask(taskId, task.code, task.project_id);
-                      startTimer('quick_timer');
+                      startTimer('quick_timer', undefined, {
+                        taskId,
+                        taskCode: task.code,
+                        projectId: task.project_id,
+                      });
                     }
                   }}
                   disabled={timerState.isRunning}
@@ -1288,6 +1378,14 @@ const TaskDetails = () => {
           loadTimeEntries();
         }}
       />
+
+      <SaveAsTemplateDialog
+        open={saveTemplateOpen}
+        onOpenChange={setSaveTemplateOpen}
+        kind="task"
+        sourceId={task.id}
+        defaultName={task.title}
+      />
     </div>
   );
 };
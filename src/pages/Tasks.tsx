@@ -1,19 +1,21 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Fragment, useState, useEffect } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
-import { getCurrentOrganization } from "@/lib/auth";
+import { getCurrentOrganization, getCurrentUser } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Checkbox } from "@/components/ui/checkbox";
 import { useToast } from "@/hooks/use-toast";
-import { 
-  Select,
-  SelectContent,
-  SelectItem,
-  SelectTrigger,
-  SelectValue,
-} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
   ArrowLeft, 
@@ -21,18 +23,73 @@ import {
   CheckSquare, 
   MessageSquare, 
   Paperclip,
-  AlertCircle 
+  AlertCircle,
+  Filter
 } from "lucide-react";
 import { format } from "date-fns";
 import { CreateTaskDialog } from "@/components/CreateTaskDialog";
 import { PageLayout } from "@/components/PageLayout";
 import { EmptyState } from "@/components/EmptyState";
+import { TaskStatusBadge } from "@/components/TaskStatusBadge";
+import { TaskBulkActionsBar } from "@/components/TaskBulkActionsBar";
+import { TaskFilterBuilder, type FilterOptions } from "@/components/TaskFilterBuilder";
+import { TaskViewOptions } from "@/components/TaskViewOptions";
+import { TaskViewsMenu } from "@/components/TaskViewsMenu";
+import {
+  ARCHIVED_STATUS,
+  DEFAULT_WORKFLOW,
+  canTransition,
+  fallbackStatus,
+  fetchWorkflows,
+  findStatus,
+  positionBetween,
+  statusLabel,
+  workflowFor,
+  type Workflow,
+} from "@/lib/workflows";
+import {
+  COLUMN_LABELS,
+  DEFAULT_VIEW_STATE,
+  fetchTaskViews,
+  groupTasks,
+  isComplete,
+  matchesFilters,
+  sameViewState,
+  sortTasks,
+  viewState,
+  type FilterCondition,
+  type FilterContext,
+  type TaskColumn,
+  type TaskView,
+  type TaskViewState,
+} from "@/lib/taskViews";
+
+const ACTIVE_VIEW_KEY = "activeTaskViewId";
+
+/** Filters requested by links from elsewhere (?project=, ?assignee=) */
+function linkedFilters(params: URLSearchParams): FilterCondition[] {
+  const filters: FilterCondition[] = [];
+  const projectId = params.get("project");
+  const assigneeId = params.get("assignee");
+  if (projectId) filters.push({ field: "project", operator: "is", value: [projectId] });
+  if (assigneeId) filters.push({ field: "assignee", operator: "is", value: [assigneeId] });
+  return filters;
+}
+
+/** Project of a view that filters on exactly one project, if any */
+function singleProject(filters: FilterCondition[]): string | null {
+  const projectFilters = filters.filter(f => f.field === "project" && f.operator === "is" && isComplete(f));
+  if (projectFilters.length !== 1 || projectFilters[0].value.length !== 1) return null;
+  return projectFilters[0].value[0];
+}
 
 interface Task {
   id: string;
   code: string;
   title: string;
   status: string;
+  status_category: string;
+  board_position: number;
   priority: string;
   task_type: string;
   assigned_to: string | null;
@@ -55,30 +112,46 @@ interface Task {
 
 const Tasks = () => {
   const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
   const { toast } = useToast();
   const [loading, setLoading] = useState(true);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [filteredTasks, setFilteredTasks] = useState<Task[]>([]);
   const [createDialogOpen, setCreateDialogOpen] = useState(false);
   const [activeOrg, setActiveOrg] = useState<any>(null);
-  
-  // Filters
-  const [statusFilter, setStatusFilter] = useState("all");
-  const [priorityFilter, setPriorityFilter] = useState("all");
-  const [assigneeFilter, setAssigneeFilter] = useState("all");
-  const [projectFilter, setProjectFilter] = useState("all");
-  
-  // Unique filter options
-  const [projects, setProjects] = useState<Array<{id: string; name: string}>>([]);
-  const [assignees, setAssignees] = useState<Array<{id: string; name: string; email: string}>>([]);
+  const [workflows, setWorkflows] = useState<Map<string, Workflow>>(new Map());
+  const [dragTaskId, setDragTaskId] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [userId, setUserId] = useState("");
+
+  // Filters, columns, sort and grouping; saved views store all of them
+  const [view, setView] = useState<TaskViewState>(DEFAULT_VIEW_STATE);
+  const [views, setViews] = useState<TaskView[]>([]);
+  const [activeView, setActiveView] = useState<TaskView | null>(null);
+  const [showFilters, setShowFilters] = useState(false);
+  const [filterOptions, setFilterOptions] = useState<FilterOptions>({ statuses: [], projects: [], members: [], teams: [] });
+  const [filterContext, setFilterContext] = useState<Omit<FilterContext, "userId">>({
+    teamMembers: new Map(),
+    watchers: new Map(),
+  });
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Also reapplied when a link is followed while the list is already open
+  useEffect(() => {
+    const filters = linkedFilters(searchParams);
+    if (filters.length > 0) {
+      setActiveView(null);
+      setView({ ...DEFAULT_VIEW_STATE, filters });
+      setSelectedIds(new Set());
+    }
+  }, [searchParams]);
+
   useEffect(() => {
     applyFilters();
-  }, [tasks, statusFilter, priorityFilter, assigneeFilter, projectFilter]);
+  }, [tasks, view.filters, filterContext, userId]);
 
   async function loadData() {
     const org = await getCurrentOrganization();
@@ -92,10 +165,85 @@ const Tasks = () => {
       return;
     }
     setActiveOrg(org);
-    await loadTasks(org.id);
+    const user = await getCurrentUser();
+    setUserId(user?.id || "");
+    await Promise.all([loadTasks(org.id), loadWorkflows(org.id), loadViews(org.id, true), loadFilterData(org.id)]);
     setLoading(false);
   }
 
+  async function loadViews(orgId: string, restore = false) {
+    try {
+      const data = await fetchTaskViews(supabase, orgId);
+      setViews(data);
+
+      // A link from elsewhere wins over the last used view
+      const saved = data.find(v => v.id === localStorage.getItem(ACTIVE_VIEW_KEY));
+      if (restore && saved && linkedFilters(searchParams).length === 0) {
+        selectView(saved);
+      }
+    } catch (error) {
+      console.error("Error loading views:", error);
+    }
+  }
+
+  async function loadFilterData(orgId: string) {
+    const [{ data: members }, { data: teams }, { data: teamMembers }, { data: watchers }] = await Promise.all([
+      supabase.rpc("get_org_members_with_emails", { p_org_id: orgId }),
+      supabase
+        .from("teams")
+        .select("id, name")
+        .eq("organization_id", orgId)
+        .is("deleted_at", null)
+        .order("name"),
+      supabase
+        .from("team_members")
+        .select("team_id, user_id, teams!inner(organization_id)")
+        .eq("teams.organization_id", orgId),
+      supabase
+        .from("task_watchers")
+        .select("task_id, user_id, tasks!inner(organization_id)")
+        .eq("tasks.organization_id", orgId),
+    ]);
+
+    const byTeam = new Map<string, Set<string>>();
+    for (const member of teamMembers || []) {
+      if (!byTeam.has(member.team_id)) byTeam.set(member.team_id, new Set());
+      byTeam.get(member.team_id)!.add(member.user_id);
+    }
+
+    const byTask = new Map<string, Set<string>>();
+    for (const watcher of watchers || []) {
+      if (!byTask.has(watcher.task_id)) byTask.set(watcher.task_id, new Set());
+      byTask.get(watcher.task_id)!.add(watcher.user_id);
+    }
+
+    setFilterContext({ teamMembers: byTeam, watchers: byTask });
+    setFilterOptions(prev => ({
+      ...prev,
+      members: (members || []).map(m => ({ value: m.user_id, label: m.email })),
+      teams: (teams || []).map(t => ({ value: t.id, label: t.name })),
+    }));
+  }
+
+  function selectView(next: TaskView | null) {
+    setActiveView(next);
+    setView(next ? viewState(next) : DEFAULT_VIEW_STATE);
+    setSelectedIds(new Set());
+    if (next) {
+      localStorage.setItem(ACTIVE_VIEW_KEY, next.id);
+    } else {
+      localStorage.removeItem(ACTIVE_VIEW_KEY);
+    }
+  }
+
+  async function loadWorkflows(orgId: string) {
+    try {
+      setWorkflows(await fetchWorkflows(supabase, orgId));
+    } catch (error) {
+      console.error("Error loading workflows:", error);
+    }
+  }
+
   async function loadTasks(orgId: string) {
     const { data, error } = await supabase
       .rpc("get_tasks_with_details", { p_org_id: orgId });
@@ -115,6 +263,8 @@ const Tasks = () => {
       code: task.code,
       title: task.title,
       status: task.status,
+      status_category: task.status_category,
+      board_position: task.board_position,
       priority: task.priority,
       task_type: task.task_type,
       assigned_to: task.assigned_to,
@@ -137,77 +287,20 @@ const Tasks = () => {
 
     setTasks(formattedTasks);
 
-    // Extract unique projects and assignees
+    // Projects with tasks to filter on
     const uniqueProjects = Array.from(
       new Map(
         formattedTasks
           .filter(t => t.project_id && t.project_name)
-          .map(t => [t.project_id, { id: t.project_id!, name: t.project_name! }])
-      ).values()
-    );
-    setProjects(uniqueProjects);
-
-    const uniqueAssignees = Array.from(
-      new Map(
-        formattedTasks
-          .filter(t => t.assigned_to)
-          .map(t => [
-            t.assigned_to, 
-            { 
-              id: t.assigned_to!, 
-              name: t.assignee_name || t.assignee_email || "Unknown",
-              email: t.assignee_email || ""
-            }
-          ])
+          .map(t => [t.project_id, { value: t.project_id!, label: t.project_name! }])
       ).values()
-    );
-    setAssignees(uniqueAssignees);
+    ).sort((a, b) => a.label.localeCompare(b.label));
+    setFilterOptions(prev => ({ ...prev, projects: uniqueProjects }));
   }
 
   function applyFilters() {
-    let filtered = [...tasks];
-
-    if (statusFilter !== "all") {
-      filtered = filtered.filter(t => t.status === statusFilter);
-    }
-
-    if (priorityFilter !== "all") {
-      filtered = filtered.filter(t => t.priority === priorityFilter);
-    }
-
-    if (assigneeFilter === "me") {
-      filtered = filtered.filter(t => t.assigned_to === activeOrg?.user_id);
-    } else if (assigneeFilter === "unassigned") {
-      filtered = filtered.filter(t => !t.assigned_to);
-    } else if (assigneeFilter !== "all") {
-      filtered = filtered.filter(t => t.assigned_to === assigneeFilter);
-    }
-
-    if (projectFilter !== "all") {
-      filtered = filtered.filter(t => t.project_id === projectFilter);
-    }
-
-    setFilteredTasks(filtered);
-  }
-
-  function getStatusBadge(status: string) {
-    const variants: Record<string, string> = {
-      todo: "bg-gray-500",
-      in_progress: "bg-blue-500",
-      in_review: "bg-orange-500",
-      blocked: "bg-red-500",
-      done: "bg-green-500",
-      archived: "bg-gray-400"
-    };
-    const labels: Record<string, string> = {
-      todo: "To Do",
-      in_progress: "In Progress",
-      in_review: "In Review",
-      blocked: "Blocked",
-      done: "Done",
-      archived: "Archived"
-    };
-    return <Badge className={variants[status]}>{labels[status]}</Badge>;
+    const ctx = { ...filterContext, userId };
+    setFilteredTasks(tasks.filter(t => matchesFilters(t, view.filters, ctx)));
   }
 
   function getPriorityBadge(priority: string) {
@@ -226,9 +319,28 @@ const Tasks = () => {
     return <Badge className={variants[priority]}>{labels[priority]}</Badge>;
   }
 
+  function toggleSelected(taskId: string, checked: boolean) {
+    const next = new Set(selectedIds);
+    if (checked) {
+      next.add(taskId);
+    } else {
+      next.delete(taskId);
+    }
+    setSelectedIds(next);
+  }
+
+  // Bulk actions only touch selected tasks the current filters show
+  const selectedTasks = filteredTasks.filter(t => selectedIds.has(t.id));
+  const selectedProjectIds = new Set(selectedTasks.map(t => t.project_id));
+  const bulkWorkflow = selectedProjectIds.size === 1
+    ? workflowFor(workflows, selectedTasks[0].project_id)
+    : DEFAULT_WORKFLOW;
+
+  function isOverdue(task: Task) {
+    return !!task.due_date && new Date(task.due_date) < new Date() && task.status_category !== 'done';
+  }
+
   function TaskCard({ task }: { task: Task }) {
-    const isOverdue = task.due_date && new Date(task.due_date) < new Date() && task.status !== 'done';
-    
     return (
       <Card 
         className="cursor-pointer hover:shadow-md transition-shadow"
@@ -240,7 +352,7 @@ const Tasks = () => {
               {task.code}
             </Badge>
             <div className="flex gap-2">
-              {getStatusBadge(task.status)}
+              <TaskStatusBadge status={task.status} workflow={workflowFor(workflows, task.project_id)} />
               {getPriorityBadge(task.priority)}
             </div>
           </div>
@@ -281,8 +393,8 @@ const Tasks = () => {
             )}
             
             {task.due_date && (
-              <div className={`flex items-center gap-1 ${isOverdue ? 'text-red-500' : ''}`}>
-                {isOverdue && <AlertCircle className="h-4 w-4" />}
+              <div className={`flex items-center gap-1 ${isOverdue(task) ? 'text-red-500' : ''}`}>
+                {isOverdue(task) && <AlertCircle className="h-4 w-4" />}
                 <span>{format(new Date(task.due_date), "MMM d")}</span>
               </div>
             )}
@@ -304,29 +416,252 @@ const Tasks = () => {
     );
   }
 
-  function BoardView() {
-    const columns = [
-      { id: 'todo', label: 'To Do', tasks: filteredTasks.filter(t => t.status === 'todo') },
-      { id: 'in_progress', label: 'In Progress', tasks: filteredTasks.filter(t => t.status === 'in_progress') },
-      { id: 'in_review', label: 'In Review', tasks: filteredTasks.filter(t => t.status === 'in_review') },
-      { id: 'blocked', label: 'Blocked', tasks: filteredTasks.filter(t => t.status === 'blocked') },
-      { id: 'done', label: 'Done', tasks: filteredTasks.filter(t => t.status === 'done') },
-    ];
+  // With one project selected the board follows its workflow; across
+  // projects it uses the default columns
+  const boardProject = singleProject(view.filters);
+  const boardWorkflow = boardProject ? workflowFor(workflows, boardProject) : DEFAULT_WORKFLOW;
+
+  // Status keys of every workflow in use, for the status filter
+  const statusOptions = Array.from(
+    new Map(
+      [DEFAULT_WORKFLOW, ...workflows.values()]
+        .flatMap(workflow => workflow.statuses)
+        .map(status => [status.key, { value: status.key, label: status.name }])
+    ).values()
+  );
+
+  function workflowStatusPosition(task: Task) {
+    return findStatus(workflowFor(workflows, task.project_id), task.status)?.position ?? Number.MAX_SAFE_INTEGER;
+  }
+
+  function renderCell(task: Task, column: TaskColumn) {
+    switch (column) {
+      case "code":
+        return (
+          <Badge variant="outline" className="bg-blue-100 text-blue-800 whitespace-nowrap">
+            {task.code}
+          </Badge>
+        );
+      case "title":
+        return <span className="font-medium">{task.title}</span>;
+      case "status":
+        return <TaskStatusBadge status={task.status} workflow={workflowFor(workflows, task.project_id)} />;
+      case "priority":
+        return getPriorityBadge(task.priority);
+      case "task_type":
+        return <span className="capitalize">{task.task_type}</span>;
+      case "assignee":
+        return task.assigned_to ? (
+          <div className="flex items-center gap-2">
+            <Avatar className="h-6 w-6">
+              <AvatarFallback className="text-xs">
+                {(task.assignee_name || task.assignee_email || "?")[0].toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <span className="truncate">{task.assignee_name || task.assignee_email}</span>
+          </div>
+        ) : (
+          <span className="text-muted-foreground">Unassigned</span>
+        );
+      case "project":
+        return task.project_name || <span className="text-muted-foreground">–</span>;
+      case "due_date":
+        return task.due_date ? (
+          <span className={`flex items-center gap-1 whitespace-nowrap ${isOverdue(task) ? "text-red-500" : ""}`}>
+            {isOverdue(task) && <AlertCircle className="h-4 w-4" />}
+            {format(new Date(task.due_date), "MMM d")}
+          </span>
+        ) : (
+          <span className="text-muted-foreground">–</span>
+        );
+      case "estimate": {
+        const over = !!task.estimated_hours && task.actual_hours > task.estimated_hours;
+        return (
+          <span className={`whitespace-nowrap ${over ? "text-red-500" : ""}`}>
+            {task.estimated_hours ? `${task.estimated_hours}h` : "–"} / {task.actual_hours}h
+          </span>
+        );
+      }
+      case "subtasks":
+        return task.subtask_count > 0
+          ? `${task.completed_subtask_count}/${task.subtask_count}`
+          : <span className="text-muted-foreground">–</span>;
+    }
+  }
+
+  function ListView() {
+    const sorted = sortTasks(filteredTasks, view.sort, workflowStatusPosition);
+    const groups = view.groupBy
+      ? groupTasks(sorted, view.groupBy, t => statusLabel(workflowFor(workflows, t.project_id), t.status))
+      : [{ key: "all", label: "", tasks: sorted }];
 
     return (
-      <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4">
-        {columns.map(column => (
-          <div key={column.id} className="bg-muted/50 rounded-lg p-4">
-            <h3 className="font-semibold mb-3">
-              {column.label} ({column.tasks.length})
-            </h3>
-            <div className="space-y-3">
-              {column.tasks.map(task => (
-                <TaskCard key={task.id} task={task} />
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-10">
+                <Checkbox
+                  checked={selectedTasks.length === filteredTasks.length
+                    ? true
+                    : selectedTasks.length > 0 ? "indeterminate" : false}
+                  onCheckedChange={(checked) =>
+                    setSelectedIds(checked ? new Set(filteredTasks.map(t => t.id)) : new Set())
+                  }
+                  aria-label="Select all"
+                />
+              </TableHead>
+              {view.columns.map(column => (
+                <TableHead key={column}>{COLUMN_LABELS[column]}</TableHead>
               ))}
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {groups.map(group => (
+              <Fragment key={group.key}>
+                {view.groupBy && (
+                  <TableRow className="bg-muted/50 hover:bg-muted/50">
+                    <TableCell colSpan={view.columns.length + 1} className="font-semibold">
+                      {group.label}
+                      <span className="ml-2 font-normal text-muted-foreground">{group.tasks.length}</span>
+                    </TableCell>
+                  </TableRow>
+                )}
+                {group.tasks.map(task => (
+                  <TableRow
+                    key={task.id}
+                    className="cursor-pointer"
+                    data-state={selectedIds.has(task.id) ? "selected" : undefined}
+                    onClick={() => navigate(`/tasks/${task.id}`)}
+                  >
+                    <TableCell onClick={(event) => event.stopPropagation()}>
+                      <Checkbox
+                        checked={selectedIds.has(task.id)}
+                        onCheckedChange={(checked) => toggleSelected(task.id, !!checked)}
+                        aria-label={`Select ${task.code}`}
+                      />
+                    </TableCell>
+                    {view.columns.map(column => (
+                      <TableCell key={column}>{renderCell(task, column)}</TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+              </Fragment>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    );
+  }
+
+  function boardColumnOf(task: Task) {
+    if (findStatus(boardWorkflow, task.status)) return task.status;
+    return fallbackStatus(boardWorkflow, task.status_category)?.key;
+  }
+
+  async function moveTask(taskId: string, toStatus: string, beforeTaskId: string | null) {
+    const task = tasks.find(t => t.id === taskId);
+    if (!task || task.id === beforeTaskId) return;
+
+    const workflow = workflowFor(workflows, task.project_id);
+    if (toStatus !== task.status && !canTransition(workflow, task.status, toStatus)) {
+      toast({
+        title: "Move not allowed",
+        description: findStatus(workflow, toStatus)
+          ? `${statusLabel(workflow, task.status)} can't move to ${statusLabel(workflow, toStatus)} in this workflow`
+          : `${statusLabel(boardWorkflow, toStatus)} isn't part of ${task.project_name || "this task's"} workflow`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const column = filteredTasks
+      .filter(t => t.id !== task.id && boardColumnOf(t) === toStatus)
+      .sort((a, b) => a.board_position - b.board_position);
+    const index = beforeTaskId ? column.findIndex(t => t.id === beforeTaskId) : column.length;
+    const position = positionBetween(column[index - 1]?.board_position, column[index]?.board_position);
+
+    const previous = tasks;
+    setTasks(tasks.map(t => (t.id === task.id ? { ...t, status: toStatus, board_position: position } : t)));
+
+    const { error } = await supabase
+      .from("tasks")
+      .update(toStatus === task.status ? { board_position: position } : { status: toStatus, board_position: position })
+      .eq("id", task.id);
+
+    if (error) {
+      setTasks(previous);
+      toast({
+        title: "Error",
+        description: error.message || "Failed to move task",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The server settles the category (and completion) of the new status
+    if (toStatus !== task.status) loadTasks(activeOrg.id);
+  }
+
+  function handleDrop(event: React.DragEvent, toStatus: string, beforeTaskId: string | null) {
+    event.preventDefault();
+    event.stopPropagation();
+    const taskId = event.dataTransfer.getData("text/plain");
+    setDragTaskId(null);
+    if (taskId) moveTask(taskId, toStatus, beforeTaskId);
+  }
+
+  function BoardView() {
+    const columns = boardWorkflow.statuses.map(status => ({
+      status,
+      tasks: filteredTasks
+        .filter(t => t.status !== ARCHIVED_STATUS && boardColumnOf(t) === status.key)
+        .sort((a, b) => a.board_position - b.board_position),
+    }));
+
+    return (
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {columns.map(({ status, tasks: columnTasks }) => {
+          const overLimit = status.wip_limit !== null && columnTasks.length > status.wip_limit;
+          const atLimit = status.wip_limit !== null && columnTasks.length >= status.wip_limit;
+
+          return (
+            <div
+              key={status.key}
+              className={`bg-muted/50 rounded-lg p-4 border-t-4 flex-1 min-w-[260px] ${overLimit ? "ring-2 ring-destructive" : ""}`}
+              style={{ borderTopColor: status.color }}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => handleDrop(event, status.key, null)}
+            >
+              <h3 className="font-semibold mb-3 flex items-center justify-between">
+                <span>{status.name}</span>
+                <span className={`text-sm font-normal ${atLimit ? "text-destructive" : "text-muted-foreground"}`}>
+                  {columnTasks.length}
+                  {status.wip_limit !== null && ` / ${status.wip_limit}`}
+                </span>
+              </h3>
+              <div className="space-y-3 min-h-[80px]">
+                {columnTasks.map(task => (
+                  <div
+                    key={task.id}
+                    draggable
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData("text/plain", task.id);
+                      event.dataTransfer.effectAllowed = "move";
+                      setDragTaskId(task.id);
+                    }}
+                    onDragEnd={() => setDragTaskId(null)}
+                    onDragOver={(event) => event.preventDefault()}
+                    onDrop={(event) => handleDrop(event, status.key, task.id)}
+                    className={dragTaskId === task.id ? "opacity-50" : ""}
+                  >
+                    <TaskCard task={task} />
+                  </div>
+                ))}
+              </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
       </div>
     );
   }
@@ -355,66 +690,50 @@ const Tasks = () => {
         </Button>
       </div>
 
-      {/* Filters */}
-      <div className="flex flex-wrap gap-4 mb-6">
-        <Select value={statusFilter} onValueChange={setStatusFilter}>
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Status" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Status</SelectItem>
-            <SelectItem value="todo">To Do</SelectItem>
-            <SelectItem value="in_progress">In Progress</SelectItem>
-            <SelectItem value="in_review">In Review</SelectItem>
-            <SelectItem value="blocked">Blocked</SelectItem>
-            <SelectItem value="done">Done</SelectItem>
-          </SelectContent>
-        </Select>
-
-        <Select value={priorityFilter} onValueChange={setPriorityFilter}>
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Priority" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Priority</SelectItem>
-            <SelectItem value="low">Low</SelectItem>
-            <SelectItem value="medium">Medium</SelectItem>
-            <SelectItem value="high">High</SelectItem>
-            <SelectItem value="urgent">Urgent</SelectItem>
-          </SelectContent>
-        </Select>
-
-        <Select value={assigneeFilter} onValueChange={setAssigneeFilter}>
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Assignee" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Assignees</SelectItem>
-            <SelectItem value="me">Assigned to Me</SelectItem>
-            <SelectItem value="unassigned">Unassigned</SelectItem>
-            {assignees.map(assignee => (
-              <SelectItem key={assignee.id} value={assignee.id}>
-                {assignee.name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
-
-        <Select value={projectFilter} onValueChange={setProjectFilter}>
-          <SelectTrigger className="w-[180px]">
-            <SelectValue placeholder="Project" />
-          </SelectTrigger>
-          <SelectContent>
-            <SelectItem value="all">All Projects</SelectItem>
-            {projects.map(project => (
-              <SelectItem key={project.id} value={project.id}>
-                {project.name}
-              </SelectItem>
-            ))}
-          </SelectContent>
-        </Select>
+      {/* Views and filters */}
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <TaskViewsMenu
+          organizationId={activeOrg.id}
+          userId={userId}
+          canManageShared={activeOrg.role === "admin" || activeOrg.role === "manager"}
+          views={views}
+          activeView={activeView}
+          state={view}
+          dirty={!sameViewState(view, activeView ? viewState(activeView) : DEFAULT_VIEW_STATE)}
+          onSelect={selectView}
+          onSaved={(saved) => {
+            selectView(saved);
+            loadViews(activeOrg.id);
+          }}
+          onDeleted={() => {
+            selectView(null);
+            loadViews(activeOrg.id);
+          }}
+        />
+        <div className="flex items-center gap-2">
+          <Button variant={showFilters ? "secondary" : "outline"} size="sm" onClick={() => setShowFilters(!showFilters)}>
+            <Filter className="w-4 h-4 mr-2" />
+            Filters
+            {view.filters.filter(isComplete).length > 0 && (
+              <Badge variant="secondary" className="ml-2">{view.filters.filter(isComplete).length}</Badge>
+            )}
+          </Button>
+          <TaskViewOptions state={view} onChange={setView} />
+        </div>
       </div>
 
+      {showFilters && (
+        <Card className="mb-6">
+          <CardContent className="p-4">
+            <TaskFilterBuilder
+              filters={view.filters}
+              onChange={(filters) => setView({ ...view, filters })}
+              options={{ ...filterOptions, statuses: statusOptions }}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* View Toggle */}
       <Tabs defaultValue="list" className="w-full">
         <TabsList>
@@ -423,19 +742,33 @@ const Tasks = () => {
         </TabsList>
 
         <TabsContent value="list" className="mt-6">
-          <div className="space-y-4">
-            {filteredTasks.length === 0 ? (
-              <EmptyState
-                icon={CheckSquare}
-                title="No tasks yet"
-                description="Create your first task to start tracking work."
-                actionLabel="Create Task"
-                onAction={() => setCreateDialogOpen(true)}
-              />
-            ) : (
-              filteredTasks.map(task => <TaskCard key={task.id} task={task} />)
-            )}
-          </div>
+          {selectedTasks.length > 0 && (
+            <TaskBulkActionsBar
+              organizationId={activeOrg.id}
+              taskIds={selectedTasks.map(t => t.id)}
+              workflow={bulkWorkflow}
+              onClear={() => setSelectedIds(new Set())}
+              onSuccess={() => {
+                setSelectedIds(new Set());
+                loadTasks(activeOrg.id);
+                loadFilterData(activeOrg.id);
+              }}
+            />
+          )}
+
+          {tasks.length === 0 ? (
+            <EmptyState
+              icon={CheckSquare}
+              title="No tasks yet"
+              description="Create your first task to start tracking work."
+              actionLabel="Create Task"
+              onAction={() => setCreateDialogOpen(true)}
+            />
+          ) : filteredTasks.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-8 text-center">No tasks match these filters.</p>
+          ) : (
+            <ListView />
+          )}
         </TabsContent>
 
         <TabsContent value="board" className="mt-6">
@@ -12,6 +12,8 @@ import { Edit, Trash2, Plus } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { getCurrentOrganization } from '@/lib/auth';
+import { isNetworkError } from '@/lib/offlineQueue';
+import { useOfflineSync } from '@/contexts/OfflineSyncContext';
 import { LogTimeManuallyDialog } from '@/components/LogTimeManuallyDialog';
 import { PageLayout } from '@/components/PageLayout';
 import { EmptyState } from '@/components/EmptyState';
@@ -25,6 +27,7 @@ interface TimeEntry {
   description: string;
   is_billable: boolean;
   is_approved: boolean;
+  client_invoice_id: string | null;
   task_code: string | null;
   task_title: string | null;
   project_name: string | null;
@@ -36,6 +39,7 @@ export default function TimeEntries() {
   const [summary, setSummary] = useState({ totalTime: 0, billableTime: 0, approvedTime: 0, count: 0 });
   const [showLogDialog, setShowLogDialog] = useState(false);
   const { toast } = useToast();
+  const { queueOperation } = useOfflineSync();
 
   useEffect(() => {
     loadTimeEntries();
@@ -61,6 +65,7 @@ export default function TimeEntries() {
           description,
           is_billable,
           is_approved,
+          client_invoice_id,
           tasks (code, title),
           projects (name)
         `)
@@ -80,6 +85,7 @@ export default function TimeEntries() {
         description: e.description,
         is_billable: e.is_billable,
         is_approved: e.is_approved,
+        client_invoice_id: e.client_invoice_id,
         task_code: e.tasks?.code || null,
         task_title: e.tasks?.title || null,
         project_name: e.projects?.name || null,
@@ -112,13 +118,25 @@ export default function TimeEntries() {
   async function handleDelete(id: string) {
     if (!confirm('Are you sure you want to delete this time entry?')) return;
 
+    const values = { deleted_at: new Date().toISOString() };
+
     try {
       const { error } = await supabase
         .from('time_entries')
-        .update({ deleted_at: new Date().toISOString() })
+        .update(values)
         .eq('id', id);
 
-      if (error) throw error;
+      if (error) {
+        if (!isNetworkError(error)) throw error;
+
+        await queueOperation({ kind: 'update_time_entry', entryId: id, values });
+        setEntries(prev => prev.filter(e => e.id !== id));
+        toast({
+          title: 'Deleted Offline',
+          description: 'The deletion will sync when you\'re back online',
+        });
+        return;
+      }
 
       toast({
         title: 'Time Entry Deleted',
@@ -296,7 +314,9 @@ export default function TimeEntries() {
                     )}
                   </TableCell>
                   <TableCell>
-                    {entry.is_approved ? (
+                    {entry.client_invoice_id ? (
+                      <Badge variant="outline">Invoiced</Badge>
+                    ) : entry.is_approved ? (
                       <Badge variant="default">Approved</Badge>
                     ) : (
                       <Badge variant="secondary">Pending</Badge>
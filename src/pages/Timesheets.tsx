@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { supabase } from "@/integrations/supabase/client";
 import { getCurrentOrganization } from "@/lib/auth";
 import { Button } from "@/components/ui/button";
@@ -9,7 +9,7 @@ import { toast } from "@/hooks/use-toast";
 import { Calendar, Plus, Trash2, Send } from "lucide-react";
 import { CreateTimesheetDialog } from "@/components/CreateTimesheetDialog";
 import { SubmitTimesheetDialog } from "@/components/SubmitTimesheetDialog";
-import { format, startOfWeek, endOfWeek, addWeeks, subWeeks } from "date-fns";
+import { format, startOfWeek, endOfWeek, addWeeks, subWeeks, parseISO, isValid } from "date-fns";
 import { PageLayout } from "@/components/PageLayout";
 
 interface Timesheet {
@@ -38,9 +38,19 @@ interface TimeEntry {
   project_name?: string;
 }
 
+/** Week requested by a link such as a notification (?week=yyyy-MM-dd) */
+function linkedWeek(params: URLSearchParams): Date | null {
+  const week = params.get("week");
+  const date = week ? parseISO(week) : null;
+  return date && isValid(date) ? startOfWeek(date, { weekStartsOn: 1 }) : null;
+}
+
 export default function Timesheets() {
   const navigate = useNavigate();
-  const [selectedWeek, setSelectedWeek] = useState(startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [searchParams] = useSearchParams();
+  const [selectedWeek, setSelectedWeek] = useState(
+    () => linkedWeek(searchParams) || startOfWeek(new Date(), { weekStartsOn: 1 })
+  );
   const [timesheet, setTimesheet] = useState<Timesheet | null>(null);
   const [timeEntries, setTimeEntries] = useState<TimeEntry[]>([]);
   const [orphanedCount, setOrphanedCount] = useState(0);
@@ -53,6 +63,14 @@ export default function Timesheets() {
     return addWeeks(startOfWeek(new Date(), { weekStartsOn: 1 }), weekOffset);
   });
 
+  // Following a notification while the page is already open
+  useEffect(() => {
+    const week = linkedWeek(searchParams);
+    if (week) {
+      setSelectedWeek(prev => (prev.getTime() === week.getTime() ? prev : week));
+    }
+  }, [searchParams]);
+
   useEffect(() => {
     loadTimesheetData();
   }, [selectedWeek]);
@@ -0,0 +1,114 @@
+import { SMTPClient } from "https://deno.land/x/denomailer@1.6.0/mod.ts";
+
+export interface MailAttachment {
+  filename: string;
+  content: Uint8Array;
+  contentType: string;
+}
+
+export interface MailMessage {
+  to: string[];
+  subject: string;
+  text: string;
+  html?: string;
+  attachments?: MailAttachment[];
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+/**
+ * Sends through any SMTP server. For local development point it at the
+ * SMTP stub that `supabase start` runs (Inbucket/Mailpit), e.g.
+ * SMTP_HOST=host.docker.internal SMTP_PORT=54325 SMTP_TLS=false, and read
+ * the messages at http://localhost:54324.
+ */
+export class SmtpTransport implements MailTransport {
+  constructor(
+    private options: {
+      hostname: string;
+      port: number;
+      tls: boolean;
+      username?: string;
+      password?: string;
+      from: string;
+    }
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    const { hostname, port, tls, username, password, from } = this.options;
+    const client = new SMTPClient({
+      connection: {
+        hostname,
+        port,
+        tls,
+        auth: username ? { username, password: password ?? "" } : undefined,
+      },
+      // Without implicit TLS, STARTTLS is used when the server offers it;
+      // the local stub offers neither
+      debug: { allowUnsecure: !tls },
+    });
+
+    try {
+      await client.send({
+        from,
+        to: message.to,
+        subject: message.subject,
+        content: message.text,
+        html: message.html,
+        attachments: (message.attachments ?? []).map((attachment) => ({
+          filename: attachment.filename,
+          content: attachment.content,
+          contentType: attachment.contentType,
+          encoding: "binary" as const,
+        })),
+      });
+    } finally {
+      await client.close();
+    }
+  }
+}
+
+/** Logs messages instead of sending them */
+export class ConsoleTransport implements MailTransport {
+  send(message: MailMessage): Promise<void> {
+    console.log("Mail to", message.to.join(", "), {
+      subject: message.subject,
+      attachments: (message.attachments ?? []).map((a) => `${a.filename} (${a.content.byteLength} bytes)`),
+    });
+    return Promise.resolve();
+  }
+}
+
+/**
+ * Transport picked by MAIL_TRANSPORT: "smtp" (default when SMTP_HOST is
+ * set) or "console".
+ */
+export function getMailTransport(): MailTransport {
+  const kind = Deno.env.get("MAIL_TRANSPORT") ?? (Deno.env.get("SMTP_HOST") ? "smtp" : "console");
+
+  if (kind === "console") {
+    return new ConsoleTransport();
+  }
+
+  if (kind !== "smtp") {
+    throw new Error(`Unknown MAIL_TRANSPORT: ${kind}`);
+  }
+
+  const hostname = Deno.env.get("SMTP_HOST");
+  const from = Deno.env.get("SMTP_FROM");
+  if (!hostname || !from) {
+    throw new Error("SMTP_HOST and SMTP_FROM are required for the smtp transport");
+  }
+
+  const tls = Deno.env.get("SMTP_TLS") !== "false";
+  return new SmtpTransport({
+    hostname,
+    port: Number(Deno.env.get("SMTP_PORT") ?? (tls ? 465 : 587)),
+    tls,
+    username: Deno.env.get("SMTP_USER") || undefined,
+    password: Deno.env.get("SMTP_PASS") || undefined,
+    from,
+  });
+}
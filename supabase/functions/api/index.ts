@@ -0,0 +1,163 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { API_RATE_LIMIT, hashApiToken } from "../../../src/lib/apiTokens.ts";
+import { buildOpenApiDocument } from "../../../src/lib/openApi.ts";
+import { API_VERSION, ApiError, handleApiRequest } from "../../../src/lib/restApi.ts";
+import type { Database } from "../../../src/integrations/supabase/types.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'GET, POST, PATCH, DELETE, OPTIONS',
+};
+
+/**
+ * The REST API, e.g. GET /functions/v1/api/v1/tasks?assigned_to=me.
+ * Requests carry a personal access token or organization API key as a
+ * bearer token and run as the token's user: the function signs a
+ * short-lived JWT for that user, so RLS applies exactly as in the app.
+ * That needs the project's JWT secret, set with
+ * `supabase secrets set JWT_SECRET=...`.
+ *
+ * GET /v1/openapi.json describes the API and needs no token.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+  const ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+  const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+  const JWT_SECRET = Deno.env.get('JWT_SECRET') ?? '';
+
+  if (!SUPABASE_URL || !SERVICE_ROLE_KEY || !JWT_SECRET) {
+    return errorResponse(500, 'configuration_error', 'Missing backend configuration');
+  }
+
+  // Everything after /api, e.g. "v1/tasks/PROJ-0001-T001"
+  const url = new URL(req.url);
+  const path = url.pathname.replace(/^.*?\/api(\/|$)/, '');
+  const [version, ...rest] = path.split('/');
+
+  if (version !== API_VERSION) {
+    return errorResponse(404, 'not_found', `Unknown API version. Use /${API_VERSION}/`);
+  }
+
+  if (req.method === 'GET' && rest.join('/') === 'openapi.json') {
+    const document = buildOpenApiDocument(`${SUPABASE_URL}/functions/v1/api`);
+    return new Response(JSON.stringify(document, null, 2), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const token = req.headers.get('Authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!token) {
+    return errorResponse(401, 'unauthorized', 'Send an API token as "Authorization: Bearer <token>"');
+  }
+
+  const supabaseAdmin = createClient<Database>(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+  const { data: auth, error: authError } = await supabaseAdmin
+    .rpc('authenticate_api_token', { p_token_hash: await hashApiToken(token) })
+    .maybeSingle();
+
+  if (authError) {
+    console.error('Error authenticating API token:', authError);
+    return errorResponse(500, 'internal_error', 'Something went wrong');
+  }
+  if (!auth) {
+    return errorResponse(401, 'unauthorized', 'The token is invalid, expired or revoked');
+  }
+
+  const resetsAt = new Date(auth.window_resets_at);
+  const rateLimitHeaders = {
+    'X-RateLimit-Limit': String(API_RATE_LIMIT),
+    'X-RateLimit-Remaining': String(Math.max(API_RATE_LIMIT - auth.request_count, 0)),
+    'X-RateLimit-Reset': String(Math.floor(resetsAt.getTime() / 1000)),
+  };
+
+  if (auth.request_count > API_RATE_LIMIT) {
+    const retryAfter = Math.max(Math.ceil((resetsAt.getTime() - Date.now()) / 1000), 1);
+    return errorResponse(429, 'rate_limited', `Rate limit of ${API_RATE_LIMIT} requests per minute exceeded`, {
+      ...rateLimitHeaders,
+      'Retry-After': String(retryAfter),
+    });
+  }
+
+  try {
+    let body: unknown = null;
+    if (req.method === 'POST' || req.method === 'PATCH') {
+      const text = await req.text();
+      try {
+        body = text ? JSON.parse(text) : null;
+      } catch {
+        throw new ApiError(400, 'invalid_body', 'The request body is not valid JSON');
+      }
+    }
+
+    const accessToken = await signUserJwt(auth.user_id, JWT_SECRET);
+    const client = createClient<Database>(SUPABASE_URL, ANON_KEY, {
+      global: { headers: { Authorization: `Bearer ${accessToken}` } },
+      auth: { persistSession: false, autoRefreshToken: false },
+    });
+
+    const response = await handleApiRequest(
+      { client, organizationId: auth.organization_id, userId: auth.user_id, scopes: auth.scopes },
+      { method: req.method, path: rest.join('/'), query: url.searchParams, body }
+    );
+
+    if (response.body === undefined) {
+      return new Response(null, { status: response.status, headers: { ...corsHeaders, ...rateLimitHeaders } });
+    }
+
+    return new Response(JSON.stringify(response.body), {
+      status: response.status,
+      headers: { ...corsHeaders, ...rateLimitHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    if (error instanceof ApiError) {
+      return errorResponse(error.status, error.code, error.message, rateLimitHeaders);
+    }
+    console.error('Error handling API request:', error);
+    return errorResponse(500, 'internal_error', 'Something went wrong', rateLimitHeaders);
+  }
+});
+
+function errorResponse(status: number, code: string, message: string, headers: Record<string, string> = {}) {
+  return new Response(JSON.stringify({ error: { code, message } }), {
+    status,
+    headers: { ...corsHeaders, ...headers, 'Content-Type': 'application/json' },
+  });
+}
+
+function base64Url(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/** An access token for `userId`, as Supabase Auth would issue, valid for a minute */
+async function signUserJwt(userId: string, secret: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const now = Math.floor(Date.now() / 1000);
+
+  const header = base64Url(encoder.encode(JSON.stringify({ alg: 'HS256', typ: 'JWT' })));
+  const payload = base64Url(encoder.encode(JSON.stringify({
+    sub: userId,
+    role: 'authenticated',
+    aud: 'authenticated',
+    iat: now,
+    exp: now + 60,
+  })));
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${header}.${payload}`));
+
+  return `${header}.${payload}.${base64Url(new Uint8Array(signature))}`;
+}
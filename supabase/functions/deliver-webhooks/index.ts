@@ -0,0 +1,125 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { recordAttempt, sendWebhook, type ClaimedWebhookDelivery } from "../../../src/lib/webhooks.ts";
+import type { Database } from "../../../src/integrations/supabase/types.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Called every minute by pg_cron to send the webhook deliveries that are
+ * due, and by Developer Settings with `{ delivery_id }` to send a test
+ * event straight away. Failed deliveries are rescheduled with exponential
+ * backoff until they run out of attempts.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+  const ANON_KEY = Deno.env.get('SUPABASE_ANON_KEY') ?? '';
+  const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+    return new Response(JSON.stringify({ error: 'Missing backend configuration' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const authHeader = req.headers.get('Authorization');
+  if (!authHeader) {
+    return new Response(JSON.stringify({ error: 'Missing Authorization header' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const supabaseAdmin = createClient<Database>(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+  try {
+    let claim;
+
+    if (authHeader === `Bearer ${SERVICE_ROLE_KEY}`) {
+      claim = await supabaseAdmin.rpc('claim_webhook_deliveries');
+    } else {
+      const { delivery_id } = await req.json().catch(() => ({}));
+      if (!delivery_id) {
+        return new Response(JSON.stringify({ error: 'delivery_id is required' }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      // RLS only shows deliveries to admins of the organization they belong to
+      const supabaseAuthClient = createClient<Database>(SUPABASE_URL, ANON_KEY, {
+        global: { headers: { Authorization: authHeader } },
+      });
+      const { data: visible } = await supabaseAuthClient
+        .from('webhook_deliveries')
+        .select('id')
+        .eq('id', delivery_id)
+        .maybeSingle();
+
+      if (!visible) {
+        return new Response(JSON.stringify({ error: 'Delivery not found' }), {
+          status: 404,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+        });
+      }
+
+      claim = await supabaseAdmin.rpc('claim_webhook_deliveries', { p_delivery_id: delivery_id });
+    }
+
+    if (claim.error) throw claim.error;
+
+    const results = await Promise.all((claim.data || []).map(delivery => deliver(supabaseAdmin, delivery)));
+
+    return new Response(JSON.stringify({ processed: results.length, results }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error delivering webhooks:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function deliver(
+  supabaseAdmin: ReturnType<typeof createClient<Database>>,
+  delivery: ClaimedWebhookDelivery
+) {
+  const attempt = await sendWebhook(delivery, { resolveHost });
+  const update = recordAttempt(delivery, attempt);
+
+  const { error } = await supabaseAdmin
+    .from('webhook_deliveries')
+    .update(update)
+    .eq('id', delivery.delivery_id);
+
+  if (error) {
+    console.error(`Could not record delivery ${delivery.delivery_id}:`, error.message);
+  }
+
+  return {
+    delivery_id: delivery.delivery_id,
+    status: update.status,
+    response_status: attempt.response_status,
+    error: attempt.error,
+  };
+}
+
+// Both address families, so a host can't put a private address behind either one
+async function resolveHost(hostname: string): Promise<string[]> {
+  const results = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ]);
+  return results.flatMap(result => (result.status === 'fulfilled' ? result.value : []));
+}
@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  parseGitEvent,
+  recordGitActivity,
+  verifyGitWebhook,
+  type GitProvider,
+} from "../../../src/lib/gitIntegration.ts";
+import type { Database } from "../../../src/integrations/supabase/types.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Receives push and pull/merge request webhooks from GitHub or GitLab at
+ * /functions/v1/git-webhook?integration=<git_integrations.id>. Requests are
+ * checked against the integration's secret; commits and pull requests that
+ * mention task codes are linked to those tasks. Recorded payloads for
+ * replaying locally are in ./fixtures.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+  const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+    return jsonResponse({ error: 'Missing backend configuration' }, 500);
+  }
+
+  const integrationId = new URL(req.url).searchParams.get('integration');
+  if (!integrationId || !/^[0-9a-f-]{36}$/i.test(integrationId)) {
+    return jsonResponse({ error: 'integration is required' }, 400);
+  }
+
+  const supabaseAdmin = createClient<Database>(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+  try {
+    const { data: integration, error } = await supabaseAdmin
+      .from('git_integrations')
+      .select('*, organizations(slug)')
+      .eq('id', integrationId)
+      .maybeSingle();
+    if (error) throw error;
+
+    const body = await req.text();
+
+    // Same answer for unknown integrations and bad secrets
+    if (!integration || !(await verifyGitWebhook(integration.provider as GitProvider, integration.secret, req.headers, body))) {
+      return jsonResponse({ error: 'Invalid signature or token' }, 401);
+    }
+
+    if (!integration.is_active) {
+      return jsonResponse({ ignored: true, reason: 'Integration is paused' }, 200);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(body);
+    } catch {
+      return jsonResponse({ error: 'The body must be JSON' }, 400);
+    }
+
+    const { event, activities } = parseGitEvent(
+      integration.provider as GitProvider,
+      req.headers.get('X-GitHub-Event'),
+      payload,
+      integration.organizations?.slug || ''
+    );
+
+    const summary = await recordGitActivity(supabaseAdmin, integration, activities);
+
+    await supabaseAdmin
+      .from('git_integrations')
+      .update({ last_event_at: new Date().toISOString() })
+      .eq('id', integration.id);
+
+    console.log(`git-webhook ${integration.id} ${event}:`, JSON.stringify(summary));
+    return jsonResponse({ event, activities: activities.length, ...summary }, 200);
+  } catch (error) {
+    console.error('Error handling git webhook:', error);
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Unknown error' }, 500);
+  }
+});
+
+function jsonResponse(body: unknown, status: number) {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+  });
+}
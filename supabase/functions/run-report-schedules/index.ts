@@ -0,0 +1,189 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getMailTransport } from "../_shared/mail.ts";
+import {
+  describeReportFilters,
+  generateReport,
+  renderReport,
+  reportFileName,
+  ReportError,
+  REPORT_TYPES,
+  type ReportFilters,
+  type ReportFormat,
+  type ReportTypeId,
+} from "../../../src/lib/reportData.ts";
+import type { Database } from "../../../src/integrations/supabase/types.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+type DueSchedule = Database['public']['Functions']['claim_due_report_schedules']['Returns'][number];
+
+// Date columns come back as yyyy-MM-dd; read them as local dates so the
+// labels show the organization's calendar days
+function localDate(value: string): Date {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Called hourly by pg_cron. Claims the schedules that are due, stores each
+ * report in the "reports" bucket and emails it to the schedule's recipients.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+  const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+    return new Response(JSON.stringify({ error: 'Missing backend configuration' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Only the cron job (service role) may trigger runs
+  if (req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const supabaseAdmin = createClient<Database>(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+  try {
+    const { data: schedules, error: claimError } = await supabaseAdmin.rpc('claim_due_report_schedules');
+    if (claimError) throw claimError;
+
+    const mail = getMailTransport();
+    const results = [];
+
+    for (const schedule of schedules || []) {
+      try {
+        const delivered = await runSchedule(supabaseAdmin, mail, schedule);
+        results.push({ schedule_id: schedule.schedule_id, status: delivered });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Report schedule ${schedule.schedule_id} failed:`, message);
+
+        await supabaseAdmin
+          .from('report_schedules')
+          .update({ last_error: message })
+          .eq('id', schedule.schedule_id);
+
+        results.push({ schedule_id: schedule.schedule_id, status: 'failed', error: message });
+      }
+    }
+
+    return new Response(JSON.stringify({ processed: results.length, results }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error running report schedules:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function runSchedule(
+  supabaseAdmin: ReturnType<typeof createClient<Database>>,
+  mail: ReturnType<typeof getMailTransport>,
+  schedule: DueSchedule
+): Promise<'stored' | 'emailed' | 'empty'> {
+  const type = schedule.template_id as ReportTypeId;
+  const reportFormat = schedule.format as ReportFormat;
+  const filters = (schedule.filters || {}) as ReportFilters;
+  const request = {
+    organizationId: schedule.organization_id,
+    start: new Date(schedule.period_start),
+    end: new Date(schedule.period_end),
+    filters,
+  };
+  const labelPeriod = { start: localDate(schedule.period_start_date), end: localDate(schedule.period_end_date) };
+
+  let report;
+  try {
+    report = await generateReport(supabaseAdmin, type, request);
+  } catch (error) {
+    // Nothing to report for the period: not a failure, but worth telling
+    if (error instanceof ReportError) {
+      if (schedule.recipients.length > 0) {
+        await mail.send({
+          to: schedule.recipients,
+          subject: `${schedule.name}: ${error.title}`,
+          text: `${error.message}\n\n${REPORT_TYPES[type].name} for ${schedule.organization_name}, ${schedule.period_start_date} to ${schedule.period_end_date}.`,
+        });
+      }
+      await supabaseAdmin
+        .from('report_schedules')
+        .update({ last_error: error.message })
+        .eq('id', schedule.schedule_id);
+      return 'empty';
+    }
+    throw error;
+  }
+
+  const filterLabels = await describeReportFilters(supabaseAdmin, schedule.organization_id, filters);
+  const file = renderReport(type, report, reportFormat, {
+    organizationName: schedule.organization_name,
+    period: labelPeriod,
+    filters: filterLabels,
+  });
+
+  const reportId = crypto.randomUUID();
+  const filePath = `${schedule.organization_id}/${reportId}.${file.extension}`;
+  const { error: uploadError } = await supabaseAdmin.storage
+    .from('reports')
+    .upload(filePath, file.blob, { contentType: file.contentType });
+  if (uploadError) throw uploadError;
+
+  const { error: insertError } = await supabaseAdmin.from('generated_reports').insert({
+    id: reportId,
+    organization_id: schedule.organization_id,
+    template_id: type,
+    name: schedule.name,
+    filters: filters as Database['public']['Tables']['generated_reports']['Insert']['filters'],
+    filter_summary: filterLabels.map(([label, value]) => `${label}: ${value}`).join(', ') || null,
+    format: reportFormat,
+    period_start: schedule.period_start,
+    period_end: schedule.period_end,
+    row_count: report.rows.length,
+    file_path: filePath,
+    file_size: file.blob.size,
+    schedule_id: schedule.schedule_id,
+  });
+  if (insertError) throw insertError;
+
+  if (schedule.recipients.length === 0) {
+    return 'stored';
+  }
+
+  await mail.send({
+    to: schedule.recipients,
+    subject: `${schedule.name} (${schedule.period_start_date} to ${schedule.period_end_date})`,
+    text: [
+      `${REPORT_TYPES[type].name} for ${schedule.organization_name}.`,
+      `Period: ${schedule.period_start_date} to ${schedule.period_end_date}`,
+      `Filters: ${filterLabels.length > 0 ? filterLabels.map(([label, value]) => `${label}: ${value}`).join(', ') : 'None'}`,
+      `Rows: ${report.rows.length}`,
+      '',
+      'The report is attached and can also be downloaded again from the Reports page.',
+    ].join('\n'),
+    attachments: [{
+      filename: reportFileName(type, labelPeriod, file.extension),
+      content: new Uint8Array(await file.blob.arrayBuffer()),
+      contentType: file.contentType,
+    }],
+  });
+
+  return 'emailed';
+}
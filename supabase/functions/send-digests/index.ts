@@ -0,0 +1,98 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { getMailTransport } from "../_shared/mail.ts";
+import { collectDigest, digestIsEmpty, renderDigest, type DueDigest } from "../../../src/lib/digest.ts";
+import type { Database } from "../../../src/integrations/supabase/types.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Called hourly by pg_cron. Claims the daily and weekly digests that are
+ * due and emails each one through the shared mail transport (set
+ * MAIL_TRANSPORT=console, or point SMTP_HOST at a local mail catcher, to
+ * try it out). APP_URL makes the links in the email absolute.
+ */
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const SUPABASE_URL = Deno.env.get('SUPABASE_URL') ?? '';
+  const SERVICE_ROLE_KEY = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? '';
+
+  if (!SUPABASE_URL || !SERVICE_ROLE_KEY) {
+    return new Response(JSON.stringify({ error: 'Missing backend configuration' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  // Only the cron job (service role) may trigger runs
+  if (req.headers.get('Authorization') !== `Bearer ${SERVICE_ROLE_KEY}`) {
+    return new Response(JSON.stringify({ error: 'Unauthorized' }), {
+      status: 401,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+
+  const supabaseAdmin = createClient<Database>(SUPABASE_URL, SERVICE_ROLE_KEY);
+
+  try {
+    const { data: digests, error: claimError } = await supabaseAdmin.rpc('claim_due_digests');
+    if (claimError) throw claimError;
+
+    const mail = getMailTransport();
+    const appUrl = Deno.env.get('APP_URL') || undefined;
+    const results = [];
+
+    for (const due of digests || []) {
+      try {
+        const status = await sendDigest(supabaseAdmin, mail, due, appUrl);
+        results.push({ preference_id: due.preference_id, status });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`Digest ${due.preference_id} failed:`, message);
+
+        await supabaseAdmin
+          .from('notification_preferences')
+          .update({ last_digest_error: message })
+          .eq('id', due.preference_id);
+
+        results.push({ preference_id: due.preference_id, status: 'failed', error: message });
+      }
+    }
+
+    return new Response(JSON.stringify({ processed: results.length, results }), {
+      status: 200,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  } catch (error) {
+    console.error('Error sending digests:', error);
+    return new Response(JSON.stringify({ error: error instanceof Error ? error.message : 'Unknown error' }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    });
+  }
+});
+
+async function sendDigest(
+  supabaseAdmin: ReturnType<typeof createClient<Database>>,
+  mail: ReturnType<typeof getMailTransport>,
+  due: DueDigest,
+  appUrl: string | undefined
+): Promise<'emailed' | 'empty'> {
+  const digest = await collectDigest(supabaseAdmin, due);
+
+  // Nothing to say: skip rather than send an empty email
+  if (digestIsEmpty(digest)) {
+    return 'empty';
+  }
+
+  const { subject, text, html } = renderDigest(digest, appUrl);
+  await mail.send({ to: [due.email], subject, text, html });
+
+  return 'emailed';
+}
@@ -0,0 +1,260 @@
+-- ============================================================
+-- ACTIVE TIMERS: server-side running timers synced across devices
+-- ============================================================
+
+-- One running (or paused) timer per user per organization
+CREATE TABLE active_timers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  timer_type TEXT NOT NULL CHECK (timer_type IN ('pomodoro_focus', 'pomodoro_break', 'quick_timer')),
+  description TEXT NOT NULL DEFAULT '' CHECK (length(description) <= 500),
+  is_billable BOOLEAN NOT NULL DEFAULT true,
+  duration_seconds INTEGER CHECK (duration_seconds IS NULL OR duration_seconds > 0),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  is_paused BOOLEAN NOT NULL DEFAULT false,
+  paused_at TIMESTAMPTZ,
+  paused_seconds INTEGER NOT NULL DEFAULT 0 CHECK (paused_seconds >= 0),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, organization_id),
+  CHECK (is_paused = (paused_at IS NOT NULL))
+);
+
+CREATE INDEX idx_active_timers_user ON active_timers(user_id);
+CREATE INDEX idx_active_timers_org ON active_timers(organization_id);
+
+ALTER TABLE active_timers ENABLE ROW LEVEL SECURITY;
+
+-- ============================================================
+-- RLS POLICIES: ACTIVE_TIMERS
+-- ============================================================
+
+CREATE POLICY active_timers_select_own ON active_timers
+FOR SELECT
+USING (user_id = auth.uid());
+
+-- Inserts and deletes go through the RPCs below; clients may only edit
+-- the task, description and billable flag of their own timer
+CREATE POLICY active_timers_update_own ON active_timers
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE TRIGGER update_active_timers_updated_at
+BEFORE UPDATE ON active_timers
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Broadcast changes so every open device picks them up
+ALTER TABLE active_timers REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.active_timers;
+
+-- ============================================================
+-- FUNCTION: start_active_timer
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION start_active_timer(
+  p_org_id UUID,
+  p_timer_type TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_project_id UUID DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT NULL
+) RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM active_timers
+    WHERE user_id = auth.uid() AND organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Another timer is already running. Stop it first.';
+  END IF;
+
+  INSERT INTO active_timers (organization_id, user_id, task_id, project_id, timer_type, duration_seconds)
+  VALUES (p_org_id, auth.uid(), p_task_id, p_project_id, p_timer_type, p_duration_seconds)
+  RETURNING * INTO v_timer;
+
+  RETURN v_timer;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: pause_active_timer
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION pause_active_timer(p_org_id UUID)
+RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+BEGIN
+  UPDATE active_timers
+  SET is_paused = true,
+      paused_at = NOW()
+  WHERE user_id = auth.uid()
+    AND organization_id = p_org_id
+    AND is_paused = false
+  RETURNING * INTO v_timer;
+
+  IF v_timer.id IS NULL THEN
+    RAISE EXCEPTION 'No running timer to pause';
+  END IF;
+
+  RETURN v_timer;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: resume_active_timer
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION resume_active_timer(p_org_id UUID)
+RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+BEGIN
+  UPDATE active_timers
+  SET is_paused = false,
+      paused_seconds = paused_seconds + EXTRACT(EPOCH FROM (NOW() - paused_at))::INTEGER,
+      paused_at = NULL
+  WHERE user_id = auth.uid()
+    AND organization_id = p_org_id
+    AND is_paused = true
+  RETURNING * INTO v_timer;
+
+  IF v_timer.id IS NULL THEN
+    RAISE EXCEPTION 'No paused timer to resume';
+  END IF;
+
+  RETURN v_timer;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: stop_active_timer
+-- Closes the caller's timer and records it as a time entry
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION stop_active_timer(
+  p_org_id UUID,
+  p_task_id UUID,
+  p_project_id UUID,
+  p_description TEXT,
+  p_is_billable BOOLEAN,
+  p_end_time TIMESTAMPTZ DEFAULT NULL
+) RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+  v_end_time TIMESTAMPTZ;
+  v_duration INTEGER;
+  v_entry_id UUID;
+BEGIN
+  SELECT * INTO v_timer
+  FROM active_timers
+  WHERE user_id = auth.uid() AND organization_id = p_org_id
+  FOR UPDATE;
+
+  IF v_timer.id IS NULL THEN
+    RAISE EXCEPTION 'No active timer to stop';
+  END IF;
+
+  IF p_task_id IS NULL AND p_project_id IS NULL THEN
+    RAISE EXCEPTION 'Select a task before saving the time entry';
+  END IF;
+
+  -- The client may pass the moment the user pressed stop; never trust a future time
+  v_end_time := LEAST(COALESCE(p_end_time, NOW()), NOW());
+  IF v_timer.is_paused THEN
+    v_end_time := LEAST(v_end_time, v_timer.paused_at);
+  END IF;
+
+  IF v_end_time <= v_timer.started_at THEN
+    RAISE EXCEPTION 'Timer must run for at least one second';
+  END IF;
+
+  v_duration := GREATEST(
+    EXTRACT(EPOCH FROM (v_end_time - v_timer.started_at))::INTEGER - v_timer.paused_seconds,
+    0
+  );
+
+  IF check_time_entry_overlap(auth.uid(), v_timer.started_at, v_end_time) THEN
+    RAISE EXCEPTION 'Time entry overlaps with existing entry.';
+  END IF;
+
+  IF NOT check_time_entry_limit(p_org_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Free plan allows max 100 time entries per month. Upgrade to Pro for unlimited.';
+  END IF;
+
+  INSERT INTO time_entries (
+    organization_id,
+    user_id,
+    task_id,
+    project_id,
+    timer_type,
+    start_time,
+    end_time,
+    duration_seconds,
+    description,
+    is_billable
+  ) VALUES (
+    p_org_id,
+    auth.uid(),
+    p_task_id,
+    p_project_id,
+    v_timer.timer_type,
+    v_timer.started_at,
+    v_end_time,
+    v_duration,
+    NULLIF(btrim(p_description), ''),
+    COALESCE(p_is_billable, true)
+  )
+  RETURNING id INTO v_entry_id;
+
+  IF p_task_id IS NOT NULL THEN
+    PERFORM update_task_actual_hours(p_task_id);
+  END IF;
+
+  DELETE FROM active_timers WHERE id = v_timer.id;
+
+  RETURN v_entry_id;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: discard_active_timer
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION discard_active_timer(p_org_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  DELETE FROM active_timers
+  WHERE user_id = auth.uid() AND organization_id = p_org_id;
+$$;
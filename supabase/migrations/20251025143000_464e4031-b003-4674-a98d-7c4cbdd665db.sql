@@ -0,0 +1,234 @@
+-- ============================================================
+-- ACTIVE TIMERS: persist run segments so pauses are never billed
+-- ============================================================
+
+-- Each segment is {"started_at": timestamptz, "ended_at": timestamptz | null};
+-- only the last one may be open, and only while the timer is running
+ALTER TABLE active_timers ADD COLUMN segments JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+UPDATE active_timers
+SET segments = jsonb_build_array(
+  jsonb_build_object('started_at', started_at, 'ended_at', paused_at)
+);
+
+ALTER TABLE active_timers DROP COLUMN paused_seconds;
+
+ALTER TABLE active_timers
+ADD CONSTRAINT active_timers_segments_array CHECK (jsonb_typeof(segments) = 'array');
+
+-- ============================================================
+-- FUNCTION: start_active_timer
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION start_active_timer(
+  p_org_id UUID,
+  p_timer_type TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_project_id UUID DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT NULL
+) RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM active_timers
+    WHERE user_id = auth.uid() AND organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Another timer is already running. Stop it first.';
+  END IF;
+
+  INSERT INTO active_timers (organization_id, user_id, task_id, project_id, timer_type, duration_seconds, started_at, segments)
+  VALUES (
+    p_org_id,
+    auth.uid(),
+    p_task_id,
+    p_project_id,
+    p_timer_type,
+    p_duration_seconds,
+    NOW(),
+    jsonb_build_array(jsonb_build_object('started_at', NOW(), 'ended_at', NULL))
+  )
+  RETURNING * INTO v_timer;
+
+  RETURN v_timer;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: pause_active_timer
+-- Closes the open segment
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION pause_active_timer(p_org_id UUID)
+RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+BEGIN
+  UPDATE active_timers
+  SET is_paused = true,
+      paused_at = NOW(),
+      segments = jsonb_set(
+        segments,
+        ARRAY[(jsonb_array_length(segments) - 1)::TEXT, 'ended_at'],
+        to_jsonb(NOW())
+      )
+  WHERE user_id = auth.uid()
+    AND organization_id = p_org_id
+    AND is_paused = false
+  RETURNING * INTO v_timer;
+
+  IF v_timer.id IS NULL THEN
+    RAISE EXCEPTION 'No running timer to pause';
+  END IF;
+
+  RETURN v_timer;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: resume_active_timer
+-- Opens a new segment
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION resume_active_timer(p_org_id UUID)
+RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+BEGIN
+  UPDATE active_timers
+  SET is_paused = false,
+      paused_at = NULL,
+      segments = segments || jsonb_build_array(jsonb_build_object('started_at', NOW(), 'ended_at', NULL))
+  WHERE user_id = auth.uid()
+    AND organization_id = p_org_id
+    AND is_paused = true
+  RETURNING * INTO v_timer;
+
+  IF v_timer.id IS NULL THEN
+    RAISE EXCEPTION 'No paused timer to resume';
+  END IF;
+
+  RETURN v_timer;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: stop_active_timer
+-- Closes the caller's timer and records one time entry per run
+-- segment, so paused time is never part of an entry
+-- ============================================================
+
+DROP FUNCTION IF EXISTS stop_active_timer(UUID, UUID, UUID, TEXT, BOOLEAN, TIMESTAMPTZ);
+
+CREATE OR REPLACE FUNCTION stop_active_timer(
+  p_org_id UUID,
+  p_task_id UUID,
+  p_project_id UUID,
+  p_description TEXT,
+  p_is_billable BOOLEAN,
+  p_end_time TIMESTAMPTZ DEFAULT NULL
+) RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+  v_end_time TIMESTAMPTZ;
+  v_segment JSONB;
+  v_segment_start TIMESTAMPTZ;
+  v_segment_end TIMESTAMPTZ;
+  v_entry_id UUID;
+  v_entry_ids UUID[] := ARRAY[]::UUID[];
+BEGIN
+  SELECT * INTO v_timer
+  FROM active_timers
+  WHERE user_id = auth.uid() AND organization_id = p_org_id
+  FOR UPDATE;
+
+  IF v_timer.id IS NULL THEN
+    RAISE EXCEPTION 'No active timer to stop';
+  END IF;
+
+  IF p_task_id IS NULL AND p_project_id IS NULL THEN
+    RAISE EXCEPTION 'Select a task before saving the time entry';
+  END IF;
+
+  -- The client may pass the moment the user pressed stop; never trust a future time
+  v_end_time := LEAST(COALESCE(p_end_time, NOW()), NOW());
+
+  IF NOT check_time_entry_limit(p_org_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Free plan allows max 100 time entries per month. Upgrade to Pro for unlimited.';
+  END IF;
+
+  FOR v_segment IN SELECT * FROM jsonb_array_elements(v_timer.segments) LOOP
+    v_segment_start := (v_segment->>'started_at')::TIMESTAMPTZ;
+    v_segment_end := LEAST(COALESCE((v_segment->>'ended_at')::TIMESTAMPTZ, v_end_time), v_end_time);
+
+    -- Skip segments shorter than a second (e.g. an accidental pause/resume)
+    CONTINUE WHEN v_segment_end - v_segment_start < INTERVAL '1 second';
+
+    IF check_time_entry_overlap(auth.uid(), v_segment_start, v_segment_end) THEN
+      RAISE EXCEPTION 'Time entry overlaps with existing entry.';
+    END IF;
+
+    INSERT INTO time_entries (
+      organization_id,
+      user_id,
+      task_id,
+      project_id,
+      timer_type,
+      start_time,
+      end_time,
+      duration_seconds,
+      description,
+      is_billable
+    ) VALUES (
+      p_org_id,
+      auth.uid(),
+      p_task_id,
+      p_project_id,
+      v_timer.timer_type,
+      v_segment_start,
+      v_segment_end,
+      calculate_duration_seconds(v_segment_start, v_segment_end),
+      NULLIF(btrim(p_description), ''),
+      COALESCE(p_is_billable, true)
+    )
+    RETURNING id INTO v_entry_id;
+
+    v_entry_ids := array_append(v_entry_ids, v_entry_id);
+  END LOOP;
+
+  IF array_length(v_entry_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Timer must run for at least one second';
+  END IF;
+
+  IF p_task_id IS NOT NULL THEN
+    PERFORM update_task_actual_hours(p_task_id);
+  END IF;
+
+  DELETE FROM active_timers WHERE id = v_timer.id;
+
+  RETURN v_entry_ids;
+END;
+$$;
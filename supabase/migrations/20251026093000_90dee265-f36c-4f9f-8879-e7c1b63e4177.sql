@@ -0,0 +1,395 @@
+-- ============================================================
+-- POMODORO ENGINE: user settings, cycles and automatic phases
+-- ============================================================
+
+-- Per-user preferences (one row per user, created on demand)
+CREATE TABLE user_settings (
+  user_id UUID PRIMARY KEY,
+  pomodoro_focus_minutes INTEGER NOT NULL DEFAULT 25 CHECK (pomodoro_focus_minutes BETWEEN 1 AND 180),
+  pomodoro_short_break_minutes INTEGER NOT NULL DEFAULT 5 CHECK (pomodoro_short_break_minutes BETWEEN 1 AND 60),
+  pomodoro_long_break_minutes INTEGER NOT NULL DEFAULT 15 CHECK (pomodoro_long_break_minutes BETWEEN 1 AND 120),
+  pomodoro_long_break_interval INTEGER NOT NULL DEFAULT 4 CHECK (pomodoro_long_break_interval BETWEEN 1 AND 12),
+  pomodoro_auto_advance BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY user_settings_select_own ON user_settings
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY user_settings_insert_own ON user_settings
+FOR INSERT
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY user_settings_update_own ON user_settings
+FOR UPDATE
+USING (user_id = auth.uid());
+
+CREATE TRIGGER update_user_settings_updated_at
+BEFORE UPDATE ON user_settings
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Sessions are scoped to the organization the cycle ran in
+ALTER TABLE pomodoro_sessions ADD COLUMN organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE;
+CREATE INDEX idx_pomodoro_org ON pomodoro_sessions(organization_id);
+
+-- The running Pomodoro timer points at its current cycle
+ALTER TABLE active_timers ADD COLUMN pomodoro_session_id UUID REFERENCES pomodoro_sessions(id) ON DELETE SET NULL;
+
+-- ============================================================
+-- FUNCTION: get_user_settings
+-- Returns the caller's settings, creating the defaults row if needed
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_user_settings()
+RETURNS user_settings
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_settings user_settings;
+BEGIN
+  INSERT INTO user_settings (user_id)
+  VALUES (auth.uid())
+  ON CONFLICT (user_id) DO NOTHING;
+
+  SELECT * INTO v_settings FROM user_settings WHERE user_id = auth.uid();
+  RETURN v_settings;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: log_active_timer_segments
+-- Writes one time entry per run segment of a timer, stopping at
+-- p_end_time or once p_max_seconds of work have been logged
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION log_active_timer_segments(
+  p_timer active_timers,
+  p_end_time TIMESTAMPTZ,
+  p_task_id UUID,
+  p_project_id UUID,
+  p_description TEXT,
+  p_is_billable BOOLEAN,
+  p_max_seconds INTEGER DEFAULT NULL
+) RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_segment JSONB;
+  v_segment_start TIMESTAMPTZ;
+  v_segment_end TIMESTAMPTZ;
+  v_remaining INTERVAL;
+  v_entry_id UUID;
+  v_entry_ids UUID[] := ARRAY[]::UUID[];
+BEGIN
+  IF p_task_id IS NULL AND p_project_id IS NULL THEN
+    RAISE EXCEPTION 'Select a task before saving the time entry';
+  END IF;
+
+  IF NOT check_time_entry_limit(p_timer.organization_id, auth.uid()) THEN
+    RAISE EXCEPTION 'Free plan allows max 100 time entries per month. Upgrade to Pro for unlimited.';
+  END IF;
+
+  v_remaining := CASE WHEN p_max_seconds IS NULL THEN NULL ELSE make_interval(secs => p_max_seconds) END;
+
+  FOR v_segment IN SELECT * FROM jsonb_array_elements(p_timer.segments) LOOP
+    EXIT WHEN v_remaining IS NOT NULL AND v_remaining <= INTERVAL '0';
+
+    v_segment_start := (v_segment->>'started_at')::TIMESTAMPTZ;
+    v_segment_end := LEAST(COALESCE((v_segment->>'ended_at')::TIMESTAMPTZ, p_end_time), p_end_time);
+
+    IF v_remaining IS NOT NULL THEN
+      v_segment_end := LEAST(v_segment_end, v_segment_start + v_remaining);
+      v_remaining := v_remaining - GREATEST(v_segment_end - v_segment_start, INTERVAL '0');
+    END IF;
+
+    -- Skip segments shorter than a second (e.g. an accidental pause/resume)
+    CONTINUE WHEN v_segment_end - v_segment_start < INTERVAL '1 second';
+
+    IF check_time_entry_overlap(auth.uid(), v_segment_start, v_segment_end) THEN
+      RAISE EXCEPTION 'Time entry overlaps with existing entry.';
+    END IF;
+
+    INSERT INTO time_entries (
+      organization_id,
+      user_id,
+      task_id,
+      project_id,
+      timer_type,
+      start_time,
+      end_time,
+      duration_seconds,
+      description,
+      is_billable
+    ) VALUES (
+      p_timer.organization_id,
+      auth.uid(),
+      p_task_id,
+      p_project_id,
+      p_timer.timer_type,
+      v_segment_start,
+      v_segment_end,
+      calculate_duration_seconds(v_segment_start, v_segment_end),
+      NULLIF(btrim(p_description), ''),
+      COALESCE(p_is_billable, true)
+    )
+    RETURNING id INTO v_entry_id;
+
+    v_entry_ids := array_append(v_entry_ids, v_entry_id);
+  END LOOP;
+
+  IF p_task_id IS NOT NULL AND array_length(v_entry_ids, 1) IS NOT NULL THEN
+    PERFORM update_task_actual_hours(p_task_id);
+  END IF;
+
+  RETURN v_entry_ids;
+END;
+$$;
+
+-- Internal: it trusts the timer row it is given, so only the timer functions call it
+REVOKE EXECUTE ON FUNCTION log_active_timer_segments(active_timers, TIMESTAMPTZ, UUID, UUID, TEXT, BOOLEAN, INTEGER) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- FUNCTION: start_active_timer
+-- Pomodoro timers open a new cycle and use the caller's settings
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION start_active_timer(
+  p_org_id UUID,
+  p_timer_type TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_project_id UUID DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT NULL
+) RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+  v_settings user_settings;
+  v_session_id UUID;
+  v_duration INTEGER := p_duration_seconds;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM active_timers
+    WHERE user_id = auth.uid() AND organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Another timer is already running. Stop it first.';
+  END IF;
+
+  IF p_timer_type = 'pomodoro_focus' THEN
+    v_settings := get_user_settings();
+    v_duration := COALESCE(v_duration, v_settings.pomodoro_focus_minutes * 60);
+
+    INSERT INTO pomodoro_sessions (user_id, organization_id, task_id)
+    VALUES (auth.uid(), p_org_id, p_task_id)
+    RETURNING id INTO v_session_id;
+  END IF;
+
+  INSERT INTO active_timers (
+    organization_id,
+    user_id,
+    task_id,
+    project_id,
+    timer_type,
+    duration_seconds,
+    pomodoro_session_id,
+    started_at,
+    segments
+  ) VALUES (
+    p_org_id,
+    auth.uid(),
+    p_task_id,
+    p_project_id,
+    p_timer_type,
+    v_duration,
+    v_session_id,
+    NOW(),
+    jsonb_build_array(jsonb_build_object('started_at', NOW(), 'ended_at', NULL))
+  )
+  RETURNING * INTO v_timer;
+
+  RETURN v_timer;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: advance_pomodoro
+-- Ends the current phase and starts the next one. p_phase_started_at
+-- identifies the phase being ended, so concurrent calls from several
+-- devices only advance once.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION advance_pomodoro(p_org_id UUID, p_phase_started_at TIMESTAMPTZ)
+RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+  v_settings user_settings;
+  v_session pomodoro_sessions;
+  v_worked_seconds INTEGER;
+  v_next_type TEXT;
+  v_next_duration INTEGER;
+  v_session_id UUID;
+BEGIN
+  SELECT * INTO v_timer
+  FROM active_timers
+  WHERE user_id = auth.uid() AND organization_id = p_org_id
+  FOR UPDATE;
+
+  IF v_timer.id IS NULL OR v_timer.timer_type NOT IN ('pomodoro_focus', 'pomodoro_break') THEN
+    RAISE EXCEPTION 'No active Pomodoro';
+  END IF;
+
+  -- Another device already advanced this phase
+  IF date_trunc('milliseconds', v_timer.started_at) <> date_trunc('milliseconds', p_phase_started_at) THEN
+    RETURN v_timer;
+  END IF;
+
+  SELECT COALESCE(SUM(EXTRACT(EPOCH FROM (
+    LEAST(COALESCE((s->>'ended_at')::TIMESTAMPTZ, NOW()), NOW()) - (s->>'started_at')::TIMESTAMPTZ
+  ))), 0)::INTEGER
+  INTO v_worked_seconds
+  FROM jsonb_array_elements(v_timer.segments) s;
+
+  -- Allow a little clock skew between the browser and the database
+  IF v_worked_seconds < v_timer.duration_seconds - 5 THEN
+    RETURN v_timer;
+  END IF;
+
+  v_settings := get_user_settings();
+  v_session_id := v_timer.pomodoro_session_id;
+
+  IF v_timer.timer_type = 'pomodoro_focus' THEN
+    -- Focus without a task can't be stored as a time entry; the cycle still counts
+    IF v_timer.task_id IS NOT NULL OR v_timer.project_id IS NOT NULL THEN
+      PERFORM log_active_timer_segments(
+        v_timer,
+        NOW(),
+        v_timer.task_id,
+        v_timer.project_id,
+        v_timer.description,
+        v_timer.is_billable,
+        v_timer.duration_seconds
+      );
+    END IF;
+
+    UPDATE pomodoro_sessions
+    SET focus_count = COALESCE(focus_count, 0) + 1,
+        task_id = COALESCE(v_timer.task_id, task_id)
+    WHERE id = v_session_id
+    RETURNING * INTO v_session;
+
+    v_next_type := 'pomodoro_break';
+    IF COALESCE(v_session.focus_count, 0) % v_settings.pomodoro_long_break_interval = 0 THEN
+      v_next_duration := v_settings.pomodoro_long_break_minutes * 60;
+    ELSE
+      v_next_duration := v_settings.pomodoro_short_break_minutes * 60;
+    END IF;
+  ELSE
+    UPDATE pomodoro_sessions
+    SET break_count = COALESCE(break_count, 0) + 1
+    WHERE id = v_session_id
+    RETURNING * INTO v_session;
+
+    -- A long break closes the cycle; the next focus starts a new one
+    IF COALESCE(v_session.focus_count, 0) > 0
+      AND v_session.focus_count % v_settings.pomodoro_long_break_interval = 0 THEN
+      UPDATE pomodoro_sessions SET completed_at = NOW() WHERE id = v_session_id;
+
+      INSERT INTO pomodoro_sessions (user_id, organization_id, task_id)
+      VALUES (auth.uid(), p_org_id, v_timer.task_id)
+      RETURNING id INTO v_session_id;
+    END IF;
+
+    v_next_type := 'pomodoro_focus';
+    v_next_duration := v_settings.pomodoro_focus_minutes * 60;
+  END IF;
+
+  UPDATE active_timers
+  SET timer_type = v_next_type,
+      duration_seconds = v_next_duration,
+      pomodoro_session_id = v_session_id,
+      started_at = NOW(),
+      is_paused = NOT v_settings.pomodoro_auto_advance,
+      paused_at = CASE WHEN v_settings.pomodoro_auto_advance THEN NULL ELSE NOW() END,
+      segments = CASE
+        WHEN v_settings.pomodoro_auto_advance
+          THEN jsonb_build_array(jsonb_build_object('started_at', NOW(), 'ended_at', NULL))
+        ELSE '[]'::jsonb
+      END
+  WHERE id = v_timer.id
+  RETURNING * INTO v_timer;
+
+  RETURN v_timer;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: stop_active_timer
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION stop_active_timer(
+  p_org_id UUID,
+  p_task_id UUID,
+  p_project_id UUID,
+  p_description TEXT,
+  p_is_billable BOOLEAN,
+  p_end_time TIMESTAMPTZ DEFAULT NULL
+) RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+  v_entry_ids UUID[];
+BEGIN
+  SELECT * INTO v_timer
+  FROM active_timers
+  WHERE user_id = auth.uid() AND organization_id = p_org_id
+  FOR UPDATE;
+
+  IF v_timer.id IS NULL THEN
+    RAISE EXCEPTION 'No active timer to stop';
+  END IF;
+
+  -- The client may pass the moment the user pressed stop; never trust a future time
+  v_entry_ids := log_active_timer_segments(
+    v_timer,
+    LEAST(COALESCE(p_end_time, NOW()), NOW()),
+    p_task_id,
+    p_project_id,
+    p_description,
+    p_is_billable,
+    v_timer.duration_seconds
+  );
+
+  IF array_length(v_entry_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Timer must run for at least one second';
+  END IF;
+
+  DELETE FROM active_timers WHERE id = v_timer.id;
+
+  RETURN v_entry_ids;
+END;
+$$;
@@ -0,0 +1,102 @@
+-- ============================================================
+-- IDLE DETECTION: per-user threshold and idle time resolution
+-- ============================================================
+
+-- Minutes without activity before a running timer asks about idle time (0 disables)
+ALTER TABLE user_settings
+ADD COLUMN idle_threshold_minutes INTEGER NOT NULL DEFAULT 10
+CHECK (idle_threshold_minutes BETWEEN 0 AND 240);
+
+-- ============================================================
+-- FUNCTION: resolve_active_timer_idle
+-- Removes the idle portion [p_idle_started_at, now) from the open
+-- segment of the caller's timer. With p_action = 'split' the idle
+-- portion is kept as its own non-billable time entry instead.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION resolve_active_timer_idle(
+  p_org_id UUID,
+  p_idle_started_at TIMESTAMPTZ,
+  p_action TEXT
+) RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+  v_last_index INTEGER;
+  v_segment_start TIMESTAMPTZ;
+  v_idle_start TIMESTAMPTZ;
+BEGIN
+  IF p_action NOT IN ('discard', 'split') THEN
+    RAISE EXCEPTION 'Invalid idle action: %', p_action;
+  END IF;
+
+  SELECT * INTO v_timer
+  FROM active_timers
+  WHERE user_id = auth.uid() AND organization_id = p_org_id
+  FOR UPDATE;
+
+  IF v_timer.id IS NULL OR v_timer.is_paused THEN
+    RAISE EXCEPTION 'No running timer';
+  END IF;
+
+  v_last_index := jsonb_array_length(v_timer.segments) - 1;
+  v_segment_start := (v_timer.segments->v_last_index->>'started_at')::TIMESTAMPTZ;
+
+  -- Idle time can only be taken out of the segment that is still running
+  v_idle_start := LEAST(GREATEST(p_idle_started_at, v_segment_start), NOW());
+
+  IF NOW() - v_idle_start < INTERVAL '1 second' THEN
+    RETURN v_timer;
+  END IF;
+
+  IF p_action = 'split' THEN
+    IF v_timer.task_id IS NULL AND v_timer.project_id IS NULL THEN
+      RAISE EXCEPTION 'Select a task before splitting idle time';
+    END IF;
+
+    IF check_time_entry_overlap(auth.uid(), v_idle_start, NOW()) THEN
+      RAISE EXCEPTION 'Time entry overlaps with existing entry.';
+    END IF;
+
+    INSERT INTO time_entries (
+      organization_id,
+      user_id,
+      task_id,
+      project_id,
+      timer_type,
+      start_time,
+      end_time,
+      duration_seconds,
+      description,
+      is_billable
+    ) VALUES (
+      p_org_id,
+      auth.uid(),
+      v_timer.task_id,
+      v_timer.project_id,
+      v_timer.timer_type,
+      v_idle_start,
+      NOW(),
+      calculate_duration_seconds(v_idle_start, NOW()),
+      'Idle time',
+      false
+    );
+
+    IF v_timer.task_id IS NOT NULL THEN
+      PERFORM update_task_actual_hours(v_timer.task_id);
+    END IF;
+  END IF;
+
+  -- Close the running segment at the start of the idle period and continue from now
+  UPDATE active_timers
+  SET segments = jsonb_set(segments, ARRAY[v_last_index::TEXT, 'ended_at'], to_jsonb(v_idle_start))
+    || jsonb_build_array(jsonb_build_object('started_at', NOW(), 'ended_at', NULL))
+  WHERE id = v_timer.id
+  RETURNING * INTO v_timer;
+
+  RETURN v_timer;
+END;
+$$;
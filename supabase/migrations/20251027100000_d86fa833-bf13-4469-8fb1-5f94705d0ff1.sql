@@ -0,0 +1,162 @@
+-- ============================================================
+-- RATE CARDS: effective-dated bill and cost rates
+-- Scope follows which ids are set:
+--   neither          -> organization default
+--   project_id       -> project rate
+--   user_id          -> member rate
+--   both             -> project-member override
+-- A card may set only one of the two rates; the other falls back
+-- to the next less specific card.
+-- ============================================================
+
+CREATE TABLE rate_cards (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  bill_rate NUMERIC(12, 2) CHECK (bill_rate >= 0),
+  cost_rate NUMERIC(12, 2) CHECK (cost_rate >= 0),
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT rate_cards_has_rate CHECK (bill_rate IS NOT NULL OR cost_rate IS NOT NULL)
+);
+
+-- One card per scope per start date
+CREATE UNIQUE INDEX idx_rate_cards_scope_date ON rate_cards (
+  organization_id,
+  COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::UUID),
+  COALESCE(user_id, '00000000-0000-0000-0000-000000000000'::UUID),
+  effective_from
+);
+
+CREATE INDEX idx_rate_cards_project ON rate_cards(project_id) WHERE project_id IS NOT NULL;
+CREATE INDEX idx_rate_cards_user ON rate_cards(user_id) WHERE user_id IS NOT NULL;
+
+CREATE TRIGGER update_rate_cards_updated_at
+BEFORE UPDATE ON rate_cards
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- RLS: rates (especially cost rates) are visible to admins and
+-- managers only; admins maintain them
+-- ============================================================
+
+ALTER TABLE rate_cards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY rate_cards_select_managers ON rate_cards
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY rate_cards_insert_admin ON rate_cards
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role = 'admin'
+  )
+);
+
+CREATE POLICY rate_cards_update_admin ON rate_cards
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role = 'admin'
+  )
+);
+
+CREATE POLICY rate_cards_delete_admin ON rate_cards
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role = 'admin'
+  )
+);
+
+-- ============================================================
+-- FUNCTION: resolve_rate
+-- Most specific card wins (project-member, project, member,
+-- org default), then the latest one in effect on p_on.
+-- p_kind is 'bill' or 'cost'.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION resolve_rate(
+  p_org_id UUID,
+  p_project_id UUID,
+  p_user_id UUID,
+  p_on DATE,
+  p_kind TEXT
+) RETURNS TABLE (rate NUMERIC, currency TEXT)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    CASE p_kind WHEN 'bill' THEN rc.bill_rate ELSE rc.cost_rate END,
+    rc.currency
+  FROM rate_cards rc
+  WHERE rc.organization_id = p_org_id
+    AND (rc.project_id IS NULL OR rc.project_id = p_project_id)
+    AND (rc.user_id IS NULL OR rc.user_id = p_user_id)
+    AND rc.effective_from <= p_on
+    AND CASE p_kind WHEN 'bill' THEN rc.bill_rate ELSE rc.cost_rate END IS NOT NULL
+  ORDER BY
+    (rc.project_id IS NOT NULL) DESC,
+    (rc.user_id IS NOT NULL) DESC,
+    rc.effective_from DESC
+  LIMIT 1;
+$$;
+
+-- ============================================================
+-- FUNCTION: get_time_entry_financials
+-- Resolves bill and cost rates for the given entries as of the
+-- entry's start date in the organization's timezone. Revenue only
+-- counts billable entries. Runs with the caller's RLS, so members
+-- without access to rate cards get NULL rates.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_time_entry_financials(p_entry_ids UUID[])
+RETURNS TABLE (
+  time_entry_id UUID,
+  bill_rate NUMERIC,
+  bill_currency TEXT,
+  cost_rate NUMERIC,
+  cost_currency TEXT,
+  revenue NUMERIC,
+  cost NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    te.id,
+    bill.rate,
+    bill.currency,
+    cost.rate,
+    cost.currency,
+    CASE WHEN te.is_billable THEN ROUND(bill.rate * te.duration_seconds / 3600.0, 2) ELSE 0 END,
+    ROUND(cost.rate * te.duration_seconds / 3600.0, 2)
+  FROM time_entries te
+  JOIN organizations o ON o.id = te.organization_id
+  LEFT JOIN LATERAL resolve_rate(
+    te.organization_id, te.project_id, te.user_id,
+    (te.start_time AT TIME ZONE o.timezone)::DATE, 'bill'
+  ) bill ON true
+  LEFT JOIN LATERAL resolve_rate(
+    te.organization_id, te.project_id, te.user_id,
+    (te.start_time AT TIME ZONE o.timezone)::DATE, 'cost'
+  ) cost ON true
+  WHERE te.id = ANY(p_entry_ids);
+$$;
@@ -0,0 +1,481 @@
+-- ============================================================
+-- CLIENTS: who a project's time is billed to
+-- ============================================================
+
+CREATE TABLE clients (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 200),
+  email TEXT,
+  address TEXT,
+  tax_id TEXT,
+  currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$'),
+  payment_terms_days INTEGER NOT NULL DEFAULT 30 CHECK (payment_terms_days BETWEEN 0 AND 365),
+  notes TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+CREATE INDEX idx_clients_org ON clients(organization_id) WHERE deleted_at IS NULL;
+
+CREATE TRIGGER update_clients_updated_at
+BEFORE UPDATE ON clients
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE projects
+ADD COLUMN client_id UUID REFERENCES clients(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_projects_client ON projects(client_id) WHERE client_id IS NOT NULL;
+
+ALTER TABLE clients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY clients_select_members ON clients
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY clients_insert_managers ON clients
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY clients_update_managers ON clients
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+-- ============================================================
+-- CLIENT INVOICES
+-- Drafts have no number; the next number in the organization's
+-- sequence is assigned when the invoice is sent, so voids are the
+-- only gaps a client can see.
+-- ============================================================
+
+CREATE TABLE client_invoices (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  client_id UUID NOT NULL REFERENCES clients(id),
+  invoice_number TEXT,
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'paid', 'void')),
+  group_by TEXT NOT NULL DEFAULT 'project' CHECK (group_by IN ('project', 'task', 'person')),
+  period_start DATE NOT NULL,
+  period_end DATE NOT NULL,
+  issue_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  due_date DATE NOT NULL,
+  currency TEXT NOT NULL CHECK (currency ~ '^[A-Z]{3}$'),
+  subtotal NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  tax_total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  total NUMERIC(12, 2) NOT NULL DEFAULT 0,
+  notes TEXT,
+  sent_at TIMESTAMPTZ,
+  paid_at TIMESTAMPTZ,
+  voided_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT client_invoices_period CHECK (period_end >= period_start),
+  CONSTRAINT client_invoices_number_when_sent CHECK (status = 'draft' OR invoice_number IS NOT NULL),
+  UNIQUE (organization_id, invoice_number)
+);
+
+CREATE INDEX idx_client_invoices_org ON client_invoices(organization_id, created_at DESC);
+CREATE INDEX idx_client_invoices_client ON client_invoices(client_id);
+
+CREATE TRIGGER update_client_invoices_updated_at
+BEFORE UPDATE ON client_invoices
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE client_invoice_lines (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES client_invoices(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL,
+  description TEXT NOT NULL,
+  project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
+  task_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  hours NUMERIC(10, 2) NOT NULL,
+  unit_price NUMERIC(12, 2) NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL
+);
+
+CREATE INDEX idx_client_invoice_lines_invoice ON client_invoice_lines(invoice_id, position);
+
+CREATE TABLE client_invoice_taxes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  invoice_id UUID NOT NULL REFERENCES client_invoices(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  rate NUMERIC(5, 2) NOT NULL CHECK (rate BETWEEN 0 AND 100),
+  amount NUMERIC(12, 2) NOT NULL
+);
+
+CREATE INDEX idx_client_invoice_taxes_invoice ON client_invoice_taxes(invoice_id);
+
+-- Entries on an invoice are locked; voiding or deleting the invoice releases them
+ALTER TABLE time_entries
+ADD COLUMN client_invoice_id UUID REFERENCES client_invoices(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_time_entries_client_invoice ON time_entries(client_invoice_id) WHERE client_invoice_id IS NOT NULL;
+
+-- ============================================================
+-- RLS: invoices are for admins and managers. Changes other than
+-- deleting a draft go through the functions below.
+-- ============================================================
+
+ALTER TABLE client_invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_invoice_lines ENABLE ROW LEVEL SECURITY;
+ALTER TABLE client_invoice_taxes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY client_invoices_select_managers ON client_invoices
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY client_invoices_delete_draft ON client_invoices
+FOR DELETE
+USING (
+  status = 'draft'
+  AND organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY client_invoice_lines_select_managers ON client_invoice_lines
+FOR SELECT
+USING (
+  invoice_id IN (SELECT id FROM client_invoices)
+);
+
+CREATE POLICY client_invoice_taxes_select_managers ON client_invoice_taxes
+FOR SELECT
+USING (
+  invoice_id IN (SELECT id FROM client_invoices)
+);
+
+-- ============================================================
+-- FUNCTION: prevent_invoiced_time_entry_changes
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION prevent_invoiced_time_entry_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.client_invoice_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Time entry has been invoiced and can no longer be changed';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- Only attaching to or releasing from an invoice is allowed once invoiced
+  IF OLD.client_invoice_id IS NOT NULL AND (
+    OLD.user_id, OLD.task_id, OLD.project_id, OLD.start_time, OLD.end_time,
+    OLD.duration_seconds, OLD.description, OLD.is_billable, OLD.is_approved, OLD.deleted_at
+  ) IS DISTINCT FROM (
+    NEW.user_id, NEW.task_id, NEW.project_id, NEW.start_time, NEW.end_time,
+    NEW.duration_seconds, NEW.description, NEW.is_billable, NEW.is_approved, NEW.deleted_at
+  ) THEN
+    RAISE EXCEPTION 'Time entry has been invoiced and can no longer be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER lock_invoiced_time_entries
+BEFORE UPDATE OR DELETE ON time_entries
+FOR EACH ROW
+EXECUTE FUNCTION prevent_invoiced_time_entry_changes();
+
+-- ============================================================
+-- FUNCTION: generate_client_invoice
+-- Creates a draft from approved billable time on the client's
+-- projects in [p_period_start, p_period_end] (organization dates),
+-- one line per group and bill rate. p_tax_lines is a JSON array
+-- of {"name": text, "rate": percent}.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION generate_client_invoice(
+  p_client_id UUID,
+  p_period_start DATE,
+  p_period_end DATE,
+  p_group_by TEXT DEFAULT 'project',
+  p_tax_lines JSONB DEFAULT '[]'::JSONB,
+  p_due_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+) RETURNS client_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_client clients;
+  v_timezone TEXT;
+  v_invoice client_invoices;
+  v_entry_ids UUID[];
+  v_missing_rates INTEGER;
+  v_other_currency INTEGER;
+  v_subtotal NUMERIC(12, 2);
+  v_tax JSONB;
+  v_tax_rate NUMERIC(5, 2);
+  v_tax_amount NUMERIC(12, 2);
+  v_tax_total NUMERIC(12, 2) := 0;
+BEGIN
+  IF p_group_by NOT IN ('project', 'task', 'person') THEN
+    RAISE EXCEPTION 'Invalid grouping: %', p_group_by;
+  END IF;
+
+  IF p_period_end < p_period_start THEN
+    RAISE EXCEPTION 'Period end must be on or after period start';
+  END IF;
+
+  SELECT * INTO v_client
+  FROM clients
+  WHERE id = p_client_id AND deleted_at IS NULL;
+
+  IF v_client.id IS NULL THEN
+    RAISE EXCEPTION 'Client not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = v_client.organization_id AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only admins and managers can create invoices';
+  END IF;
+
+  SELECT timezone INTO v_timezone FROM organizations WHERE id = v_client.organization_id;
+
+  -- Lock the entries so two invoices can't claim the same time
+  SELECT array_agg(id) INTO v_entry_ids
+  FROM (
+    SELECT te.id
+    FROM time_entries te
+    JOIN projects p ON p.id = te.project_id
+    WHERE p.client_id = p_client_id
+      AND te.organization_id = v_client.organization_id
+      AND te.is_billable
+      AND te.is_approved
+      AND te.deleted_at IS NULL
+      AND te.client_invoice_id IS NULL
+      AND (te.start_time AT TIME ZONE v_timezone)::DATE BETWEEN p_period_start AND p_period_end
+    FOR UPDATE OF te
+  ) entries;
+
+  IF v_entry_ids IS NULL THEN
+    RAISE EXCEPTION 'No approved billable time to invoice for this client in the selected period';
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE bill_rate IS NULL),
+    COUNT(*) FILTER (WHERE bill_rate IS NOT NULL AND bill_currency <> v_client.currency)
+  INTO v_missing_rates, v_other_currency
+  FROM get_time_entry_financials(v_entry_ids);
+
+  IF v_missing_rates > 0 THEN
+    RAISE EXCEPTION '% time entries have no bill rate. Add a rate before invoicing.', v_missing_rates;
+  END IF;
+
+  IF v_other_currency > 0 THEN
+    RAISE EXCEPTION '% time entries are rated in a currency other than %', v_other_currency, v_client.currency;
+  END IF;
+
+  INSERT INTO client_invoices (
+    organization_id,
+    client_id,
+    group_by,
+    period_start,
+    period_end,
+    due_date,
+    currency,
+    notes,
+    created_by
+  ) VALUES (
+    v_client.organization_id,
+    v_client.id,
+    p_group_by,
+    p_period_start,
+    p_period_end,
+    COALESCE(p_due_date, CURRENT_DATE + v_client.payment_terms_days),
+    v_client.currency,
+    p_notes,
+    auth.uid()
+  )
+  RETURNING * INTO v_invoice;
+
+  INSERT INTO client_invoice_lines (
+    invoice_id,
+    position,
+    description,
+    project_id,
+    task_id,
+    user_id,
+    hours,
+    unit_price,
+    amount
+  )
+  SELECT
+    v_invoice.id,
+    ROW_NUMBER() OVER (ORDER BY grouped.description, grouped.unit_price),
+    grouped.description,
+    grouped.project_id,
+    grouped.task_id,
+    grouped.user_id,
+    grouped.hours,
+    grouped.unit_price,
+    grouped.amount
+  FROM (
+    SELECT
+      CASE p_group_by
+        WHEN 'project' THEN p.name
+        WHEN 'task' THEN COALESCE(t.code || ' ' || t.title, p.name || ' (no task)')
+        ELSE COALESCE(get_user_email(te.user_id), 'Unknown member')
+      END AS description,
+      CASE WHEN p_group_by IN ('project', 'task') THEN te.project_id END AS project_id,
+      CASE WHEN p_group_by = 'task' THEN te.task_id END AS task_id,
+      CASE WHEN p_group_by = 'person' THEN te.user_id END AS user_id,
+      ROUND(SUM(te.duration_seconds) / 3600.0, 2) AS hours,
+      f.bill_rate AS unit_price,
+      SUM(f.revenue) AS amount
+    FROM get_time_entry_financials(v_entry_ids) f
+    JOIN time_entries te ON te.id = f.time_entry_id
+    JOIN projects p ON p.id = te.project_id
+    LEFT JOIN tasks t ON t.id = te.task_id
+    GROUP BY 1, 2, 3, 4, f.bill_rate
+  ) grouped;
+
+  SELECT COALESCE(SUM(amount), 0) INTO v_subtotal
+  FROM client_invoice_lines
+  WHERE invoice_id = v_invoice.id;
+
+  FOR v_tax IN SELECT * FROM jsonb_array_elements(COALESCE(p_tax_lines, '[]'::JSONB))
+  LOOP
+    v_tax_rate := (v_tax->>'rate')::NUMERIC;
+
+    IF COALESCE(trim(v_tax->>'name'), '') = '' OR v_tax_rate IS NULL OR v_tax_rate < 0 OR v_tax_rate > 100 THEN
+      RAISE EXCEPTION 'Each tax line needs a name and a rate between 0 and 100';
+    END IF;
+
+    v_tax_amount := ROUND(v_subtotal * v_tax_rate / 100, 2);
+    v_tax_total := v_tax_total + v_tax_amount;
+
+    INSERT INTO client_invoice_taxes (invoice_id, name, rate, amount)
+    VALUES (v_invoice.id, trim(v_tax->>'name'), v_tax_rate, v_tax_amount);
+  END LOOP;
+
+  UPDATE time_entries
+  SET client_invoice_id = v_invoice.id
+  WHERE id = ANY(v_entry_ids);
+
+  UPDATE client_invoices
+  SET subtotal = v_subtotal,
+      tax_total = v_tax_total,
+      total = v_subtotal + v_tax_total
+  WHERE id = v_invoice.id
+  RETURNING * INTO v_invoice;
+
+  RETURN v_invoice;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: update_client_invoice_status
+-- draft -> sent (assigns the number), sent -> paid,
+-- sent/paid -> void (releases the time entries)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION update_client_invoice_status(
+  p_invoice_id UUID,
+  p_status TEXT
+) RETURNS client_invoices
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_invoice client_invoices;
+  v_max_number INTEGER;
+BEGIN
+  SELECT * INTO v_invoice
+  FROM client_invoices
+  WHERE id = p_invoice_id
+  FOR UPDATE;
+
+  IF v_invoice.id IS NULL THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = v_invoice.organization_id AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only admins and managers can update invoices';
+  END IF;
+
+  IF NOT (
+    (v_invoice.status = 'draft' AND p_status = 'sent')
+    OR (v_invoice.status = 'sent' AND p_status = 'paid')
+    OR (v_invoice.status IN ('sent', 'paid') AND p_status = 'void')
+  ) THEN
+    RAISE EXCEPTION 'Cannot change invoice from % to %', v_invoice.status, p_status;
+  END IF;
+
+  IF p_status = 'sent' THEN
+    -- Serialize numbering per organization
+    PERFORM pg_advisory_xact_lock(hashtext('client_invoice_number:' || v_invoice.organization_id::TEXT));
+
+    SELECT COALESCE(MAX(substring(invoice_number FROM 'INV-([0-9]+)')::INTEGER), 0) INTO v_max_number
+    FROM client_invoices
+    WHERE organization_id = v_invoice.organization_id
+      AND invoice_number ~ '^INV-[0-9]+$';
+
+    UPDATE client_invoices
+    SET status = 'sent',
+        invoice_number = 'INV-' || LPAD((v_max_number + 1)::TEXT, 5, '0'),
+        issue_date = CURRENT_DATE,
+        due_date = due_date + (CURRENT_DATE - issue_date),
+        sent_at = NOW()
+    WHERE id = v_invoice.id
+    RETURNING * INTO v_invoice;
+  ELSIF p_status = 'paid' THEN
+    UPDATE client_invoices
+    SET status = 'paid',
+        paid_at = NOW()
+    WHERE id = v_invoice.id
+    RETURNING * INTO v_invoice;
+  ELSE
+    UPDATE time_entries
+    SET client_invoice_id = NULL
+    WHERE client_invoice_id = v_invoice.id;
+
+    UPDATE client_invoices
+    SET status = 'void',
+        voided_at = NOW()
+    WHERE id = v_invoice.id
+    RETURNING * INTO v_invoice;
+  END IF;
+
+  RETURN v_invoice;
+END;
+$$;
@@ -0,0 +1,299 @@
+-- ============================================================
+-- PROJECT BUDGETS: hours or money, optionally split into phases
+-- Consumption comes from the project's time entries. Money budgets
+-- are consumed at the resolved bill rate (billable or not) in the
+-- budget's currency. Phases cover a date range of the project and
+-- are consumed by the entries started inside it.
+-- ============================================================
+
+CREATE TABLE project_budgets (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL UNIQUE REFERENCES projects(id) ON DELETE CASCADE,
+  budget_type TEXT NOT NULL CHECK (budget_type IN ('hours', 'money')),
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  currency TEXT CHECK (currency ~ '^[A-Z]{3}$'),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT project_budgets_money_currency CHECK (budget_type = 'hours' OR currency IS NOT NULL)
+);
+
+CREATE TABLE project_budget_phases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  budget_id UUID NOT NULL REFERENCES project_budgets(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  amount NUMERIC(12, 2) NOT NULL CHECK (amount > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT project_budget_phases_dates CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_project_budget_phases_budget ON project_budget_phases(budget_id);
+
+CREATE TRIGGER update_project_budgets_updated_at
+BEFORE UPDATE ON project_budgets
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_project_budget_phases_updated_at
+BEFORE UPDATE ON project_budget_phases
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- One alert per budget (or phase) per threshold; alerts that drop
+-- below their threshold again (budget raised) are removed so they
+-- can fire again later
+CREATE TABLE project_budget_alerts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  budget_id UUID NOT NULL REFERENCES project_budgets(id) ON DELETE CASCADE,
+  phase_id UUID REFERENCES project_budget_phases(id) ON DELETE CASCADE,
+  threshold INTEGER NOT NULL CHECK (threshold IN (50, 80, 100)),
+  consumed NUMERIC(12, 2) NOT NULL,
+  budget_amount NUMERIC(12, 2) NOT NULL,
+  acknowledged_at TIMESTAMPTZ,
+  acknowledged_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_project_budget_alerts_unique ON project_budget_alerts (
+  budget_id,
+  COALESCE(phase_id, '00000000-0000-0000-0000-000000000000'::UUID),
+  threshold
+);
+
+CREATE INDEX idx_project_budget_alerts_open ON project_budget_alerts(organization_id)
+WHERE acknowledged_at IS NULL;
+
+-- ============================================================
+-- RLS: admins and managers maintain budgets; alerts go to admins
+-- ============================================================
+
+ALTER TABLE project_budgets ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_budget_phases ENABLE ROW LEVEL SECURITY;
+ALTER TABLE project_budget_alerts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY project_budgets_select_managers ON project_budgets
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY project_budgets_insert_managers ON project_budgets
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+  AND project_id IN (SELECT id FROM projects WHERE organization_id = project_budgets.organization_id)
+);
+
+CREATE POLICY project_budgets_update_managers ON project_budgets
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY project_budgets_delete_managers ON project_budgets
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY project_budget_phases_select_managers ON project_budget_phases
+FOR SELECT
+USING (budget_id IN (SELECT id FROM project_budgets));
+
+CREATE POLICY project_budget_phases_insert_managers ON project_budget_phases
+FOR INSERT
+WITH CHECK (budget_id IN (SELECT id FROM project_budgets));
+
+CREATE POLICY project_budget_phases_update_managers ON project_budget_phases
+FOR UPDATE
+USING (budget_id IN (SELECT id FROM project_budgets));
+
+CREATE POLICY project_budget_phases_delete_managers ON project_budget_phases
+FOR DELETE
+USING (budget_id IN (SELECT id FROM project_budgets));
+
+CREATE POLICY project_budget_alerts_select_admin ON project_budget_alerts
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role = 'admin'
+  )
+);
+
+CREATE POLICY project_budget_alerts_update_admin ON project_budget_alerts
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role = 'admin'
+  )
+);
+
+-- ============================================================
+-- FUNCTION: get_project_budget_burn
+-- Daily consumption of the project's budget (organization dates).
+-- amount is NULL for hours budgets.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_project_budget_burn(p_project_id UUID)
+RETURNS TABLE (day DATE, hours NUMERIC, amount NUMERIC)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_org_id UUID;
+BEGIN
+  SELECT organization_id INTO v_org_id FROM projects WHERE id = p_project_id;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = v_org_id AND role IN ('admin', 'manager')
+  ) THEN
+    RAISE EXCEPTION 'Only admins and managers can view project budgets';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    (te.start_time AT TIME ZONE o.timezone)::DATE,
+    ROUND(SUM(te.duration_seconds) / 3600.0, 2),
+    CASE WHEN b.budget_type = 'money' THEN
+      COALESCE(SUM(ROUND(bill.rate * te.duration_seconds / 3600.0, 2)) FILTER (WHERE bill.currency = b.currency), 0)
+    END
+  FROM time_entries te
+  LEFT JOIN tasks t ON t.id = te.task_id
+  JOIN organizations o ON o.id = te.organization_id
+  LEFT JOIN project_budgets b ON b.project_id = p_project_id
+  LEFT JOIN LATERAL resolve_rate(
+    te.organization_id, p_project_id, te.user_id,
+    (te.start_time AT TIME ZONE o.timezone)::DATE, 'bill'
+  ) bill ON b.budget_type = 'money'
+  WHERE COALESCE(te.project_id, t.project_id) = p_project_id
+    AND te.deleted_at IS NULL
+    AND te.duration_seconds IS NOT NULL
+  GROUP BY 1, b.budget_type
+  ORDER BY 1;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: check_project_budget_alerts
+-- Records 50/80/100% alerts for the project's budget and phases.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION check_project_budget_alerts(p_project_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_budget project_budgets;
+  v_scope RECORD;
+  v_percent NUMERIC;
+BEGIN
+  SELECT * INTO v_budget FROM project_budgets WHERE project_id = p_project_id;
+
+  IF v_budget.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOR v_scope IN
+    WITH entries AS (
+      SELECT
+        (te.start_time AT TIME ZONE o.timezone)::DATE AS day,
+        CASE
+          WHEN v_budget.budget_type = 'hours' THEN te.duration_seconds / 3600.0
+          WHEN bill.currency = v_budget.currency THEN bill.rate * te.duration_seconds / 3600.0
+          ELSE 0
+        END AS consumed
+      FROM time_entries te
+      LEFT JOIN tasks t ON t.id = te.task_id
+      JOIN organizations o ON o.id = te.organization_id
+      LEFT JOIN LATERAL resolve_rate(
+        te.organization_id, p_project_id, te.user_id,
+        (te.start_time AT TIME ZONE o.timezone)::DATE, 'bill'
+      ) bill ON v_budget.budget_type = 'money'
+      WHERE COALESCE(te.project_id, t.project_id) = p_project_id
+        AND te.deleted_at IS NULL
+        AND te.duration_seconds IS NOT NULL
+    )
+    SELECT NULL::UUID AS phase_id, v_budget.amount AS amount,
+           COALESCE((SELECT SUM(consumed) FROM entries), 0) AS consumed
+    UNION ALL
+    SELECT ph.id, ph.amount,
+           COALESCE((SELECT SUM(e.consumed) FROM entries e WHERE e.day BETWEEN ph.start_date AND ph.end_date), 0)
+    FROM project_budget_phases ph
+    WHERE ph.budget_id = v_budget.id
+  LOOP
+    v_percent := v_scope.consumed / v_scope.amount * 100;
+
+    DELETE FROM project_budget_alerts
+    WHERE budget_id = v_budget.id
+      AND phase_id IS NOT DISTINCT FROM v_scope.phase_id
+      AND threshold > v_percent;
+
+    INSERT INTO project_budget_alerts (
+      organization_id, project_id, budget_id, phase_id, threshold, consumed, budget_amount
+    )
+    SELECT v_budget.organization_id, p_project_id, v_budget.id, v_scope.phase_id,
+           threshold, ROUND(v_scope.consumed, 2), v_scope.amount
+    FROM unnest(ARRAY[50, 80, 100]) AS threshold
+    WHERE threshold <= v_percent
+    ON CONFLICT DO NOTHING;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: update_task_actual_hours
+-- Every time entry write calls this, so it also re-checks the
+-- project budget.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION update_task_actual_hours(p_task_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_project_id UUID;
+BEGIN
+  UPDATE tasks
+  SET actual_hours = (
+    SELECT COALESCE(SUM(duration_seconds), 0) / 3600.0
+    FROM time_entries
+    WHERE task_id = p_task_id AND deleted_at IS NULL
+  )
+  WHERE id = p_task_id
+  RETURNING project_id INTO v_project_id;
+
+  IF v_project_id IS NOT NULL THEN
+    PERFORM check_project_budget_alerts(v_project_id);
+  END IF;
+END;
+$$;
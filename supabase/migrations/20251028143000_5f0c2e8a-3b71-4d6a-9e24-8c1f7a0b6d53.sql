@@ -0,0 +1,390 @@
+-- ============================================================
+-- GENERATED REPORTS: every exported report is kept in the private
+-- "reports" bucket under <organization_id>/<file> so it can be
+-- downloaded again from the Reports page
+-- ============================================================
+
+CREATE TABLE report_schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  template_id TEXT NOT NULL CHECK (template_id IN ('billable_hours', 'timesheet', 'velocity', 'audit')),
+  filters JSONB NOT NULL DEFAULT '{}'::JSONB,
+  format TEXT NOT NULL DEFAULT 'csv' CHECK (format IN ('csv', 'pdf')),
+  period TEXT NOT NULL CHECK (period IN ('this_week', 'last_week', 'this_month', 'last_month', 'this_quarter')),
+  -- Run time in the organization's timezone
+  frequency TEXT NOT NULL CHECK (frequency IN ('daily', 'weekly', 'monthly')),
+  weekday SMALLINT CHECK (weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  day_of_month SMALLINT CHECK (day_of_month BETWEEN 1 AND 28),
+  hour SMALLINT NOT NULL DEFAULT 8 CHECK (hour BETWEEN 0 AND 23),
+  -- Emailed to these addresses; with no recipients the report is only stored
+  recipients TEXT[] NOT NULL DEFAULT '{}',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  next_run_at TIMESTAMPTZ,
+  last_run_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT report_schedules_weekly_weekday CHECK (frequency <> 'weekly' OR weekday IS NOT NULL),
+  CONSTRAINT report_schedules_monthly_day CHECK (frequency <> 'monthly' OR day_of_month IS NOT NULL)
+);
+
+CREATE INDEX idx_report_schedules_due ON report_schedules(next_run_at) WHERE is_active;
+CREATE INDEX idx_report_schedules_org ON report_schedules(organization_id);
+
+CREATE TABLE generated_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  template_id TEXT NOT NULL CHECK (template_id IN ('billable_hours', 'timesheet', 'velocity', 'audit')),
+  name TEXT NOT NULL,
+  filters JSONB NOT NULL DEFAULT '{}'::JSONB,
+  -- Readable version of the filters at generation time, e.g. "Project: Website"
+  filter_summary TEXT,
+  format TEXT NOT NULL CHECK (format IN ('csv', 'pdf')),
+  period_start TIMESTAMPTZ NOT NULL,
+  period_end TIMESTAMPTZ NOT NULL,
+  row_count INTEGER NOT NULL DEFAULT 0,
+  file_path TEXT NOT NULL UNIQUE,
+  file_size BIGINT,
+  -- NULL for reports produced by a schedule
+  generated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  schedule_id UUID REFERENCES report_schedules(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_generated_reports_org ON generated_reports(organization_id, created_at DESC);
+
+CREATE TRIGGER update_report_schedules_updated_at
+BEFORE UPDATE ON report_schedules
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- RLS: members see the reports they generated, admins and
+-- managers see every report and manage schedules
+-- ============================================================
+
+ALTER TABLE report_schedules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE generated_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY report_schedules_select_managers ON report_schedules
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY report_schedules_insert_managers ON report_schedules
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY report_schedules_update_managers ON report_schedules
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY report_schedules_delete_managers ON report_schedules
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY generated_reports_select_own_or_managers ON generated_reports
+FOR SELECT
+USING (
+  generated_by = auth.uid()
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY generated_reports_insert_members ON generated_reports
+FOR INSERT
+WITH CHECK (
+  generated_by = auth.uid()
+  AND schedule_id IS NULL
+  AND organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY generated_reports_delete_own_or_managers ON generated_reports
+FOR DELETE
+USING (
+  generated_by = auth.uid()
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+-- ============================================================
+-- STORAGE: files follow the access of their generated_reports row
+-- ============================================================
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'reports',
+  'reports',
+  false,
+  52428800, -- 50MB
+  ARRAY['text/csv', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view reports they can see"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'reports'
+  AND name IN (SELECT file_path FROM generated_reports)
+);
+
+CREATE POLICY "Users can upload reports to their organizations"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'reports'
+  AND (storage.foldername(name))[1] IN (
+    SELECT organization_id::text FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY "Users can delete reports they can delete"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'reports'
+  AND (
+    owner = auth.uid()
+    OR (storage.foldername(name))[1] IN (
+      SELECT organization_id::text FROM get_user_organizations(auth.uid())
+      WHERE role IN ('admin', 'manager')
+    )
+  )
+);
+
+-- ============================================================
+-- SCHEDULING: next_run_at is kept in sync with the schedule and
+-- the run-report-schedules edge function claims due schedules
+-- every hour
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.next_report_run_at(
+  p_frequency TEXT,
+  p_weekday SMALLINT,
+  p_day_of_month SMALLINT,
+  p_hour SMALLINT,
+  p_timezone TEXT,
+  p_after TIMESTAMPTZ
+)
+RETURNS TIMESTAMPTZ
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_local TIMESTAMP := p_after AT TIME ZONE p_timezone;
+  v_next TIMESTAMP;
+BEGIN
+  IF p_frequency = 'daily' THEN
+    v_next := date_trunc('day', v_local) + make_interval(hours => p_hour);
+    IF v_next <= v_local THEN
+      v_next := v_next + INTERVAL '1 day';
+    END IF;
+  ELSIF p_frequency = 'weekly' THEN
+    v_next := date_trunc('day', v_local)
+      + make_interval(days => (p_weekday - EXTRACT(DOW FROM v_local)::INTEGER + 7) % 7, hours => p_hour);
+    IF v_next <= v_local THEN
+      v_next := v_next + INTERVAL '7 days';
+    END IF;
+  ELSE
+    v_next := date_trunc('month', v_local) + make_interval(days => p_day_of_month - 1, hours => p_hour);
+    IF v_next <= v_local THEN
+      v_next := date_trunc('month', v_local) + INTERVAL '1 month'
+        + make_interval(days => p_day_of_month - 1, hours => p_hour);
+    END IF;
+  END IF;
+
+  RETURN v_next AT TIME ZONE p_timezone;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_report_schedule_next_run()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT NEW.is_active THEN
+    NEW.next_run_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.next_run_at := next_report_run_at(
+    NEW.frequency,
+    NEW.weekday,
+    NEW.day_of_month,
+    NEW.hour,
+    (SELECT timezone FROM organizations WHERE id = NEW.organization_id),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_report_schedule_next_run
+BEFORE INSERT OR UPDATE OF frequency, weekday, day_of_month, hour, is_active ON report_schedules
+FOR EACH ROW
+EXECUTE FUNCTION set_report_schedule_next_run();
+
+-- Report period in the organization's timezone, mirroring
+-- getReportPeriod in src/lib/reportData.ts (weeks start on Monday).
+-- The dates are for labels, the timestamps for querying.
+CREATE OR REPLACE FUNCTION public.report_period_bounds(
+  p_period TEXT,
+  p_timezone TEXT,
+  p_now TIMESTAMPTZ
+)
+RETURNS TABLE (start_at TIMESTAMPTZ, end_at TIMESTAMPTZ, start_date DATE, end_date DATE)
+LANGUAGE plpgsql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_local TIMESTAMP := p_now AT TIME ZONE p_timezone;
+  v_start TIMESTAMP;
+  v_end TIMESTAMP;
+BEGIN
+  CASE p_period
+    WHEN 'this_week' THEN
+      v_start := date_trunc('week', v_local);
+      v_end := v_start + INTERVAL '1 week';
+    WHEN 'last_week' THEN
+      v_start := date_trunc('week', v_local) - INTERVAL '1 week';
+      v_end := v_start + INTERVAL '1 week';
+    WHEN 'last_month' THEN
+      v_start := date_trunc('month', v_local) - INTERVAL '1 month';
+      v_end := v_start + INTERVAL '1 month';
+    WHEN 'this_quarter' THEN
+      v_start := date_trunc('quarter', v_local);
+      v_end := v_start + INTERVAL '3 months';
+    ELSE
+      v_start := date_trunc('month', v_local);
+      v_end := v_start + INTERVAL '1 month';
+  END CASE;
+
+  RETURN QUERY SELECT
+    v_start AT TIME ZONE p_timezone,
+    (v_end - INTERVAL '1 microsecond') AT TIME ZONE p_timezone,
+    v_start::DATE,
+    (v_end - INTERVAL '1 day')::DATE;
+END;
+$$;
+
+-- Claims the schedules that are due and moves them to their next run
+-- before the report is produced, so a failing report isn't retried
+-- every hour. SKIP LOCKED keeps overlapping runs from sending twice.
+CREATE OR REPLACE FUNCTION public.claim_due_report_schedules(p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+  schedule_id UUID,
+  organization_id UUID,
+  organization_name TEXT,
+  name TEXT,
+  template_id TEXT,
+  filters JSONB,
+  format TEXT,
+  recipients TEXT[],
+  period_start TIMESTAMPTZ,
+  period_end TIMESTAMPTZ,
+  period_start_date DATE,
+  period_end_date DATE
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH due AS (
+    SELECT s.id
+    FROM report_schedules s
+    WHERE s.is_active
+      AND s.next_run_at <= NOW()
+    ORDER BY s.next_run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE report_schedules s
+    SET
+      last_run_at = NOW(),
+      last_error = NULL,
+      next_run_at = next_report_run_at(s.frequency, s.weekday, s.day_of_month, s.hour, o.timezone, NOW())
+    FROM due, organizations o
+    WHERE s.id = due.id
+      AND o.id = s.organization_id
+    RETURNING s.*
+  )
+  SELECT
+    c.id,
+    c.organization_id,
+    o.name,
+    c.name,
+    c.template_id,
+    c.filters,
+    c.format,
+    c.recipients,
+    p.start_at,
+    p.end_at,
+    p.start_date,
+    p.end_date
+  FROM claimed c
+  JOIN organizations o ON o.id = c.organization_id
+  CROSS JOIN LATERAL report_period_bounds(c.period, o.timezone, NOW()) p;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_due_report_schedules(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_due_report_schedules(INTEGER) TO service_role;
+
+-- ============================================================
+-- CRON: hourly call to the edge function. Needs the vault secrets
+-- 'project_url' and 'service_role_key':
+--   SELECT vault.create_secret('https://<ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- ============================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'run-report-schedules',
+  '5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/run-report-schedules',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::JSONB
+  );
+  $$
+);
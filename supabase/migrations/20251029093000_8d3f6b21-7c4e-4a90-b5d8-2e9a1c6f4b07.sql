@@ -0,0 +1,378 @@
+-- ============================================================
+-- SPRINTS: time-boxed iterations of a team and/or project with
+-- the tasks committed to them. Velocity is the estimate of the
+-- tasks completed in a sprint.
+-- ============================================================
+
+CREATE TABLE sprints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  team_id UUID REFERENCES teams(id) ON DELETE CASCADE,
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  goal TEXT CHECK (char_length(goal) <= 1000),
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  status TEXT NOT NULL DEFAULT 'planned' CHECK (status IN ('planned', 'active', 'completed')),
+  completed_at TIMESTAMPTZ,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT sprints_scope CHECK (team_id IS NOT NULL OR project_id IS NOT NULL),
+  CONSTRAINT sprints_dates CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_sprints_org ON sprints(organization_id, start_date DESC);
+CREATE INDEX idx_sprints_team ON sprints(team_id) WHERE team_id IS NOT NULL;
+CREATE INDEX idx_sprints_project ON sprints(project_id) WHERE project_id IS NOT NULL;
+
+-- One running sprint per team/project combination
+CREATE UNIQUE INDEX idx_sprints_one_active ON sprints (
+  COALESCE(team_id, '00000000-0000-0000-0000-000000000000'::UUID),
+  COALESCE(project_id, '00000000-0000-0000-0000-000000000000'::UUID)
+)
+WHERE status = 'active';
+
+-- A task's membership in a sprint. Rows stay after the sprint is
+-- completed with their outcome, which is what velocity and
+-- carry-over are computed from.
+CREATE TABLE sprint_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  sprint_id UUID NOT NULL REFERENCES sprints(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  -- Estimate when the task entered the sprint
+  committed_hours NUMERIC(8, 2),
+  -- Scope added once the sprint was running
+  added_after_start BOOLEAN NOT NULL DEFAULT false,
+  carried_over_from UUID REFERENCES sprints(id) ON DELETE SET NULL,
+  -- Set when the sprint is completed
+  outcome TEXT CHECK (outcome IN ('completed', 'carried_over', 'returned')),
+  completed_hours NUMERIC(8, 2),
+  added_by UUID REFERENCES auth.users(id),
+  added_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (sprint_id, task_id)
+);
+
+CREATE INDEX idx_sprint_tasks_task ON sprint_tasks(task_id);
+
+CREATE TRIGGER update_sprints_updated_at
+BEFORE UPDATE ON sprints
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Admins, managers and the tech leads of the sprint's team (or of a
+-- team assigned to its project) plan and run sprints
+CREATE OR REPLACE FUNCTION public.can_manage_sprint(
+  p_user_id UUID,
+  p_organization_id UUID,
+  p_team_id UUID,
+  p_project_id UUID
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM user_organizations
+    WHERE user_id = p_user_id
+      AND organization_id = p_organization_id
+      AND role IN ('admin', 'manager')
+  )
+  OR (p_team_id IS NOT NULL AND is_team_tech_lead(p_user_id, p_team_id))
+  OR (
+    p_project_id IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM project_teams pt
+      JOIN team_members tm ON tm.team_id = pt.team_id
+      WHERE pt.project_id = p_project_id
+        AND tm.user_id = p_user_id
+        AND tm.team_role = 'tech_lead'
+    )
+  );
+$$;
+
+-- ============================================================
+-- RLS: the organization sees sprints, sprint managers edit them
+-- ============================================================
+
+ALTER TABLE sprints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sprint_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY sprints_select_org ON sprints
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY sprints_insert_managers ON sprints
+FOR INSERT
+WITH CHECK (
+  can_manage_sprint(auth.uid(), organization_id, team_id, project_id)
+  AND (team_id IS NULL OR team_id IN (SELECT id FROM teams WHERE organization_id = sprints.organization_id))
+  AND (project_id IS NULL OR project_id IN (SELECT id FROM projects WHERE organization_id = sprints.organization_id))
+);
+
+CREATE POLICY sprints_update_managers ON sprints
+FOR UPDATE
+USING (can_manage_sprint(auth.uid(), organization_id, team_id, project_id));
+
+CREATE POLICY sprints_delete_managers ON sprints
+FOR DELETE
+USING (
+  status = 'planned'
+  AND can_manage_sprint(auth.uid(), organization_id, team_id, project_id)
+);
+
+CREATE POLICY sprint_tasks_select_org ON sprint_tasks
+FOR SELECT
+USING (sprint_id IN (SELECT id FROM sprints));
+
+CREATE POLICY sprint_tasks_insert_managers ON sprint_tasks
+FOR INSERT
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM sprints s
+    WHERE s.id = sprint_tasks.sprint_id
+      AND s.status <> 'completed'
+      AND can_manage_sprint(auth.uid(), s.organization_id, s.team_id, s.project_id)
+  )
+);
+
+CREATE POLICY sprint_tasks_update_managers ON sprint_tasks
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM sprints s
+    WHERE s.id = sprint_tasks.sprint_id
+      AND s.status <> 'completed'
+      AND can_manage_sprint(auth.uid(), s.organization_id, s.team_id, s.project_id)
+  )
+);
+
+CREATE POLICY sprint_tasks_delete_managers ON sprint_tasks
+FOR DELETE
+USING (
+  EXISTS (
+    SELECT 1 FROM sprints s
+    WHERE s.id = sprint_tasks.sprint_id
+      AND s.status <> 'completed'
+      AND can_manage_sprint(auth.uid(), s.organization_id, s.team_id, s.project_id)
+  )
+);
+
+-- ============================================================
+-- COMMITMENT: a task is in at most one open sprint; the estimate
+-- is captured when it is added
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.prepare_sprint_task()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_sprint sprints%ROWTYPE;
+  v_task tasks%ROWTYPE;
+BEGIN
+  SELECT * INTO v_sprint FROM sprints WHERE id = NEW.sprint_id;
+  SELECT * INTO v_task FROM tasks WHERE id = NEW.task_id;
+
+  IF v_task.id IS NULL OR v_task.deleted_at IS NOT NULL OR v_task.organization_id <> v_sprint.organization_id THEN
+    RAISE EXCEPTION 'Task not found in this organization';
+  END IF;
+
+  IF v_sprint.status = 'completed' THEN
+    RAISE EXCEPTION 'Sprint % is already completed', v_sprint.name;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM sprint_tasks st
+    JOIN sprints s ON s.id = st.sprint_id
+    WHERE st.task_id = NEW.task_id
+      AND st.sprint_id <> NEW.sprint_id
+      AND s.status <> 'completed'
+  ) THEN
+    RAISE EXCEPTION 'Task % is already in another open sprint', v_task.code;
+  END IF;
+
+  NEW.committed_hours := COALESCE(NEW.committed_hours, v_task.estimated_hours);
+  NEW.added_after_start := v_sprint.status = 'active';
+  NEW.added_by := COALESCE(NEW.added_by, auth.uid());
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_sprint_task
+BEFORE INSERT ON sprint_tasks
+FOR EACH ROW
+EXECUTE FUNCTION prepare_sprint_task();
+
+-- ============================================================
+-- COMPLETION: records each task's outcome. Unfinished tasks move
+-- to p_next_sprint_id when given, otherwise back to the backlog.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.complete_sprint(p_sprint_id UUID, p_next_sprint_id UUID DEFAULT NULL)
+RETURNS sprints
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_sprint sprints%ROWTYPE;
+  v_next sprints%ROWTYPE;
+BEGIN
+  SELECT * INTO v_sprint FROM sprints WHERE id = p_sprint_id FOR UPDATE;
+
+  IF v_sprint.id IS NULL THEN
+    RAISE EXCEPTION 'Sprint not found';
+  END IF;
+
+  IF NOT can_manage_sprint(auth.uid(), v_sprint.organization_id, v_sprint.team_id, v_sprint.project_id) THEN
+    RAISE EXCEPTION 'Only admins, managers and tech leads can complete sprints';
+  END IF;
+
+  IF v_sprint.status = 'completed' THEN
+    RAISE EXCEPTION 'Sprint % is already completed', v_sprint.name;
+  END IF;
+
+  IF p_next_sprint_id IS NOT NULL THEN
+    SELECT * INTO v_next FROM sprints WHERE id = p_next_sprint_id;
+
+    IF v_next.id IS NULL OR v_next.organization_id <> v_sprint.organization_id OR v_next.id = v_sprint.id THEN
+      RAISE EXCEPTION 'Next sprint not found';
+    END IF;
+
+    IF v_next.status = 'completed' THEN
+      RAISE EXCEPTION 'Cannot carry tasks over to a completed sprint';
+    END IF;
+  END IF;
+
+  UPDATE sprint_tasks st
+  SET
+    outcome = CASE
+      WHEN t.status = 'done' THEN 'completed'
+      WHEN p_next_sprint_id IS NOT NULL AND t.deleted_at IS NULL AND t.status <> 'archived' THEN 'carried_over'
+      ELSE 'returned'
+    END,
+    completed_hours = CASE
+      WHEN t.status = 'done' THEN COALESCE(t.estimated_hours, st.committed_hours, 0)
+    END
+  FROM tasks t
+  WHERE st.sprint_id = p_sprint_id
+    AND t.id = st.task_id;
+
+  UPDATE sprints
+  SET status = 'completed', completed_at = NOW()
+  WHERE id = p_sprint_id
+  RETURNING * INTO v_sprint;
+
+  IF p_next_sprint_id IS NOT NULL THEN
+    INSERT INTO sprint_tasks (sprint_id, task_id, committed_hours, carried_over_from)
+    SELECT
+      p_next_sprint_id,
+      st.task_id,
+      GREATEST(COALESCE(t.estimated_hours, 0) - COALESCE(t.actual_hours, 0), 0),
+      p_sprint_id
+    FROM sprint_tasks st
+    JOIN tasks t ON t.id = st.task_id
+    WHERE st.sprint_id = p_sprint_id
+      AND st.outcome = 'carried_over'
+    ON CONFLICT (sprint_id, task_id) DO NOTHING;
+  END IF;
+
+  RETURN v_sprint;
+END;
+$$;
+
+-- ============================================================
+-- STATS: committed vs completed per sprint, newest first. Open
+-- sprints use the tasks' current status. Runs with the caller's
+-- RLS.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.get_sprint_stats(
+  p_organization_id UUID,
+  p_team_id UUID DEFAULT NULL,
+  p_project_id UUID DEFAULT NULL,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  sprint_id UUID,
+  name TEXT,
+  team_id UUID,
+  project_id UUID,
+  start_date DATE,
+  end_date DATE,
+  status TEXT,
+  committed_tasks INTEGER,
+  committed_hours NUMERIC,
+  added_tasks INTEGER,
+  added_hours NUMERIC,
+  completed_tasks INTEGER,
+  completed_hours NUMERIC,
+  carried_in_tasks INTEGER,
+  carried_over_tasks INTEGER,
+  carried_over_hours NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  WITH picked AS (
+    SELECT s.*
+    FROM sprints s
+    WHERE s.organization_id = p_organization_id
+      AND (p_team_id IS NULL OR s.team_id = p_team_id)
+      AND (p_project_id IS NULL OR s.project_id = p_project_id)
+      AND (p_from IS NULL OR s.end_date >= p_from)
+      AND (p_to IS NULL OR s.end_date <= p_to)
+    ORDER BY s.start_date DESC
+    LIMIT p_limit
+  ),
+  items AS (
+    SELECT
+      st.sprint_id,
+      st.added_after_start,
+      st.carried_over_from,
+      COALESCE(st.committed_hours, 0) AS committed_hours,
+      COALESCE(st.outcome = 'completed', t.status = 'done') AS is_completed,
+      COALESCE(st.completed_hours, t.estimated_hours, st.committed_hours, 0) AS done_hours,
+      st.outcome = 'carried_over' AS is_carried_over
+    FROM sprint_tasks st
+    JOIN tasks t ON t.id = st.task_id
+    WHERE st.sprint_id IN (SELECT id FROM picked)
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.team_id,
+    p.project_id,
+    p.start_date,
+    p.end_date,
+    p.status,
+    COUNT(i.sprint_id) FILTER (WHERE NOT i.added_after_start)::INTEGER,
+    COALESCE(SUM(i.committed_hours) FILTER (WHERE NOT i.added_after_start), 0),
+    COUNT(i.sprint_id) FILTER (WHERE i.added_after_start)::INTEGER,
+    COALESCE(SUM(i.committed_hours) FILTER (WHERE i.added_after_start), 0),
+    COUNT(i.sprint_id) FILTER (WHERE i.is_completed)::INTEGER,
+    COALESCE(SUM(i.done_hours) FILTER (WHERE i.is_completed), 0),
+    COUNT(i.sprint_id) FILTER (WHERE i.carried_over_from IS NOT NULL)::INTEGER,
+    COUNT(i.sprint_id) FILTER (WHERE i.is_carried_over)::INTEGER,
+    COALESCE(SUM(i.committed_hours) FILTER (WHERE i.is_carried_over), 0)
+  FROM picked p
+  LEFT JOIN items i ON i.sprint_id = p.id
+  GROUP BY p.id, p.name, p.team_id, p.project_id, p.start_date, p.end_date, p.status
+  ORDER BY p.start_date DESC;
+$$;
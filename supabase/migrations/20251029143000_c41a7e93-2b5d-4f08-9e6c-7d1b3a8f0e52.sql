@@ -0,0 +1,83 @@
+-- ============================================================
+-- TIME OFF: days a member isn't available. Sprint planning takes
+-- them out of the member's capacity.
+-- ============================================================
+
+CREATE TABLE time_off (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  start_date DATE NOT NULL,
+  end_date DATE NOT NULL,
+  kind TEXT NOT NULL DEFAULT 'vacation' CHECK (kind IN ('vacation', 'sick', 'holiday', 'other')),
+  note TEXT CHECK (char_length(note) <= 500),
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT time_off_dates CHECK (end_date >= start_date)
+);
+
+CREATE INDEX idx_time_off_org_dates ON time_off(organization_id, start_date, end_date);
+CREATE INDEX idx_time_off_user ON time_off(user_id, start_date);
+
+CREATE TRIGGER update_time_off_updated_at
+BEFORE UPDATE ON time_off
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- RLS: the organization sees who is away (needed for planning);
+-- members manage their own time off, admins and managers anyone's
+-- ============================================================
+
+ALTER TABLE time_off ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY time_off_select_org ON time_off
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY time_off_insert_own_or_managers ON time_off
+FOR INSERT
+WITH CHECK (
+  (
+    user_id = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+    )
+  )
+  OR (
+    organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+      WHERE role IN ('admin', 'manager')
+    )
+    AND user_id IN (
+      SELECT uo.user_id FROM user_organizations uo
+      WHERE uo.organization_id = time_off.organization_id
+    )
+  )
+);
+
+CREATE POLICY time_off_update_own_or_managers ON time_off
+FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY time_off_delete_own_or_managers ON time_off
+FOR DELETE
+USING (
+  user_id = auth.uid()
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
@@ -0,0 +1,609 @@
+-- ============================================================
+-- WORKFLOWS: per-project task statuses with a category, allowed
+-- transitions and WIP limits. Projects without custom statuses
+-- use the built-in workflow (todo, in_progress, in_review,
+-- blocked, done). 'archived' stays outside every workflow.
+-- ============================================================
+
+-- Admins, managers and the tech leads of a team assigned to the
+-- project configure it
+CREATE OR REPLACE FUNCTION public.can_manage_project(p_user_id UUID, p_project_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM projects p
+    JOIN user_organizations uo ON uo.organization_id = p.organization_id
+    WHERE p.id = p_project_id
+      AND uo.user_id = p_user_id
+      AND uo.role IN ('admin', 'manager')
+  )
+  OR EXISTS (
+    SELECT 1
+    FROM project_teams pt
+    JOIN team_members tm ON tm.team_id = pt.team_id
+    WHERE pt.project_id = p_project_id
+      AND tm.user_id = p_user_id
+      AND tm.team_role = 'tech_lead'
+  );
+$$;
+
+CREATE TABLE workflow_statuses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  -- Stored in tasks.status
+  key TEXT NOT NULL CHECK (key ~ '^[a-z][a-z0-9_]{0,39}$' AND key <> 'archived'),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 40),
+  category TEXT NOT NULL CHECK (category IN ('backlog', 'active', 'done')),
+  color TEXT NOT NULL DEFAULT '#6B7280' CHECK (color ~ '^#[0-9A-Fa-f]{6}$'),
+  position INTEGER NOT NULL DEFAULT 0,
+  -- Most top-level tasks allowed in the column at once
+  wip_limit INTEGER CHECK (wip_limit > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (project_id, key)
+);
+
+CREATE INDEX idx_workflow_statuses_org ON workflow_statuses(organization_id);
+
+-- Without any rows for a project every move is allowed
+CREATE TABLE workflow_transitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  from_status TEXT NOT NULL,
+  to_status TEXT NOT NULL,
+
+  UNIQUE (project_id, from_status, to_status),
+  CHECK (from_status <> to_status),
+  FOREIGN KEY (project_id, from_status) REFERENCES workflow_statuses(project_id, key) ON DELETE CASCADE,
+  FOREIGN KEY (project_id, to_status) REFERENCES workflow_statuses(project_id, key) ON DELETE CASCADE
+);
+
+CREATE TRIGGER update_workflow_statuses_updated_at
+BEFORE UPDATE ON workflow_statuses
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- Statuses in effect for a project, in column order. Keep the
+-- built-in rows in sync with DEFAULT_WORKFLOW in src/lib/workflows.ts.
+CREATE OR REPLACE FUNCTION public.project_workflow_statuses(p_project_id UUID)
+RETURNS TABLE (
+  key TEXT,
+  name TEXT,
+  category TEXT,
+  color TEXT,
+  position INTEGER,
+  wip_limit INTEGER
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  SELECT ws.key, ws.name, ws.category, ws.color, ws.position, ws.wip_limit
+  FROM workflow_statuses ws
+  WHERE ws.project_id = p_project_id
+  UNION ALL
+  SELECT d.key, d.name, d.category, d.color, d.position, NULL::INTEGER
+  FROM (
+    VALUES
+      ('todo', 'To Do', 'backlog', '#6B7280', 0),
+      ('in_progress', 'In Progress', 'active', '#3B82F6', 1),
+      ('in_review', 'In Review', 'active', '#F97316', 2),
+      ('blocked', 'Blocked', 'active', '#EF4444', 3),
+      ('done', 'Done', 'done', '#22C55E', 4)
+  ) AS d(key, name, category, color, position)
+  WHERE NOT EXISTS (SELECT 1 FROM workflow_statuses ws WHERE ws.project_id = p_project_id)
+  ORDER BY 5;
+$$;
+
+-- ============================================================
+-- TASKS: status is a workflow key now. status_category keeps
+-- "is it done?" answerable without knowing the workflow, and
+-- board_position orders the cards within a column.
+-- ============================================================
+
+ALTER TABLE tasks DROP CONSTRAINT IF EXISTS tasks_status_check;
+
+ALTER TABLE tasks
+  ADD COLUMN status_category TEXT NOT NULL DEFAULT 'backlog'
+    CHECK (status_category IN ('backlog', 'active', 'done', 'archived')),
+  ADD COLUMN board_position DOUBLE PRECISION NOT NULL DEFAULT EXTRACT(EPOCH FROM NOW());
+
+ALTER TABLE tasks DISABLE TRIGGER update_tasks_updated_at;
+
+UPDATE tasks
+SET
+  status_category = CASE status
+    WHEN 'todo' THEN 'backlog'
+    WHEN 'done' THEN 'done'
+    WHEN 'archived' THEN 'archived'
+    ELSE 'active'
+  END,
+  board_position = EXTRACT(EPOCH FROM created_at);
+
+ALTER TABLE tasks ENABLE TRIGGER update_tasks_updated_at;
+
+CREATE INDEX idx_tasks_status_category ON tasks(status_category);
+CREATE INDEX idx_tasks_project_status ON tasks(project_id, status) WHERE deleted_at IS NULL;
+
+CREATE OR REPLACE FUNCTION check_subtasks_complete(p_task_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_count
+  FROM tasks
+  WHERE parent_task_id = p_task_id
+    AND status_category != 'done'
+    AND deleted_at IS NULL;
+  
+  IF v_count > 0 THEN
+    RETURN false;
+  ELSE
+    RETURN true;
+  END IF;
+END;
+$$;
+
+-- Validates every status change against the task's project
+-- workflow: known status, allowed transition, WIP limit and the
+-- subtask gate before a done status. Also keeps status_category
+-- and completed_at in step.
+CREATE OR REPLACE FUNCTION public.enforce_task_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_status RECORD;
+  v_count INTEGER;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.status = OLD.status
+    AND NEW.project_id IS NOT DISTINCT FROM OLD.project_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'archived' THEN
+    NEW.status_category := 'archived';
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_status
+  FROM project_workflow_statuses(NEW.project_id) ws
+  WHERE ws.key = NEW.status;
+
+  -- New tasks created with the column default start in the
+  -- workflow's first status
+  IF NOT FOUND AND TG_OP = 'INSERT' AND NEW.status = 'todo' THEN
+    SELECT * INTO v_status
+    FROM project_workflow_statuses(NEW.project_id) ws
+    ORDER BY (ws.category = 'done'), ws.position
+    LIMIT 1;
+    NEW.status := v_status.key;
+  END IF;
+
+  IF v_status.key IS NULL THEN
+    RAISE EXCEPTION 'Status "%" is not part of this project''s workflow', NEW.status;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.status <> OLD.status
+    AND OLD.status <> 'archived'
+    AND NEW.project_id IS NOT DISTINCT FROM OLD.project_id
+    AND EXISTS (SELECT 1 FROM workflow_transitions WHERE project_id = NEW.project_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM workflow_transitions
+      WHERE project_id = NEW.project_id
+        AND from_status = OLD.status
+        AND to_status = NEW.status
+    ) THEN
+    RAISE EXCEPTION 'This workflow doesn''t allow moving from "%" to "%"', OLD.status, v_status.name;
+  END IF;
+
+  IF v_status.wip_limit IS NOT NULL AND NEW.parent_task_id IS NULL THEN
+    SELECT COUNT(*) INTO v_count
+    FROM tasks
+    WHERE project_id = NEW.project_id
+      AND status = NEW.status
+      AND parent_task_id IS NULL
+      AND deleted_at IS NULL
+      AND id <> NEW.id;
+
+    IF v_count >= v_status.wip_limit THEN
+      RAISE EXCEPTION '% is at its WIP limit of % tasks', v_status.name, v_status.wip_limit;
+    END IF;
+  END IF;
+
+  IF v_status.category = 'done' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status_category <> 'done' AND NOT check_subtasks_complete(NEW.id) THEN
+      RAISE EXCEPTION 'All subtasks must be done before this task can move to %', v_status.name;
+    END IF;
+    NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  NEW.status_category := v_status.category;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_task_workflow
+BEFORE INSERT OR UPDATE OF status, project_id ON tasks
+FOR EACH ROW
+EXECUTE FUNCTION enforce_task_workflow();
+
+-- ============================================================
+-- SAVING: replaces a project's workflow in one go. An empty
+-- status list resets the project to the built-in workflow.
+-- Statuses still holding tasks can't be removed.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.save_project_workflow(
+  p_project_id UUID,
+  p_statuses JSONB,
+  p_transitions JSONB DEFAULT '[]'::JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_project projects%ROWTYPE;
+  v_keys TEXT[];
+  v_in_use TEXT;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id AND deleted_at IS NULL;
+
+  IF v_project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF NOT can_manage_project(auth.uid(), p_project_id) THEN
+    RAISE EXCEPTION 'Only admins, managers and tech leads can change the workflow';
+  END IF;
+
+  IF jsonb_array_length(p_statuses) = 0 THEN
+    v_keys := ARRAY['todo', 'in_progress', 'in_review', 'blocked', 'done'];
+  ELSE
+    SELECT array_agg(s.key) INTO v_keys
+    FROM jsonb_to_recordset(p_statuses) AS s(key TEXT);
+
+    IF NOT EXISTS (SELECT 1 FROM jsonb_to_recordset(p_statuses) AS s(category TEXT) WHERE s.category = 'done') THEN
+      RAISE EXCEPTION 'A workflow needs at least one done status';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM jsonb_to_recordset(p_statuses) AS s(category TEXT) WHERE s.category <> 'done') THEN
+      RAISE EXCEPTION 'A workflow needs a status to start in';
+    END IF;
+  END IF;
+
+  SELECT string_agg(DISTINCT t.status, ', ') INTO v_in_use
+  FROM tasks t
+  WHERE t.project_id = p_project_id
+    AND t.deleted_at IS NULL
+    AND t.status <> 'archived'
+    AND NOT (t.status = ANY(v_keys));
+
+  IF v_in_use IS NOT NULL THEN
+    RAISE EXCEPTION 'Move tasks out of these statuses before removing them: %', v_in_use;
+  END IF;
+
+  DELETE FROM workflow_transitions WHERE project_id = p_project_id;
+  DELETE FROM workflow_statuses WHERE project_id = p_project_id AND NOT (key = ANY(v_keys));
+
+  IF jsonb_array_length(p_statuses) > 0 THEN
+    INSERT INTO workflow_statuses (organization_id, project_id, key, name, category, color, position, wip_limit)
+    SELECT
+      v_project.organization_id,
+      p_project_id,
+      s.key,
+      s.name,
+      s.category,
+      COALESCE(s.color, '#6B7280'),
+      (s.ord - 1)::INTEGER,
+      s.wip_limit
+    FROM ROWS FROM (
+      jsonb_to_recordset(p_statuses) AS (key TEXT, name TEXT, category TEXT, color TEXT, wip_limit INTEGER)
+    ) WITH ORDINALITY AS s(key, name, category, color, wip_limit, ord)
+    ON CONFLICT (project_id, key) DO UPDATE
+    SET
+      name = EXCLUDED.name,
+      category = EXCLUDED.category,
+      color = EXCLUDED.color,
+      position = EXCLUDED.position,
+      wip_limit = EXCLUDED.wip_limit;
+
+    INSERT INTO workflow_transitions (project_id, from_status, to_status)
+    SELECT DISTINCT p_project_id, tr.from_status, tr.to_status
+    FROM jsonb_to_recordset(p_transitions) AS tr(from_status TEXT, to_status TEXT);
+  END IF;
+
+  -- A status may have changed category
+  UPDATE tasks t
+  SET status_category = ws.category
+  FROM project_workflow_statuses(p_project_id) ws
+  WHERE t.project_id = p_project_id
+    AND t.status = ws.key
+    AND t.status_category <> ws.category;
+END;
+$$;
+
+-- ============================================================
+-- RLS: the organization reads workflows; changes go through
+-- save_project_workflow
+-- ============================================================
+
+ALTER TABLE workflow_statuses ENABLE ROW LEVEL SECURITY;
+ALTER TABLE workflow_transitions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY workflow_statuses_select_org ON workflow_statuses
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY workflow_transitions_select_org ON workflow_transitions
+FOR SELECT
+USING (
+  project_id IN (
+    SELECT id FROM projects
+    WHERE organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+    )
+  )
+);
+
+-- ============================================================
+-- Completion checks elsewhere follow the status category
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.complete_sprint(p_sprint_id UUID, p_next_sprint_id UUID DEFAULT NULL)
+RETURNS sprints
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_sprint sprints%ROWTYPE;
+  v_next sprints%ROWTYPE;
+BEGIN
+  SELECT * INTO v_sprint FROM sprints WHERE id = p_sprint_id FOR UPDATE;
+
+  IF v_sprint.id IS NULL THEN
+    RAISE EXCEPTION 'Sprint not found';
+  END IF;
+
+  IF NOT can_manage_sprint(auth.uid(), v_sprint.organization_id, v_sprint.team_id, v_sprint.project_id) THEN
+    RAISE EXCEPTION 'Only admins, managers and tech leads can complete sprints';
+  END IF;
+
+  IF v_sprint.status = 'completed' THEN
+    RAISE EXCEPTION 'Sprint % is already completed', v_sprint.name;
+  END IF;
+
+  IF p_next_sprint_id IS NOT NULL THEN
+    SELECT * INTO v_next FROM sprints WHERE id = p_next_sprint_id;
+
+    IF v_next.id IS NULL OR v_next.organization_id <> v_sprint.organization_id OR v_next.id = v_sprint.id THEN
+      RAISE EXCEPTION 'Next sprint not found';
+    END IF;
+
+    IF v_next.status = 'completed' THEN
+      RAISE EXCEPTION 'Cannot carry tasks over to a completed sprint';
+    END IF;
+  END IF;
+
+  UPDATE sprint_tasks st
+  SET
+    outcome = CASE
+      WHEN t.status_category = 'done' THEN 'completed'
+      WHEN p_next_sprint_id IS NOT NULL AND t.deleted_at IS NULL AND t.status_category <> 'archived' THEN 'carried_over'
+      ELSE 'returned'
+    END,
+    completed_hours = CASE
+      WHEN t.status_category = 'done' THEN COALESCE(t.estimated_hours, st.committed_hours, 0)
+    END
+  FROM tasks t
+  WHERE st.sprint_id = p_sprint_id
+    AND t.id = st.task_id;
+
+  UPDATE sprints
+  SET status = 'completed', completed_at = NOW()
+  WHERE id = p_sprint_id
+  RETURNING * INTO v_sprint;
+
+  IF p_next_sprint_id IS NOT NULL THEN
+    INSERT INTO sprint_tasks (sprint_id, task_id, committed_hours, carried_over_from)
+    SELECT
+      p_next_sprint_id,
+      st.task_id,
+      GREATEST(COALESCE(t.estimated_hours, 0) - COALESCE(t.actual_hours, 0), 0),
+      p_sprint_id
+    FROM sprint_tasks st
+    JOIN tasks t ON t.id = st.task_id
+    WHERE st.sprint_id = p_sprint_id
+      AND st.outcome = 'carried_over'
+    ON CONFLICT (sprint_id, task_id) DO NOTHING;
+  END IF;
+
+  RETURN v_sprint;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_sprint_stats(
+  p_organization_id UUID,
+  p_team_id UUID DEFAULT NULL,
+  p_project_id UUID DEFAULT NULL,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL,
+  p_limit INTEGER DEFAULT NULL
+)
+RETURNS TABLE (
+  sprint_id UUID,
+  name TEXT,
+  team_id UUID,
+  project_id UUID,
+  start_date DATE,
+  end_date DATE,
+  status TEXT,
+  committed_tasks INTEGER,
+  committed_hours NUMERIC,
+  added_tasks INTEGER,
+  added_hours NUMERIC,
+  completed_tasks INTEGER,
+  completed_hours NUMERIC,
+  carried_in_tasks INTEGER,
+  carried_over_tasks INTEGER,
+  carried_over_hours NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  WITH picked AS (
+    SELECT s.*
+    FROM sprints s
+    WHERE s.organization_id = p_organization_id
+      AND (p_team_id IS NULL OR s.team_id = p_team_id)
+      AND (p_project_id IS NULL OR s.project_id = p_project_id)
+      AND (p_from IS NULL OR s.end_date >= p_from)
+      AND (p_to IS NULL OR s.end_date <= p_to)
+    ORDER BY s.start_date DESC
+    LIMIT p_limit
+  ),
+  items AS (
+    SELECT
+      st.sprint_id,
+      st.added_after_start,
+      st.carried_over_from,
+      COALESCE(st.committed_hours, 0) AS committed_hours,
+      COALESCE(st.outcome = 'completed', t.status_category = 'done') AS is_completed,
+      COALESCE(st.completed_hours, t.estimated_hours, st.committed_hours, 0) AS done_hours,
+      st.outcome = 'carried_over' AS is_carried_over
+    FROM sprint_tasks st
+    JOIN tasks t ON t.id = st.task_id
+    WHERE st.sprint_id IN (SELECT id FROM picked)
+  )
+  SELECT
+    p.id,
+    p.name,
+    p.team_id,
+    p.project_id,
+    p.start_date,
+    p.end_date,
+    p.status,
+    COUNT(i.sprint_id) FILTER (WHERE NOT i.added_after_start)::INTEGER,
+    COALESCE(SUM(i.committed_hours) FILTER (WHERE NOT i.added_after_start), 0),
+    COUNT(i.sprint_id) FILTER (WHERE i.added_after_start)::INTEGER,
+    COALESCE(SUM(i.committed_hours) FILTER (WHERE i.added_after_start), 0),
+    COUNT(i.sprint_id) FILTER (WHERE i.is_completed)::INTEGER,
+    COALESCE(SUM(i.done_hours) FILTER (WHERE i.is_completed), 0),
+    COUNT(i.sprint_id) FILTER (WHERE i.carried_over_from IS NOT NULL)::INTEGER,
+    COUNT(i.sprint_id) FILTER (WHERE i.is_carried_over)::INTEGER,
+    COALESCE(SUM(i.committed_hours) FILTER (WHERE i.is_carried_over), 0)
+  FROM picked p
+  LEFT JOIN items i ON i.sprint_id = p.id
+  GROUP BY p.id, p.name, p.team_id, p.project_id, p.start_date, p.end_date, p.status
+  ORDER BY p.start_date DESC;
+$$;
+
+-- New columns change the return type, so the function is recreated
+DROP FUNCTION IF EXISTS public.get_tasks_with_details(UUID);
+
+CREATE OR REPLACE FUNCTION public.get_tasks_with_details(p_org_id UUID)
+RETURNS TABLE (
+  id UUID,
+  organization_id UUID,
+  project_id UUID,
+  parent_task_id UUID,
+  code TEXT,
+  title TEXT,
+  description TEXT,
+  status TEXT,
+  status_category TEXT,
+  priority TEXT,
+  task_type TEXT,
+  assigned_to UUID,
+  created_by UUID,
+  estimated_hours NUMERIC,
+  actual_hours NUMERIC,
+  due_date DATE,
+  completed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ,
+  deleted_at TIMESTAMPTZ,
+  assignee_email TEXT,
+  assignee_name TEXT,
+  creator_email TEXT,
+  creator_name TEXT,
+  project_name TEXT,
+  subtask_count BIGINT,
+  completed_subtask_count BIGINT,
+  comment_count BIGINT,
+  attachment_count BIGINT,
+  board_position DOUBLE PRECISION
+) 
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT 
+    t.id,
+    t.organization_id,
+    t.project_id,
+    t.parent_task_id,
+    t.code,
+    t.title,
+    t.description,
+    t.status,
+    t.status_category,
+    t.priority,
+    t.task_type,
+    t.assigned_to,
+    t.created_by,
+    t.estimated_hours,
+    t.actual_hours,
+    t.due_date,
+    t.completed_at,
+    t.created_at,
+    t.updated_at,
+    t.deleted_at,
+    assignee.email::TEXT as assignee_email,
+    (assignee.raw_user_meta_data->>'full_name')::TEXT as assignee_name,
+    creator.email::TEXT as creator_email,
+    (creator.raw_user_meta_data->>'full_name')::TEXT as creator_name,
+    p.name::TEXT as project_name,
+    (SELECT COUNT(*) FROM tasks st WHERE st.parent_task_id = t.id AND st.deleted_at IS NULL) as subtask_count,
+    (SELECT COUNT(*) FROM tasks st WHERE st.parent_task_id = t.id AND st.status_category = 'done' AND st.deleted_at IS NULL) as completed_subtask_count,
+    (SELECT COUNT(*) FROM task_comments tc WHERE tc.task_id = t.id AND tc.deleted_at IS NULL) as comment_count,
+    (SELECT COUNT(*) FROM task_attachments ta WHERE ta.task_id = t.id AND ta.deleted_at IS NULL) as attachment_count,
+    t.board_position
+  FROM tasks t
+  LEFT JOIN auth.users assignee ON t.assigned_to = assignee.id
+  LEFT JOIN auth.users creator ON t.created_by = creator.id
+  LEFT JOIN projects p ON t.project_id = p.id
+  WHERE t.organization_id = p_org_id
+    AND t.deleted_at IS NULL
+    AND t.parent_task_id IS NULL
+  ORDER BY t.created_at DESC;
+END;
+$$;
@@ -0,0 +1,258 @@
+-- ============================================================
+-- TASK LINKS: "blocks", "relates to" and "duplicates" between
+-- tasks of an organization. "Is blocked by" / "is duplicated by"
+-- are the same rows read from the other end.
+-- ============================================================
+
+CREATE TABLE task_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  source_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  target_task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  link_type TEXT NOT NULL CHECK (link_type IN ('blocks', 'relates', 'duplicates')),
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  CHECK (source_task_id <> target_task_id),
+  UNIQUE (source_task_id, target_task_id, link_type)
+);
+
+CREATE INDEX idx_task_links_target ON task_links(target_task_id);
+CREATE INDEX idx_task_links_org ON task_links(organization_id);
+
+-- Blocking tasks can't move to started statuses until done; off
+-- for projects that only use links as information
+ALTER TABLE projects ADD COLUMN enforce_blockers BOOLEAN NOT NULL DEFAULT true;
+
+-- ============================================================
+-- VALIDATION: both tasks in the link's organization, one link
+-- per pair for the symmetric "relates", and no cycles among
+-- "blocks" links (A blocks B blocks ... blocks A).
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.validate_task_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_cycle TEXT;
+BEGIN
+  IF (SELECT COUNT(*) FROM tasks
+      WHERE id IN (NEW.source_task_id, NEW.target_task_id)
+        AND organization_id = NEW.organization_id
+        AND deleted_at IS NULL) <> 2 THEN
+    RAISE EXCEPTION 'Both tasks must belong to the organization';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM task_links
+    WHERE source_task_id = NEW.target_task_id
+      AND target_task_id = NEW.source_task_id
+      AND link_type = NEW.link_type
+      AND NEW.link_type IN ('relates', 'duplicates')
+  ) THEN
+    RAISE EXCEPTION 'These tasks are already linked';
+  END IF;
+
+  IF NEW.link_type = 'blocks' THEN
+    -- Walk forward from the target; reaching the source again
+    -- means the new link closes a loop
+    WITH RECURSIVE chain(task_id, path) AS (
+      SELECT NEW.target_task_id, ARRAY[NEW.source_task_id, NEW.target_task_id]
+      UNION ALL
+      SELECT tl.target_task_id, c.path || tl.target_task_id
+      FROM chain c
+      JOIN task_links tl ON tl.source_task_id = c.task_id AND tl.link_type = 'blocks'
+      WHERE NOT tl.target_task_id = ANY(c.path[2:])
+    )
+    SELECT string_agg(t.code, ' → ' ORDER BY o.n) INTO v_cycle
+    FROM (
+      SELECT path FROM chain
+      WHERE task_id = NEW.source_task_id
+      LIMIT 1
+    ) c
+    CROSS JOIN LATERAL unnest(c.path) WITH ORDINALITY AS o(task_id, n)
+    JOIN tasks t ON t.id = o.task_id;
+
+    IF v_cycle IS NOT NULL THEN
+      RAISE EXCEPTION 'This link would create a dependency cycle: %', v_cycle;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER validate_task_link
+BEFORE INSERT OR UPDATE ON task_links
+FOR EACH ROW
+EXECUTE FUNCTION validate_task_link();
+
+-- ============================================================
+-- RLS: organization members see and create links; the creator,
+-- admins, managers and the project's tech leads remove them
+-- ============================================================
+
+ALTER TABLE task_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_links_select_org ON task_links
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY task_links_insert_org ON task_links
+FOR INSERT
+WITH CHECK (
+  created_by = auth.uid()
+  AND organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY task_links_delete_creator_or_managers ON task_links
+FOR DELETE
+USING (
+  created_by = auth.uid()
+  OR EXISTS (
+    SELECT 1 FROM tasks t
+    WHERE t.id = task_links.source_task_id
+      AND t.project_id IS NOT NULL
+      AND can_manage_project(auth.uid(), t.project_id)
+  )
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+-- ============================================================
+-- BLOCKER GATE: the workflow trigger also refuses to start a
+-- task while a task blocking it is still open
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.enforce_task_workflow()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_status RECORD;
+  v_count INTEGER;
+  v_blockers TEXT;
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND NEW.status = OLD.status
+    AND NEW.project_id IS NOT DISTINCT FROM OLD.project_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'archived' THEN
+    NEW.status_category := 'archived';
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_status
+  FROM project_workflow_statuses(NEW.project_id) ws
+  WHERE ws.key = NEW.status;
+
+  -- New tasks created with the column default start in the
+  -- workflow's first status
+  IF NOT FOUND AND TG_OP = 'INSERT' AND NEW.status = 'todo' THEN
+    SELECT * INTO v_status
+    FROM project_workflow_statuses(NEW.project_id) ws
+    ORDER BY (ws.category = 'done'), ws.position
+    LIMIT 1;
+    NEW.status := v_status.key;
+  END IF;
+
+  IF v_status.key IS NULL THEN
+    RAISE EXCEPTION 'Status "%" is not part of this project''s workflow', NEW.status;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+    AND NEW.status <> OLD.status
+    AND OLD.status <> 'archived'
+    AND NEW.project_id IS NOT DISTINCT FROM OLD.project_id
+    AND EXISTS (SELECT 1 FROM workflow_transitions WHERE project_id = NEW.project_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM workflow_transitions
+      WHERE project_id = NEW.project_id
+        AND from_status = OLD.status
+        AND to_status = NEW.status
+    ) THEN
+    RAISE EXCEPTION 'This workflow doesn''t allow moving from "%" to "%"', OLD.status, v_status.name;
+  END IF;
+
+  IF v_status.wip_limit IS NOT NULL AND NEW.parent_task_id IS NULL THEN
+    SELECT COUNT(*) INTO v_count
+    FROM tasks
+    WHERE project_id = NEW.project_id
+      AND status = NEW.status
+      AND parent_task_id IS NULL
+      AND deleted_at IS NULL
+      AND id <> NEW.id;
+
+    IF v_count >= v_status.wip_limit THEN
+      RAISE EXCEPTION '% is at its WIP limit of % tasks', v_status.name, v_status.wip_limit;
+    END IF;
+  END IF;
+
+  -- Starting work (leaving the backlog) waits for open blockers
+  -- unless the project turned the gate off
+  IF TG_OP = 'UPDATE'
+    AND v_status.category <> 'backlog'
+    AND OLD.status_category IN ('backlog', 'archived')
+    AND NEW.project_id IS NOT NULL
+    AND (SELECT enforce_blockers FROM projects WHERE id = NEW.project_id)
+  THEN
+    SELECT string_agg(t.code, ', ' ORDER BY t.code) INTO v_blockers
+    FROM task_links tl
+    JOIN tasks t ON t.id = tl.source_task_id
+    WHERE tl.target_task_id = NEW.id
+      AND tl.link_type = 'blocks'
+      AND t.deleted_at IS NULL
+      AND t.status_category NOT IN ('done', 'archived');
+
+    IF v_blockers IS NOT NULL THEN
+      RAISE EXCEPTION 'Blocked by open tasks: %', v_blockers;
+    END IF;
+  END IF;
+
+  IF v_status.category = 'done' THEN
+    IF TG_OP = 'UPDATE' AND OLD.status_category <> 'done' AND NOT check_subtasks_complete(NEW.id) THEN
+      RAISE EXCEPTION 'All subtasks must be done before this task can move to %', v_status.name;
+    END IF;
+    NEW.completed_at := COALESCE(NEW.completed_at, NOW());
+  ELSE
+    NEW.completed_at := NULL;
+  END IF;
+
+  NEW.status_category := v_status.category;
+  RETURN NEW;
+END;
+$$;
+
+-- Projects.update is admin/manager only; tech leads who manage
+-- the workflow toggle the gate through here
+CREATE OR REPLACE FUNCTION public.set_project_enforce_blockers(p_project_id UUID, p_enabled BOOLEAN)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NOT can_manage_project(auth.uid(), p_project_id) THEN
+    RAISE EXCEPTION 'Only admins, managers and tech leads can change this setting';
+  END IF;
+
+  UPDATE projects
+  SET enforce_blockers = p_enabled
+  WHERE id = p_project_id AND deleted_at IS NULL;
+END;
+$$;
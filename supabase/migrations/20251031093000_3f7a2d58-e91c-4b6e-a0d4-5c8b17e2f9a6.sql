@@ -0,0 +1,13 @@
+-- ============================================================
+-- TIMELINE: tasks get an optional start date so the project
+-- timeline can draw them as bars. Without one the bar is
+-- sized from the estimate and ends on the due date.
+-- ============================================================
+
+ALTER TABLE tasks ADD COLUMN start_date DATE;
+
+ALTER TABLE tasks ADD CONSTRAINT tasks_start_before_due
+  CHECK (start_date IS NULL OR due_date IS NULL OR start_date <= due_date);
+
+CREATE INDEX idx_tasks_project_schedule ON tasks(project_id, due_date)
+  WHERE deleted_at IS NULL;
@@ -0,0 +1,235 @@
+-- ============================================================
+-- RECURRING TASKS: a subset of iCalendar RRULE on top-level
+-- tasks. Supported parts:
+--   FREQ=DAILY|WEEKLY|MONTHLY  (required, first)
+--   INTERVAL=n                 every n days/weeks/months
+--   BYDAY=MO,TU,...            weekly: which weekdays
+--   BYMONTHDAY=n               monthly: day of the month,
+--                              clamped to short months
+--   UNTIL=YYYYMMDD             last possible occurrence
+-- Each instance spawns its successor once, when it's done or
+-- when the next occurrence date arrives, whichever is first.
+-- ============================================================
+
+ALTER TABLE tasks
+  ADD COLUMN recurrence_rule TEXT
+    CHECK (recurrence_rule ~ '^FREQ=(DAILY|WEEKLY|MONTHLY)(;(INTERVAL=[1-9][0-9]?|BYDAY=(MO|TU|WE|TH|FR|SA|SU)(,(MO|TU|WE|TH|FR|SA|SU))*|BYMONTHDAY=([1-9]|[12][0-9]|3[01])|UNTIL=[0-9]{8}))*$'),
+  -- First task of the series
+  ADD COLUMN recurrence_series_id UUID REFERENCES tasks(id) ON DELETE SET NULL,
+  -- Set once the following instance exists
+  ADD COLUMN next_instance_id UUID REFERENCES tasks(id) ON DELETE SET NULL;
+
+ALTER TABLE tasks ADD CONSTRAINT tasks_recurrence_top_level
+  CHECK (recurrence_rule IS NULL OR parent_task_id IS NULL);
+
+CREATE INDEX idx_tasks_recurring ON tasks(due_date)
+  WHERE recurrence_rule IS NOT NULL AND next_instance_id IS NULL AND deleted_at IS NULL;
+
+-- First occurrence strictly after p_after, or NULL past UNTIL.
+-- Keep in sync with nextOccurrence() in src/lib/recurrence.ts
+CREATE OR REPLACE FUNCTION public.next_recurrence_date(p_rule TEXT, p_after DATE)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_part TEXT;
+  v_freq TEXT;
+  v_interval INTEGER := 1;
+  v_days INTEGER[];
+  v_month_day INTEGER;
+  v_until DATE;
+  v_date DATE;
+  v_month DATE;
+BEGIN
+  FOREACH v_part IN ARRAY string_to_array(p_rule, ';') LOOP
+    CASE split_part(v_part, '=', 1)
+      WHEN 'FREQ' THEN v_freq := split_part(v_part, '=', 2);
+      WHEN 'INTERVAL' THEN v_interval := split_part(v_part, '=', 2)::INTEGER;
+      WHEN 'BYDAY' THEN
+        SELECT array_agg(array_position(ARRAY['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'], d))
+        INTO v_days
+        FROM unnest(string_to_array(split_part(v_part, '=', 2), ',')) AS d;
+      WHEN 'BYMONTHDAY' THEN v_month_day := split_part(v_part, '=', 2)::INTEGER;
+      WHEN 'UNTIL' THEN v_until := to_date(split_part(v_part, '=', 2), 'YYYYMMDD');
+      ELSE RAISE EXCEPTION 'Unsupported recurrence rule part: %', v_part;
+    END CASE;
+  END LOOP;
+
+  IF v_freq = 'DAILY' THEN
+    v_date := p_after + v_interval;
+
+  ELSIF v_freq = 'WEEKLY' THEN
+    v_days := COALESCE(v_days, ARRAY[EXTRACT(ISODOW FROM p_after)::INTEGER]);
+
+    -- Rest of the current week first
+    v_date := p_after + 1;
+    WHILE EXTRACT(ISODOW FROM v_date) <> 1 AND NOT (EXTRACT(ISODOW FROM v_date)::INTEGER = ANY(v_days)) LOOP
+      v_date := v_date + 1;
+    END LOOP;
+
+    IF EXTRACT(ISODOW FROM v_date) = 1 AND NOT (1 = ANY(v_days) AND v_interval = 1) THEN
+      -- v_date is the next Monday: jump to the week INTERVAL weeks on
+      v_date := v_date + 7 * (v_interval - 1);
+      WHILE NOT (EXTRACT(ISODOW FROM v_date)::INTEGER = ANY(v_days)) LOOP
+        v_date := v_date + 1;
+      END LOOP;
+    END IF;
+
+  ELSIF v_freq = 'MONTHLY' THEN
+    v_month_day := COALESCE(v_month_day, EXTRACT(DAY FROM p_after)::INTEGER);
+    v_month := date_trunc('month', p_after)::DATE;
+    v_date := v_month + LEAST(v_month_day, EXTRACT(DAY FROM v_month + INTERVAL '1 month - 1 day')::INTEGER) - 1;
+
+    IF v_date <= p_after THEN
+      v_month := (v_month + make_interval(months => v_interval))::DATE;
+      v_date := v_month + LEAST(v_month_day, EXTRACT(DAY FROM v_month + INTERVAL '1 month - 1 day')::INTEGER) - 1;
+    END IF;
+
+  ELSE
+    RAISE EXCEPTION 'Unsupported recurrence frequency: %', v_freq;
+  END IF;
+
+  IF v_until IS NOT NULL AND v_date > v_until THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_date;
+END;
+$$;
+
+-- Creates the instance after p_task_id. Occurrences missed while
+-- the task stayed open are skipped, so a late completion doesn't
+-- produce an already overdue task. Returns NULL when nothing was
+-- created (not recurring, already spawned, series over or the
+-- plan's task limit reached).
+CREATE OR REPLACE FUNCTION public.spawn_next_task_instance(p_task_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_due DATE;
+  v_new_id UUID;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id FOR UPDATE;
+
+  IF v_task.id IS NULL
+    OR v_task.recurrence_rule IS NULL
+    OR v_task.next_instance_id IS NOT NULL
+    OR v_task.deleted_at IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_due := next_recurrence_date(v_task.recurrence_rule, COALESCE(v_task.due_date, CURRENT_DATE));
+  WHILE v_due < CURRENT_DATE LOOP
+    v_due := next_recurrence_date(v_task.recurrence_rule, v_due);
+  END LOOP;
+
+  IF v_due IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  IF v_task.project_id IS NOT NULL AND NOT check_task_limit(v_task.organization_id, v_task.project_id) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO tasks (
+    organization_id, project_id, code, title, description, priority, task_type,
+    assigned_to, created_by, estimated_hours, start_date, due_date,
+    recurrence_rule, recurrence_series_id
+  )
+  VALUES (
+    v_task.organization_id,
+    v_task.project_id,
+    generate_task_code(v_task.organization_id, v_task.project_id, NULL),
+    v_task.title,
+    v_task.description,
+    v_task.priority,
+    v_task.task_type,
+    v_task.assigned_to,
+    v_task.created_by,
+    v_task.estimated_hours,
+    -- Keep the same lead time before the due date
+    v_due - (v_task.due_date - v_task.start_date),
+    v_due,
+    v_task.recurrence_rule,
+    COALESCE(v_task.recurrence_series_id, v_task.id)
+  )
+  RETURNING id INTO v_new_id;
+
+  INSERT INTO task_watchers (task_id, user_id)
+  SELECT v_new_id, user_id FROM task_watchers WHERE task_id = p_task_id
+  ON CONFLICT (task_id, user_id) DO NOTHING;
+
+  UPDATE tasks SET next_instance_id = v_new_id WHERE id = p_task_id;
+
+  RETURN v_new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.spawn_next_task_instance(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.spawn_next_instance_on_done()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  PERFORM spawn_next_task_instance(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER spawn_next_instance_on_done
+AFTER UPDATE ON tasks
+FOR EACH ROW
+WHEN (
+  NEW.recurrence_rule IS NOT NULL
+  AND NEW.next_instance_id IS NULL
+  AND NEW.status_category = 'done'
+  AND OLD.status_category IS DISTINCT FROM 'done'
+)
+EXECUTE FUNCTION spawn_next_instance_on_done();
+
+-- Open instances whose next occurrence has arrived
+CREATE OR REPLACE FUNCTION public.spawn_due_recurring_tasks()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_task_id UUID;
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_task_id IN
+    SELECT id FROM tasks
+    WHERE recurrence_rule IS NOT NULL
+      AND next_instance_id IS NULL
+      AND deleted_at IS NULL
+      AND status_category <> 'archived'
+      AND next_recurrence_date(recurrence_rule, COALESCE(due_date, created_at::DATE)) <= CURRENT_DATE
+  LOOP
+    IF spawn_next_task_instance(v_task_id) IS NOT NULL THEN
+      v_count := v_count + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.spawn_due_recurring_tasks() FROM PUBLIC, anon, authenticated;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.schedule(
+  'spawn-recurring-tasks',
+  '10 0 * * *',
+  $$ SELECT public.spawn_due_recurring_tasks(); $$
+);
@@ -0,0 +1,352 @@
+-- ============================================================
+-- TEMPLATES: reusable task trees captured from real work.
+-- Project templates hold every top-level task of a project
+-- with its subtasks plus the assigned teams; task templates
+-- hold one task and its subtasks. Dates are stored as day
+-- offsets from the source's start and replayed from the date
+-- the template is used on.
+-- ============================================================
+
+CREATE TABLE templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('project', 'task')),
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_templates_org ON templates(organization_id, kind);
+
+CREATE TRIGGER update_templates_updated_at
+BEFORE UPDATE ON templates
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE template_tasks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES template_tasks(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  title TEXT NOT NULL,
+  description TEXT,
+  task_type TEXT NOT NULL,
+  priority TEXT NOT NULL,
+  estimated_hours NUMERIC,
+  start_offset_days INTEGER,
+  due_offset_days INTEGER
+);
+
+CREATE INDEX idx_template_tasks_template ON template_tasks(template_id);
+
+CREATE TABLE template_teams (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  template_id UUID NOT NULL REFERENCES templates(id) ON DELETE CASCADE,
+  team_id UUID NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+
+  UNIQUE (template_id, team_id)
+);
+
+-- ============================================================
+-- RLS: the organization sees its templates; they're written
+-- by the functions below and removed by their creator or an
+-- admin/manager
+-- ============================================================
+
+ALTER TABLE templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE template_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE template_teams ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY templates_select_org ON templates
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY templates_update_creator_or_managers ON templates
+FOR UPDATE
+USING (
+  created_by = auth.uid()
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY templates_delete_creator_or_managers ON templates
+FOR DELETE
+USING (
+  created_by = auth.uid()
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+);
+
+CREATE POLICY template_tasks_select_org ON template_tasks
+FOR SELECT
+USING (
+  template_id IN (
+    SELECT id FROM templates
+    WHERE organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+    )
+  )
+);
+
+CREATE POLICY template_teams_select_org ON template_teams
+FOR SELECT
+USING (
+  template_id IN (
+    SELECT id FROM templates
+    WHERE organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+    )
+  )
+);
+
+-- ============================================================
+-- CAPTURE
+-- ============================================================
+
+-- Copies one task and its subtasks into a template
+CREATE OR REPLACE FUNCTION public.add_task_to_template(
+  p_template_id UUID,
+  p_task_id UUID,
+  p_base_date DATE,
+  p_position INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_root_id UUID;
+BEGIN
+  INSERT INTO template_tasks (
+    template_id, position, title, description, task_type, priority,
+    estimated_hours, start_offset_days, due_offset_days
+  )
+  SELECT p_template_id, p_position, t.title, t.description, t.task_type, t.priority,
+    t.estimated_hours, t.start_date - p_base_date, t.due_date - p_base_date
+  FROM tasks t
+  WHERE t.id = p_task_id
+  RETURNING id INTO v_root_id;
+
+  INSERT INTO template_tasks (
+    template_id, parent_id, position, title, description, task_type, priority,
+    estimated_hours, start_offset_days, due_offset_days
+  )
+  SELECT p_template_id, v_root_id,
+    ROW_NUMBER() OVER (ORDER BY t.code) - 1,
+    t.title, t.description, t.task_type, t.priority,
+    t.estimated_hours, t.start_date - p_base_date, t.due_date - p_base_date
+  FROM tasks t
+  WHERE t.parent_task_id = p_task_id
+    AND t.deleted_at IS NULL
+    AND t.status <> 'archived';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_task_to_template(UUID, UUID, DATE, INTEGER) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.save_project_as_template(
+  p_project_id UUID,
+  p_name TEXT,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_project projects%ROWTYPE;
+  v_template_id UUID;
+  v_task RECORD;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id AND deleted_at IS NULL;
+
+  IF v_project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF NOT can_manage_project(auth.uid(), p_project_id) THEN
+    RAISE EXCEPTION 'Only admins, managers and tech leads can save a project as a template';
+  END IF;
+
+  INSERT INTO templates (organization_id, kind, name, description, created_by)
+  VALUES (v_project.organization_id, 'project', trim(p_name), NULLIF(trim(p_description), ''), auth.uid())
+  RETURNING id INTO v_template_id;
+
+  FOR v_task IN
+    SELECT id, ROW_NUMBER() OVER (ORDER BY code) - 1 AS position
+    FROM tasks
+    WHERE project_id = p_project_id
+      AND parent_task_id IS NULL
+      AND deleted_at IS NULL
+      AND status <> 'archived'
+  LOOP
+    PERFORM add_task_to_template(
+      v_template_id,
+      v_task.id,
+      COALESCE(v_project.start_date, v_project.created_at::DATE),
+      v_task.position::INTEGER
+    );
+  END LOOP;
+
+  INSERT INTO template_teams (template_id, team_id)
+  SELECT v_template_id, team_id FROM project_teams WHERE project_id = p_project_id;
+
+  RETURN v_template_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.save_task_as_template(
+  p_task_id UUID,
+  p_name TEXT,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_task tasks%ROWTYPE;
+  v_template_id UUID;
+BEGIN
+  SELECT * INTO v_task FROM tasks WHERE id = p_task_id AND deleted_at IS NULL;
+
+  IF v_task.id IS NULL OR v_task.organization_id NOT IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF v_task.parent_task_id IS NOT NULL THEN
+    RAISE EXCEPTION 'Save the parent task as a template instead';
+  END IF;
+
+  INSERT INTO templates (organization_id, kind, name, description, created_by)
+  VALUES (v_task.organization_id, 'task', trim(p_name), NULLIF(trim(p_description), ''), auth.uid())
+  RETURNING id INTO v_template_id;
+
+  PERFORM add_task_to_template(
+    v_template_id,
+    p_task_id,
+    COALESCE(v_task.start_date, v_task.created_at::DATE),
+    0
+  );
+
+  RETURN v_template_id;
+END;
+$$;
+
+-- ============================================================
+-- INSTANTIATE: creates the template's tasks in a project (or
+-- as personal tasks) with dates offset from p_base_date.
+-- Teams of project templates are applied by the caller, which
+-- lets the user adjust them first. Returns the first new
+-- top-level task.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.instantiate_template(
+  p_template_id UUID,
+  p_project_id UUID,
+  p_base_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_template templates%ROWTYPE;
+  v_root RECORD;
+  v_child RECORD;
+  v_root_task_id UUID;
+  v_first_id UUID;
+BEGIN
+  SELECT * INTO v_template FROM templates WHERE id = p_template_id;
+
+  IF v_template.id IS NULL OR v_template.organization_id NOT IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  IF p_project_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = p_project_id
+      AND organization_id = v_template.organization_id
+      AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  FOR v_root IN
+    SELECT * FROM template_tasks
+    WHERE template_id = p_template_id AND parent_id IS NULL
+    ORDER BY position
+  LOOP
+    IF p_project_id IS NOT NULL AND NOT check_task_limit(v_template.organization_id, p_project_id) THEN
+      RAISE EXCEPTION 'Free plan allows max 50 tasks per project';
+    END IF;
+
+    INSERT INTO tasks (
+      organization_id, project_id, code, title, description, task_type, priority,
+      estimated_hours, start_date, due_date, created_by
+    )
+    VALUES (
+      v_template.organization_id,
+      p_project_id,
+      generate_task_code(v_template.organization_id, p_project_id, NULL),
+      v_root.title,
+      v_root.description,
+      v_root.task_type,
+      v_root.priority,
+      v_root.estimated_hours,
+      p_base_date + v_root.start_offset_days,
+      p_base_date + v_root.due_offset_days,
+      auth.uid()
+    )
+    RETURNING id INTO v_root_task_id;
+
+    v_first_id := COALESCE(v_first_id, v_root_task_id);
+    PERFORM add_watchers(v_root_task_id, ARRAY[auth.uid()]);
+
+    FOR v_child IN
+      SELECT * FROM template_tasks
+      WHERE parent_id = v_root.id
+      ORDER BY position
+    LOOP
+      INSERT INTO tasks (
+        organization_id, project_id, parent_task_id, code, title, description, task_type,
+        priority, estimated_hours, start_date, due_date, created_by
+      )
+      VALUES (
+        v_template.organization_id,
+        p_project_id,
+        v_root_task_id,
+        generate_task_code(v_template.organization_id, p_project_id, v_root_task_id),
+        v_child.title,
+        v_child.description,
+        v_child.task_type,
+        v_child.priority,
+        v_child.estimated_hours,
+        p_base_date + v_child.start_offset_days,
+        p_base_date + v_child.due_offset_days,
+        auth.uid()
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN v_first_id;
+END;
+$$;
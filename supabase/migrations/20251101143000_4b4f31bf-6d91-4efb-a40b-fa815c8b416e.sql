@@ -0,0 +1,168 @@
+-- ============================================================
+-- BULK TASK UPDATES: applies one set of changes to many tasks
+-- in a single transaction. Any task that can't take the change
+-- (permissions, workflow rules, WIP limits, blockers) rolls
+-- back the whole batch. Each changed task gets its own audit
+-- log entry.
+--
+-- p_changes keys, all optional:
+--   status, priority, assigned_to, project_id, due_date
+--       set the column; JSON null clears the nullable ones
+--   add_watchers   array of user ids
+--   delete         true soft-deletes the tasks
+-- Moving or deleting a top-level task takes its subtasks along.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(
+  p_task_ids UUID[],
+  p_changes JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_key TEXT;
+  v_task tasks%ROWTYPE;
+  v_new tasks%ROWTYPE;
+  v_selected BOOLEAN;
+  v_moving BOOLEAN := p_changes ? 'project_id';
+  v_deleting BOOLEAN := COALESCE((p_changes->>'delete')::BOOLEAN, false);
+  v_project_id UUID := (p_changes->>'project_id')::UUID;
+  v_status TEXT;
+  v_watchers UUID[];
+  v_count INTEGER := 0;
+  v_ip_address INET;
+  v_user_agent TEXT;
+BEGIN
+  FOR v_key IN SELECT jsonb_object_keys(p_changes) LOOP
+    IF v_key NOT IN ('status', 'priority', 'assigned_to', 'project_id', 'due_date', 'add_watchers', 'delete') THEN
+      RAISE EXCEPTION 'Unknown bulk change "%"', v_key;
+    END IF;
+  END LOOP;
+
+  IF p_changes ? 'add_watchers' THEN
+    SELECT array_agg(value::UUID) INTO v_watchers
+    FROM jsonb_array_elements_text(p_changes->'add_watchers');
+  END IF;
+
+  IF (SELECT COUNT(*) FROM tasks WHERE id = ANY(p_task_ids) AND deleted_at IS NULL)
+    <> cardinality(p_task_ids) THEN
+    RAISE EXCEPTION 'Some of the selected tasks no longer exist. Refresh and try again.';
+  END IF;
+
+  IF v_moving AND EXISTS (
+    SELECT 1 FROM tasks
+    WHERE id = ANY(p_task_ids)
+      AND parent_task_id IS NOT NULL
+      AND NOT parent_task_id = ANY(p_task_ids)
+  ) THEN
+    RAISE EXCEPTION 'Subtasks move with their parent task. Move the parent instead.';
+  END IF;
+
+  IF v_moving AND v_project_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = v_project_id
+      AND deleted_at IS NULL
+      AND organization_id = (SELECT organization_id FROM tasks WHERE id = p_task_ids[1])
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  BEGIN
+    v_ip_address := NULLIF(current_setting('request.headers', true)::json->>'x-forwarded-for', '')::INET;
+  EXCEPTION WHEN OTHERS THEN
+    v_ip_address := NULL;
+  END;
+
+  BEGIN
+    v_user_agent := current_setting('request.headers', true)::json->>'user-agent';
+  EXCEPTION WHEN OTHERS THEN
+    v_user_agent := NULL;
+  END;
+
+  -- Selected tasks first, then the subtasks they take along
+  FOR v_task IN
+    SELECT * FROM tasks
+    WHERE deleted_at IS NULL
+      AND (
+        id = ANY(p_task_ids)
+        OR ((v_moving OR v_deleting) AND parent_task_id = ANY(p_task_ids))
+      )
+    ORDER BY (id = ANY(p_task_ids)) DESC, code
+  LOOP
+    v_selected := v_task.id = ANY(p_task_ids);
+
+    IF v_deleting AND v_selected AND v_task.created_by <> auth.uid() AND NOT EXISTS (
+      SELECT 1 FROM team_members tm
+      JOIN project_teams pt ON tm.team_id = pt.team_id
+      WHERE pt.project_id = v_task.project_id
+        AND tm.user_id = auth.uid()
+        AND tm.team_role = 'tech_lead'
+    ) THEN
+      RAISE EXCEPTION '%: only the creator or a tech lead can delete this task', v_task.code;
+    END IF;
+
+    v_status := v_task.status;
+    IF v_selected AND p_changes ? 'status' THEN
+      v_status := p_changes->>'status';
+    ELSIF v_moving AND v_status <> 'archived' AND NOT EXISTS (
+      SELECT 1 FROM project_workflow_statuses(v_project_id) ws WHERE ws.key = v_status
+    ) THEN
+      -- Keep the task's progress in a workflow without its status
+      SELECT ws.key INTO v_status
+      FROM project_workflow_statuses(v_project_id) ws
+      ORDER BY (ws.category <> v_task.status_category), ws.position
+      LIMIT 1;
+    END IF;
+
+    BEGIN
+      UPDATE tasks SET
+        status = v_status,
+        priority = CASE WHEN v_selected AND p_changes ? 'priority' THEN p_changes->>'priority' ELSE priority END,
+        assigned_to = CASE WHEN v_selected AND p_changes ? 'assigned_to' THEN (p_changes->>'assigned_to')::UUID ELSE assigned_to END,
+        due_date = CASE WHEN v_selected AND p_changes ? 'due_date' THEN (p_changes->>'due_date')::DATE ELSE due_date END,
+        project_id = CASE WHEN v_moving THEN v_project_id ELSE project_id END,
+        deleted_at = CASE WHEN v_deleting THEN NOW() ELSE deleted_at END
+      WHERE id = v_task.id
+      RETURNING * INTO v_new;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION '%: %', v_task.code, SQLERRM;
+    END;
+
+    IF v_new.id IS NULL THEN
+      RAISE EXCEPTION '%: you don''t have permission to edit this task', v_task.code;
+    END IF;
+
+    IF v_selected AND v_watchers IS NOT NULL THEN
+      PERFORM add_watchers(v_task.id, v_watchers);
+    END IF;
+
+    IF v_selected AND v_new.assigned_to IS NOT NULL
+      AND v_new.assigned_to IS DISTINCT FROM v_task.assigned_to THEN
+      PERFORM add_watchers(v_task.id, ARRAY[v_new.assigned_to]);
+    END IF;
+
+    INSERT INTO audit_logs (
+      organization_id, user_id, action, table_name, record_id,
+      old_values, new_values, ip_address, user_agent
+    ) VALUES (
+      v_task.organization_id,
+      auth.uid(),
+      'UPDATE',
+      'tasks',
+      v_task.id,
+      redact_sensitive_fields(to_jsonb(v_task)),
+      redact_sensitive_fields(to_jsonb(v_new)),
+      v_ip_address,
+      v_user_agent
+    );
+
+    v_new.id := NULL;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
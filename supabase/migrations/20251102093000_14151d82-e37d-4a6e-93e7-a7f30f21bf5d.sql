@@ -0,0 +1,83 @@
+-- ============================================================
+-- TASK VIEWS: saved filters for the task list together with
+-- the list's columns, sort and grouping. Personal views are
+-- only visible to their creator; shared views to the whole
+-- organization. The filter format is owned by the client
+-- (src/lib/taskViews.ts) and stored as-is.
+-- ============================================================
+
+CREATE TABLE task_views (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (char_length(name) BETWEEN 1 AND 100),
+  visibility TEXT NOT NULL DEFAULT 'personal' CHECK (visibility IN ('personal', 'shared')),
+  filters JSONB NOT NULL DEFAULT '[]'::jsonb,
+  columns TEXT[] NOT NULL DEFAULT ARRAY['code', 'title', 'status', 'priority', 'assignee', 'due_date'],
+  sort JSONB NOT NULL DEFAULT '{"field": "code", "direction": "asc"}'::jsonb,
+  group_by TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_task_views_org ON task_views(organization_id, visibility);
+CREATE INDEX idx_task_views_creator ON task_views(created_by);
+
+CREATE TRIGGER update_task_views_updated_at
+BEFORE UPDATE ON task_views
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- RLS: creators manage their views; admins and managers can
+-- also edit or remove shared ones
+-- ============================================================
+
+ALTER TABLE task_views ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY task_views_select_own_or_shared ON task_views
+FOR SELECT
+USING (
+  created_by = auth.uid()
+  OR (
+    visibility = 'shared'
+    AND organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+    )
+  )
+);
+
+CREATE POLICY task_views_insert_own ON task_views
+FOR INSERT
+WITH CHECK (
+  created_by = auth.uid()
+  AND organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY task_views_update_creator_or_managers ON task_views
+FOR UPDATE
+USING (
+  created_by = auth.uid()
+  OR (
+    visibility = 'shared'
+    AND organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+      WHERE role IN ('admin', 'manager')
+    )
+  )
+);
+
+CREATE POLICY task_views_delete_creator_or_managers ON task_views
+FOR DELETE
+USING (
+  created_by = auth.uid()
+  OR (
+    visibility = 'shared'
+    AND organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+      WHERE role IN ('admin', 'manager')
+    )
+  )
+);
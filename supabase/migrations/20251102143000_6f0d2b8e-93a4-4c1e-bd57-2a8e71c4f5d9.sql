@@ -0,0 +1,205 @@
+-- ============================================================
+-- GLOBAL SEARCH: full-text search behind the command palette.
+-- Expression indexes leave the tables untouched; the queries in
+-- search_everything() must repeat the exact same expressions
+-- (and partial index predicates) for the planner to use them.
+-- The 'simple' configuration is used because content is a mix
+-- of Portuguese and English and task codes must not be stemmed.
+-- ============================================================
+
+CREATE INDEX idx_tasks_search ON tasks USING GIN (
+  to_tsvector('simple', code || ' ' || title || ' ' || coalesce(description, ''))
+) WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_projects_search ON projects USING GIN (
+  to_tsvector('simple', code || ' ' || name || ' ' || coalesce(description, ''))
+) WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_teams_search ON teams USING GIN (
+  to_tsvector('simple', name || ' ' || coalesce(description, ''))
+) WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_task_comments_search ON task_comments USING GIN (
+  to_tsvector('simple', content)
+) WHERE deleted_at IS NULL;
+
+CREATE INDEX idx_time_entries_search ON time_entries USING GIN (
+  to_tsvector('simple', coalesce(description, ''))
+) WHERE deleted_at IS NULL;
+
+-- ============================================================
+-- Turns free text typed in the palette into a prefix query:
+-- "proj-12 login" -> 'proj':* & '12':* & 'login':*
+-- Punctuation is dropped so user input can't break tsquery syntax.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION search_tsquery(p_query TEXT)
+RETURNS tsquery
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT to_tsquery('simple', string_agg(term || ':*', ' & '))
+  FROM regexp_split_to_table(
+    lower(trim(regexp_replace(coalesce(p_query, ''), '[^[:alnum:]]+', ' ', 'g'))),
+    '\s+'
+  ) AS term
+  WHERE term <> '';
+$$;
+
+-- ============================================================
+-- Searches tasks, projects, teams, members, comments and time
+-- entry descriptions of one organization, returning at most
+-- p_limit hits per kind ordered by rank. Runs as the caller so
+-- RLS decides what is visible (e.g. other people's time entries
+-- only for admins and managers).
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION search_everything(
+  p_org_id UUID,
+  p_query TEXT,
+  p_limit INTEGER DEFAULT 5
+)
+RETURNS TABLE (
+  kind TEXT,
+  id UUID,
+  code TEXT,
+  title TEXT,
+  subtitle TEXT,
+  task_id UUID,
+  project_id UUID,
+  rank REAL
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_query tsquery := search_tsquery(p_query);
+  v_text TEXT := trim(coalesce(p_query, ''));
+  v_pattern TEXT;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid()) uo
+    WHERE uo.organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'You are not a member of this organization';
+  END IF;
+
+  IF v_query IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_pattern := '%' || replace(replace(replace(v_text, '\', '\\'), '%', '\%'), '_', '\_') || '%';
+
+  -- Tasks: typing a code ("PROJ-12") puts matching codes first
+  RETURN QUERY
+  SELECT
+    'task'::TEXT,
+    t.id,
+    t.code,
+    t.title,
+    p.name,
+    t.id,
+    t.project_id,
+    (CASE WHEN t.code ILIKE v_text || '%' THEN 1 ELSE 0 END
+      + ts_rank(to_tsvector('simple', t.code || ' ' || t.title || ' ' || coalesce(t.description, '')), v_query))::REAL
+  FROM tasks t
+  LEFT JOIN projects p ON p.id = t.project_id
+  WHERE t.organization_id = p_org_id
+    AND t.deleted_at IS NULL
+    AND to_tsvector('simple', t.code || ' ' || t.title || ' ' || coalesce(t.description, '')) @@ v_query
+  ORDER BY 8 DESC, t.updated_at DESC NULLS LAST
+  LIMIT p_limit;
+
+  RETURN QUERY
+  SELECT
+    'project'::TEXT,
+    p.id,
+    p.code,
+    p.name,
+    p.description,
+    NULL::UUID,
+    p.id,
+    (CASE WHEN p.code ILIKE v_text || '%' THEN 1 ELSE 0 END
+      + ts_rank(to_tsvector('simple', p.code || ' ' || p.name || ' ' || coalesce(p.description, '')), v_query))::REAL
+  FROM projects p
+  WHERE p.organization_id = p_org_id
+    AND p.deleted_at IS NULL
+    AND to_tsvector('simple', p.code || ' ' || p.name || ' ' || coalesce(p.description, '')) @@ v_query
+  ORDER BY 8 DESC, p.name
+  LIMIT p_limit;
+
+  RETURN QUERY
+  SELECT
+    'team'::TEXT,
+    tm.id,
+    NULL::TEXT,
+    tm.name,
+    tm.description,
+    NULL::UUID,
+    NULL::UUID,
+    ts_rank(to_tsvector('simple', tm.name || ' ' || coalesce(tm.description, '')), v_query)::REAL
+  FROM teams tm
+  WHERE tm.organization_id = p_org_id
+    AND tm.deleted_at IS NULL
+    AND to_tsvector('simple', tm.name || ' ' || coalesce(tm.description, '')) @@ v_query
+  ORDER BY 8 DESC, tm.name
+  LIMIT p_limit;
+
+  -- Members have no searchable text besides their e-mail
+  RETURN QUERY
+  SELECT
+    'member'::TEXT,
+    m.user_id,
+    NULL::TEXT,
+    m.email,
+    m.role,
+    NULL::UUID,
+    NULL::UUID,
+    (CASE WHEN m.email ILIKE v_text || '%' THEN 1 ELSE 0.5 END)::REAL
+  FROM get_org_members_with_emails(p_org_id) m
+  WHERE m.email ILIKE v_pattern
+  ORDER BY 8 DESC, m.email
+  LIMIT p_limit;
+
+  RETURN QUERY
+  SELECT
+    'comment'::TEXT,
+    c.id,
+    t.code,
+    left(c.content, 140),
+    t.title,
+    t.id,
+    t.project_id,
+    ts_rank(to_tsvector('simple', c.content), v_query)::REAL
+  FROM task_comments c
+  JOIN tasks t ON t.id = c.task_id
+  WHERE t.organization_id = p_org_id
+    AND t.deleted_at IS NULL
+    AND c.deleted_at IS NULL
+    AND to_tsvector('simple', c.content) @@ v_query
+  ORDER BY 8 DESC, c.created_at DESC
+  LIMIT p_limit;
+
+  RETURN QUERY
+  SELECT
+    'time_entry'::TEXT,
+    te.id,
+    t.code,
+    te.description,
+    coalesce(t.title, p.name),
+    te.task_id,
+    te.project_id,
+    ts_rank(to_tsvector('simple', coalesce(te.description, '')), v_query)::REAL
+  FROM time_entries te
+  LEFT JOIN tasks t ON t.id = te.task_id
+  LEFT JOIN projects p ON p.id = te.project_id
+  WHERE te.organization_id = p_org_id
+    AND te.deleted_at IS NULL
+    AND to_tsvector('simple', coalesce(te.description, '')) @@ v_query
+  ORDER BY 8 DESC, te.start_time DESC
+  LIMIT p_limit;
+END;
+$$;
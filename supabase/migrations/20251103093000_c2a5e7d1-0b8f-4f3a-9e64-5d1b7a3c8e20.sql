@@ -0,0 +1,360 @@
+-- ============================================================
+-- NOTIFICATIONS: in-app inbox filled by triggers. Rows are only
+-- written by the SECURITY DEFINER trigger functions below;
+-- recipients can read them, mark them read and delete them.
+-- ============================================================
+
+CREATE TABLE notifications (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  type TEXT NOT NULL CHECK (type IN (
+    'mention',
+    'assigned',
+    'status_changed',
+    'timesheet_submitted',
+    'timesheet_approved',
+    'timesheet_rejected',
+    'member_joined'
+  )),
+  title TEXT NOT NULL,
+  body TEXT,
+  -- App path to open, e.g. /tasks/<id> or /timesheets?week=2025-11-03
+  link TEXT,
+  task_id UUID REFERENCES tasks(id) ON DELETE CASCADE,
+  timesheet_id UUID REFERENCES timesheets(id) ON DELETE CASCADE,
+  read_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_user ON notifications(user_id, organization_id, created_at DESC);
+CREATE INDEX idx_notifications_unread ON notifications(user_id, organization_id) WHERE read_at IS NULL;
+
+ALTER TABLE notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY notifications_select_own ON notifications
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY notifications_update_own ON notifications
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY notifications_delete_own ON notifications
+FOR DELETE
+USING (user_id = auth.uid());
+
+-- Broadcast new rows so the bell updates without polling
+ALTER TABLE notifications REPLICA IDENTITY FULL;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- ============================================================
+-- FUNCTION: create_notifications
+-- Fans one notification out to several recipients. The acting
+-- user is never notified about their own change, and people
+-- who left the organization are skipped.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION create_notifications(
+  p_org_id UUID,
+  p_user_ids UUID[],
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT,
+  p_link TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_timesheet_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO notifications (
+    organization_id, user_id, actor_id, type, title, body, link, task_id, timesheet_id
+  )
+  SELECT DISTINCT
+    p_org_id, uo.user_id, auth.uid(), p_type, p_title, left(p_body, 500), p_link, p_task_id, p_timesheet_id
+  FROM user_organizations uo
+  WHERE uo.organization_id = p_org_id
+    AND uo.user_id = ANY(p_user_ids)
+    AND uo.user_id IS DISTINCT FROM auth.uid();
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_notifications(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- FUNCTION: extract_mentions
+-- The original only kept the first match (regexp_matches with
+-- 'g' returns one row per match) and kept trailing punctuation,
+-- so "@ana@acme.com." never resolved.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION extract_mentions(p_content TEXT)
+RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_mention TEXT;
+  v_user_id UUID;
+  v_user_ids UUID[] := ARRAY[]::UUID[];
+BEGIN
+  FOR v_mention IN
+    SELECT rtrim(m[1], '.-') FROM regexp_matches(coalesce(p_content, ''), '@([\w.-]+@[\w.-]+|\w+)', 'g') AS m
+  LOOP
+    SELECT id INTO v_user_id
+    FROM auth.users
+    WHERE lower(email) = lower(v_mention)
+       OR raw_user_meta_data->>'username' = v_mention
+    LIMIT 1;
+
+    IF v_user_id IS NOT NULL AND NOT v_user_id = ANY(v_user_ids) THEN
+      v_user_ids := array_append(v_user_ids, v_user_id);
+    END IF;
+  END LOOP;
+
+  RETURN v_user_ids;
+END;
+$$;
+
+-- ============================================================
+-- TRIGGERS: task_comments
+-- mentioned_users was never filled in by the client; derive it
+-- from the content, then notify people mentioned for the first
+-- time (edits don't re-notify).
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION set_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  NEW.mentioned_users := extract_mentions(NEW.content);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER task_comments_set_mentions
+BEFORE INSERT OR UPDATE OF content ON task_comments
+FOR EACH ROW
+EXECUTE FUNCTION set_comment_mentions();
+
+CREATE OR REPLACE FUNCTION notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_task RECORD;
+  v_new_mentions UUID[];
+BEGIN
+  SELECT ARRAY(
+    SELECT unnest(coalesce(NEW.mentioned_users, ARRAY[]::UUID[]))
+    EXCEPT
+    SELECT unnest(CASE WHEN TG_OP = 'UPDATE' THEN coalesce(OLD.mentioned_users, ARRAY[]::UUID[]) ELSE ARRAY[]::UUID[] END)
+  ) INTO v_new_mentions;
+
+  IF cardinality(v_new_mentions) = 0 OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT id, organization_id, code INTO v_task FROM tasks WHERE id = NEW.task_id;
+
+  PERFORM create_notifications(
+    v_task.organization_id,
+    v_new_mentions,
+    'mention',
+    coalesce(get_user_email(NEW.user_id), 'Someone') || ' mentioned you on ' || v_task.code,
+    NEW.content,
+    '/tasks/' || v_task.id,
+    v_task.id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER task_comments_notify_mentions
+AFTER INSERT OR UPDATE OF content ON task_comments
+FOR EACH ROW
+EXECUTE FUNCTION notify_comment_mentions();
+
+-- ============================================================
+-- TRIGGERS: tasks
+-- Assignees hear about new assignments; watchers hear about
+-- status changes. Both fire for bulk updates as well.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION notify_task_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_actor TEXT := coalesce(get_user_email(auth.uid()), 'Someone');
+  v_status_name TEXT;
+  v_watchers UUID[];
+BEGIN
+  IF NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.assigned_to IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.assigned_to IS DISTINCT FROM OLD.assigned_to) THEN
+    PERFORM create_notifications(
+      NEW.organization_id,
+      ARRAY[NEW.assigned_to],
+      'assigned',
+      v_actor || ' assigned you ' || NEW.code,
+      NEW.title,
+      '/tasks/' || NEW.id,
+      NEW.id
+    );
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS DISTINCT FROM OLD.status THEN
+    SELECT array_agg(user_id) INTO v_watchers FROM task_watchers WHERE task_id = NEW.id;
+
+    IF v_watchers IS NOT NULL THEN
+      SELECT s.name INTO v_status_name
+      FROM project_workflow_statuses(NEW.project_id) s
+      WHERE s.key = NEW.status;
+
+      PERFORM create_notifications(
+        NEW.organization_id,
+        v_watchers,
+        'status_changed',
+        v_actor || ' moved ' || NEW.code || ' to ' || coalesce(v_status_name, NEW.status),
+        NEW.title,
+        '/tasks/' || NEW.id,
+        NEW.id
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER tasks_notify_changes
+AFTER INSERT OR UPDATE OF assigned_to, status ON tasks
+FOR EACH ROW
+EXECUTE FUNCTION notify_task_changes();
+
+-- ============================================================
+-- TRIGGERS: timesheets
+-- Submissions go to the tech leads of the submitter's teams, or
+-- to admins and managers when the submitter has none. Reviews go
+-- back to the timesheet's owner.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION notify_timesheet_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_week TEXT := to_char(NEW.week_start_date, 'Mon DD, YYYY');
+  v_reviewers UUID[];
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'submitted' THEN
+    SELECT array_agg(DISTINCT lead.user_id) INTO v_reviewers
+    FROM team_members own
+    JOIN teams t ON t.id = own.team_id AND t.organization_id = NEW.organization_id AND t.deleted_at IS NULL
+    JOIN team_members lead ON lead.team_id = own.team_id AND lead.team_role = 'tech_lead'
+    WHERE own.user_id = NEW.user_id;
+
+    IF v_reviewers IS NULL OR v_reviewers = ARRAY[NEW.user_id] THEN
+      SELECT array_agg(user_id) INTO v_reviewers
+      FROM user_organizations
+      WHERE organization_id = NEW.organization_id
+        AND role IN ('admin', 'manager');
+    END IF;
+
+    PERFORM create_notifications(
+      NEW.organization_id,
+      coalesce(v_reviewers, ARRAY[]::UUID[]),
+      'timesheet_submitted',
+      coalesce(get_user_email(NEW.user_id), 'Someone') || ' submitted a timesheet for review',
+      'Week of ' || v_week || ' · ' || coalesce(round(NEW.total_hours, 1), 0) || 'h',
+      '/timesheets/approvals',
+      NULL,
+      NEW.id
+    );
+  ELSIF NEW.status IN ('approved', 'rejected') THEN
+    PERFORM create_notifications(
+      NEW.organization_id,
+      ARRAY[NEW.user_id],
+      'timesheet_' || NEW.status,
+      'Your timesheet for the week of ' || v_week || ' was ' || NEW.status,
+      CASE WHEN NEW.status = 'rejected' THEN NEW.rejection_reason END,
+      '/timesheets?week=' || to_char(NEW.week_start_date, 'YYYY-MM-DD'),
+      NULL,
+      NEW.id
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER timesheets_notify_status
+AFTER UPDATE OF status ON timesheets
+FOR EACH ROW
+EXECUTE FUNCTION notify_timesheet_status();
+
+-- ============================================================
+-- TRIGGERS: user_organizations
+-- Admins hear when someone joins through an invite. The founding
+-- admin row of a new organization has nobody to notify.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION notify_member_joined()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_admins UUID[];
+BEGIN
+  SELECT array_agg(user_id) INTO v_admins
+  FROM user_organizations
+  WHERE organization_id = NEW.organization_id
+    AND role = 'admin'
+    AND user_id <> NEW.user_id;
+
+  IF v_admins IS NOT NULL THEN
+    PERFORM create_notifications(
+      NEW.organization_id,
+      v_admins,
+      'member_joined',
+      coalesce(get_user_email(NEW.user_id), 'A new member') || ' joined the organization',
+      NULL,
+      '/settings/teams'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER user_organizations_notify_joined
+AFTER INSERT ON user_organizations
+FOR EACH ROW
+EXECUTE FUNCTION notify_member_joined();
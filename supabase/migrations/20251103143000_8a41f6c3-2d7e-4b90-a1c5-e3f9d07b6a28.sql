@@ -0,0 +1,244 @@
+-- ============================================================
+-- NOTIFICATION PREFERENCES: per member and organization, which
+-- channels each event type uses, and how often the email digest
+-- is sent. Missing entries in `channels` fall back to the
+-- defaults in notification_channel_enabled().
+-- ============================================================
+
+CREATE TABLE notification_preferences (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- {"mention": {"in_app": true, "email": false}, "overdue": {"email": true}, ...}
+  channels JSONB NOT NULL DEFAULT '{}'::JSONB,
+  -- Digest time in the organization's timezone
+  digest_frequency TEXT NOT NULL DEFAULT 'off' CHECK (digest_frequency IN ('off', 'daily', 'weekly')),
+  digest_weekday SMALLINT NOT NULL DEFAULT 1 CHECK (digest_weekday BETWEEN 0 AND 6), -- 0 = Sunday
+  digest_hour SMALLINT NOT NULL DEFAULT 8 CHECK (digest_hour BETWEEN 0 AND 23),
+  next_digest_at TIMESTAMPTZ,
+  last_digest_at TIMESTAMPTZ,
+  last_digest_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (user_id, organization_id)
+);
+
+CREATE INDEX idx_notification_preferences_due ON notification_preferences(next_digest_at)
+  WHERE digest_frequency <> 'off';
+
+CREATE TRIGGER update_notification_preferences_updated_at
+BEFORE UPDATE ON notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY notification_preferences_select_own ON notification_preferences
+FOR SELECT
+USING (user_id = auth.uid());
+
+CREATE POLICY notification_preferences_insert_own ON notification_preferences
+FOR INSERT
+WITH CHECK (
+  user_id = auth.uid()
+  AND organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
+
+CREATE POLICY notification_preferences_update_own ON notification_preferences
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY notification_preferences_delete_own ON notification_preferences
+FOR DELETE
+USING (user_id = auth.uid());
+
+-- Defaults mirror NOTIFICATION_EVENTS in src/lib/notificationPreferences.ts:
+-- activity shows up in-app only, digest sections are emailed once the
+-- digest itself is turned on
+CREATE OR REPLACE FUNCTION notification_channel_enabled(
+  p_channels JSONB,
+  p_type TEXT,
+  p_channel TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT coalesce(
+    (p_channels -> p_type ->> p_channel)::BOOLEAN,
+    CASE
+      WHEN p_channel = 'in_app' THEN true
+      ELSE p_type IN ('due_soon', 'overdue', 'pending_approvals', 'unsubmitted_timesheet')
+    END
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION set_notification_digest_next()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF NEW.digest_frequency = 'off' THEN
+    NEW.next_digest_at := NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.next_digest_at := next_report_run_at(
+    NEW.digest_frequency,
+    NEW.digest_weekday,
+    NULL,
+    NEW.digest_hour,
+    (SELECT timezone FROM organizations WHERE id = NEW.organization_id),
+    NOW()
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_notification_digest_next
+BEFORE INSERT OR UPDATE OF digest_frequency, digest_weekday, digest_hour ON notification_preferences
+FOR EACH ROW
+EXECUTE FUNCTION set_notification_digest_next();
+
+-- ============================================================
+-- NOTIFICATIONS: remember the channels chosen when the event
+-- happened. Rows meant only for the digest stay out of the bell.
+-- ============================================================
+
+ALTER TABLE notifications
+  ADD COLUMN in_app BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN email BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX idx_notifications_digest ON notifications(user_id, organization_id, created_at) WHERE email;
+
+CREATE OR REPLACE FUNCTION create_notifications(
+  p_org_id UUID,
+  p_user_ids UUID[],
+  p_type TEXT,
+  p_title TEXT,
+  p_body TEXT,
+  p_link TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_timesheet_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  INSERT INTO notifications (
+    organization_id, user_id, actor_id, type, title, body, link, task_id, timesheet_id, in_app, email
+  )
+  SELECT *
+  FROM (
+    SELECT DISTINCT
+      p_org_id, uo.user_id, auth.uid(), p_type, p_title, left(p_body, 500), p_link, p_task_id, p_timesheet_id,
+      notification_channel_enabled(coalesce(np.channels, '{}'::JSONB), p_type, 'in_app') AS in_app,
+      notification_channel_enabled(coalesce(np.channels, '{}'::JSONB), p_type, 'email') AS email
+    FROM user_organizations uo
+    LEFT JOIN notification_preferences np
+      ON np.user_id = uo.user_id AND np.organization_id = uo.organization_id
+    WHERE uo.organization_id = p_org_id
+      AND uo.user_id = ANY(p_user_ids)
+      AND uo.user_id IS DISTINCT FROM auth.uid()
+  ) recipients
+  WHERE recipients.in_app OR recipients.email;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION create_notifications(UUID, UUID[], TEXT, TEXT, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+
+-- ============================================================
+-- DIGESTS: the send-digests edge function claims the digests
+-- that are due and moves them to their next run before sending,
+-- like claim_due_report_schedules. `since` is the previous
+-- digest, so activity is never reported twice.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION claim_due_digests(p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (
+  preference_id UUID,
+  user_id UUID,
+  email TEXT,
+  organization_id UUID,
+  organization_name TEXT,
+  frequency TEXT,
+  channels JSONB,
+  since TIMESTAMPTZ,
+  local_date DATE
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH due AS (
+    SELECT np.id, np.last_digest_at AS previous_digest_at
+    FROM notification_preferences np
+    WHERE np.digest_frequency <> 'off'
+      AND np.next_digest_at <= NOW()
+    ORDER BY np.next_digest_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE notification_preferences np
+    SET
+      last_digest_at = NOW(),
+      last_digest_error = NULL,
+      next_digest_at = next_report_run_at(np.digest_frequency, np.digest_weekday, NULL, np.digest_hour, o.timezone, NOW())
+    FROM due, organizations o
+    WHERE np.id = due.id
+      AND o.id = np.organization_id
+    RETURNING np.*, due.previous_digest_at
+  )
+  SELECT
+    c.id,
+    c.user_id,
+    au.email::TEXT,
+    c.organization_id,
+    o.name,
+    c.digest_frequency,
+    c.channels,
+    coalesce(
+      c.previous_digest_at,
+      NOW() - CASE WHEN c.digest_frequency = 'weekly' THEN INTERVAL '7 days' ELSE INTERVAL '1 day' END
+    ),
+    (NOW() AT TIME ZONE o.timezone)::DATE
+  FROM claimed c
+  JOIN organizations o ON o.id = c.organization_id
+  JOIN auth.users au ON au.id = c.user_id
+  -- Former members keep their row but get nothing
+  JOIN user_organizations uo ON uo.user_id = c.user_id AND uo.organization_id = c.organization_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_due_digests(INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_due_digests(INTEGER) TO service_role;
+
+-- ============================================================
+-- CRON: hourly, offset from run-report-schedules. Uses the same
+-- vault secrets ('project_url' and 'service_role_key').
+-- ============================================================
+
+SELECT cron.schedule(
+  'send-notification-digests',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/send-digests',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::JSONB
+  );
+  $$
+);
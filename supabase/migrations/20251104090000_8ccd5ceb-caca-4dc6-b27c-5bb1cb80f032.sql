@@ -0,0 +1,172 @@
+-- ============================================================
+-- AUDIT TRIGGERS: the table triggers went away with the CASCADE
+-- in 20251022160753 when log_audit_event_trigger() was
+-- recreated. Restore them for tasks, time entries, projects and
+-- timesheets, so changes to those tables show up in the audit
+-- log again (and, from the next migration, as webhook events).
+-- Deletes stay unaudited: deleting an organization cascades
+-- into these tables, and the audit row would point at the
+-- organization being removed.
+--
+-- bulk_update_tasks is redefined below to stop writing its own
+-- audit rows, which the restored trigger now writes.
+-- ============================================================
+
+CREATE TRIGGER audit_tasks_insert
+  AFTER INSERT ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event_trigger();
+
+CREATE TRIGGER audit_tasks_update
+  AFTER UPDATE ON public.tasks
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event_trigger();
+
+CREATE TRIGGER audit_time_entries_insert
+  AFTER INSERT ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event_trigger();
+
+CREATE TRIGGER audit_time_entries_update
+  AFTER UPDATE ON public.time_entries
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event_trigger();
+
+CREATE TRIGGER audit_projects_insert
+  AFTER INSERT ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event_trigger();
+
+CREATE TRIGGER audit_projects_update
+  AFTER UPDATE ON public.projects
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event_trigger();
+
+CREATE TRIGGER audit_timesheets_insert
+  AFTER INSERT ON public.timesheets
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event_trigger();
+
+CREATE TRIGGER audit_timesheets_update
+  AFTER UPDATE ON public.timesheets
+  FOR EACH ROW EXECUTE FUNCTION public.log_audit_event_trigger();
+
+-- bulk_update_tasks wrote its own audit rows while the triggers were
+-- missing; with audit_tasks_update back it would log every task twice.
+CREATE OR REPLACE FUNCTION public.bulk_update_tasks(
+  p_task_ids UUID[],
+  p_changes JSONB
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_key TEXT;
+  v_task tasks%ROWTYPE;
+  v_new tasks%ROWTYPE;
+  v_selected BOOLEAN;
+  v_moving BOOLEAN := p_changes ? 'project_id';
+  v_deleting BOOLEAN := COALESCE((p_changes->>'delete')::BOOLEAN, false);
+  v_project_id UUID := (p_changes->>'project_id')::UUID;
+  v_status TEXT;
+  v_watchers UUID[];
+  v_count INTEGER := 0;
+BEGIN
+  FOR v_key IN SELECT jsonb_object_keys(p_changes) LOOP
+    IF v_key NOT IN ('status', 'priority', 'assigned_to', 'project_id', 'due_date', 'add_watchers', 'delete') THEN
+      RAISE EXCEPTION 'Unknown bulk change "%"', v_key;
+    END IF;
+  END LOOP;
+
+  IF p_changes ? 'add_watchers' THEN
+    SELECT array_agg(value::UUID) INTO v_watchers
+    FROM jsonb_array_elements_text(p_changes->'add_watchers');
+  END IF;
+
+  IF (SELECT COUNT(*) FROM tasks WHERE id = ANY(p_task_ids) AND deleted_at IS NULL)
+    <> cardinality(p_task_ids) THEN
+    RAISE EXCEPTION 'Some of the selected tasks no longer exist. Refresh and try again.';
+  END IF;
+
+  IF v_moving AND EXISTS (
+    SELECT 1 FROM tasks
+    WHERE id = ANY(p_task_ids)
+      AND parent_task_id IS NOT NULL
+      AND NOT parent_task_id = ANY(p_task_ids)
+  ) THEN
+    RAISE EXCEPTION 'Subtasks move with their parent task. Move the parent instead.';
+  END IF;
+
+  IF v_moving AND v_project_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = v_project_id
+      AND deleted_at IS NULL
+      AND organization_id = (SELECT organization_id FROM tasks WHERE id = p_task_ids[1])
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  -- Selected tasks first, then the subtasks they take along
+  FOR v_task IN
+    SELECT * FROM tasks
+    WHERE deleted_at IS NULL
+      AND (
+        id = ANY(p_task_ids)
+        OR ((v_moving OR v_deleting) AND parent_task_id = ANY(p_task_ids))
+      )
+    ORDER BY (id = ANY(p_task_ids)) DESC, code
+  LOOP
+    v_selected := v_task.id = ANY(p_task_ids);
+
+    IF v_deleting AND v_selected AND v_task.created_by <> auth.uid() AND NOT EXISTS (
+      SELECT 1 FROM team_members tm
+      JOIN project_teams pt ON tm.team_id = pt.team_id
+      WHERE pt.project_id = v_task.project_id
+        AND tm.user_id = auth.uid()
+        AND tm.team_role = 'tech_lead'
+    ) THEN
+      RAISE EXCEPTION '%: only the creator or a tech lead can delete this task', v_task.code;
+    END IF;
+
+    v_status := v_task.status;
+    IF v_selected AND p_changes ? 'status' THEN
+      v_status := p_changes->>'status';
+    ELSIF v_moving AND v_status <> 'archived' AND NOT EXISTS (
+      SELECT 1 FROM project_workflow_statuses(v_project_id) ws WHERE ws.key = v_status
+    ) THEN
+      -- Keep the task's progress in a workflow without its status
+      SELECT ws.key INTO v_status
+      FROM project_workflow_statuses(v_project_id) ws
+      ORDER BY (ws.category <> v_task.status_category), ws.position
+      LIMIT 1;
+    END IF;
+
+    BEGIN
+      UPDATE tasks SET
+        status = v_status,
+        priority = CASE WHEN v_selected AND p_changes ? 'priority' THEN p_changes->>'priority' ELSE priority END,
+        assigned_to = CASE WHEN v_selected AND p_changes ? 'assigned_to' THEN (p_changes->>'assigned_to')::UUID ELSE assigned_to END,
+        due_date = CASE WHEN v_selected AND p_changes ? 'due_date' THEN (p_changes->>'due_date')::DATE ELSE due_date END,
+        project_id = CASE WHEN v_moving THEN v_project_id ELSE project_id END,
+        deleted_at = CASE WHEN v_deleting THEN NOW() ELSE deleted_at END
+      WHERE id = v_task.id
+      RETURNING * INTO v_new;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE EXCEPTION '%: %', v_task.code, SQLERRM;
+    END;
+
+    IF v_new.id IS NULL THEN
+      RAISE EXCEPTION '%: you don''t have permission to edit this task', v_task.code;
+    END IF;
+
+    IF v_selected AND v_watchers IS NOT NULL THEN
+      PERFORM add_watchers(v_task.id, v_watchers);
+    END IF;
+
+    IF v_selected AND v_new.assigned_to IS NOT NULL
+      AND v_new.assigned_to IS DISTINCT FROM v_task.assigned_to THEN
+      PERFORM add_watchers(v_task.id, ARRAY[v_new.assigned_to]);
+    END IF;
+
+    v_new.id := NULL;
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$;
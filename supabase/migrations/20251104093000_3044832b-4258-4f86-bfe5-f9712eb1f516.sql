@@ -0,0 +1,303 @@
+-- ============================================================
+-- WEBHOOK ENDPOINTS: URLs an organization's admins register to
+-- receive events. `events` lists the event types the endpoint
+-- is subscribed to; the secret signs every delivery.
+-- ============================================================
+
+CREATE TABLE webhook_endpoints (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- https only; sendWebhook in src/lib/webhooks.ts also refuses
+  -- loopback, link-local and private hosts
+  url TEXT NOT NULL CHECK (url ~* '^https://'),
+  description TEXT,
+  -- Kept in sync with WEBHOOK_EVENTS in src/lib/webhooks.ts
+  events TEXT[] NOT NULL CHECK (
+    cardinality(events) > 0
+    AND events <@ ARRAY[
+      'task.created', 'task.updated', 'task.status_changed',
+      'time_entry.created',
+      'timesheet.submitted', 'timesheet.approved', 'timesheet.rejected',
+      'project.created'
+    ]
+  ),
+  secret TEXT NOT NULL DEFAULT 'whsec_' || replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_endpoints_org ON webhook_endpoints(organization_id) WHERE is_active;
+
+CREATE TRIGGER update_webhook_endpoints_updated_at
+BEFORE UPDATE ON webhook_endpoints
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- WEBHOOK DELIVERIES: one row per event and endpoint. The
+-- deliver-webhooks edge function sends pending rows and records
+-- the outcome of the latest attempt; failures go back to
+-- pending with a later next_attempt_at until they run out of
+-- attempts.
+-- ============================================================
+
+CREATE TABLE webhook_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  endpoint_id UUID NOT NULL REFERENCES webhook_endpoints(id) ON DELETE CASCADE,
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  -- Shared by every endpoint receiving the same event, so receivers can deduplicate
+  event_id UUID NOT NULL,
+  event_type TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ DEFAULT NOW(),
+  last_attempt_at TIMESTAMPTZ,
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  duration_ms INTEGER,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX idx_webhook_deliveries_endpoint ON webhook_deliveries(endpoint_id, created_at DESC);
+CREATE INDEX idx_webhook_deliveries_org ON webhook_deliveries(organization_id, created_at DESC);
+
+-- ============================================================
+-- RLS: admins manage endpoints and read the delivery log.
+-- Deliveries are only written by the functions below and the
+-- edge function (service role).
+-- ============================================================
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY webhook_endpoints_select_admins ON webhook_endpoints
+FOR SELECT
+USING (is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY webhook_endpoints_insert_admins ON webhook_endpoints
+FOR INSERT
+WITH CHECK (is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY webhook_endpoints_update_admins ON webhook_endpoints
+FOR UPDATE
+USING (is_org_admin(auth.uid(), organization_id))
+WITH CHECK (is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY webhook_endpoints_delete_admins ON webhook_endpoints
+FOR DELETE
+USING (is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY webhook_deliveries_select_admins ON webhook_deliveries
+FOR SELECT
+USING (is_org_admin(auth.uid(), organization_id));
+
+-- ============================================================
+-- EVENTS: every audited change to a task, time entry, project
+-- or timesheet passes through audit_logs, so that is where
+-- events are picked up. The payload carries the audited (and
+-- redacted) row, plus the previous values for updates.
+-- ============================================================
+
+-- Deliveries are signed, so audit rows must only come from the
+-- audit trigger (SECURITY DEFINER); otherwise any member could
+-- insert rows directly and forge events.
+DROP POLICY audit_logs_insert_system ON audit_logs;
+REVOKE INSERT ON audit_logs FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION queue_webhook_deliveries()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_events TEXT[] := ARRAY[]::TEXT[];
+  v_status TEXT := NEW.new_values->>'status';
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM webhook_endpoints
+    WHERE organization_id = NEW.organization_id AND is_active
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  CASE NEW.table_name
+    WHEN 'tasks' THEN
+      IF NEW.action = 'INSERT' THEN
+        v_events := ARRAY['task.created'];
+      ELSIF NEW.action = 'UPDATE' THEN
+        v_events := ARRAY['task.updated'];
+        IF v_status IS DISTINCT FROM NEW.old_values->>'status' THEN
+          v_events := v_events || 'task.status_changed';
+        END IF;
+      END IF;
+    WHEN 'time_entries' THEN
+      IF NEW.action = 'INSERT' THEN
+        v_events := ARRAY['time_entry.created'];
+      END IF;
+    WHEN 'timesheets' THEN
+      IF NEW.action IN ('INSERT', 'UPDATE')
+        AND v_status IN ('submitted', 'approved', 'rejected')
+        AND v_status IS DISTINCT FROM NEW.old_values->>'status' THEN
+        v_events := ARRAY['timesheet.' || v_status];
+      END IF;
+    WHEN 'projects' THEN
+      IF NEW.action = 'INSERT' THEN
+        v_events := ARRAY['project.created'];
+      END IF;
+    ELSE
+      NULL;
+  END CASE;
+
+  INSERT INTO webhook_deliveries (endpoint_id, organization_id, event_id, event_type, payload)
+  SELECT
+    e.id,
+    NEW.organization_id,
+    ev.id,
+    ev.type,
+    jsonb_build_object(
+      'id', ev.id,
+      'type', ev.type,
+      'created_at', NEW.created_at,
+      'organization_id', NEW.organization_id,
+      'actor_id', NEW.user_id,
+      'data', jsonb_build_object('object', NEW.new_values)
+        || CASE WHEN NEW.action = 'UPDATE' THEN jsonb_build_object('previous', NEW.old_values) ELSE '{}'::JSONB END
+    )
+  FROM (
+    SELECT type, gen_random_uuid() AS id FROM unnest(v_events) AS type
+  ) ev
+  JOIN webhook_endpoints e
+    ON e.organization_id = NEW.organization_id
+    AND e.is_active
+    AND ev.type = ANY(e.events);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER audit_logs_queue_webhooks
+AFTER INSERT ON audit_logs
+FOR EACH ROW
+EXECUTE FUNCTION queue_webhook_deliveries();
+
+-- Queues a webhook.test delivery for one endpoint. The settings page
+-- then asks deliver-webhooks to send it right away.
+CREATE OR REPLACE FUNCTION send_test_webhook(p_endpoint_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_endpoint webhook_endpoints%ROWTYPE;
+  v_event_id UUID := gen_random_uuid();
+  v_delivery_id UUID;
+BEGIN
+  SELECT * INTO v_endpoint FROM webhook_endpoints WHERE id = p_endpoint_id;
+
+  IF v_endpoint.id IS NULL OR NOT is_org_admin(auth.uid(), v_endpoint.organization_id) THEN
+    RAISE EXCEPTION 'Webhook endpoint not found';
+  END IF;
+
+  INSERT INTO webhook_deliveries (endpoint_id, organization_id, event_id, event_type, payload)
+  VALUES (
+    v_endpoint.id,
+    v_endpoint.organization_id,
+    v_event_id,
+    'webhook.test',
+    jsonb_build_object(
+      'id', v_event_id,
+      'type', 'webhook.test',
+      'created_at', NOW(),
+      'organization_id', v_endpoint.organization_id,
+      'actor_id', auth.uid(),
+      'data', jsonb_build_object(
+        'object', jsonb_build_object('endpoint_id', v_endpoint.id, 'message', 'This is a test event.')
+      )
+    )
+  )
+  RETURNING id INTO v_delivery_id;
+
+  RETURN v_delivery_id;
+END;
+$$;
+
+-- ============================================================
+-- DELIVERY: deliver-webhooks claims due deliveries (or a single
+-- one, for test events). Claimed rows are pushed five minutes
+-- out, so a run that dies midway is retried instead of lost.
+-- Deliveries for a disabled endpoint wait until it is enabled.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION claim_webhook_deliveries(
+  p_limit INTEGER DEFAULT 25,
+  p_delivery_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  delivery_id UUID,
+  endpoint_id UUID,
+  url TEXT,
+  secret TEXT,
+  event_id UUID,
+  event_type TEXT,
+  payload JSONB,
+  attempt_count INTEGER
+)
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+  WITH due AS (
+    SELECT d.id
+    FROM webhook_deliveries d
+    JOIN webhook_endpoints e ON e.id = d.endpoint_id
+    WHERE d.status = 'pending'
+      AND CASE
+        WHEN p_delivery_id IS NULL THEN d.next_attempt_at <= NOW() AND e.is_active
+        ELSE d.id = p_delivery_id
+      END
+    ORDER BY d.next_attempt_at
+    LIMIT p_limit
+    FOR UPDATE OF d SKIP LOCKED
+  ),
+  claimed AS (
+    UPDATE webhook_deliveries d
+    SET next_attempt_at = NOW() + INTERVAL '5 minutes'
+    FROM due
+    WHERE d.id = due.id
+    RETURNING d.*
+  )
+  SELECT c.id, c.endpoint_id, e.url, e.secret, c.event_id, c.event_type, c.payload, c.attempt_count
+  FROM claimed c
+  JOIN webhook_endpoints e ON e.id = c.endpoint_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_webhook_deliveries(INTEGER, UUID) TO service_role;
+
+-- ============================================================
+-- CRON: every minute, so events and retries go out promptly.
+-- Uses the same vault secrets as the other scheduled functions.
+-- ============================================================
+
+SELECT cron.schedule(
+  'deliver-webhooks',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/deliver-webhooks',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::JSONB
+  );
+  $$
+);
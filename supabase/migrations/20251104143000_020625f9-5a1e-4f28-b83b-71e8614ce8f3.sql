@@ -0,0 +1,206 @@
+-- ============================================================
+-- API TOKENS: bearer tokens for the REST API (api edge
+-- function). Personal access tokens belong to one member;
+-- organization API keys are managed by all of the
+-- organization's admins. Either way the API acts as user_id,
+-- so the usual RLS policies decide what a token can touch and
+-- the scopes narrow that further.
+--
+-- Only a SHA-256 hash of the token is stored: the token itself
+-- is returned once by create_api_token().
+-- ============================================================
+
+CREATE TABLE api_tokens (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  kind TEXT NOT NULL CHECK (kind IN ('personal', 'organization')),
+  -- The owner for personal tokens, the admin who created it for organization keys
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  -- Start of the token, so it can be recognized in lists
+  token_prefix TEXT NOT NULL,
+  token_hash TEXT NOT NULL UNIQUE,
+  -- Kept in sync with API_SCOPES in src/lib/apiTokens.ts
+  scopes TEXT[] NOT NULL CHECK (
+    cardinality(scopes) > 0
+    AND scopes <@ ARRAY[
+      'read:projects',
+      'read:tasks', 'write:tasks',
+      'read:time_entries', 'write:time_entries',
+      'read:timesheets', 'write:timesheets'
+    ]
+  ),
+  expires_at TIMESTAMPTZ,
+  last_used_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ,
+  revoked_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_api_tokens_org ON api_tokens(organization_id, kind);
+CREATE INDEX idx_api_tokens_user ON api_tokens(user_id);
+
+-- Requests per token and minute, for rate limiting
+CREATE TABLE api_request_counts (
+  token_id UUID NOT NULL REFERENCES api_tokens(id) ON DELETE CASCADE,
+  window_start TIMESTAMPTZ NOT NULL,
+  request_count INTEGER NOT NULL DEFAULT 0,
+
+  PRIMARY KEY (token_id, window_start)
+);
+
+-- ============================================================
+-- RLS: members see their own personal tokens, admins see the
+-- organization keys. Tokens are created and revoked through
+-- the functions below; request counts are service-role only.
+-- ============================================================
+
+ALTER TABLE api_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_request_counts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY api_tokens_select_own ON api_tokens
+FOR SELECT
+USING (kind = 'personal' AND user_id = auth.uid());
+
+CREATE POLICY api_tokens_select_admins ON api_tokens
+FOR SELECT
+USING (kind = 'organization' AND is_org_admin(auth.uid(), organization_id));
+
+-- Returns the new token; it can't be retrieved again
+CREATE OR REPLACE FUNCTION create_api_token(
+  p_org_id UUID,
+  p_kind TEXT,
+  p_name TEXT,
+  p_scopes TEXT[],
+  p_expires_at TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_token TEXT := 'dft_' || replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', '');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Organization not found';
+  END IF;
+
+  IF p_kind = 'organization' AND NOT is_org_admin(auth.uid(), p_org_id) THEN
+    RAISE EXCEPTION 'Only admins can create organization API keys';
+  END IF;
+
+  IF p_expires_at IS NOT NULL AND p_expires_at <= NOW() THEN
+    RAISE EXCEPTION 'The expiry date must be in the future';
+  END IF;
+
+  INSERT INTO api_tokens (organization_id, kind, user_id, name, token_prefix, token_hash, scopes, expires_at)
+  VALUES (
+    p_org_id,
+    p_kind,
+    auth.uid(),
+    trim(p_name),
+    left(v_token, 12),
+    encode(sha256(convert_to(v_token, 'UTF8')), 'hex'),
+    p_scopes,
+    p_expires_at
+  );
+
+  RETURN v_token;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION revoke_api_token(p_token_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  UPDATE api_tokens
+  SET revoked_at = NOW(), revoked_by = auth.uid()
+  WHERE id = p_token_id
+    AND revoked_at IS NULL
+    AND (
+      (kind = 'personal' AND user_id = auth.uid())
+      OR (kind = 'organization' AND is_org_admin(auth.uid(), organization_id))
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Token not found';
+  END IF;
+END;
+$$;
+
+-- ============================================================
+-- AUTHENTICATION: the api edge function looks tokens up by
+-- hash. A token stops working once it is revoked or expired,
+-- when its user leaves the organization, and for organization
+-- keys when their creator is no longer an admin. Every call
+-- counts towards the token's current one-minute window.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION authenticate_api_token(p_token_hash TEXT)
+RETURNS TABLE (
+  token_id UUID,
+  organization_id UUID,
+  user_id UUID,
+  kind TEXT,
+  scopes TEXT[],
+  request_count INTEGER,
+  window_resets_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_token api_tokens%ROWTYPE;
+  v_window TIMESTAMPTZ := date_trunc('minute', NOW());
+  v_count INTEGER;
+BEGIN
+  SELECT t.* INTO v_token
+  FROM api_tokens t
+  JOIN user_organizations uo
+    ON uo.user_id = t.user_id
+    AND uo.organization_id = t.organization_id
+  WHERE t.token_hash = p_token_hash
+    AND t.revoked_at IS NULL
+    AND (t.expires_at IS NULL OR t.expires_at > NOW())
+    AND (t.kind = 'personal' OR uo.role = 'admin');
+
+  IF v_token.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO api_request_counts AS c (token_id, window_start, request_count)
+  VALUES (v_token.id, v_window, 1)
+  ON CONFLICT ON CONSTRAINT api_request_counts_pkey
+  DO UPDATE SET request_count = c.request_count + 1
+  RETURNING c.request_count INTO v_count;
+
+  DELETE FROM api_request_counts c
+  WHERE c.token_id = v_token.id
+    AND c.window_start < v_window;
+
+  UPDATE api_tokens t
+  SET last_used_at = NOW()
+  WHERE t.id = v_token.id;
+
+  RETURN QUERY SELECT
+    v_token.id,
+    v_token.organization_id,
+    v_token.user_id,
+    v_token.kind,
+    v_token.scopes,
+    v_count,
+    v_window + INTERVAL '1 minute';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION authenticate_api_token(TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION authenticate_api_token(TEXT) TO service_role;
@@ -0,0 +1,100 @@
+-- ============================================================
+-- GIT INTEGRATIONS: inbound webhooks from GitHub or GitLab
+-- (git-webhook edge function). Commits and pull/merge requests
+-- that mention a task code in their message, title or branch
+-- are linked to the task, and pull requests can move the task
+-- through the workflow.
+-- ============================================================
+
+CREATE TABLE git_integrations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('github', 'gitlab')),
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  -- GitHub signs payloads with it (X-Hub-Signature-256), GitLab
+  -- sends it as is (X-Gitlab-Token)
+  secret TEXT NOT NULL DEFAULT replace(gen_random_uuid()::TEXT || gen_random_uuid()::TEXT, '-', ''),
+  -- Workflow status keys linked tasks move to; NULL leaves the
+  -- status alone. Tasks whose workflow lacks the status are
+  -- left alone too.
+  pr_opened_status TEXT DEFAULT 'in_review',
+  pr_merged_status TEXT DEFAULT 'done',
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  last_event_at TIMESTAMPTZ,
+  created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_git_integrations_org ON git_integrations(organization_id);
+
+CREATE TRIGGER update_git_integrations_updated_at
+BEFORE UPDATE ON git_integrations
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- One row per task and commit or pull request; redelivered and
+-- updated pull requests update the row
+CREATE TABLE task_git_links (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  task_id UUID NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+  integration_id UUID REFERENCES git_integrations(id) ON DELETE SET NULL,
+  provider TEXT NOT NULL CHECK (provider IN ('github', 'gitlab')),
+  kind TEXT NOT NULL CHECK (kind IN ('commit', 'pull_request')),
+  -- "owner/name" on GitHub, the project path on GitLab
+  repository TEXT NOT NULL,
+  -- Commit SHA, or the pull/merge request number
+  external_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  url TEXT,
+  author TEXT,
+  branch TEXT,
+  -- Pull requests only
+  state TEXT CHECK (state IN ('open', 'closed', 'merged')),
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+
+  UNIQUE (task_id, kind, repository, external_id)
+);
+
+CREATE INDEX idx_task_git_links_org ON task_git_links(organization_id);
+
+CREATE TRIGGER update_task_git_links_updated_at
+BEFORE UPDATE ON task_git_links
+FOR EACH ROW
+EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================================
+-- RLS: admins manage integrations; every member sees the links.
+-- Links are only written by the edge function (service role).
+-- ============================================================
+
+ALTER TABLE git_integrations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE task_git_links ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY git_integrations_select_admins ON git_integrations
+FOR SELECT
+USING (is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY git_integrations_insert_admins ON git_integrations
+FOR INSERT
+WITH CHECK (is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY git_integrations_update_admins ON git_integrations
+FOR UPDATE
+USING (is_org_admin(auth.uid(), organization_id))
+WITH CHECK (is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY git_integrations_delete_admins ON git_integrations
+FOR DELETE
+USING (is_org_admin(auth.uid(), organization_id));
+
+CREATE POLICY task_git_links_select_org ON task_git_links
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+);
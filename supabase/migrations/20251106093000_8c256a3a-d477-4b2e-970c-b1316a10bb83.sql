@@ -0,0 +1,96 @@
+-- ============================================================
+-- ACTIVE TIMERS: lock down client edits
+-- The update policy allowed every column, so a client could
+-- rewrite started_at, the pause fields or segments and have
+-- stop_active_timer log the fabricated time.
+-- ============================================================
+
+-- Clients may only edit the task, description and billable flag;
+-- everything else changes through the RPCs
+REVOKE UPDATE ON active_timers FROM anon, authenticated;
+GRANT UPDATE (task_id, project_id, description, is_billable) ON active_timers TO authenticated;
+
+-- The task and project must belong to the timer's organization
+DROP POLICY active_timers_update_own ON active_timers;
+
+CREATE POLICY active_timers_update_own ON active_timers
+FOR UPDATE
+USING (user_id = auth.uid())
+WITH CHECK (
+  user_id = auth.uid()
+  AND (task_id IS NULL OR EXISTS (
+    SELECT 1 FROM tasks
+    WHERE tasks.id = active_timers.task_id
+      AND tasks.organization_id = active_timers.organization_id
+  ))
+  AND (project_id IS NULL OR EXISTS (
+    SELECT 1 FROM projects
+    WHERE projects.id = active_timers.project_id
+      AND projects.organization_id = active_timers.organization_id
+  ))
+);
+
+-- ============================================================
+-- FUNCTION: stop_active_timer
+-- Only logs against a task and project of the timer's organization
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION stop_active_timer(
+  p_org_id UUID,
+  p_task_id UUID,
+  p_project_id UUID,
+  p_description TEXT,
+  p_is_billable BOOLEAN,
+  p_end_time TIMESTAMPTZ DEFAULT NULL
+) RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+  v_entry_ids UUID[];
+BEGIN
+  SELECT * INTO v_timer
+  FROM active_timers
+  WHERE user_id = auth.uid() AND organization_id = p_org_id
+  FOR UPDATE;
+
+  IF v_timer.id IS NULL THEN
+    RAISE EXCEPTION 'No active timer to stop';
+  END IF;
+
+  IF p_task_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM tasks
+    WHERE id = p_task_id AND organization_id = p_org_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF p_project_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = p_project_id AND organization_id = p_org_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  -- The client may pass the moment the user pressed stop; never trust a future time
+  v_entry_ids := log_active_timer_segments(
+    v_timer,
+    LEAST(COALESCE(p_end_time, NOW()), NOW()),
+    p_task_id,
+    p_project_id,
+    p_description,
+    p_is_billable,
+    v_timer.duration_seconds
+  );
+
+  IF array_length(v_entry_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Timer must run for at least one second';
+  END IF;
+
+  DELETE FROM active_timers WHERE id = v_timer.id;
+
+  RETURN v_entry_ids;
+END;
+$$;
@@ -0,0 +1,97 @@
+-- ============================================================
+-- FUNCTION: log_active_timer_segments
+-- The free plan's monthly entry limit was checked once before
+-- inserting one entry per segment, so stopping a timer with
+-- several segments could go past it. The limit is now checked
+-- before each entry; going past it rolls back the whole stop.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION log_active_timer_segments(
+  p_timer active_timers,
+  p_end_time TIMESTAMPTZ,
+  p_task_id UUID,
+  p_project_id UUID,
+  p_description TEXT,
+  p_is_billable BOOLEAN,
+  p_max_seconds INTEGER DEFAULT NULL
+) RETURNS UUID[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_segment JSONB;
+  v_segment_start TIMESTAMPTZ;
+  v_segment_end TIMESTAMPTZ;
+  v_remaining INTERVAL;
+  v_entry_id UUID;
+  v_entry_ids UUID[] := ARRAY[]::UUID[];
+BEGIN
+  IF p_task_id IS NULL AND p_project_id IS NULL THEN
+    RAISE EXCEPTION 'Select a task before saving the time entry';
+  END IF;
+
+  v_remaining := CASE WHEN p_max_seconds IS NULL THEN NULL ELSE make_interval(secs => p_max_seconds) END;
+
+  FOR v_segment IN SELECT * FROM jsonb_array_elements(p_timer.segments) LOOP
+    EXIT WHEN v_remaining IS NOT NULL AND v_remaining <= INTERVAL '0';
+
+    v_segment_start := (v_segment->>'started_at')::TIMESTAMPTZ;
+    v_segment_end := LEAST(COALESCE((v_segment->>'ended_at')::TIMESTAMPTZ, p_end_time), p_end_time);
+
+    IF v_remaining IS NOT NULL THEN
+      v_segment_end := LEAST(v_segment_end, v_segment_start + v_remaining);
+      v_remaining := v_remaining - GREATEST(v_segment_end - v_segment_start, INTERVAL '0');
+    END IF;
+
+    -- Skip segments shorter than a second (e.g. an accidental pause/resume)
+    CONTINUE WHEN v_segment_end - v_segment_start < INTERVAL '1 second';
+
+    IF check_time_entry_overlap(auth.uid(), v_segment_start, v_segment_end) THEN
+      RAISE EXCEPTION 'Time entry overlaps with existing entry.';
+    END IF;
+
+    -- Checked per entry: the entries inserted so far count towards the
+    -- limit, so a timer with many segments can't go past it
+    IF NOT check_time_entry_limit(p_timer.organization_id, auth.uid()) THEN
+      RAISE EXCEPTION 'Free plan allows max 100 time entries per month. Upgrade to Pro for unlimited.';
+    END IF;
+
+    INSERT INTO time_entries (
+      organization_id,
+      user_id,
+      task_id,
+      project_id,
+      timer_type,
+      start_time,
+      end_time,
+      duration_seconds,
+      description,
+      is_billable
+    ) VALUES (
+      p_timer.organization_id,
+      auth.uid(),
+      p_task_id,
+      p_project_id,
+      p_timer.timer_type,
+      v_segment_start,
+      v_segment_end,
+      calculate_duration_seconds(v_segment_start, v_segment_end),
+      NULLIF(btrim(p_description), ''),
+      COALESCE(p_is_billable, true)
+    )
+    RETURNING id INTO v_entry_id;
+
+    v_entry_ids := array_append(v_entry_ids, v_entry_id);
+  END LOOP;
+
+  IF p_task_id IS NOT NULL AND array_length(v_entry_ids, 1) IS NOT NULL THEN
+    PERFORM update_task_actual_hours(p_task_id);
+  END IF;
+
+  RETURN v_entry_ids;
+END;
+$$;
+
+-- Internal: it trusts the timer row it is given, so only the timer functions call it
+REVOKE EXECUTE ON FUNCTION log_active_timer_segments(active_timers, TIMESTAMPTZ, UUID, UUID, TEXT, BOOLEAN, INTEGER) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,27 @@
+-- ============================================================
+-- POMODORO: close the cycle when its timer goes away
+-- Only a long break closed a cycle, so one that was stopped,
+-- discarded or ended during a break stayed open forever.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.close_pomodoro_session_on_timer_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF OLD.pomodoro_session_id IS NOT NULL THEN
+    UPDATE pomodoro_sessions
+    SET completed_at = NOW()
+    WHERE id = OLD.pomodoro_session_id AND completed_at IS NULL;
+  END IF;
+
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER active_timers_close_pomodoro_session
+AFTER DELETE ON active_timers
+FOR EACH ROW
+EXECUTE FUNCTION public.close_pomodoro_session_on_timer_delete();
@@ -0,0 +1,42 @@
+-- ============================================================
+-- FUNCTION: get_time_entry_financials
+-- Entries logged against a task often leave project_id empty;
+-- resolve the project through the task so project rate cards
+-- apply to them too.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION get_time_entry_financials(p_entry_ids UUID[])
+RETURNS TABLE (
+  time_entry_id UUID,
+  bill_rate NUMERIC,
+  bill_currency TEXT,
+  cost_rate NUMERIC,
+  cost_currency TEXT,
+  revenue NUMERIC,
+  cost NUMERIC
+)
+LANGUAGE sql
+STABLE
+SET search_path = public, pg_temp
+AS $$
+  SELECT
+    te.id,
+    bill.rate,
+    bill.currency,
+    cost.rate,
+    cost.currency,
+    CASE WHEN te.is_billable THEN ROUND(bill.rate * te.duration_seconds / 3600.0, 2) ELSE 0 END,
+    ROUND(cost.rate * te.duration_seconds / 3600.0, 2)
+  FROM time_entries te
+  JOIN organizations o ON o.id = te.organization_id
+  LEFT JOIN tasks t ON t.id = te.task_id
+  LEFT JOIN LATERAL resolve_rate(
+    te.organization_id, COALESCE(te.project_id, t.project_id), te.user_id,
+    (te.start_time AT TIME ZONE o.timezone)::DATE, 'bill'
+  ) bill ON true
+  LEFT JOIN LATERAL resolve_rate(
+    te.organization_id, COALESCE(te.project_id, t.project_id), te.user_id,
+    (te.start_time AT TIME ZONE o.timezone)::DATE, 'cost'
+  ) cost ON true
+  WHERE te.id = ANY(p_entry_ids);
+$$;
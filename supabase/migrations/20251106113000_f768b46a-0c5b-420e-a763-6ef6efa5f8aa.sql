@@ -0,0 +1,64 @@
+-- ============================================================
+-- BUDGET ALERTS: re-check from every time entry write
+-- Alerts were only checked from update_task_actual_hours, so
+-- entries logged against a project without a task, soft deletes
+-- and edits that lower spend never updated them.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.check_time_entry_budget_alerts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_new_project_id UUID;
+  v_old_project_id UUID;
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    v_new_project_id := COALESCE(
+      NEW.project_id,
+      (SELECT project_id FROM tasks WHERE id = NEW.task_id)
+    );
+  END IF;
+
+  IF TG_OP <> 'INSERT' THEN
+    v_old_project_id := COALESCE(
+      OLD.project_id,
+      (SELECT project_id FROM tasks WHERE id = OLD.task_id)
+    );
+  END IF;
+
+  IF v_new_project_id IS NOT NULL THEN
+    PERFORM check_project_budget_alerts(v_new_project_id);
+  END IF;
+
+  -- The entry moved to another project: the old one's spend went down
+  IF v_old_project_id IS NOT NULL AND v_old_project_id IS DISTINCT FROM v_new_project_id THEN
+    PERFORM check_project_budget_alerts(v_old_project_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER time_entries_check_budget_alerts
+AFTER INSERT OR UPDATE OR DELETE ON time_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.check_time_entry_budget_alerts();
+
+-- The trigger covers every write now
+CREATE OR REPLACE FUNCTION update_task_actual_hours(p_task_id UUID)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE tasks
+  SET actual_hours = (
+    SELECT COALESCE(SUM(duration_seconds), 0) / 3600.0
+    FROM time_entries
+    WHERE task_id = p_task_id AND deleted_at IS NULL
+  )
+  WHERE id = p_task_id;
+$$;
@@ -0,0 +1,64 @@
+-- ============================================================
+-- VALIDATION: task links are checked one at a time per
+-- organization, so concurrent links can't form a cycle
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.validate_task_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_cycle TEXT;
+BEGIN
+  -- Serialize link writes per organization: the checks below only see
+  -- committed links, so two concurrent inserts (A blocks B and B blocks A)
+  -- could otherwise both pass. Held until the transaction ends.
+  PERFORM pg_advisory_xact_lock(hashtext('task_links:' || NEW.organization_id::TEXT));
+
+  IF (SELECT COUNT(*) FROM tasks
+      WHERE id IN (NEW.source_task_id, NEW.target_task_id)
+        AND organization_id = NEW.organization_id
+        AND deleted_at IS NULL) <> 2 THEN
+    RAISE EXCEPTION 'Both tasks must belong to the organization';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM task_links
+    WHERE source_task_id = NEW.target_task_id
+      AND target_task_id = NEW.source_task_id
+      AND link_type = NEW.link_type
+      AND NEW.link_type IN ('relates', 'duplicates')
+  ) THEN
+    RAISE EXCEPTION 'These tasks are already linked';
+  END IF;
+
+  IF NEW.link_type = 'blocks' THEN
+    -- Walk forward from the target; reaching the source again
+    -- means the new link closes a loop
+    WITH RECURSIVE chain(task_id, path) AS (
+      SELECT NEW.target_task_id, ARRAY[NEW.source_task_id, NEW.target_task_id]
+      UNION ALL
+      SELECT tl.target_task_id, c.path || tl.target_task_id
+      FROM chain c
+      JOIN task_links tl ON tl.source_task_id = c.task_id AND tl.link_type = 'blocks'
+      WHERE NOT tl.target_task_id = ANY(c.path[2:])
+    )
+    SELECT string_agg(t.code, ' → ' ORDER BY o.n) INTO v_cycle
+    FROM (
+      SELECT path FROM chain
+      WHERE task_id = NEW.source_task_id
+      LIMIT 1
+    ) c
+    CROSS JOIN LATERAL unnest(c.path) WITH ORDINALITY AS o(task_id, n)
+    JOIN tasks t ON t.id = o.task_id;
+
+    IF v_cycle IS NOT NULL THEN
+      RAISE EXCEPTION 'This link would create a dependency cycle: %', v_cycle;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,111 @@
+-- ============================================================
+-- INSTANTIATE: the function runs as its owner, so it checks the
+-- project access tasks_insert_members would have checked
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.instantiate_template(
+  p_template_id UUID,
+  p_project_id UUID,
+  p_base_date DATE DEFAULT CURRENT_DATE
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_template templates%ROWTYPE;
+  v_root RECORD;
+  v_child RECORD;
+  v_root_task_id UUID;
+  v_first_id UUID;
+BEGIN
+  SELECT * INTO v_template FROM templates WHERE id = p_template_id;
+
+  IF v_template.id IS NULL OR v_template.organization_id NOT IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Template not found';
+  END IF;
+
+  IF p_project_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = p_project_id
+      AND organization_id = v_template.organization_id
+      AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  -- Same rule as tasks_insert_members: only members of a team assigned
+  -- to the project (or those who manage it) add tasks to it
+  IF p_project_id IS NOT NULL
+    AND NOT can_manage_project(auth.uid(), p_project_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM project_teams pt
+      JOIN team_members tm ON tm.team_id = pt.team_id
+      WHERE pt.project_id = p_project_id AND tm.user_id = auth.uid()
+    ) THEN
+    RAISE EXCEPTION 'You can only add tasks to projects your team is assigned to';
+  END IF;
+
+  FOR v_root IN
+    SELECT * FROM template_tasks
+    WHERE template_id = p_template_id AND parent_id IS NULL
+    ORDER BY position
+  LOOP
+    IF p_project_id IS NOT NULL AND NOT check_task_limit(v_template.organization_id, p_project_id) THEN
+      RAISE EXCEPTION 'Free plan allows max 50 tasks per project';
+    END IF;
+
+    INSERT INTO tasks (
+      organization_id, project_id, code, title, description, task_type, priority,
+      estimated_hours, start_date, due_date, created_by
+    )
+    VALUES (
+      v_template.organization_id,
+      p_project_id,
+      generate_task_code(v_template.organization_id, p_project_id, NULL),
+      v_root.title,
+      v_root.description,
+      v_root.task_type,
+      v_root.priority,
+      v_root.estimated_hours,
+      p_base_date + v_root.start_offset_days,
+      p_base_date + v_root.due_offset_days,
+      auth.uid()
+    )
+    RETURNING id INTO v_root_task_id;
+
+    v_first_id := COALESCE(v_first_id, v_root_task_id);
+    PERFORM add_watchers(v_root_task_id, ARRAY[auth.uid()]);
+
+    FOR v_child IN
+      SELECT * FROM template_tasks
+      WHERE parent_id = v_root.id
+      ORDER BY position
+    LOOP
+      INSERT INTO tasks (
+        organization_id, project_id, parent_task_id, code, title, description, task_type,
+        priority, estimated_hours, start_date, due_date, created_by
+      )
+      VALUES (
+        v_template.organization_id,
+        p_project_id,
+        v_root_task_id,
+        generate_task_code(v_template.organization_id, p_project_id, v_root_task_id),
+        v_child.title,
+        v_child.description,
+        v_child.task_type,
+        v_child.priority,
+        v_child.estimated_hours,
+        p_base_date + v_child.start_offset_days,
+        p_base_date + v_child.due_offset_days,
+        auth.uid()
+      );
+    END LOOP;
+  END LOOP;
+
+  RETURN v_first_id;
+END;
+$$;
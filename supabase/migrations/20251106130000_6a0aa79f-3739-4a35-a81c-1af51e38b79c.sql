@@ -0,0 +1,34 @@
+-- ============================================================
+-- TASK VIEWS: updates must keep the view in one of the caller's
+-- organizations, so it can't be moved (and shared) into another
+-- ============================================================
+
+DROP POLICY task_views_update_creator_or_managers ON task_views;
+
+CREATE POLICY task_views_update_creator_or_managers ON task_views
+FOR UPDATE
+USING (
+  created_by = auth.uid()
+  OR (
+    visibility = 'shared'
+    AND organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+      WHERE role IN ('admin', 'manager')
+    )
+  )
+)
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+  AND (
+    created_by = auth.uid()
+    OR (
+      visibility = 'shared'
+      AND organization_id IN (
+        SELECT organization_id FROM get_user_organizations(auth.uid())
+        WHERE role IN ('admin', 'manager')
+      )
+    )
+  )
+);
@@ -0,0 +1,87 @@
+-- ============================================================
+-- FUNCTION: start_active_timer
+-- Only starts on a task and project of the timer's organization.
+-- advance_pomodoro and resolve_active_timer_idle log time against
+-- whatever the timer holds, so the check can't wait for the stop.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION start_active_timer(
+  p_org_id UUID,
+  p_timer_type TEXT,
+  p_task_id UUID DEFAULT NULL,
+  p_project_id UUID DEFAULT NULL,
+  p_duration_seconds INTEGER DEFAULT NULL
+) RETURNS active_timers
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_timer active_timers;
+  v_settings user_settings;
+  v_session_id UUID;
+  v_duration INTEGER := p_duration_seconds;
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Unauthorized';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM active_timers
+    WHERE user_id = auth.uid() AND organization_id = p_org_id
+  ) THEN
+    RAISE EXCEPTION 'Another timer is already running. Stop it first.';
+  END IF;
+
+  IF p_task_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM tasks
+    WHERE id = p_task_id AND organization_id = p_org_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Task not found';
+  END IF;
+
+  IF p_project_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM projects
+    WHERE id = p_project_id AND organization_id = p_org_id AND deleted_at IS NULL
+  ) THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF p_timer_type = 'pomodoro_focus' THEN
+    v_settings := get_user_settings();
+    v_duration := COALESCE(v_duration, v_settings.pomodoro_focus_minutes * 60);
+
+    INSERT INTO pomodoro_sessions (user_id, organization_id, task_id)
+    VALUES (auth.uid(), p_org_id, p_task_id)
+    RETURNING id INTO v_session_id;
+  END IF;
+
+  INSERT INTO active_timers (
+    organization_id,
+    user_id,
+    task_id,
+    project_id,
+    timer_type,
+    duration_seconds,
+    pomodoro_session_id,
+    started_at,
+    segments
+  ) VALUES (
+    p_org_id,
+    auth.uid(),
+    p_task_id,
+    p_project_id,
+    p_timer_type,
+    v_duration,
+    v_session_id,
+    NOW(),
+    jsonb_build_array(jsonb_build_object('started_at', NOW(), 'ended_at', NULL))
+  )
+  RETURNING * INTO v_timer;
+
+  RETURN v_timer;
+END;
+$$;
@@ -0,0 +1,93 @@
+-- ============================================================
+-- INVOICED TIME ENTRIES: the lock raised on every change, so
+-- deleting a task or project with invoiced time (ON DELETE SET
+-- NULL) and resetting the organization failed.
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION prevent_invoiced_time_entry_changes()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_task_released BOOLEAN;
+  v_project_released BOOLEAN;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    IF OLD.client_invoice_id IS NOT NULL THEN
+      RAISE EXCEPTION 'Time entry has been invoiced and can no longer be changed';
+    END IF;
+    RETURN OLD;
+  END IF;
+
+  -- Deleting the entry's task or project sets the reference to NULL
+  -- (ON DELETE SET NULL, run from the foreign key's own trigger); that
+  -- goes through for invoiced entries too
+  v_task_released := pg_trigger_depth() > 1
+    AND OLD.task_id IS NOT NULL AND NEW.task_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM tasks WHERE id = OLD.task_id);
+  v_project_released := pg_trigger_depth() > 1
+    AND OLD.project_id IS NOT NULL AND NEW.project_id IS NULL
+    AND NOT EXISTS (SELECT 1 FROM projects WHERE id = OLD.project_id);
+
+  -- Only attaching to or releasing from an invoice is allowed once invoiced
+  IF OLD.client_invoice_id IS NOT NULL AND (
+    OLD.user_id,
+    CASE WHEN v_task_released THEN NULL ELSE OLD.task_id END,
+    CASE WHEN v_project_released THEN NULL ELSE OLD.project_id END,
+    OLD.start_time, OLD.end_time,
+    OLD.duration_seconds, OLD.description, OLD.is_billable, OLD.is_approved, OLD.deleted_at
+  ) IS DISTINCT FROM (
+    NEW.user_id, NEW.task_id, NEW.project_id, NEW.start_time, NEW.end_time,
+    NEW.duration_seconds, NEW.description, NEW.is_billable, NEW.is_approved, NEW.deleted_at
+  ) THEN
+    RAISE EXCEPTION 'Time entry has been invoiced and can no longer be changed';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- ============================================================
+-- FUNCTION: reset_database_for_org
+-- Clears client invoices first, releasing their time entries
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.reset_database_for_org(p_org_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  -- Only allow if user is admin of the organization
+  IF NOT EXISTS (
+    SELECT 1 FROM get_user_organizations(auth.uid())
+    WHERE organization_id = p_org_id AND role = 'admin'
+  ) THEN
+    RAISE EXCEPTION 'Only admins can reset the database';
+  END IF;
+
+  -- Delete all data for this organization (cascade will handle related records)
+  DELETE FROM public.audit_logs WHERE organization_id = p_org_id;
+  -- Invoiced time entries are locked until their invoice is gone
+  DELETE FROM public.client_invoices WHERE organization_id = p_org_id;
+  DELETE FROM public.task_watchers WHERE task_id IN (SELECT id FROM public.tasks WHERE organization_id = p_org_id);
+  DELETE FROM public.task_attachments WHERE task_id IN (SELECT id FROM public.tasks WHERE organization_id = p_org_id);
+  DELETE FROM public.task_comments WHERE task_id IN (SELECT id FROM public.tasks WHERE organization_id = p_org_id);
+  DELETE FROM public.tasks WHERE organization_id = p_org_id;
+  DELETE FROM public.timesheet_entries WHERE timesheet_id IN (SELECT id FROM public.timesheets WHERE organization_id = p_org_id);
+  DELETE FROM public.timesheets WHERE organization_id = p_org_id;
+  DELETE FROM public.time_entries WHERE organization_id = p_org_id;
+  DELETE FROM public.pomodoro_sessions WHERE user_id IN (SELECT user_id FROM public.user_organizations WHERE organization_id = p_org_id);
+  DELETE FROM public.project_teams WHERE project_id IN (SELECT id FROM public.projects WHERE organization_id = p_org_id);
+  DELETE FROM public.projects WHERE organization_id = p_org_id;
+  DELETE FROM public.team_members WHERE team_id IN (SELECT id FROM public.teams WHERE organization_id = p_org_id);
+  DELETE FROM public.teams WHERE organization_id = p_org_id;
+  DELETE FROM public.invoices WHERE organization_id = p_org_id;
+  DELETE FROM public.invite_codes WHERE organization_id = p_org_id;
+
+  RETURN 'Database reset successfully for organization';
+END;
+$$;
+
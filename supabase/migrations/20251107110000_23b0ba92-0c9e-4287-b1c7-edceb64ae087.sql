@@ -0,0 +1,53 @@
+-- ============================================================
+-- BUDGET ALERTS: only re-check when spend can change
+-- Invoicing and timesheet approval update many entries at once
+-- without touching what a budget counts; re-scanning the project
+-- for each of those rows made them quadratic.
+-- ============================================================
+
+DROP TRIGGER time_entries_check_budget_alerts ON time_entries;
+
+CREATE TRIGGER time_entries_check_budget_alerts
+AFTER INSERT OR DELETE OR UPDATE OF duration_seconds, start_time, project_id, task_id, deleted_at, user_id
+ON time_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.check_time_entry_budget_alerts();
+
+-- ============================================================
+-- Saving a budget or its phases re-checks the alerts in the
+-- database, so check_project_budget_alerts no longer needs to
+-- be callable by clients (it runs as its owner, without an
+-- access check)
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.check_budget_alerts_on_budget_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'project_budgets' THEN
+    PERFORM check_project_budget_alerts(NEW.project_id);
+  ELSE
+    PERFORM check_project_budget_alerts(project_id)
+    FROM project_budgets
+    WHERE id = NEW.budget_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER project_budgets_check_alerts
+AFTER INSERT OR UPDATE ON project_budgets
+FOR EACH ROW
+EXECUTE FUNCTION public.check_budget_alerts_on_budget_change();
+
+-- Removed phases take their alerts with them (ON DELETE CASCADE)
+CREATE TRIGGER project_budget_phases_check_alerts
+AFTER INSERT OR UPDATE ON project_budget_phases
+FOR EACH ROW
+EXECUTE FUNCTION public.check_budget_alerts_on_budget_change();
+
+REVOKE EXECUTE ON FUNCTION public.check_project_budget_alerts(UUID) FROM PUBLIC, anon, authenticated;
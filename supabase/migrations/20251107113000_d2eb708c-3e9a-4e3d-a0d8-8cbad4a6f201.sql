@@ -0,0 +1,74 @@
+-- ============================================================
+-- REPORT SCHEDULES: scheduled reports run with the service role
+-- and are emailed to any address, so audit reports are scheduled
+-- (and seen, edited or removed) by admins only
+-- ============================================================
+
+DROP POLICY report_schedules_select_managers ON report_schedules;
+DROP POLICY report_schedules_insert_managers ON report_schedules;
+DROP POLICY report_schedules_update_managers ON report_schedules;
+DROP POLICY report_schedules_delete_managers ON report_schedules;
+
+CREATE POLICY report_schedules_select_managers ON report_schedules
+FOR SELECT
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+  AND (template_id <> 'audit' OR is_org_admin(auth.uid(), organization_id))
+);
+
+CREATE POLICY report_schedules_insert_managers ON report_schedules
+FOR INSERT
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+  AND (template_id <> 'audit' OR is_org_admin(auth.uid(), organization_id))
+);
+
+CREATE POLICY report_schedules_update_managers ON report_schedules
+FOR UPDATE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+  AND (template_id <> 'audit' OR is_org_admin(auth.uid(), organization_id))
+)
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+  AND (template_id <> 'audit' OR is_org_admin(auth.uid(), organization_id))
+);
+
+CREATE POLICY report_schedules_delete_managers ON report_schedules
+FOR DELETE
+USING (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+  AND (template_id <> 'audit' OR is_org_admin(auth.uid(), organization_id))
+);
+
+-- Audit schedules a manager already set up stop running
+UPDATE report_schedules
+SET is_active = false,
+    last_error = 'Only admins can schedule audit reports'
+WHERE template_id = 'audit'
+  AND is_active
+  AND (created_by IS NULL OR NOT is_org_admin(created_by, organization_id));
+
+-- ============================================================
+-- GENERATED REPORTS: a row may only point at a file in its own
+-- organization's folder, since storage access follows the row
+-- ============================================================
+
+ALTER TABLE generated_reports
+ADD CONSTRAINT generated_reports_file_in_org_folder
+CHECK (file_path LIKE organization_id::TEXT || '/%');
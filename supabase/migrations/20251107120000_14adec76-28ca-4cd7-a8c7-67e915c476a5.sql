@@ -0,0 +1,28 @@
+-- ============================================================
+-- TEMPLATES: updates must keep the template in one of the
+-- caller's organizations, so it can't be moved into another
+-- ============================================================
+
+DROP POLICY templates_update_creator_or_managers ON templates;
+
+CREATE POLICY templates_update_creator_or_managers ON templates
+FOR UPDATE
+USING (
+  created_by = auth.uid()
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+  )
+  AND (
+    created_by = auth.uid()
+    OR organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+      WHERE role IN ('admin', 'manager')
+    )
+  )
+);
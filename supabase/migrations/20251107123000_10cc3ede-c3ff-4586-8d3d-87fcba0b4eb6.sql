@@ -0,0 +1,15 @@
+-- ============================================================
+-- SPRINTS: updates get the same checks as inserts, so a sprint
+-- can't be moved onto another organization's team or project
+-- ============================================================
+
+DROP POLICY sprints_update_managers ON sprints;
+
+CREATE POLICY sprints_update_managers ON sprints
+FOR UPDATE
+USING (can_manage_sprint(auth.uid(), organization_id, team_id, project_id))
+WITH CHECK (
+  can_manage_sprint(auth.uid(), organization_id, team_id, project_id)
+  AND (team_id IS NULL OR team_id IN (SELECT id FROM teams WHERE organization_id = sprints.organization_id))
+  AND (project_id IS NULL OR project_id IN (SELECT id FROM projects WHERE organization_id = sprints.organization_id))
+);
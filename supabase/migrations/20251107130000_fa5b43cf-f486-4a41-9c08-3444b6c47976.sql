@@ -0,0 +1,34 @@
+-- ============================================================
+-- TIME OFF: updates get the same checks as inserts, so an entry
+-- can't be handed to another user or moved to another organization
+-- ============================================================
+
+DROP POLICY time_off_update_own_or_managers ON time_off;
+
+CREATE POLICY time_off_update_own_or_managers ON time_off
+FOR UPDATE
+USING (
+  user_id = auth.uid()
+  OR organization_id IN (
+    SELECT organization_id FROM get_user_organizations(auth.uid())
+    WHERE role IN ('admin', 'manager')
+  )
+)
+WITH CHECK (
+  (
+    user_id = auth.uid()
+    AND organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+    )
+  )
+  OR (
+    organization_id IN (
+      SELECT organization_id FROM get_user_organizations(auth.uid())
+      WHERE role IN ('admin', 'manager')
+    )
+    AND user_id IN (
+      SELECT uo.user_id FROM user_organizations uo
+      WHERE uo.organization_id = time_off.organization_id
+    )
+  )
+);
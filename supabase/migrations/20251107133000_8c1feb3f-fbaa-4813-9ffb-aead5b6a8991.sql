@@ -0,0 +1,99 @@
+-- ============================================================
+-- WORKFLOWS: resetting to the built-in workflow kept custom
+-- statuses whose keys match a built-in one (todo, done, ...),
+-- so the project still had rows and never fell back
+-- ============================================================
+
+CREATE OR REPLACE FUNCTION public.save_project_workflow(
+  p_project_id UUID,
+  p_statuses JSONB,
+  p_transitions JSONB DEFAULT '[]'::JSONB
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, pg_temp
+AS $$
+DECLARE
+  v_project projects%ROWTYPE;
+  v_keys TEXT[];
+  v_in_use TEXT;
+BEGIN
+  SELECT * INTO v_project FROM projects WHERE id = p_project_id AND deleted_at IS NULL;
+
+  IF v_project.id IS NULL THEN
+    RAISE EXCEPTION 'Project not found';
+  END IF;
+
+  IF NOT can_manage_project(auth.uid(), p_project_id) THEN
+    RAISE EXCEPTION 'Only admins, managers and tech leads can change the workflow';
+  END IF;
+
+  IF jsonb_array_length(p_statuses) = 0 THEN
+    v_keys := ARRAY['todo', 'in_progress', 'in_review', 'blocked', 'done'];
+  ELSE
+    SELECT array_agg(s.key) INTO v_keys
+    FROM jsonb_to_recordset(p_statuses) AS s(key TEXT);
+
+    IF NOT EXISTS (SELECT 1 FROM jsonb_to_recordset(p_statuses) AS s(category TEXT) WHERE s.category = 'done') THEN
+      RAISE EXCEPTION 'A workflow needs at least one done status';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM jsonb_to_recordset(p_statuses) AS s(category TEXT) WHERE s.category <> 'done') THEN
+      RAISE EXCEPTION 'A workflow needs a status to start in';
+    END IF;
+  END IF;
+
+  SELECT string_agg(DISTINCT t.status, ', ') INTO v_in_use
+  FROM tasks t
+  WHERE t.project_id = p_project_id
+    AND t.deleted_at IS NULL
+    AND t.status <> 'archived'
+    AND NOT (t.status = ANY(v_keys));
+
+  IF v_in_use IS NOT NULL THEN
+    RAISE EXCEPTION 'Move tasks out of these statuses before removing them: %', v_in_use;
+  END IF;
+
+  DELETE FROM workflow_transitions WHERE project_id = p_project_id;
+  -- A reset drops every custom status, even those reusing a built-in key
+  DELETE FROM workflow_statuses
+  WHERE project_id = p_project_id
+    AND (jsonb_array_length(p_statuses) = 0 OR NOT (key = ANY(v_keys)));
+
+  IF jsonb_array_length(p_statuses) > 0 THEN
+    INSERT INTO workflow_statuses (organization_id, project_id, key, name, category, color, position, wip_limit)
+    SELECT
+      v_project.organization_id,
+      p_project_id,
+      s.key,
+      s.name,
+      s.category,
+      COALESCE(s.color, '#6B7280'),
+      (s.ord - 1)::INTEGER,
+      s.wip_limit
+    FROM ROWS FROM (
+      jsonb_to_recordset(p_statuses) AS (key TEXT, name TEXT, category TEXT, color TEXT, wip_limit INTEGER)
+    ) WITH ORDINALITY AS s(key, name, category, color, wip_limit, ord)
+    ON CONFLICT (project_id, key) DO UPDATE
+    SET
+      name = EXCLUDED.name,
+      category = EXCLUDED.category,
+      color = EXCLUDED.color,
+      position = EXCLUDED.position,
+      wip_limit = EXCLUDED.wip_limit;
+
+    INSERT INTO workflow_transitions (project_id, from_status, to_status)
+    SELECT DISTINCT p_project_id, tr.from_status, tr.to_status
+    FROM jsonb_to_recordset(p_transitions) AS tr(from_status TEXT, to_status TEXT);
+  END IF;
+
+  -- A status may have changed category
+  UPDATE tasks t
+  SET status_category = ws.category
+  FROM project_workflow_statuses(p_project_id) ws
+  WHERE t.project_id = p_project_id
+    AND t.status = ws.key
+    AND t.status_category <> ws.category;
+END;
+$$;